@@ -32,14 +32,19 @@ import { colors } from '@/theme/colors';
 import { textStyles } from '@/theme/typography';
 import { ChatBubble } from '@/components/ChatBubble';
 import { NutritionCard } from '@/components/NutritionCard';
+import { ClarifyingQuestionsCard } from '@/components/ClarifyingQuestionsCard';
+import { BarcodeScannerModal } from '@/components/BarcodeScannerModal';
 import { ErrorBanner } from '@/components/ErrorBanner';
 import { AuroraBackground } from '@/components/AuroraBackground';
 import { BrandHeader } from '@/components/BrandHeader';
 import { PrimaryButton } from '@/components/PrimaryButton';
 import { useChatStore } from '@/store/chat';
 import { useSessionStore } from '@/store/session';
+import { useMealOutboxStore } from '@/store/outbox';
 import {
+  analyzeFoodLabel,
   cancelIngest,
+  clarifyMealLog,
   createFavoriteMeal,
   createLogFromFavorite,
   deleteFavoriteMeal,
@@ -49,13 +54,22 @@ import {
   getNotificationSettings,
   getStreak,
   getSession,
+  isMealLogClarification,
+  logFoodProduct,
+  lookupFoodBarcode,
+  openStatusStream,
   postMealLog,
+  splitMealLogEntry,
+  switchMealLogEstimateSource,
   translateMealLog,
   updateNotificationSettings,
+  type IngestStatusResponse,
   type MealLogResponse,
+  type MealLogClarificationResult,
   type ApiError,
 } from '@/services/api';
 import { hasDialogBeenSeen, markDialogSeen } from '@/services/dialog-tracker';
+import { persistOutboxImages } from '@/services/meal-outbox';
 import { registerPushTokenIfNeeded, requestPushPermissionIfNeeded } from '@/services/notifications';
 import { requestStoreReview } from '@/services/review';
 import { SUPPORT_EMAIL } from '@/config/legal';
@@ -67,8 +81,17 @@ import {
   REVIEW_TRIGGER_COUNTS,
 } from '@/services/review-tracker';
 import { describeLocale } from '@/utils/locale';
+import { isLikelyNetworkError } from '@/utils/network';
+import { buildProductCardPayload } from '@/utils/foodProduct';
 import type { ChatMessage, NutritionCardPayload } from '@/types/chat';
-import type { AiUsageSummary, FavoriteMeal, FavoriteMealDraft } from '@meal-log/shared';
+import { MEAL_LOG_MAX_IMAGES, STATUS_STREAM_MAX_TARGETS } from '@meal-log/shared';
+import type {
+  AiUsageSummary,
+  FavoriteMeal,
+  FavoriteMealDraft,
+  FoodProduct,
+  MealLogClarifyRequest,
+} from '@meal-log/shared';
 import { useTranslation, translateKey } from '@/i18n';
 import { trackEvent } from '@/analytics/track';
 
@@ -106,41 +129,6 @@ const PENDING_INGEST_NOT_FOUND_MS = 1000 * 60 * 2;
 const COMPOSER_MIN_HEIGHT = 44;
 const COMPOSER_MAX_HEIGHT = 120;
 const COMPOSER_LINE_HEIGHT = 22;
-const NETWORK_ERROR_PATTERNS = [
-  'Network request failed',
-  'The network connection was lost',
-  'A server with the specified hostname could not be found',
-  'offline',
-  'timed out',
-  'timeout',
-  'タイムアウト',
-];
-
-function isLikelyNetworkError(error: unknown): boolean {
-  if (!error) {
-    return false;
-  }
-  const code =
-    typeof (error as { code?: unknown }).code === 'string' ? (error as { code: string }).code : '';
-  if (code.startsWith('network.')) {
-    return true;
-  }
-  const name =
-    typeof (error as { name?: unknown }).name === 'string' ? (error as { name: string }).name : '';
-  if (name === 'AbortError') {
-    return true;
-  }
-  if (error instanceof TypeError) {
-    return true;
-  }
-  const message =
-    typeof (error as { message?: unknown }).message === 'string'
-      ? (error as { message: string }).message
-      : '';
-  return NETWORK_ERROR_PATTERNS.some((pattern) =>
-    message.toLowerCase().includes(pattern.toLowerCase()),
-  );
-}
 
 // ... (rest of the imports)
 
@@ -161,7 +149,13 @@ export default function ChatScreen() {
   const [analysisRequestInFlight, setAnalysisRequestInFlight] = useState(false);
   const [sharingId, setSharingId] = useState<string | null>(null);
   const [favoritesVisible, setFavoritesVisible] = useState(false);
+  const [scannerVisible, setScannerVisible] = useState(false);
+  const [pendingProduct, setPendingProduct] = useState<FoodProduct | null>(null);
+  const [barcodeStatus, setBarcodeStatus] = useState<'lookingUp' | 'readingLabel' | null>(null);
   const [addingFavoriteId, setAddingFavoriteId] = useState<string | null>(null);
+  const [splittingId, setSplittingId] = useState<string | null>(null);
+  const [switchingSourceId, setSwitchingSourceId] = useState<string | null>(null);
+  const [clarifyingId, setClarifyingId] = useState<string | null>(null);
   const [limitModalVisible, setLimitModalVisible] = useState(false);
   const [streakModalVisible, setStreakModalVisible] = useState(false);
   const [reviewModalVisible, setReviewModalVisible] = useState(false);
@@ -201,9 +195,10 @@ export default function ChatScreen() {
     updateMessageStatus,
     updateMessageIngest,
     attachCardToMessage,
+    setMessageClarification,
     updateCardForLog,
-    composingImageUri,
-    setComposingImage,
+    composingImageUris,
+    setComposingImages,
   } = useChatStore();
   const usage = useSessionStore((state) => state.usage);
   const setUsage = useSessionStore((state) => state.setUsage);
@@ -253,7 +248,7 @@ export default function ChatScreen() {
       }
       try {
         const settings = await getNotificationSettings();
-        if (settings.reminder_enabled || settings.important_enabled) {
+        if (settings.reminder_enabled || settings.important_enabled || settings.hydration_reminder_enabled) {
           await markDialogSeen('notifications-first-log', notificationPromptToken);
           return;
         }
@@ -332,6 +327,9 @@ export default function ChatScreen() {
         favoriteCandidate: response.favoriteCandidate,
         mealPeriod,
         timezone,
+        dishes: response.dishes,
+        calibrationApplied: response.calibrationApplied,
+        chainMenu: response.chainMenu ?? null,
       });
       logToAssistantIdRef.current.set(response.logId, placeholderId);
       setMessageText(placeholderId, buildAssistantSummary(response));
@@ -344,6 +342,22 @@ export default function ChatScreen() {
     [attachCardToMessage, maybePromptNotifications, maybeQueueReviewPrompt, requestTranslation, setMessageText],
   );
 
+  const presentClarification = useCallback(
+    (response: MealLogClarificationResult, placeholderId: string) => {
+      setMessageText(placeholderId, t('chat.clarify.intro'));
+      setMessageClarification(placeholderId, {
+        requestKey: response.requestKey,
+        dish: response.dish,
+        totals: response.totals,
+        questions: response.questions,
+      });
+      if (response.usage) {
+        setUsage(response.usage);
+      }
+    },
+    [setMessageClarification, setMessageText, setUsage, t],
+  );
+
   const [mediaPermission, requestMediaPermission] = ImagePicker.useMediaLibraryPermissions();
   const [cameraPermission, requestCameraPermission] = ImagePicker.useCameraPermissions();
 
@@ -388,6 +402,78 @@ export default function ChatScreen() {
     return [...byKey.values()].sort((a, b) => a.createdAt - b.createdAt);
   }, [messages]);
 
+  type PendingIngest = (typeof pendingIngests)[number];
+
+  const applyIngestStatus = useCallback(
+    (ingest: PendingIngest, status: IngestStatusResponse) => {
+      if (status.ok && status.status === 'done') {
+        updateMessageStatus(ingest.userMessageId, 'delivered');
+        updateMessageStatus(ingest.assistantMessageId, 'delivered');
+        renderMealLogResult(status.result, ingest.assistantMessageId);
+        if (status.result.usage) {
+          setUsage(status.result.usage);
+        }
+        setError(null);
+        queryClient.invalidateQueries({ queryKey: ['recentLogs'] });
+        queryClient.invalidateQueries({ queryKey: ['mealLogs'] });
+        queryClient.invalidateQueries({ queryKey: ['dashboardSummary'] });
+        queryClient.invalidateQueries({ queryKey: ['streak'] });
+        scrollToEnd();
+      } else if (status.ok && status.status === 'needs_clarification') {
+        updateMessageStatus(ingest.userMessageId, 'delivered');
+        presentClarification(status.clarification, ingest.assistantMessageId);
+        scrollToEnd();
+      } else if (status.ok && status.status === 'failed') {
+        updateMessageStatus(ingest.userMessageId, 'error');
+        updateMessageStatus(ingest.assistantMessageId, 'error');
+        setMessageText(ingest.assistantMessageId, status.message ?? t('chat.genericErrorBubble'));
+      } else if (status.ok && status.status === 'deferred') {
+        const nextCheckAt = status.nextCheckAt ? Date.parse(status.nextCheckAt) : null;
+        const deadlineAt = status.deadlineAt ? Date.parse(status.deadlineAt) : null;
+        updateMessageIngest(ingest.assistantMessageId, {
+          nextCheckAt: Number.isFinite(nextCheckAt) ? nextCheckAt : null,
+          deadlineAt: Number.isFinite(deadlineAt) ? deadlineAt : null,
+        });
+        setMessageText(ingest.assistantMessageId, t('chat.processingInBackground'));
+        updateMessageStatus(ingest.assistantMessageId, 'processing');
+      } else if (status.ok && status.status === 'processing') {
+        const now = Date.now();
+        const staleMs = ingest.hasImage ? PENDING_INGEST_STALE_MS_IMAGE : PENDING_INGEST_STALE_MS;
+        const deadlineMs = ingest.deadlineAt ?? null;
+        const tooOld = deadlineMs ? now > deadlineMs : now - ingest.createdAt > staleMs;
+        if (tooOld) {
+          updateMessageStatus(ingest.userMessageId, 'error');
+          updateMessageStatus(ingest.assistantMessageId, 'error');
+          setMessageText(ingest.assistantMessageId, t('chat.genericErrorBubble'));
+        }
+      }
+    },
+    [
+      presentClarification,
+      queryClient,
+      renderMealLogResult,
+      scrollToEnd,
+      setMessageText,
+      updateMessageIngest,
+      setUsage,
+      setError,
+      t,
+      updateMessageStatus,
+    ],
+  );
+
+  const applyIngestNotFound = useCallback(
+    (ingest: PendingIngest) => {
+      const tooOld = Date.now() - ingest.createdAt > PENDING_INGEST_NOT_FOUND_MS;
+      if (tooOld) {
+        updateMessageStatus(ingest.userMessageId, 'error');
+        updateMessageStatus(ingest.assistantMessageId, 'error');
+        setMessageText(ingest.assistantMessageId, t('chat.networkErrorBubble'));
+      }
+    },
+    [setMessageText, t, updateMessageStatus],
+  );
+
   const ingestRefreshInFlight = useRef(false);
   const refreshPendingIngests = useCallback(async () => {
     if (ingestRefreshInFlight.current) {
@@ -405,10 +491,17 @@ export default function ChatScreen() {
     ingestRefreshInFlight.current = true;
     try {
       const now = Date.now();
+      // Requests still in the outbox have not reached the server; the outbox sync reports back for them.
+      const queuedKeys = new Set(
+        useMealOutboxStore.getState().entries.map((entry) => entry.requestKey),
+      );
       for (const ingest of pendingIngests) {
         if (ingest.nextCheckAt && now < ingest.nextCheckAt) {
           continue;
         }
+        if (queuedKeys.has(ingest.requestKey)) {
+          continue;
+        }
         try {
           const status = await getIngestStatus(ingest.requestKey);
           if (__DEV__) {
@@ -417,42 +510,7 @@ export default function ChatScreen() {
               status: status.status,
             });
           }
-          if (status.ok && status.status === 'done') {
-            updateMessageStatus(ingest.userMessageId, 'delivered');
-            updateMessageStatus(ingest.assistantMessageId, 'delivered');
-            renderMealLogResult(status.result, ingest.assistantMessageId);
-            if (status.result.usage) {
-              setUsage(status.result.usage);
-            }
-            setError(null);
-            queryClient.invalidateQueries({ queryKey: ['recentLogs'] });
-            queryClient.invalidateQueries({ queryKey: ['mealLogs'] });
-            queryClient.invalidateQueries({ queryKey: ['dashboardSummary'] });
-            queryClient.invalidateQueries({ queryKey: ['streak'] });
-            scrollToEnd();
-          } else if (status.ok && status.status === 'failed') {
-            updateMessageStatus(ingest.userMessageId, 'error');
-            updateMessageStatus(ingest.assistantMessageId, 'error');
-            setMessageText(ingest.assistantMessageId, status.message ?? t('chat.genericErrorBubble'));
-          } else if (status.ok && status.status === 'deferred') {
-            const nextCheckAt = status.nextCheckAt ? Date.parse(status.nextCheckAt) : null;
-            const deadlineAt = status.deadlineAt ? Date.parse(status.deadlineAt) : null;
-            updateMessageIngest(ingest.assistantMessageId, {
-              nextCheckAt: Number.isFinite(nextCheckAt) ? nextCheckAt : null,
-              deadlineAt: Number.isFinite(deadlineAt) ? deadlineAt : null,
-            });
-            setMessageText(ingest.assistantMessageId, t('chat.processingInBackground'));
-            updateMessageStatus(ingest.assistantMessageId, 'processing');
-          } else if (status.ok && status.status === 'processing') {
-            const staleMs = ingest.hasImage ? PENDING_INGEST_STALE_MS_IMAGE : PENDING_INGEST_STALE_MS;
-            const deadlineMs = ingest.deadlineAt ?? null;
-            const tooOld = deadlineMs ? now > deadlineMs : now - ingest.createdAt > staleMs;
-            if (tooOld) {
-              updateMessageStatus(ingest.userMessageId, 'error');
-              updateMessageStatus(ingest.assistantMessageId, 'error');
-              setMessageText(ingest.assistantMessageId, t('chat.genericErrorBubble'));
-            }
-          }
+          applyIngestStatus(ingest, status);
         } catch (error) {
           if (__DEV__) {
             console.warn('[chat] ingest status fetch failed', {
@@ -461,34 +519,82 @@ export default function ChatScreen() {
             });
           }
           const apiError = error as ApiError;
-          const tooOld = Date.now() - ingest.createdAt > PENDING_INGEST_NOT_FOUND_MS;
-          if (apiError.status === 404 && tooOld) {
-            updateMessageStatus(ingest.userMessageId, 'error');
-            updateMessageStatus(ingest.assistantMessageId, 'error');
-            setMessageText(ingest.assistantMessageId, t('chat.networkErrorBubble'));
+          if (apiError.status === 404) {
+            applyIngestNotFound(ingest);
           }
         }
       }
     } finally {
       ingestRefreshInFlight.current = false;
     }
-  }, [
-    pendingIngests,
-    queryClient,
-    renderMealLogResult,
-    scrollToEnd,
-    setMessageText,
-    updateMessageIngest,
-    setUsage,
-    setError,
-    t,
-    updateMessageStatus,
-  ]);
+  }, [applyIngestNotFound, applyIngestStatus, pendingIngests]);
+
+  // While the status stream is open it pushes every transition and the 5s poll below stands down.
+  const statusStreamOpenRef = useRef(false);
+  const [statusStreamGeneration, setStatusStreamGeneration] = useState(0);
+  const queuedRequestKeys = useMealOutboxStore((state) =>
+    state.entries.map((entry) => entry.requestKey).join(','),
+  );
+  const streamIngestKeys = useMemo(() => {
+    const queued = new Set(queuedRequestKeys.split(','));
+    return pendingIngests
+      .map((entry) => entry.requestKey)
+      .filter((requestKey) => !queued.has(requestKey))
+      .slice(-STATUS_STREAM_MAX_TARGETS)
+      .join(',');
+  }, [pendingIngests, queuedRequestKeys]);
+  const pendingIngestsRef = useRef(pendingIngests);
+  pendingIngestsRef.current = pendingIngests;
+  const applyIngestStatusRef = useRef(applyIngestStatus);
+  applyIngestStatusRef.current = applyIngestStatus;
+  const applyIngestNotFoundRef = useRef(applyIngestNotFound);
+  applyIngestNotFoundRef.current = applyIngestNotFound;
+
+  useEffect(() => {
+    if (!streamIngestKeys) {
+      return;
+    }
+    const findIngest = (requestKey: string) =>
+      pendingIngestsRef.current.find((entry) => entry.requestKey === requestKey) ?? null;
+    const close = openStatusStream(
+      { ingestKeys: streamIngestKeys.split(',') },
+      {
+        onOpen: () => {
+          statusStreamOpenRef.current = true;
+        },
+        onIngest: (status) => {
+          const ingest = findIngest(status.requestKey);
+          if (ingest) {
+            applyIngestStatusRef.current(ingest, status);
+          }
+        },
+        onTargetError: (error) => {
+          const ingest = error.target === 'ingest' ? findIngest(error.id) : null;
+          if (ingest && error.status === 404) {
+            applyIngestNotFoundRef.current(ingest);
+          }
+        },
+        onClose: (reason) => {
+          statusStreamOpenRef.current = false;
+          if (reason === 'timeout') {
+            setStatusStreamGeneration((generation) => generation + 1);
+          }
+        },
+      },
+    );
+    return () => {
+      statusStreamOpenRef.current = false;
+      close();
+    };
+  }, [statusStreamGeneration, streamIngestKeys]);
 
   useEffect(() => {
     const sub = AppState.addEventListener('change', (state) => {
       if (state === 'active') {
         void refreshPendingIngests();
+        if (!statusStreamOpenRef.current) {
+          setStatusStreamGeneration((generation) => generation + 1);
+        }
       }
     });
     return () => sub.remove();
@@ -499,7 +605,11 @@ export default function ChatScreen() {
     if (!pendingIngests.length) {
       return;
     }
-    const poll = setInterval(() => void refreshPendingIngests(), 5000);
+    const poll = setInterval(() => {
+      if (!statusStreamOpenRef.current) {
+        void refreshPendingIngests();
+      }
+    }, 5000);
     return () => clearInterval(poll);
   }, [pendingIngests.length, refreshPendingIngests]);
 
@@ -815,7 +925,7 @@ export default function ChatScreen() {
   const canSend = !usage || usage.remaining > 0 || usage.credits > 0 || usageResetHasPassed;
   const isLimitReached = Boolean(usage) && !canSend;
   const hasTypedInput = input.trim().length > 0;
-  const hasAttachment = Boolean(composingImageUri);
+  const hasAttachment = composingImageUris.length > 0;
   const canSubmitMessage = hasTypedInput || hasAttachment;
   const analysisInProgress = analysisRequestInFlight || pendingIngests.length > 0;
   const sendButtonDisabled = analysisInProgress ? false : sending || !canSend || !canSubmitMessage;
@@ -994,7 +1104,7 @@ export default function ChatScreen() {
   const resetComposer = () => {
     inputValueRef.current = '';
     setInput('');
-    setComposingImage(null);
+    setComposingImages([]);
   };
 
   const updateComposerHeight = useCallback((text: string, contentHeight?: number) => {
@@ -1021,14 +1131,14 @@ export default function ChatScreen() {
   const submitMeal = async (
     rawMessage: string,
     options: {
-      imageUri?: string | null;
-      onSuccess?: (response: MealLogResponse) => void;
+      imageUris?: string[];
+      onSuccess?: (response: MealLogResponse | MealLogClarificationResult) => void;
       request?: () => Promise<MealLogResponse>;
       allowWithoutUsage?: boolean;
     } = {},
   ) => {
     const trimmedMessage = rawMessage.trim();
-    const hasImage = Boolean(options.imageUri);
+    const hasImage = Boolean(options.imageUris?.length);
     if (!trimmedMessage && !hasImage) {
       return null;
     }
@@ -1048,7 +1158,7 @@ export default function ChatScreen() {
 
     const displayMessage = trimmedMessage || (hasImage ? '' : rawMessage);
 
-    const userMessage = addUserMessage(displayMessage, { imageUri: options.imageUri ?? undefined });
+    const userMessage = addUserMessage(displayMessage, { imageUris: options.imageUris });
     const processingText = t('chat.processing');
     const requestKey = options.request ? null : `ingest_${Date.now()}_${nanoid(10)}`;
     activeRequestKeyRef.current = requestKey;
@@ -1075,13 +1185,19 @@ export default function ChatScreen() {
         (() =>
           postMealLog({
             message: trimmedMessage || rawMessage,
-            imageUri: options.imageUri ?? undefined,
+            imageUris: options.imageUris,
             idempotencyKey: requestKey ?? undefined,
             signal: abortController?.signal ?? undefined,
           }));
       const response = await requestFn();
       updateMessageStatus(userMessage.id, 'delivered');
 
+      if (isMealLogClarification(response)) {
+        presentClarification(response, assistantPlaceholder.id);
+        options.onSuccess?.(response);
+        return response;
+      }
+
       updateMessageStatus(assistantPlaceholder.id, 'delivered');
       renderMealLogResult(response, assistantPlaceholder.id);
       if (response.usage) {
@@ -1142,9 +1258,24 @@ export default function ChatScreen() {
       } else if (isLikelyNetworkError(apiError)) {
         updateMessageStatus(userMessage.id, 'delivered');
         updateMessageStatus(assistantPlaceholder.id, 'processing');
-        setMessageText(assistantPlaceholder.id, t('chat.processing'));
-        setError(t('chat.networkErrorBanner'));
-        void refreshPendingIngests();
+        const ownerId = useSessionStore.getState().user?.id;
+        if (requestKey && ownerId) {
+          // Re-sent from the outbox with the same key, so a first attempt that did get through is not logged twice.
+          useMealOutboxStore.getState().enqueue({
+            requestKey,
+            userId: ownerId,
+            message: trimmedMessage || rawMessage,
+            imageUris: await persistOutboxImages(requestKey, options.imageUris ?? []),
+            userMessageId: userMessage.id,
+            assistantMessageId: assistantPlaceholder.id,
+          });
+          setMessageText(assistantPlaceholder.id, t('chat.outbox.queued'));
+          setError(null);
+        } else {
+          setMessageText(assistantPlaceholder.id, t('chat.processing'));
+          setError(t('chat.networkErrorBanner'));
+          void refreshPendingIngests();
+        }
       } else {
         updateMessageStatus(userMessage.id, 'error');
         updateMessageStatus(assistantPlaceholder.id, 'error');
@@ -1174,6 +1305,7 @@ export default function ChatScreen() {
     }
 
     if (targetRequestKey) {
+      useMealOutboxStore.getState().remove(targetRequestKey);
       void cancelIngest(targetRequestKey).catch((error) => {
         if (__DEV__) {
           console.warn('[chat] cancel ingest failed', { requestKey: targetRequestKey, error });
@@ -1229,6 +1361,88 @@ export default function ChatScreen() {
     [createFavoriteMutation, t],
   );
 
+  const handleSplitCard = useCallback(
+    async (cardId: string, logId: string) => {
+      try {
+        setSplittingId(cardId);
+        const result = await splitMealLogEntry(logId);
+        updateCardForLog(logId, { splitCount: result.items.length });
+        queryClient.invalidateQueries({ queryKey: ['recentLogs'] });
+        queryClient.invalidateQueries({ queryKey: ['mealLogs'] });
+        queryClient.invalidateQueries({ queryKey: ['dashboardSummary'] });
+        queryClient.invalidateQueries({ queryKey: ['streak'] });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : t('card.dishes.splitFailed');
+        Alert.alert(t('card.dishes.splitFailed'), message);
+      } finally {
+        setSplittingId(null);
+      }
+    },
+    [queryClient, t, updateCardForLog],
+  );
+
+  const handleSwitchEstimateSource = useCallback(
+    async (cardId: string, logId: string, source: 'chain_menu' | 'ai') => {
+      try {
+        setSwitchingSourceId(cardId);
+        const result = await switchMealLogEstimateSource(logId, source);
+        if (result.usage) {
+          setUsage(result.usage);
+        }
+        updateCardForLog(logId, {
+          dish: result.item.food_item,
+          confidence: result.item.ai_raw?.confidence ?? 0.6,
+          totals: {
+            kcal: result.item.calories,
+            protein_g: result.item.protein_g,
+            fat_g: result.item.fat_g,
+            carbs_g: result.item.carbs_g,
+          },
+          items: result.item.ai_raw?.items ?? [],
+          chainMenu: result.item.chain_menu ?? null,
+        });
+        queryClient.invalidateQueries({ queryKey: ['recentLogs'] });
+        queryClient.invalidateQueries({ queryKey: ['mealLogs'] });
+        queryClient.invalidateQueries({ queryKey: ['dashboardSummary'] });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : t('common.tryAgainMessage');
+        Alert.alert(t('card.chainMenu.switchFailed'), message);
+      } finally {
+        setSwitchingSourceId(null);
+      }
+    },
+    [queryClient, setUsage, t, updateCardForLog],
+  );
+
+  const handleClarify = useCallback(
+    async (
+      messageId: string,
+      requestKey: string,
+      answers: MealLogClarifyRequest['answers'],
+    ) => {
+      try {
+        setClarifyingId(messageId);
+        const response = await clarifyMealLog(requestKey, answers);
+        setMessageClarification(messageId, null);
+        renderMealLogResult(response, messageId);
+        if (response.usage) {
+          setUsage(response.usage);
+        }
+        queryClient.invalidateQueries({ queryKey: ['recentLogs'] });
+        queryClient.invalidateQueries({ queryKey: ['mealLogs'] });
+        queryClient.invalidateQueries({ queryKey: ['dashboardSummary'] });
+        queryClient.invalidateQueries({ queryKey: ['streak'] });
+        scrollToEnd();
+      } catch (error) {
+        const message = error instanceof Error ? error.message : t('chat.clarify.failed');
+        Alert.alert(t('chat.clarify.failed'), message);
+      } finally {
+        setClarifyingId(null);
+      }
+    },
+    [queryClient, renderMealLogResult, scrollToEnd, setMessageClarification, setUsage, t],
+  );
+
   const buildMessageFromFavorite = (favorite: FavoriteMeal) => {
     const lines = [favorite.name];
     if (favorite.items.length) {
@@ -1285,13 +1499,13 @@ export default function ChatScreen() {
 
   const handleSend = async () => {
     const messageSnapshot = input;
-    const imageSnapshot = composingImageUri ?? null;
-    if (imageSnapshot) {
+    const imageSnapshot = composingImageUris;
+    if (imageSnapshot.length) {
       resetComposer();
     }
     const response = await submitMeal(messageSnapshot, {
-      imageUri: imageSnapshot,
-      onSuccess: imageSnapshot ? undefined : resetComposer,
+      imageUris: imageSnapshot,
+      onSuccess: imageSnapshot.length ? undefined : resetComposer,
     });
     if (!response) {
       return;
@@ -1324,6 +1538,11 @@ export default function ChatScreen() {
   }, [cameraPermission, requestCameraPermission]);
 
   const handleAttach = useCallback(async () => {
+    const remaining = MEAL_LOG_MAX_IMAGES - composingImageUris.length;
+    if (remaining <= 0) {
+      setError(t('chat.photoLimitReached', { max: MEAL_LOG_MAX_IMAGES }));
+      return;
+    }
     try {
       const permission = await ensureMediaLibraryPermission();
       if (!permission?.granted) {
@@ -1342,22 +1561,29 @@ export default function ChatScreen() {
         allowsEditing: false,
         quality: 0.8,
         exif: false,
-        selectionLimit: 1,
+        allowsMultipleSelection: remaining > 1,
+        selectionLimit: remaining,
       });
 
       if (!result.canceled) {
-        const uri = result.assets?.[0]?.uri ?? null;
-        if (uri) {
-          setComposingImage(uri);
+        const uris = (result.assets ?? [])
+          .map((asset) => asset.uri)
+          .filter((uri): uri is string => Boolean(uri));
+        if (uris.length) {
+          setComposingImages([...composingImageUris, ...uris].slice(0, MEAL_LOG_MAX_IMAGES));
         }
       }
     } catch (error) {
       console.warn('Failed to open media library', error);
       setError(t('chat.photoLoadFailed'));
     }
-  }, [ensureMediaLibraryPermission, setError, setComposingImage, t]);
+  }, [composingImageUris, ensureMediaLibraryPermission, setError, setComposingImages, t]);
 
   const handleTakePhoto = useCallback(async () => {
+    if (composingImageUris.length >= MEAL_LOG_MAX_IMAGES) {
+      setError(t('chat.photoLimitReached', { max: MEAL_LOG_MAX_IMAGES }));
+      return;
+    }
     try {
       const permission = await ensureCameraPermission();
       if (!permission?.granted) {
@@ -1382,14 +1608,128 @@ export default function ChatScreen() {
       if (!result.canceled) {
         const uri = result.assets?.[0]?.uri ?? null;
         if (uri) {
-          setComposingImage(uri);
+          setComposingImages([...composingImageUris, uri]);
         }
       }
     } catch (error) {
       console.warn('Failed to open camera', error);
       setError(t('chat.cameraLaunchFailed'));
     }
-  }, [ensureCameraPermission, setComposingImage, setError, t]);
+  }, [composingImageUris, ensureCameraPermission, setComposingImages, setError, t]);
+
+  const handleLabelCapture = useCallback(
+    async (code: string) => {
+      try {
+        const permission = await ensureCameraPermission();
+        if (!permission?.granted) {
+          setError(t('permissions.cameraDenied'));
+          return;
+        }
+        const result = await ImagePicker.launchCameraAsync({
+          mediaTypes: ['images'],
+          allowsEditing: false,
+          quality: 0.8,
+          exif: false,
+          cameraType: ImagePicker.CameraType.back,
+        });
+        const uri = result.canceled ? null : (result.assets?.[0]?.uri ?? null);
+        if (!uri) {
+          return;
+        }
+        setBarcodeStatus('readingLabel');
+        const response = await analyzeFoodLabel(code, uri);
+        if (response.usage) {
+          setUsage(response.usage);
+        }
+        setPendingProduct(response.product);
+      } catch (_error) {
+        const apiError = _error as ApiError;
+        if (apiError.code === 'AI_USAGE_LIMIT') {
+          const payload = apiError.data as AiUsageSummary | undefined;
+          if (payload) {
+            setUsage(payload);
+          }
+          setLimitModalVisible(true);
+        } else {
+          Alert.alert(t('barcode.lookupFailed'), apiError.message);
+        }
+      } finally {
+        setBarcodeStatus(null);
+      }
+    },
+    [ensureCameraPermission, setError, setUsage, t],
+  );
+
+  const handleBarcodeScanned = useCallback(
+    async (code: string) => {
+      setScannerVisible(false);
+      setBarcodeStatus('lookingUp');
+      try {
+        const response = await lookupFoodBarcode(code);
+        setBarcodeStatus(null);
+        if (response.product) {
+          setPendingProduct(response.product);
+          return;
+        }
+        Alert.alert(t('barcode.notFoundTitle'), t('barcode.notFoundMessage'), [
+          { text: t('barcode.photographLabel'), onPress: () => void handleLabelCapture(response.barcode) },
+          { text: t('common.cancel'), style: 'cancel' },
+        ]);
+      } catch (error) {
+        setBarcodeStatus(null);
+        const message = error instanceof Error ? error.message : undefined;
+        Alert.alert(t('barcode.lookupFailed'), message);
+      }
+    },
+    [handleLabelCapture, t],
+  );
+
+  const handleConfirmProduct = async () => {
+    const product = pendingProduct;
+    if (!product || sending) {
+      return;
+    }
+    setPendingProduct(null);
+    setSending(true);
+    setError(null);
+
+    const userMessage = addUserMessage(buildProductCardPayload(product).dish);
+    const assistantPlaceholder = addAssistantMessage(t('barcode.recording'), { status: 'sending' });
+    scrollToEnd();
+
+    try {
+      // Unconfirmed label reads are sent back so the server saves them for the next scan.
+      const response = await logFoodProduct(
+        product.barcode,
+        product.confirmed
+          ? {}
+          : {
+              product: {
+                name: product.name,
+                brand: product.brand ?? null,
+                serving: product.serving,
+                per_100g: product.per_100g,
+              },
+            },
+      );
+      updateMessageStatus(userMessage.id, 'delivered');
+      updateMessageStatus(assistantPlaceholder.id, 'delivered');
+      renderMealLogResult(response, assistantPlaceholder.id);
+      queryClient.invalidateQueries({ queryKey: ['recentLogs'] });
+      queryClient.invalidateQueries({ queryKey: ['mealLogs'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboardSummary'] });
+      queryClient.invalidateQueries({ queryKey: ['streak'] });
+    } catch (error) {
+      updateMessageStatus(userMessage.id, 'error');
+      updateMessageStatus(assistantPlaceholder.id, 'error');
+      const messageText = error instanceof Error ? error.message : t('barcode.lookupFailed');
+      setError(messageText);
+      Alert.alert(t('log.recordFailedTitle'), messageText);
+    } finally {
+      setSending(false);
+      scrollToEnd();
+    }
+  };
 
   const handlePhotoQuickAction = useCallback(() => {
     if (Platform.OS === 'ios') {
@@ -1431,6 +1771,12 @@ export default function ChatScreen() {
         label: t('chat.quickActions.photo'),
         onPress: handlePhotoQuickAction,
       },
+      {
+        key: 'barcode',
+        icon: 'maximize',
+        label: t('chat.quickActions.barcode'),
+        onPress: () => setScannerVisible(true),
+      },
       {
         key: 'favorite',
         icon: 'star',
@@ -1505,16 +1851,36 @@ export default function ChatScreen() {
     [],
   );
 
+  const renderClarification = useCallback(
+    (message: ChatMessage) => {
+      const clarification = message.clarification;
+      if (!clarification) {
+        return null;
+      }
+      return (
+        <ClarifyingQuestionsCard
+          clarification={clarification}
+          submitting={clarifyingId === message.id}
+          onSubmit={(answers) => handleClarify(message.id, clarification.requestKey, answers)}
+        />
+      );
+    },
+    [clarifyingId, handleClarify],
+  );
+
   const renderTimelineItem = useCallback(
     ({ item }: { item: TimelineItemMessage | TimelineItemCard }) =>
       item.type === 'message' ? (
-        <ChatBubble
-          message={
-            item.payload.card && item.payload.role === 'assistant'
-              ? { ...item.payload, text: t('chat.recordComplete') }
-              : item.payload
-          }
-        />
+        <>
+          <ChatBubble
+            message={
+              item.payload.card && item.payload.role === 'assistant'
+                ? { ...item.payload, text: t('chat.recordComplete') }
+                : item.payload
+            }
+          />
+          {renderClarification(item.payload)}
+        </>
       ) : (
         <NutritionCard
           payload={item.payload}
@@ -1526,10 +1892,36 @@ export default function ChatScreen() {
               : undefined
           }
           addingFavorite={addingFavoriteId === item.id}
-          onEdit={item.payload.logId ? () => handleEditLog(item.payload.logId) : undefined}
+          onEdit={
+            item.payload.logId && !item.payload.splitCount
+              ? () => handleEditLog(item.payload.logId)
+              : undefined
+          }
+          onSplit={
+            item.payload.logId ? () => handleSplitCard(item.id, item.payload.logId) : undefined
+          }
+          splitting={splittingId === item.id}
+          onSwitchEstimateSource={
+            item.payload.logId
+              ? (source) => handleSwitchEstimateSource(item.id, item.payload.logId, source)
+              : undefined
+          }
+          switchingSource={switchingSourceId === item.id}
         />
       ),
-    [addingFavoriteId, handleAddFavoriteFromCard, handleEditLog, handleShareCard, sharingId, t],
+    [
+      addingFavoriteId,
+      handleAddFavoriteFromCard,
+      handleEditLog,
+      handleShareCard,
+      handleSplitCard,
+      handleSwitchEstimateSource,
+      renderClarification,
+      sharingId,
+      splittingId,
+      switchingSourceId,
+      t,
+    ],
   );
 
   const renderEnhancedFooter = () => {
@@ -1558,6 +1950,7 @@ export default function ChatScreen() {
         {assistantBubbleMessage ? (
           <>
             <ChatBubble message={assistantBubbleMessage} />
+            {enhancedExchange.assistant ? renderClarification(enhancedExchange.assistant) : null}
             {assistantCard && assistantCardId ? (
               <NutritionCard
                 payload={assistantCard}
@@ -1569,7 +1962,24 @@ export default function ChatScreen() {
                     : undefined
                 }
                 addingFavorite={addingFavoriteId === assistantCardId}
-                onEdit={assistantCard.logId ? () => handleEditLog(assistantCard.logId) : undefined}
+                onEdit={
+                  assistantCard.logId && !assistantCard.splitCount
+                    ? () => handleEditLog(assistantCard.logId)
+                    : undefined
+                }
+                onSplit={
+                  assistantCard.logId
+                    ? () => handleSplitCard(assistantCardId, assistantCard.logId)
+                    : undefined
+                }
+                splitting={splittingId === assistantCardId}
+                onSwitchEstimateSource={
+                  assistantCard.logId
+                    ? (source) =>
+                        handleSwitchEstimateSource(assistantCardId, assistantCard.logId, source)
+                    : undefined
+                }
+                switchingSource={switchingSourceId === assistantCardId}
               />
             ) : null}
           </>
@@ -1656,15 +2066,24 @@ export default function ChatScreen() {
               </LinearGradient>
             ) : (
               <>
-                {composingImageUri ? (
-                  <View style={styles.previewContainer}>
-                    <Image source={{ uri: composingImageUri }} style={styles.preview} />
-                    <TouchableOpacity
-                      onPress={() => setComposingImage(null)}
-                      style={styles.removeImage}
-                    >
-                      <Text style={{ color: '#fff' }}>✕</Text>
-                    </TouchableOpacity>
+                {composingImageUris.length ? (
+                  <View style={styles.previewRow}>
+                    {composingImageUris.map((uri, index) => (
+                      <View key={`${uri}-${index}`} style={styles.previewContainer}>
+                        <Image
+                          source={{ uri }}
+                          style={[styles.preview, composingImageUris.length > 1 && styles.previewSmall]}
+                        />
+                        <TouchableOpacity
+                          onPress={() =>
+                            setComposingImages(composingImageUris.filter((_, i) => i !== index))
+                          }
+                          style={styles.removeImage}
+                        >
+                          <Text style={{ color: '#fff' }}>✕</Text>
+                        </TouchableOpacity>
+                      </View>
+                    ))}
                   </View>
                 ) : null}
                 <View style={styles.quickActionsRow}>
@@ -1909,6 +2328,49 @@ export default function ChatScreen() {
             )}
           </SafeAreaView>
         </Modal>
+        <BarcodeScannerModal
+          visible={scannerVisible}
+          onClose={() => setScannerVisible(false)}
+          onScanned={(code) => void handleBarcodeScanned(code)}
+        />
+        <Modal
+          visible={Boolean(pendingProduct || barcodeStatus)}
+          transparent
+          animationType="fade"
+          onRequestClose={() => setPendingProduct(null)}
+        >
+          <View style={styles.usageModalBackdrop}>
+            <View style={styles.usageModalCard}>
+              {pendingProduct ? (
+                <>
+                  <Text style={styles.usageModalTitle}>{t('barcode.confirmTitle')}</Text>
+                  <NutritionCard payload={buildProductCardPayload(pendingProduct)} />
+                  {!pendingProduct.confirmed ? (
+                    <Text style={styles.usageModalMessage}>{t('barcode.confirmAiNote')}</Text>
+                  ) : null}
+                  <View style={styles.usageModalActions}>
+                    <TouchableOpacity
+                      style={styles.usageModalPrimary}
+                      onPress={() => void handleConfirmProduct()}
+                    >
+                      <Text style={styles.usageModalPrimaryLabel}>{t('barcode.log')}</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={() => setPendingProduct(null)}>
+                      <Text style={styles.usageModalSecondary}>{t('common.cancel')}</Text>
+                    </TouchableOpacity>
+                  </View>
+                </>
+              ) : (
+                <>
+                  <ActivityIndicator color={colors.accent} />
+                  <Text style={styles.usageModalMessage}>
+                    {t(barcodeStatus === 'readingLabel' ? 'barcode.readingLabel' : 'barcode.lookingUp')}
+                  </Text>
+                </>
+              )}
+            </View>
+          </View>
+        </Modal>
         <Modal
           visible={limitModalVisible}
           transparent
@@ -2331,8 +2793,12 @@ const styles = StyleSheet.create({
     color: '#fff',
     fontWeight: '600',
   },
-  previewContainer: {
+  previewRow: {
+    flexDirection: 'row',
+    gap: 8,
     marginBottom: 12,
+  },
+  previewContainer: {
     position: 'relative',
     alignSelf: 'flex-start',
   },
@@ -2341,6 +2807,10 @@ const styles = StyleSheet.create({
     height: 120,
     borderRadius: 12,
   },
+  previewSmall: {
+    width: 76,
+    height: 76,
+  },
   removeImage: {
     position: 'absolute',
     top: 8,
@@ -21,6 +21,7 @@ import type {
   DashboardSummary,
   DashboardTargets,
 } from '@meal-log/shared';
+import { DEFAULT_HYDRATION_CUP_SIZES_ML } from '@meal-log/shared';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import {
   useDashboardSummary,
@@ -31,9 +32,13 @@ import {
   defaultCalorieChartConfig,
 } from '@/features/dashboard/components/CalorieBarChart';
 import { MonthlyCalorieChart } from '@/features/dashboard/components/MonthlyCalorieChart';
+import { WeightTrendChart } from '@/features/dashboard/components/WeightTrendChart';
+import { HydrationRing } from '@/features/dashboard/components/HydrationRing';
 import { MealPeriodBreakdown } from '@/features/dashboard/components/MealPeriodBreakdown';
+import { NutrientTable } from '@/features/dashboard/components/NutrientTable';
 
 import { EmptyStateCard } from '@/features/dashboard/components/EmptyStateCard';
+import { PeriodComparisonCard } from '@/features/dashboard/components/PeriodComparisonCard';
 
 import {
   type MacroRingProps,
@@ -59,11 +64,15 @@ import { buildFavoriteDraftFromDetail, buildFavoriteDraftFromSummary } from '@/u
 import { resolveDailyDashboardPeriod } from '@/utils/dayBoundary';
 import { DateTime } from 'luxon';
 import { usePremiumStore } from '@/store/premium';
+import { useMealOutboxStore } from '@/store/outbox';
+import { buildPendingMealLogRows, selectOwnOutboxEntries } from '@/utils/mealOutbox';
 import { useRouter } from 'expo-router';
 // Feather icon removed - now using emoji icons
 import { LinearGradient } from 'expo-linear-gradient';
 import { AuroraBackground } from '@/components/AuroraBackground';
 import { useCalorieTrend, type CalorieChartMode } from '@/features/dashboard/useCalorieTrend';
+import { WEIGHT_LOG_DAYS, useWeightLog } from '@/features/dashboard/useWeightLog';
+import { useHydration } from '@/features/dashboard/useHydration';
 
 const brandLogo = require('../../assets/brand/logo.png');
 type SegmentKey = 'daily' | 'weekly' | 'monthly';
@@ -105,6 +114,7 @@ export default function DashboardScreen() {
   const [logsRange, setLogsRange] = useState<MealLogRange>('today');
   const status = useSessionStore((state) => state.status);
   const userPlan = useSessionStore((state) => state.user?.plan ?? 'FREE');
+  const userId = useSessionStore((state) => state.user?.id ?? null);
   const setUser = useSessionStore((state) => state.setUser);
   const setStatus = useSessionStore((state) => state.setStatus);
   const setUsage = useSessionStore((state) => state.setUsage);
@@ -184,6 +194,8 @@ export default function DashboardScreen() {
   const chartMode: CalorieChartMode =
     segmentKey === 'monthly' ? 'monthly' : segmentKey === 'weekly' ? 'weekly' : 'daily';
   const calorieTrend = useCalorieTrend(chartMode, { enabled: isAuthenticated });
+  const weightLog = useWeightLog({ enabled: isAuthenticated });
+  const hydration = useHydration({ enabled: isAuthenticated });
   const monthlySummary = useMemo(() => {
     if (chartMode !== 'monthly' || !calorieTrend.points.length) {
       return null;
@@ -229,10 +241,17 @@ export default function DashboardScreen() {
   const emptyMessage =
     period === 'thisWeek' ? t('dashboard.empty.week') : t('dashboard.empty.generic');
   const chartEmptyLabel = t('dashboard.chart.empty');
-  const refreshing = isFetching || calorieTrend.isFetching || logsQuery.isFetching;
+  const refreshing =
+    isFetching ||
+    calorieTrend.isFetching ||
+    weightLog.isFetching ||
+    hydration.isFetching ||
+    logsQuery.isFetching;
   const handleRefresh = () => {
     refetch();
     calorieTrend.refetch();
+    weightLog.refetch();
+    hydration.refetch();
     logsQuery.refetch();
   };
 
@@ -270,6 +289,15 @@ export default function DashboardScreen() {
   });
 
   const logs = logsQuery.data?.items ?? [];
+  const outboxEntries = useMealOutboxStore((state) => state.entries);
+  const pendingLogs = useMemo(
+    () =>
+      buildPendingMealLogRows(
+        selectOwnOutboxEntries(outboxEntries, userId),
+        t('recentLogs.pending.photoOnly'),
+      ),
+    [outboxEntries, t, userId],
+  );
 
   const handleToggleFavorite = (log: MealLogSummary, targetState: boolean) => {
     setFavoriteToggleId(log.id);
@@ -445,6 +473,16 @@ export default function DashboardScreen() {
                 </>
               ) : null}
 
+              <HydrationRing
+                totalMl={hydration.day?.total_ml ?? data.summary.hydration.today_ml}
+                targetMl={hydration.day?.target_ml ?? data.summary.hydration.target_ml}
+                cupSizesMl={hydration.day?.cup_sizes_ml ?? [...DEFAULT_HYDRATION_CUP_SIZES_ML]}
+                lastEntry={hydration.day?.items[0] ?? null}
+                isSaving={hydration.isSaving}
+                onAdd={hydration.addEntry}
+                onUndo={hydration.removeEntry}
+              />
+
               <View style={styles.section}>
                 <View style={styles.card}>
                   {chartMode === 'monthly' && monthlySummary ? (
@@ -467,10 +505,25 @@ export default function DashboardScreen() {
                     />
                   )}
                 </View>
+                <WeightTrendChart
+                  trend={weightLog.trend}
+                  projection={weightLog.projection}
+                  days={WEIGHT_LOG_DAYS}
+                  isLoading={weightLog.isLoading}
+                  isSaving={weightLog.isSaving}
+                  onAdd={weightLog.addEntry}
+                />
                 <MealPeriodBreakdown entries={data.calories.mealPeriodBreakdown} />
+                {data.comparison.plan ? <PeriodComparisonCard comparison={data.comparison} /> : null}
                 {showEmpty && <EmptyStateCard message={emptyMessage} />}
               </View>
 
+              {data.nutrients.length > 0 && !showEmpty ? (
+                <View style={styles.section}>
+                  <NutrientTable data={data.nutrients} />
+                </View>
+              ) : null}
+
               <View style={styles.section}>
                 {logsQuery.isLoading ? (
                   <ActivityIndicator size="small" color={colors.accent} />
@@ -481,6 +534,7 @@ export default function DashboardScreen() {
                     onRangeChange={setLogsRange}
                     onToggleFavorite={handleToggleFavorite}
                     togglingId={favoriteToggleId}
+                    pendingLogs={pendingLogs}
                   />
                 )}
               </View>
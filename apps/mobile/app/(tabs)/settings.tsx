@@ -36,12 +36,30 @@ export default function SettingsScreen() {
         icon: <Feather name="target" size={20} color={colors.textPrimary} />,
         action: () => router.push('/settings/nutrition'),
       },
+      {
+        key: 'portions',
+        label: t('settings.menu.portions'),
+        icon: <Feather name="sliders" size={20} color={colors.textPrimary} />,
+        action: () => router.push('/settings/portions'),
+      },
       {
         key: 'weight',
         label: t('settings.menu.weight'),
         icon: <Feather name="flag" size={20} color={colors.textPrimary} />,
         action: () => router.push('/settings/profile'),
       },
+      {
+        key: 'recipes',
+        label: t('settings.menu.recipes'),
+        icon: <Feather name="book-open" size={20} color={colors.textPrimary} />,
+        action: () => router.push('/recipes'),
+      },
+      {
+        key: 'planner',
+        label: t('settings.menu.planner'),
+        icon: <Feather name="calendar" size={20} color={colors.textPrimary} />,
+        action: () => router.push('/planner'),
+      },
       {
         key: 'notifications',
         label: t('settings.notifications.screenTitle'),
@@ -9,6 +9,7 @@ import { useLocaleBootstrap } from '@/hooks/useLocaleBootstrap';
 import { useReferralDeepLink } from '@/hooks/useReferralDeepLink';
 import { useNotificationBootstrap } from '@/hooks/useNotificationBootstrap';
 import { useIapSync } from '@/hooks/useIapSync';
+import { useMealOutboxSync } from '@/hooks/useMealOutboxSync';
 import { useTranslation } from '@/i18n';
 import { colors } from '@/theme/colors';
 
@@ -19,6 +20,7 @@ export default function RootLayout() {
   useReferralDeepLink();
   useNotificationBootstrap();
   useIapSync();
+  useMealOutboxSync(queryClient);
   const { t } = useTranslation();
 
   return (
@@ -58,6 +60,24 @@ export default function RootLayout() {
                 headerBackTitle: t('common.back'),
               }}
             />
+            <Stack.Screen
+              name="settings/portions"
+              options={{
+                headerShown: true,
+                title: t('screen.settingsPortions'),
+                headerBackTitleVisible: true,
+                headerBackTitle: t('common.back'),
+              }}
+            />
+            <Stack.Screen
+              name="settings/sessions"
+              options={{
+                headerShown: true,
+                title: t('screen.settingsSessions'),
+                headerBackTitleVisible: true,
+                headerBackTitle: t('common.back'),
+              }}
+            />
             <Stack.Screen
               name="settings/profile"
               options={{
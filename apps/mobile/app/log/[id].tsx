@@ -12,6 +12,7 @@ import {
   View,
 } from 'react-native';
 import { useLocalSearchParams, useRouter } from 'expo-router';
+import { Feather } from '@expo/vector-icons';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import {
   createFavoriteMeal,
@@ -19,9 +20,11 @@ import {
   deleteMealLogEntry,
   getMealLogDetail,
   getMealLogShare,
+  resolveMealLogReanalysis,
   restoreMealLogEntry,
   updateMealLog,
 } from '@/services/api';
+import { ReanalysisProposalCard } from '@/components/ReanalysisProposalCard';
 import { colors } from '@/theme/colors';
 import { spacing } from '@/theme/spacing';
 import { textStyles } from '@/theme/typography';
@@ -29,24 +32,23 @@ import { buildFavoriteDraftFromDetail } from '@/utils/favorites';
 import { useTranslation } from '@/i18n';
 import { describeLocale } from '@/utils/locale';
 import { useChatStore } from '@/store/chat';
+import {
+  createItemField,
+  previewItemTotals,
+  toItemFields,
+  toItemInputs,
+  type MealLogItemField,
+} from '@/utils/mealLogItems';
 
 type MealPeriodValue = 'breakfast' | 'lunch' | 'dinner' | 'snack';
 
 type FieldState = {
   dish: string;
-  calories: string;
-  protein: string;
-  fat: string;
-  carbs: string;
   mealPeriod: MealPeriodValue | null;
 };
 
 const initialState: FieldState = {
   dish: '',
-  calories: '',
-  protein: '',
-  fat: '',
-  carbs: '',
   mealPeriod: null,
 };
 
@@ -55,6 +57,7 @@ export default function MealLogDetailScreen() {
   const router = useRouter();
   const queryClient = useQueryClient();
   const [fields, setFields] = useState<FieldState>(initialState);
+  const [itemFields, setItemFields] = useState<MealLogItemField[]>([]);
   const [sharing, setSharing] = useState(false);
   const [deleting, setDeleting] = useState(false);
   const { locale, t } = useTranslation();
@@ -82,12 +85,9 @@ export default function MealLogDetailScreen() {
       const item = detailQuery.data.item;
       setFields({
         dish: item.food_item,
-        calories: item.calories.toString(),
-        protein: item.protein_g.toString(),
-        fat: item.fat_g.toString(),
-        carbs: item.carbs_g.toString(),
         mealPeriod: (item.meal_period as MealPeriodValue | null) ?? null,
       });
+      setItemFields(toItemFields(item.items));
     }
   }, [detailQuery.data?.item]);
 
@@ -96,11 +96,8 @@ export default function MealLogDetailScreen() {
       if (!logId) return null;
       return updateMealLog(logId, {
         food_item: fields.dish,
-        calories: Number(fields.calories),
-        protein_g: Number(fields.protein),
-        fat_g: Number(fields.fat),
-        carbs_g: Number(fields.carbs),
         meal_period: fields.mealPeriod ?? undefined,
+        items: toItemInputs(itemFields) ?? undefined,
       });
     },
     onSuccess: (result) => {
@@ -150,18 +147,70 @@ export default function MealLogDetailScreen() {
     },
   });
 
+  const reanalysisMutation = useMutation({
+    mutationFn: (action: 'accept' | 'dismiss') => resolveMealLogReanalysis(logId, action),
+    onSuccess: (result, action) => {
+      queryClient.setQueryData(['logDetail', logId, locale], result);
+      if (action !== 'accept') {
+        return;
+      }
+      invalidateQueries(logId);
+      updateCardForLog(logId, {
+        dish: result.item.food_item,
+        mealPeriod: result.item.meal_period ?? null,
+        totals: {
+          kcal: result.item.calories,
+          protein_g: result.item.protein_g,
+          fat_g: result.item.fat_g,
+          carbs_g: result.item.carbs_g,
+        },
+      });
+    },
+    onError: (error: unknown) => {
+      const message = error instanceof Error ? error.message : t('common.tryAgainMessage');
+      Alert.alert(t('log.reanalysis.failed'), message);
+    },
+  });
+
   const detail = detailQuery.data?.item;
   const isLoading = detailQuery.isLoading;
 
+  const previewTotals = useMemo(
+    () => previewItemTotals(detail?.items ?? [], itemFields),
+    [detail?.items, itemFields],
+  );
+
   const handleChange = (key: keyof FieldState, value: string | MealPeriodValue | null) => {
     setFields((prev) => ({ ...prev, [key]: value }));
   };
 
+  const handleItemChange = (key: string, field: keyof MealLogItemField, value: string) => {
+    setItemFields((prev) =>
+      prev.map((item) => (item.key === key ? { ...item, [field]: value } : item)),
+    );
+  };
+
+  const handleRemoveItem = (key: string) => {
+    setItemFields((prev) => prev.filter((item) => item.key !== key));
+  };
+
+  const handleAddItem = () => {
+    setItemFields((prev) => [...prev, createItemField()]);
+  };
+
   const handleSave = () => {
     if (!fields.dish.trim()) {
       Alert.alert(t('log.enterDishName'));
       return;
     }
+    if (itemFields.length === 0) {
+      Alert.alert(t('log.items.required'));
+      return;
+    }
+    if (!toItemInputs(itemFields)) {
+      Alert.alert(t('log.items.invalid'));
+      return;
+    }
 
     mutation.mutate();
   };
@@ -295,6 +344,13 @@ export default function MealLogDetailScreen() {
             </TouchableOpacity>
           </View>
           {detail.image_url ? <Image source={{ uri: detail.image_url }} style={styles.heroImage} /> : null}
+          {detail.reanalysis ? (
+            <ReanalysisProposalCard
+              reanalysis={detail.reanalysis}
+              submitting={reanalysisMutation.isPending}
+              onResolve={(action) => reanalysisMutation.mutate(action)}
+            />
+          ) : null}
 
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>{t('log.section.basicInfo')}</Text>
@@ -317,33 +373,11 @@ export default function MealLogDetailScreen() {
               placeholder={t('log.placeholder.dish')}
             />
 
-            <View style={styles.gridRow}>
-              <FieldInput
-                label={t('log.label.calories')}
-                unit="kcal"
-                value={fields.calories}
-                onChangeText={(text) => handleChange('calories', text)}
-              />
-              <FieldInput
-                label={t('macro.protein')}
-                unit="g"
-                value={fields.protein}
-                onChangeText={(text) => handleChange('protein', text)}
-              />
-            </View>
-            <View style={styles.gridRow}>
-              <FieldInput
-                label={t('macro.fat')}
-                unit="g"
-                value={fields.fat}
-                onChangeText={(text) => handleChange('fat', text)}
-              />
-              <FieldInput
-                label={t('macro.carbs')}
-                unit="g"
-                value={fields.carbs}
-                onChangeText={(text) => handleChange('carbs', text)}
-              />
+            <View style={styles.totalsRow}>
+              <TotalStat label={t('log.label.calories')} value={previewTotals?.kcal} unit="kcal" />
+              <TotalStat label={t('macro.protein')} value={previewTotals?.protein_g} unit="g" />
+              <TotalStat label={t('macro.fat')} value={previewTotals?.fat_g} unit="g" />
+              <TotalStat label={t('macro.carbs')} value={previewTotals?.carbs_g} unit="g" />
             </View>
 
             <Text style={[styles.label, { marginTop: spacing.lg }]}>{t('log.label.mealPeriod')}</Text>
@@ -363,6 +397,75 @@ export default function MealLogDetailScreen() {
             </View>
           </View>
 
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{t('log.section.items')}</Text>
+            <Text style={styles.fallbackNote}>{t('log.items.hint')}</Text>
+            {itemFields.map((item) => (
+              <View key={item.key} style={styles.itemCard}>
+                <View style={styles.itemHeader}>
+                  <TextInput
+                    value={item.name}
+                    onChangeText={(text) => handleItemChange(item.key, 'name', text)}
+                    style={[styles.input, styles.itemNameInput]}
+                    placeholder={t('log.items.namePlaceholder')}
+                  />
+                  <TouchableOpacity
+                    onPress={() => handleRemoveItem(item.key)}
+                    hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                    accessibilityRole="button"
+                    accessibilityLabel={t('log.items.remove')}
+                  >
+                    <Feather name="trash-2" size={18} color={colors.error} />
+                  </TouchableOpacity>
+                </View>
+                <View style={styles.gridRow}>
+                  <FieldInput
+                    label={t('log.items.grams')}
+                    unit="g"
+                    value={item.grams}
+                    onChangeText={(text) => handleItemChange(item.key, 'grams', text)}
+                  />
+                  {item.id === undefined ? (
+                    <FieldInput
+                      label={t('log.label.calories')}
+                      unit="kcal"
+                      value={item.calories}
+                      onChangeText={(text) => handleItemChange(item.key, 'calories', text)}
+                    />
+                  ) : (
+                    <View style={styles.gridSpacer} />
+                  )}
+                </View>
+                {item.id === undefined ? (
+                  <View style={styles.gridRow}>
+                    <FieldInput
+                      label={t('macro.protein')}
+                      unit="g"
+                      value={item.protein}
+                      onChangeText={(text) => handleItemChange(item.key, 'protein', text)}
+                    />
+                    <FieldInput
+                      label={t('macro.fat')}
+                      unit="g"
+                      value={item.fat}
+                      onChangeText={(text) => handleItemChange(item.key, 'fat', text)}
+                    />
+                    <FieldInput
+                      label={t('macro.carbs')}
+                      unit="g"
+                      value={item.carbs}
+                      onChangeText={(text) => handleItemChange(item.key, 'carbs', text)}
+                    />
+                  </View>
+                ) : null}
+              </View>
+            ))}
+            <TouchableOpacity style={styles.addItemButton} onPress={handleAddItem}>
+              <Feather name="plus" size={16} color={colors.accent} />
+              <Text style={styles.addItemLabel}>{t('log.items.add')}</Text>
+            </TouchableOpacity>
+          </View>
+
           <TouchableOpacity
             style={[styles.saveButton, mutation.isLoading && styles.saveButtonDisabled]}
             onPress={handleSave}
@@ -386,7 +489,7 @@ export default function MealLogDetailScreen() {
                   </Text>
                   {Object.entries(entry.changes).map(([field, change]) => (
                     <Text key={field} style={styles.historyChange}>
-                      {formatFieldLabel(field, t)}: {formatChange(change)}
+                      {formatFieldLabel(field, t)}: {formatChange(field, change, t)}
                     </Text>
                   ))}
                 </View>
@@ -451,6 +554,15 @@ function FieldInput({
   );
 }
 
+function TotalStat({ label, value, unit }: { label: string; value: number | undefined; unit: string }) {
+  return (
+    <View style={styles.totalStat}>
+      <Text style={styles.label}>{label}</Text>
+      <Text style={styles.totalValue}>{value === undefined ? '-' : `${value}${unit}`}</Text>
+    </View>
+  );
+}
+
 function formatTimestamp(iso: string, locale: string) {
   return new Date(iso).toLocaleString(locale, {
     month: 'numeric',
@@ -491,13 +603,24 @@ function formatFieldLabel(field: string, t: Translator) {
     case 'mealPeriod':
       return t('log.field.mealPeriod');
     default:
-      return field;
+      return field.startsWith('item:') ? t('log.field.item') : field;
   }
 }
 
-function formatChange(change: unknown) {
+type ItemSnapshot = { name: string; grams: number; calories: number };
+
+function formatChange(field: string, change: unknown, t: Translator) {
   if (!change || typeof change !== 'object') return '-';
   const record = change as { before?: unknown; after?: unknown };
+  if (field.startsWith('item:')) {
+    const before = record.before as ItemSnapshot | null;
+    const after = record.after as ItemSnapshot | null;
+    const describe = (item: ItemSnapshot) => `${item.name} ${item.grams}g`;
+    if (!before && after) return t('log.items.added', { item: describe(after) });
+    if (before && !after) return t('log.items.removed', { item: describe(before) });
+    if (before && after) return `${describe(before)} → ${describe(after)}`;
+    return '-';
+  }
   return `${record.before ?? '-'} → ${record.after ?? '-'}`;
 }
 
@@ -605,6 +728,52 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     gap: spacing.md,
   },
+  totalsRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    marginTop: spacing.sm,
+  },
+  totalStat: {
+    flex: 1,
+    gap: 2,
+  },
+  totalValue: {
+    ...textStyles.body,
+    fontWeight: '600',
+  },
+  itemCard: {
+    backgroundColor: colors.surface,
+    borderRadius: 16,
+    padding: spacing.md,
+    gap: spacing.sm,
+  },
+  itemNameInput: {
+    flex: 1,
+  },
+  gridSpacer: {
+    flex: 1,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  addItemButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.xs,
+    borderWidth: 1,
+    borderColor: colors.accent,
+    borderStyle: 'dashed',
+    borderRadius: 16,
+    paddingVertical: spacing.sm,
+  },
+  addItemLabel: {
+    ...textStyles.caption,
+    color: colors.accent,
+    fontWeight: '600',
+  },
   mealPeriodRow: {
     flexDirection: 'row',
     flexWrap: 'wrap',
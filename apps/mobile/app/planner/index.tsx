@@ -0,0 +1,638 @@
+import React, { useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { DateTime } from 'luxon';
+import type {
+  MealPeriod,
+  PlannedMeal,
+  PlannedMealCreateRequest,
+  PlannedMealSource,
+} from '@meal-log/shared';
+import { colors } from '@/theme/colors';
+import { spacing } from '@/theme/spacing';
+import { textStyles } from '@/theme/typography';
+import {
+  createPlannedMeal,
+  deletePlannedMeal,
+  getFavorites,
+  getPlannedMeals,
+  getRecipes,
+  markPlannedMealEaten,
+} from '@/services/api';
+import { getIntlLocale, useTranslation } from '@/i18n';
+
+const MEAL_PERIODS: MealPeriod[] = ['breakfast', 'lunch', 'dinner', 'snack'];
+const SOURCES: PlannedMealSource[] = ['favorite', 'recipe', 'text'];
+
+interface PlanFormState {
+  date: string;
+  mealPeriod: MealPeriod;
+  source: PlannedMealSource;
+  favoriteId: number | null;
+  recipeId: number | null;
+  servings: string;
+  name: string;
+  kcal: string;
+  protein: string;
+  fat: string;
+  carbs: string;
+}
+
+export default function PlannerScreen() {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { t, locale } = useTranslation();
+  const [weekStart, setWeekStart] = useState(() => DateTime.now().startOf('day'));
+  const [form, setForm] = useState<PlanFormState | null>(null);
+
+  const from = weekStart.toISODate()!;
+  const to = weekStart.plus({ days: 6 }).toISODate()!;
+
+  const plansQuery = useQuery({
+    queryKey: ['plannedMeals', from, to],
+    queryFn: () => getPlannedMeals({ from, to }),
+  });
+  const favoritesQuery = useQuery({
+    queryKey: ['favorites'],
+    queryFn: getFavorites,
+    enabled: form?.source === 'favorite',
+  });
+  const recipesQuery = useQuery({
+    queryKey: ['recipes'],
+    queryFn: getRecipes,
+    enabled: form?.source === 'recipe',
+  });
+
+  const days = useMemo(() => {
+    const items = plansQuery.data?.items ?? [];
+    return Array.from({ length: 7 }, (_, index) => {
+      const day = weekStart.plus({ days: index });
+      const date = day.toISODate()!;
+      const entries = items
+        .filter((item) => item.date === date)
+        .sort((a, b) => MEAL_PERIODS.indexOf(a.meal_period) - MEAL_PERIODS.indexOf(b.meal_period));
+      return {
+        date,
+        label: day.setLocale(getIntlLocale(locale)).toLocaleString({
+          month: 'numeric',
+          day: 'numeric',
+          weekday: 'short',
+        }),
+        entries,
+        plannedKcal: Math.round(entries.reduce((acc, entry) => acc + entry.totals.kcal, 0)),
+      };
+    });
+  }, [plansQuery.data, weekStart, locale]);
+
+  const createMutation = useMutation({
+    mutationFn: (payload: PlannedMealCreateRequest) => createPlannedMeal(payload),
+    onSuccess: () => {
+      invalidatePlans();
+      setForm(null);
+    },
+    onError: (error: unknown) => {
+      const message = error instanceof Error ? error.message : t('planner.saveFailedMessage');
+      Alert.alert(t('planner.saveFailedTitle'), message);
+    },
+  });
+
+  const eatMutation = useMutation({
+    mutationFn: (id: number) => markPlannedMealEaten(id),
+    onSuccess: () => {
+      invalidatePlans();
+      queryClient.invalidateQueries({ queryKey: ['recentLogs', locale] });
+      queryClient.invalidateQueries({ queryKey: ['mealLogs'] });
+      queryClient.invalidateQueries({ queryKey: ['streak'] });
+      Alert.alert(t('planner.eatSuccess'));
+    },
+    onError: (error: unknown) => {
+      const message = error instanceof Error ? error.message : t('planner.eatFailedMessage');
+      Alert.alert(t('planner.eatFailedTitle'), message);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => deletePlannedMeal(id),
+    onSuccess: () => invalidatePlans(),
+    onError: (error: unknown) => {
+      const message = error instanceof Error ? error.message : t('planner.deleteFailedMessage');
+      Alert.alert(t('planner.deleteFailedTitle'), message);
+    },
+  });
+
+  const handleDelete = (entry: PlannedMeal) => {
+    Alert.alert(
+      t('planner.deleteConfirmTitle'),
+      t('planner.deleteConfirmMessage', { name: entry.name }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: () => deleteMutation.mutate(entry.id),
+        },
+      ],
+    );
+  };
+
+  const handleSubmit = () => {
+    if (!form) return;
+    const payload = toCreateRequest(form);
+    if (!payload) {
+      Alert.alert(t('planner.requiredTitle'), t(`planner.requiredMessage.${form.source}`));
+      return;
+    }
+    createMutation.mutate(payload);
+  };
+
+  const updateForm = (patch: Partial<PlanFormState>) => {
+    setForm((prev) => (prev ? { ...prev, ...patch } : prev));
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'left', 'right']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Text style={styles.backLabel}>{t('common.back')}</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>{t('planner.title')}</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <View style={styles.weekRow}>
+        <TouchableOpacity onPress={() => setWeekStart((prev) => prev.minus({ weeks: 1 }))}>
+          <Text style={styles.linkLabel}>{t('planner.previousWeek')}</Text>
+        </TouchableOpacity>
+        <Text style={styles.weekLabel}>
+          {days[0].label} – {days[6].label}
+        </Text>
+        <TouchableOpacity onPress={() => setWeekStart((prev) => prev.plus({ weeks: 1 }))}>
+          <Text style={styles.linkLabel}>{t('planner.nextWeek')}</Text>
+        </TouchableOpacity>
+      </View>
+
+      {plansQuery.isLoading ? (
+        <View style={styles.loading}>
+          <ActivityIndicator color={colors.accent} />
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          {days.map((day) => (
+            <View key={day.date} style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <View>
+                  <Text style={styles.sectionTitle}>{day.label}</Text>
+                  {day.entries.length > 0 ? (
+                    <Text style={styles.caption}>
+                      {t('planner.dayTotal', { kcal: day.plannedKcal })}
+                    </Text>
+                  ) : null}
+                </View>
+                <TouchableOpacity onPress={() => setForm(emptyForm(day.date))}>
+                  <Text style={styles.linkLabel}>{t('planner.add')}</Text>
+                </TouchableOpacity>
+              </View>
+
+              {day.entries.length === 0 ? (
+                <Text style={styles.caption}>{t('planner.emptyDay')}</Text>
+              ) : null}
+              {day.entries.map((entry) => (
+                <View key={entry.id} style={styles.itemCard}>
+                  <View style={styles.itemHeaderRow}>
+                    <Text style={styles.caption}>{t(`meal.${entry.meal_period}`)}</Text>
+                    {entry.status === 'eaten' ? (
+                      <Text style={styles.eatenBadge}>{t('planner.eaten')}</Text>
+                    ) : null}
+                  </View>
+                  <Text style={styles.itemName}>{entry.name}</Text>
+                  <Text style={styles.caption}>
+                    {entry.source === 'recipe'
+                      ? t('planner.entrySummaryServings', {
+                          kcal: Math.round(entry.totals.kcal),
+                          servings: entry.servings,
+                        })
+                      : t('planner.entrySummary', { kcal: Math.round(entry.totals.kcal) })}
+                  </Text>
+                  {entry.status === 'planned' ? (
+                    <View style={styles.row}>
+                      <TouchableOpacity
+                        style={[
+                          styles.primaryButton,
+                          eatMutation.isPending && styles.buttonDisabled,
+                        ]}
+                        onPress={() => eatMutation.mutate(entry.id)}
+                        disabled={eatMutation.isPending}
+                      >
+                        <Text style={styles.primaryButtonLabel}>{t('planner.markEaten')}</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={styles.secondaryButton}
+                        onPress={() => handleDelete(entry)}
+                      >
+                        <Text style={styles.secondaryButtonLabel}>{t('common.delete')}</Text>
+                      </TouchableOpacity>
+                    </View>
+                  ) : null}
+                </View>
+              ))}
+
+              {form?.date === day.date ? (
+                <View style={styles.itemCard}>
+                  <View style={styles.chipRow}>
+                    {MEAL_PERIODS.map((period) => (
+                      <Chip
+                        key={period}
+                        label={t(`meal.${period}`)}
+                        selected={form.mealPeriod === period}
+                        onPress={() => updateForm({ mealPeriod: period })}
+                      />
+                    ))}
+                  </View>
+                  <View style={styles.chipRow}>
+                    {SOURCES.map((source) => (
+                      <Chip
+                        key={source}
+                        label={t(`planner.source.${source}`)}
+                        selected={form.source === source}
+                        onPress={() => updateForm({ source })}
+                      />
+                    ))}
+                  </View>
+
+                  {form.source === 'favorite' ? (
+                    <View style={styles.chipRow}>
+                      {(favoritesQuery.data?.items ?? []).map((favorite) => (
+                        <Chip
+                          key={favorite.id}
+                          label={favorite.name}
+                          selected={form.favoriteId === favorite.id}
+                          onPress={() => updateForm({ favoriteId: favorite.id })}
+                        />
+                      ))}
+                      {favoritesQuery.data && favoritesQuery.data.items.length === 0 ? (
+                        <Text style={styles.caption}>{t('planner.noFavorites')}</Text>
+                      ) : null}
+                    </View>
+                  ) : null}
+
+                  {form.source === 'recipe' ? (
+                    <>
+                      <View style={styles.chipRow}>
+                        {(recipesQuery.data ?? []).map((recipe) => (
+                          <Chip
+                            key={recipe.id}
+                            label={recipe.name}
+                            selected={form.recipeId === recipe.id}
+                            onPress={() => updateForm({ recipeId: recipe.id })}
+                          />
+                        ))}
+                        {recipesQuery.data && recipesQuery.data.length === 0 ? (
+                          <Text style={styles.caption}>{t('planner.noRecipes')}</Text>
+                        ) : null}
+                      </View>
+                      <FieldInput
+                        label={t('planner.field.servings')}
+                        value={form.servings}
+                        onChangeText={(servings) => updateForm({ servings })}
+                        keyboardType="numeric"
+                      />
+                    </>
+                  ) : null}
+
+                  {form.source === 'text' ? (
+                    <>
+                      <TextInput
+                        value={form.name}
+                        onChangeText={(name) => updateForm({ name })}
+                        style={styles.input}
+                        placeholder={t('planner.namePlaceholder')}
+                      />
+                      <View style={styles.row}>
+                        <FieldInput
+                          label="kcal"
+                          value={form.kcal}
+                          onChangeText={(kcal) => updateForm({ kcal })}
+                          keyboardType="numeric"
+                        />
+                        <FieldInput
+                          label={t('macro.protein')}
+                          value={form.protein}
+                          onChangeText={(protein) => updateForm({ protein })}
+                          keyboardType="numeric"
+                        />
+                        <FieldInput
+                          label={t('macro.fat')}
+                          value={form.fat}
+                          onChangeText={(fat) => updateForm({ fat })}
+                          keyboardType="numeric"
+                        />
+                        <FieldInput
+                          label={t('macro.carbs')}
+                          value={form.carbs}
+                          onChangeText={(carbs) => updateForm({ carbs })}
+                          keyboardType="numeric"
+                        />
+                      </View>
+                    </>
+                  ) : null}
+
+                  <View style={styles.row}>
+                    <TouchableOpacity
+                      style={[
+                        styles.primaryButton,
+                        createMutation.isPending && styles.buttonDisabled,
+                      ]}
+                      onPress={handleSubmit}
+                      disabled={createMutation.isPending}
+                    >
+                      <Text style={styles.primaryButtonLabel}>{t('planner.saveButton')}</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.secondaryButton} onPress={() => setForm(null)}>
+                      <Text style={styles.secondaryButtonLabel}>{t('common.cancel')}</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ) : null}
+            </View>
+          ))}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+
+  function invalidatePlans() {
+    queryClient.invalidateQueries({ queryKey: ['plannedMeals'] });
+    queryClient.invalidateQueries({ queryKey: ['dashboardSummary'] });
+  }
+}
+
+function emptyForm(date: string): PlanFormState {
+  return {
+    date,
+    mealPeriod: 'dinner',
+    source: 'favorite',
+    favoriteId: null,
+    recipeId: null,
+    servings: '1',
+    name: '',
+    kcal: '',
+    protein: '',
+    fat: '',
+    carbs: '',
+  };
+}
+
+function toCreateRequest(form: PlanFormState): PlannedMealCreateRequest | null {
+  const base = { date: form.date, meal_period: form.mealPeriod };
+  if (form.source === 'favorite') {
+    return form.favoriteId ? { ...base, favorite_id: form.favoriteId } : null;
+  }
+  if (form.source === 'recipe') {
+    const servings = parseNumber(form.servings);
+    return form.recipeId && servings > 0 ? { ...base, recipe_id: form.recipeId, servings } : null;
+  }
+  const name = form.name.trim();
+  const kcal = parseNumber(form.kcal);
+  if (!name || kcal <= 0) return null;
+  return {
+    ...base,
+    name,
+    totals: {
+      kcal,
+      protein_g: parseNumber(form.protein),
+      fat_g: parseNumber(form.fat),
+      carbs_g: parseNumber(form.carbs),
+    },
+  };
+}
+
+function parseNumber(value: string) {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+interface ChipProps {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}
+
+function Chip({ label, selected, onPress }: ChipProps) {
+  return (
+    <TouchableOpacity style={[styles.chip, selected && styles.chipSelected]} onPress={onPress}>
+      <Text style={[styles.chipLabel, selected && styles.chipLabelSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+}
+
+interface FieldInputProps {
+  label: string;
+  value: string;
+  onChangeText: (text: string) => void;
+  keyboardType?: 'default' | 'numeric';
+}
+
+function FieldInput({ label, value, onChangeText, keyboardType = 'default' }: FieldInputProps) {
+  return (
+    <View style={styles.fieldContainer}>
+      <Text style={styles.fieldLabel}>{label}</Text>
+      <TextInput
+        value={value}
+        onChangeText={onChangeText}
+        style={styles.fieldInput}
+        keyboardType={keyboardType}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+  },
+  backButton: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.sm,
+  },
+  backLabel: {
+    ...textStyles.caption,
+    color: colors.accent,
+  },
+  headerSpacer: {
+    width: 60,
+  },
+  title: {
+    ...textStyles.titleLarge,
+  },
+  weekRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg,
+    paddingBottom: spacing.sm,
+  },
+  weekLabel: {
+    ...textStyles.body,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  loading: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  content: {
+    padding: spacing.lg,
+    gap: spacing.md,
+    paddingBottom: spacing.xl,
+  },
+  section: {
+    gap: spacing.sm,
+    backgroundColor: colors.surface,
+    borderRadius: 16,
+    padding: spacing.md,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    ...textStyles.body,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  caption: {
+    ...textStyles.caption,
+    color: colors.textSecondary,
+  },
+  linkLabel: {
+    ...textStyles.caption,
+    color: colors.accent,
+    fontWeight: '600',
+  },
+  itemCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: spacing.md,
+    gap: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  itemHeaderRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  itemName: {
+    ...textStyles.body,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  eatenBadge: {
+    ...textStyles.caption,
+    color: colors.success,
+    fontWeight: '600',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+  },
+  chip: {
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+  },
+  chipSelected: {
+    backgroundColor: colors.accent,
+    borderColor: colors.accent,
+  },
+  chipLabel: {
+    ...textStyles.caption,
+    color: colors.textPrimary,
+  },
+  chipLabelSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 12,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    ...textStyles.body,
+    backgroundColor: '#fff',
+  },
+  fieldContainer: {
+    flex: 1,
+    gap: spacing.xs,
+  },
+  fieldLabel: {
+    ...textStyles.caption,
+    color: colors.textSecondary,
+  },
+  fieldInput: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 10,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    ...textStyles.body,
+    backgroundColor: colors.surface,
+  },
+  primaryButton: {
+    flex: 1,
+    backgroundColor: colors.accent,
+    borderRadius: 12,
+    paddingVertical: spacing.sm,
+    alignItems: 'center',
+  },
+  primaryButtonLabel: {
+    ...textStyles.body,
+    color: '#fff',
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: colors.accent,
+    borderRadius: 12,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    alignItems: 'center',
+  },
+  secondaryButtonLabel: {
+    ...textStyles.body,
+    color: colors.accent,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
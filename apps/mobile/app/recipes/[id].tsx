@@ -0,0 +1,694 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  computeRecipePortion,
+  scaleFoodNutrients,
+  type FoodSearchCandidate,
+  type NutritionTotals,
+  type Recipe,
+  type RecipeCreateRequest,
+} from '@meal-log/shared';
+import {
+  createRecipe,
+  deleteRecipe,
+  getRecipe,
+  logRecipe,
+  searchFoods,
+  updateRecipe,
+} from '@/services/api';
+import { colors } from '@/theme/colors';
+import { spacing } from '@/theme/spacing';
+import { textStyles } from '@/theme/typography';
+import { useTranslation } from '@/i18n';
+
+interface IngredientFormState {
+  name: string;
+  grams: string;
+  foodId: number | null;
+  per100g: NutritionTotals | null;
+  // Totals already stored on the server; sending them back avoids a fresh AI estimate.
+  totals: NutritionTotals | null;
+  candidates: FoodSearchCandidate[];
+}
+
+const emptyIngredient = (): IngredientFormState => ({
+  name: '',
+  grams: '',
+  foodId: null,
+  per100g: null,
+  totals: null,
+  candidates: [],
+});
+
+export default function RecipeDetailScreen() {
+  const params = useLocalSearchParams<{ id?: string }>();
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { locale, t } = useTranslation();
+  const rawId = params.id ?? 'new';
+  const isNew = rawId === 'new';
+  const numericId = !isNew ? Number(rawId) : null;
+
+  const [name, setName] = useState('');
+  const [notes, setNotes] = useState('');
+  const [servings, setServings] = useState('4');
+  const [yieldGrams, setYieldGrams] = useState('');
+  const [ingredients, setIngredients] = useState<IngredientFormState[]>([emptyIngredient()]);
+  const [logServings, setLogServings] = useState('1');
+  const [searchingIndex, setSearchingIndex] = useState<number | null>(null);
+
+  const detailQuery = useQuery({
+    queryKey: ['recipeDetail', numericId],
+    queryFn: () => getRecipe(numericId!),
+    enabled: Boolean(numericId),
+  });
+
+  useEffect(() => {
+    if (detailQuery.data) {
+      const recipe = detailQuery.data;
+      setName(recipe.name);
+      setNotes(recipe.notes ?? '');
+      setServings(String(recipe.servings));
+      setYieldGrams(recipe.yield_grams != null ? String(recipe.yield_grams) : '');
+      setIngredients(
+        recipe.ingredients.map((ingredient) => ({
+          name: ingredient.name,
+          grams: String(ingredient.grams),
+          foodId: ingredient.food_id,
+          per100g: null,
+          totals: ingredient.totals,
+          candidates: [],
+        })),
+      );
+    }
+  }, [detailQuery.data]);
+
+  const saveMutation = useMutation({
+    mutationFn: (payload: RecipeCreateRequest) =>
+      numericId ? updateRecipe(numericId, payload) : createRecipe(payload),
+    onSuccess: (response) => {
+      invalidateLists();
+      queryClient.setQueryData(['recipeDetail', response.item.id], response.item);
+      Alert.alert(isNew ? t('recipes.saveSuccess') : t('recipes.updateSuccess'));
+      if (isNew) {
+        router.replace(`/recipes/${response.item.id}`);
+      }
+    },
+    onError: (error: unknown) => {
+      const message = error instanceof Error ? error.message : t('recipes.saveFailedMessage');
+      Alert.alert(t('recipes.saveFailedTitle'), message);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => deleteRecipe(id),
+    onSuccess: () => {
+      invalidateLists();
+      Alert.alert(t('recipes.deleteSuccess'));
+      router.back();
+    },
+    onError: (error: unknown) => {
+      const message = error instanceof Error ? error.message : t('recipes.deleteFailedMessage');
+      Alert.alert(t('recipes.deleteFailedTitle'), message);
+    },
+  });
+
+  const logMutation = useMutation({
+    mutationFn: (count: number) => logRecipe(numericId!, { servings: count }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['recentLogs', locale] });
+      queryClient.invalidateQueries({ queryKey: ['mealLogs'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboardSummary'] });
+      queryClient.invalidateQueries({ queryKey: ['streak'] });
+      Alert.alert(t('recipes.logSuccess'));
+    },
+    onError: (error: unknown) => {
+      const message = error instanceof Error ? error.message : t('recipes.logFailedMessage');
+      Alert.alert(t('recipes.logFailedTitle'), message);
+    },
+  });
+
+  const recipe = detailQuery.data;
+  const parsedLogServings = parseNumber(logServings);
+  const logPreview = useMemo(
+    () => (recipe ? previewPortion(recipe, parsedLogServings) : null),
+    [recipe, parsedLogServings],
+  );
+  const canSave = name.trim().length > 0 && parseNumber(servings) > 0 && ingredients.some(isFilled);
+
+  const handleAddIngredient = () => {
+    setIngredients((prev) => [...prev, emptyIngredient()]);
+  };
+
+  const handleRemoveIngredient = (index: number) => {
+    setIngredients((prev) => prev.filter((_, idx) => idx !== index));
+  };
+
+  const handleChangeName = (index: number, value: string) => {
+    // A renamed line is a different ingredient, so its catalogue link and totals no longer apply.
+    updateIngredient(index, () => ({ ...emptyIngredient(), name: value }));
+  };
+
+  const handleChangeGrams = (index: number, value: string) => {
+    updateIngredient(index, (ingredient) => {
+      const previous = parseNumber(ingredient.grams);
+      const next = parseNumber(value);
+      const totals =
+        ingredient.totals && previous > 0
+          ? scaleTotals(ingredient.totals, next / previous)
+          : ingredient.totals;
+      return { ...ingredient, grams: value, totals };
+    });
+  };
+
+  const handleSearch = async (index: number) => {
+    const query = ingredients[index]?.name.trim();
+    if (!query) return;
+    setSearchingIndex(index);
+    try {
+      const response = await searchFoods(query);
+      updateIngredient(index, (ingredient) => ({
+        ...ingredient,
+        candidates: response.candidates.slice(0, 3),
+      }));
+      if (response.candidates.length === 0) {
+        Alert.alert(t('recipes.searchEmpty'));
+      }
+    } catch (error) {
+      Alert.alert(t('recipes.searchFailed'), error instanceof Error ? error.message : undefined);
+    } finally {
+      setSearchingIndex(null);
+    }
+  };
+
+  const handlePickCandidate = (index: number, candidate: FoodSearchCandidate) => {
+    updateIngredient(index, (ingredient) => {
+      const grams = parseNumber(ingredient.grams) || candidate.serving.grams;
+      return {
+        name: candidate.name,
+        grams: String(grams),
+        foodId: candidate.id,
+        per100g: candidate.per_100g,
+        totals: scaleFoodNutrients(candidate.per_100g, grams),
+        candidates: [],
+      };
+    });
+  };
+
+  const handleSave = () => {
+    if (!canSave) {
+      Alert.alert(t('recipes.requiredTitle'), t('recipes.requiredMessage'));
+      return;
+    }
+    saveMutation.mutate({
+      name: name.trim(),
+      notes: notes ? notes : null,
+      servings: parseNumber(servings),
+      yield_grams: parseNumber(yieldGrams) > 0 ? parseNumber(yieldGrams) : null,
+      ingredients: ingredients.filter(isFilled).map((ingredient) => ({
+        name: ingredient.name.trim(),
+        grams: parseNumber(ingredient.grams),
+        food_id: ingredient.foodId ?? undefined,
+        totals: ingredient.foodId ? undefined : ingredient.totals,
+      })),
+    });
+  };
+
+  const handleDelete = () => {
+    if (!numericId) return;
+    Alert.alert(t('recipes.deleteConfirmTitle'), t('recipes.deleteConfirmMessage'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('common.delete'),
+        style: 'destructive',
+        onPress: () => deleteMutation.mutate(numericId),
+      },
+    ]);
+  };
+
+  const handleLog = () => {
+    if (!numericId || parsedLogServings <= 0) return;
+    logMutation.mutate(parsedLogServings);
+  };
+
+  const headerTitle = isNew ? t('recipes.createTitle') : (recipe?.name ?? t('recipes.title'));
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'left', 'right']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Text style={styles.backLabel}>{t('common.back')}</Text>
+        </TouchableOpacity>
+        <Text style={styles.title} numberOfLines={1}>
+          {headerTitle}
+        </Text>
+        <View style={styles.headerSpacer} />
+      </View>
+      {detailQuery.isLoading && !isNew ? (
+        <View style={styles.loading}>
+          <ActivityIndicator color={colors.accent} />
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          {recipe ? (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{t('recipes.section.perServing')}</Text>
+              <Text style={styles.summaryValue}>
+                {t('recipes.perServingSummary', {
+                  kcal: Math.round(recipe.per_serving.kcal),
+                  grams: Math.round(recipe.serving_grams),
+                })}
+              </Text>
+              <Text style={styles.caption}>
+                P {recipe.per_serving.protein_g}g / F {recipe.per_serving.fat_g}g / C{' '}
+                {recipe.per_serving.carbs_g}g
+              </Text>
+              <View style={styles.logRow}>
+                <FieldInput
+                  label={t('recipes.field.logServings')}
+                  value={logServings}
+                  onChangeText={setLogServings}
+                  keyboardType="numeric"
+                />
+                <TouchableOpacity
+                  style={[
+                    styles.logButton,
+                    (logMutation.isPending || parsedLogServings <= 0) && styles.buttonDisabled,
+                  ]}
+                  onPress={handleLog}
+                  disabled={logMutation.isPending || parsedLogServings <= 0}
+                >
+                  {logMutation.isPending ? (
+                    <ActivityIndicator color="#fff" />
+                  ) : (
+                    <Text style={styles.logButtonLabel}>
+                      {t('recipes.logButton', { servings: parsedLogServings })}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+              {logPreview ? (
+                <Text style={styles.caption}>
+                  {t('recipes.logPreview', {
+                    kcal: Math.round(logPreview.totals.kcal),
+                    grams: Math.round(logPreview.grams),
+                  })}
+                </Text>
+              ) : null}
+            </View>
+          ) : null}
+
+          <View style={styles.section}>
+            <Text style={styles.sectionLabel}>{t('recipes.section.name')}</Text>
+            <TextInput
+              value={name}
+              onChangeText={setName}
+              style={styles.input}
+              placeholder={t('recipes.namePlaceholder')}
+            />
+            <Text style={styles.sectionLabel}>{t('recipes.section.notes')}</Text>
+            <TextInput
+              value={notes}
+              onChangeText={setNotes}
+              style={[styles.input, styles.notesInput]}
+              placeholder={t('recipes.notesPlaceholder')}
+              multiline
+            />
+            <View style={styles.row}>
+              <FieldInput
+                label={t('recipes.field.servings')}
+                value={servings}
+                onChangeText={setServings}
+                keyboardType="numeric"
+              />
+              <FieldInput
+                label={t('recipes.field.yield')}
+                value={yieldGrams}
+                onChangeText={setYieldGrams}
+                keyboardType="numeric"
+              />
+            </View>
+            <Text style={styles.caption}>{t('recipes.yieldHint')}</Text>
+          </View>
+
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>{t('recipes.section.ingredients')}</Text>
+              <TouchableOpacity onPress={handleAddIngredient}>
+                <Text style={styles.linkLabel}>{t('recipes.addIngredient')}</Text>
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.caption}>{t('recipes.ingredientsHint')}</Text>
+            {ingredients.map((ingredient, index) => (
+              <View key={index} style={styles.itemCard}>
+                <View style={styles.itemHeaderRow}>
+                  <Text style={styles.caption}>
+                    #{index + 1} · {ingredientStatus(ingredient)}
+                  </Text>
+                  <TouchableOpacity onPress={() => handleRemoveIngredient(index)}>
+                    <Text style={styles.linkLabel}>{t('common.delete')}</Text>
+                  </TouchableOpacity>
+                </View>
+                <View style={styles.row}>
+                  <FieldInput
+                    label={t('recipes.field.ingredientName')}
+                    value={ingredient.name}
+                    onChangeText={(text) => handleChangeName(index, text)}
+                  />
+                  <FieldInput
+                    label={t('recipes.field.amount')}
+                    value={ingredient.grams}
+                    onChangeText={(text) => handleChangeGrams(index, text)}
+                    keyboardType="numeric"
+                  />
+                </View>
+                {ingredient.foodId ? null : (
+                  <TouchableOpacity
+                    onPress={() => handleSearch(index)}
+                    disabled={searchingIndex !== null || !ingredient.name.trim()}
+                  >
+                    {searchingIndex === index ? (
+                      <ActivityIndicator size="small" color={colors.accent} />
+                    ) : (
+                      <Text style={styles.linkLabel}>{t('recipes.searchCatalogue')}</Text>
+                    )}
+                  </TouchableOpacity>
+                )}
+                {ingredient.candidates.map((candidate) => (
+                  <TouchableOpacity
+                    key={candidate.id}
+                    style={styles.candidate}
+                    onPress={() => handlePickCandidate(index, candidate)}
+                  >
+                    <Text style={styles.candidateName}>{candidate.name}</Text>
+                    <Text style={styles.caption}>
+                      {t('recipes.candidatePer100g', { kcal: Math.round(candidate.per_100g.kcal) })}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            ))}
+          </View>
+
+          <TouchableOpacity
+            style={[
+              styles.saveButton,
+              (!canSave || saveMutation.isPending) && styles.buttonDisabled,
+            ]}
+            onPress={handleSave}
+            disabled={!canSave || saveMutation.isPending}
+          >
+            {saveMutation.isPending ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.saveButtonLabel}>{t('recipes.saveButton')}</Text>
+            )}
+          </TouchableOpacity>
+
+          {!isNew ? (
+            <TouchableOpacity
+              style={styles.deleteButton}
+              onPress={handleDelete}
+              disabled={deleteMutation.isPending}
+            >
+              {deleteMutation.isPending ? (
+                <ActivityIndicator color={colors.accent} />
+              ) : (
+                <Text style={styles.deleteButtonLabel}>{t('recipes.deleteButton')}</Text>
+              )}
+            </TouchableOpacity>
+          ) : null}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+
+  function updateIngredient(
+    index: number,
+    update: (ingredient: IngredientFormState) => IngredientFormState,
+  ) {
+    setIngredients((prev) =>
+      prev.map((ingredient, idx) => (idx === index ? update(ingredient) : ingredient)),
+    );
+  }
+
+  function ingredientStatus(ingredient: IngredientFormState) {
+    if (ingredient.foodId) {
+      const totals =
+        ingredient.per100g && ingredient.grams
+          ? scaleFoodNutrients(ingredient.per100g, parseNumber(ingredient.grams))
+          : ingredient.totals;
+      return totals
+        ? t('recipes.status.catalogue', { kcal: Math.round(totals.kcal) })
+        : t('recipes.status.catalogueOnly');
+    }
+    if (ingredient.totals) {
+      return t('recipes.status.estimated', { kcal: Math.round(ingredient.totals.kcal) });
+    }
+    return t('recipes.status.pending');
+  }
+
+  function invalidateLists() {
+    queryClient.invalidateQueries({ queryKey: ['recipes'] });
+    if (numericId) {
+      queryClient.invalidateQueries({ queryKey: ['recipeDetail', numericId] });
+    }
+  }
+}
+
+function isFilled(ingredient: IngredientFormState) {
+  return ingredient.name.trim().length > 0 && parseNumber(ingredient.grams) > 0;
+}
+
+function previewPortion(recipe: Recipe, servings: number) {
+  if (servings <= 0) return null;
+  return computeRecipePortion(
+    {
+      totals: recipe.totals,
+      servings: recipe.servings,
+      yieldGrams: recipe.yield_grams,
+      ingredientGrams: recipe.ingredients.reduce((acc, ingredient) => acc + ingredient.grams, 0),
+    },
+    servings,
+  );
+}
+
+function scaleTotals(totals: NutritionTotals, factor: number): NutritionTotals {
+  const round = (value: number) => Math.round(value * factor * 10) / 10;
+  return {
+    kcal: Math.round(totals.kcal * factor),
+    protein_g: round(totals.protein_g),
+    fat_g: round(totals.fat_g),
+    carbs_g: round(totals.carbs_g),
+  };
+}
+
+function parseNumber(value: string) {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+interface FieldInputProps {
+  label: string;
+  value: string;
+  onChangeText: (text: string) => void;
+  keyboardType?: 'default' | 'numeric';
+}
+
+function FieldInput({ label, value, onChangeText, keyboardType = 'default' }: FieldInputProps) {
+  return (
+    <View style={styles.fieldContainer}>
+      <Text style={styles.fieldLabel}>{label}</Text>
+      <TextInput
+        value={value}
+        onChangeText={onChangeText}
+        style={styles.fieldInput}
+        keyboardType={keyboardType}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+  },
+  backButton: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.sm,
+  },
+  backLabel: {
+    ...textStyles.caption,
+    color: colors.accent,
+  },
+  headerSpacer: {
+    width: 60,
+  },
+  title: {
+    ...textStyles.titleMedium,
+    flexShrink: 1,
+  },
+  loading: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  content: {
+    padding: spacing.lg,
+    gap: spacing.lg,
+    paddingBottom: spacing.xl,
+  },
+  section: {
+    gap: spacing.sm,
+    backgroundColor: colors.surface,
+    borderRadius: 16,
+    padding: spacing.md,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionLabel: {
+    ...textStyles.caption,
+    color: colors.textSecondary,
+  },
+  sectionTitle: {
+    ...textStyles.body,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  summaryValue: {
+    ...textStyles.titleMedium,
+    color: colors.textPrimary,
+  },
+  caption: {
+    ...textStyles.caption,
+    color: colors.textSecondary,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 12,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    ...textStyles.body,
+    backgroundColor: '#fff',
+  },
+  notesInput: {
+    minHeight: 72,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  logRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: spacing.sm,
+  },
+  logButton: {
+    flex: 1,
+    backgroundColor: colors.accent,
+    borderRadius: 12,
+    paddingVertical: spacing.sm,
+    alignItems: 'center',
+  },
+  logButtonLabel: {
+    ...textStyles.body,
+    color: '#fff',
+    fontWeight: '600',
+  },
+  linkLabel: {
+    ...textStyles.caption,
+    color: colors.accent,
+    fontWeight: '600',
+  },
+  itemCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: spacing.md,
+    gap: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  itemHeaderRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  candidate: {
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: colors.border,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+  },
+  candidateName: {
+    ...textStyles.body,
+    color: colors.textPrimary,
+  },
+  fieldContainer: {
+    flex: 1,
+    gap: spacing.xs,
+  },
+  fieldLabel: {
+    ...textStyles.caption,
+    color: colors.textSecondary,
+  },
+  fieldInput: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 10,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    ...textStyles.body,
+    backgroundColor: colors.surface,
+  },
+  saveButton: {
+    backgroundColor: colors.accent,
+    borderRadius: 20,
+    paddingVertical: spacing.md,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonLabel: {
+    ...textStyles.body,
+    color: '#fff',
+    fontWeight: '600',
+  },
+  deleteButton: {
+    borderWidth: 1,
+    borderColor: colors.accent,
+    borderRadius: 20,
+    paddingVertical: spacing.md,
+    alignItems: 'center',
+  },
+  deleteButtonLabel: {
+    ...textStyles.body,
+    color: colors.accent,
+    fontWeight: '600',
+  },
+});
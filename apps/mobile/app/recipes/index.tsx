@@ -0,0 +1,163 @@
+import React from 'react';
+import {
+  ActivityIndicator,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useQuery } from '@tanstack/react-query';
+import { useRouter } from 'expo-router';
+import { colors } from '@/theme/colors';
+import { spacing } from '@/theme/spacing';
+import { textStyles } from '@/theme/typography';
+import { getRecipes } from '@/services/api';
+import { useTranslation } from '@/i18n';
+
+export default function RecipesIndexScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const recipesQuery = useQuery({
+    queryKey: ['recipes'],
+    queryFn: getRecipes,
+  });
+
+  const recipes = recipesQuery.data ?? [];
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'left', 'right']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Text style={styles.backLabel}>{t('common.back')}</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>{t('recipes.title')}</Text>
+        <TouchableOpacity style={styles.addButton} onPress={() => router.push('/recipes/new')}>
+          <Text style={styles.addButtonLabel}>{t('recipes.addNew')}</Text>
+        </TouchableOpacity>
+      </View>
+
+      {recipesQuery.isLoading ? (
+        <View style={styles.loading}>
+          <ActivityIndicator color={colors.accent} />
+        </View>
+      ) : recipes.length === 0 ? (
+        <View style={styles.empty}>
+          <Text style={styles.emptyText}>{t('recipes.empty')}</Text>
+          <Text style={styles.emptySubText}>{t('recipes.emptyHint')}</Text>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.list}>
+          {recipes.map((recipe) => (
+            <TouchableOpacity
+              key={recipe.id}
+              style={styles.item}
+              onPress={() => router.push(`/recipes/${recipe.id}`)}
+            >
+              <Text style={styles.itemName}>{recipe.name}</Text>
+              <Text style={styles.itemMeta}>
+                {t('recipes.perServingSummary', {
+                  kcal: Math.round(recipe.per_serving.kcal),
+                  grams: Math.round(recipe.serving_grams),
+                })}
+              </Text>
+              <Text style={styles.itemMeta}>
+                P {recipe.per_serving.protein_g}g / F {recipe.per_serving.fat_g}g / C{' '}
+                {recipe.per_serving.carbs_g}g
+              </Text>
+              <Text style={styles.itemNote}>
+                {t('recipes.servingsSummary', {
+                  servings: recipe.servings,
+                  count: recipe.ingredients.length,
+                })}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+  },
+  backButton: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.sm,
+  },
+  backLabel: {
+    ...textStyles.caption,
+    color: colors.accent,
+  },
+  title: {
+    ...textStyles.titleLarge,
+  },
+  addButton: {
+    borderRadius: 18,
+    borderWidth: 1,
+    borderColor: colors.accent,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+  },
+  addButtonLabel: {
+    ...textStyles.caption,
+    color: colors.accent,
+    fontWeight: '600',
+  },
+  loading: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  empty: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: spacing.lg,
+    gap: spacing.sm,
+  },
+  emptyText: {
+    ...textStyles.body,
+    color: colors.textPrimary,
+    textAlign: 'center',
+  },
+  emptySubText: {
+    ...textStyles.caption,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  list: {
+    padding: spacing.lg,
+    gap: spacing.md,
+  },
+  item: {
+    backgroundColor: colors.surface,
+    borderRadius: 16,
+    padding: spacing.md,
+    gap: spacing.xs,
+  },
+  itemName: {
+    ...textStyles.body,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  itemMeta: {
+    ...textStyles.caption,
+    color: colors.textSecondary,
+  },
+  itemNote: {
+    ...textStyles.caption,
+    color: colors.textSecondary,
+  },
+});
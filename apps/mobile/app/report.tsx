@@ -56,6 +56,7 @@ import {
   getReportCalendar,
   getStreak,
   listAiReportRequests,
+  openStatusStream,
   updateAiReportPreference,
   type ApiError,
 } from '@/services/api';
@@ -693,6 +694,27 @@ export default function ReportScreen() {
     },
   });
 
+  // Pushes each status change into the request query as it happens; the 3s poll keeps running as the fallback.
+  const [reportStreamGeneration, setReportStreamGeneration] = useState(0);
+  useEffect(() => {
+    if (!activeRequestId) {
+      return;
+    }
+    return openStatusStream(
+      { reportIds: [activeRequestId] },
+      {
+        onReport: (response) => {
+          queryClient.setQueryData(['reportRequest', activeRequestId], response);
+        },
+        onClose: (reason) => {
+          if (reason === 'timeout') {
+            setReportStreamGeneration((generation) => generation + 1);
+          }
+        },
+      },
+    );
+  }, [activeRequestId, queryClient, reportStreamGeneration]);
+
   useEffect(() => {
     const request = reportRequestQuery.data?.request;
     if (!request) {
@@ -6,6 +6,7 @@ import { spacing } from '@/theme/spacing';
 import { textStyles } from '@/theme/typography';
 import { useSessionStore } from '@/store/session';
 import { useChatStore } from '@/store/chat';
+import { useMealOutboxStore } from '@/store/outbox';
 import { logout, deleteAccount } from '@/services/api';
 import { useMutation } from '@tanstack/react-query';
 import { useRouter } from 'expo-router';
@@ -17,6 +18,7 @@ export default function AccountScreen() {
   const setUser = useSessionStore((state) => state.setUser);
   const setUsage = useSessionStore((state) => state.setUsage);
   const resetChat = useChatStore((state) => state.reset);
+  const resetOutbox = useMealOutboxStore((state) => state.reset);
 
   const logoutMutation = useMutation({
     mutationFn: async () => logout(),
@@ -24,6 +26,7 @@ export default function AccountScreen() {
       setUsage(null);
       setUser(null);
       resetChat();
+      resetOutbox();
       router.replace('/login');
     },
     onError: () => {
@@ -37,6 +40,7 @@ export default function AccountScreen() {
       setUsage(null);
       setUser(null);
       resetChat();
+      resetOutbox();
       router.replace('/login');
       Alert.alert(t('settings.account.deleteSuccessTitle'), t('settings.account.deleteSuccessMessage'));
     },
@@ -65,6 +69,13 @@ export default function AccountScreen() {
           <Text style={styles.label}>{t('settings.account.email')}</Text>
           <Text style={styles.value}>{user?.email ?? t('settings.account.guest')}</Text>
         </View>
+        <TouchableOpacity
+          style={styles.detailCard}
+          onPress={() => router.push('/settings/sessions')}
+          accessibilityRole="button"
+        >
+          <Text style={styles.value}>{t('settings.account.sessions')}</Text>
+        </TouchableOpacity>
         <View style={styles.buttonColumn}>
           <TouchableOpacity
             style={[styles.primaryButton, logoutMutation.isPending && styles.primaryButtonDisabled]}
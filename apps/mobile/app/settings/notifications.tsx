@@ -19,6 +19,7 @@ export default function NotificationsScreen() {
   const queryClient = useQueryClient();
   const [reminderEnabled, setReminderEnabled] = useState(false);
   const [importantEnabled, setImportantEnabled] = useState(false);
+  const [hydrationEnabled, setHydrationEnabled] = useState(false);
   const [permissionBlocked, setPermissionBlocked] = useState(false);
   const [isUpdating, setIsUpdating] = useState(false);
 
@@ -33,6 +34,7 @@ export default function NotificationsScreen() {
       queryClient.setQueryData(['notificationSettings'], settings);
       setReminderEnabled(settings.reminder_enabled);
       setImportantEnabled(settings.important_enabled);
+      setHydrationEnabled(settings.hydration_reminder_enabled);
     },
   });
 
@@ -40,6 +42,7 @@ export default function NotificationsScreen() {
     if (settingsQuery.data) {
       setReminderEnabled(settingsQuery.data.reminder_enabled);
       setImportantEnabled(settingsQuery.data.important_enabled);
+      setHydrationEnabled(settingsQuery.data.hydration_reminder_enabled);
     }
   }, [settingsQuery.data]);
 
@@ -56,7 +59,10 @@ export default function NotificationsScreen() {
     };
   }, []);
 
-  const handleToggle = async (key: 'reminder_enabled' | 'important_enabled', nextValue: boolean) => {
+  const handleToggle = async (
+    key: 'reminder_enabled' | 'important_enabled' | 'hydration_reminder_enabled',
+    nextValue: boolean,
+  ) => {
     setIsUpdating(true);
 
     try {
@@ -80,8 +86,9 @@ export default function NotificationsScreen() {
 
       const nextReminder = key === 'reminder_enabled' ? nextValue : settings.reminder_enabled;
       const nextImportant = key === 'important_enabled' ? nextValue : settings.important_enabled;
+      const nextHydration = key === 'hydration_reminder_enabled' ? nextValue : settings.hydration_reminder_enabled;
 
-      if (!nextReminder && !nextImportant) {
+      if (!nextReminder && !nextImportant && !nextHydration) {
         try {
           await unregisterPushToken();
         } catch (error) {
@@ -132,6 +139,16 @@ export default function NotificationsScreen() {
                 />
               </View>
               <Text style={styles.caption}>{t('settings.notifications.importantCaption')}</Text>
+              <View style={styles.row}>
+                <Text style={styles.label}>{t('settings.notifications.hydration')}</Text>
+                <Switch
+                  value={hydrationEnabled}
+                  onValueChange={(value) => handleToggle('hydration_reminder_enabled', value)}
+                  disabled={isUpdating}
+                  trackColor={{ false: colors.border, true: colors.accent }}
+                />
+              </View>
+              <Text style={styles.caption}>{t('settings.notifications.hydrationCaption')}</Text>
             </>
           )}
           <View style={styles.divider} />
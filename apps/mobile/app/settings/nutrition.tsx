@@ -8,6 +8,7 @@ import { spacing } from '@/theme/spacing';
 import { textStyles } from '@/theme/typography';
 import { getUserProfile, updateUserProfile } from '@/services/api';
 import ProfileField from '@/screen-components/settings/profile-helpers';
+import { AdaptivePlanCard } from '@/screen-components/settings/adaptive-plan-card';
 import { PrimaryButton } from '@/components/PrimaryButton';
 
 const INITIAL_STATE = {
@@ -15,6 +16,7 @@ const INITIAL_STATE = {
   protein: '',
   fat: '',
   carbs: '',
+  cups: '',
 };
 
 export default function NutritionSettingsScreen() {
@@ -35,6 +37,7 @@ export default function NutritionSettingsScreen() {
         protein: numericToInput(profile.target_protein_g),
         fat: numericToInput(profile.target_fat_g),
         carbs: numericToInput(profile.target_carbs_g),
+        cups: (profile.hydration_cup_sizes_ml ?? []).join(', '),
       });
     }
   }, [profileQuery.data]);
@@ -49,6 +52,7 @@ export default function NutritionSettingsScreen() {
         protein: numericToInput(profile.target_protein_g),
         fat: numericToInput(profile.target_fat_g),
         carbs: numericToInput(profile.target_carbs_g),
+        cups: (profile.hydration_cup_sizes_ml ?? []).join(', '),
       });
       Alert.alert(t('settings.nutrition.savedTitle'), t('settings.nutrition.savedMessage'));
     },
@@ -62,8 +66,9 @@ export default function NutritionSettingsScreen() {
     const protein = parsePositiveNumber(form.protein);
     const fat = parsePositiveNumber(form.fat);
     const carbs = parsePositiveNumber(form.carbs);
+    const cups = parseCupSizes(form.cups);
 
-    if ([calories, protein, fat, carbs].includes(undefined)) {
+    if ([calories, protein, fat, carbs].includes(undefined) || cups === undefined) {
       Alert.alert(t('settings.profile.validationTitle'), t('settings.profile.validationMessage'));
       return;
     }
@@ -73,6 +78,7 @@ export default function NutritionSettingsScreen() {
       target_protein_g: (protein as number | null) ?? null,
       target_fat_g: (fat as number | null) ?? null,
       target_carbs_g: (carbs as number | null) ?? null,
+      hydration_cup_sizes_ml: cups,
     });
   };
 
@@ -85,6 +91,8 @@ export default function NutritionSettingsScreen() {
             <Text style={styles.subtitle}>{t('settings.nutrition.subtitle')}</Text>
           </View>
 
+          <AdaptivePlanCard />
+
           <View style={styles.formStack}>
             <ProfileField
               label={t('settings.profile.targetCalories')}
@@ -115,6 +123,14 @@ export default function NutritionSettingsScreen() {
               placeholder="250"
               suffix="g"
             />
+            <ProfileField
+              label={t('settings.nutrition.hydrationCups')}
+              value={form.cups}
+              onChangeText={(value) => setForm((prev) => ({ ...prev, cups: value }))}
+              placeholder="150, 250, 500"
+              suffix="ml"
+              keyboardType="numbers-and-punctuation"
+            />
           </View>
 
           <PrimaryButton
@@ -159,6 +175,19 @@ function parsePositiveNumber(value: string) {
   return parsed;
 }
 
+/** Accepts up to four comma-separated cup sizes; an empty field restores the defaults. */
+function parseCupSizes(value: string) {
+  const parts = value
+    .split(/[,、\s]+/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+  const sizes = parts.map(Number);
+  if (sizes.length > 4 || sizes.some((size) => !Number.isInteger(size) || size < 50 || size > 2000)) {
+    return undefined;
+  }
+  return sizes;
+}
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
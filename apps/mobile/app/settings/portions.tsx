@@ -0,0 +1,225 @@
+import { useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Feather } from '@expo/vector-icons';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { PortionCalibration } from '@meal-log/shared';
+import { useTranslation } from '@/i18n';
+import { colors } from '@/theme/colors';
+import { spacing } from '@/theme/spacing';
+import { textStyles } from '@/theme/typography';
+import {
+  createPortionCalibration,
+  deletePortionCalibration,
+  getPortionCalibrations,
+} from '@/services/api';
+import ProfileField from '@/screen-components/settings/profile-helpers';
+import { PrimaryButton } from '@/components/PrimaryButton';
+
+const INITIAL_FORM = { label: '', grams: '' };
+
+export default function PortionSettingsScreen() {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState(INITIAL_FORM);
+
+  const calibrationsQuery = useQuery({
+    queryKey: ['portionCalibrations'],
+    queryFn: getPortionCalibrations,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: createPortionCalibration,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['portionCalibrations'] });
+      setForm(INITIAL_FORM);
+    },
+    onError: (error: unknown) => {
+      const message =
+        error instanceof Error ? error.message : t('settings.portions.saveFailedMessage');
+      Alert.alert(t('settings.portions.saveFailedTitle'), message);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => deletePortionCalibration(id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['portionCalibrations'] }),
+    onError: (error: unknown) => {
+      const message =
+        error instanceof Error ? error.message : t('settings.portions.deleteFailedMessage');
+      Alert.alert(t('settings.portions.deleteFailedTitle'), message);
+    },
+  });
+
+  const handleAdd = () => {
+    const label = form.label.trim();
+    const grams = Number(form.grams.trim());
+    if (!label || !Number.isFinite(grams) || grams <= 0 || grams > 5000) {
+      Alert.alert(t('settings.profile.validationTitle'), t('settings.portions.validationMessage'));
+      return;
+    }
+    createMutation.mutate({ label, grams });
+  };
+
+  const handleDelete = (item: PortionCalibration) => {
+    Alert.alert(
+      t('settings.portions.deleteConfirmTitle'),
+      t('settings.portions.deleteConfirmMessage', { label: item.label }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: () => deleteMutation.mutate(item.id),
+        },
+      ],
+    );
+  };
+
+  const items = calibrationsQuery.data?.items ?? [];
+  const learned = calibrationsQuery.data?.learned ?? [];
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'left', 'right']}>
+      <KeyboardAvoidingView
+        style={{ flex: 1 }}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{t('settings.portions.title')}</Text>
+            <Text style={styles.subtitle}>{t('settings.portions.subtitle')}</Text>
+          </View>
+
+          <View style={styles.formStack}>
+            <ProfileField
+              label={t('settings.portions.label')}
+              value={form.label}
+              onChangeText={(value) => setForm((prev) => ({ ...prev, label: value }))}
+              placeholder={t('settings.portions.labelPlaceholder')}
+            />
+            <ProfileField
+              label={t('settings.portions.grams')}
+              value={form.grams}
+              onChangeText={(value) => setForm((prev) => ({ ...prev, grams: value }))}
+              placeholder="180"
+              suffix="g"
+            />
+            <PrimaryButton
+              label={t('settings.portions.add')}
+              onPress={handleAdd}
+              loading={createMutation.isPending}
+            />
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{t('settings.portions.referencesTitle')}</Text>
+            {calibrationsQuery.isLoading ? (
+              <ActivityIndicator color={colors.accent} />
+            ) : items.length === 0 ? (
+              <Text style={styles.emptyText}>{t('settings.portions.empty')}</Text>
+            ) : (
+              items.map((item) => (
+                <View key={item.id} style={styles.row}>
+                  <Text style={styles.rowLabel} numberOfLines={1} ellipsizeMode="tail">
+                    {item.label}
+                  </Text>
+                  <Text style={styles.rowValue}>{Math.round(item.grams)} g</Text>
+                  <TouchableOpacity
+                    onPress={() => handleDelete(item)}
+                    accessibilityLabel={t('common.delete')}
+                    hitSlop={8}
+                  >
+                    <Feather name="trash-2" size={18} color={colors.textSecondary} />
+                  </TouchableOpacity>
+                </View>
+              ))
+            )}
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{t('settings.portions.learnedTitle')}</Text>
+            <Text style={styles.emptyText}>{t('settings.portions.learnedHint')}</Text>
+            {learned.map((entry) => (
+              <View key={entry.name} style={styles.row}>
+                <Text style={styles.rowLabel} numberOfLines={1} ellipsizeMode="tail">
+                  {entry.name}
+                </Text>
+                <Text style={styles.rowValue}>
+                  {t('settings.portions.learnedFactor', {
+                    factor: entry.factor,
+                    samples: entry.samples,
+                  })}
+                </Text>
+              </View>
+            ))}
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  content: {
+    padding: spacing.lg,
+    gap: spacing.lg,
+    paddingBottom: spacing.xl,
+  },
+  header: {
+    gap: spacing.xs,
+  },
+  title: {
+    ...textStyles.titleLarge,
+    color: colors.textPrimary,
+  },
+  subtitle: {
+    ...textStyles.body,
+    color: colors.textSecondary,
+  },
+  formStack: {
+    gap: spacing.md,
+  },
+  section: {
+    gap: spacing.sm,
+  },
+  sectionTitle: {
+    ...textStyles.titleMedium,
+    color: colors.textPrimary,
+  },
+  emptyText: {
+    ...textStyles.caption,
+    color: colors.textSecondary,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: colors.border,
+  },
+  rowLabel: {
+    ...textStyles.body,
+    color: colors.textPrimary,
+    flex: 1,
+  },
+  rowValue: {
+    ...textStyles.body,
+    color: colors.textSecondary,
+  },
+});
@@ -0,0 +1,233 @@
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Feather } from '@expo/vector-icons';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useRouter } from 'expo-router';
+import type { DeviceSession } from '@meal-log/shared';
+import { getIntlLocale, useTranslation } from '@/i18n';
+import { colors } from '@/theme/colors';
+import { spacing } from '@/theme/spacing';
+import { textStyles } from '@/theme/typography';
+import { getDeviceSessions, revokeDeviceSession, revokeOtherDeviceSessions } from '@/services/api';
+import { useSessionStore } from '@/store/session';
+import { useChatStore } from '@/store/chat';
+import { useMealOutboxStore } from '@/store/outbox';
+
+export default function SessionSettingsScreen() {
+  const { t, locale } = useTranslation();
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const setUser = useSessionStore((state) => state.setUser);
+  const setUsage = useSessionStore((state) => state.setUsage);
+  const resetChat = useChatStore((state) => state.reset);
+  const resetOutbox = useMealOutboxStore((state) => state.reset);
+
+  const sessionsQuery = useQuery({
+    queryKey: ['deviceSessions'],
+    queryFn: getDeviceSessions,
+  });
+
+  const showError = (error: unknown) => {
+    const message =
+      error instanceof Error ? error.message : t('settings.sessions.revokeFailedMessage');
+    Alert.alert(t('settings.sessions.revokeFailedTitle'), message);
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: (session: DeviceSession) => revokeDeviceSession(session.id),
+    onSuccess: (result) => {
+      if (result.current) {
+        setUsage(null);
+        setUser(null);
+        resetChat();
+        resetOutbox();
+        router.replace('/login');
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ['deviceSessions'] });
+    },
+    onError: showError,
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: revokeOtherDeviceSessions,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['deviceSessions'] }),
+    onError: showError,
+  });
+
+  const describeDevice = (session: DeviceSession) =>
+    session.device_name ??
+    (session.platform
+      ? t(`settings.sessions.platform.${session.platform}`)
+      : t('settings.sessions.unknownDevice'));
+
+  const handleRevoke = (session: DeviceSession) => {
+    Alert.alert(
+      t('settings.sessions.revokeConfirmTitle'),
+      session.current
+        ? t('settings.sessions.revokeCurrentMessage')
+        : t('settings.sessions.revokeConfirmMessage', { device: describeDevice(session) }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('settings.sessions.revoke'),
+          style: 'destructive',
+          onPress: () => revokeMutation.mutate(session),
+        },
+      ],
+    );
+  };
+
+  const handleRevokeOthers = () => {
+    Alert.alert(
+      t('settings.sessions.revokeOthersTitle'),
+      t('settings.sessions.revokeOthersMessage'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('settings.sessions.revoke'),
+          style: 'destructive',
+          onPress: () => revokeOthersMutation.mutate(),
+        },
+      ],
+    );
+  };
+
+  const sessions = sessionsQuery.data?.sessions ?? [];
+  const hasOthers = sessions.some((session) => !session.current);
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'left', 'right']}>
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{t('settings.sessions.title')}</Text>
+          <Text style={styles.subtitle}>{t('settings.sessions.subtitle')}</Text>
+        </View>
+
+        {sessionsQuery.isLoading ? (
+          <ActivityIndicator color={colors.accent} />
+        ) : (
+          sessions.map((session) => (
+            <View key={session.id} style={styles.row}>
+              <Feather
+                name={session.platform === 'web' ? 'monitor' : 'smartphone'}
+                size={20}
+                color={colors.textSecondary}
+              />
+              <View style={styles.rowBody}>
+                <Text style={styles.rowLabel} numberOfLines={1} ellipsizeMode="tail">
+                  {describeDevice(session)}
+                  {session.current ? ` · ${t('settings.sessions.current')}` : ''}
+                </Text>
+                <Text style={styles.rowDetail}>
+                  {[
+                    session.region,
+                    session.ip_address,
+                    t('settings.sessions.lastSeen', {
+                      date: new Date(session.last_seen_at).toLocaleString(getIntlLocale(locale), {
+                        month: 'numeric',
+                        day: 'numeric',
+                        hour: '2-digit',
+                        minute: '2-digit',
+                      }),
+                    }),
+                  ]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </Text>
+              </View>
+              <TouchableOpacity
+                onPress={() => handleRevoke(session)}
+                disabled={revokeMutation.isPending}
+                accessibilityLabel={t('settings.sessions.revoke')}
+                hitSlop={8}
+              >
+                <Feather name="log-out" size={18} color={colors.textSecondary} />
+              </TouchableOpacity>
+            </View>
+          ))
+        )}
+
+        {hasOthers ? (
+          <TouchableOpacity
+            style={[
+              styles.destructiveButton,
+              revokeOthersMutation.isPending && styles.buttonDisabled,
+            ]}
+            onPress={handleRevokeOthers}
+            disabled={revokeOthersMutation.isPending}
+          >
+            <Text style={styles.destructiveButtonLabel}>{t('settings.sessions.revokeOthers')}</Text>
+          </TouchableOpacity>
+        ) : null}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  content: {
+    padding: spacing.lg,
+    gap: spacing.md,
+    paddingBottom: spacing.xl,
+  },
+  header: {
+    gap: spacing.xs,
+    marginBottom: spacing.sm,
+  },
+  title: {
+    ...textStyles.titleLarge,
+    color: colors.textPrimary,
+  },
+  subtitle: {
+    ...textStyles.body,
+    color: colors.textSecondary,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.sm,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: colors.border,
+  },
+  rowBody: {
+    flex: 1,
+    gap: 2,
+  },
+  rowLabel: {
+    ...textStyles.body,
+    color: colors.textPrimary,
+  },
+  rowDetail: {
+    ...textStyles.caption,
+    color: colors.textSecondary,
+  },
+  destructiveButton: {
+    borderRadius: 18,
+    paddingVertical: spacing.md,
+    alignItems: 'center',
+    backgroundColor: colors.error,
+    marginTop: spacing.md,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  destructiveButtonLabel: {
+    ...textStyles.body,
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,125 @@
+import React, { useEffect, useRef } from 'react';
+import { Modal, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { CameraView, useCameraPermissions, type BarcodeScanningResult } from 'expo-camera';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Feather } from '@expo/vector-icons';
+import { colors } from '@/theme/colors';
+import { textStyles } from '@/theme/typography';
+import { useTranslation } from '@/i18n';
+import { PrimaryButton } from './PrimaryButton';
+
+interface BarcodeScannerModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onScanned: (code: string) => void;
+}
+
+export function BarcodeScannerModal({ visible, onClose, onScanned }: BarcodeScannerModalProps) {
+  const { t } = useTranslation();
+  const inset = useSafeAreaInsets();
+  const [permission, requestPermission] = useCameraPermissions();
+  // The camera keeps firing while the frame holds a code; only the first read counts.
+  const handledRef = useRef(false);
+
+  useEffect(() => {
+    if (visible) {
+      handledRef.current = false;
+      if (permission && !permission.granted && permission.canAskAgain) {
+        void requestPermission();
+      }
+    }
+  }, [permission, requestPermission, visible]);
+
+  const handleScanned = (result: BarcodeScanningResult) => {
+    if (handledRef.current || !result.data) {
+      return;
+    }
+    handledRef.current = true;
+    onScanned(result.data);
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.container}>
+        {permission?.granted ? (
+          <CameraView
+            style={StyleSheet.absoluteFill}
+            facing="back"
+            barcodeScannerSettings={{ barcodeTypes: ['ean13', 'ean8', 'upc_a'] }}
+            onBarcodeScanned={visible ? handleScanned : undefined}
+          />
+        ) : (
+          <View style={styles.permission}>
+            <Text style={styles.permissionText}>{t('permissions.cameraDenied')}</Text>
+            {permission?.canAskAgain ? (
+              <PrimaryButton
+                label={t('barcode.allowCamera')}
+                onPress={() => void requestPermission()}
+              />
+            ) : null}
+          </View>
+        )}
+        <View style={[styles.header, { paddingTop: inset.top + 12 }]}>
+          <TouchableOpacity
+            onPress={onClose}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            accessibilityRole="button"
+            accessibilityLabel={t('common.close')}
+          >
+            <Feather name="x" size={24} color="#fff" />
+          </TouchableOpacity>
+        </View>
+        {permission?.granted ? (
+          <View style={styles.overlay} pointerEvents="none">
+            <View style={styles.frame} />
+            <Text style={styles.hint}>{t('barcode.scanHint')}</Text>
+          </View>
+        ) : null}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  header: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    paddingHorizontal: 20,
+  },
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 16,
+  },
+  frame: {
+    width: '75%',
+    height: 160,
+    borderRadius: 16,
+    borderWidth: 2,
+    borderColor: colors.accent,
+  },
+  hint: {
+    ...textStyles.body,
+    color: '#fff',
+  },
+  permission: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+    gap: 16,
+    backgroundColor: colors.surface,
+  },
+  permissionText: {
+    ...textStyles.body,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+});
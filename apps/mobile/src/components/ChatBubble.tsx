@@ -16,6 +16,7 @@ export const ChatBubble = React.memo<ChatBubbleProps>(function ChatBubble({ mess
   const isUser = message.role === 'user';
   const isProcessing = !isUser && message.status === 'processing';
   const hasImage = typeof message.imageUri === 'string' && message.imageUri.length > 0;
+  const galleryUris = message.imageUris && message.imageUris.length > 1 ? message.imageUris : null;
   const shimmer = useRef(new Animated.Value(0)).current;
   const { t } = useTranslation();
 
@@ -56,7 +57,19 @@ export const ChatBubble = React.memo<ChatBubbleProps>(function ChatBubble({ mess
           end={{ x: 1, y: 1 }}
           style={[styles.bubble, styles.userBubble, hasImage && styles.userBubbleWithImage]}
         >
-          {hasImage ? (
+          {galleryUris ? (
+            <View style={styles.imageGrid}>
+              {galleryUris.map((uri, index) => (
+                <Image
+                  key={`${uri}-${index}`}
+                  source={{ uri }}
+                  style={styles.gridImage}
+                  resizeMode="cover"
+                  accessibilityIgnoresInvertColors
+                />
+              ))}
+            </View>
+          ) : hasImage ? (
             <Image
               source={{ uri: message.imageUri! }}
               style={styles.messageImage}
@@ -143,6 +156,17 @@ const styles = StyleSheet.create({
     aspectRatio: 4 / 3,
     borderRadius: 16,
   },
+  imageGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    width: 216,
+  },
+  gridImage: {
+    width: 105,
+    height: 105,
+    borderRadius: 12,
+  },
   textWithImage: {
     marginTop: 10,
   },
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { ActivityIndicator, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import type { MealLogClarifyRequest } from '@meal-log/shared';
+import { colors } from '@/theme/colors';
+import { spacing } from '@/theme/spacing';
+import { textStyles } from '@/theme/typography';
+import type { ChatMessage } from '@/types/chat';
+import { useTranslation } from '@/i18n';
+
+interface ClarifyingQuestionsCardProps {
+  clarification: NonNullable<ChatMessage['clarification']>;
+  submitting: boolean;
+  onSubmit: (answers: MealLogClarifyRequest['answers']) => void;
+}
+
+export const ClarifyingQuestionsCard: React.FC<ClarifyingQuestionsCardProps> = ({
+  clarification,
+  submitting,
+  onSubmit,
+}) => {
+  const { t } = useTranslation();
+  const [selected, setSelected] = useState<Record<string, string>>({});
+
+  const answers = Object.entries(selected).map(([questionId, answer]) => ({
+    question_id: questionId,
+    answer,
+  }));
+
+  const toggleOption = (questionId: string, option: string) => {
+    setSelected((prev) => {
+      if (prev[questionId] === option) {
+        const { [questionId]: _removed, ...rest } = prev;
+        return rest;
+      }
+      return { ...prev, [questionId]: option };
+    });
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.estimate}>
+        {t('chat.clarify.estimate', {
+          dish: clarification.dish,
+          kcal: Math.round(clarification.totals.kcal),
+        })}
+      </Text>
+      {clarification.questions.map((question) => (
+        <View key={question.id} style={styles.question}>
+          <Text style={styles.questionText}>{question.question}</Text>
+          <View style={styles.chipRow}>
+            {question.options.map((option) => {
+              const isSelected = selected[question.id] === option;
+              return (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.chip, isSelected && styles.chipSelected]}
+                  onPress={() => toggleOption(question.id, option)}
+                  disabled={submitting}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: isSelected, disabled: submitting }}
+                >
+                  <Text style={[styles.chipLabel, isSelected && styles.chipLabelSelected]}>
+                    {option}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      ))}
+      <View style={styles.actions}>
+        {submitting ? <ActivityIndicator color={colors.accent} /> : null}
+        <TouchableOpacity
+          onPress={() => onSubmit([])}
+          disabled={submitting}
+          accessibilityRole="button"
+        >
+          <Text style={styles.secondaryAction}>{t('chat.clarify.skip')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.primaryAction, (submitting || !answers.length) && styles.actionDisabled]}
+          onPress={() => onSubmit(answers)}
+          disabled={submitting || !answers.length}
+          accessibilityRole="button"
+        >
+          <Text style={styles.primaryActionLabel}>{t('chat.clarify.submit')}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    marginLeft: 48,
+    marginRight: spacing.lg,
+    marginVertical: spacing.xs,
+    padding: spacing.md,
+    gap: spacing.md,
+    borderRadius: 18,
+    backgroundColor: colors.surfaceStrong,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  estimate: {
+    ...textStyles.caption,
+    color: colors.textSecondary,
+  },
+  question: {
+    gap: spacing.sm,
+  },
+  questionText: {
+    ...textStyles.body,
+    color: colors.textPrimary,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+  chip: {
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+  },
+  chipSelected: {
+    backgroundColor: colors.accent,
+    borderColor: colors.accent,
+  },
+  chipLabel: {
+    ...textStyles.caption,
+    color: colors.textPrimary,
+  },
+  chipLabelSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    gap: spacing.md,
+  },
+  secondaryAction: {
+    ...textStyles.caption,
+    color: colors.textSecondary,
+  },
+  primaryAction: {
+    borderRadius: 16,
+    backgroundColor: colors.accent,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+  },
+  actionDisabled: {
+    opacity: 0.5,
+  },
+  primaryActionLabel: {
+    ...textStyles.caption,
+    color: colors.accentInk,
+    fontWeight: '600',
+  },
+});
@@ -16,6 +16,10 @@ interface NutritionCardProps {
   onAddFavorite?: (draft: FavoriteMealDraft) => void;
   addingFavorite?: boolean;
   onEdit?: () => void;
+  onSplit?: () => void;
+  splitting?: boolean;
+  onSwitchEstimateSource?: (source: 'chain_menu' | 'ai') => void;
+  switchingSource?: boolean;
 }
 
 export const NutritionCard = React.memo<NutritionCardProps>(function NutritionCard({
@@ -25,6 +29,10 @@ export const NutritionCard = React.memo<NutritionCardProps>(function NutritionCa
   onAddFavorite,
   addingFavorite,
   onEdit,
+  onSplit,
+  splitting,
+  onSwitchEstimateSource,
+  switchingSource,
 }) {
   const { t } = useTranslation();
   const baseWarnings = (payload.warnings ?? []).map((warning) =>
@@ -60,6 +68,14 @@ export const NutritionCard = React.memo<NutritionCardProps>(function NutritionCa
   const warnings = Array.from(new Set(baseWarnings));
 
   const canAddFavorite = Boolean(onAddFavorite && payload.favoriteCandidate);
+  const dishes = payload.splitCount ? [] : (payload.dishes ?? []);
+  const calibrationLabels = (payload.calibrationApplied ?? []).map((entry) =>
+    entry.grams !== undefined
+      ? `${entry.label} (${Math.round(entry.grams)} g)`
+      : entry.factor !== undefined
+        ? `${entry.label} ×${entry.factor}`
+        : entry.label,
+  );
 
   return (
     <GlassCard intensity={30} style={styles.card}>
@@ -110,6 +126,34 @@ export const NutritionCard = React.memo<NutritionCardProps>(function NutritionCa
           {t('card.confidence', { value: Math.round(payload.confidence * 100) })}
         </Text>
       </View>
+      {payload.chainMenu ? (
+        <View style={styles.sourceRow}>
+          <Text style={styles.sourceText}>
+            {t(payload.chainMenu.active ? 'card.chainMenu.official' : 'card.chainMenu.aiEstimate', {
+              chain: payload.chainMenu.chain,
+            })}
+          </Text>
+          {onSwitchEstimateSource ? (
+            <TouchableOpacity
+              style={styles.sourceButton}
+              onPress={() =>
+                onSwitchEstimateSource(payload.chainMenu?.active ? 'ai' : 'chain_menu')
+              }
+              disabled={switchingSource}
+            >
+              {switchingSource ? (
+                <ActivityIndicator size="small" color={colors.accent} />
+              ) : (
+                <Text style={styles.sourceButtonLabel}>
+                  {t(
+                    payload.chainMenu.active ? 'card.chainMenu.useAi' : 'card.chainMenu.useOfficial',
+                  )}
+                </Text>
+              )}
+            </TouchableOpacity>
+          ) : null}
+        </View>
+      ) : null}
       <View style={styles.divider} />
       <LinearGradient
         colors={[colors.accentSoft, '#FFD586']}
@@ -155,6 +199,40 @@ export const NutritionCard = React.memo<NutritionCardProps>(function NutritionCa
           ))}
         </View>
       ) : null}
+      {calibrationLabels.length ? (
+        <Text style={styles.calibrationNote}>
+          {t('card.calibrationApplied', { labels: calibrationLabels.join(', ') })}
+        </Text>
+      ) : null}
+      {dishes.length > 1 ? (
+        <View style={styles.dishesBlock}>
+          <Text style={styles.dishesTitle}>{t('card.dishes.title', { count: dishes.length })}</Text>
+          {dishes.map((dish, index) => (
+            <View key={`${dish.dish}-${index}`} style={styles.itemRow}>
+              <Text style={styles.itemName} numberOfLines={1} ellipsizeMode="tail">
+                {dish.dish}
+              </Text>
+              <Text style={styles.itemAmount}>
+                {Math.round(dish.totals.kcal)} {t('unit.kcal')}
+              </Text>
+            </View>
+          ))}
+          {onSplit ? (
+            <TouchableOpacity style={styles.splitButton} onPress={onSplit} disabled={splitting}>
+              {splitting ? (
+                <ActivityIndicator size="small" color={colors.accent} />
+              ) : (
+                <Text style={styles.splitLabel}>
+                  {t('card.dishes.split', { count: dishes.length })}
+                </Text>
+              )}
+            </TouchableOpacity>
+          ) : null}
+        </View>
+      ) : null}
+      {payload.splitCount ? (
+        <Text style={styles.splitNote}>{t('card.dishes.splitDone', { count: payload.splitCount })}</Text>
+      ) : null}
       {warnings.length ? (
         <View style={styles.warningBlock}>
           {warnings.map((warning, index) => (
@@ -278,6 +356,32 @@ const styles = StyleSheet.create({
     gap: 10,
     marginTop: 4,
   },
+  sourceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 10,
+    marginTop: 8,
+  },
+  sourceText: {
+    ...textStyles.caption,
+    color: colors.textSecondary,
+    flex: 1,
+  },
+  sourceButton: {
+    borderWidth: 1,
+    borderColor: colors.accent,
+    borderRadius: 14,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  sourceButtonLabel: {
+    ...textStyles.caption,
+    color: colors.accent,
+    fontWeight: '600',
+  },
   divider: {
     height: 1,
     backgroundColor: colors.border,
@@ -351,6 +455,41 @@ const styles = StyleSheet.create({
     ...textStyles.body,
     color: colors.textSecondary,
   },
+  calibrationNote: {
+    ...textStyles.caption,
+    color: colors.textSecondary,
+    marginTop: 8,
+  },
+  dishesBlock: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    gap: 6,
+  },
+  dishesTitle: {
+    ...textStyles.caption,
+    color: colors.textSecondary,
+    fontWeight: '600',
+  },
+  splitButton: {
+    marginTop: 6,
+    borderWidth: 1,
+    borderColor: colors.accent,
+    borderRadius: 14,
+    paddingVertical: 8,
+    alignItems: 'center',
+  },
+  splitLabel: {
+    ...textStyles.caption,
+    color: colors.accent,
+    fontWeight: '600',
+  },
+  splitNote: {
+    ...textStyles.caption,
+    color: colors.textSecondary,
+    marginTop: 12,
+  },
   warningBlock: {
     marginTop: 12,
   },
@@ -0,0 +1,121 @@
+import React from 'react';
+import { ActivityIndicator, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { diffNutritionTotals, type MealLogReanalysis } from '@meal-log/shared';
+import { colors } from '@/theme/colors';
+import { spacing } from '@/theme/spacing';
+import { textStyles } from '@/theme/typography';
+import { useTranslation } from '@/i18n';
+
+interface ReanalysisProposalCardProps {
+  reanalysis: MealLogReanalysis;
+  submitting: boolean;
+  onResolve: (action: 'accept' | 'dismiss') => void;
+}
+
+const formatSigned = (value: number) => (value > 0 ? `+${value}` : `${value}`);
+
+export const ReanalysisProposalCard: React.FC<ReanalysisProposalCardProps> = ({
+  reanalysis,
+  submitting,
+  onResolve,
+}) => {
+  const { t } = useTranslation();
+  const { previous, proposed } = reanalysis;
+  const delta = diffNutritionTotals(previous.totals, proposed.totals);
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title}>{t('log.reanalysis.title')}</Text>
+      <Text style={styles.body}>{t('log.reanalysis.body')}</Text>
+      {previous.dish !== proposed.dish ? (
+        <Text style={styles.detail}>
+          {t('log.reanalysis.dish', { previous: previous.dish, proposed: proposed.dish })}
+        </Text>
+      ) : null}
+      <Text style={styles.calories}>
+        {t('log.reanalysis.calories', {
+          previous: Math.round(previous.totals.kcal),
+          proposed: Math.round(proposed.totals.kcal),
+        })}
+      </Text>
+      <Text style={styles.detail}>
+        {t('log.reanalysis.macros', {
+          protein: formatSigned(delta.protein_g),
+          fat: formatSigned(delta.fat_g),
+          carbs: formatSigned(delta.carbs_g),
+        })}
+      </Text>
+      <View style={styles.actions}>
+        {submitting ? <ActivityIndicator color={colors.accent} /> : null}
+        <TouchableOpacity
+          onPress={() => onResolve('dismiss')}
+          disabled={submitting}
+          accessibilityRole="button"
+        >
+          <Text style={styles.secondaryAction}>{t('log.reanalysis.dismiss')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.primaryAction, submitting && styles.actionDisabled]}
+          onPress={() => onResolve('accept')}
+          disabled={submitting}
+          accessibilityRole="button"
+        >
+          <Text style={styles.primaryActionLabel}>{t('log.reanalysis.accept')}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    padding: spacing.md,
+    gap: spacing.sm,
+    borderRadius: 18,
+    backgroundColor: colors.surfaceStrong,
+    borderWidth: 1,
+    borderColor: colors.accent,
+  },
+  title: {
+    ...textStyles.body,
+    color: colors.textPrimary,
+    fontWeight: '600',
+  },
+  body: {
+    ...textStyles.caption,
+    color: colors.textSecondary,
+  },
+  calories: {
+    ...textStyles.body,
+    color: colors.textPrimary,
+  },
+  detail: {
+    ...textStyles.caption,
+    color: colors.textPrimary,
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    gap: spacing.md,
+    marginTop: spacing.xs,
+  },
+  secondaryAction: {
+    ...textStyles.caption,
+    color: colors.textSecondary,
+  },
+  primaryAction: {
+    borderRadius: 16,
+    backgroundColor: colors.accent,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+  },
+  actionDisabled: {
+    opacity: 0.5,
+  },
+  primaryActionLabel: {
+    ...textStyles.caption,
+    color: colors.accentInk,
+    fontWeight: '600',
+  },
+});
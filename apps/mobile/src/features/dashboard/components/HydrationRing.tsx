@@ -0,0 +1,187 @@
+import { memo } from 'react';
+import { ActivityIndicator, Alert, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import type { HydrationEntry } from '@meal-log/shared';
+import { colors } from '@/theme/colors';
+import { spacing } from '@/theme/spacing';
+import { textStyles, fontFamilies } from '@/theme/typography';
+import { useTranslation } from '@/i18n';
+import { Ring } from './RemainingRings';
+import { buildRingState } from './ringMath';
+
+interface HydrationRingProps {
+  totalMl: number;
+  targetMl: number;
+  cupSizesMl: number[];
+  lastEntry: HydrationEntry | null;
+  isSaving: boolean;
+  onAdd: (amountMl: number) => Promise<unknown>;
+  onUndo: (entryId: number) => Promise<unknown>;
+}
+
+const RING_SIZE = 96;
+const STROKE_WIDTH = 9;
+
+export const HydrationRing = memo(
+  ({ totalMl, targetMl, cupSizesMl, lastEntry, isSaving, onAdd, onUndo }: HydrationRingProps) => {
+    const { t } = useTranslation();
+    const state = buildRingState(
+      {
+        label: t('dashboard.hydration.title'),
+        current: totalMl,
+        target: targetMl,
+        unit: 'ml',
+        colorToken: 'ringWater',
+      },
+      t,
+    );
+
+    const run = async (action: () => Promise<unknown>) => {
+      try {
+        await action();
+      } catch (error) {
+        Alert.alert(error instanceof Error ? error.message : t('dashboard.hydration.saveFailed'));
+      }
+    };
+
+    return (
+      <View style={styles.wrapper}>
+        <View style={styles.summaryRow}>
+          <View
+            style={styles.ringWrapper}
+            accessible
+            accessibilityRole="image"
+            accessibilityLabel={state.accessibilityLabel}
+          >
+            <Ring
+              size={RING_SIZE}
+              strokeWidth={STROKE_WIDTH}
+              progress={state.progress}
+              color={state.ringColor}
+              trackColor={state.trackColor}
+            />
+            <View style={styles.ringCenter} pointerEvents="none">
+              <Text style={styles.percentText}>{Math.round(state.progress * 100)}%</Text>
+            </View>
+          </View>
+          <View style={styles.summaryText}>
+            <Text style={styles.summaryLabel}>{t('dashboard.hydration.title')}</Text>
+            <Text style={styles.summaryValue}>
+              {state.currentText} / {state.targetText}
+            </Text>
+            <Text style={styles.deltaText}>{state.deltaText}</Text>
+          </View>
+        </View>
+
+        <View style={styles.cupRow}>
+          {cupSizesMl.map((size) => (
+            <TouchableOpacity
+              key={`cup-${size}`}
+              style={[styles.cupButton, isSaving && styles.buttonDisabled]}
+              onPress={() => run(() => onAdd(size))}
+              disabled={isSaving}
+              accessibilityLabel={t('dashboard.hydration.addAccessible', { value: size })}
+            >
+              <Text style={styles.cupLabel}>+{size} ml</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {lastEntry ? (
+          <View style={styles.undoRow}>
+            <Text style={styles.caption}>
+              {t('dashboard.hydration.last', { value: lastEntry.amount_ml })}
+            </Text>
+            <TouchableOpacity onPress={() => run(() => onUndo(lastEntry.id))} disabled={isSaving}>
+              {isSaving ? (
+                <ActivityIndicator size="small" color={colors.accent} />
+              ) : (
+                <Text style={styles.undoLabel}>{t('dashboard.hydration.undo')}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        ) : null}
+      </View>
+    );
+  },
+);
+
+const styles = StyleSheet.create({
+  wrapper: {
+    paddingVertical: spacing.md,
+    paddingHorizontal: spacing.md,
+    backgroundColor: colors.surface,
+    borderRadius: 20,
+    gap: spacing.md,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.lg,
+  },
+  ringWrapper: {
+    position: 'relative',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  ringCenter: {
+    position: 'absolute',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  percentText: {
+    ...textStyles.titleMedium,
+    color: colors.textPrimary,
+    fontWeight: '700',
+  },
+  summaryText: {
+    flex: 1,
+    gap: 2,
+  },
+  summaryLabel: {
+    ...textStyles.caption,
+    color: colors.textSecondary,
+  },
+  summaryValue: {
+    ...textStyles.titleMedium,
+    fontFamily: fontFamilies.semibold,
+  },
+  deltaText: {
+    ...textStyles.caption,
+    color: colors.textSecondary,
+  },
+  cupRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  cupButton: {
+    flex: 1,
+    borderRadius: 12,
+    paddingVertical: spacing.sm,
+    alignItems: 'center',
+    backgroundColor: 'rgba(77, 163, 255, 0.12)',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  cupLabel: {
+    ...textStyles.body,
+    color: colors.ringWater,
+    fontWeight: '600',
+  },
+  undoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  caption: {
+    ...textStyles.caption,
+    color: colors.textSecondary,
+  },
+  undoLabel: {
+    ...textStyles.caption,
+    color: colors.accent,
+    fontWeight: '600',
+  },
+});
+
+HydrationRing.displayName = 'HydrationRing';
@@ -1,5 +1,6 @@
-import { FlatList, StyleSheet, Text, View } from 'react-native';
+import { StyleSheet, Text, View } from 'react-native';
 import type { NutrientRow } from '../useDashboardSummary';
+import { nutrientDecimals } from '../summaryShared';
 import { colors } from '@/theme/colors';
 import { textStyles } from '@/theme/typography';
 import { spacing } from '@/theme/spacing';
@@ -13,20 +14,19 @@ export function NutrientTable({ data }: Props) {
   const { t } = useTranslation();
   return (
     <View style={styles.container}>
+      <Text style={styles.title}>{t('nutrients.heading')}</Text>
       <View style={styles.headerRow}>
         <Text style={[styles.cellLabel, styles.wide]}>{t('nutrients.header.nutrient')}</Text>
         <Text style={styles.cellLabel}>{t('nutrients.header.total')}</Text>
         <Text style={styles.cellLabel}>{t('nutrients.header.target')}</Text>
         <Text style={styles.cellLabel}>{t('nutrients.header.delta')}</Text>
       </View>
-      <FlatList
-        data={data}
-        keyExtractor={(item) => item.key}
-        ItemSeparatorComponent={() => <View style={styles.separator} />}
-        renderItem={({ item }) => (
+      {data.map((item, index) => (
+        <View key={item.key}>
+          {index > 0 ? <View style={styles.separator} /> : null}
           <View style={styles.dataRow}>
             <View style={[styles.cell, styles.wide]}>
-              <Text style={styles.nutrientLabel}>{item.label}</Text>
+              <Text style={styles.nutrientLabel}>{nutrientLabel(item, t)}</Text>
             </View>
             <View style={styles.cell}>
               <Text style={styles.number}>{formatValue(item.total, item.unit)}</Text>
@@ -35,26 +35,34 @@ export function NutrientTable({ data }: Props) {
               <Text style={styles.number}>{formatValue(item.target, item.unit)}</Text>
             </View>
             <View style={styles.cell}>
-              <Text
-                style={[
-                  styles.number,
-                  item.delta > 0 ? styles.excess : item.delta < 0 ? styles.deficit : null,
-                ]}
-              >
+              <Text style={[styles.number, deltaStyle(item)]}>
                 {formatValue(item.delta, item.unit)}
               </Text>
               <Text style={styles.statusText}>{statusLabel(item.delta, t)}</Text>
             </View>
           </View>
-        )}
-      />
+        </View>
+      ))}
     </View>
   );
 }
 
 function formatValue(value: number, unit: string) {
-  const decimals = unit === 'kcal' ? 0 : 1;
-  return `${value.toFixed(decimals)}${unit}`;
+  return `${value.toFixed(nutrientDecimals(unit))}${unit}`;
+}
+
+function nutrientLabel(item: NutrientRow, t: (key: string) => string) {
+  const key = `nutrients.micro.${item.key}`;
+  const translated = t(key);
+  return translated === key ? item.label : translated;
+}
+
+function deltaStyle(item: NutrientRow) {
+  if (item.delta === 0) {
+    return null;
+  }
+  const onTrack = item.kind === 'goal' ? item.delta > 0 : item.delta < 0;
+  return onTrack ? styles.deficit : styles.excess;
 }
 
 function statusLabel(delta: number, t: (key: string) => string) {
@@ -70,6 +78,12 @@ const styles = StyleSheet.create({
     borderRadius: 16,
     paddingVertical: spacing.sm,
   },
+  title: {
+    ...textStyles.titleMedium,
+    color: colors.textPrimary,
+    paddingHorizontal: spacing.md,
+    paddingTop: spacing.sm,
+  },
   headerRow: {
     flexDirection: 'row',
     paddingHorizontal: spacing.md,
@@ -77,6 +77,40 @@ export function PeriodComparisonCard({ comparison }: Props) {
           </View>
         ))}
       </View>
+      {comparison.plan ? (
+        <View style={styles.planSection}>
+          <Text style={styles.heading}>{t('comparison.plan.heading')}</Text>
+          <View style={styles.summaryRow}>
+            <View style={styles.summaryBlock}>
+              <Text style={styles.summaryLabel}>{t('comparison.plan.actual')}</Text>
+              <Text style={styles.summaryValue}>{formatKcal(comparison.plan.actual)}</Text>
+            </View>
+            <View style={styles.summaryBlock}>
+              <Text style={styles.summaryLabel}>{t('comparison.plan.planned')}</Text>
+              <Text style={styles.summaryValueSecondary}>{formatKcal(comparison.plan.planned)}</Text>
+            </View>
+            <View style={styles.deltaBlock}>
+              <Text
+                style={[
+                  styles.deltaValue,
+                  comparison.plan.delta > 0 ? styles.deltaPositive : comparison.plan.delta < 0 ? styles.deltaNegative : null,
+                ]}
+              >
+                {formatDeltaKcal(comparison.plan.delta)}
+              </Text>
+              <Text style={styles.deltaPercent}>
+                {t('comparison.plan.percentOfPlan', { value: percentString(comparison.plan.percentOfPlan) })}
+              </Text>
+            </View>
+          </View>
+          <Text style={styles.summaryLabel}>
+            {t('comparison.plan.eatenEntries', {
+              eaten: comparison.plan.eatenEntries,
+              total: comparison.plan.entries,
+            })}
+          </Text>
+        </View>
+      ) : null}
     </View>
   );
 }
@@ -139,7 +173,7 @@ const styles = StyleSheet.create({
     color: colors.textSecondary,
   },
   summaryValue: {
-    ...textStyles.titleSmall,
+    ...textStyles.titleMedium,
     color: colors.textPrimary,
   },
   summaryValueSecondary: {
@@ -197,4 +231,10 @@ const styles = StyleSheet.create({
     ...textStyles.caption,
     color: colors.textSecondary,
   },
+  planSection: {
+    gap: spacing.sm,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: colors.border,
+    paddingTop: spacing.md,
+  },
 });
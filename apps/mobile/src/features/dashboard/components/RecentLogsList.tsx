@@ -28,6 +28,7 @@ import {
   type ExportRange,
 } from '@/services/api';
 import { buildCsv, buildPdfHtml, type ExportItem } from '@/utils/logExport';
+import type { PendingMealLogRow } from '@/utils/mealOutbox';
 import { describeLocale } from '@/utils/locale';
 import { useSessionStore } from '@/store/session';
 import { usePremiumStore } from '@/store/premium';
@@ -51,9 +52,18 @@ interface Props {
   onRangeChange?: (range: MealLogRange) => void;
   onToggleFavorite?: (log: MealLogSummary, targetState: boolean) => void;
   togglingId?: string | null;
+  /** Meals still waiting in the offline outbox, shown above the saved logs. */
+  pendingLogs?: PendingMealLogRow[];
 }
 
-export function RecentLogsList({ logs, range = 'today', onRangeChange, onToggleFavorite, togglingId }: Props) {
+export function RecentLogsList({
+  logs,
+  range = 'today',
+  onRangeChange,
+  onToggleFavorite,
+  togglingId,
+  pendingLogs = [],
+}: Props) {
   const router = useRouter();
   const { t, locale } = useTranslation();
   const [sharingId, setSharingId] = useState<string | null>(null);
@@ -69,7 +79,7 @@ export function RecentLogsList({ logs, range = 'today', onRangeChange, onToggleF
   const rangeOptions = isPremium ? [...BASE_RANGE_OPTIONS, PREMIUM_EXTRA_RANGE] : BASE_RANGE_OPTIONS;
   const showPremiumUpsell = !isPremium;
 
-  if (!logs.length) {
+  if (!logs.length && !pendingLogs.length) {
     return (
       <View style={styles.container}>
         <Text style={styles.heading}>{t('recentLogs.heading')}</Text>
@@ -125,6 +135,21 @@ export function RecentLogsList({ logs, range = 'today', onRangeChange, onToggleF
         </View>
       )}
       <View style={styles.list}>
+        {pendingLogs.map((entry) => (
+          <View key={entry.requestKey} style={[styles.item, styles.pendingItem]}>
+            <View style={styles.itemHeader}>
+              <Text style={styles.itemTitle} numberOfLines={1}>
+                {entry.title}
+              </Text>
+              <Text style={styles.pendingBadge}>
+                {t(entry.status === 'sending' ? 'recentLogs.pending.sending' : 'recentLogs.pending.queued')}
+              </Text>
+            </View>
+            {entry.imageCount > 0 ? (
+              <Text style={styles.macroLabel}>{t('recentLogs.pending.photos', { count: entry.imageCount })}</Text>
+            ) : null}
+          </View>
+        ))}
         {logs.map((log) => (
           <TouchableOpacity key={log.id} style={styles.item} onPress={() => router.push(`/log/${log.id}`)}>
             <View style={styles.itemHeader}>
@@ -507,6 +532,16 @@ const styles = StyleSheet.create({
     ...textStyles.caption,
     color: colors.textSecondary,
   },
+  pendingItem: {
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: colors.border,
+  },
+  pendingBadge: {
+    ...textStyles.caption,
+    color: colors.accent,
+    fontWeight: '600',
+  },
   macrosRow: {
     flexDirection: 'row',
     gap: spacing.sm,
@@ -102,7 +102,7 @@ interface RingProps {
   trackColor: string;
 }
 
-function Ring({ size, strokeWidth, progress, color, trackColor }: RingProps) {
+export function Ring({ size, strokeWidth, progress, color, trackColor }: RingProps) {
   const radius = (size - strokeWidth) / 2;
   const circumference = 2 * Math.PI * radius;
   const clamped = clamp(progress, 0, 1);
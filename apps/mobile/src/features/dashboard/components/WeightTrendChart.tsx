@@ -0,0 +1,262 @@
+import { DateTime } from 'luxon';
+import { memo, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+  type LayoutChangeEvent,
+} from 'react-native';
+import Svg, { Circle, Line, Path } from 'react-native-svg';
+import type { WeightProjection, WeightTrendPoint } from '@meal-log/shared';
+import { colors } from '@/theme/colors';
+import { spacing } from '@/theme/spacing';
+import { textStyles, fontFamilies } from '@/theme/typography';
+import { getIntlLocale, useTranslation } from '@/i18n';
+import { buildWeightChartGeometry } from './weightChartMath';
+
+interface WeightTrendChartProps {
+  trend: WeightTrendPoint[];
+  projection: WeightProjection | null;
+  days: number;
+  isLoading: boolean;
+  isSaving: boolean;
+  onAdd: (weightKg: number) => Promise<unknown>;
+}
+
+const CHART_HEIGHT = 120;
+const TREND_COLOR = '#4b7bec';
+const TARGET_COLOR = '#9aa5c5';
+
+export const WeightTrendChart = memo(
+  ({ trend, projection, days, isLoading, isSaving, onAdd }: WeightTrendChartProps) => {
+    const { t, locale } = useTranslation();
+    const intlLocale = getIntlLocale(locale);
+    const [width, setWidth] = useState(0);
+    const [input, setInput] = useState('');
+
+    const endDate = useMemo(() => DateTime.now().toISODate() ?? '', []);
+    const startDate = useMemo(
+      () =>
+        DateTime.now()
+          .minus({ days: days - 1 })
+          .toISODate() ?? '',
+      [days],
+    );
+    const geometry = useMemo(
+      () =>
+        buildWeightChartGeometry({
+          trend,
+          startDate,
+          endDate,
+          width,
+          height: CHART_HEIGHT,
+          targetKg: projection?.target_weight_kg,
+        }),
+      [trend, startDate, endDate, width, projection?.target_weight_kg],
+    );
+
+    const handleLayout = (event: LayoutChangeEvent) => {
+      setWidth(event.nativeEvent.layout.width);
+    };
+
+    const handleSubmit = async () => {
+      const value = Number(input.replace(',', '.'));
+      if (!Number.isFinite(value) || value < 20 || value > 400) {
+        Alert.alert(t('dashboard.weight.invalid'));
+        return;
+      }
+      try {
+        await onAdd(value);
+        setInput('');
+      } catch (error) {
+        Alert.alert(error instanceof Error ? error.message : t('dashboard.weight.saveFailed'));
+      }
+    };
+
+    const formatDate = (iso: string | null) =>
+      iso
+        ? DateTime.fromISO(iso, { zone: 'utc' })
+            .setLocale(intlLocale)
+            .toLocaleString(DateTime.DATE_MED)
+        : '';
+
+    return (
+      <View style={styles.wrapper}>
+        <View style={styles.summaryRow}>
+          <View>
+            <Text style={styles.summaryLabel}>{t('dashboard.weight.current')}</Text>
+            <Text style={styles.summaryValue}>
+              {projection?.current_trend_kg != null
+                ? `${projection.current_trend_kg.toFixed(1)} kg`
+                : '-- kg'}
+            </Text>
+          </View>
+          {projection?.weekly_rate_kg != null ? (
+            <Text style={styles.rateText}>
+              {t('dashboard.weight.rate', {
+                value: `${projection.weekly_rate_kg > 0 ? '+' : ''}${projection.weekly_rate_kg.toFixed(2)}`,
+              })}
+            </Text>
+          ) : null}
+        </View>
+
+        <View style={styles.chartCard} onLayout={handleLayout}>
+          {isLoading ? (
+            <ActivityIndicator color={colors.accent} />
+          ) : geometry ? (
+            <Svg width={width} height={CHART_HEIGHT}>
+              {geometry.targetY != null ? (
+                <Line
+                  x1={0}
+                  x2={width}
+                  y1={geometry.targetY}
+                  y2={geometry.targetY}
+                  stroke={TARGET_COLOR}
+                  strokeDasharray="4 4"
+                  strokeWidth={1.5}
+                />
+              ) : null}
+              {geometry.dots.map((dot, index) => (
+                <Circle
+                  key={`weight-dot-${index}`}
+                  cx={dot.x}
+                  cy={dot.y}
+                  r={2.5}
+                  fill={TREND_COLOR}
+                  opacity={0.35}
+                />
+              ))}
+              <Path d={geometry.trendPath} stroke={TREND_COLOR} strokeWidth={2} fill="none" />
+            </Svg>
+          ) : (
+            <Text style={styles.emptyText}>{t('dashboard.weight.empty')}</Text>
+          )}
+        </View>
+
+        {projection ? (
+          <View style={styles.projection}>
+            <Text style={styles.projectionText}>
+              {t(`dashboard.weight.projection.${projection.status}`, {
+                target: projection.target_weight_kg?.toFixed(1) ?? '',
+                date: formatDate(projection.estimated_date),
+              })}
+            </Text>
+            {projection.planned_date && projection.status !== 'no_goal' ? (
+              <Text style={styles.plannedText}>
+                {t('dashboard.weight.planned', { date: formatDate(projection.planned_date) })}
+              </Text>
+            ) : null}
+          </View>
+        ) : null}
+
+        <View style={styles.inputRow}>
+          <TextInput
+            value={input}
+            onChangeText={setInput}
+            keyboardType="decimal-pad"
+            placeholder={t('dashboard.weight.placeholder')}
+            style={styles.input}
+            returnKeyType="done"
+            onSubmitEditing={handleSubmit}
+          />
+          <TouchableOpacity
+            style={[styles.addButton, (isSaving || !input.trim()) && styles.addButtonDisabled]}
+            onPress={handleSubmit}
+            disabled={isSaving || !input.trim()}
+          >
+            {isSaving ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.addLabel}>{t('dashboard.weight.add')}</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  },
+);
+
+const styles = StyleSheet.create({
+  wrapper: {
+    paddingVertical: spacing.md,
+    paddingHorizontal: spacing.md,
+    backgroundColor: colors.surface,
+    borderRadius: 20,
+    gap: spacing.md,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    justifyContent: 'space-between',
+  },
+  summaryLabel: {
+    ...textStyles.caption,
+    color: colors.textSecondary,
+  },
+  summaryValue: {
+    ...textStyles.titleMedium,
+    fontFamily: fontFamilies.semibold,
+  },
+  rateText: {
+    ...textStyles.caption,
+    color: colors.textSecondary,
+  },
+  chartCard: {
+    borderRadius: 18,
+    backgroundColor: 'rgba(75, 123, 236, 0.08)',
+    minHeight: CHART_HEIGHT,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    ...textStyles.caption,
+    color: colors.textSecondary,
+    paddingHorizontal: spacing.md,
+    textAlign: 'center',
+  },
+  projection: {
+    gap: 2,
+  },
+  projectionText: {
+    ...textStyles.body,
+    color: colors.textPrimary,
+  },
+  plannedText: {
+    ...textStyles.caption,
+    color: colors.textSecondary,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 12,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    ...textStyles.body,
+  },
+  addButton: {
+    backgroundColor: colors.accent,
+    borderRadius: 12,
+    paddingHorizontal: spacing.lg,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  addButtonDisabled: {
+    opacity: 0.5,
+  },
+  addLabel: {
+    ...textStyles.body,
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
+
+WeightTrendChart.displayName = 'WeightTrendChart';
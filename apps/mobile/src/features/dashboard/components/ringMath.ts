@@ -1,7 +1,7 @@
 import { colors } from '@/theme/colors';
 
-export type RingUnit = 'g' | 'kcal';
-export type RingColorToken = 'ringProtein' | 'ringCarb' | 'ringFat' | 'ringKcal';
+export type RingUnit = 'g' | 'kcal' | 'ml';
+export type RingColorToken = 'ringProtein' | 'ringCarb' | 'ringFat' | 'ringKcal' | 'ringWater';
 export type TranslateFn = (key: string, params?: Record<string, string | number>) => string;
 
 export interface RingInput {
@@ -72,7 +72,7 @@ export function buildRingState(data: RingInput, t: TranslateFn): RingState {
 
   let ringColor = hasTarget ? colors[data.colorToken] : colors.ringInactive;
   if (status === 'over') {
-    if (data.colorToken === 'ringProtein') {
+    if (data.colorToken === 'ringProtein' || data.colorToken === 'ringWater') {
       ringColor = colors.success;
     } else {
       ringColor = colors.error;
@@ -0,0 +1,75 @@
+import type { WeightTrendPoint } from '@meal-log/shared';
+
+export interface WeightChartPoint {
+  x: number;
+  y: number;
+}
+
+export interface WeightChartGeometry {
+  dots: WeightChartPoint[];
+  trendPath: string;
+  targetY: number | null;
+  minKg: number;
+  maxKg: number;
+}
+
+/** Targets further than this outside the logged range are not drawn, so the line stays readable. */
+const TARGET_VISIBLE_MARGIN_KG = 3;
+const DOMAIN_PADDING_KG = 0.5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDayNumber(date: string) {
+  return Math.round(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+}
+
+/**
+ * Maps daily weights and their moving average onto a `width` x `height` canvas. The x axis
+ * spans calendar days between `startDate` and `endDate` so gaps in logging stay visible.
+ */
+export function buildWeightChartGeometry(params: {
+  trend: WeightTrendPoint[];
+  startDate: string;
+  endDate: string;
+  width: number;
+  height: number;
+  targetKg?: number | null;
+}): WeightChartGeometry | null {
+  const { trend, width, height } = params;
+  if (trend.length === 0 || width <= 0 || height <= 0) {
+    return null;
+  }
+
+  const values = trend.flatMap((point) => [point.weight_kg, point.trend_kg]);
+  let minKg = Math.min(...values);
+  let maxKg = Math.max(...values);
+  const target = params.targetKg ?? null;
+  const showTarget =
+    target != null &&
+    target >= minKg - TARGET_VISIBLE_MARGIN_KG &&
+    target <= maxKg + TARGET_VISIBLE_MARGIN_KG;
+  if (showTarget) {
+    minKg = Math.min(minKg, target);
+    maxKg = Math.max(maxKg, target);
+  }
+  minKg -= DOMAIN_PADDING_KG;
+  maxKg += DOMAIN_PADDING_KG;
+
+  const startDay = toDayNumber(params.startDate);
+  const span = Math.max(1, toDayNumber(params.endDate) - startDay);
+  const toX = (date: string) => ((toDayNumber(date) - startDay) / span) * width;
+  const toY = (kg: number) => height - ((kg - minKg) / (maxKg - minKg)) * height;
+  const round = (value: number) => Math.round(value * 10) / 10;
+
+  return {
+    dots: trend.map((point) => ({ x: round(toX(point.date)), y: round(toY(point.weight_kg)) })),
+    trendPath: trend
+      .map(
+        (point, index) =>
+          `${index === 0 ? 'M' : 'L'}${round(toX(point.date))},${round(toY(point.trend_kg))}`,
+      )
+      .join(' '),
+    targetY: showTarget ? round(toY(target)) : null,
+    minKg,
+    maxKg,
+  };
+}
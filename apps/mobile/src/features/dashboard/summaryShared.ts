@@ -35,6 +35,8 @@ export interface NutrientRow {
   key: string;
   label: string;
   unit: string;
+  /** `limit` rows (salt, sugar) are good below target; `goal` rows (fiber, minerals) at or above it. */
+  kind: 'limit' | 'goal';
   total: number;
   target: number;
   delta: number;
@@ -57,6 +59,16 @@ export interface PeriodComparison {
     percentOfTarget: number;
   };
   macros: MacroComparison[];
+  plan?: PlanComparison;
+}
+
+export interface PlanComparison {
+  entries: number;
+  eatenEntries: number;
+  planned: number;
+  actual: number;
+  delta: number;
+  percentOfPlan: number;
 }
 
 export interface DashboardViewModel {
@@ -98,14 +110,18 @@ export function buildViewModel(summary: DashboardSummary, targets: DashboardTarg
 
   const breakdown = computeMealPeriodBreakdown(summary.calories.daily);
   const macros = buildMacroStats(summary.macros.total, summary.macros.targets, summary.macros.delta);
-  const nutrients = summary.micros.map((item) => ({
-    key: item.key,
-    label: item.label,
-    unit: item.unit,
-    total: roundNumber(item.total, item.unit === 'kcal' ? 0 : 1),
-    target: roundNumber(item.target, item.unit === 'kcal' ? 0 : 1),
-    delta: roundNumber(item.delta, item.unit === 'kcal' ? 0 : 1),
-  }));
+  const nutrients = summary.micros.map((item) => {
+    const decimals = nutrientDecimals(item.unit);
+    return {
+      key: item.key,
+      label: item.label,
+      unit: item.unit,
+      kind: item.kind ?? 'limit',
+      total: roundNumber(item.total, decimals),
+      target: roundNumber(item.target, decimals),
+      delta: roundNumber(item.delta, decimals),
+    };
+  });
 
   return {
     summary,
@@ -128,6 +144,10 @@ export function buildViewModel(summary: DashboardSummary, targets: DashboardTarg
   };
 }
 
+export function nutrientDecimals(unit: string) {
+  return unit === 'kcal' || unit === 'mg' ? 0 : 1;
+}
+
 export function computeMealPeriodBreakdown(daily: DashboardSummary['calories']['daily']): MealPeriodBreakdown[] {
   const totalPerPeriod = daily.reduce(
     (acc, entry) => {
@@ -274,5 +294,22 @@ export function buildTargetComparison(summary: DashboardSummary, targets: Dashbo
         percentOfTarget: percentage(totals.carbs_g, targets.carbs_g),
       },
     ],
+    plan: buildPlanComparison(summary),
+  };
+}
+
+function buildPlanComparison(summary: DashboardSummary): PlanComparison | undefined {
+  const plan = summary.plan;
+  if (!plan || plan.entries === 0) {
+    return undefined;
+  }
+  const actual = summary.macros.total.calories;
+  return {
+    entries: plan.entries,
+    eatenEntries: plan.eaten_entries,
+    planned: roundNumber(plan.planned.calories, 0),
+    actual: roundNumber(actual, 0),
+    delta: roundNumber(actual - plan.planned.calories, 0),
+    percentOfPlan: percentage(actual, plan.planned.calories),
   };
 }
@@ -136,4 +136,5 @@ export type {
   NutrientRow,
   MacroComparison,
   PeriodComparison,
+  PlanComparison,
 } from './summaryShared';
@@ -0,0 +1,40 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { HydrationDay } from '@meal-log/shared';
+import { addHydrationEntry, deleteHydrationEntry, getHydration } from '@/services/api';
+
+export function useHydration(options?: { enabled?: boolean }) {
+  const queryClient = useQueryClient();
+  const enabled = options?.enabled ?? true;
+
+  const query = useQuery({
+    queryKey: ['hydration'],
+    queryFn: () => getHydration(),
+    enabled,
+    staleTime: 1000 * 60,
+  });
+
+  const handleDay = (day: HydrationDay) => {
+    queryClient.setQueryData(['hydration'], day);
+    queryClient.invalidateQueries({ queryKey: ['dashboardSummary'] });
+  };
+
+  const addEntry = useMutation({
+    mutationFn: (amountMl: number) => addHydrationEntry({ amount_ml: amountMl }),
+    onSuccess: handleDay,
+  });
+
+  const removeEntry = useMutation({
+    mutationFn: (entryId: number) => deleteHydrationEntry(entryId),
+    onSuccess: handleDay,
+  });
+
+  return {
+    day: query.data ?? null,
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+    refetch: query.refetch,
+    addEntry: addEntry.mutateAsync,
+    removeEntry: removeEntry.mutateAsync,
+    isSaving: addEntry.isPending || removeEntry.isPending,
+  };
+}
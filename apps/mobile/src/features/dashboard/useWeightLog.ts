@@ -0,0 +1,34 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { createWeightEntry, getWeightLog } from '@/services/api';
+
+export const WEIGHT_LOG_DAYS = 90;
+
+export function useWeightLog(options?: { enabled?: boolean }) {
+  const queryClient = useQueryClient();
+  const enabled = options?.enabled ?? true;
+
+  const query = useQuery({
+    queryKey: ['weightLog', WEIGHT_LOG_DAYS],
+    queryFn: () => getWeightLog(WEIGHT_LOG_DAYS),
+    enabled,
+    staleTime: 1000 * 60 * 5,
+  });
+
+  const addEntry = useMutation({
+    mutationFn: (weightKg: number) => createWeightEntry({ weight_kg: weightKg }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['weightLog'] });
+      queryClient.invalidateQueries({ queryKey: ['profile'] });
+    },
+  });
+
+  return {
+    trend: query.data?.trend ?? [],
+    projection: query.data?.projection ?? null,
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+    refetch: query.refetch,
+    addEntry: addEntry.mutateAsync,
+    isSaving: addEntry.isPending,
+  };
+}
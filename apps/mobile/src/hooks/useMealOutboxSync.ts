@@ -0,0 +1,100 @@
+import { useCallback, useEffect } from 'react';
+import { AppState } from 'react-native';
+import { addNetworkStateListener } from 'expo-network';
+import type { QueryClient } from '@tanstack/react-query';
+import { translateKey } from '@/i18n';
+import { flushMealOutbox } from '@/services/meal-outbox';
+import { useChatStore } from '@/store/chat';
+import { useMealOutboxStore } from '@/store/outbox';
+import { useSessionStore } from '@/store/session';
+import { nextOutboxWakeAt, selectOwnOutboxEntries } from '@/utils/mealOutbox';
+
+// Matches the image stale window in the chat screen, counted from delivery instead of the first tap.
+const DELIVERED_INGEST_GRACE_MS = 1000 * 60 * 15;
+
+export function useMealOutboxSync(queryClient: QueryClient) {
+  const userId = useSessionStore((state) => state.user?.id ?? null);
+  const setUsage = useSessionStore((state) => state.setUsage);
+  const wakeAt = useMealOutboxStore((state) =>
+    nextOutboxWakeAt(selectOwnOutboxEntries(state.entries, userId)),
+  );
+
+  const sync = useCallback(async () => {
+    if (userId === null) {
+      return;
+    }
+    const outcomes = await flushMealOutbox(userId);
+    if (!outcomes.length) {
+      return;
+    }
+    const chat = useChatStore.getState();
+    for (const outcome of outcomes) {
+      const { userMessageId, assistantMessageId } = outcome.entry;
+      if (outcome.type === 'accepted') {
+        if (outcome.response?.usage) {
+          setUsage(outcome.response.usage);
+        }
+        if (assistantMessageId) {
+          chat.updateMessageIngest(assistantMessageId, {
+            nextCheckAt: null,
+            deadlineAt: Date.now() + DELIVERED_INGEST_GRACE_MS,
+          });
+          chat.setMessageText(assistantMessageId, translateKey('chat.processingInBackground'));
+        }
+        continue;
+      }
+      if (userMessageId) {
+        chat.updateMessageStatus(userMessageId, 'error');
+      }
+      if (assistantMessageId) {
+        chat.updateMessageStatus(assistantMessageId, 'error');
+        chat.setMessageText(
+          assistantMessageId,
+          outcome.error.message || translateKey('chat.genericErrorBubble'),
+        );
+      }
+    }
+    queryClient.invalidateQueries({ queryKey: ['recentLogs'] });
+    queryClient.invalidateQueries({ queryKey: ['mealLogs'] });
+    queryClient.invalidateQueries({ queryKey: ['dashboardSummary'] });
+    queryClient.invalidateQueries({ queryKey: ['streak'] });
+  }, [queryClient, setUsage, userId]);
+
+  useEffect(() => {
+    if (!userId) {
+      return;
+    }
+    void sync();
+    const sub = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        void sync();
+      }
+    });
+    return () => sub.remove();
+  }, [sync, userId]);
+
+  useEffect(() => {
+    if (!userId) {
+      return;
+    }
+    // Entries may be minutes into their backoff when the connection comes back; send them right away.
+    let wasConnected: boolean | undefined;
+    const sub = addNetworkStateListener(({ isConnected, isInternetReachable }) => {
+      const connected = Boolean(isConnected) && isInternetReachable !== false;
+      if (connected && wasConnected === false) {
+        useMealOutboxStore.getState().resetBackoff();
+        void sync();
+      }
+      wasConnected = connected;
+    });
+    return () => sub.remove();
+  }, [sync, userId]);
+
+  useEffect(() => {
+    if (!userId || wakeAt === null) {
+      return;
+    }
+    const timer = setTimeout(() => void sync(), Math.max(0, wakeAt - Date.now()));
+    return () => clearTimeout(timer);
+  }, [sync, userId, wakeAt]);
+}
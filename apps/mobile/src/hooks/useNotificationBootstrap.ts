@@ -36,7 +36,7 @@ export function useNotificationBootstrap() {
       try {
         const settings = await getNotificationSettings();
         if (cancelled) return;
-        if (settings.reminder_enabled || settings.important_enabled) {
+        if (settings.reminder_enabled || settings.important_enabled || settings.hydration_reminder_enabled) {
           await registerPushTokenIfNeeded({ prompt: false });
         }
       } catch (error) {
@@ -43,6 +43,25 @@ const dictionaries: Record<Locale, TranslationTable> = {
     'dashboard.segment.week': '週',
     'dashboard.segment.month': '月',
     'dashboard.chart.empty': 'データがありません',
+    'dashboard.hydration.title': '水分',
+    'dashboard.hydration.addAccessible': '{{value}}ml の水分を記録',
+    'dashboard.hydration.last': '直前の記録: {{value}}ml',
+    'dashboard.hydration.undo': '取り消す',
+    'dashboard.hydration.saveFailed': '水分を記録できませんでした',
+    'dashboard.weight.current': '体重 (7日平均)',
+    'dashboard.weight.rate': '週 {{value}} kg',
+    'dashboard.weight.placeholder': '体重 (kg)',
+    'dashboard.weight.add': '記録',
+    'dashboard.weight.empty': '体重を記録すると推移が表示されます',
+    'dashboard.weight.invalid': '20〜400kgの範囲で入力してください',
+    'dashboard.weight.saveFailed': '体重を記録できませんでした',
+    'dashboard.weight.planned': '計画上の達成日: {{date}}',
+    'dashboard.weight.projection.on_track': '今のペースなら{{date}}頃に目標 {{target}}kg に到達見込みです',
+    'dashboard.weight.projection.reached': '目標体重 {{target}}kg に到達しています',
+    'dashboard.weight.projection.stalled': '体重が横ばいです（目標 {{target}}kg）',
+    'dashboard.weight.projection.off_track': '目標 {{target}}kg とは逆方向に推移しています',
+    'dashboard.weight.projection.insufficient_data': '到達予測には1週間以上の記録が必要です',
+    'dashboard.weight.projection.no_goal': '目標体重を設定すると到達予測が表示されます',
     'dashboard.summary.remainingToday': '残り（今日）',
     'dashboard.summary.periodTotal': '摂取量（期間合計）',
     'dashboard.monthlyDeficit.title': '月間カロリー差分',
@@ -113,6 +132,11 @@ const dictionaries: Record<Locale, TranslationTable> = {
     'comparison.delta': '差分',
     'comparison.macroDelta': '{{delta}}g',
     'comparison.percentOfTarget': '目標比 {{value}}',
+    'comparison.plan.heading': '予定との比較',
+    'comparison.plan.planned': '予定',
+    'comparison.plan.actual': '実績',
+    'comparison.plan.eatenEntries': '予定{{total}}件中{{eaten}}件を記録済み',
+    'comparison.plan.percentOfPlan': '予定比 {{value}}',
     'status.over': '超過',
     'status.under': '残り',
     'status.onTarget': '目標通り',
@@ -120,6 +144,17 @@ const dictionaries: Record<Locale, TranslationTable> = {
     'nutrients.header.total': '合計',
     'nutrients.header.target': '目標',
     'nutrients.header.delta': '+/-',
+    'nutrients.heading': '食物繊維・塩分など',
+    'nutrients.micro.fiber_g': '食物繊維',
+    'nutrients.micro.sugar_g': '糖類',
+    'nutrients.micro.saturated_fat_g': '飽和脂肪酸',
+    'nutrients.micro.sodium_mg': 'ナトリウム',
+    'nutrients.micro.salt_g': '食塩相当量',
+    'nutrients.micro.potassium_mg': 'カリウム',
+    'nutrients.micro.calcium_mg': 'カルシウム',
+    'nutrients.micro.iron_mg': '鉄',
+    'nutrients.micro.vitamin_c_mg': 'ビタミンC',
+    'nutrients.micro.vitamin_d_ug': 'ビタミンD',
     'mealDistribution.heading': '時間帯別バランス',
     'mealDistribution.current': '現在',
     'mealDistribution.previous': '前期',
@@ -146,6 +181,10 @@ const dictionaries: Record<Locale, TranslationTable> = {
     'recentLogs.premiumUpsell.title': 'プレミアムで履歴を長期保存',
     'recentLogs.premiumUpsell.description': 'プレミアムプランなら90日以上の履歴とAI解析20回/日までの余裕が手に入ります。',
     'recentLogs.premiumUpsell.cta': 'プレミアムプランを見る',
+    'recentLogs.pending.queued': '送信待ち',
+    'recentLogs.pending.sending': '送信中',
+    'recentLogs.pending.photoOnly': '写真の記録',
+    'recentLogs.pending.photos': '写真 {{count}} 枚',
     'history.title': '食事履歴',
     'history.subtitle': '期間を切り替えて過去の記録を確認できます。',
     'history.range.today': '今日',
@@ -203,6 +242,25 @@ const dictionaries: Record<Locale, TranslationTable> = {
     'log.field.fat': '脂質',
     'log.field.carbs': '炭水化物',
     'log.field.mealPeriod': '時間帯タグ',
+    'log.field.item': '品目',
+    'log.section.items': '品目',
+    'log.items.hint': '量を変えると栄養素が比例して再計算され、合計に反映されます。',
+    'log.items.namePlaceholder': '品目名',
+    'log.items.grams': '量',
+    'log.items.add': '品目を追加',
+    'log.items.remove': '品目を削除',
+    'log.items.required': '品目を1つ以上残してください',
+    'log.items.invalid': '品目名と量を正しく入力してください',
+    'log.items.added': '{{item}} を追加',
+    'log.items.removed': '{{item}} を削除',
+    'log.reanalysis.title': '新しい推定値があります',
+    'log.reanalysis.body': '解析の改善で推定値が変わりました。編集済みの記録なので、自動では反映していません。',
+    'log.reanalysis.dish': '料理名: {{previous}} → {{proposed}}',
+    'log.reanalysis.calories': '{{previous}} → {{proposed}} kcal',
+    'log.reanalysis.macros': 'P {{protein}}g / F {{fat}}g / C {{carbs}}g',
+    'log.reanalysis.accept': '新しい推定値にする',
+    'log.reanalysis.dismiss': '今のままにする',
+    'log.reanalysis.failed': '推定値を更新できませんでした',
     'common.cancel': 'キャンセル',
     'common.delete': '削除',
     'common.close': '閉じる',
@@ -355,6 +413,7 @@ const dictionaries: Record<Locale, TranslationTable> = {
     'chat.limitReached.title': '本日の無料分を使い切りました',
     'chat.quickActions.photo': '写真解析',
     'chat.quickActions.favorite': 'マイセット',
+    'chat.quickActions.barcode': 'バーコード',
     'chat.quickActions.report': 'レポート',
     'chat.quickActions.template': 'フォーマット',
     'chat.actions.insertTemplate': 'テンプレートを挿入',
@@ -365,18 +424,37 @@ const dictionaries: Record<Locale, TranslationTable> = {
     'chat.send.limit': '上限',
     'chat.placeholder': '食事内容を入力...',
     'chat.recordComplete': '記録しました！😊',
+    'chat.clarify.intro': '記録する前に、いくつか教えてください。',
+    'chat.clarify.estimate': '現在の推定: {{dish}}（約 {{kcal}} kcal）',
+    'chat.clarify.submit': '回答して記録',
+    'chat.clarify.skip': 'このまま記録',
+    'chat.clarify.failed': '記録できませんでした',
     'chat.processing': 'AIが食事を分析中…',
     'chat.processingInBackground': 'バックグラウンドで解析を続けます。完了したら履歴で確認できます。',
     'chat.analysisCanceled': '解析をキャンセルしました。',
     'chat.networkSlowWarning': '電波が悪い可能性があります。もう少々お待ちください。',
     'chat.networkErrorBubble': '通信状況が不安定のため解析に失敗しました。時間をおいて再度お試しください。',
     'chat.networkErrorBanner': '通信状況が不安定のようです。時間をおいて再度お試しください。',
+    'chat.outbox.queued': 'オフラインのため送信待ちにしました。通信が戻ったら自動で送信します。',
     'chat.genericErrorBubble': '解析に失敗しました。もう一度お試しください。',
     'chat.usageLimitBubble': '本日の無料利用回数が上限に達しました。',
     'chat.sessionExpiredBubble': 'ログインの有効期限が切れました。再度ログインしてください。',
     'chat.newLog': '新規登録',
     'chat.favoriteRecording': 'お気に入りを記録しています…',
+    'barcode.allowCamera': 'カメラを許可',
+    'barcode.scanHint': '枠内にバーコードを合わせてください',
+    'barcode.lookingUp': '商品を検索しています…',
+    'barcode.lookupFailed': '商品情報を取得できませんでした',
+    'barcode.notFoundTitle': '商品が見つかりませんでした',
+    'barcode.notFoundMessage': '栄養成分表示を撮影すると、AIが読み取って登録します。',
+    'barcode.photographLabel': '成分表示を撮影',
+    'barcode.readingLabel': '栄養成分表示を読み取っています…',
+    'barcode.confirmTitle': '内容を確認',
+    'barcode.confirmAiNote': 'AIが読み取った値です。記録すると次回からすぐに表示されます。',
+    'barcode.log': 'この内容で記録',
+    'barcode.recording': '商品を記録しています…',
     'chat.photoLoadFailed': '写真の読み込みに失敗しました。もう一度お試しください。',
+    'chat.photoLimitReached': '写真は1回の記録につき{{max}}枚まで添付できます。',
     'chat.cameraLaunchFailed': 'カメラの起動に失敗しました。もう一度お試しください。',
     'chat.summaryLine': '{{dish}}（{{calories}} kcal）',
     'chat.summaryMacrosLine': 'P {{protein}}g / F {{fat}}g / C {{carbs}}g',
@@ -567,6 +645,24 @@ const dictionaries: Record<Locale, TranslationTable> = {
     'settings.account.screenDescription': 'アカウント情報の管理、パスワード変更、削除などはこちらから行えます。',
     'settings.account.screenPlaceholder': '近日中に、メールアドレスやパスワードの変更機能を提供予定です。',
     'settings.account.openWeb': 'サポートページを開く',
+    'settings.account.sessions': 'ログイン中の端末',
+    'settings.sessions.title': 'ログイン中の端末',
+    'settings.sessions.subtitle': 'このアカウントにログインしている端末です。心当たりのない端末はログアウトさせてください。',
+    'settings.sessions.current': 'この端末',
+    'settings.sessions.unknownDevice': '不明な端末',
+    'settings.sessions.platform.ios': 'iPhone / iPad',
+    'settings.sessions.platform.android': 'Android',
+    'settings.sessions.platform.web': 'ブラウザ',
+    'settings.sessions.lastSeen': '最終利用 {{date}}',
+    'settings.sessions.revoke': 'ログアウト',
+    'settings.sessions.revokeConfirmTitle': 'この端末をログアウトさせますか？',
+    'settings.sessions.revokeConfirmMessage': '「{{device}}」は再ログインが必要になります。',
+    'settings.sessions.revokeCurrentMessage': 'この端末からログアウトします。',
+    'settings.sessions.revokeOthers': 'ほかの端末をすべてログアウト',
+    'settings.sessions.revokeOthersTitle': 'ほかの端末をログアウトさせますか？',
+    'settings.sessions.revokeOthersMessage': 'この端末以外のすべての端末で再ログインが必要になります。',
+    'settings.sessions.revokeFailedTitle': 'ログアウトできませんでした',
+    'settings.sessions.revokeFailedMessage': '時間をおいてもう一度お試しください。',
     'settings.profile.screenTitle': '目標と現在の体重',
     'settings.profile.metricsSection': '体重・身長',
     'settings.profile.activitySection': '活動レベル',
@@ -600,11 +696,50 @@ const dictionaries: Record<Locale, TranslationTable> = {
     'settings.profile.validationMessage': '数値には0以上の値を入力してください。',
     'settings.profile.recalcTitle': '栄養目標を再計算しますか？',
     'settings.profile.recalcMessage': '活動レベルや体重を変更すると、栄養目標を自動で再計算します。',
+    'settings.portions.title': 'いつもの量',
+    'settings.portions.subtitle': '自分のお茶碗や定番メニューの量を登録すると、写真やテキストからの推定に反映されます。',
+    'settings.portions.label': '名前',
+    'settings.portions.labelPlaceholder': '例: いつものお茶碗のご飯',
+    'settings.portions.grams': '量',
+    'settings.portions.add': '追加する',
+    'settings.portions.referencesTitle': '登録した量',
+    'settings.portions.empty': 'まだ登録がありません。',
+    'settings.portions.learnedTitle': '修正履歴から学習した傾向',
+    'settings.portions.learnedHint': '同じ食品のグラム数を同じ方向に2回以上修正すると、次の推定から自動で補正します。',
+    'settings.portions.learnedFactor': '×{{factor}}（{{samples}}回）',
+    'settings.portions.validationMessage': '名前と1〜5000gの量を入力してください。',
+    'settings.portions.saveFailedTitle': '保存できませんでした',
+    'settings.portions.saveFailedMessage': '時間をおいてもう一度お試しください。',
+    'settings.portions.deleteConfirmTitle': '登録を削除しますか？',
+    'settings.portions.deleteConfirmMessage': '「{{label}}」を削除します。',
+    'settings.portions.deleteFailedTitle': '削除できませんでした',
+    'settings.portions.deleteFailedMessage': '時間をおいてもう一度お試しください。',
     'settings.nutrition.title': '栄養目標',
     'settings.nutrition.subtitle': 'カロリーとPFCバランスを直接調整できます。',
     'settings.nutrition.save': '栄養目標を保存',
     'settings.nutrition.savedTitle': '更新しました',
     'settings.nutrition.savedMessage': '栄養目標を最新の値に更新しました。',
+    'settings.nutrition.hydrationCups': '水分のクイック記録（カンマ区切り・最大4つ）',
+    'settings.nutrition.adaptive.title': '実績にもとづく目標の見直し',
+    'settings.nutrition.adaptive.loadFailed': '提案を読み込めませんでした。',
+    'settings.nutrition.adaptive.insufficient.intake': '直近{{window}}日間で記録が揃っている日は{{logged}}日です。14日以上記録すると、実績にもとづく目標を提案します。',
+    'settings.nutrition.adaptive.insufficient.weight': '体重を週に数回記録すると、実績にもとづく目標を提案します。',
+    'settings.nutrition.adaptive.insufficient.profile': '身長・体重・活動量などのプロフィールを入力すると提案できます。',
+    'settings.nutrition.adaptive.insufficient.implausible': '記録にばらつきが大きいため、今回は消費カロリーを推定できませんでした。',
+    'settings.nutrition.adaptive.status.ready': '記録した食事と体重の変化から、目標の更新を提案します。',
+    'settings.nutrition.adaptive.status.snoozed': '前回の提案は見送りました。必要ならいつでも適用できます。',
+    'settings.nutrition.adaptive.status.up_to_date': '現在の目標は実績とほぼ一致しています。',
+    'settings.nutrition.adaptive.averageIntake': '平均摂取カロリー（{{days}}日分）',
+    'settings.nutrition.adaptive.weeklyChange': '体重の変化（週あたり）',
+    'settings.nutrition.adaptive.maintenance': '推定消費カロリー',
+    'settings.nutrition.adaptive.confidence.low': '信頼度：低（計算式の値 {{formula}} kcal から半分だけ補正しています）',
+    'settings.nutrition.adaptive.confidence.medium': '信頼度：中（計算式の値 {{formula}} kcal から補正しています）',
+    'settings.nutrition.adaptive.confidence.high': '信頼度：高（計算式の値 {{formula}} kcal）',
+    'settings.nutrition.adaptive.current': '現在',
+    'settings.nutrition.adaptive.proposed': '提案',
+    'settings.nutrition.adaptive.accept': 'この目標を適用',
+    'settings.nutrition.adaptive.decline': '今回は見送る',
+    'settings.nutrition.adaptive.accepted': '実績にもとづく目標を適用しました。',
     'settings.notifications.placeholder': '通知設定は近日対応予定です。',
     'settings.invite.header': '友だちを招待',
     'settings.invite.title': '一緒に記録を続けませんか？',
@@ -669,20 +804,27 @@ const dictionaries: Record<Locale, TranslationTable> = {
     'screen.logEdit': '食事ログの編集',
     'screen.settingsAccount': 'アカウント管理',
     'screen.settingsNutrition': '栄養目標',
+    'screen.settingsPortions': 'いつもの量',
+    'screen.settingsSessions': 'ログイン中の端末',
     'screen.settingsProfile': '目標と現在の体重',
     'screen.settingsNotifications': '通知設定',
     'screen.settingsLanguage': '表示言語',
     'settings.menu.personal': 'プロフィール情報',
     'settings.menu.nutrition': '栄養目標を編集',
+    'settings.menu.portions': 'いつもの量を登録',
     'settings.menu.weight': '目標と現在の体重',
     'settings.menu.history': '履歴を見る',
     'settings.menu.language': '表示言語',
+    'settings.menu.recipes': 'レシピ',
+    'settings.menu.planner': '食事の予定',
     'settings.notifications.screenTitle': '通知設定',
     'settings.notifications.loading': '通知設定を読み込み中...',
     'settings.notifications.reminder': '食事記録のリマインダー',
     'settings.notifications.reminderCaption': '普段の食事時間に合わせて1日1回まで通知します。連続記録のお祝いもこちらで送ります。',
     'settings.notifications.important': '重要なお知らせ',
     'settings.notifications.importantCaption': '期限や残り回数など、見逃せない通知だけ送ります。',
+    'settings.notifications.hydration': '水分補給リマインダー',
+    'settings.notifications.hydrationCaption': '日中に水分が目標ペースより大きく遅れているときだけお知らせします。',
     'settings.notifications.quietHours': '静かな時間帯は通知しません（22:00-07:00）。',
     'settings.notifications.permissionTitle': '通知を許可してください',
     'settings.notifications.permissionMessage': 'iOSの設定から通知を許可すると利用できます。',
@@ -703,6 +845,16 @@ const dictionaries: Record<Locale, TranslationTable> = {
     'card.warnings.zeroFloored': 'AIが推定した値に0gが含まれています。必要に応じて量を調整してください。',
     'card.languageFallback': '※ {{requested}} の翻訳が未対応のため {{resolved}} で表示しています',
     'card.translationPending': '※ 翻訳中です。数秒で反映されます',
+    'card.calibrationApplied': '量の基準を反映: {{labels}}',
+    'card.dishes.title': '{{count}}品の料理が見つかりました',
+    'card.dishes.split': '料理ごとに{{count}}件の記録に分ける',
+    'card.dishes.splitDone': '{{count}}件の記録に分けました',
+    'card.dishes.splitFailed': '記録を分けられませんでした。もう一度お試しください。',
+    'card.chainMenu.official': '{{chain}} の公式栄養成分を使用しています',
+    'card.chainMenu.aiEstimate': 'AI推定を使用しています（{{chain}} のメニューと一致）',
+    'card.chainMenu.useAi': 'AI推定に切り替える',
+    'card.chainMenu.useOfficial': '公式の値に戻す',
+    'card.chainMenu.switchFailed': '推定値を切り替えられませんでした',
     'favorites.addedTitle': 'お気に入りに追加しました',
     'favorites.title': 'お気に入り',
     'favorites.addNew': '＋ 新規作成',
@@ -758,6 +910,84 @@ const dictionaries: Record<Locale, TranslationTable> = {
     'favorites.field.amount': '量 (g)',
     'favorites.saveButton': '保存する',
     'favorites.deleteButton': 'お気に入りを削除',
+    'recipes.title': 'レシピ',
+    'recipes.addNew': '＋ 新規作成',
+    'recipes.createTitle': 'レシピを作成',
+    'recipes.empty': 'レシピがまだ登録されていません。',
+    'recipes.emptyHint': '作り置きのカレーなどを一度登録すれば、食べた分だけ何度でも記録できます。',
+    'recipes.perServingSummary': '1人前 {{kcal}} kcal（約{{grams}}g）',
+    'recipes.servingsSummary': '{{servings}}人前・材料{{count}}品',
+    'recipes.section.perServing': '1人前の栄養',
+    'recipes.section.name': 'レシピ名',
+    'recipes.namePlaceholder': '例: チキンカレー',
+    'recipes.section.notes': 'メモ',
+    'recipes.notesPlaceholder': 'メモを追加',
+    'recipes.section.ingredients': '材料',
+    'recipes.ingredientsHint': '食品DBから選んだ材料はその値で計算し、それ以外は保存時にAIが推定します。',
+    'recipes.field.servings': '何人前',
+    'recipes.field.yield': '出来上がり量 (g)',
+    'recipes.yieldHint': '出来上がり量は任意です。空欄の場合は材料の合計重量で1人前の量を計算します。',
+    'recipes.field.ingredientName': '材料名',
+    'recipes.field.amount': '量 (g)',
+    'recipes.field.logServings': '人前',
+    'recipes.addIngredient': '＋ 材料を追加',
+    'recipes.searchCatalogue': '食品DBから選ぶ',
+    'recipes.searchEmpty': '一致する食品が見つかりませんでした',
+    'recipes.searchFailed': '食品の検索に失敗しました',
+    'recipes.candidatePer100g': '100gあたり {{kcal}} kcal',
+    'recipes.status.catalogue': '食品DB・{{kcal}} kcal',
+    'recipes.status.catalogueOnly': '食品DB',
+    'recipes.status.estimated': '{{kcal}} kcal',
+    'recipes.status.pending': '保存時にAIで推定',
+    'recipes.logButton': '{{servings}}人前を記録',
+    'recipes.logPreview': '記録される量: {{kcal}} kcal（約{{grams}}g）',
+    'recipes.logSuccess': '食事を記録しました',
+    'recipes.logFailedTitle': '記録に失敗しました',
+    'recipes.logFailedMessage': 'レシピからの記録に失敗しました',
+    'recipes.requiredTitle': '必須項目を入力してください',
+    'recipes.requiredMessage': 'レシピ名、何人前、材料を1つ以上入力してください。',
+    'recipes.saveButton': '保存する',
+    'recipes.saveSuccess': '保存しました',
+    'recipes.updateSuccess': '更新しました',
+    'recipes.saveFailedTitle': 'レシピの保存に失敗しました',
+    'recipes.saveFailedMessage': 'レシピを保存できませんでした',
+    'recipes.deleteButton': 'レシピを削除',
+    'recipes.deleteConfirmTitle': 'レシピを削除',
+    'recipes.deleteConfirmMessage': '本当に削除しますか？記録済みの食事は残ります。',
+    'recipes.deleteSuccess': '削除しました',
+    'recipes.deleteFailedTitle': 'レシピの削除に失敗しました',
+    'recipes.deleteFailedMessage': 'レシピを削除できませんでした',
+    'planner.title': '食事の予定',
+    'planner.previousWeek': '‹ 前の週',
+    'planner.nextWeek': '次の週 ›',
+    'planner.dayTotal': '予定 {{kcal}} kcal',
+    'planner.add': '＋ 予定を追加',
+    'planner.emptyDay': '予定はありません',
+    'planner.entrySummary': '{{kcal}} kcal',
+    'planner.entrySummaryServings': '{{kcal}} kcal・{{servings}}人前',
+    'planner.eaten': '記録済み',
+    'planner.markEaten': '食べた',
+    'planner.source.favorite': 'お気に入り',
+    'planner.source.recipe': 'レシピ',
+    'planner.source.text': '自由入力',
+    'planner.noFavorites': 'お気に入りがまだありません',
+    'planner.noRecipes': 'レシピがまだありません',
+    'planner.field.servings': '何人前',
+    'planner.namePlaceholder': '例: 外食（焼肉）',
+    'planner.saveButton': '予定に追加',
+    'planner.requiredTitle': '必須項目を入力してください',
+    'planner.requiredMessage.favorite': 'お気に入りを選んでください。',
+    'planner.requiredMessage.recipe': 'レシピと何人前かを入力してください。',
+    'planner.requiredMessage.text': '料理名と予定のカロリーを入力してください。',
+    'planner.saveFailedTitle': '予定の追加に失敗しました',
+    'planner.saveFailedMessage': '予定を追加できませんでした',
+    'planner.eatSuccess': '食事を記録しました',
+    'planner.eatFailedTitle': '記録に失敗しました',
+    'planner.eatFailedMessage': '予定からの記録に失敗しました',
+    'planner.deleteConfirmTitle': '予定を削除',
+    'planner.deleteConfirmMessage': '「{{name}}」の予定を削除しますか？',
+    'planner.deleteFailedTitle': '予定の削除に失敗しました',
+    'planner.deleteFailedMessage': '予定を削除できませんでした',
     'permissions.photoLibraryDenied': '写真ライブラリへのアクセスを許可してください。設定アプリから変更できます。',
     'permissions.photoLibraryBlockedTitle': 'ライブラリにアクセスできません',
     'permissions.photoLibraryBlockedMessage': '設定アプリで Meal Log の写真アクセスを許可してください。',
@@ -946,6 +1176,25 @@ const dictionaries: Record<Locale, TranslationTable> = {
     'dashboard.segment.week': 'Week',
     'dashboard.segment.month': 'Month',
     'dashboard.chart.empty': 'No data available',
+    'dashboard.hydration.title': 'Water',
+    'dashboard.hydration.addAccessible': 'Log {{value}} ml of water',
+    'dashboard.hydration.last': 'Last entry: {{value}} ml',
+    'dashboard.hydration.undo': 'Undo',
+    'dashboard.hydration.saveFailed': 'Could not save your water intake.',
+    'dashboard.weight.current': 'Weight (7-day avg)',
+    'dashboard.weight.rate': '{{value}} kg / week',
+    'dashboard.weight.placeholder': 'Weight (kg)',
+    'dashboard.weight.add': 'Log',
+    'dashboard.weight.empty': 'Log your weight to see the trend.',
+    'dashboard.weight.invalid': 'Enter a weight between 20 and 400 kg.',
+    'dashboard.weight.saveFailed': 'Could not save your weight.',
+    'dashboard.weight.planned': 'Planned date: {{date}}',
+    'dashboard.weight.projection.on_track': 'At this pace you reach {{target}} kg around {{date}}.',
+    'dashboard.weight.projection.reached': 'You have reached your target of {{target}} kg.',
+    'dashboard.weight.projection.stalled': 'Your weight is flat (target {{target}} kg).',
+    'dashboard.weight.projection.off_track': 'Your weight is moving away from {{target}} kg.',
+    'dashboard.weight.projection.insufficient_data': 'Log for at least a week to see a projection.',
+    'dashboard.weight.projection.no_goal': 'Set a target weight to see when you will reach it.',
     'dashboard.summary.remainingToday': 'Remaining (today)',
     'dashboard.summary.periodTotal': 'Intake (period total)',
     'dashboard.monthlyDeficit.title': 'Monthly calorie delta',
@@ -1016,6 +1265,11 @@ const dictionaries: Record<Locale, TranslationTable> = {
     'comparison.delta': 'Delta',
     'comparison.macroDelta': '{{delta}}g',
     'comparison.percentOfTarget': 'Target ratio {{value}}',
+    'comparison.plan.heading': 'Compared with your plan',
+    'comparison.plan.planned': 'Planned',
+    'comparison.plan.actual': 'Actual',
+    'comparison.plan.eatenEntries': '{{eaten}} of {{total}} planned meals logged',
+    'comparison.plan.percentOfPlan': 'Plan ratio {{value}}',
     'status.over': 'Over',
     'status.under': 'Left',
     'status.onTarget': 'On target',
@@ -1023,6 +1277,17 @@ const dictionaries: Record<Locale, TranslationTable> = {
     'nutrients.header.total': 'Total',
     'nutrients.header.target': 'Target',
     'nutrients.header.delta': '+/-',
+    'nutrients.heading': 'Fiber, salt & more',
+    'nutrients.micro.fiber_g': 'Fiber',
+    'nutrients.micro.sugar_g': 'Sugar',
+    'nutrients.micro.saturated_fat_g': 'Saturated fat',
+    'nutrients.micro.sodium_mg': 'Sodium',
+    'nutrients.micro.salt_g': 'Salt equivalent',
+    'nutrients.micro.potassium_mg': 'Potassium',
+    'nutrients.micro.calcium_mg': 'Calcium',
+    'nutrients.micro.iron_mg': 'Iron',
+    'nutrients.micro.vitamin_c_mg': 'Vitamin C',
+    'nutrients.micro.vitamin_d_ug': 'Vitamin D',
     'mealDistribution.heading': 'Meal balance',
     'mealDistribution.current': 'Current',
     'mealDistribution.previous': 'Previous',
@@ -1049,6 +1314,10 @@ const dictionaries: Record<Locale, TranslationTable> = {
     'recentLogs.premiumUpsell.title': 'Unlock full history',
     'recentLogs.premiumUpsell.description': 'Premium keeps 90+ days of history and expands AI analysis to 20 per day.',
     'recentLogs.premiumUpsell.cta': 'View Premium plan',
+    'recentLogs.pending.queued': 'Waiting to send',
+    'recentLogs.pending.sending': 'Sending',
+    'recentLogs.pending.photoOnly': 'Photo log',
+    'recentLogs.pending.photos': '{{count}} photo(s)',
     'history.title': 'Meal history',
     'history.subtitle': 'Switch the range to browse older entries.',
     'history.range.today': 'Today',
@@ -1106,6 +1375,25 @@ const dictionaries: Record<Locale, TranslationTable> = {
     'log.field.fat': 'Fat',
     'log.field.carbs': 'Carbs',
     'log.field.mealPeriod': 'Meal period',
+    'log.field.item': 'Item',
+    'log.section.items': 'Items',
+    'log.items.hint': 'Changing an amount rescales its nutrients and updates the totals.',
+    'log.items.namePlaceholder': 'Item name',
+    'log.items.grams': 'Amount',
+    'log.items.add': 'Add item',
+    'log.items.remove': 'Remove item',
+    'log.items.required': 'Keep at least one item.',
+    'log.items.invalid': 'Enter a name and a valid amount for every item.',
+    'log.items.added': 'Added {{item}}',
+    'log.items.removed': 'Removed {{item}}',
+    'log.reanalysis.title': 'An updated estimate is available',
+    'log.reanalysis.body': 'Improved analysis changed this estimate. You edited this log, so it was not applied automatically.',
+    'log.reanalysis.dish': 'Dish: {{previous}} → {{proposed}}',
+    'log.reanalysis.calories': '{{previous}} → {{proposed}} kcal',
+    'log.reanalysis.macros': 'P {{protein}}g / F {{fat}}g / C {{carbs}}g',
+    'log.reanalysis.accept': 'Use the new estimate',
+    'log.reanalysis.dismiss': 'Keep mine',
+    'log.reanalysis.failed': 'Could not update the estimate',
     'common.cancel': 'Cancel',
     'common.delete': 'Delete',
     'common.close': 'Close',
@@ -1258,6 +1546,7 @@ const dictionaries: Record<Locale, TranslationTable> = {
     'chat.limitReached.title': 'You\'ve used today\'s free allotment',
     'chat.quickActions.photo': 'Photo',
     'chat.quickActions.favorite': 'My Set',
+    'chat.quickActions.barcode': 'Barcode',
     'chat.quickActions.report': 'Report',
     'chat.quickActions.template': 'Template',
     'chat.actions.insertTemplate': 'Insert template',
@@ -1268,18 +1557,37 @@ const dictionaries: Record<Locale, TranslationTable> = {
     'chat.send.limit': 'Limit',
     'chat.placeholder': 'Describe your meal...',
     'chat.recordComplete': 'Meal recorded!',
+    'chat.clarify.intro': 'A couple of quick questions before I log this.',
+    'chat.clarify.estimate': 'Current estimate: {{dish}} (about {{kcal}} kcal)',
+    'chat.clarify.submit': 'Answer and log',
+    'chat.clarify.skip': 'Log as is',
+    'chat.clarify.failed': 'Could not log the meal',
     'chat.processing': 'Analyzing your meal…',
     'chat.processingInBackground': 'We’ll keep processing in the background. Check your history for the result.',
     'chat.analysisCanceled': 'Analysis canceled.',
     'chat.networkSlowWarning': 'Network might be slow. Please hold on a moment.',
     'chat.networkErrorBubble': 'Connection was too weak to analyze. Please try again in a moment.',
     'chat.networkErrorBanner': 'Looks like the connection is unstable. Please try again shortly.',
+    'chat.outbox.queued': 'You’re offline, so this is queued. It will be sent automatically once you’re back online.',
     'chat.genericErrorBubble': 'Something went wrong. Please try again.',
     'chat.usageLimitBubble': 'You’ve hit today’s free limit.',
     'chat.sessionExpiredBubble': 'Your session expired. Please sign in again.',
     'chat.newLog': 'New log',
     'chat.favoriteRecording': 'Logging your favorite…',
+    'barcode.allowCamera': 'Allow camera',
+    'barcode.scanHint': 'Align the barcode inside the frame',
+    'barcode.lookingUp': 'Looking up product…',
+    'barcode.lookupFailed': 'Could not load product information',
+    'barcode.notFoundTitle': 'Product not found',
+    'barcode.notFoundMessage': 'Take a photo of the nutrition facts label and AI will read it for you.',
+    'barcode.photographLabel': 'Photograph label',
+    'barcode.readingLabel': 'Reading the nutrition label…',
+    'barcode.confirmTitle': 'Confirm product',
+    'barcode.confirmAiNote': 'These values were read by AI. Logging saves them so the next scan is instant.',
+    'barcode.log': 'Log this',
+    'barcode.recording': 'Logging product…',
     'chat.photoLoadFailed': 'Failed to load the photo. Please try again.',
+    'chat.photoLimitReached': 'You can attach up to {{max}} photos per log.',
     'chat.cameraLaunchFailed': 'Failed to open the camera. Please try again.',
     'chat.summaryLine': '{{dish}} ({{calories}} kcal)',
     'chat.summaryMacrosLine': 'P {{protein}}g / F {{fat}}g / C {{carbs}}g',
@@ -1470,6 +1778,24 @@ const dictionaries: Record<Locale, TranslationTable> = {
     'settings.account.screenDescription': 'Manage your account details, password, and deletion options here.',
     'settings.account.screenPlaceholder': 'Password and email changes will be available soon.',
     'settings.account.openWeb': 'Open support site',
+    'settings.account.sessions': 'Signed-in devices',
+    'settings.sessions.title': 'Signed-in devices',
+    'settings.sessions.subtitle': 'These devices are signed in to your account. Sign out any you do not recognize.',
+    'settings.sessions.current': 'This device',
+    'settings.sessions.unknownDevice': 'Unknown device',
+    'settings.sessions.platform.ios': 'iPhone / iPad',
+    'settings.sessions.platform.android': 'Android',
+    'settings.sessions.platform.web': 'Browser',
+    'settings.sessions.lastSeen': 'Last active {{date}}',
+    'settings.sessions.revoke': 'Sign out',
+    'settings.sessions.revokeConfirmTitle': 'Sign out this device?',
+    'settings.sessions.revokeConfirmMessage': '"{{device}}" will need to sign in again.',
+    'settings.sessions.revokeCurrentMessage': 'You will be signed out on this device.',
+    'settings.sessions.revokeOthers': 'Sign out all other devices',
+    'settings.sessions.revokeOthersTitle': 'Sign out other devices?',
+    'settings.sessions.revokeOthersMessage': 'Every device except this one will need to sign in again.',
+    'settings.sessions.revokeFailedTitle': 'Could not sign out',
+    'settings.sessions.revokeFailedMessage': 'Please try again in a few moments.',
     'settings.profile.screenTitle': 'Goals & current weight',
     'settings.profile.metricsSection': 'Body metrics',
     'settings.profile.activitySection': 'Activity level',
@@ -1503,11 +1829,50 @@ const dictionaries: Record<Locale, TranslationTable> = {
     'settings.profile.validationMessage': 'Please enter non-negative numbers only.',
     'settings.profile.recalcTitle': 'Recalculate nutrition targets?',
     'settings.profile.recalcMessage': 'Changing activity or weight automatically recalculates nutrition goals.',
+    'settings.portions.title': 'My portions',
+    'settings.portions.subtitle': 'Save the size of your usual bowl or go-to meals and photo and text estimates will use them.',
+    'settings.portions.label': 'Name',
+    'settings.portions.labelPlaceholder': 'e.g. My usual rice bowl',
+    'settings.portions.grams': 'Amount',
+    'settings.portions.add': 'Add',
+    'settings.portions.referencesTitle': 'Saved portions',
+    'settings.portions.empty': 'Nothing saved yet.',
+    'settings.portions.learnedTitle': 'Learned from your corrections',
+    'settings.portions.learnedHint': 'When you correct the grams of the same food in the same direction at least twice, later estimates are adjusted automatically.',
+    'settings.portions.learnedFactor': '×{{factor}} ({{samples}} edits)',
+    'settings.portions.validationMessage': 'Enter a name and an amount between 1 and 5000 g.',
+    'settings.portions.saveFailedTitle': 'Could not save',
+    'settings.portions.saveFailedMessage': 'Please try again later.',
+    'settings.portions.deleteConfirmTitle': 'Delete this portion?',
+    'settings.portions.deleteConfirmMessage': '"{{label}}" will be deleted.',
+    'settings.portions.deleteFailedTitle': 'Could not delete',
+    'settings.portions.deleteFailedMessage': 'Please try again later.',
     'settings.nutrition.title': 'Nutrition goals',
     'settings.nutrition.subtitle': 'Adjust calories and macros directly.',
     'settings.nutrition.save': 'Save nutrition goals',
     'settings.nutrition.savedTitle': 'Updated',
     'settings.nutrition.savedMessage': 'Nutrition goals are now up to date.',
+    'settings.nutrition.hydrationCups': 'Water quick-add cups (comma-separated, up to 4)',
+    'settings.nutrition.adaptive.title': 'Targets from your results',
+    'settings.nutrition.adaptive.loadFailed': 'Could not load the suggestion.',
+    'settings.nutrition.adaptive.insufficient.intake': '{{logged}} of the last {{window}} days are fully logged. Log at least 14 days to get a suggestion based on your results.',
+    'settings.nutrition.adaptive.insufficient.weight': 'Log your weight a few times a week to get a suggestion based on your results.',
+    'settings.nutrition.adaptive.insufficient.profile': 'Fill in your height, weight and activity level to get a suggestion.',
+    'settings.nutrition.adaptive.insufficient.implausible': 'Your logs vary too much to estimate your maintenance calories this time.',
+    'settings.nutrition.adaptive.status.ready': 'Based on what you ate and how your weight changed, we suggest updating your targets.',
+    'settings.nutrition.adaptive.status.snoozed': 'You skipped the last suggestion. You can still apply it any time.',
+    'settings.nutrition.adaptive.status.up_to_date': 'Your current targets match your results.',
+    'settings.nutrition.adaptive.averageIntake': 'Average intake ({{days}} days)',
+    'settings.nutrition.adaptive.weeklyChange': 'Weight change per week',
+    'settings.nutrition.adaptive.maintenance': 'Estimated maintenance',
+    'settings.nutrition.adaptive.confidence.low': 'Confidence: low (moved halfway from the formula value of {{formula}} kcal)',
+    'settings.nutrition.adaptive.confidence.medium': 'Confidence: medium (adjusted from the formula value of {{formula}} kcal)',
+    'settings.nutrition.adaptive.confidence.high': 'Confidence: high (formula value {{formula}} kcal)',
+    'settings.nutrition.adaptive.current': 'Current',
+    'settings.nutrition.adaptive.proposed': 'Suggested',
+    'settings.nutrition.adaptive.accept': 'Apply these targets',
+    'settings.nutrition.adaptive.decline': 'Not now',
+    'settings.nutrition.adaptive.accepted': 'Targets updated from your results.',
     'settings.notifications.placeholder': 'Notification settings will be available soon.',
     'settings.invite.header': 'Invite friends',
     'settings.invite.title': 'Share the journey',
@@ -1572,20 +1937,27 @@ const dictionaries: Record<Locale, TranslationTable> = {
     'screen.logEdit': 'Edit meal log',
     'screen.settingsAccount': 'Account',
     'screen.settingsNutrition': 'Nutrition goals',
+    'screen.settingsPortions': 'My portions',
+    'screen.settingsSessions': 'Signed-in devices',
     'screen.settingsProfile': 'Goals & current weight',
     'screen.settingsNotifications': 'Notifications',
     'screen.settingsLanguage': 'Language',
     'settings.menu.personal': 'Personal details',
     'settings.menu.nutrition': 'Edit nutrition goals',
+    'settings.menu.portions': 'Save my portions',
     'settings.menu.weight': 'Goals & current weight',
     'settings.menu.history': 'View history',
     'settings.menu.language': 'Language',
+    'settings.menu.recipes': 'Recipes',
+    'settings.menu.planner': 'Meal plan',
     'settings.notifications.screenTitle': 'Notifications',
     'settings.notifications.loading': 'Loading notification settings...',
     'settings.notifications.reminder': 'Meal log reminder',
     'settings.notifications.reminderCaption': 'We will notify you up to once a day around your usual mealtime, plus streak celebrations.',
     'settings.notifications.important': 'Important alerts',
     'settings.notifications.importantCaption': 'Only high-impact alerts like deadlines or remaining limits.',
+    'settings.notifications.hydration': 'Hydration reminders',
+    'settings.notifications.hydrationCaption': 'Only nudges you during the day when you fall well behind your water pace.',
     'settings.notifications.quietHours': 'No notifications during quiet hours (22:00-07:00).',
     'settings.notifications.permissionTitle': 'Enable notifications',
     'settings.notifications.permissionMessage': 'Allow notifications in iOS Settings to use this feature.',
@@ -1606,6 +1978,16 @@ const dictionaries: Record<Locale, TranslationTable> = {
     'card.warnings.zeroFloored': 'Some nutrients were estimated as 0g. Adjust the amounts if needed.',
     'card.languageFallback': '※ Showing {{resolved}} because {{requested}} is not translated yet',
     'card.translationPending': '※ Translating now. It will update shortly.',
+    'card.calibrationApplied': 'Adjusted with your portions: {{labels}}',
+    'card.dishes.title': 'Found {{count}} dishes',
+    'card.dishes.split': 'Split into {{count}} separate logs',
+    'card.dishes.splitDone': 'Split into {{count}} logs',
+    'card.dishes.splitFailed': 'Could not split this log. Please try again.',
+    'card.chainMenu.official': "Using {{chain}}'s published nutrition",
+    'card.chainMenu.aiEstimate': 'Using the AI estimate (matched a {{chain}} menu item)',
+    'card.chainMenu.useAi': 'Use AI estimate',
+    'card.chainMenu.useOfficial': 'Use published values',
+    'card.chainMenu.switchFailed': 'Could not switch the estimate',
     'favorites.addedTitle': 'Added to favorites',
     'favorites.title': 'Favorites',
     'favorites.addNew': '+ New',
@@ -1661,6 +2043,84 @@ const dictionaries: Record<Locale, TranslationTable> = {
     'favorites.field.amount': 'Amount (g)',
     'favorites.saveButton': 'Save',
     'favorites.deleteButton': 'Delete favorite',
+    'recipes.title': 'Recipes',
+    'recipes.addNew': '+ New',
+    'recipes.createTitle': 'Create recipe',
+    'recipes.empty': 'No recipes yet.',
+    'recipes.emptyHint': 'Enter a batch dish like curry once, then log portions of it all week.',
+    'recipes.perServingSummary': '{{kcal}} kcal per serving (about {{grams}} g)',
+    'recipes.servingsSummary': '{{servings}} servings · {{count}} ingredients',
+    'recipes.section.perServing': 'Per serving',
+    'recipes.section.name': 'Recipe name',
+    'recipes.namePlaceholder': 'e.g. Chicken curry',
+    'recipes.section.notes': 'Notes',
+    'recipes.notesPlaceholder': 'Add a note',
+    'recipes.section.ingredients': 'Ingredients',
+    'recipes.ingredientsHint': 'Ingredients picked from the food database use its values; the rest are estimated by AI when you save.',
+    'recipes.field.servings': 'Servings',
+    'recipes.field.yield': 'Cooked yield (g)',
+    'recipes.yieldHint': 'Cooked yield is optional. When empty, the serving weight is based on the raw ingredient weight.',
+    'recipes.field.ingredientName': 'Ingredient',
+    'recipes.field.amount': 'Amount (g)',
+    'recipes.field.logServings': 'Servings',
+    'recipes.addIngredient': '+ Add ingredient',
+    'recipes.searchCatalogue': 'Pick from food database',
+    'recipes.searchEmpty': 'No matching foods found',
+    'recipes.searchFailed': 'Food search failed',
+    'recipes.candidatePer100g': '{{kcal}} kcal per 100 g',
+    'recipes.status.catalogue': 'Food database · {{kcal}} kcal',
+    'recipes.status.catalogueOnly': 'Food database',
+    'recipes.status.estimated': '{{kcal}} kcal',
+    'recipes.status.pending': 'Estimated by AI on save',
+    'recipes.logButton': 'Log {{servings}} servings',
+    'recipes.logPreview': 'Will log {{kcal}} kcal (about {{grams}} g)',
+    'recipes.logSuccess': 'Meal logged',
+    'recipes.logFailedTitle': 'Failed to log',
+    'recipes.logFailedMessage': 'Could not log from the recipe.',
+    'recipes.requiredTitle': 'Please fill in the required fields',
+    'recipes.requiredMessage': 'Enter a name, the number of servings and at least one ingredient.',
+    'recipes.saveButton': 'Save',
+    'recipes.saveSuccess': 'Saved',
+    'recipes.updateSuccess': 'Updated',
+    'recipes.saveFailedTitle': 'Failed to save recipe',
+    'recipes.saveFailedMessage': 'Could not save the recipe.',
+    'recipes.deleteButton': 'Delete recipe',
+    'recipes.deleteConfirmTitle': 'Delete recipe',
+    'recipes.deleteConfirmMessage': 'Delete this recipe? Meals already logged from it are kept.',
+    'recipes.deleteSuccess': 'Deleted',
+    'recipes.deleteFailedTitle': 'Failed to delete recipe',
+    'recipes.deleteFailedMessage': 'Could not delete the recipe.',
+    'planner.title': 'Meal plan',
+    'planner.previousWeek': '‹ Previous week',
+    'planner.nextWeek': 'Next week ›',
+    'planner.dayTotal': '{{kcal}} kcal planned',
+    'planner.add': '+ Plan a meal',
+    'planner.emptyDay': 'Nothing planned',
+    'planner.entrySummary': '{{kcal}} kcal',
+    'planner.entrySummaryServings': '{{kcal}} kcal · {{servings}} servings',
+    'planner.eaten': 'Logged',
+    'planner.markEaten': 'Mark as eaten',
+    'planner.source.favorite': 'Favorite',
+    'planner.source.recipe': 'Recipe',
+    'planner.source.text': 'Free text',
+    'planner.noFavorites': 'No favorites yet',
+    'planner.noRecipes': 'No recipes yet',
+    'planner.field.servings': 'Servings',
+    'planner.namePlaceholder': 'e.g. Dinner out (BBQ)',
+    'planner.saveButton': 'Add to plan',
+    'planner.requiredTitle': 'Fill in the required fields',
+    'planner.requiredMessage.favorite': 'Pick a favorite.',
+    'planner.requiredMessage.recipe': 'Pick a recipe and enter the servings.',
+    'planner.requiredMessage.text': 'Enter a name and the expected calories.',
+    'planner.saveFailedTitle': 'Failed to add plan',
+    'planner.saveFailedMessage': 'Could not add the planned meal.',
+    'planner.eatSuccess': 'Meal logged',
+    'planner.eatFailedTitle': 'Failed to log',
+    'planner.eatFailedMessage': 'Could not log the planned meal.',
+    'planner.deleteConfirmTitle': 'Delete plan',
+    'planner.deleteConfirmMessage': 'Delete the plan for "{{name}}"?',
+    'planner.deleteFailedTitle': 'Failed to delete plan',
+    'planner.deleteFailedMessage': 'Could not delete the planned meal.',
     'permissions.photoLibraryDenied': 'Allow photo library access in Settings to continue.',
     'permissions.photoLibraryBlockedTitle': 'Photo library unavailable',
     'permissions.photoLibraryBlockedMessage': 'Enable Meal Log photo access in iOS Settings.',
@@ -0,0 +1,234 @@
+import { ActivityIndicator, Alert, Pressable, StyleSheet, Text, View } from 'react-native';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { AdaptivePlanProposal } from '@meal-log/shared';
+import { useTranslation } from '@/i18n';
+import { colors } from '@/theme/colors';
+import { spacing } from '@/theme/spacing';
+import { fontFamilies, textStyles } from '@/theme/typography';
+import { decideAdaptivePlan, getAdaptivePlan } from '@/services/api';
+import { PrimaryButton } from '@/components/PrimaryButton';
+
+const MACRO_ROWS = [
+  { key: 'calories', labelKey: 'settings.profile.targetCalories', unit: 'kcal' },
+  { key: 'protein_g', labelKey: 'settings.profile.targetProtein', unit: 'g' },
+  { key: 'fat_g', labelKey: 'settings.profile.targetFat', unit: 'g' },
+  { key: 'carbs_g', labelKey: 'settings.profile.targetCarbs', unit: 'g' },
+] as const;
+
+export function AdaptivePlanCard() {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ['adaptivePlan'],
+    queryFn: getAdaptivePlan,
+    staleTime: 1000 * 60 * 10,
+  });
+
+  const mutation = useMutation({
+    mutationFn: decideAdaptivePlan,
+    onSuccess: (proposal, variables) => {
+      queryClient.setQueryData(['adaptivePlan'], proposal);
+      if (variables.decision === 'accept') {
+        queryClient.invalidateQueries({ queryKey: ['profile'] });
+        queryClient.invalidateQueries({ queryKey: ['dashboardSummary'] });
+        Alert.alert(t('settings.nutrition.savedTitle'), t('settings.nutrition.adaptive.accepted'));
+      }
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ['adaptivePlan'] });
+      Alert.alert(
+        t('settings.profile.errorTitle'),
+        error instanceof Error ? error.message : t('settings.profile.errorMessage'),
+      );
+    },
+  });
+
+  const proposal = query.data;
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title}>{t('settings.nutrition.adaptive.title')}</Text>
+      {query.isLoading ? (
+        <ActivityIndicator color={colors.accent} />
+      ) : !proposal ? (
+        <Text style={styles.body}>{t('settings.nutrition.adaptive.loadFailed')}</Text>
+      ) : proposal.status === 'insufficient_data' ? (
+        <Text style={styles.body}>
+          {t(`settings.nutrition.adaptive.insufficient.${proposal.reason ?? 'intake'}`, {
+            window: proposal.window_days,
+            logged: proposal.logged_days,
+          })}
+        </Text>
+      ) : (
+        <>
+          <Text style={styles.body}>
+            {t(`settings.nutrition.adaptive.status.${proposal.status}`)}
+          </Text>
+          <EstimateStats proposal={proposal} />
+          {proposal.status !== 'up_to_date' && proposal.proposed ? (
+            <>
+              <View style={styles.table}>
+                <View style={styles.tableRow}>
+                  <Text style={[styles.cell, styles.labelCell]} />
+                  <Text style={[styles.cell, styles.headCell]}>
+                    {t('settings.nutrition.adaptive.current')}
+                  </Text>
+                  <Text style={[styles.cell, styles.headCell]}>
+                    {t('settings.nutrition.adaptive.proposed')}
+                  </Text>
+                </View>
+                {MACRO_ROWS.map((row) => (
+                  <View key={row.key} style={styles.tableRow}>
+                    <Text style={[styles.cell, styles.labelCell]}>{t(row.labelKey)}</Text>
+                    <Text style={styles.cell}>
+                      {proposal.current ? `${proposal.current[row.key]} ${row.unit}` : '--'}
+                    </Text>
+                    <Text style={[styles.cell, styles.proposedCell]}>
+                      {`${proposal.proposed?.[row.key]} ${row.unit}`}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+              <PrimaryButton
+                label={t('settings.nutrition.adaptive.accept')}
+                onPress={() =>
+                  mutation.mutate({
+                    decision: 'accept',
+                    expected_calories: proposal.proposed!.calories,
+                  })
+                }
+                loading={mutation.isPending && mutation.variables?.decision === 'accept'}
+                disabled={mutation.isPending}
+              />
+              {proposal.status === 'ready' ? (
+                <Pressable
+                  onPress={() => mutation.mutate({ decision: 'decline' })}
+                  disabled={mutation.isPending}
+                  accessibilityRole="button"
+                  style={styles.declineButton}
+                >
+                  <Text style={styles.declineLabel}>
+                    {t('settings.nutrition.adaptive.decline')}
+                  </Text>
+                </Pressable>
+              ) : null}
+            </>
+          ) : null}
+        </>
+      )}
+    </View>
+  );
+}
+
+function EstimateStats({ proposal }: { proposal: AdaptivePlanProposal }) {
+  const { t } = useTranslation();
+  const weekly = proposal.weekly_weight_change_kg;
+
+  const stats = [
+    {
+      label: t('settings.nutrition.adaptive.averageIntake', { days: proposal.logged_days }),
+      value: proposal.average_intake_kcal != null ? `${proposal.average_intake_kcal} kcal` : '--',
+    },
+    {
+      label: t('settings.nutrition.adaptive.weeklyChange'),
+      value: weekly != null ? `${weekly > 0 ? '+' : ''}${weekly.toFixed(2)} kg` : '--',
+    },
+    {
+      label: t('settings.nutrition.adaptive.maintenance'),
+      value:
+        proposal.estimated_maintenance_kcal != null
+          ? `${proposal.estimated_maintenance_kcal} kcal`
+          : '--',
+    },
+  ];
+
+  return (
+    <View style={styles.stats}>
+      {stats.map((stat) => (
+        <View key={stat.label} style={styles.statRow}>
+          <Text style={styles.statLabel}>{stat.label}</Text>
+          <Text style={styles.statValue}>{stat.value}</Text>
+        </View>
+      ))}
+      {proposal.confidence ? (
+        <Text style={styles.caption}>
+          {t(`settings.nutrition.adaptive.confidence.${proposal.confidence}`, {
+            formula: proposal.formula_maintenance_kcal ?? '--',
+          })}
+        </Text>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: 20,
+    padding: spacing.md,
+    gap: spacing.md,
+  },
+  title: {
+    ...textStyles.titleMedium,
+    color: colors.textPrimary,
+  },
+  body: {
+    ...textStyles.body,
+    color: colors.textSecondary,
+  },
+  stats: {
+    gap: spacing.xs,
+  },
+  statRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  statLabel: {
+    ...textStyles.caption,
+    color: colors.textSecondary,
+  },
+  statValue: {
+    ...textStyles.body,
+    fontFamily: fontFamilies.semibold,
+    color: colors.textPrimary,
+  },
+  caption: {
+    ...textStyles.caption,
+    color: colors.textSecondary,
+  },
+  table: {
+    gap: spacing.xs,
+  },
+  tableRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  cell: {
+    flex: 1,
+    ...textStyles.body,
+    color: colors.textPrimary,
+    textAlign: 'right',
+  },
+  labelCell: {
+    flex: 1.4,
+    textAlign: 'left',
+    color: colors.textSecondary,
+  },
+  headCell: {
+    ...textStyles.caption,
+    color: colors.textSecondary,
+  },
+  proposedCell: {
+    fontFamily: fontFamilies.semibold,
+    color: colors.accent,
+  },
+  declineButton: {
+    alignSelf: 'center',
+    paddingVertical: spacing.xs,
+  },
+  declineLabel: {
+    ...textStyles.body,
+    color: colors.textSecondary,
+  },
+});
@@ -1,5 +1,6 @@
 import { API_BASE_URL } from './config';
 import Constants from 'expo-constants';
+import { Platform } from 'react-native';
 import { z } from 'zod';
 import { getLocale, translateKey } from '@/i18n';
 import { getDeviceTimezone } from '@/utils/timezone';
@@ -27,6 +28,10 @@ import type {
   FavoriteMealDraft,
   FavoriteMealCreateRequest,
   FavoriteMealUpdateRequest,
+  ManualMealLogRequest,
+  BarcodeMealLogRequest,
+  FoodProductLabelResponse,
+  FoodProductLookupResponse,
   IapPurchaseRequest,
   IapPurchaseResponse,
   UserProfile,
@@ -37,6 +42,28 @@ import type {
   PushTokenRegisterRequest,
   PushTokenDisableRequest,
   ReportCalendarResponse,
+  FoodSearchResponse,
+  WeightEntry,
+  WeightEntryCreateRequest,
+  WeightEntryUpdateRequest,
+  AdaptivePlanDecisionRequest,
+  HydrationEntryCreateRequest,
+  RecipeCreateRequest,
+  RecipeUpdateRequest,
+  RecipeLogRequest,
+  PlannedMealCreateRequest,
+  PlannedMealUpdateRequest,
+  MealDish,
+  AppliedPortionCalibration,
+  PortionCalibrationCreateRequest,
+  PortionCalibrationUpdateRequest,
+  MealLogClarificationResponse,
+  MealLogClarifyRequest,
+  StatusStreamEnd,
+  StatusStreamTargetError,
+  MealLogReanalysisResolveRequest,
+  MealLogChainMenuSource,
+  MealLogEstimateSourceRequest,
 } from '@meal-log/shared';
 import {
   DashboardSummarySchema,
@@ -55,6 +82,19 @@ import {
   PushTokenRegisterRequestSchema,
   PushTokenDisableRequestSchema,
   ReportCalendarResponseSchema,
+  WeightLogResponseSchema,
+  AdaptivePlanResponseSchema,
+  AdaptivePlanDecisionRequestSchema,
+  HydrationResponseSchema,
+  RecipeListResponseSchema,
+  RecipeDetailResponseSchema,
+  PlannedMealListResponseSchema,
+  PlannedMealResponseSchema,
+  MealLogSplitResponseSchema,
+  PortionCalibrationListResponseSchema,
+  PortionCalibrationResponseSchema,
+  DeviceSessionListResponseSchema,
+  createServerSentEventParser,
 } from '@meal-log/shared';
 
 const HTTP_STATUS = {
@@ -113,7 +153,8 @@ function resolveFunctionPrefix(path: string): string {
   if (
     path.startsWith('/api/login/apple') ||
     path.startsWith('/api/session') ||
-    path.startsWith('/api/logout')
+    path.startsWith('/api/logout') ||
+    path.startsWith('/api/auth/')
   ) {
     return '/auth';
   }
@@ -179,6 +220,44 @@ async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: numbe
   }
 }
 
+const AUTH_REFRESH_PATH = '/api/auth/refresh';
+const AUTH_REFRESH_TIMEOUT_MS = 15_000;
+// A 401 from these means the credentials themselves were rejected, not that the access token expired.
+const AUTH_REFRESH_EXEMPT_PATHS = ['/api/login', '/api/register', '/api/logout', AUTH_REFRESH_PATH];
+let authRefreshInFlight: Promise<boolean> | null = null;
+
+/**
+ * Trades the refresh cookie for a new access token. Concurrent 401s share one attempt because the
+ * server rotates refresh tokens and treats a second use of the same token as theft.
+ */
+function refreshAuthSession() {
+  if (!authRefreshInFlight) {
+    authRefreshInFlight = (async () => {
+      try {
+        const response = await fetchWithTimeout(
+          buildApiUrl(AUTH_REFRESH_PATH),
+          {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'Accept-Language': getLocale() },
+            credentials: 'include',
+          },
+          AUTH_REFRESH_TIMEOUT_MS,
+        );
+        return response.ok;
+      } catch (_error) {
+        return false;
+      } finally {
+        authRefreshInFlight = null;
+      }
+    })();
+  }
+  return authRefreshInFlight;
+}
+
+function canRefreshAuth(path: string) {
+  return !AUTH_REFRESH_EXEMPT_PATHS.some((exempt) => path.startsWith(exempt));
+}
+
 async function apiFetch<T>(path: string, options: ApiFetchOptions = {}): Promise<T> {
   const url = buildApiUrl(path);
   const { timeoutMs = 60_000, ...fetchOptions } = options;
@@ -203,30 +282,49 @@ async function apiFetch<T>(path: string, options: ApiFetchOptions = {}): Promise
   if (!headers.has('X-App-Version') && APP_VERSION) {
     headers.set('X-App-Version', APP_VERSION);
   }
+  // Shown in the signed-in device list (settings → account → sessions).
+  if (!headers.has('X-Client-Platform')) {
+    headers.set('X-Client-Platform', Platform.OS);
+  }
+  if (!headers.has('X-Device-Name') && Constants.deviceName) {
+    headers.set('X-Device-Name', encodeURIComponent(Constants.deviceName));
+  }
 
-  let response: Response;
-  try {
-    response = await fetchWithTimeout(
-      url,
-      {
-        ...fetchOptions,
-        headers,
-        credentials: 'include',
-      },
-      timeoutMs,
-    );
-  } catch (err) {
-    if ((err as any)?.name === 'AbortError') {
-      if (options.signal?.aborted) {
-        const error = new Error(translateKey('api.error.canceled', undefined, appLocale)) as ApiError;
-        error.code = 'request.canceled';
+  const send = async () => {
+    try {
+      return await fetchWithTimeout(
+        url,
+        {
+          ...fetchOptions,
+          headers,
+          credentials: 'include',
+        },
+        timeoutMs,
+      );
+    } catch (err) {
+      if ((err as any)?.name === 'AbortError') {
+        if (options.signal?.aborted) {
+          const error = new Error(translateKey('api.error.canceled', undefined, appLocale)) as ApiError;
+          error.code = 'request.canceled';
+          throw error;
+        }
+        const error = new Error(translateKey('api.error.timeout', undefined, appLocale)) as ApiError;
+        error.code = 'network.timeout';
         throw error;
       }
-      const error = new Error(translateKey('api.error.timeout', undefined, appLocale)) as ApiError;
-      error.code = 'network.timeout';
-      throw error;
+      throw err;
     }
-    throw err;
+  };
+
+  let response = await send();
+  // Access tokens are short-lived: renew once and replay. Servers without a refresh route answer
+  // 404 there, so the original 401 is surfaced as before.
+  if (
+    response.status === HTTP_STATUS.UNAUTHORIZED &&
+    canRefreshAuth(path) &&
+    (await refreshAuthSession())
+  ) {
+    response = await send();
   }
 
   const method = (options.method ?? 'GET').toUpperCase();
@@ -405,8 +503,13 @@ export interface MealLogResponse {
   fallbackApplied: boolean;
   translations?: Record<string, GeminiNutritionResponse>;
   favoriteCandidate: FavoriteMealDraft;
+  dishes?: MealDish[];
+  calibrationApplied?: AppliedPortionCalibration[];
+  chainMenu?: MealLogChainMenuSource | null;
 }
 
+export type MealLogClarificationResult = MealLogClarificationResponse & { usage?: AiUsageSummary };
+
 export type IngestStatusResponse =
   | { ok: true; status: 'processing'; requestKey: string; createdAt: string | null }
   | {
@@ -426,6 +529,12 @@ export type IngestStatusResponse =
       errorCategory: 'waitable' | 'actionable' | null;
       message: string | null;
     }
+  | {
+      ok: true;
+      status: 'needs_clarification';
+      requestKey: string;
+      clarification: MealLogClarificationResult;
+    }
   | { ok: true; status: 'done'; requestKey: string; result: MealLogResponse };
 
 export async function getIngestStatus(requestKey: string) {
@@ -446,37 +555,171 @@ export async function cancelIngest(requestKey: string) {
   });
 }
 
+export interface StatusStreamHandlers {
+  onOpen?: () => void;
+  onIngest?: (status: IngestStatusResponse) => void;
+  onReport?: (response: AiReportRequestStatusResponse) => void;
+  onTargetError?: (error: StatusStreamTargetError) => void;
+  onClose?: (reason: StatusStreamEnd['reason'] | 'error') => void;
+}
+
+/**
+ * Follows ingest requests and report requests over `GET /api/stream` and returns a function that closes it.
+ * React Native has no EventSource, so the response is read incrementally through XHR progress events.
+ */
+export function openStatusStream(
+  targets: { ingestKeys?: string[]; reportIds?: string[] },
+  handlers: StatusStreamHandlers,
+) {
+  const searchParams = new URLSearchParams();
+  (targets.ingestKeys ?? []).forEach((key) => searchParams.append('ingest', key));
+  (targets.reportIds ?? []).forEach((id) => searchParams.append('report', id));
+  searchParams.set('locale', getLocale());
+
+  let xhr: XMLHttpRequest;
+  let offset = 0;
+  let opened = false;
+  let closed = false;
+  let endReason: StatusStreamEnd['reason'] | null = null;
+
+  const close = (reason: StatusStreamEnd['reason'] | 'error') => {
+    if (closed) {
+      return;
+    }
+    closed = true;
+    handlers.onClose?.(reason);
+  };
+
+  const parse = createServerSentEventParser(({ event, data }) => {
+    try {
+      const payload = JSON.parse(data);
+      if (event === 'ingest') {
+        handlers.onIngest?.(payload as IngestStatusResponse);
+      } else if (event === 'report') {
+        handlers.onReport?.(AiReportRequestStatusResponseSchema.parse(payload) as AiReportRequestStatusResponse);
+      } else if (event === 'error') {
+        handlers.onTargetError?.(payload as StatusStreamTargetError);
+      } else if (event === 'end') {
+        endReason = (payload as StatusStreamEnd).reason;
+      }
+    } catch (error) {
+      if (__DEV__) {
+        console.warn('[API] status stream event dropped', { event, error });
+      }
+    }
+  });
+
+  const readChunk = () => {
+    if (xhr.status !== 200) {
+      return;
+    }
+    if (!opened) {
+      opened = true;
+      handlers.onOpen?.();
+    }
+    const text = xhr.responseText ?? '';
+    if (text.length > offset) {
+      parse(text.slice(offset));
+      offset = text.length;
+    }
+  };
+
+  const connect = (refreshed: boolean) => {
+    xhr = new XMLHttpRequest();
+    xhr.open('GET', `${buildApiUrl('/api/stream')}?${searchParams.toString()}`);
+    xhr.withCredentials = true;
+    xhr.setRequestHeader('Accept', 'text/event-stream');
+    xhr.setRequestHeader('Accept-Language', getLocale());
+    xhr.setRequestHeader('X-Timezone', getDeviceTimezone());
+    if (APP_VERSION) {
+      xhr.setRequestHeader('X-App-Version', APP_VERSION);
+    }
+    xhr.onprogress = readChunk;
+    xhr.onreadystatechange = () => {
+      if (xhr.readyState !== XMLHttpRequest.DONE) {
+        return;
+      }
+      // An expired access token is renewed once, as apiFetch does, before the caller falls back to polling.
+      if (xhr.status === HTTP_STATUS.UNAUTHORIZED && !refreshed && !closed) {
+        void refreshAuthSession().then((ok) => {
+          if (closed) {
+            return;
+          }
+          if (ok) {
+            connect(true);
+          } else {
+            close('error');
+          }
+        });
+        return;
+      }
+      readChunk();
+      close(xhr.status === 200 && endReason ? endReason : 'error');
+    };
+    xhr.onerror = () => close('error');
+    xhr.send();
+  };
+
+  connect(false);
+
+  return () => {
+    closed = true;
+    xhr.abort();
+  };
+}
+
+export function isMealLogClarification(
+  response: MealLogResponse | MealLogClarificationResult,
+): response is MealLogClarificationResult {
+  return 'status' in response && response.status === 'needs_clarification';
+}
+
+export async function clarifyMealLog(
+  requestKey: string,
+  answers: MealLogClarifyRequest['answers'],
+) {
+  const encoded = encodeURIComponent(requestKey);
+  return apiFetch<MealLogResponse>(`/api/ingest/${encoded}/clarify`, {
+    method: 'POST',
+    body: JSON.stringify({ answers }),
+    timeoutMs: LOG_TIMEOUT_MS,
+  });
+}
+
 export async function postMealLog(params: {
   message: string;
-  imageUri?: string | null;
+  imageUris?: string[];
   idempotencyKey?: string;
   signal?: AbortSignal;
 }) {
   const form = new FormData();
-  const hasImage = Boolean(params.imageUri);
+  const imageUris = params.imageUris ?? [];
+  const hasImage = imageUris.length > 0;
   if (params.message) {
     form.append('message', params.message);
   }
-  if (params.imageUri) {
-    const fileName = params.imageUri.split('/').pop() ?? 'meal.jpg';
+  imageUris.forEach((uri, index) => {
+    const fileName = uri.split('/').pop() ?? `meal-${index + 1}.jpg`;
     const file: any = {
-      uri: params.imageUri,
+      uri,
       name: fileName,
       type: 'image/jpeg',
     };
-    form.append('image', file);
-  }
+    // The first photo keeps the original `image` field so older servers still accept single-photo logs.
+    form.append(index === 0 ? 'image' : 'images', file);
+  });
 
   form.append('locale', getLocale());
   form.append('timezone', getDeviceTimezone());
 
-  return apiFetch<MealLogResponse>('/log', {
+  return apiFetch<MealLogResponse | MealLogClarificationResult>('/log', {
     method: 'POST',
     body: form,
     signal: params.signal,
     headers: {
       'Idempotency-Key': params.idempotencyKey ?? `${Date.now()}-${Math.random()}`,
       'X-Translation-Mode': 'defer',
+      'X-Clarify-Mode': 'ask',
     },
     timeoutMs: hasImage ? IMAGE_LOG_TIMEOUT_MS : LOG_TIMEOUT_MS,
   });
@@ -565,6 +808,20 @@ export async function updateUserProfile(input: UpdateUserProfileRequest): Promis
   return parsed;
 }
 
+export async function getAdaptivePlan() {
+  const raw = await apiFetch<unknown>('/api/profile/adaptive-plan', { method: 'GET' });
+  return AdaptivePlanResponseSchema.parse(raw).proposal;
+}
+
+export async function decideAdaptivePlan(input: AdaptivePlanDecisionRequest) {
+  const payload = AdaptivePlanDecisionRequestSchema.parse(input);
+  const raw = await apiFetch<unknown>('/api/profile/adaptive-plan', {
+    method: 'POST',
+    body: JSON.stringify(payload),
+  });
+  return AdaptivePlanResponseSchema.parse(raw).proposal;
+}
+
 export async function deleteAccount() {
   return apiFetch<{ ok: boolean }>('/api/user/account', { method: 'DELETE' });
 }
@@ -602,11 +859,31 @@ export async function getDailySummary(days = 7) {
 
 export async function searchFoods(query: string) {
   const locale = getLocale();
-  return apiFetch<{ q: string; candidates: any[] }>(
+  return apiFetch<FoodSearchResponse>(
     appendLocale(`/api/foods/search?q=${encodeURIComponent(query)}`, locale),
   );
 }
 
+export async function lookupFoodBarcode(code: string) {
+  return apiFetch<FoodProductLookupResponse>(`/api/foods/barcode/${encodeURIComponent(code)}`);
+}
+
+export async function analyzeFoodLabel(code: string, imageUri: string) {
+  const form = new FormData();
+  const file: any = {
+    uri: imageUri,
+    name: imageUri.split('/').pop() ?? 'label.jpg',
+    type: 'image/jpeg',
+  };
+  form.append('image', file);
+  form.append('locale', getLocale());
+  return apiFetch<FoodProductLabelResponse>(`/api/foods/barcode/${encodeURIComponent(code)}/label`, {
+    method: 'POST',
+    body: form,
+    timeoutMs: IMAGE_LOG_TIMEOUT_MS,
+  });
+}
+
 export async function getMealLogDetail(logId: string) {
   const locale = getLocale();
   return apiFetch<{ ok: boolean; item: MealLogDetail }>(appendLocale(`/api/log/${logId}`, locale), {
@@ -629,6 +906,34 @@ export async function updateMealLog(logId: string, input: UpdateMealLogRequest)
   });
 }
 
+export async function resolveMealLogReanalysis(
+  logId: string,
+  action: MealLogReanalysisResolveRequest['action'],
+) {
+  const locale = getLocale();
+  return apiFetch<{ ok: boolean; item: MealLogDetail }>(
+    appendLocale(`/api/log/${logId}/reanalysis`, locale),
+    {
+      method: 'POST',
+      body: JSON.stringify({ action }),
+    },
+  );
+}
+
+export async function switchMealLogEstimateSource(
+  logId: string,
+  source: MealLogEstimateSourceRequest['source'],
+) {
+  const locale = getLocale();
+  return apiFetch<{ ok: boolean; item: MealLogDetail; usage?: AiUsageSummary }>(
+    appendLocale(`/api/log/${logId}/estimate-source`, locale),
+    {
+      method: 'POST',
+      body: JSON.stringify({ source }),
+    },
+  );
+}
+
 export async function getMealLogShare(logId: string) {
   const locale = getLocale();
   return apiFetch<{ ok: boolean; share: { text: string; token: string; expiresAt: string } }>(
@@ -800,6 +1105,56 @@ export async function getStreak() {
   });
 }
 
+export async function getWeightLog(days?: number) {
+  const params = new URLSearchParams();
+  if (days) {
+    params.set('days', String(days));
+  }
+  const query = params.toString();
+  const raw = await apiFetch<unknown>(`/api/weights${query ? `?${query}` : ''}`, { method: 'GET' });
+  return WeightLogResponseSchema.parse(raw);
+}
+
+export async function createWeightEntry(payload: WeightEntryCreateRequest) {
+  return apiFetch<{ ok: boolean; item: WeightEntry }>('/api/weights', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+}
+
+export async function updateWeightEntry(entryId: number, payload: WeightEntryUpdateRequest) {
+  return apiFetch<{ ok: boolean; item: WeightEntry }>(`/api/weights/${entryId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+}
+
+export async function deleteWeightEntry(entryId: number) {
+  await apiFetch<void>(`/api/weights/${entryId}`, { method: 'DELETE' });
+}
+
+export async function getHydration(date?: string) {
+  const query = date ? `?${new URLSearchParams({ date }).toString()}` : '';
+  const raw = await apiFetch<unknown>(`/api/hydration${query}`, { method: 'GET' });
+  return HydrationResponseSchema.parse(raw).day;
+}
+
+export async function addHydrationEntry(payload: HydrationEntryCreateRequest) {
+  const raw = await apiFetch<unknown>('/api/hydration', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+  return HydrationResponseSchema.parse(raw).day;
+}
+
+export async function deleteHydrationEntry(entryId: number) {
+  const raw = await apiFetch<unknown>(`/api/hydration/${entryId}`, { method: 'DELETE' });
+  return HydrationResponseSchema.parse(raw).day;
+}
+
 export async function getFavorites() {
   return apiFetch<{ ok: boolean; items: FavoriteMeal[] }>('/api/favorites', { method: 'GET' });
 }
@@ -834,6 +1189,158 @@ export async function createLogFromFavorite(favoriteId: number) {
   });
 }
 
+export async function getRecipes() {
+  const raw = await apiFetch<unknown>('/api/recipes', { method: 'GET' });
+  return RecipeListResponseSchema.parse(raw).items;
+}
+
+export async function getRecipe(recipeId: number) {
+  const raw = await apiFetch<unknown>(`/api/recipes/${recipeId}`, { method: 'GET' });
+  return RecipeDetailResponseSchema.parse(raw).item;
+}
+
+export async function createRecipe(payload: RecipeCreateRequest) {
+  const raw = await apiFetch<unknown>('/api/recipes', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+  return RecipeDetailResponseSchema.parse(raw);
+}
+
+export async function updateRecipe(recipeId: number, payload: RecipeUpdateRequest) {
+  const raw = await apiFetch<unknown>(`/api/recipes/${recipeId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+  return RecipeDetailResponseSchema.parse(raw);
+}
+
+export async function deleteRecipe(recipeId: number) {
+  await apiFetch<void>(`/api/recipes/${recipeId}`, { method: 'DELETE' });
+}
+
+export async function logRecipe(
+  recipeId: number,
+  request: RecipeLogRequest,
+  idempotencyKey = `${Date.now()}-${Math.random()}`,
+) {
+  return apiFetch<MealLogResponse>(`/api/recipes/${recipeId}/log`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Idempotency-Key': idempotencyKey },
+    body: JSON.stringify(request),
+  });
+}
+
+export async function getPlannedMeals(range: { from?: string; to?: string } = {}) {
+  const params = new URLSearchParams();
+  if (range.from) params.set('from', range.from);
+  if (range.to) params.set('to', range.to);
+  const query = params.toString();
+  const raw = await apiFetch<unknown>(`/api/planned-meals${query ? `?${query}` : ''}`, { method: 'GET' });
+  return PlannedMealListResponseSchema.parse(raw);
+}
+
+export async function createPlannedMeal(payload: PlannedMealCreateRequest) {
+  const raw = await apiFetch<unknown>('/api/planned-meals', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+  return PlannedMealResponseSchema.parse(raw).item;
+}
+
+export async function updatePlannedMeal(plannedMealId: number, payload: PlannedMealUpdateRequest) {
+  const raw = await apiFetch<unknown>(`/api/planned-meals/${plannedMealId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+  return PlannedMealResponseSchema.parse(raw).item;
+}
+
+export async function deletePlannedMeal(plannedMealId: number) {
+  await apiFetch<void>(`/api/planned-meals/${plannedMealId}`, { method: 'DELETE' });
+}
+
+export async function markPlannedMealEaten(plannedMealId: number) {
+  const raw = await apiFetch<unknown>(`/api/planned-meals/${plannedMealId}/eat`, { method: 'POST' });
+  return PlannedMealResponseSchema.parse(raw);
+}
+
+export async function getPortionCalibrations() {
+  const raw = await apiFetch<unknown>('/api/portion-calibrations', { method: 'GET' });
+  return PortionCalibrationListResponseSchema.parse(raw);
+}
+
+export async function createPortionCalibration(payload: PortionCalibrationCreateRequest) {
+  const raw = await apiFetch<unknown>('/api/portion-calibrations', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+  return PortionCalibrationResponseSchema.parse(raw).item;
+}
+
+export async function updatePortionCalibration(
+  calibrationId: number,
+  payload: PortionCalibrationUpdateRequest,
+) {
+  const raw = await apiFetch<unknown>(`/api/portion-calibrations/${calibrationId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+  return PortionCalibrationResponseSchema.parse(raw).item;
+}
+
+export async function deletePortionCalibration(calibrationId: number) {
+  await apiFetch<void>(`/api/portion-calibrations/${calibrationId}`, { method: 'DELETE' });
+}
+
+export async function getDeviceSessions() {
+  const raw = await apiFetch<unknown>('/api/auth/sessions', { method: 'GET' });
+  return DeviceSessionListResponseSchema.parse(raw);
+}
+
+export async function revokeDeviceSession(sessionId: string) {
+  return apiFetch<{ ok: boolean; current: boolean }>(
+    `/api/auth/sessions/${encodeURIComponent(sessionId)}`,
+    { method: 'DELETE' },
+  );
+}
+
+export async function revokeOtherDeviceSessions() {
+  return apiFetch<{ ok: boolean; revoked: number }>('/api/auth/sessions/revoke-others', {
+    method: 'POST',
+  });
+}
+
+export async function logFoodFromCatalogue(
+  foodId: number,
+  portion: ManualMealLogRequest = {},
+  idempotencyKey = `${Date.now()}-${Math.random()}`,
+) {
+  return apiFetch<MealLogResponse>(`/api/foods/${foodId}/log`, {
+    method: 'POST',
+    headers: { 'Idempotency-Key': idempotencyKey },
+    body: JSON.stringify(portion),
+  });
+}
+
+export async function logFoodProduct(
+  code: string,
+  request: BarcodeMealLogRequest = {},
+  idempotencyKey = `${Date.now()}-${Math.random()}`,
+) {
+  return apiFetch<MealLogResponse>(`/api/foods/barcode/${encodeURIComponent(code)}/log`, {
+    method: 'POST',
+    headers: { 'Idempotency-Key': idempotencyKey },
+    body: JSON.stringify(request),
+  });
+}
+
 export async function deleteMealLogEntry(logId: string) {
   return apiFetch<{ ok: boolean; deletedAt: string | null }>(`/api/log/${logId}`, {
     method: 'DELETE',
@@ -846,6 +1353,13 @@ export async function restoreMealLogEntry(logId: string) {
   });
 }
 
+export async function splitMealLogEntry(logId: string) {
+  const raw = await apiFetch<unknown>(`/api/log/${logId}/split`, {
+    method: 'POST',
+  });
+  return MealLogSplitResponseSchema.parse(raw);
+}
+
 export async function submitIapPurchase(payload: IapPurchaseRequest) {
   return apiFetch<IapPurchaseResponse>('/api/iap/purchase', {
     method: 'POST',
@@ -0,0 +1,132 @@
+import {
+  copyAsync,
+  deleteAsync,
+  documentDirectory,
+  makeDirectoryAsync,
+} from 'expo-file-system/legacy';
+import { useMealOutboxStore } from '@/store/outbox';
+import {
+  selectDueOutboxEntries,
+  selectOwnOutboxEntries,
+  shouldRetryOutboxError,
+  type MealOutboxEntry,
+} from '@/utils/mealOutbox';
+import { isLikelyNetworkError } from '@/utils/network';
+import {
+  getIngestStatus,
+  postMealLog,
+  type ApiError,
+  type MealLogClarificationResult,
+  type MealLogResponse,
+} from './api';
+
+const OUTBOX_DIRECTORY = documentDirectory ? `${documentDirectory}meal-outbox/` : null;
+
+export type MealOutboxOutcome =
+  | {
+      type: 'accepted';
+      entry: MealOutboxEntry;
+      response: MealLogResponse | MealLogClarificationResult | null;
+    }
+  | { type: 'failed'; entry: MealOutboxEntry; error: ApiError };
+
+/** Copies picked photos out of the picker cache so a queued log still has them after the OS clears it. */
+export async function persistOutboxImages(requestKey: string, uris: string[]) {
+  if (!OUTBOX_DIRECTORY || !uris.length) {
+    return uris;
+  }
+  try {
+    await makeDirectoryAsync(OUTBOX_DIRECTORY, { intermediates: true });
+    return await Promise.all(
+      uris.map(async (uri, index) => {
+        const target = `${OUTBOX_DIRECTORY}${requestKey}-${index + 1}.jpg`;
+        await copyAsync({ from: uri, to: target });
+        return target;
+      }),
+    );
+  } catch (error) {
+    console.warn('Failed to keep photos for the meal outbox', error);
+    return uris;
+  }
+}
+
+async function removeOutboxImages(entry: MealOutboxEntry) {
+  const directory = OUTBOX_DIRECTORY;
+  if (!directory) {
+    return;
+  }
+  await Promise.all(
+    entry.imageUris
+      .filter((uri) => uri.startsWith(directory))
+      .map((uri) => deleteAsync(uri, { idempotent: true }).catch(() => undefined)),
+  );
+}
+
+/** The first attempt may have reached the server before the connection dropped. */
+async function isKnownToServer(requestKey: string) {
+  try {
+    await getIngestStatus(requestKey);
+    return true;
+  } catch (error) {
+    if ((error as ApiError).status === 404) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+let flushInFlight = false;
+
+/**
+ * Sends every due outbox entry of the signed-in user with its original idempotency key. Accepted entries
+ * leave the outbox and are followed through `/api/ingest/:requestKey` like any other pending log; a
+ * network error stops the pass, since the remaining entries would fail the same way. Entries of another
+ * account wait until that account signs in again.
+ */
+export async function flushMealOutbox(
+  userId: number,
+  now = Date.now(),
+): Promise<MealOutboxOutcome[]> {
+  if (flushInFlight) {
+    return [];
+  }
+  flushInFlight = true;
+  const outcomes: MealOutboxOutcome[] = [];
+  const store = useMealOutboxStore.getState();
+  try {
+    for (const entry of selectDueOutboxEntries(selectOwnOutboxEntries(store.entries, userId), now)) {
+      store.markSending(entry.requestKey);
+      try {
+        const response = (await isKnownToServer(entry.requestKey))
+          ? null
+          : await postMealLog({
+              message: entry.message,
+              imageUris: entry.imageUris,
+              idempotencyKey: entry.requestKey,
+            });
+        store.remove(entry.requestKey);
+        void removeOutboxImages(entry);
+        outcomes.push({ type: 'accepted', entry, response });
+      } catch (error) {
+        const apiError = error as ApiError;
+        if (apiError.code === 'INGEST_IN_PROGRESS') {
+          store.remove(entry.requestKey);
+          void removeOutboxImages(entry);
+          outcomes.push({ type: 'accepted', entry, response: null });
+        } else if (isLikelyNetworkError(apiError)) {
+          store.markRetry(entry.requestKey, apiError.message);
+          break;
+        } else if (shouldRetryOutboxError(apiError)) {
+          store.markRetry(entry.requestKey, apiError.message);
+        } else {
+          store.remove(entry.requestKey);
+          void removeOutboxImages(entry);
+          outcomes.push({ type: 'failed', entry, error: apiError });
+        }
+      }
+    }
+  } finally {
+    flushInFlight = false;
+  }
+  return outcomes;
+}
@@ -7,8 +7,8 @@ import { translateKey } from '@/i18n';
 
 export interface ChatState {
   messages: ChatMessage[];
-  composingImageUri?: string | null;
-  addUserMessage: (text: string, options?: { imageUri?: string | null }) => ChatMessage;
+  composingImageUris: string[];
+  addUserMessage: (text: string, options?: { imageUris?: string[] }) => ChatMessage;
   addAssistantMessage: (
     text: string,
     options?: {
@@ -21,8 +21,9 @@ export interface ChatState {
   updateMessageStatus: (id: string, status: ChatMessage['status']) => void;
   updateMessageIngest: (id: string, ingest: Partial<NonNullable<ChatMessage['ingest']>>) => void;
   attachCardToMessage: (id: string, card: NutritionCardPayload) => void;
+  setMessageClarification: (id: string, clarification: ChatMessage['clarification'] | null) => void;
   updateCardForLog: (logId: string, updates: Partial<NutritionCardPayload>) => void;
-  setComposingImage: (uri: string | null) => void;
+  setComposingImages: (uris: string[]) => void;
   reset: () => void;
 }
 
@@ -41,13 +42,15 @@ export const useChatStore = create<ChatState>()(
   persist(
     (set, get) => ({
       messages: buildInitialMessages(),
-      composingImageUri: null,
+      composingImageUris: [],
       addUserMessage: (text, options) => {
+        const imageUris = options?.imageUris ?? [];
         const message: ChatMessage = {
           id: nanoid(),
           role: 'user',
           text,
-          imageUri: options?.imageUri ?? undefined,
+          imageUri: imageUris[0] ?? undefined,
+          imageUris: imageUris.length > 1 ? imageUris : undefined,
           createdAt: Date.now(),
           status: 'sending',
         };
@@ -108,6 +111,15 @@ export const useChatStore = create<ChatState>()(
           ),
         });
       },
+      setMessageClarification: (id, clarification) => {
+        set({
+          messages: get().messages.map((message) =>
+            message.id === id
+              ? { ...message, clarification: clarification ?? undefined, status: 'delivered' }
+              : message,
+          ),
+        });
+      },
       updateCardForLog: (logId, updates) => {
         set({
           messages: get().messages.map((message) => {
@@ -131,13 +143,13 @@ export const useChatStore = create<ChatState>()(
           }),
         });
       },
-      setComposingImage: (uri) => set({ composingImageUri: uri }),
-      reset: () => set({ messages: buildInitialMessages(), composingImageUri: null }),
+      setComposingImages: (uris) => set({ composingImageUris: uris }),
+      reset: () => set({ messages: buildInitialMessages(), composingImageUris: [] }),
     }),
     {
       name: 'meal-log.chat',
       storage: createJSONStorage(() => AsyncStorage),
-      version: 2,
+      version: 3,
       migrate: (persisted, version) => {
         if (!persisted || typeof persisted !== 'object') {
           return persisted as unknown as ChatState;
@@ -175,6 +187,14 @@ export const useChatStore = create<ChatState>()(
             state.messages = migratedMessages;
           }
           delete state.pendingIngests;
+        }
+
+        // v2 held a single composing photo; the composer now takes several.
+        if (version < 3) {
+          const state = persisted as any;
+          const uri = state.composingImageUri;
+          state.composingImageUris = typeof uri === 'string' && uri.length > 0 ? [uri] : [];
+          delete state.composingImageUri;
           return state as ChatState;
         }
 
@@ -182,7 +202,7 @@ export const useChatStore = create<ChatState>()(
       },
       partialize: (state) => ({
         messages: state.messages.slice(-200),
-        composingImageUri: state.composingImageUri,
+        composingImageUris: state.composingImageUris,
       }),
     },
   ),
@@ -0,0 +1,88 @@
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { computeOutboxRetryAt, resetOutboxBackoff, type MealOutboxEntry } from '@/utils/mealOutbox';
+
+export interface MealOutboxState {
+  entries: MealOutboxEntry[];
+  enqueue: (
+    entry: Omit<MealOutboxEntry, 'attempts' | 'nextAttemptAt' | 'status' | 'createdAt'> & {
+      createdAt?: number;
+    },
+  ) => void;
+  markSending: (requestKey: string) => void;
+  markRetry: (requestKey: string, error?: string | null) => void;
+  resetBackoff: () => void;
+  remove: (requestKey: string) => void;
+  reset: () => void;
+}
+
+export const useMealOutboxStore = create<MealOutboxState>()(
+  persist(
+    (set, get) => ({
+      entries: [],
+      enqueue: (entry) => {
+        const now = Date.now();
+        const queued: MealOutboxEntry = {
+          ...entry,
+          createdAt: entry.createdAt ?? now,
+          attempts: 1,
+          nextAttemptAt: computeOutboxRetryAt(1, now),
+          status: 'queued',
+        };
+        set({
+          entries: [
+            ...get().entries.filter((current) => current.requestKey !== entry.requestKey),
+            queued,
+          ],
+        });
+      },
+      markSending: (requestKey) => {
+        set({
+          entries: get().entries.map((entry) =>
+            entry.requestKey === requestKey ? { ...entry, status: 'sending' } : entry,
+          ),
+        });
+      },
+      markRetry: (requestKey, error) => {
+        const now = Date.now();
+        set({
+          entries: get().entries.map((entry) => {
+            if (entry.requestKey !== requestKey) {
+              return entry;
+            }
+            const attempts = entry.attempts + 1;
+            return {
+              ...entry,
+              attempts,
+              nextAttemptAt: computeOutboxRetryAt(attempts, now),
+              status: 'queued',
+              lastError: error ?? null,
+            };
+          }),
+        });
+      },
+      resetBackoff: () => {
+        set({ entries: resetOutboxBackoff(get().entries) });
+      },
+      remove: (requestKey) => {
+        set({ entries: get().entries.filter((entry) => entry.requestKey !== requestKey) });
+      },
+      reset: () => set({ entries: [] }),
+    }),
+    {
+      name: 'meal-log.outbox',
+      storage: createJSONStorage(() => AsyncStorage),
+      version: 2,
+      // v1 entries did not record their account, so nothing tells whose meals they are.
+      migrate: (persisted, version) =>
+        (version < 2 ? { entries: [] } : persisted) as unknown as MealOutboxState,
+      partialize: (state) => ({
+        // An app kill mid-request leaves `sending` behind; retry those on the next launch.
+        entries: state.entries.map((entry) =>
+          entry.status === 'sending' ? { ...entry, status: 'queued' as const } : entry,
+        ),
+      }),
+    },
+  ),
+);
@@ -25,6 +25,7 @@ export const colors = {
   ringCarb: '#9C7CFF',
   ringFat: '#FF7B7B',
   ringKcal: '#F5B225',
+  ringWater: '#4DA3FF',
   ringInactive: '#D5DAE6',
   smartProBgStart: '#0F1626',
   smartProBgEnd: '#1F2B3D',
@@ -1,4 +1,11 @@
-import type { FavoriteMealDraft, GeminiNutritionResponse } from '@meal-log/shared';
+import type {
+  AppliedPortionCalibration,
+  ClarifyingQuestion,
+  FavoriteMealDraft,
+  GeminiNutritionResponse,
+  MealDish,
+  MealLogChainMenuSource,
+} from '@meal-log/shared';
 
 export type ChatRole = 'user' | 'assistant' | 'system' | 'warning';
 
@@ -7,6 +14,8 @@ export interface ChatMessage {
   role: ChatRole;
   text: string;
   imageUri?: string | null;
+  /** Every attached photo when more than one was sent; `imageUri` stays the first. */
+  imageUris?: string[];
   createdAt: number;
   card?: NutritionCardPayload;
   status?: 'sending' | 'delivered' | 'error' | 'processing';
@@ -16,6 +25,13 @@ export interface ChatMessage {
     nextCheckAt?: number | null;
     deadlineAt?: number | null;
   };
+  /** Follow-up questions the server asked before saving a low-confidence estimate. */
+  clarification?: {
+    requestKey: string;
+    dish: string;
+    totals: NutritionCardPayload['totals'];
+    questions: ClarifyingQuestion[];
+  };
 }
 
 export interface NutritionCardPayload {
@@ -43,4 +59,11 @@ export interface NutritionCardPayload {
   favoriteCandidate?: FavoriteMealDraft;
   mealPeriod?: string | null;
   timezone?: string | null;
+  dishes?: MealDish[];
+  /** Set once the log has been split into one log per dish. */
+  splitCount?: number;
+  /** Portion references or learned corrections the estimate was adjusted with. */
+  calibrationApplied?: AppliedPortionCalibration[];
+  /** Chain menu item the message was matched to; `active` while the log uses its published values. */
+  chainMenu?: MealLogChainMenuSource | null;
 }
@@ -0,0 +1,27 @@
+import { scaleFoodNutrients, type FoodProduct } from '@meal-log/shared';
+import type { NutritionCardPayload } from '@/types/chat';
+
+/**
+ * Builds the confirmation card for a scanned product: one serving, as printed on the label.
+ * Label reads from the AI fallback carry a lower confidence until the user confirms them.
+ */
+export function buildProductCardPayload(product: FoodProduct): NutritionCardPayload {
+  const totals = scaleFoodNutrients(product.per_100g, product.serving.grams);
+  const dish = product.brand ? `${product.brand} ${product.name}` : product.name;
+  return {
+    dish,
+    confidence: product.confirmed ? 1 : 0.8,
+    totals,
+    items: [
+      {
+        name: product.name,
+        grams: product.serving.grams,
+        protein_g: totals.protein_g,
+        fat_g: totals.fat_g,
+        carbs_g: totals.carbs_g,
+      },
+    ],
+    warnings: [],
+    locale: product.locale,
+  };
+}
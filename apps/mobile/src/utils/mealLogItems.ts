@@ -0,0 +1,98 @@
+import {
+  planMealLogItemChanges,
+  type MealLogItem,
+  type MealLogItemInput,
+  type NutritionTotals,
+} from '@meal-log/shared';
+
+/** Editable row state. Nutrient fields are only shown for rows the user added. */
+export interface MealLogItemField {
+  key: string;
+  id?: number;
+  name: string;
+  grams: string;
+  calories: string;
+  protein: string;
+  fat: string;
+  carbs: string;
+}
+
+let newItemCounter = 0;
+
+export function toItemFields(items: MealLogItem[]): MealLogItemField[] {
+  return items.map((item) => ({
+    key: `item-${item.id}`,
+    id: item.id,
+    name: item.name,
+    grams: item.grams.toString(),
+    calories: item.calories.toString(),
+    protein: item.protein_g.toString(),
+    fat: item.fat_g.toString(),
+    carbs: item.carbs_g.toString(),
+  }));
+}
+
+export function createItemField(): MealLogItemField {
+  newItemCounter += 1;
+  return {
+    key: `new-${newItemCounter}`,
+    name: '',
+    grams: '',
+    calories: '',
+    protein: '',
+    fat: '',
+    carbs: '',
+  };
+}
+
+function parseOptionalNumber(value: string) {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  const parsed = Number(trimmed);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : Number.NaN;
+}
+
+/**
+ * Converts the rows into the PATCH payload. Existing rows only send name and grams so the
+ * server scales their nutrients; added rows send what the user typed.
+ * Returns null when a row has no name or an invalid number.
+ */
+export function toItemInputs(fields: MealLogItemField[]): MealLogItemInput[] | null {
+  const inputs: MealLogItemInput[] = [];
+  for (const field of fields) {
+    const name = field.name.trim();
+    const grams = parseOptionalNumber(field.grams);
+    if (!name || grams === undefined || Number.isNaN(grams)) {
+      return null;
+    }
+    if (field.id !== undefined) {
+      inputs.push({ id: field.id, name, grams });
+      continue;
+    }
+    const nutrients = {
+      calories: parseOptionalNumber(field.calories),
+      protein_g: parseOptionalNumber(field.protein),
+      fat_g: parseOptionalNumber(field.fat),
+      carbs_g: parseOptionalNumber(field.carbs),
+    };
+    if (Object.values(nutrients).some((value) => Number.isNaN(value))) {
+      return null;
+    }
+    inputs.push({ name, grams, ...nutrients });
+  }
+  return inputs;
+}
+
+/** Totals the server will store after saving, for the live preview. */
+export function previewItemTotals(
+  current: MealLogItem[],
+  fields: MealLogItemField[],
+): NutritionTotals | null {
+  const inputs = toItemInputs(fields);
+  if (!inputs) {
+    return null;
+  }
+  return planMealLogItemChanges(current, inputs).totals;
+}
@@ -0,0 +1,83 @@
+/** A meal submission that could not reach the server yet; it is re-sent with the same idempotency key. */
+export interface MealOutboxEntry {
+  requestKey: string;
+  /** Account the meal was logged from; it is only sent, or shown, while that account is signed in. */
+  userId: number;
+  message: string;
+  imageUris: string[];
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  status: 'queued' | 'sending';
+  lastError?: string | null;
+  userMessageId?: string | null;
+  assistantMessageId?: string | null;
+}
+
+export interface PendingMealLogRow {
+  requestKey: string;
+  title: string;
+  imageCount: number;
+  createdAt: number;
+  status: MealOutboxEntry['status'];
+}
+
+export const OUTBOX_RETRY_BASE_MS = 5_000;
+export const OUTBOX_RETRY_MAX_MS = 5 * 60_000;
+
+/** Exponential backoff from the number of attempts already made: 5s, 10s, 20s ... up to 5 minutes. */
+export function computeOutboxRetryAt(attempts: number, now = Date.now()) {
+  const exponent = Math.max(0, attempts - 1);
+  const delay = Math.min(OUTBOX_RETRY_MAX_MS, OUTBOX_RETRY_BASE_MS * 2 ** exponent);
+  return now + delay;
+}
+
+export function selectOwnOutboxEntries(entries: MealOutboxEntry[], userId: number | null) {
+  return userId === null ? [] : entries.filter((entry) => entry.userId === userId);
+}
+
+export function selectDueOutboxEntries(entries: MealOutboxEntry[], now = Date.now()) {
+  return entries
+    .filter((entry) => entry.status === 'queued' && entry.nextAttemptAt <= now)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/** The earliest time a queued entry should be retried, or null when nothing is waiting. */
+export function nextOutboxWakeAt(entries: MealOutboxEntry[]) {
+  const queued = entries.filter((entry) => entry.status === 'queued');
+  if (!queued.length) {
+    return null;
+  }
+  return Math.min(...queued.map((entry) => entry.nextAttemptAt));
+}
+
+/** Makes every queued entry due now with a fresh backoff, e.g. once the device is back online. */
+export function resetOutboxBackoff(entries: MealOutboxEntry[], now = Date.now()) {
+  return entries.map((entry) =>
+    entry.status === 'queued' ? { ...entry, attempts: 1, nextAttemptAt: now } : entry,
+  );
+}
+
+/** Errors worth retrying later; anything else (validation, usage limits ...) will fail the same way again. */
+export function shouldRetryOutboxError(error: { status?: number } | null | undefined) {
+  const status = error?.status;
+  if (typeof status !== 'number') {
+    return true;
+  }
+  return status === 401 || status === 408 || status === 429 || status >= 500;
+}
+
+export function buildPendingMealLogRows(entries: MealOutboxEntry[], fallbackTitle: string) {
+  return [...entries]
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .map<PendingMealLogRow>((entry) => {
+      const firstLine = entry.message.split('\n')[0]?.trim() ?? '';
+      return {
+        requestKey: entry.requestKey,
+        title: firstLine || fallbackTitle,
+        imageCount: entry.imageUris.length,
+        createdAt: entry.createdAt,
+        status: entry.status,
+      };
+    });
+}
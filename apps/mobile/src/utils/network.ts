@@ -0,0 +1,35 @@
+const NETWORK_ERROR_PATTERNS = [
+  'Network request failed',
+  'The network connection was lost',
+  'A server with the specified hostname could not be found',
+  'offline',
+  'timed out',
+  'timeout',
+  'タイムアウト',
+];
+
+export function isLikelyNetworkError(error: unknown): boolean {
+  if (!error) {
+    return false;
+  }
+  const code =
+    typeof (error as { code?: unknown }).code === 'string' ? (error as { code: string }).code : '';
+  if (code.startsWith('network.')) {
+    return true;
+  }
+  const name =
+    typeof (error as { name?: unknown }).name === 'string' ? (error as { name: string }).name : '';
+  if (name === 'AbortError') {
+    return true;
+  }
+  if (error instanceof TypeError) {
+    return true;
+  }
+  const message =
+    typeof (error as { message?: unknown }).message === 'string'
+      ? (error as { message: string }).message
+      : '';
+  return NETWORK_ERROR_PATTERNS.some((pattern) =>
+    message.toLowerCase().includes(pattern.toLowerCase()),
+  );
+}
@@ -0,0 +1,33 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { buildProductCardPayload } from '../src/utils/foodProduct.ts';
+
+const product = {
+  barcode: '4901234567894',
+  name: 'Granola',
+  brand: 'Acme',
+  locale: 'en-US',
+  serving: { label: '1 cup', grams: 40 },
+  per_100g: { kcal: 450, protein_g: 9, fat_g: 15, carbs_g: 68 },
+  source: 'user' as const,
+  confirmed: true,
+};
+
+test('buildProductCardPayload shows one printed serving', () => {
+  const payload = buildProductCardPayload(product);
+  assert.equal(payload.dish, 'Acme Granola');
+  assert.deepEqual(payload.totals, { kcal: 180, protein_g: 3.6, fat_g: 6, carbs_g: 27.2 });
+  assert.equal(payload.items[0]?.grams, 40);
+  assert.equal(payload.confidence, 1);
+});
+
+test('buildProductCardPayload lowers confidence for unconfirmed label reads', () => {
+  const payload = buildProductCardPayload({
+    ...product,
+    brand: null,
+    source: 'ai_label',
+    confirmed: false,
+  });
+  assert.equal(payload.dish, 'Granola');
+  assert.ok(payload.confidence < 1);
+});
@@ -0,0 +1,69 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createItemField,
+  previewItemTotals,
+  toItemFields,
+  toItemInputs,
+} from '../src/utils/mealLogItems.ts';
+
+const items = [
+  {
+    id: 1,
+    name: 'ご飯',
+    grams: 150,
+    calories: 252,
+    protein_g: 3.8,
+    fat_g: 0.5,
+    carbs_g: 55.7,
+    order_index: 0,
+  },
+  {
+    id: 2,
+    name: '味噌汁',
+    grams: 200,
+    calories: 40,
+    protein_g: 2.6,
+    fat_g: 1.2,
+    carbs_g: 4.2,
+    order_index: 1,
+  },
+];
+
+test('toItemInputs sends only name and amount for stored items', () => {
+  const fields = toItemFields(items);
+  fields[0]!.grams = '300';
+  fields[0]!.calories = '999';
+
+  assert.deepEqual(toItemInputs(fields), [
+    { id: 1, name: 'ご飯', grams: 300 },
+    { id: 2, name: '味噌汁', grams: 200 },
+  ]);
+});
+
+test('toItemInputs rejects rows without a name or with an invalid amount', () => {
+  const added = { ...createItemField(), name: '納豆', grams: 'abc' };
+  assert.equal(toItemInputs([added]), null);
+  assert.equal(toItemInputs([{ ...createItemField(), grams: '45' }]), null);
+});
+
+test('previewItemTotals rescales edited items and includes added ones', () => {
+  const fields = toItemFields(items);
+  fields[0]!.grams = '300';
+  fields.splice(1, 1);
+  fields.push({
+    ...createItemField(),
+    name: '納豆',
+    grams: '45',
+    protein: '7.4',
+    fat: '4.5',
+    carbs: '5.4',
+  });
+
+  assert.deepEqual(previewItemTotals(items, fields), {
+    kcal: 504 + 92,
+    protein_g: 15,
+    fat_g: 5.5,
+    carbs_g: 116.8,
+  });
+});
@@ -0,0 +1,107 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  OUTBOX_RETRY_MAX_MS,
+  buildPendingMealLogRows,
+  computeOutboxRetryAt,
+  nextOutboxWakeAt,
+  resetOutboxBackoff,
+  selectDueOutboxEntries,
+  selectOwnOutboxEntries,
+  shouldRetryOutboxError,
+  type MealOutboxEntry,
+} from '../src/utils/mealOutbox.ts';
+
+const entry = (overrides: Partial<MealOutboxEntry>): MealOutboxEntry => ({
+  requestKey: 'ingest_1',
+  userId: 1,
+  message: '',
+  imageUris: [],
+  createdAt: 1_000,
+  attempts: 1,
+  nextAttemptAt: 0,
+  status: 'queued',
+  ...overrides,
+});
+
+test('computeOutboxRetryAt backs off exponentially up to the cap', () => {
+  assert.equal(computeOutboxRetryAt(1, 0), 5_000);
+  assert.equal(computeOutboxRetryAt(2, 0), 10_000);
+  assert.equal(computeOutboxRetryAt(4, 0), 40_000);
+  assert.equal(computeOutboxRetryAt(20, 0), OUTBOX_RETRY_MAX_MS);
+});
+
+test('selectDueOutboxEntries returns queued entries that are due, oldest first', () => {
+  const due = selectDueOutboxEntries(
+    [
+      entry({ requestKey: 'late', createdAt: 3, nextAttemptAt: 50 }),
+      entry({ requestKey: 'sending', createdAt: 1, status: 'sending' }),
+      entry({ requestKey: 'b', createdAt: 2, nextAttemptAt: 10 }),
+      entry({ requestKey: 'a', createdAt: 1, nextAttemptAt: 20 }),
+    ],
+    20,
+  );
+  assert.deepEqual(
+    due.map((item) => item.requestKey),
+    ['a', 'b'],
+  );
+});
+
+test('selectOwnOutboxEntries keeps another account’s queued meals out of the signed-in user’s', () => {
+  const entries = [
+    entry({ requestKey: 'mine', userId: 1 }),
+    entry({ requestKey: 'theirs', userId: 2 }),
+  ];
+  assert.deepEqual(
+    selectOwnOutboxEntries(entries, 1).map((item) => item.requestKey),
+    ['mine'],
+  );
+  assert.deepEqual(
+    selectOwnOutboxEntries(entries, 2).map((item) => item.requestKey),
+    ['theirs'],
+  );
+  assert.deepEqual(selectOwnOutboxEntries(entries, null), []);
+});
+
+test('nextOutboxWakeAt ignores entries already being sent', () => {
+  assert.equal(nextOutboxWakeAt([]), null);
+  assert.equal(nextOutboxWakeAt([entry({ status: 'sending', nextAttemptAt: 5 })]), null);
+  assert.equal(nextOutboxWakeAt([entry({ nextAttemptAt: 30 }), entry({ nextAttemptAt: 10 })]), 10);
+});
+
+test('resetOutboxBackoff makes queued entries due now and restarts their backoff', () => {
+  const [queued, sending] = resetOutboxBackoff(
+    [
+      entry({ requestKey: 'queued', attempts: 6, nextAttemptAt: 300_000 }),
+      entry({ requestKey: 'sending', attempts: 2, nextAttemptAt: 0, status: 'sending' }),
+    ],
+    100,
+  );
+  assert.equal(queued.attempts, 1);
+  assert.equal(queued.nextAttemptAt, 100);
+  assert.deepEqual(selectDueOutboxEntries([queued], 100), [queued]);
+  assert.equal(sending.attempts, 2);
+});
+
+test('shouldRetryOutboxError keeps transient failures and drops permanent ones', () => {
+  assert.equal(shouldRetryOutboxError(undefined), true);
+  assert.equal(shouldRetryOutboxError({ status: 503 }), true);
+  assert.equal(shouldRetryOutboxError({ status: 429 }), true);
+  assert.equal(shouldRetryOutboxError({ status: 401 }), true);
+  assert.equal(shouldRetryOutboxError({ status: 400 }), false);
+  assert.equal(shouldRetryOutboxError({ status: 402 }), false);
+});
+
+test('buildPendingMealLogRows lists the newest entry first with a readable title', () => {
+  const rows = buildPendingMealLogRows(
+    [
+      entry({ requestKey: 'old', message: '朝ごはん\nトーストと卵', createdAt: 1 }),
+      entry({ requestKey: 'new', imageUris: ['a.jpg', 'b.jpg'], createdAt: 2, status: 'sending' }),
+    ],
+    'Photo log',
+  );
+  assert.deepEqual(rows, [
+    { requestKey: 'new', title: 'Photo log', imageCount: 2, createdAt: 2, status: 'sending' },
+    { requestKey: 'old', title: '朝ごはん', imageCount: 0, createdAt: 1, status: 'queued' },
+  ]);
+});
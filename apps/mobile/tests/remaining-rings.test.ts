@@ -80,3 +80,12 @@ test('ring state disables visuals when target is zero', () => {
   assert.equal(state.ringColor, colors.ringInactive);
   assert.equal(state.progress, 0);
 });
+
+test('water ring treats going over the target as success', () => {
+  const ring = makeRing({ current: 2300, target: 2000, unit: 'ml', colorToken: 'ringWater' });
+  const state = buildRingState(ring, translate);
+
+  assert.equal(state.deltaText, '300 ml 超過');
+  assert.equal(state.status, 'over');
+  assert.equal(state.ringColor, colors.success);
+});
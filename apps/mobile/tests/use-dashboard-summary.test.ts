@@ -87,6 +87,37 @@ test('buildTargetComparison reports target deltas and percentages', () => {
   assert.equal(protein?.percentOfTarget, 92);
 });
 
+test('buildTargetComparison adds a planned-vs-actual section only when meals are planned', () => {
+  const targets: DashboardTargets = { calories: 2200, protein_g: 130, fat_g: 70, carbs_g: 260 };
+  const emptyPlan = {
+    entries: 0,
+    eaten_entries: 0,
+    planned: { calories: 0, protein_g: 0, fat_g: 0, carbs_g: 0 },
+    eaten: { calories: 0, protein_g: 0, fat_g: 0, carbs_g: 0 },
+  };
+  assert.equal(buildTargetComparison(createSummary({ plan: emptyPlan }), targets).plan, undefined);
+
+  const comparison = buildTargetComparison(
+    createSummary({
+      plan: {
+        entries: 3,
+        eaten_entries: 2,
+        planned: { calories: 1800, protein_g: 100, fat_g: 50, carbs_g: 220 },
+        eaten: { calories: 1200, protein_g: 70, fat_g: 30, carbs_g: 150 },
+      },
+    }),
+    targets,
+  );
+  assert.deepEqual(comparison.plan, {
+    entries: 3,
+    eatenEntries: 2,
+    planned: 1800,
+    actual: 2100,
+    delta: 300,
+    percentOfPlan: 117,
+  });
+});
+
 test('buildViewModel includes comparison and formatted labels', () => {
   const summary = createSummary({
     calories: {
@@ -162,6 +193,22 @@ test('buildViewModel scales targets for multi-day ranges', () => {
   assert.equal(carbComparison?.delta, -220);
 });
 
+test('buildViewModel rounds micronutrient rows by unit and keeps their kind', () => {
+  const summary = createSummary({
+    micros: [
+      { key: 'salt_g', label: '食塩相当量', unit: 'g', kind: 'limit', total: 8.26, target: 7.5, delta: 0.76 },
+      { key: 'potassium_mg', label: 'カリウム', unit: 'mg', kind: 'goal', total: 1834.4, target: 2500, delta: -665.6 },
+    ],
+  });
+  const targets: DashboardTargets = { calories: 2200, protein_g: 130, fat_g: 70, carbs_g: 260 };
+  const viewModel = buildViewModel(summary, targets);
+
+  assert.deepEqual(viewModel.nutrients, [
+    { key: 'salt_g', label: '食塩相当量', unit: 'g', kind: 'limit', total: 8.3, target: 7.5, delta: 0.8 },
+    { key: 'potassium_mg', label: 'カリウム', unit: 'mg', kind: 'goal', total: 1834, target: 2500, delta: -666 },
+  ]);
+});
+
 test('roundNumber rounds consistently', () => {
   assert.equal(roundNumber(123.456, 1), 123.5);
   assert.equal(roundNumber(123.444, 1), 123.4);
@@ -0,0 +1,48 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { buildWeightChartGeometry } from '../src/features/dashboard/components/weightChartMath.ts';
+
+const trend = [
+  { date: '2026-10-01', weight_kg: 71, trend_kg: 71 },
+  { date: '2026-10-11', weight_kg: 69, trend_kg: 70 },
+];
+
+test('buildWeightChartGeometry spaces points by calendar day and draws the trend line', () => {
+  const geometry = buildWeightChartGeometry({
+    trend,
+    startDate: '2026-10-01',
+    endDate: '2026-10-21',
+    width: 200,
+    height: 100,
+  });
+
+  assert.ok(geometry);
+  assert.equal(geometry.minKg, 68.5);
+  assert.equal(geometry.maxKg, 71.5);
+  assert.deepEqual(geometry.dots[1], { x: 100, y: 83.3 });
+  assert.equal(geometry.trendPath, 'M0,16.7 L100,50');
+  assert.equal(geometry.targetY, null);
+});
+
+test('buildWeightChartGeometry includes a nearby target and hides a distant one', () => {
+  const near = buildWeightChartGeometry({
+    trend,
+    startDate: '2026-10-01',
+    endDate: '2026-10-21',
+    width: 200,
+    height: 100,
+    targetKg: 67,
+  });
+  const far = buildWeightChartGeometry({
+    trend,
+    startDate: '2026-10-01',
+    endDate: '2026-10-21',
+    width: 200,
+    height: 100,
+    targetKg: 55,
+  });
+
+  assert.equal(near?.minKg, 66.5);
+  assert.equal(near?.targetY, 90);
+  assert.equal(far?.targetY, null);
+});
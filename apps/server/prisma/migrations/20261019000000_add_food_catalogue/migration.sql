@@ -0,0 +1,32 @@
+-- Food composition catalogue backing /api/foods/search.
+
+CREATE TABLE "Food" (
+  "id" SERIAL PRIMARY KEY,
+  "source" TEXT NOT NULL,
+  "sourceCode" TEXT NOT NULL,
+  "kcalPer100g" DOUBLE PRECISION NOT NULL,
+  "proteinPer100g" DOUBLE PRECISION NOT NULL,
+  "fatPer100g" DOUBLE PRECISION NOT NULL,
+  "carbsPer100g" DOUBLE PRECISION NOT NULL,
+  "servingGrams" DOUBLE PRECISION NOT NULL DEFAULT 100,
+  "servingLabel" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE "FoodName" (
+  "id" SERIAL PRIMARY KEY,
+  "foodId" INTEGER NOT NULL,
+  "locale" TEXT NOT NULL,
+  "name" TEXT NOT NULL,
+  "normalized" TEXT NOT NULL,
+  "isAlias" BOOLEAN NOT NULL DEFAULT false
+);
+
+ALTER TABLE "FoodName"
+  ADD CONSTRAINT "FoodName_foodId_fkey"
+    FOREIGN KEY ("foodId") REFERENCES "Food"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE UNIQUE INDEX "Food_source_sourceCode_key" ON "Food" ("source", "sourceCode");
+CREATE UNIQUE INDEX "FoodName_foodId_locale_name_key" ON "FoodName" ("foodId", "locale", "name");
+CREATE INDEX "FoodName_normalized_idx" ON "FoodName" ("normalized");
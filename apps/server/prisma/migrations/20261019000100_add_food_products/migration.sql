@@ -0,0 +1,26 @@
+-- Packaged foods keyed by EAN/JAN barcode, backing /api/foods/barcode/:code.
+
+CREATE TABLE "FoodProduct" (
+  "id" SERIAL PRIMARY KEY,
+  "barcode" TEXT NOT NULL,
+  "name" TEXT NOT NULL,
+  "brand" TEXT,
+  "locale" TEXT NOT NULL,
+  "kcalPer100g" DOUBLE PRECISION NOT NULL,
+  "proteinPer100g" DOUBLE PRECISION NOT NULL,
+  "fatPer100g" DOUBLE PRECISION NOT NULL,
+  "carbsPer100g" DOUBLE PRECISION NOT NULL,
+  "servingGrams" DOUBLE PRECISION NOT NULL DEFAULT 100,
+  "servingLabel" TEXT,
+  "source" TEXT NOT NULL,
+  "confirmed" BOOLEAN NOT NULL DEFAULT false,
+  "contributedById" INTEGER,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE "FoodProduct"
+  ADD CONSTRAINT "FoodProduct_contributedById_fkey"
+    FOREIGN KEY ("contributedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+CREATE UNIQUE INDEX "FoodProduct_barcode_key" ON "FoodProduct" ("barcode");
@@ -0,0 +1,2 @@
+-- Fiber, sugar, saturated fat, sodium / salt equivalent and selected vitamins & minerals per log.
+ALTER TABLE "MealLog" ADD COLUMN "micros" JSONB;
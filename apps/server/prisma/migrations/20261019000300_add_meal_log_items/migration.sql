@@ -0,0 +1,22 @@
+-- Editable per-ingredient rows of a meal log. Totals on "MealLog" are the sum of these rows
+-- once a user edits them; older logs get rows lazily from "aiRaw".items.
+
+CREATE TABLE "MealLogItem" (
+  "id" SERIAL PRIMARY KEY,
+  "mealLogId" TEXT NOT NULL,
+  "name" TEXT NOT NULL,
+  "grams" DOUBLE PRECISION NOT NULL,
+  "calories" DOUBLE PRECISION NOT NULL,
+  "proteinG" DOUBLE PRECISION NOT NULL,
+  "fatG" DOUBLE PRECISION NOT NULL,
+  "carbsG" DOUBLE PRECISION NOT NULL,
+  "orderIndex" INTEGER NOT NULL DEFAULT 0,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE "MealLogItem"
+  ADD CONSTRAINT "MealLogItem_mealLogId_fkey"
+    FOREIGN KEY ("mealLogId") REFERENCES "MealLog"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE INDEX "MealLogItem_mealLogId_orderIndex_idx" ON "MealLogItem" ("mealLogId", "orderIndex");
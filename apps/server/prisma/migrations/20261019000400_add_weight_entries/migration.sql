@@ -0,0 +1,17 @@
+-- Body weight history. "UserProfile"."currentWeightKg" mirrors the latest entry.
+
+CREATE TABLE "WeightEntry" (
+  "id" SERIAL PRIMARY KEY,
+  "userId" INTEGER NOT NULL,
+  "weightKg" DOUBLE PRECISION NOT NULL,
+  "recordedAt" TIMESTAMP(3) NOT NULL,
+  "note" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE "WeightEntry"
+  ADD CONSTRAINT "WeightEntry_userId_fkey"
+    FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE INDEX "WeightEntry_userId_recordedAt_idx" ON "WeightEntry" ("userId", "recordedAt");
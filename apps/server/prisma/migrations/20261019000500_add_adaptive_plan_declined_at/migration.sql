@@ -0,0 +1,3 @@
+-- When the user last declined an adaptive calorie proposal; proposals stay hidden for a while after.
+
+ALTER TABLE "UserProfile" ADD COLUMN "adaptivePlanDeclinedAt" TIMESTAMP(3);
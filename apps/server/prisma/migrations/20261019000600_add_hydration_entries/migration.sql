@@ -0,0 +1,22 @@
+-- Drinks logged through quick-add cups. The daily target is derived from body weight, not stored.
+
+CREATE TYPE "HydrationBeverage" AS ENUM ('WATER', 'TEA', 'COFFEE', 'OTHER');
+
+CREATE TABLE "HydrationEntry" (
+  "id" SERIAL PRIMARY KEY,
+  "userId" INTEGER NOT NULL,
+  "amountMl" INTEGER NOT NULL,
+  "beverage" "HydrationBeverage" NOT NULL DEFAULT 'WATER',
+  "recordedAt" TIMESTAMP(3) NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE "HydrationEntry"
+  ADD CONSTRAINT "HydrationEntry_userId_fkey"
+    FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE INDEX "HydrationEntry_userId_recordedAt_idx" ON "HydrationEntry" ("userId", "recordedAt");
+
+ALTER TABLE "UserProfile" ADD COLUMN "hydrationCupSizesMl" INTEGER[] NOT NULL DEFAULT ARRAY[]::INTEGER[];
+
+ALTER TABLE "NotificationSettings" ADD COLUMN "hydrationReminderEnabled" BOOLEAN NOT NULL DEFAULT false;
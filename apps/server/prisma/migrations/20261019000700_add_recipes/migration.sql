@@ -0,0 +1,46 @@
+-- Batch recipes. Totals cover the whole batch; per-serving values are derived from `servings`.
+
+CREATE TABLE "Recipe" (
+  "id" SERIAL PRIMARY KEY,
+  "userId" INTEGER NOT NULL,
+  "name" TEXT NOT NULL,
+  "notes" TEXT,
+  "servings" DOUBLE PRECISION NOT NULL,
+  "yieldGrams" DOUBLE PRECISION,
+  "calories" DOUBLE PRECISION NOT NULL,
+  "proteinG" DOUBLE PRECISION NOT NULL,
+  "fatG" DOUBLE PRECISION NOT NULL,
+  "carbsG" DOUBLE PRECISION NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL
+);
+
+ALTER TABLE "Recipe"
+  ADD CONSTRAINT "Recipe_userId_fkey"
+    FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE INDEX "Recipe_userId_updatedAt_idx" ON "Recipe" ("userId", "updatedAt");
+
+CREATE TABLE "RecipeIngredient" (
+  "id" SERIAL PRIMARY KEY,
+  "recipeId" INTEGER NOT NULL,
+  "foodId" INTEGER,
+  "name" TEXT NOT NULL,
+  "grams" DOUBLE PRECISION NOT NULL,
+  "calories" DOUBLE PRECISION NOT NULL,
+  "proteinG" DOUBLE PRECISION NOT NULL,
+  "fatG" DOUBLE PRECISION NOT NULL,
+  "carbsG" DOUBLE PRECISION NOT NULL,
+  "source" TEXT NOT NULL,
+  "orderIndex" INTEGER NOT NULL DEFAULT 0
+);
+
+ALTER TABLE "RecipeIngredient"
+  ADD CONSTRAINT "RecipeIngredient_recipeId_fkey"
+    FOREIGN KEY ("recipeId") REFERENCES "Recipe"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "RecipeIngredient"
+  ADD CONSTRAINT "RecipeIngredient_foodId_fkey"
+    FOREIGN KEY ("foodId") REFERENCES "Food"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+CREATE INDEX "RecipeIngredient_recipeId_orderIndex_idx" ON "RecipeIngredient" ("recipeId", "orderIndex");
@@ -0,0 +1,43 @@
+-- Forward meal plans. Expected totals are copied in when planned so later edits to the
+-- favorite or recipe do not rewrite past plans.
+
+CREATE TYPE "PlannedMealStatus" AS ENUM ('PLANNED', 'EATEN');
+
+CREATE TABLE "PlannedMeal" (
+  "id" SERIAL PRIMARY KEY,
+  "userId" INTEGER NOT NULL,
+  "date" DATE NOT NULL,
+  "mealPeriod" "MealPeriod" NOT NULL,
+  "source" TEXT NOT NULL,
+  "favoriteMealId" INTEGER,
+  "recipeId" INTEGER,
+  "name" TEXT NOT NULL,
+  "servings" DOUBLE PRECISION NOT NULL DEFAULT 1,
+  "calories" DOUBLE PRECISION NOT NULL,
+  "proteinG" DOUBLE PRECISION NOT NULL,
+  "fatG" DOUBLE PRECISION NOT NULL,
+  "carbsG" DOUBLE PRECISION NOT NULL,
+  "status" "PlannedMealStatus" NOT NULL DEFAULT 'PLANNED',
+  "mealLogId" TEXT,
+  "eatenAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL
+);
+
+ALTER TABLE "PlannedMeal"
+  ADD CONSTRAINT "PlannedMeal_userId_fkey"
+    FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "PlannedMeal"
+  ADD CONSTRAINT "PlannedMeal_favoriteMealId_fkey"
+    FOREIGN KEY ("favoriteMealId") REFERENCES "FavoriteMeal"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "PlannedMeal"
+  ADD CONSTRAINT "PlannedMeal_recipeId_fkey"
+    FOREIGN KEY ("recipeId") REFERENCES "Recipe"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "PlannedMeal"
+  ADD CONSTRAINT "PlannedMeal_mealLogId_fkey"
+    FOREIGN KEY ("mealLogId") REFERENCES "MealLog"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+CREATE INDEX "PlannedMeal_userId_date_idx" ON "PlannedMeal" ("userId", "date");
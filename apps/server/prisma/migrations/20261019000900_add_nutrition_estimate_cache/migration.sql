@@ -0,0 +1,30 @@
+-- Shared nutrition estimates keyed by normalized meal text, image hash, locale and prompt version.
+-- Entries are not user-specific; the model version is part of the key so a chain change misses.
+
+CREATE TABLE "NutritionEstimateCache" (
+  "id" SERIAL PRIMARY KEY,
+  "cacheKey" TEXT NOT NULL,
+  "promptVersion" TEXT NOT NULL,
+  "modelVersion" TEXT NOT NULL,
+  "response" JSONB NOT NULL,
+  "hitCount" INTEGER NOT NULL DEFAULT 0,
+  "lastHitAt" TIMESTAMP(3),
+  "expiresAt" TIMESTAMP(3) NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX "NutritionEstimateCache_cacheKey_modelVersion_key"
+  ON "NutritionEstimateCache" ("cacheKey", "modelVersion");
+CREATE INDEX "NutritionEstimateCache_promptVersion_idx" ON "NutritionEstimateCache" ("promptVersion");
+CREATE INDEX "NutritionEstimateCache_expiresAt_idx" ON "NutritionEstimateCache" ("expiresAt");
+
+CREATE TABLE "EstimateCacheMetric" (
+  "id" SERIAL PRIMARY KEY,
+  "metricDate" DATE NOT NULL,
+  "promptVersion" TEXT NOT NULL,
+  "hits" INTEGER NOT NULL DEFAULT 0,
+  "misses" INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE UNIQUE INDEX "EstimateCacheMetric_metricDate_promptVersion_key"
+  ON "EstimateCacheMetric" ("metricDate", "promptVersion");
@@ -0,0 +1,4 @@
+-- Links the per-dish logs created when a multi-dish log is split.
+ALTER TABLE "MealLog" ADD COLUMN "groupId" TEXT;
+
+CREATE INDEX "MealLog_groupId_idx" ON "MealLog" ("groupId");
@@ -0,0 +1,16 @@
+-- User-defined serving sizes fed into the meal-analysis prompt.
+
+CREATE TABLE "PortionCalibration" (
+  "id" SERIAL PRIMARY KEY,
+  "userId" INTEGER NOT NULL,
+  "label" TEXT NOT NULL,
+  "grams" DOUBLE PRECISION NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE "PortionCalibration"
+  ADD CONSTRAINT "PortionCalibration_userId_fkey"
+    FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE UNIQUE INDEX "PortionCalibration_userId_label_key" ON "PortionCalibration" ("userId", "label");
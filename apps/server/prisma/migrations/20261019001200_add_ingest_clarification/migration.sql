@@ -0,0 +1,3 @@
+-- Draft analysis and follow-up questions kept while an ingest request waits in `needs_clarification`.
+
+ALTER TABLE "IngestRequest" ADD COLUMN "clarification" JSONB;
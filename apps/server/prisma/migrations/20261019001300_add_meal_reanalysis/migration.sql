@@ -0,0 +1,44 @@
+-- Re-analysis runs over historical logs and the estimates they produced.
+
+CREATE TABLE "MealReanalysisJob" (
+  "id" SERIAL PRIMARY KEY,
+  "status" TEXT NOT NULL DEFAULT 'running',
+  "filters" JSONB NOT NULL,
+  "promptVersion" TEXT NOT NULL,
+  "cursor" TEXT,
+  "processed" INTEGER NOT NULL DEFAULT 0,
+  "applied" INTEGER NOT NULL DEFAULT 0,
+  "proposed" INTEGER NOT NULL DEFAULT 0,
+  "unchanged" INTEGER NOT NULL DEFAULT 0,
+  "skipped" INTEGER NOT NULL DEFAULT 0,
+  "failed" INTEGER NOT NULL DEFAULT 0,
+  "lastError" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "finishedAt" TIMESTAMP(3)
+);
+
+CREATE TABLE "MealLogReanalysis" (
+  "id" SERIAL PRIMARY KEY,
+  "jobId" INTEGER,
+  "mealLogId" TEXT NOT NULL,
+  "status" TEXT NOT NULL,
+  "promptVersion" TEXT NOT NULL,
+  "modelVersion" TEXT,
+  "previous" JSONB NOT NULL,
+  "response" JSONB,
+  "error" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "resolvedAt" TIMESTAMP(3)
+);
+
+ALTER TABLE "MealLogReanalysis"
+  ADD CONSTRAINT "MealLogReanalysis_jobId_fkey"
+    FOREIGN KEY ("jobId") REFERENCES "MealReanalysisJob"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "MealLogReanalysis"
+  ADD CONSTRAINT "MealLogReanalysis_mealLogId_fkey"
+    FOREIGN KEY ("mealLogId") REFERENCES "MealLog"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE UNIQUE INDEX "MealLogReanalysis_jobId_mealLogId_key" ON "MealLogReanalysis" ("jobId", "mealLogId");
+CREATE INDEX "MealLogReanalysis_mealLogId_status_idx" ON "MealLogReanalysis" ("mealLogId", "status");
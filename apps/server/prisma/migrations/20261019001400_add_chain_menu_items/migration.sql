@@ -0,0 +1,38 @@
+-- Published nutrition of chain restaurant menus, matched against meal messages before analysis.
+
+CREATE TABLE "ChainMenuItem" (
+  "id" SERIAL PRIMARY KEY,
+  "source" TEXT NOT NULL,
+  "sourceCode" TEXT NOT NULL,
+  "locale" TEXT NOT NULL,
+  "chain" TEXT NOT NULL,
+  "chainKeys" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  "name" TEXT NOT NULL,
+  "sizeLabel" TEXT,
+  "kcal" DOUBLE PRECISION NOT NULL,
+  "proteinG" DOUBLE PRECISION NOT NULL,
+  "fatG" DOUBLE PRECISION NOT NULL,
+  "carbsG" DOUBLE PRECISION NOT NULL,
+  "saltG" DOUBLE PRECISION,
+  "servingGrams" DOUBLE PRECISION,
+  "sourceUrl" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE "ChainMenuItemName" (
+  "id" SERIAL PRIMARY KEY,
+  "itemId" INTEGER NOT NULL,
+  "name" TEXT NOT NULL,
+  "normalized" TEXT NOT NULL,
+  "isAlias" BOOLEAN NOT NULL DEFAULT false
+);
+
+ALTER TABLE "ChainMenuItemName"
+  ADD CONSTRAINT "ChainMenuItemName_itemId_fkey"
+    FOREIGN KEY ("itemId") REFERENCES "ChainMenuItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE UNIQUE INDEX "ChainMenuItem_source_sourceCode_key" ON "ChainMenuItem" ("source", "sourceCode");
+CREATE INDEX "ChainMenuItem_chain_idx" ON "ChainMenuItem" ("chain");
+CREATE UNIQUE INDEX "ChainMenuItemName_itemId_name_key" ON "ChainMenuItemName" ("itemId", "name");
+CREATE INDEX "ChainMenuItemName_normalized_idx" ON "ChainMenuItemName" ("normalized");
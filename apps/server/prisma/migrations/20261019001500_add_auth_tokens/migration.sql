@@ -0,0 +1,19 @@
+-- Single-use password reset / email verification tokens, and the session owner so a password change can sign out every device.
+
+ALTER TABLE "User" ADD COLUMN "emailVerifiedAt" TIMESTAMP(3);
+
+ALTER TABLE "Session" ADD COLUMN "userId" INTEGER;
+CREATE INDEX "Session_userId_idx" ON "Session"("userId");
+
+CREATE TABLE "AuthToken" (
+  "id" SERIAL PRIMARY KEY,
+  "userId" INTEGER NOT NULL REFERENCES "User"("id") ON DELETE CASCADE,
+  "purpose" TEXT NOT NULL,
+  "tokenHash" TEXT NOT NULL,
+  "expiresAt" TIMESTAMP(3) NOT NULL,
+  "usedAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX "AuthToken_tokenHash_key" ON "AuthToken"("tokenHash");
+CREATE INDEX "AuthToken_userId_purpose_idx" ON "AuthToken"("userId", "purpose");
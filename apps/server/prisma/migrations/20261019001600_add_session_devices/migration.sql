@@ -0,0 +1,9 @@
+-- Device details for the session list; edge-issued JWTs get a row of kind 'token' so they can be revoked too.
+
+ALTER TABLE "Session" ADD COLUMN "kind" TEXT NOT NULL DEFAULT 'cookie';
+ALTER TABLE "Session" ADD COLUMN "deviceName" TEXT;
+ALTER TABLE "Session" ADD COLUMN "platform" TEXT;
+ALTER TABLE "Session" ADD COLUMN "userAgent" TEXT;
+ALTER TABLE "Session" ADD COLUMN "ipAddress" TEXT;
+ALTER TABLE "Session" ADD COLUMN "region" TEXT;
+ALTER TABLE "Session" ADD COLUMN "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
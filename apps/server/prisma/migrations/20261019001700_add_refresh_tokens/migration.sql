@@ -0,0 +1,13 @@
+-- Rotating refresh tokens for edge JWT sessions; the session row is the token family, so deleting it revokes every token in the chain.
+
+CREATE TABLE "RefreshToken" (
+  "id" SERIAL PRIMARY KEY,
+  "sessionId" TEXT NOT NULL REFERENCES "Session"("sid") ON DELETE CASCADE,
+  "tokenHash" TEXT NOT NULL,
+  "expiresAt" TIMESTAMP(3) NOT NULL,
+  "usedAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX "RefreshToken_tokenHash_key" ON "RefreshToken"("tokenHash");
+CREATE INDEX "RefreshToken_sessionId_idx" ON "RefreshToken"("sessionId");
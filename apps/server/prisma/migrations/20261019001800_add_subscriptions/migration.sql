@@ -0,0 +1,47 @@
+-- Subscription lifecycle keyed by the store's original transaction id. PremiumGrant rows stay the
+-- per-transaction ledger; the Subscription row decides whether access continues (grace period,
+-- billing retry, refunds). Signed App Store notifications are kept so that state can be replayed.
+
+CREATE TYPE "SubscriptionStatus" AS ENUM ('ACTIVE', 'GRACE_PERIOD', 'BILLING_RETRY', 'EXPIRED', 'REVOKED', 'REFUNDED');
+
+CREATE TABLE "Subscription" (
+  "id" SERIAL PRIMARY KEY,
+  "userId" INTEGER NOT NULL,
+  "platform" "IapPlatform" NOT NULL,
+  "originalTransactionId" TEXT NOT NULL,
+  "productId" TEXT NOT NULL,
+  "pendingProductId" TEXT,
+  "status" "SubscriptionStatus" NOT NULL,
+  "autoRenew" BOOLEAN NOT NULL DEFAULT true,
+  "expiresAt" TIMESTAMP(3),
+  "gracePeriodExpiresAt" TIMESTAMP(3),
+  "revokedAt" TIMESTAMP(3),
+  "lastEventAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL
+);
+
+ALTER TABLE "Subscription"
+  ADD CONSTRAINT "Subscription_userId_fkey"
+    FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE UNIQUE INDEX "Subscription_originalTransactionId_key" ON "Subscription" ("originalTransactionId");
+CREATE INDEX "Subscription_userId_idx" ON "Subscription" ("userId");
+
+CREATE TABLE "AppStoreNotification" (
+  "id" SERIAL PRIMARY KEY,
+  "notificationUuid" TEXT NOT NULL,
+  "notificationType" TEXT NOT NULL,
+  "subtype" TEXT,
+  "originalTransactionId" TEXT,
+  "signedPayload" TEXT NOT NULL,
+  "signedDate" TIMESTAMP(3) NOT NULL,
+  "processedAt" TIMESTAMP(3),
+  "result" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX "AppStoreNotification_notificationUuid_key" ON "AppStoreNotification" ("notificationUuid");
+CREATE INDEX "AppStoreNotification_originalTransactionId_signedDate_idx"
+  ON "AppStoreNotification" ("originalTransactionId", "signedDate");
+CREATE INDEX "AppStoreNotification_signedDate_idx" ON "AppStoreNotification" ("signedDate");
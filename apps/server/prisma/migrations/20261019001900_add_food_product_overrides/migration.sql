@@ -0,0 +1,25 @@
+-- A user's correction of a barcode product that is already in the shared FoodProduct table.
+-- Shared rows are only ever created from a client payload, never rewritten by it.
+
+CREATE TABLE "FoodProductOverride" (
+  "id" SERIAL PRIMARY KEY,
+  "userId" INTEGER NOT NULL,
+  "barcode" TEXT NOT NULL,
+  "name" TEXT NOT NULL,
+  "brand" TEXT,
+  "locale" TEXT NOT NULL,
+  "kcalPer100g" DOUBLE PRECISION NOT NULL,
+  "proteinPer100g" DOUBLE PRECISION NOT NULL,
+  "fatPer100g" DOUBLE PRECISION NOT NULL,
+  "carbsPer100g" DOUBLE PRECISION NOT NULL,
+  "servingGrams" DOUBLE PRECISION NOT NULL,
+  "servingLabel" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE "FoodProductOverride"
+  ADD CONSTRAINT "FoodProductOverride_userId_fkey"
+    FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE UNIQUE INDEX "FoodProductOverride_userId_barcode_key" ON "FoodProductOverride" ("userId", "barcode");
@@ -0,0 +1,12 @@
+-- Rows created lazily on read could be written twice by concurrent readers. Drop the later copy of
+-- each position, then enforce one row per position so such writers skip instead of duplicating.
+
+DELETE FROM "MealLogItem" AS duplicate
+USING "MealLogItem" AS original
+WHERE duplicate."mealLogId" = original."mealLogId"
+  AND duplicate."orderIndex" = original."orderIndex"
+  AND duplicate."id" > original."id";
+
+DROP INDEX "MealLogItem_mealLogId_orderIndex_idx";
+
+CREATE UNIQUE INDEX "MealLogItem_mealLogId_orderIndex_key" ON "MealLogItem" ("mealLogId", "orderIndex");
@@ -0,0 +1,62 @@
+import {
+  getEstimateCacheStats,
+  invalidateEstimateCache,
+  pruneExpiredEstimates,
+} from '../src/services/estimate-cache-service.js';
+import { MEAL_ANALYSIS_PROMPT_VERSION } from '../src/services/gemini-service.js';
+import { prisma } from '../src/db/prisma.js';
+
+const USAGE = 'Usage: estimate-cache <stats [--days=7] | invalidate [--prompt-version=v1] | prune>';
+
+async function main() {
+  const [, , command, ...args] = process.argv;
+  const option = (name: string) =>
+    args
+      .find((arg) => arg.startsWith(`--${name}=`))
+      ?.replace(`--${name}=`, '')
+      .trim();
+
+  if (command === 'stats') {
+    const days = Number(option('days') ?? 7);
+    if (!Number.isInteger(days) || days <= 0) {
+      throw new Error('--days must be a positive integer');
+    }
+    const rows = await getEstimateCacheStats(days);
+    console.log(`[estimate-cache] current prompt version: ${MEAL_ANALYSIS_PROMPT_VERSION}`);
+    if (rows.length === 0) {
+      console.log('[estimate-cache] no lookups recorded');
+    }
+    for (const row of rows) {
+      console.log(
+        `[estimate-cache] ${row.date} ${row.promptVersion}: hits=${row.hits} misses=${row.misses} hit_rate=${row.hitRate}`,
+      );
+    }
+    return;
+  }
+
+  if (command === 'invalidate') {
+    const promptVersion = option('prompt-version');
+    const deleted = await invalidateEstimateCache({ promptVersion });
+    console.log(
+      `[estimate-cache] invalidated ${deleted} entries (${promptVersion ? `prompt_version=${promptVersion}` : `all but ${MEAL_ANALYSIS_PROMPT_VERSION}`})`,
+    );
+    return;
+  }
+
+  if (command === 'prune') {
+    const deleted = await pruneExpiredEstimates();
+    console.log(`[estimate-cache] pruned ${deleted} expired entries`);
+    return;
+  }
+
+  throw new Error(USAGE);
+}
+
+main()
+  .catch((error) => {
+    console.error('[estimate-cache] failed', error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,70 @@
+import { readFile } from 'node:fs/promises';
+import { LocaleSchema } from '@meal-log/shared';
+import { parseChainMenuCsv } from '../src/services/chain-menu-import.js';
+import { importChainMenuItems } from '../src/services/chain-menu-service.js';
+import { prisma } from '../src/db/prisma.js';
+
+interface CliOptions {
+  file: string;
+  source: string;
+  locale: string;
+  dryRun: boolean;
+}
+
+function parseCliArgs(): CliOptions {
+  const [, , file, ...args] = process.argv;
+  if (!file) {
+    throw new Error(
+      'Usage: import-chain-menus <file.csv> [--source=yoshinoya-2026] [--locale=ja-JP] [--dry-run]',
+    );
+  }
+
+  const options: CliOptions = {
+    file,
+    source: 'custom',
+    locale: 'ja-JP',
+    dryRun: false,
+  };
+  for (const arg of args) {
+    if (arg.startsWith('--source=')) {
+      options.source = arg.replace('--source=', '').trim();
+    } else if (arg.startsWith('--locale=')) {
+      options.locale = arg.replace('--locale=', '').trim();
+    } else if (arg === '--dry-run') {
+      options.dryRun = true;
+    }
+  }
+  return options;
+}
+
+async function main() {
+  const options = parseCliArgs();
+  const locale = LocaleSchema.parse(options.locale);
+  const text = await readFile(options.file, 'utf8');
+  const { rows, skipped } = parseChainMenuCsv(text, { source: options.source, locale });
+
+  for (const entry of skipped) {
+    console.warn(`[import-chain-menus] skipped line ${entry.line}: ${entry.reason}`);
+  }
+
+  if (options.dryRun) {
+    console.log(
+      `[import-chain-menus] dry run: ${rows.length} rows parsed, ${skipped.length} skipped`,
+    );
+    return;
+  }
+
+  const result = await importChainMenuItems(rows);
+  console.log(
+    `[import-chain-menus] done (source=${options.source}, created=${result.created}, updated=${result.updated}, skipped=${skipped.length})`,
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error('[import-chain-menus] failed', error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,84 @@
+import { readFile } from 'node:fs/promises';
+import { LocaleSchema } from '@meal-log/shared';
+import {
+  FOOD_CSV_PRESETS,
+  parseFoodCsv,
+  type FoodCsvPresetName,
+} from '../src/services/food-import.js';
+import { importFoods } from '../src/services/food-catalogue-service.js';
+import { prisma } from '../src/db/prisma.js';
+
+interface CliOptions {
+  file: string;
+  source: string;
+  preset: FoodCsvPresetName;
+  locale: string;
+  dryRun: boolean;
+}
+
+function parseCliArgs(): CliOptions {
+  const [, , file, ...args] = process.argv;
+  if (!file) {
+    throw new Error(
+      'Usage: import-foods <file.csv> [--source=mext] [--preset=generic|mext] [--locale=ja-JP] [--dry-run]',
+    );
+  }
+
+  const options: CliOptions = {
+    file,
+    source: 'custom',
+    preset: 'generic',
+    locale: 'ja-JP',
+    dryRun: false,
+  };
+  for (const arg of args) {
+    if (arg.startsWith('--source=')) {
+      options.source = arg.replace('--source=', '').trim();
+    } else if (arg.startsWith('--preset=')) {
+      const preset = arg.replace('--preset=', '').trim();
+      if (!(preset in FOOD_CSV_PRESETS)) {
+        throw new Error(`Unknown preset: ${preset}`);
+      }
+      options.preset = preset as FoodCsvPresetName;
+    } else if (arg.startsWith('--locale=')) {
+      options.locale = arg.replace('--locale=', '').trim();
+    } else if (arg === '--dry-run') {
+      options.dryRun = true;
+    }
+  }
+  return options;
+}
+
+async function main() {
+  const options = parseCliArgs();
+  const locale = LocaleSchema.parse(options.locale);
+  const text = await readFile(options.file, 'utf8');
+  const { rows, skipped } = parseFoodCsv(text, {
+    source: options.source,
+    locale,
+    preset: options.preset,
+  });
+
+  for (const entry of skipped) {
+    console.warn(`[import-foods] skipped line ${entry.line}: ${entry.reason}`);
+  }
+
+  if (options.dryRun) {
+    console.log(`[import-foods] dry run: ${rows.length} rows parsed, ${skipped.length} skipped`);
+    return;
+  }
+
+  const result = await importFoods(rows);
+  console.log(
+    `[import-foods] done (source=${options.source}, created=${result.created}, updated=${result.updated}, skipped=${skipped.length})`,
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error('[import-foods] failed', error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
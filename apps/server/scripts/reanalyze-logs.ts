@@ -0,0 +1,97 @@
+import {
+  DEFAULT_REANALYSIS_RATE_PER_MINUTE,
+  createMealReanalysisJob,
+  getMealReanalysisJob,
+  runMealReanalysisJob,
+} from '../src/services/meal-reanalysis-service.js';
+import { MEAL_ANALYSIS_PROMPT_VERSION } from '../src/services/gemini-service.js';
+import { prisma } from '../src/db/prisma.js';
+
+const USAGE =
+  'Usage: reanalyze-logs <start [--user=ID] [--from=YYYY-MM-DD] [--to=YYYY-MM-DD] [--prompt-version=v1] | resume --job=ID | status --job=ID> [--rate=20] [--limit=N]';
+
+function formatJob(job: NonNullable<Awaited<ReturnType<typeof getMealReanalysisJob>>>) {
+  return [
+    `job=${job.id}`,
+    `status=${job.status}`,
+    `prompt=${job.promptVersion}`,
+    `processed=${job.processed}`,
+    `applied=${job.applied}`,
+    `proposed=${job.proposed}`,
+    `unchanged=${job.unchanged}`,
+    `skipped=${job.skipped}`,
+    `failed=${job.failed}`,
+    job.lastError ? `last_error=${JSON.stringify(job.lastError)}` : null,
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
+
+async function main() {
+  const [, , command, ...args] = process.argv;
+  const option = (name: string) =>
+    args
+      .find((arg) => arg.startsWith(`--${name}=`))
+      ?.replace(`--${name}=`, '')
+      .trim();
+  const positiveInt = (name: string) => {
+    const raw = option(name);
+    if (raw === undefined) {
+      return undefined;
+    }
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value <= 0) {
+      throw new Error(`--${name} must be a positive integer`);
+    }
+    return value;
+  };
+
+  const runOptions = {
+    ratePerMinute: positiveInt('rate') ?? DEFAULT_REANALYSIS_RATE_PER_MINUTE,
+    limit: positiveInt('limit'),
+  };
+
+  if (command === 'start') {
+    const job = await createMealReanalysisJob({
+      userId: positiveInt('user'),
+      from: option('from'),
+      to: option('to'),
+      promptVersion: option('prompt-version'),
+    });
+    console.log(`[reanalyze] created job ${job.id} for prompt ${MEAL_ANALYSIS_PROMPT_VERSION} (${runOptions.ratePerMinute}/min)`);
+    const finished = await runMealReanalysisJob(job.id, runOptions);
+    console.log(`[reanalyze] ${formatJob(finished)}`);
+    return;
+  }
+
+  if (command === 'resume') {
+    const jobId = positiveInt('job');
+    if (!jobId) {
+      throw new Error(USAGE);
+    }
+    const finished = await runMealReanalysisJob(jobId, runOptions);
+    console.log(`[reanalyze] ${formatJob(finished)}`);
+    return;
+  }
+
+  if (command === 'status') {
+    const jobId = positiveInt('job');
+    const job = jobId ? await getMealReanalysisJob(jobId) : null;
+    if (!job) {
+      throw new Error(jobId ? `job ${jobId} not found` : USAGE);
+    }
+    console.log(`[reanalyze] ${formatJob(job)}`);
+    return;
+  }
+
+  throw new Error(USAGE);
+}
+
+main()
+  .catch((error) => {
+    console.error('[reanalyze] failed', error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,65 @@
+import { IapPlatform } from '@prisma/client';
+import { replayAppStoreNotifications } from '../src/services/iap-notification-service.js';
+import { prisma } from '../src/db/prisma.js';
+
+const USAGE =
+  'Usage: replay-iap-notifications [--original-transaction-id=ID[,ID...]] [--user=ID] (no filter replays every App Store subscription with stored notifications)';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const option = (name: string) =>
+    args
+      .find((arg) => arg.startsWith(`--${name}=`))
+      ?.replace(`--${name}=`, '')
+      .trim();
+
+  const unknown = args.filter((arg) => !/^--(original-transaction-id|user)=/.test(arg));
+  if (unknown.length > 0) {
+    throw new Error(USAGE);
+  }
+
+  let originalTransactionIds = option('original-transaction-id')
+    ?.split(',')
+    .map((value) => value.trim())
+    .filter(Boolean);
+
+  const rawUserId = option('user');
+  if (rawUserId !== undefined) {
+    const userId = Number(rawUserId);
+    if (!Number.isInteger(userId) || userId <= 0) {
+      throw new Error('--user must be a positive integer');
+    }
+    const receipts = await prisma.iapReceipt.findMany({
+      where: { userId, platform: IapPlatform.APP_STORE, originalTransactionId: { not: null } },
+      select: { originalTransactionId: true },
+      distinct: ['originalTransactionId'],
+    });
+    const owned = receipts.map((receipt) => receipt.originalTransactionId!);
+    originalTransactionIds = [...(originalTransactionIds ?? []), ...owned];
+    if (originalTransactionIds.length === 0) {
+      console.log(`[iap-replay] user ${userId} has no App Store subscriptions`);
+      return;
+    }
+  }
+
+  const scope = originalTransactionIds
+    ? `${originalTransactionIds.length} subscription(s)`
+    : 'all App Store subscriptions';
+  console.log(`[iap-replay] replaying stored notifications for ${scope}`);
+  const summary = await replayAppStoreNotifications({ originalTransactionIds });
+  console.log(
+    `[iap-replay] processed=${summary.processed} handled=${summary.handled} ignored=${summary.ignored} failed=${summary.failed}`,
+  );
+  if (summary.failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('[iap-replay] failed', error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -11,6 +11,11 @@ import { foodsRouter } from './routes/foods.js';
 import { dashboardRouter } from './routes/dashboard.js';
 import { streakRouter } from './routes/streak.js';
 import { favoritesRouter } from './routes/favorites.js';
+import { recipesRouter } from './routes/recipes.js';
+import { plannedMealsRouter } from './routes/planned-meals.js';
+import { weightsRouter } from './routes/weights.js';
+import { hydrationRouter } from './routes/hydration.js';
+import { portionCalibrationsRouter } from './routes/portion-calibrations.js';
 import { profileRouter } from './routes/profile.js';
 import { accountRouter } from './routes/account.js';
 import { errorHandler } from './middleware/error-handler.js';
@@ -18,6 +23,7 @@ import { iapRouter } from './routes/iap.js';
 import referralRouter from './routes/referral.js';
 import { notificationsRouter } from './routes/notifications.js';
 import { onboardingRouter } from './routes/onboarding.js';
+import { streamRouter } from './routes/stream.js';
 import { prisma } from './db/prisma.js';
 import { PrismaSessionStore } from './db/prisma-session-store.js';
 import { debugRouter } from './routes/debug.js';
@@ -84,9 +90,15 @@ export function createApp() {
   app.use('/api', dashboardRouter);
   app.use('/api', streakRouter);
   app.use('/api', favoritesRouter);
+  app.use('/api', recipesRouter);
+  app.use('/api', plannedMealsRouter);
+  app.use('/api', weightsRouter);
+  app.use('/api', hydrationRouter);
+  app.use('/api', portionCalibrationsRouter);
   app.use('/api', profileRouter);
   app.use('/api/user', accountRouter);
   app.use('/api', iapRouter);
+  app.use('/api', streamRouter);
   app.use('/api/referral', referralRouter);
   app.use('/api/notifications', notificationsRouter);
   if (env.NODE_ENV !== 'production') {
@@ -1,3 +1,5 @@
+import { parseMicronutrientKeys } from '@meal-log/shared';
+
 export const DASHBOARD_TIMEZONE = process.env.DASHBOARD_TIMEZONE ?? 'Asia/Tokyo';
 
 // Default daily targets. Will be user-specific in the future.
@@ -8,4 +10,7 @@ export const DASHBOARD_TARGETS = {
   carbs_g: { unit: 'g', value: 260, decimals: 1 },
 };
 
+// Vitamins / minerals shown next to fiber, sugar, saturated fat and salt (comma-separated keys).
+export const DASHBOARD_MICRONUTRIENTS = parseMicronutrientKeys(process.env.DASHBOARD_MICRONUTRIENTS);
+
 export const DASHBOARD_CACHE_TTL_MS = 1000 * 60 * 60; // 1 hour
@@ -15,6 +15,19 @@ function computeExpiration(sess: session.SessionData, fallbackTtl: number) {
   return new Date(Date.now() + fallbackTtl);
 }
 
+/** Columns behind the session list; the device details are set once at sign-in. */
+function sessionColumns(sess: session.SessionData) {
+  return {
+    userId: sess.userId ?? null,
+    deviceName: sess.client?.deviceName ?? null,
+    platform: sess.client?.platform ?? null,
+    userAgent: sess.client?.userAgent ?? null,
+    ipAddress: sess.client?.ipAddress ?? null,
+    region: sess.client?.region ?? null,
+    lastSeenAt: new Date(),
+  };
+}
+
 export class PrismaSessionStore extends session.Store {
   private readonly ttlMs: number;
 
@@ -55,11 +68,13 @@ export class PrismaSessionStore extends session.Store {
       await this.prisma.session.upsert({
         where: { sid },
         update: {
+          ...sessionColumns(sess),
           data: JSON.stringify(sess),
           expiresAt,
         },
         create: {
           sid,
+          ...sessionColumns(sess),
           data: JSON.stringify(sess),
           expiresAt,
         },
@@ -88,7 +103,7 @@ export class PrismaSessionStore extends session.Store {
       const expiresAt = computeExpiration(sess, this.ttlMs);
       await this.prisma.session.updateMany({
         where: { sid },
-        data: { expiresAt },
+        data: { expiresAt, lastSeenAt: new Date() },
       });
       callback?.();
     } catch (error) {
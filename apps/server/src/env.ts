@@ -1,6 +1,6 @@
 import { config } from 'dotenv';
 import { z } from 'zod';
-import { AiTimeoutConfigSchema } from '@meal-log/shared';
+import { AiTimeoutConfigSchema, SPEECH_TO_TEXT_PROVIDER_NAMES } from '@meal-log/shared';
 
 config({ path: process.env.NODE_ENV === 'test' ? '.env.test' : '.env.local' });
 config();
@@ -17,10 +17,25 @@ const BaseEnvSchema = z.object({
     .transform((val) => val === 'true')
     .optional(),
   AI_TRANSLATION_STRATEGY: z.enum(['ai', 'copy', 'none']).default('ai').optional(),
+  AI_PROVIDER_CHAIN: z.string().optional(),
+  OPENAI_COMPATIBLE_BASE_URL: z.string().url().optional(),
+  OPENAI_COMPATIBLE_API_KEY: z.string().optional(),
+  OPENAI_COMPATIBLE_MODEL: z.string().default('gpt-4o-mini'),
+  LOCAL_AI_BASE_URL: z.string().url().default('http://localhost:11434'),
+  LOCAL_AI_MODEL: z.string().default('llama3.2-vision'),
+  SPEECH_TO_TEXT_PROVIDER: z.enum(SPEECH_TO_TEXT_PROVIDER_NAMES).optional(),
+  SPEECH_TO_TEXT_MODEL: z.string().optional(),
+  NUTRITION_ESTIMATE_CACHE: z
+    .enum(['true', 'false'])
+    .default('true')
+    .transform((value) => value === 'true'),
   TRUST_PROXY: z.string().optional(),
   APP_STORE_SHARED_SECRET: z.string().optional(),
   APP_STORE_BUNDLE_ID: z.string().optional(),
   GOOGLE_PLAY_SERVICE_ACCOUNT: z.string().optional(),
+  GOOGLE_PLAY_PACKAGE_NAME: z.string().optional(),
+  GOOGLE_PLAY_API_BASE_URL: z.string().url().default('https://androidpublisher.googleapis.com'),
+  GOOGLE_PLAY_RTDN_TOKEN: z.string().optional(),
   IAP_TEST_MODE: z
     .enum(['true', 'false'])
     .default('false')
@@ -30,6 +45,18 @@ const BaseEnvSchema = z.object({
     .enum(['true', 'false'])
     .default('false')
     .transform((value) => value === 'true'),
+  MAIL_TRANSPORT: z.enum(['smtp', 'file', 'console']).optional(),
+  MAIL_FROM: z.string().default('Meal Log <no-reply@meal-log.app>'),
+  MAIL_FILE_DIR: z.string().default('tmp/mail'),
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.coerce.number().default(587),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASSWORD: z.string().optional(),
+  SMTP_SECURE: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform((value) => value === 'true'),
+  AUTH_LINK_BASE_URL: z.string().default('meallog://'),
 });
 
 const TimeoutEnvSchema = AiTimeoutConfigSchema.partial();
@@ -46,6 +73,9 @@ if (env.NODE_ENV === 'production' && env.IAP_TEST_MODE) {
 if (env.NODE_ENV === 'production' && env.IAP_OFFLINE_VERIFICATION) {
   throw new Error('IAP_OFFLINE_VERIFICATION cannot be enabled in production');
 }
+if (env.NODE_ENV === 'production' && env.MAIL_TRANSPORT && env.MAIL_TRANSPORT !== 'smtp') {
+  throw new Error('MAIL_TRANSPORT must be smtp in production; other transports expose reset links');
+}
 
 export const timeoutConfig = AiTimeoutConfigSchema.parse({
   AI_ATTEMPT_TIMEOUT_MS: env.AI_ATTEMPT_TIMEOUT_MS,
@@ -1,11 +1,13 @@
 import { DateTime } from 'luxon';
 import { MealPeriod, Prisma } from '@prisma/client';
+import { isBehindHydrationPace } from '@meal-log/shared';
 import { prisma } from '../db/prisma.js';
 import { logger } from '../logger.js';
 import { normalizeTimezone } from '../utils/timezone.js';
 import { evaluateAiUsage } from '../services/ai-usage-service.js';
 import { isPremium } from '../services/premium-service.js';
 import { getUserStreak } from '../services/streak-service.js';
+import { getTodayHydration } from '../services/hydration-service.js';
 
 const DISPATCH_INTERVAL_MIN = 15;
 const MAX_USERS_PER_RUN = 500;
@@ -20,6 +22,7 @@ const STREAK_ACHIEVEMENT_WINDOW_HOURS = 36;
 
 const NOTIFICATION_TYPES = {
   MEAL_REMINDER: 'reminder.meal',
+  HYDRATION_REMINDER: 'reminder.hydration',
   PREMIUM_EXPIRING: 'important.premium-expiring',
   AI_USAGE_LOW: 'important.ai-usage-low',
   LOG_RETENTION: 'important.log-retention',
@@ -68,7 +71,7 @@ export async function dispatchNotifications(referenceDate: Date = new Date()) {
     where: {
       notificationSettings: {
         is: {
-          OR: [{ reminderEnabled: true }, { importantEnabled: true }],
+          OR: [{ reminderEnabled: true }, { importantEnabled: true }, { hydrationReminderEnabled: true }],
         },
       },
       pushDevices: {
@@ -131,6 +134,13 @@ export async function dispatchNotifications(referenceDate: Date = new Date()) {
       }
     }
 
+    if (settings.hydrationReminderEnabled) {
+      const hydrationCandidate = await buildHydrationReminderCandidate(user.id, timezone, now, localeKey);
+      if (hydrationCandidate) {
+        candidates.push(hydrationCandidate);
+      }
+    }
+
     const chosen = candidates
       .filter((candidate) => (inQuietHours ? candidate.allowDuringQuietHours : true))
       .sort((a, b) => b.priority - a.priority)[0];
@@ -228,6 +238,38 @@ async function buildMealReminderCandidate(
   return null;
 }
 
+async function buildHydrationReminderCandidate(
+  userId: number,
+  timezone: string,
+  now: DateTime,
+  localeKey: 'ja' | 'en',
+) {
+  const { today_ml: totalMl, target_ml: targetMl } = await getTodayHydration(userId, timezone);
+  if (!isBehindHydrationPace({ totalMl, targetMl, minutes: now.hour * 60 + now.minute })) {
+    return null;
+  }
+
+  const remaining = targetMl - totalMl;
+  const copy =
+    localeKey === 'ja'
+      ? {
+          title: '水分補給の時間です',
+          body: `今日はここまで${totalMl}ml。目標まであと${remaining}mlです。`,
+        }
+      : {
+          title: 'Time for a drink',
+          body: `${totalMl} ml so far today, ${remaining} ml to your goal.`,
+        };
+
+  return {
+    type: NOTIFICATION_TYPES.HYDRATION_REMINDER,
+    title: copy.title,
+    body: copy.body,
+    data: { path: '/(tabs)/dashboard' },
+    priority: 5,
+  } satisfies NotificationCandidate;
+}
+
 async function buildImportantCandidate(
   userId: number,
   timezone: string,
@@ -23,6 +23,7 @@ accountRouter.get('/premium-status', requireAuth, async (req, res, next) => {
       source: status.source,
       daysRemaining: status.daysRemaining,
       expiresAt: status.expiresAt?.toISOString() ?? null,
+      subscriptionStatus: status.subscriptionStatus,
       grants: grants.map((grant) => ({
         source: grant.source,
         days: grant.days,
@@ -4,16 +4,38 @@ import {
   RegisterRequestSchema,
   LoginRequestSchema,
   AppleAuthRequestSchema,
+  DeviceSessionListResponseSchema,
+  EmailVerifyRequestSchema,
+  PasswordForgotRequestSchema,
+  PasswordResetRequestSchema,
 } from '@meal-log/shared';
 import type { UserProfile as PrismaUserProfile } from '@prisma/client';
-import { authenticateUser, findUserById, registerUser, upsertAppleUser, linkAppleAccount } from '../services/auth-service.js';
+import {
+  authenticateUser,
+  findUserById,
+  registerUser,
+  upsertAppleUser,
+  linkAppleAccount,
+  requestEmailVerification,
+  requestPasswordReset,
+  resetPassword,
+  verifyEmail,
+} from '../services/auth-service.js';
 import { evaluateAiUsage, summarizeUsageStatus } from '../services/ai-usage-service.js';
+import {
+  listUserSessions,
+  revokeUserSession,
+  revokeUserSessions,
+} from '../services/session-service.js';
 import { ZodError, ZodIssue } from 'zod';
 import { prisma } from '../db/prisma.js';
 import { logger } from '../logger.js';
 import { authRateLimiter } from '../middleware/rate-limits.js';
+import { requireAuth } from '../middleware/require-auth.js';
 import { createRemoteJWKSet, jwtVerify } from 'jose';
 import { env } from '../env.js';
+import { resolveRequestLocale } from '../utils/request-locale.js';
+import { getSessionClientInfo } from '../utils/client-info.js';
 
 export const authRouter = Router();
 const appleAudience = (env.APPLE_SERVICE_ID ?? '')
@@ -51,9 +73,10 @@ async function verifyAppleIdentityToken(identityToken: string) {
 authRouter.post('/register', authRateLimiter, async (req, res, next) => {
   try {
     const body = RegisterRequestSchema.parse(req.body);
-    const user = await registerUser(body);
+    const user = await registerUser(body, resolveRequestLocale(req));
     await regenerateSession(req);
     req.session.userId = user.id;
+    req.session.client = getSessionClientInfo(req);
     req.session.aiCredits = user.aiCredits;
     const usageStatus = await evaluateAiUsage(user.id);
     const usage = summarizeUsageStatus(usageStatus);
@@ -83,6 +106,7 @@ authRouter.post('/login', authRateLimiter, async (req, res, next) => {
     const user = await authenticateUser(body);
     await regenerateSession(req);
     req.session.userId = user.id;
+    req.session.client = getSessionClientInfo(req);
     req.session.aiCredits = user.aiCredits;
     const usageStatus = await evaluateAiUsage(user.id);
     const usage = summarizeUsageStatus(usageStatus);
@@ -115,6 +139,7 @@ authRouter.post('/login/apple', authRateLimiter, async (req, res, next) => {
     const user = await upsertAppleUser({ sub: verified.sub, email });
     await regenerateSession(req);
     req.session.userId = user.id;
+    req.session.client = getSessionClientInfo(req);
     req.session.aiCredits = user.aiCredits;
     const usageStatus = await evaluateAiUsage(user.id);
     const usage = summarizeUsageStatus(usageStatus);
@@ -171,6 +196,109 @@ authRouter.post('/link/apple', authRateLimiter, async (req, res, next) => {
   }
 });
 
+authRouter.post('/auth/password/forgot', authRateLimiter, async (req, res, next) => {
+  try {
+    const body = PasswordForgotRequestSchema.parse(req.body);
+    await requestPasswordReset(body.email, resolveRequestLocale(req));
+    // Same answer whether or not the address has an account.
+    res.status(StatusCodes.OK).json({
+      message: '登録されているメールアドレスの場合、パスワード再設定用のメールを送信しました',
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(StatusCodes.BAD_REQUEST).json({
+        error: formatValidationError(error, 'login'),
+        code: 'VALIDATION_ERROR',
+        details: error.errors,
+      });
+    }
+    next(error);
+  }
+});
+
+authRouter.post('/auth/password/reset', authRateLimiter, async (req, res, next) => {
+  try {
+    const body = PasswordResetRequestSchema.parse(req.body);
+    const user = await resetPassword(body);
+    // Every stored session of the user is gone already; drop this request's copy as well.
+    await destroySession(req);
+    res.status(StatusCodes.OK).json({
+      message: 'パスワードを変更しました。新しいパスワードでログインしてください',
+      user,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(StatusCodes.BAD_REQUEST).json({
+        error: formatValidationError(error, 'register'),
+        code: 'VALIDATION_ERROR',
+        details: error.errors,
+      });
+    }
+    next(error);
+  }
+});
+
+authRouter.post('/auth/email/verify', authRateLimiter, async (req, res, next) => {
+  try {
+    const body = EmailVerifyRequestSchema.parse(req.body);
+    const user = await verifyEmail(body.token);
+    res.status(StatusCodes.OK).json({ message: 'メールアドレスを確認しました', user });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(StatusCodes.BAD_REQUEST).json({
+        error: formatValidationError(error, 'login'),
+        code: 'VALIDATION_ERROR',
+        details: error.errors,
+      });
+    }
+    next(error);
+  }
+});
+
+authRouter.post('/auth/email/verify/resend', authRateLimiter, async (req, res, next) => {
+  try {
+    if (!req.session.userId) {
+      return res.status(StatusCodes.UNAUTHORIZED).json({ error: '認証が必要です' });
+    }
+    await requestEmailVerification(req.session.userId, resolveRequestLocale(req));
+    res.status(StatusCodes.ACCEPTED).json({ message: '確認メールを送信しました' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+authRouter.get('/auth/sessions', requireAuth, async (req, res, next) => {
+  try {
+    const sessions = await listUserSessions(req.session.userId!, req.sessionID);
+    const payload = { ok: true, sessions } as const;
+    DeviceSessionListResponseSchema.parse(payload);
+    res.status(StatusCodes.OK).json(payload);
+  } catch (error) {
+    next(error);
+  }
+});
+
+authRouter.post('/auth/sessions/revoke-others', requireAuth, async (req, res, next) => {
+  try {
+    const revoked = await revokeUserSessions(req.session.userId!, { exceptSid: req.sessionID });
+    res.status(StatusCodes.OK).json({ ok: true, revoked });
+  } catch (error) {
+    next(error);
+  }
+});
+
+authRouter.delete('/auth/sessions/:id', requireAuth, async (req, res, next) => {
+  try {
+    const result = await revokeUserSession(req.session.userId!, req.params.id, req.sessionID);
+    if (result.current) {
+      await destroySession(req);
+    }
+    res.status(StatusCodes.OK).json({ ok: true, current: result.current });
+  } catch (error) {
+    next(error);
+  }
+});
+
 function formatValidationError(error: ZodError, _type: 'register' | 'login') {
   const issue: ZodIssue | undefined = error.errors[0];
   const field = issue?.path?.[0];
@@ -179,6 +307,10 @@ function formatValidationError(error: ZodError, _type: 'register' | 'login') {
     return 'メールアドレスの形式が正しくありません。';
   }
 
+  if (field === 'token') {
+    return 'リンクが正しくありません。メールのリンクをもう一度開いてください。';
+  }
+
   if (field === 'password') {
     if (issue?.code === 'too_small') {
       return 'パスワードが短すぎます。8文字以上で入力してください。';
@@ -1,28 +1,118 @@
 import { Router } from 'express';
+import multer from 'multer';
 import { StatusCodes } from 'http-status-codes';
+import { z } from 'zod';
+import {
+  BarcodeMealLogRequestSchema,
+  FoodProductLabelResponseSchema,
+  FoodProductLookupResponseSchema,
+  FoodSearchResponseSchema,
+  ManualMealLogRequestSchema,
+} from '@meal-log/shared';
 import { requireAuth } from '../middleware/require-auth.js';
+import { logIngestRateLimiter } from '../middleware/rate-limits.js';
+import { logCatalogueFood, searchFoodCatalogue } from '../services/food-catalogue-service.js';
+import { analyzeFoodLabel, logFoodProduct, lookupFoodProduct } from '../services/food-product-service.js';
+import { resolveRequestLocale } from '../utils/request-locale.js';
+import { resolveRequestTimezone } from '../utils/timezone.js';
 
-const FOOD_CATALOGUE = [
-  { name: '鶏むね肉グリル', calories: 165, protein_g: 31, fat_g: 3.6, carbs_g: 0 },
-  { name: '鮭の塩焼き', calories: 230, protein_g: 25, fat_g: 14, carbs_g: 0 },
-  { name: 'サーモン寿司', calories: 320, protein_g: 20, fat_g: 9, carbs_g: 38 },
-  { name: 'サラダボウル', calories: 180, protein_g: 5, fat_g: 8, carbs_g: 20 },
-  { name: '味噌汁', calories: 80, protein_g: 6, fat_g: 3, carbs_g: 8 },
-  { name: 'カレーライス', calories: 650, protein_g: 18, fat_g: 24, carbs_g: 80 },
-  { name: '照り焼きチキン', calories: 420, protein_g: 28, fat_g: 18, carbs_g: 32 },
-  { name: 'オートミール', calories: 380, protein_g: 13, fat_g: 7, carbs_g: 67 },
-];
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 5 * 1024 * 1024 } });
 
 export const foodsRouter = Router();
 
-foodsRouter.get('/foods/search', requireAuth, (req, res) => {
-  const q = String(req.query.q ?? '').trim().toLowerCase();
-  const limit = Math.min(Number(req.query.limit ?? 6), 20);
+const FoodIdParamSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+foodsRouter.get('/foods/search', requireAuth, async (req, res, next) => {
+  try {
+    const q = String(req.query.q ?? '').trim();
+    const limit = Math.min(Math.max(Number(req.query.limit ?? 6) || 6, 1), 20);
+    const locale = resolveRequestLocale(req);
+
+    const candidates = await searchFoodCatalogue({ query: q, locale, limit });
+    const payload = { q, candidates };
+    FoodSearchResponseSchema.parse(payload);
+    res.status(StatusCodes.OK).json(payload);
+  } catch (error) {
+    next(error);
+  }
+});
 
-  if (!q) {
-    return res.status(StatusCodes.OK).json({ q, candidates: FOOD_CATALOGUE.slice(0, limit) });
+foodsRouter.post('/foods/:id/log', requireAuth, async (req, res, next) => {
+  try {
+    const params = FoodIdParamSchema.parse(req.params);
+    const parsed = ManualMealLogRequestSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(StatusCodes.BAD_REQUEST).json({ ok: false, error: parsed.error.issues[0]?.message });
+    }
+    const locale = resolveRequestLocale(req);
+    const timezone = resolveRequestTimezone(req);
+    const result = await logCatalogueFood({
+      userId: req.session.userId!,
+      foodId: params.id,
+      request: parsed.data,
+      locale,
+      timezone,
+      idempotencyKey: req.get('Idempotency-Key') ?? undefined,
+    });
+    res.status(StatusCodes.CREATED).json(result);
+  } catch (error) {
+    next(error);
   }
+});
 
-  const candidates = FOOD_CATALOGUE.filter((item) => item.name.toLowerCase().includes(q)).slice(0, limit);
-  res.status(StatusCodes.OK).json({ q, candidates });
+foodsRouter.get('/foods/barcode/:code', requireAuth, async (req, res, next) => {
+  try {
+    const payload = await lookupFoodProduct(req.session.userId!, req.params.code);
+    res.status(StatusCodes.OK).json(FoodProductLookupResponseSchema.parse(payload));
+  } catch (error) {
+    next(error);
+  }
+});
+
+foodsRouter.post(
+  '/foods/barcode/:code/label',
+  requireAuth,
+  logIngestRateLimiter,
+  upload.single('image'),
+  async (req, res, next) => {
+    try {
+      if (!req.file) {
+        return res.status(StatusCodes.BAD_REQUEST).json({ ok: false, error: '栄養成分表示の写真を送信してください。' });
+      }
+      const payload = await analyzeFoodLabel({
+        userId: req.session.userId!,
+        code: req.params.code,
+        file: req.file,
+        locale: resolveRequestLocale(req, { bodyField: 'locale' }),
+      });
+      if (payload.usage) {
+        req.session.aiCredits = payload.usage.credits;
+      }
+      res.status(StatusCodes.OK).json(FoodProductLabelResponseSchema.parse(payload));
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+foodsRouter.post('/foods/barcode/:code/log', requireAuth, async (req, res, next) => {
+  try {
+    const parsed = BarcodeMealLogRequestSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(StatusCodes.BAD_REQUEST).json({ ok: false, error: parsed.error.issues[0]?.message });
+    }
+    const result = await logFoodProduct({
+      userId: req.session.userId!,
+      code: req.params.code,
+      request: parsed.data,
+      locale: resolveRequestLocale(req),
+      timezone: resolveRequestTimezone(req),
+      idempotencyKey: req.get('Idempotency-Key') ?? undefined,
+    });
+    res.status(StatusCodes.CREATED).json(result);
+  } catch (error) {
+    next(error);
+  }
 });
@@ -0,0 +1,60 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { StatusCodes } from 'http-status-codes';
+import { HydrationResponseSchema } from '@meal-log/shared';
+import { requireAuth } from '../middleware/require-auth.js';
+import {
+  addHydrationEntry,
+  deleteHydrationEntry,
+  getHydrationDay,
+} from '../services/hydration-service.js';
+
+export const hydrationRouter = Router();
+
+const HydrationIdParamSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+const HydrationQuerySchema = z.object({
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional(),
+});
+
+hydrationRouter.use(requireAuth);
+
+hydrationRouter.get('/hydration', async (req, res, next) => {
+  try {
+    const query = HydrationQuerySchema.parse(req.query);
+    const day = await getHydrationDay(req.session.userId!, query.date);
+    const payload = { ok: true, day } as const;
+    HydrationResponseSchema.parse(payload);
+    res.status(StatusCodes.OK).json(payload);
+  } catch (error) {
+    next(error);
+  }
+});
+
+hydrationRouter.post('/hydration', async (req, res, next) => {
+  try {
+    const day = await addHydrationEntry(req.session.userId!, req.body);
+    const payload = { ok: true, day } as const;
+    HydrationResponseSchema.parse(payload);
+    res.status(StatusCodes.CREATED).json(payload);
+  } catch (error) {
+    next(error);
+  }
+});
+
+hydrationRouter.delete('/hydration/:id', async (req, res, next) => {
+  try {
+    const params = HydrationIdParamSchema.parse(req.params);
+    const day = await deleteHydrationEntry(req.session.userId!, params.id);
+    const payload = { ok: true, day } as const;
+    HydrationResponseSchema.parse(payload);
+    res.status(StatusCodes.OK).json(payload);
+  } catch (error) {
+    next(error);
+  }
+});
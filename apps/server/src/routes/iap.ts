@@ -1,9 +1,12 @@
+import { timingSafeEqual } from 'node:crypto';
 import { Router, type Request } from 'express';
 import { StatusCodes } from 'http-status-codes';
 import { IapPurchaseRequestSchema } from '@meal-log/shared';
 import { requireAuth } from '../middleware/require-auth.js';
 import { processIapPurchase } from '../services/iap-service.js';
 import { processAppStoreNotification } from '../services/iap-notification-service.js';
+import { decodePlayNotification } from '../services/google-play-service.js';
+import { processGooglePlayNotification } from '../services/google-play-notification-service.js';
 import { env } from '../env.js';
 import { logger } from '../logger.js';
 
@@ -27,6 +30,30 @@ iapRouter.post('/iap/notifications', async (req, res) => {
   }
 });
 
+// Pub/Sub push subscription for Google Play real-time developer notifications. Pub/Sub retries
+// anything but a 2xx, so notifications that cannot apply are acknowledged with `handled: false`.
+iapRouter.post('/iap/google/notifications', async (req, res) => {
+  if (!isGooglePlayNotificationAuthorized(req)) {
+    res.status(StatusCodes.UNAUTHORIZED).json({ ok: false, error: 'invalid token' });
+    return;
+  }
+  const notification = decodePlayNotification(req.body);
+  if (!notification) {
+    res.status(StatusCodes.BAD_REQUEST).json({ ok: false, error: 'message.data is required' });
+    return;
+  }
+
+  try {
+    const result = await processGooglePlayNotification(notification);
+    res.status(StatusCodes.OK).json({ ok: true, ...result });
+  } catch (error) {
+    const err = error as { statusCode?: number; message?: string };
+    const statusCode = err.statusCode ?? StatusCodes.INTERNAL_SERVER_ERROR;
+    logger.warn({ err }, 'Failed to process Google Play notification');
+    res.status(statusCode).json({ ok: false, error: err.message ?? 'Failed to process notification' });
+  }
+});
+
 iapRouter.post('/iap/purchase', requireAuth, async (req, res, next) => {
   try {
     ensureIapTestModeAuthorized(req);
@@ -55,3 +82,15 @@ function ensureIapTestModeAuthorized(req: Request) {
     throw err;
   }
 }
+
+/** The push endpoint carries `?token=`; without a configured token only non-production accepts pushes. */
+function isGooglePlayNotificationAuthorized(req: Request) {
+  const expected = env.GOOGLE_PLAY_RTDN_TOKEN;
+  if (!expected) {
+    return env.NODE_ENV !== 'production';
+  }
+  const provided = typeof req.query.token === 'string' ? req.query.token : '';
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
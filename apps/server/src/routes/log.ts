@@ -1,7 +1,7 @@
 import { Router } from 'express';
 import multer from 'multer';
 import { StatusCodes } from 'http-status-codes';
-import { SlotSelectionRequestSchema } from '@meal-log/shared';
+import { MEAL_LOG_MAX_IMAGES, SlotSelectionRequestSchema, isSupportedMealAudioType } from '@meal-log/shared';
 import { requireAuth } from '../middleware/require-auth.js';
 import { processMealLog, chooseSlot } from '../services/log-service.js';
 import { resolveRequestLocale } from '../utils/request-locale.js';
@@ -12,30 +12,59 @@ const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 5 *
 
 export const logRouter = Router();
 
-logRouter.post('/log', requireAuth, logIngestRateLimiter, upload.single('image'), async (req, res, next) => {
+// `image` is the original single-photo field; `images` carries the extra photos of a multi-photo log
+// and `audio` a voice memo that is transcribed into the message.
+const mealUploads = upload.fields([
+  { name: 'image', maxCount: 1 },
+  { name: 'images', maxCount: MEAL_LOG_MAX_IMAGES },
+  { name: 'audio', maxCount: 1 },
+]);
+
+logRouter.post(['/log', '/api/log'], requireAuth, logIngestRateLimiter, mealUploads, async (req, res, next) => {
   try {
     const message = (req.body?.message ?? '').trim();
-    if (!message && !req.file) {
-      return res.status(StatusCodes.BAD_REQUEST).json({ ok: false, error: 'メッセージまたは画像のいずれかを送信してください。' });
+    const uploaded = (req.files ?? {}) as Record<string, Express.Multer.File[]>;
+    const files = [...(uploaded.image ?? []), ...(uploaded.images ?? [])];
+    const audio = uploaded.audio?.[0];
+    if (files.length > MEAL_LOG_MAX_IMAGES) {
+      return res
+        .status(StatusCodes.BAD_REQUEST)
+        .json({ ok: false, error: `画像は${MEAL_LOG_MAX_IMAGES}枚まで送信できます。` });
+    }
+    if (audio && !isSupportedMealAudioType(audio.mimetype)) {
+      return res.status(StatusCodes.UNSUPPORTED_MEDIA_TYPE).json({ ok: false, error: '対応していない音声形式です。' });
+    }
+    if (!message && files.length === 0 && !audio) {
+      return res
+        .status(StatusCodes.BAD_REQUEST)
+        .json({ ok: false, error: 'メッセージ、画像、音声のいずれかを送信してください。' });
     }
 
     const locale = resolveRequestLocale(req, { bodyField: 'locale' });
     const timezone = resolveRequestTimezone(req, { bodyField: 'timezone' });
 
     const idempotencyKey = (req.get('Idempotency-Key') ?? undefined) as string | undefined;
+    // Only clients that can show follow-up questions opt in; older builds always get a saved log.
+    const clarify = (req.get('X-Clarify-Mode') ?? '').trim().toLowerCase() === 'ask';
     const result = await processMealLog({
       userId: req.session.userId!,
       message,
-      file: req.file ?? undefined,
+      files,
+      audio,
       idempotencyKey,
       locale,
       timezone,
+      clarify,
     });
 
     if (result.usage) {
       req.session.aiCredits = result.usage.credits;
     }
 
+    if (!result.success) {
+      return res.status(StatusCodes.OK).json(result);
+    }
+
     req.session.locale = result.requestLocale;
     req.session.timezone = timezone;
 
@@ -3,11 +3,28 @@ import { StatusCodes } from 'http-status-codes';
 import { DateTime } from 'luxon';
 import { z } from 'zod';
 import { MealPeriod, Prisma } from '@prisma/client';
-import { UpdateMealLogRequestSchema, type GeminiNutritionResponse, type Locale } from '@meal-log/shared';
+import {
+  MealLogEstimateSourceRequestSchema,
+  MealLogReanalysisResolveRequestSchema,
+  UpdateMealLogRequestSchema,
+  type GeminiNutritionResponse,
+  type Locale,
+} from '@meal-log/shared';
 import { prisma } from '../db/prisma.js';
 import { requireAuth } from '../middleware/require-auth.js';
-import { updateMealLog, deleteMealLog, restoreMealLog } from '../services/log-service.js';
+import { logIngestRateLimiter } from '../middleware/rate-limits.js';
+import {
+  updateMealLog,
+  deleteMealLog,
+  restoreMealLog,
+  splitMealLog,
+  clarifyMealLog,
+  switchMealLogEstimateSource,
+} from '../services/log-service.js';
+import { getMealLogChainMenuSource } from '../services/chain-menu-service.js';
+import { ensureMealLogItems } from '../services/meal-log-item-service.js';
 import { getMealLogSharePayload, getLogsForExport } from '../services/log-share-service.js';
+import { getPendingMealLogReanalysis, resolveMealLogReanalysis } from '../services/meal-reanalysis-service.js';
 import { isPremium } from '../services/premium-service.js';
 import { resolveRequestLocale } from '../utils/request-locale.js';
 import { resolveMealLogLocalization, type LocalizationResolution } from '../utils/locale.js';
@@ -120,6 +137,7 @@ const fetchMealLogDetail = async (logId: string, userId: number, locale: Locale)
   const localization = resolveMealLogLocalization(item.aiRaw, locale);
   const translation = localization.translation;
   const aiRawPayload = buildAiRawPayload(localization);
+  const items = await ensureMealLogItems(prisma, item);
 
   const history = item.edits.map((edit) => ({
     id: edit.id,
@@ -153,8 +171,12 @@ const fetchMealLogDetail = async (logId: string, userId: number, locale: Locale)
     requested_locale: localization.requestedLocale,
     fallback_applied: localization.fallbackApplied,
     favorite_meal_id: item.favoritedBy[0]?.id ?? null,
+    group_id: item.groupId ?? null,
+    items,
     history,
     time_history: timeHistory,
+    reanalysis: await getPendingMealLogReanalysis(item.id),
+    chain_menu: await getMealLogChainMenuSource(translation?.meta, item.landingType),
   };
 };
 
@@ -220,6 +242,7 @@ logsRouter.get('/logs', requireAuth, async (req, res, next) => {
         requested_locale: localization.requestedLocale,
         fallback_applied: localization.fallbackApplied,
         favorite_meal_id: item.favoritedBy[0]?.id ?? null,
+        group_id: item.groupId ?? null,
       };
     });
 
@@ -317,6 +340,88 @@ logsRouter.post('/log/:id/restore', requireAuth, async (req, res, next) => {
   }
 });
 
+logsRouter.post('/log/:id/split', requireAuth, async (req, res, next) => {
+  try {
+    const locale = resolveRequestLocale(req);
+    const result = await splitMealLog(req.params.id, req.session.userId!, locale);
+    res.status(StatusCodes.OK).json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Accepts or dismisses the newer estimate a re-analysis job left for a log the user had edited.
+logsRouter.post('/log/:id/reanalysis', requireAuth, async (req, res, next) => {
+  try {
+    const locale = resolveRequestLocale(req);
+    const parsed = MealLogReanalysisResolveRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(StatusCodes.BAD_REQUEST).json({ ok: false, error: parsed.error.flatten().formErrors.join(', ') });
+    }
+    await resolveMealLogReanalysis({
+      logId: req.params.id,
+      userId: req.session.userId!,
+      action: parsed.data.action,
+    });
+    const detail = await fetchMealLogDetail(req.params.id, req.session.userId!, locale);
+    if (!detail) {
+      return res
+        .status(StatusCodes.NOT_FOUND)
+        .json({ ok: false, message: '記録が見つかりませんでした。' });
+    }
+    res.status(StatusCodes.OK).json({ ok: true, item: detail });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Switches a log matched to a chain menu item between the published values and the AI estimate.
+logsRouter.post('/log/:id/estimate-source', requireAuth, async (req, res, next) => {
+  try {
+    const locale = resolveRequestLocale(req);
+    const parsed = MealLogEstimateSourceRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(StatusCodes.BAD_REQUEST).json({ ok: false, error: parsed.error.flatten().formErrors.join(', ') });
+    }
+    const result = await switchMealLogEstimateSource({
+      logId: req.params.id,
+      userId: req.session.userId!,
+      source: parsed.data.source,
+    });
+    if (result.usage) {
+      req.session.aiCredits = result.usage.credits;
+    }
+    const detail = await fetchMealLogDetail(req.params.id, req.session.userId!, locale);
+    if (!detail) {
+      return res
+        .status(StatusCodes.NOT_FOUND)
+        .json({ ok: false, message: '記録が見つかりませんでした。' });
+    }
+    res.status(StatusCodes.OK).json({ ok: true, item: detail, usage: result.usage });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Answers the follow-up questions of a `POST /log` that came back as `needs_clarification`.
+logsRouter.post('/ingest/:requestKey/clarify', requireAuth, logIngestRateLimiter, async (req, res, next) => {
+  try {
+    const locale = resolveRequestLocale(req);
+    const result = await clarifyMealLog({
+      userId: req.session.userId!,
+      requestKey: req.params.requestKey,
+      payload: req.body,
+      locale,
+    });
+    if (result.usage) {
+      req.session.aiCredits = result.usage.credits;
+    }
+    res.status(StatusCodes.OK).json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
 logsRouter.patch('/log/:id', requireAuth, async (req, res, next) => {
   try {
     const locale = resolveRequestLocale(req);
@@ -344,6 +449,7 @@ logsRouter.patch('/log/:id', requireAuth, async (req, res, next) => {
         fatG: payload.fat_g,
         carbsG: payload.carbs_g,
         mealPeriod,
+        items: payload.items,
       },
     });
 
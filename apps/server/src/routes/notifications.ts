@@ -38,6 +38,7 @@ notificationsRouter.put('/settings', async (req, res, next) => {
       quietHoursStart: parsed.quiet_hours_start,
       quietHoursEnd: parsed.quiet_hours_end,
       dailyCap: parsed.daily_cap,
+      hydrationReminderEnabled: parsed.hydration_reminder_enabled,
       timezone: parsed.timezone,
     });
     res.status(StatusCodes.OK).json({ ok: true, settings: toSettingsResponse(settings) });
@@ -0,0 +1,89 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { StatusCodes } from 'http-status-codes';
+import { PlannedMealListResponseSchema, PlannedMealResponseSchema } from '@meal-log/shared';
+import { requireAuth } from '../middleware/require-auth.js';
+import {
+  createPlannedMeal,
+  deletePlannedMeal,
+  listPlannedMeals,
+  markPlannedMealEaten,
+  updatePlannedMeal,
+} from '../services/planned-meal-service.js';
+import { resolveRequestLocale } from '../utils/request-locale.js';
+import { resolveRequestTimezone } from '../utils/timezone.js';
+
+export const plannedMealsRouter = Router();
+
+const PlannedMealIdParamSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+const PlannedMealRangeQuerySchema = z.object({
+  from: z.string().optional(),
+  to: z.string().optional(),
+});
+
+plannedMealsRouter.use(requireAuth);
+
+plannedMealsRouter.get('/planned-meals', async (req, res, next) => {
+  try {
+    const query = PlannedMealRangeQuerySchema.parse(req.query);
+    const result = await listPlannedMeals(req.session.userId!, query);
+    const payload = { ok: true, ...result } as const;
+    PlannedMealListResponseSchema.parse(payload);
+    res.status(StatusCodes.OK).json(payload);
+  } catch (error) {
+    next(error);
+  }
+});
+
+plannedMealsRouter.post('/planned-meals', async (req, res, next) => {
+  try {
+    const item = await createPlannedMeal(req.session.userId!, req.body);
+    const payload = { ok: true, item } as const;
+    PlannedMealResponseSchema.parse(payload);
+    res.status(StatusCodes.CREATED).json(payload);
+  } catch (error) {
+    next(error);
+  }
+});
+
+plannedMealsRouter.patch('/planned-meals/:id', async (req, res, next) => {
+  try {
+    const params = PlannedMealIdParamSchema.parse(req.params);
+    const item = await updatePlannedMeal(req.session.userId!, params.id, req.body);
+    const payload = { ok: true, item } as const;
+    PlannedMealResponseSchema.parse(payload);
+    res.status(StatusCodes.OK).json(payload);
+  } catch (error) {
+    next(error);
+  }
+});
+
+plannedMealsRouter.delete('/planned-meals/:id', async (req, res, next) => {
+  try {
+    const params = PlannedMealIdParamSchema.parse(req.params);
+    await deletePlannedMeal(req.session.userId!, params.id);
+    res.status(StatusCodes.NO_CONTENT).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+plannedMealsRouter.post('/planned-meals/:id/eat', async (req, res, next) => {
+  try {
+    const params = PlannedMealIdParamSchema.parse(req.params);
+    const result = await markPlannedMealEaten({
+      userId: req.session.userId!,
+      plannedMealId: params.id,
+      locale: resolveRequestLocale(req),
+      timezone: resolveRequestTimezone(req),
+    });
+    const payload = { ok: true, ...result } as const;
+    PlannedMealResponseSchema.parse(payload);
+    res.status(StatusCodes.CREATED).json(payload);
+  } catch (error) {
+    next(error);
+  }
+});
@@ -0,0 +1,66 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { StatusCodes } from 'http-status-codes';
+import {
+  PortionCalibrationListResponseSchema,
+  PortionCalibrationResponseSchema,
+} from '@meal-log/shared';
+import { requireAuth } from '../middleware/require-auth.js';
+import {
+  createPortionCalibration,
+  deletePortionCalibration,
+  listPortionCalibrations,
+  updatePortionCalibration,
+} from '../services/portion-calibration-service.js';
+
+export const portionCalibrationsRouter = Router();
+
+const PortionCalibrationIdParamSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+portionCalibrationsRouter.use(requireAuth);
+
+portionCalibrationsRouter.get('/portion-calibrations', async (req, res, next) => {
+  try {
+    const list = await listPortionCalibrations(req.session.userId!);
+    const payload = { ok: true, ...list } as const;
+    PortionCalibrationListResponseSchema.parse(payload);
+    res.status(StatusCodes.OK).json(payload);
+  } catch (error) {
+    next(error);
+  }
+});
+
+portionCalibrationsRouter.post('/portion-calibrations', async (req, res, next) => {
+  try {
+    const item = await createPortionCalibration(req.session.userId!, req.body);
+    const payload = { ok: true, item } as const;
+    PortionCalibrationResponseSchema.parse(payload);
+    res.status(StatusCodes.CREATED).json(payload);
+  } catch (error) {
+    next(error);
+  }
+});
+
+portionCalibrationsRouter.patch('/portion-calibrations/:id', async (req, res, next) => {
+  try {
+    const params = PortionCalibrationIdParamSchema.parse(req.params);
+    const item = await updatePortionCalibration(req.session.userId!, params.id, req.body);
+    const payload = { ok: true, item } as const;
+    PortionCalibrationResponseSchema.parse(payload);
+    res.status(StatusCodes.OK).json(payload);
+  } catch (error) {
+    next(error);
+  }
+});
+
+portionCalibrationsRouter.delete('/portion-calibrations/:id', async (req, res, next) => {
+  try {
+    const params = PortionCalibrationIdParamSchema.parse(req.params);
+    await deletePortionCalibration(req.session.userId!, params.id);
+    res.status(StatusCodes.NO_CONTENT).send();
+  } catch (error) {
+    next(error);
+  }
+});
@@ -1,9 +1,12 @@
 import { Router } from 'express';
 import { StatusCodes } from 'http-status-codes';
 import {
+  AdaptivePlanDecisionRequestSchema,
+  AdaptivePlanResponseSchema,
   UserProfileSchema,
   UpdateUserProfileRequestSchema,
   computeNutritionPlan,
+  resolveHydrationCupSizes,
   type NutritionPlanInput,
   type UpdateUserProfileRequest,
 } from '@meal-log/shared';
@@ -13,7 +16,9 @@ import { requireAuth } from '../middleware/require-auth.js';
 import { claimReferralCode, generateDeviceFingerprint } from '../services/referral-service.js';
 import { logger } from '../logger.js';
 import { invalidateDashboardCacheForUser } from '../services/dashboard-service.js';
+import { decideAdaptivePlan, getAdaptivePlanProposal } from '../services/adaptive-plan-service.js';
 import { getClientIp, getClientUserAgent } from '../utils/client-info.js';
+import { resolveRequestTimezone } from '../utils/timezone.js';
 
 export const profileRouter = Router();
 
@@ -125,6 +130,29 @@ profileRouter.put('/profile', async (req, res, next) => {
   }
 });
 
+profileRouter.get('/profile/adaptive-plan', async (req, res, next) => {
+  try {
+    const timezone = resolveRequestTimezone(req);
+    const proposal = await getAdaptivePlanProposal(req.session.userId!, timezone);
+    const payload = AdaptivePlanResponseSchema.parse({ ok: true, proposal });
+    res.status(StatusCodes.OK).json(payload);
+  } catch (error) {
+    next(error);
+  }
+});
+
+profileRouter.post('/profile/adaptive-plan', async (req, res, next) => {
+  try {
+    const request = AdaptivePlanDecisionRequestSchema.parse(req.body);
+    const timezone = resolveRequestTimezone(req);
+    const proposal = await decideAdaptivePlan(req.session.userId!, request, timezone);
+    const payload = AdaptivePlanResponseSchema.parse({ ok: true, proposal });
+    res.status(StatusCodes.OK).json(payload);
+  } catch (error) {
+    next(error);
+  }
+});
+
 function serializeProfile(profile: PrismaUserProfile) {
   return UserProfileSchema.parse({
     display_name: profile.displayName ?? null,
@@ -147,6 +175,7 @@ function serializeProfile(profile: PrismaUserProfile) {
     activity_level: profile.activityLevel ?? null,
     apple_health_linked: profile.appleHealthLinked ?? false,
     questionnaire_completed_at: toIsoOrNull(profile.questionnaireCompletedAt),
+    hydration_cup_sizes_ml: resolveHydrationCupSizes(profile.hydrationCupSizesMl),
     language: profile.language,
     updated_at: profile.updatedAt.toISOString(),
   });
@@ -218,6 +247,9 @@ function mapProfileInput(input: UpdateUserProfileRequest) {
       ? new Date(input.questionnaire_completed_at)
       : null;
   }
+  if (hasOwn(input, 'hydration_cup_sizes_ml')) {
+    data.hydrationCupSizesMl = resolveHydrationCupSizes(input.hydration_cup_sizes_ml);
+  }
   if (hasOwn(input, 'language')) {
     data.language = input.language ?? null;
   }
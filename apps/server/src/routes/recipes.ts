@@ -0,0 +1,116 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { StatusCodes } from 'http-status-codes';
+import {
+  RecipeDetailResponseSchema,
+  RecipeListResponseSchema,
+  RecipeLogRequestSchema,
+} from '@meal-log/shared';
+import { requireAuth } from '../middleware/require-auth.js';
+import { logIngestRateLimiter } from '../middleware/rate-limits.js';
+import {
+  createRecipe,
+  deleteRecipe,
+  getRecipe,
+  listRecipes,
+  logRecipe,
+  updateRecipe,
+} from '../services/recipe-service.js';
+import { resolveRequestLocale } from '../utils/request-locale.js';
+import { resolveRequestTimezone } from '../utils/timezone.js';
+
+export const recipesRouter = Router();
+
+const RecipeIdParamSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+recipesRouter.use(requireAuth);
+
+recipesRouter.get('/recipes', async (req, res, next) => {
+  try {
+    const recipes = await listRecipes(req.session.userId!);
+    const payload = { ok: true, items: recipes } as const;
+    RecipeListResponseSchema.parse(payload);
+    res.status(StatusCodes.OK).json(payload);
+  } catch (error) {
+    next(error);
+  }
+});
+
+recipesRouter.post('/recipes', logIngestRateLimiter, async (req, res, next) => {
+  try {
+    const { recipe, usage } = await createRecipe(req.session.userId!, req.body, resolveRequestLocale(req));
+    if (usage) {
+      req.session.aiCredits = usage.credits;
+    }
+    const payload = { ok: true, item: recipe, usage } as const;
+    RecipeDetailResponseSchema.parse(payload);
+    res.status(StatusCodes.CREATED).json(payload);
+  } catch (error) {
+    next(error);
+  }
+});
+
+recipesRouter.get('/recipes/:id', async (req, res, next) => {
+  try {
+    const params = RecipeIdParamSchema.parse(req.params);
+    const recipe = await getRecipe(req.session.userId!, params.id);
+    const payload = { ok: true, item: recipe } as const;
+    RecipeDetailResponseSchema.parse(payload);
+    res.status(StatusCodes.OK).json(payload);
+  } catch (error) {
+    next(error);
+  }
+});
+
+recipesRouter.patch('/recipes/:id', logIngestRateLimiter, async (req, res, next) => {
+  try {
+    const params = RecipeIdParamSchema.parse(req.params);
+    const { recipe, usage } = await updateRecipe(
+      req.session.userId!,
+      params.id,
+      req.body,
+      resolveRequestLocale(req),
+    );
+    if (usage) {
+      req.session.aiCredits = usage.credits;
+    }
+    const payload = { ok: true, item: recipe, usage } as const;
+    RecipeDetailResponseSchema.parse(payload);
+    res.status(StatusCodes.OK).json(payload);
+  } catch (error) {
+    next(error);
+  }
+});
+
+recipesRouter.delete('/recipes/:id', async (req, res, next) => {
+  try {
+    const params = RecipeIdParamSchema.parse(req.params);
+    await deleteRecipe(req.session.userId!, params.id);
+    res.status(StatusCodes.NO_CONTENT).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+recipesRouter.post('/recipes/:id/log', async (req, res, next) => {
+  try {
+    const params = RecipeIdParamSchema.parse(req.params);
+    const parsed = RecipeLogRequestSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(StatusCodes.BAD_REQUEST).json({ ok: false, error: parsed.error.issues[0]?.message });
+    }
+    const result = await logRecipe({
+      userId: req.session.userId!,
+      recipeId: params.id,
+      request: parsed.data,
+      locale: resolveRequestLocale(req),
+      timezone: resolveRequestTimezone(req),
+      idempotencyKey: req.get('Idempotency-Key') ?? undefined,
+    });
+    res.status(StatusCodes.CREATED).json(result);
+  } catch (error) {
+    next(error);
+  }
+});
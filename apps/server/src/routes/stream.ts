@@ -0,0 +1,133 @@
+import { Router } from 'express';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { StatusCodes } from 'http-status-codes';
+import {
+  STATUS_STREAM_HEARTBEAT_MS,
+  STATUS_STREAM_MAX_MS,
+  STATUS_STREAM_MAX_TARGETS,
+  STATUS_STREAM_TICK_MS,
+  isTerminalIngestStatus,
+  type StatusStreamEnd,
+  type StatusStreamTargetError,
+} from '@meal-log/shared';
+import { requireAuth } from '../middleware/require-auth.js';
+import { resolveIngestStatus } from '../services/log-service.js';
+import { resolveRequestLocale } from '../utils/request-locale.js';
+import { logger } from '../logger.js';
+
+export const streamRouter = Router();
+
+const readTargets = (value: unknown) =>
+  [...new Set(Array.isArray(value) ? value : [value])].filter(
+    (item): item is string => typeof item === 'string' && item.length > 0,
+  );
+
+// Pushes ingest status changes so clients can stop polling. Each `ingest` event carries the payload of
+// the Edge `GET /api/ingest/:requestKey`, sent only when it changes. This API has no AI report
+// requests, so `report` targets are answered with a 404 `error` event.
+streamRouter.get('/stream', requireAuth, (req, res) => {
+  const ingestKeys = readTargets(req.query.ingest);
+  const reportIds = readTargets(req.query.report);
+  if (!ingestKeys.length && !reportIds.length) {
+    return res
+      .status(StatusCodes.BAD_REQUEST)
+      .json({ ok: false, error: 'ingest または report を指定してください' });
+  }
+  if (ingestKeys.length + reportIds.length > STATUS_STREAM_MAX_TARGETS) {
+    return res
+      .status(StatusCodes.BAD_REQUEST)
+      .json({ ok: false, error: `一度に購読できるのは${STATUS_STREAM_MAX_TARGETS}件までです` });
+  }
+
+  const userId = req.session.userId!;
+  const locale = resolveRequestLocale(req, { queryField: 'locale' });
+
+  res.status(StatusCodes.OK).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+
+  let aborted = false;
+  res.on('close', () => {
+    aborted = true;
+  });
+
+  const startedAt = Date.now();
+  let lastWriteAt = startedAt;
+  const lastPayloads = new Map<string, string>();
+  const write = (chunk: string) => {
+    res.write(chunk);
+    lastWriteAt = Date.now();
+  };
+  const send = (event: string, payload: unknown) => {
+    write(`event: ${event}\ndata: ${JSON.stringify(payload)}\n\n`);
+  };
+  const sendTargetError = (
+    target: StatusStreamTargetError['target'],
+    id: string,
+    error: unknown,
+  ) => {
+    const appError = error as { statusCode?: number; expose?: boolean; message?: string };
+    if (!appError?.expose) {
+      logger.error({ target, id, err: error }, 'status stream: target failed');
+    }
+    const payload: StatusStreamTargetError = {
+      target,
+      id,
+      status: appError?.statusCode ?? StatusCodes.INTERNAL_SERVER_ERROR,
+      message: appError?.expose && appError.message ? appError.message : 'Internal server error',
+    };
+    send('error', payload);
+  };
+
+  const run = async () => {
+    for (const reportId of reportIds) {
+      sendTargetError('report', reportId, {
+        statusCode: StatusCodes.NOT_FOUND,
+        expose: true,
+        message: 'レポートが見つかりませんでした',
+      });
+    }
+
+    const pendingIngests = new Set(ingestKeys);
+    while (!aborted && pendingIngests.size && Date.now() - startedAt < STATUS_STREAM_MAX_MS) {
+      for (const requestKey of [...pendingIngests]) {
+        try {
+          const status = await resolveIngestStatus({ userId, requestKey, locale });
+          const data = JSON.stringify(status);
+          if (lastPayloads.get(requestKey) !== data) {
+            lastPayloads.set(requestKey, data);
+            write(`event: ingest\ndata: ${data}\n\n`);
+          }
+          if (isTerminalIngestStatus(status.status)) {
+            pendingIngests.delete(requestKey);
+          }
+        } catch (error) {
+          pendingIngests.delete(requestKey);
+          sendTargetError('ingest', requestKey, error);
+        }
+      }
+      if (aborted || !pendingIngests.size) {
+        break;
+      }
+      if (Date.now() - lastWriteAt >= STATUS_STREAM_HEARTBEAT_MS) {
+        write(': ping\n\n');
+      }
+      await sleep(STATUS_STREAM_TICK_MS);
+    }
+
+    if (!aborted) {
+      const end: StatusStreamEnd = { reason: pendingIngests.size ? 'timeout' : 'complete' };
+      send('end', end);
+      res.end();
+    }
+  };
+
+  run().catch((error) => {
+    logger.error({ err: error }, 'status stream failed');
+    res.end();
+  });
+});
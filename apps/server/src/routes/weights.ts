@@ -0,0 +1,70 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { StatusCodes } from 'http-status-codes';
+import { WeightEntryResponseSchema, WeightLogResponseSchema } from '@meal-log/shared';
+import { requireAuth } from '../middleware/require-auth.js';
+import {
+  DEFAULT_WEIGHT_LOG_DAYS,
+  createWeightEntry,
+  deleteWeightEntry,
+  getWeightLog,
+  updateWeightEntry,
+} from '../services/weight-service.js';
+import { resolveRequestTimezone } from '../utils/timezone.js';
+
+export const weightsRouter = Router();
+
+const WeightIdParamSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+const WeightLogQuerySchema = z.object({
+  days: z.coerce.number().int().min(7).max(365).default(DEFAULT_WEIGHT_LOG_DAYS),
+});
+
+weightsRouter.use(requireAuth);
+
+weightsRouter.get('/weights', async (req, res, next) => {
+  try {
+    const query = WeightLogQuerySchema.parse(req.query);
+    const log = await getWeightLog(req.session.userId!, query.days, resolveRequestTimezone(req));
+    const payload = { ok: true, ...log } as const;
+    WeightLogResponseSchema.parse(payload);
+    res.status(StatusCodes.OK).json(payload);
+  } catch (error) {
+    next(error);
+  }
+});
+
+weightsRouter.post('/weights', async (req, res, next) => {
+  try {
+    const entry = await createWeightEntry(req.session.userId!, req.body);
+    const payload = { ok: true, item: entry } as const;
+    WeightEntryResponseSchema.parse(payload);
+    res.status(StatusCodes.CREATED).json(payload);
+  } catch (error) {
+    next(error);
+  }
+});
+
+weightsRouter.patch('/weights/:id', async (req, res, next) => {
+  try {
+    const params = WeightIdParamSchema.parse(req.params);
+    const entry = await updateWeightEntry(req.session.userId!, params.id, req.body);
+    const payload = { ok: true, item: entry } as const;
+    WeightEntryResponseSchema.parse(payload);
+    res.status(StatusCodes.OK).json(payload);
+  } catch (error) {
+    next(error);
+  }
+});
+
+weightsRouter.delete('/weights/:id', async (req, res, next) => {
+  try {
+    const params = WeightIdParamSchema.parse(req.params);
+    await deleteWeightEntry(req.session.userId!, params.id);
+    res.status(StatusCodes.NO_CONTENT).send();
+  } catch (error) {
+    next(error);
+  }
+});
@@ -0,0 +1,133 @@
+import { DateTime } from 'luxon';
+import { StatusCodes } from 'http-status-codes';
+import type { UserProfile as PrismaUserProfile } from '@prisma/client';
+import {
+  ADAPTIVE_PLAN_WINDOW_DAYS,
+  buildAdaptivePlanProposal,
+  estimateMaintenanceFromHistory,
+  type AdaptivePlanDecisionRequest,
+  type AdaptivePlanProposal,
+  type DailyIntake,
+  type NutritionPlanInput,
+} from '@meal-log/shared';
+import { prisma } from '../db/prisma.js';
+import { invalidateDashboardCacheForUser } from './dashboard-service.js';
+import { getWeightTrend } from './weight-service.js';
+
+function toPlanInput(profile: PrismaUserProfile | null): NutritionPlanInput {
+  return {
+    gender: profile?.gender ?? null,
+    birthdate: profile?.birthdate ?? null,
+    heightCm: profile?.heightCm ?? null,
+    currentWeightKg: profile?.currentWeightKg ?? profile?.bodyWeightKg ?? null,
+    targetWeightKg: profile?.targetWeightKg ?? null,
+    activityLevel: profile?.activityLevel ?? null,
+    planIntensity: profile?.planIntensity ?? null,
+    goals: profile?.goals ?? [],
+  };
+}
+
+function toCurrentTargets(profile: PrismaUserProfile | null) {
+  if (
+    profile?.targetCalories == null ||
+    profile.targetProteinG == null ||
+    profile.targetFatG == null ||
+    profile.targetCarbsG == null
+  ) {
+    return null;
+  }
+  return {
+    calories: profile.targetCalories,
+    protein_g: profile.targetProteinG,
+    fat_g: profile.targetFatG,
+    carbs_g: profile.targetCarbsG,
+  };
+}
+
+/** Calories per local day over the window. Today is left out because it is still in progress. */
+async function fetchDailyIntake(userId: number, from: DateTime, to: DateTime, timezone: string) {
+  const logs = await prisma.mealLog.findMany({
+    where: {
+      userId,
+      deletedAt: null,
+      createdAt: { gte: from.toJSDate(), lt: to.toJSDate() },
+    },
+    select: { createdAt: true, calories: true },
+  });
+  const byDate = new Map<string, number>();
+  for (const log of logs) {
+    const key = DateTime.fromJSDate(log.createdAt, { zone: timezone }).toISODate();
+    if (!key) continue;
+    byDate.set(key, (byDate.get(key) ?? 0) + log.calories);
+  }
+  return [...byDate.entries()].map<DailyIntake>(([date, kcal]) => ({ date, kcal }));
+}
+
+export async function getAdaptivePlanProposal(
+  userId: number,
+  timezone: string,
+): Promise<AdaptivePlanProposal> {
+  const to = DateTime.now().setZone(timezone).startOf('day');
+  const from = to.minus({ days: ADAPTIVE_PLAN_WINDOW_DAYS });
+
+  const [profile, intake, trend] = await Promise.all([
+    prisma.userProfile.findUnique({ where: { userId } }),
+    fetchDailyIntake(userId, from, to, timezone),
+    getWeightTrend(userId, from, timezone),
+  ]);
+
+  return buildAdaptivePlanProposal({
+    planInput: toPlanInput(profile),
+    estimate: estimateMaintenanceFromHistory({ intake, trend }),
+    current: toCurrentTargets(profile),
+    declinedAt: profile?.adaptivePlanDeclinedAt ?? null,
+  });
+}
+
+/**
+ * Applies or declines the current proposal. Accepting re-derives the proposal server-side and
+ * refuses when it no longer matches what the user confirmed.
+ */
+export async function decideAdaptivePlan(
+  userId: number,
+  request: AdaptivePlanDecisionRequest,
+  timezone: string,
+) {
+  if (request.decision === 'decline') {
+    await prisma.userProfile.updateMany({
+      where: { userId },
+      data: { adaptivePlanDeclinedAt: new Date() },
+    });
+    return getAdaptivePlanProposal(userId, timezone);
+  }
+
+  const proposal = await getAdaptivePlanProposal(userId, timezone);
+  if (!proposal.proposed) {
+    const error = new Error('目標カロリーの提案を計算できませんでした');
+    Object.assign(error, { statusCode: StatusCodes.CONFLICT, expose: true });
+    throw error;
+  }
+  if (proposal.proposed.calories !== request.expected_calories) {
+    const error = new Error('提案内容が更新されました。内容を確認してからもう一度お試しください');
+    Object.assign(error, { statusCode: StatusCodes.CONFLICT, expose: true });
+    throw error;
+  }
+
+  await prisma.userProfile.update({
+    where: { userId },
+    data: {
+      targetCalories: proposal.proposed.calories,
+      targetProteinG: proposal.proposed.protein_g,
+      targetFatG: proposal.proposed.fat_g,
+      targetCarbsG: proposal.proposed.carbs_g,
+      adaptivePlanDeclinedAt: null,
+    },
+  });
+  invalidateDashboardCacheForUser(userId);
+
+  return {
+    ...proposal,
+    status: 'up_to_date',
+    current: proposal.proposed,
+  } satisfies AdaptivePlanProposal;
+}
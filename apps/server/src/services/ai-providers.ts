@@ -0,0 +1,244 @@
+import {
+  buildLocalModelRequestBody,
+  buildOpenAiCompatibleRequestBody,
+  extractGeminiText,
+  extractLocalModelText,
+  extractOpenAiCompatibleText,
+  parseAiProviderChain,
+  type AiPromptInput,
+  type AiProviderName,
+  type AiProviderTarget,
+  type GeminiNutritionResponse,
+  type Locale,
+} from '@meal-log/shared';
+import { env, timeoutConfig } from '../env.js';
+import { DEFAULT_LOCALE } from '../utils/locale.js';
+
+export interface AiProviderRequest extends AiPromptInput {
+  message: string;
+  locale?: Locale;
+}
+
+/** Adapters return the raw JSON text of the model answer; parsing and validation stay with the caller. */
+export interface AiProvider {
+  name: AiProviderName;
+  generate(model: string, request: AiProviderRequest, signal: AbortSignal): Promise<string>;
+}
+
+export class AiAttemptError extends Error {
+  constructor(
+    message: string,
+    readonly cause?: unknown,
+  ) {
+    super(message);
+    this.name = 'AiAttemptError';
+  }
+}
+
+const PRIMARY_MODEL = 'models/gemini-2.5-flash';
+const FALLBACK_MODEL = 'models/gemini-2.5-pro';
+
+const geminiProvider: AiProvider = {
+  name: 'gemini',
+  async generate(model, request, signal) {
+    if (!env.GEMINI_API_KEY) {
+      throw new AiAttemptError('GEMINI_API_KEY is not configured');
+    }
+    const url = new URL(
+      `https://generativelanguage.googleapis.com/v1beta/${model}:generateContent`,
+    );
+    url.searchParams.set('key', env.GEMINI_API_KEY);
+
+    const requestBody: Record<string, unknown> = {
+      contents: [
+        {
+          parts: [
+            ...(request.images ?? []).map((image) => ({
+              inline_data: {
+                mime_type: image.mimeType,
+                data: image.base64,
+              },
+            })),
+            {
+              text: request.prompt,
+            },
+          ],
+          role: 'user',
+        },
+      ],
+      generationConfig: {
+        temperature: 0.2,
+        topK: 32,
+        topP: 0.8,
+        responseMimeType: 'application/json',
+      },
+    };
+
+    const data = await postJson(url, requestBody, signal, 'Gemini');
+    const text = extractGeminiText(data);
+    if (!text) {
+      throw new AiAttemptError('Gemini returned no candidates');
+    }
+    return text;
+  },
+};
+
+const openAiCompatibleProvider: AiProvider = {
+  name: 'openai',
+  async generate(model, request, signal) {
+    if (!env.OPENAI_COMPATIBLE_BASE_URL) {
+      throw new AiAttemptError('OPENAI_COMPATIBLE_BASE_URL is not configured');
+    }
+    const url = new URL('chat/completions', withTrailingSlash(env.OPENAI_COMPATIBLE_BASE_URL));
+    const data = await postJson(
+      url,
+      buildOpenAiCompatibleRequestBody(model, request),
+      signal,
+      'OpenAI-compatible',
+      {
+        ...(env.OPENAI_COMPATIBLE_API_KEY
+          ? { Authorization: `Bearer ${env.OPENAI_COMPATIBLE_API_KEY}` }
+          : {}),
+      },
+    );
+    const text = extractOpenAiCompatibleText(data);
+    if (!text) {
+      throw new AiAttemptError('OpenAI-compatible endpoint returned no content');
+    }
+    return text;
+  },
+};
+
+const localModelProvider: AiProvider = {
+  name: 'local',
+  async generate(model, request, signal) {
+    const url = new URL('api/generate', withTrailingSlash(env.LOCAL_AI_BASE_URL));
+    const data = await postJson(
+      url,
+      buildLocalModelRequestBody(model, request),
+      signal,
+      'Local model',
+    );
+    const text = extractLocalModelText(data);
+    if (!text) {
+      throw new AiAttemptError('Local model returned no content');
+    }
+    return text;
+  },
+};
+
+const mockProvider: AiProvider = {
+  name: 'mock',
+  async generate(_model, request) {
+    return JSON.stringify(buildMockResponse(request.message, request.locale));
+  },
+};
+
+const providers: Record<AiProviderName, AiProvider> = {
+  gemini: geminiProvider,
+  openai: openAiCompatibleProvider,
+  local: localModelProvider,
+  mock: mockProvider,
+};
+
+export function getAiProvider(name: AiProviderName) {
+  return providers[name];
+}
+
+/**
+ * Attempt order for the hedging loop. Without `AI_PROVIDER_CHAIN` the previous behaviour is kept:
+ * Gemini flash for every attempt but the last, which uses Gemini pro, or the mock when no key is set.
+ */
+export function resolveAiProviderChain(): AiProviderTarget[] {
+  const configured = parseAiProviderChain(env.AI_PROVIDER_CHAIN, {
+    gemini: PRIMARY_MODEL,
+    openai: env.OPENAI_COMPATIBLE_MODEL,
+    local: env.LOCAL_AI_MODEL,
+    mock: 'mock',
+  });
+  if (configured.length > 0) {
+    return configured;
+  }
+  if (!env.GEMINI_API_KEY) {
+    return [{ provider: 'mock', model: 'mock' }];
+  }
+  const attempts = Math.max(timeoutConfig.AI_MAX_ATTEMPTS, 1);
+  return Array.from({ length: attempts }, (_, index) => ({
+    provider: 'gemini' as const,
+    model: index === attempts - 1 && attempts > 1 ? FALLBACK_MODEL : PRIMARY_MODEL,
+  }));
+}
+
+async function postJson(
+  url: URL,
+  body: unknown,
+  signal: AbortSignal,
+  label: string,
+  headers: Record<string, string> = {},
+) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...headers,
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new AiAttemptError(`${label} responded with ${response.status}`, text);
+  }
+
+  return (await response.json()) as unknown;
+}
+
+function withTrailingSlash(baseUrl: string) {
+  return baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`;
+}
+
+export function buildMockResponse(
+  message: string,
+  locale: Locale | undefined,
+): GeminiNutritionResponse {
+  const baseCalories = Math.max(200, Math.min(900, message.length * 15));
+  const protein = Math.round(baseCalories * 0.3);
+  const fat = Math.round(baseCalories * 0.25);
+  const carbs = Math.round(baseCalories * 0.45);
+
+  return {
+    dish: message.slice(0, 60) || 'Meal',
+    confidence: 0.65,
+    totals: {
+      kcal: baseCalories,
+      protein_g: Number((protein / 4).toFixed(1)),
+      fat_g: Number((fat / 9).toFixed(1)),
+      carbs_g: Number((carbs / 4).toFixed(1)),
+    },
+    micros: {
+      fiber_g: Number((baseCalories / 200).toFixed(1)),
+      sugar_g: Number(((carbs / 4) * 0.2).toFixed(1)),
+      saturated_fat_g: Number(((fat / 9) * 0.35).toFixed(1)),
+      sodium_mg: Math.round(baseCalories * 1.6),
+      salt_g: Number(((baseCalories * 1.6 * 2.54) / 1000).toFixed(1)),
+    },
+    items: [
+      {
+        name: message || 'Assorted ingredients',
+        grams: 300,
+        protein_g: Number(((protein / 4) * 0.8).toFixed(1)),
+        fat_g: Number(((fat / 9) * 0.7).toFixed(1)),
+        carbs_g: Number(((carbs / 4) * 0.85).toFixed(1)),
+      },
+    ],
+    warnings: [...(locale && locale !== DEFAULT_LOCALE ? [`mock-locale:${locale}`] : [])],
+    landing_type: 'mock',
+    meta: {
+      model: 'mock-gemini',
+      fallback_model_used: false,
+      attempt: 1,
+      latencyMs: 12,
+    },
+  };
+}
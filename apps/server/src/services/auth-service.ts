@@ -1,10 +1,15 @@
 import argon2 from 'argon2';
 import { StatusCodes } from 'http-status-codes';
 import { randomUUID } from 'crypto';
+import type { Locale } from '@meal-log/shared';
 import { prisma } from '../db/prisma.js';
+import { env } from '../env.js';
 import { logger } from '../logger.js';
+import { consumeAuthToken, issueAuthToken, type AuthTokenPurpose } from './auth-token-service.js';
+import { sendMail } from './mail-service.js';
+import { revokeUserSessions } from './session-service.js';
 
-export async function registerUser(params: { email: string; password: string }) {
+export async function registerUser(params: { email: string; password: string }, locale?: Locale) {
   const existing = await prisma.user.findUnique({ where: { email: params.email } });
   if (existing) {
     logger.warn({ email: params.email }, 'register attempt with existing email');
@@ -22,6 +27,7 @@ export async function registerUser(params: { email: string; password: string })
     },
   });
 
+  await sendAuthMail(user, 'email_verification', locale);
   return serializeUser(user);
 }
 
@@ -99,6 +105,7 @@ export async function upsertAppleUser(params: { sub: string; email: string | nul
       appleSub: params.sub,
       appleEmail: params.email,
       appleLinkedAt: new Date(),
+      emailVerifiedAt: new Date(),
     },
   });
 
@@ -126,6 +133,112 @@ export async function linkAppleAccount(userId: number, params: { sub: string; em
   return serializeUser(updated);
 }
 
+const AUTH_MAIL_CONTENT: Record<
+  AuthTokenPurpose,
+  { path: string; ja: { subject: string; body: string }; en: { subject: string; body: string } }
+> = {
+  password_reset: {
+    path: 'reset-password',
+    ja: {
+      subject: '【Meal Log】パスワードの再設定',
+      body: 'パスワード再設定のリクエストを受け付けました。1時間以内に次のリンクから新しいパスワードを設定してください。\n\n{link}\n\nお心当たりがない場合はこのメールを破棄してください。',
+    },
+    en: {
+      subject: 'Reset your Meal Log password',
+      body: 'We received a request to reset your password. Open this link within an hour to choose a new one:\n\n{link}\n\nIf you did not ask for this, you can ignore this email.',
+    },
+  },
+  email_verification: {
+    path: 'verify-email',
+    ja: {
+      subject: '【Meal Log】メールアドレスの確認',
+      body: 'Meal Log へのご登録ありがとうございます。24時間以内に次のリンクからメールアドレスを確認してください。\n\n{link}',
+    },
+    en: {
+      subject: 'Confirm your Meal Log email',
+      body: 'Thanks for signing up for Meal Log. Open this link within 24 hours to confirm your email address:\n\n{link}',
+    },
+  },
+};
+
+export function buildAuthLink(purpose: AuthTokenPurpose, token: string) {
+  const base = env.AUTH_LINK_BASE_URL.endsWith('/') ? env.AUTH_LINK_BASE_URL : `${env.AUTH_LINK_BASE_URL}/`;
+  return `${base}${AUTH_MAIL_CONTENT[purpose].path}?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Mail failures are logged rather than thrown: the caller's response must not reveal whether an
+ * account exists or whether delivery worked.
+ */
+async function sendAuthMail(
+  user: { id: number; email: string },
+  purpose: AuthTokenPurpose,
+  locale: Locale = 'ja-JP',
+) {
+  try {
+    const token = await issueAuthToken(user.id, purpose);
+    if (!token) {
+      logger.info({ userId: user.id, purpose }, 'auth mail throttled');
+      return;
+    }
+    const content = AUTH_MAIL_CONTENT[purpose][locale.toLowerCase().startsWith('ja') ? 'ja' : 'en'];
+    await sendMail({
+      to: user.email,
+      subject: content.subject,
+      text: content.body.replace('{link}', buildAuthLink(purpose, token)),
+    });
+  } catch (error) {
+    logger.error({ err: error, userId: user.id, purpose }, 'Failed to send auth mail');
+  }
+}
+
+/**
+ * Resolves once the address is looked up; the mail goes out afterwards so that known and unknown
+ * addresses take the same time to answer.
+ */
+export async function requestPasswordReset(email: string, locale?: Locale) {
+  const user = await prisma.user.findUnique({ where: { email } });
+  if (!user) {
+    logger.info({ email }, 'password reset requested for unknown email');
+    return;
+  }
+  void sendAuthMail(user, 'password_reset', locale);
+}
+
+export async function requestEmailVerification(userId: number, locale?: Locale) {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user || user.emailVerifiedAt) {
+    return;
+  }
+  await sendAuthMail(user, 'email_verification', locale);
+}
+
+/**
+ * Sets the new password and signs the user out everywhere. Following the mailed link also proves
+ * ownership of the address, so an unverified email becomes verified.
+ */
+export async function resetPassword(params: { token: string; password: string }) {
+  const userId = await consumeAuthToken(params.token, 'password_reset');
+  const passwordHash = await argon2.hash(params.password);
+  const user = await prisma.user.findUniqueOrThrow({ where: { id: userId } });
+  const updated = await prisma.user.update({
+    where: { id: userId },
+    data: { passwordHash, emailVerifiedAt: user.emailVerifiedAt ?? new Date() },
+  });
+  const revoked = await revokeUserSessions(userId);
+  logger.info({ userId, revoked }, 'password reset; sessions revoked');
+  return serializeUser(updated);
+}
+
+export async function verifyEmail(token: string) {
+  const userId = await consumeAuthToken(token, 'email_verification');
+  const user = await prisma.user.findUniqueOrThrow({ where: { id: userId } });
+  const updated = user.emailVerifiedAt
+    ? user
+    : await prisma.user.update({ where: { id: userId }, data: { emailVerifiedAt: new Date() } });
+  return serializeUser(updated);
+}
+
 function serializeUser(user: {
   id: number;
   email: string;
@@ -133,10 +246,12 @@ function serializeUser(user: {
   aiCredits: number;
   appleSub?: string | null;
   appleEmail?: string | null;
+  emailVerifiedAt?: Date | null;
 }) {
   return {
     id: user.id,
     email: user.email,
+    emailVerified: Boolean(user.emailVerifiedAt),
     aiCredits: user.aiCredits,
     appleLinked: Boolean(user.appleSub),
     appleEmail: user.appleEmail ?? null,
@@ -0,0 +1,80 @@
+import { StatusCodes } from 'http-status-codes';
+import { prisma } from '../db/prisma.js';
+import { generateAuthToken, hashAuthToken, isAuthTokenUsable } from '../utils/auth-token.js';
+
+export type AuthTokenPurpose = 'password_reset' | 'email_verification';
+
+export const AUTH_TOKEN_TTL_MS: Record<AuthTokenPurpose, number> = {
+  password_reset: 60 * 60 * 1000,
+  email_verification: 24 * 60 * 60 * 1000,
+};
+
+/** Requests repeated within this window send no new mail. */
+export const AUTH_TOKEN_RESEND_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Issues a new token and retires the user's earlier unused ones for the same purpose, so only the
+ * latest mail works. Returns null when one was issued within the resend interval.
+ */
+export async function issueAuthToken(
+  userId: number,
+  purpose: AuthTokenPurpose,
+  now: Date = new Date(),
+) {
+  const { token, tokenHash } = generateAuthToken();
+  return prisma.$transaction(async (tx) => {
+    // Locking the user makes concurrent requests take turns, so only one of them passes the throttle.
+    await tx.$executeRaw`SELECT 1 FROM "User" WHERE "id" = ${userId} FOR UPDATE`;
+    const recent = await tx.authToken.findFirst({
+      where: {
+        userId,
+        purpose,
+        createdAt: { gt: new Date(now.getTime() - AUTH_TOKEN_RESEND_INTERVAL_MS) },
+      },
+      select: { id: true },
+    });
+    if (recent) {
+      return null;
+    }
+
+    await tx.authToken.updateMany({
+      where: { userId, purpose, usedAt: null },
+      data: { usedAt: now },
+    });
+    await tx.authToken.create({
+      data: {
+        userId,
+        purpose,
+        tokenHash,
+        expiresAt: new Date(now.getTime() + AUTH_TOKEN_TTL_MS[purpose]),
+      },
+    });
+    return token;
+  });
+}
+
+/** Marks the token used and returns its user; the conditional update keeps concurrent redemptions single-use. */
+export async function consumeAuthToken(
+  token: string,
+  purpose: AuthTokenPurpose,
+  now: Date = new Date(),
+) {
+  const record = await prisma.authToken.findUnique({ where: { tokenHash: hashAuthToken(token) } });
+  if (record && record.purpose === purpose && isAuthTokenUsable(record, now)) {
+    const claimed = await prisma.authToken.updateMany({
+      where: { id: record.id, usedAt: null },
+      data: { usedAt: now },
+    });
+    if (claimed.count === 1) {
+      return record.userId;
+    }
+  }
+
+  throw Object.assign(
+    new Error('リンクの有効期限が切れているか、すでに使用されています。もう一度お試しください。'),
+    {
+      statusCode: StatusCodes.BAD_REQUEST,
+      expose: true,
+    },
+  );
+}
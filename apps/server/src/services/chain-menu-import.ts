@@ -0,0 +1,81 @@
+import { ChainMenuImportRowSchema, type ChainMenuImportRow, type Locale } from '@meal-log/shared';
+import { parseCsvRecords } from '../utils/csv.js';
+import { parseNutrientValue } from './food-import.js';
+
+export interface ChainMenuCsvImportOptions {
+  source: string;
+  locale: Locale;
+}
+
+export interface ChainMenuCsvParseResult {
+  rows: ChainMenuImportRow[];
+  skipped: Array<{ line: number; reason: string }>;
+}
+
+function splitAliases(raw: string | undefined, primary: string) {
+  return (raw ?? '')
+    .split(/[|｜]/)
+    .map((alias) => alias.trim())
+    .filter((alias) => alias.length > 0 && alias !== primary);
+}
+
+/**
+ * Parses a menu export with one row per item and size:
+ * `code,chain,chain_aliases,name,aliases,size,kcal,protein_g,fat_g,carbs_g,salt_g,serving_grams,source_url,locale`.
+ * Aliases are separated by "|"; values are the chain's published figures, not per 100 g.
+ */
+export function parseChainMenuCsv(
+  text: string,
+  options: ChainMenuCsvImportOptions,
+): ChainMenuCsvParseResult {
+  const records = parseCsvRecords(text);
+  const rows: ChainMenuImportRow[] = [];
+  const skipped: ChainMenuCsvParseResult['skipped'] = [];
+
+  records.forEach((record, index) => {
+    // +2: header row plus 1-based line numbers
+    const line = index + 2;
+    const code = record.code;
+    const chain = record.chain;
+    const name = record.name;
+    if (!code || !chain || !name) {
+      skipped.push({ line, reason: 'missing code, chain or name' });
+      return;
+    }
+
+    const kcal = parseNutrientValue(record.kcal);
+    const protein = parseNutrientValue(record.protein_g);
+    const fat = parseNutrientValue(record.fat_g);
+    const carbs = parseNutrientValue(record.carbs_g);
+    if (kcal === null || protein === null || fat === null || carbs === null) {
+      skipped.push({ line, reason: 'invalid nutrient value' });
+      return;
+    }
+
+    const parsed = ChainMenuImportRowSchema.safeParse({
+      source: options.source,
+      source_code: code,
+      locale: record.locale || options.locale,
+      chain,
+      chain_aliases: splitAliases(record.chain_aliases, chain),
+      name,
+      aliases: splitAliases(record.aliases, name),
+      size_label: record.size || null,
+      kcal,
+      protein_g: protein,
+      fat_g: fat,
+      carbs_g: carbs,
+      salt_g: parseNutrientValue(record.salt_g),
+      serving_grams: parseNutrientValue(record.serving_grams) || null,
+      source_url: record.source_url || null,
+    });
+
+    if (!parsed.success) {
+      skipped.push({ line, reason: parsed.error.issues[0]?.message ?? 'invalid row' });
+      return;
+    }
+    rows.push(parsed.data);
+  });
+
+  return { rows, skipped };
+}
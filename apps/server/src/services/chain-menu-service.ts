@@ -0,0 +1,128 @@
+import {
+  buildMealLogChainMenuSource,
+  matchChainMenuItem,
+  normalizeChainMenuText,
+  type ChainMenuImportRow,
+  type MealLogChainMenuSource,
+} from '@meal-log/shared';
+import { prisma } from '../db/prisma.js';
+
+const IMPORT_BATCH_SIZE = 100;
+
+/**
+ * Looks a text-only meal message up in the imported chain menus. The database picks the chains whose
+ * keys appear in the message, scanning the keys there rather than loading them, and only those chains'
+ * items are fetched.
+ */
+export async function findChainMenuMatch(message: string) {
+  const haystack = normalizeChainMenuText(message);
+  if (!haystack) {
+    return null;
+  }
+
+  const chains = await prisma.$queryRaw<Array<{ chain: string }>>`
+    SELECT DISTINCT "chain" FROM "ChainMenuItem", unnest("chainKeys") AS "key"
+    WHERE "key" <> '' AND strpos(${haystack}, "key") > 0
+  `;
+  const mentioned = chains.map((entry) => entry.chain);
+  if (mentioned.length === 0) {
+    return null;
+  }
+
+  const items = await prisma.chainMenuItem.findMany({
+    where: { chain: { in: mentioned } },
+    include: { names: true },
+    orderBy: { id: 'asc' },
+  });
+  return matchChainMenuItem(message, items)?.item ?? null;
+}
+
+export async function getChainMenuItem(itemId: number) {
+  return prisma.chainMenuItem.findUnique({ where: { id: itemId } });
+}
+
+/** Source line of the nutrition card for a log that was matched to a menu item, whichever estimate it now uses. */
+export async function getMealLogChainMenuSource(
+  meta: Record<string, unknown> | undefined,
+  landingType: string | null,
+): Promise<MealLogChainMenuSource | null> {
+  const itemId = meta?.chainMenuItemId;
+  if (typeof itemId !== 'number') {
+    return null;
+  }
+  const item = await getChainMenuItem(itemId);
+  return item ? buildMealLogChainMenuSource(item, landingType) : null;
+}
+
+/** Names an item answers to; a size is spelled both before and after the name ("牛丼 大盛", "大盛 牛丼"). */
+function buildChainMenuNames(row: ChainMenuImportRow) {
+  const names = [
+    { name: row.name, isAlias: false },
+    ...row.aliases.map((alias) => ({ name: alias, isAlias: true })),
+  ];
+  if (!row.size_label) {
+    return names;
+  }
+  const size = row.size_label;
+  return names.flatMap((entry) => [
+    { name: `${entry.name} ${size}`, isAlias: entry.isAlias },
+    { name: `${size} ${entry.name}`, isAlias: true },
+  ]);
+}
+
+export async function importChainMenuItems(rows: ChainMenuImportRow[]) {
+  let created = 0;
+  let updated = 0;
+
+  for (let offset = 0; offset < rows.length; offset += IMPORT_BATCH_SIZE) {
+    const batch = rows.slice(offset, offset + IMPORT_BATCH_SIZE);
+    await prisma.$transaction(async (tx) => {
+      for (const row of batch) {
+        const key = { source: row.source, sourceCode: row.source_code };
+        const existing = await tx.chainMenuItem.findUnique({
+          where: { source_sourceCode: key },
+          select: { id: true },
+        });
+        const values = {
+          locale: row.locale,
+          chain: row.chain,
+          chainKeys: Array.from(
+            new Set([row.chain, ...row.chain_aliases].map(normalizeChainMenuText).filter(Boolean)),
+          ),
+          name: row.name,
+          sizeLabel: row.size_label ?? null,
+          kcal: row.kcal,
+          proteinG: row.protein_g,
+          fatG: row.fat_g,
+          carbsG: row.carbs_g,
+          saltG: row.salt_g ?? null,
+          servingGrams: row.serving_grams ?? null,
+          sourceUrl: row.source_url ?? null,
+        };
+        const item = existing
+          ? await tx.chainMenuItem.update({ where: { id: existing.id }, data: values })
+          : await tx.chainMenuItem.create({ data: { ...key, ...values } });
+
+        // Names are replaced so a re-import can drop stale aliases.
+        await tx.chainMenuItemName.deleteMany({ where: { itemId: item.id } });
+        await tx.chainMenuItemName.createMany({
+          data: buildChainMenuNames(row).map((entry) => ({
+            itemId: item.id,
+            name: entry.name,
+            normalized: normalizeChainMenuText(entry.name),
+            isAlias: entry.isAlias,
+          })),
+          skipDuplicates: true,
+        });
+
+        if (existing) {
+          updated += 1;
+        } else {
+          created += 1;
+        }
+      }
+    });
+  }
+
+  return { created, updated };
+}
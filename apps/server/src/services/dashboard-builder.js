@@ -1,7 +1,25 @@
 import { DateTime, Interval } from 'luxon';
-import { DASHBOARD_TARGETS } from '../config/dashboard.js';
-
-export function buildDashboardSummary({ logs, range, timezone, todayTotals, dailyTargets: providedTargets }) {
+import {
+  CORE_MICRONUTRIENT_KEYS,
+  DEFAULT_HYDRATION_TARGET_ML,
+  buildMicronutrientRows,
+  resolveMicronutrientTargets,
+  sumMicronutrients,
+  summarizePlannedMeals,
+} from '@meal-log/shared';
+import { DASHBOARD_MICRONUTRIENTS, DASHBOARD_TARGETS } from '../config/dashboard.js';
+
+export function buildDashboardSummary({
+  logs,
+  range,
+  timezone,
+  todayTotals,
+  dailyTargets: providedTargets,
+  microTargets: providedMicroTargets,
+  microKeys = DASHBOARD_MICRONUTRIENTS,
+  hydration = { today_ml: 0, target_ml: DEFAULT_HYDRATION_TARGET_ML },
+  plan = summarizePlannedMeals([]),
+}) {
   const interval = Interval.fromDateTimes(range.fromDate, range.toDate);
   const dailyEntries = [];
   const byDate = new Map();
@@ -57,7 +75,12 @@ export function buildDashboardSummary({ logs, range, timezone, todayTotals, dail
     carbs_g: roundedTotals.carbs_g - targets.carbs_g,
   });
 
-  const micros = buildMicros(roundedTotals, targets, delta);
+  const micros = buildMicronutrientRows({
+    totals: sumMicronutrients(logs.map((log) => log.micros)),
+    dailyTargets: providedMicroTargets ?? resolveMicronutrientTargets({ calories: safeDailyTargets.calories }),
+    days: daysCount,
+    keys: [...CORE_MICRONUTRIENT_KEYS, ...microKeys],
+  });
   const remainingToday = roundMacros({
     calories: Math.max(safeDailyTargets.calories - todayTotals.calories, 0),
     protein_g: Math.max(safeDailyTargets.protein_g - todayTotals.protein_g, 0),
@@ -82,6 +105,8 @@ export function buildDashboardSummary({ logs, range, timezone, todayTotals, dail
       delta,
     },
     micros,
+    hydration,
+    plan,
   };
 }
 
@@ -127,43 +152,6 @@ function roundMacros(macros) {
   };
 }
 
-function buildMicros(total, targets, delta) {
-  return [
-    {
-      key: 'calories',
-      label: 'カロリー',
-      unit: DASHBOARD_TARGETS.calories.unit,
-      total: total.calories,
-      target: targets.calories,
-      delta: delta.calories,
-    },
-    {
-      key: 'protein_g',
-      label: 'たんぱく質',
-      unit: DASHBOARD_TARGETS.protein_g.unit,
-      total: total.protein_g,
-      target: targets.protein_g,
-      delta: delta.protein_g,
-    },
-    {
-      key: 'fat_g',
-      label: '脂質',
-      unit: DASHBOARD_TARGETS.fat_g.unit,
-      total: total.fat_g,
-      target: targets.fat_g,
-      delta: delta.fat_g,
-    },
-    {
-      key: 'carbs_g',
-      label: '炭水化物',
-      unit: DASHBOARD_TARGETS.carbs_g.unit,
-      total: total.carbs_g,
-      target: targets.carbs_g,
-      delta: delta.carbs_g,
-    },
-  ];
-}
-
 function mapMealPeriod(periods) {
   return {
     breakfast: round(periods.breakfast, 0),
@@ -1,8 +1,10 @@
 import { DateTime } from 'luxon';
+import { resolveMicronutrientTargets, summarizePlannedMeals } from '@meal-log/shared';
 import { prisma } from '../db/prisma.js';
 import { DASHBOARD_CACHE_TTL_MS, DASHBOARD_TIMEZONE } from '../config/dashboard.js';
 import { TTLCache } from '../utils/ttl-cache.js';
 import { buildDashboardSummary as buildSummary, getDefaultTargets } from './dashboard-builder.js';
+import { getTodayHydration } from './hydration-service.js';
 
 const cache = new TTLCache();
 
@@ -30,20 +32,37 @@ export async function getDashboardSummary({ userId, period, from, to }) {
       proteinG: true,
       fatG: true,
       carbsG: true,
+      micros: true,
       mealPeriod: true,
     },
   });
 
   const todayTotals = await fetchTodayTotals(userId, timezone);
-  const dailyTargets = await resolveUserTargets(userId);
-  const summary = buildSummary({ logs, range, timezone, todayTotals, dailyTargets });
+  const profile = await fetchTargetProfile(userId);
+  const hydration = await getTodayHydration(userId, timezone);
+  const plan = await fetchPlanSummary(userId, range);
+  const dailyTargets = buildUserTargets(profile);
+  const microTargets = resolveMicronutrientTargets({
+    calories: dailyTargets.calories,
+    gender: profile?.gender,
+  });
+  const summary = buildSummary({
+    logs,
+    range,
+    timezone,
+    todayTotals,
+    dailyTargets,
+    microTargets,
+    hydration,
+    plan,
+  });
   const withMeta = withMetadata(summary, timezone);
   cache.set(cacheKey, withMeta, DASHBOARD_CACHE_TTL_MS);
   return withMeta;
 }
 
 export async function getDashboardTargetsForUser(userId) {
-  return resolveUserTargets(userId);
+  return buildUserTargets(await fetchTargetProfile(userId));
 }
 
 export function invalidateDashboardCacheForUser(_userId) {
@@ -77,6 +96,38 @@ function fetchTodayTotals(userId, timezone) {
     }));
 }
 
+async function fetchPlanSummary(userId, range) {
+  // Plan dates are calendar days, stored as UTC midnight.
+  const toDbDate = (dateTime) => new Date(`${dateTime.toISODate()}T00:00:00.000Z`);
+  const entries = await prisma.plannedMeal.findMany({
+    where: {
+      userId,
+      date: {
+        gte: toDbDate(range.fromDate),
+        lt: toDbDate(range.toDate),
+      },
+    },
+    select: {
+      calories: true,
+      proteinG: true,
+      fatG: true,
+      carbsG: true,
+      status: true,
+    },
+  });
+  return summarizePlannedMeals(
+    entries.map((entry) => ({
+      totals: {
+        kcal: entry.calories,
+        protein_g: entry.proteinG,
+        fat_g: entry.fatG,
+        carbs_g: entry.carbsG,
+      },
+      status: entry.status === 'EATEN' ? 'eaten' : 'planned',
+    })),
+  );
+}
+
 function resolveRange(period, timezone, from, to, userId) {
   switch (period) {
     case 'today':
@@ -153,17 +204,20 @@ function withMetadata(summary, timezone) {
   };
 }
 
-async function resolveUserTargets(userId) {
-  const profile = await prisma.userProfile.findUnique({
+function fetchTargetProfile(userId) {
+  return prisma.userProfile.findUnique({
     where: { userId },
     select: {
       targetCalories: true,
       targetProteinG: true,
       targetFatG: true,
       targetCarbsG: true,
+      gender: true,
     },
   });
+}
 
+function buildUserTargets(profile) {
   const defaults = getDefaultTargets();
   if (!profile) {
     return defaults;
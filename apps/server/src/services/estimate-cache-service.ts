@@ -0,0 +1,194 @@
+import { createHash } from 'node:crypto';
+import { DateTime } from 'luxon';
+import { Prisma } from '@prisma/client';
+import {
+  ESTIMATE_CACHE_TTL_DAYS,
+  GeminiNutritionResponseSchema,
+  buildEstimateCacheKeyPayload,
+  fingerprintPortionHints,
+  formatAiTargetLabel,
+  type EstimateCacheOutcome,
+} from '@meal-log/shared';
+import { prisma } from '../db/prisma.js';
+import { env } from '../env.js';
+import { logger } from '../logger.js';
+import { DEFAULT_LOCALE } from '../utils/locale.js';
+import { resolveAiProviderChain } from './ai-providers.js';
+import {
+  MEAL_ANALYSIS_PROMPT_VERSION,
+  analyzeMealWithGemini,
+  type AnalyzeMealParams,
+  type AnalyzeMealResult,
+} from './gemini-service.js';
+
+export interface EstimateCacheStatsRow {
+  date: string;
+  promptVersion: string;
+  hits: number;
+  misses: number;
+  hitRate: number;
+}
+
+export function buildEstimateCacheKey(
+  params: AnalyzeMealParams,
+  promptVersion = MEAL_ANALYSIS_PROMPT_VERSION,
+) {
+  const payload = buildEstimateCacheKeyPayload({
+    text: params.message,
+    imageHash: params.images?.length
+      ? createHash('sha256')
+          .update(params.images.map((image) => image.base64).join(','))
+          .digest('hex')
+      : null,
+    locale: params.locale ?? DEFAULT_LOCALE,
+    promptVersion,
+    calibration: fingerprintPortionHints(params.portionHints ?? []),
+  });
+  return payload ? createHash('sha256').update(payload).digest('hex') : null;
+}
+
+/**
+ * Analyzes a meal, reusing a stored estimate for the same normalized text and image when one exists
+ * for a model in the current provider chain. Cache errors never fail the analysis itself.
+ */
+export async function analyzeMealWithCache(params: AnalyzeMealParams): Promise<AnalyzeMealResult> {
+  const chain = resolveAiProviderChain();
+  const cacheable =
+    env.NUTRITION_ESTIMATE_CACHE && chain.some((target) => target.provider !== 'mock');
+  const cacheKey = cacheable ? buildEstimateCacheKey(params) : null;
+  if (!cacheKey) {
+    return analyzeMealWithGemini(params);
+  }
+
+  const modelVersions = chain.map(formatAiTargetLabel);
+  const cached = await findCachedEstimate(cacheKey, modelVersions);
+  await recordEstimateCacheOutcome(cached ? 'hit' : 'miss');
+  if (cached) {
+    return cached;
+  }
+
+  const analysis = await analyzeMealWithGemini(params);
+  if (!analysis.meta.model.startsWith('mock')) {
+    await storeEstimate(cacheKey, analysis);
+  }
+  return analysis;
+}
+
+async function findCachedEstimate(
+  cacheKey: string,
+  modelVersions: string[],
+): Promise<AnalyzeMealResult | null> {
+  try {
+    const entry = await prisma.nutritionEstimateCache.findFirst({
+      where: {
+        cacheKey,
+        modelVersion: { in: modelVersions },
+        expiresAt: { gt: new Date() },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+    if (!entry) {
+      return null;
+    }
+    const parsed = GeminiNutritionResponseSchema.safeParse(entry.response);
+    if (!parsed.success) {
+      return null;
+    }
+    await prisma.nutritionEstimateCache.update({
+      where: { id: entry.id },
+      data: { hitCount: { increment: 1 }, lastHitAt: new Date() },
+    });
+    return {
+      response: parsed.data,
+      attemptReports: [],
+      meta: {
+        model: entry.modelVersion,
+        attempt: 1,
+        latencyMs: 0,
+        rawText: JSON.stringify(parsed.data),
+        cacheHit: true,
+      },
+    };
+  } catch (error) {
+    logger.warn({ err: error }, 'nutrition estimate cache lookup failed');
+    return null;
+  }
+}
+
+async function storeEstimate(cacheKey: string, analysis: AnalyzeMealResult) {
+  try {
+    const expiresAt = DateTime.utc().plus({ days: ESTIMATE_CACHE_TTL_DAYS }).toJSDate();
+    const response = analysis.response as unknown as Prisma.InputJsonValue;
+    await prisma.nutritionEstimateCache.upsert({
+      where: { cacheKey_modelVersion: { cacheKey, modelVersion: analysis.meta.model } },
+      create: {
+        cacheKey,
+        promptVersion: MEAL_ANALYSIS_PROMPT_VERSION,
+        modelVersion: analysis.meta.model,
+        response,
+        expiresAt,
+      },
+      update: { response, expiresAt, hitCount: 0, lastHitAt: null },
+    });
+  } catch (error) {
+    logger.warn({ err: error }, 'nutrition estimate cache store failed');
+  }
+}
+
+async function recordEstimateCacheOutcome(outcome: EstimateCacheOutcome) {
+  const metricDate = DateTime.utc().startOf('day').toJSDate();
+  try {
+    await prisma.estimateCacheMetric.upsert({
+      where: {
+        metricDate_promptVersion: { metricDate, promptVersion: MEAL_ANALYSIS_PROMPT_VERSION },
+      },
+      create: {
+        metricDate,
+        promptVersion: MEAL_ANALYSIS_PROMPT_VERSION,
+        hits: outcome === 'hit' ? 1 : 0,
+        misses: outcome === 'miss' ? 1 : 0,
+      },
+      update: outcome === 'hit' ? { hits: { increment: 1 } } : { misses: { increment: 1 } },
+    });
+  } catch (error) {
+    logger.warn({ err: error }, 'nutrition estimate cache metric update failed');
+  }
+}
+
+/** Deletes cached estimates; without a prompt version every version except the current one is dropped. */
+export async function invalidateEstimateCache(params: { promptVersion?: string } = {}) {
+  const result = await prisma.nutritionEstimateCache.deleteMany({
+    where: params.promptVersion
+      ? { promptVersion: params.promptVersion }
+      : { promptVersion: { not: MEAL_ANALYSIS_PROMPT_VERSION } },
+  });
+  return result.count;
+}
+
+export async function pruneExpiredEstimates(now: Date = new Date()) {
+  const result = await prisma.nutritionEstimateCache.deleteMany({
+    where: { expiresAt: { lte: now } },
+  });
+  return result.count;
+}
+
+export async function getEstimateCacheStats(days = 7): Promise<EstimateCacheStatsRow[]> {
+  const since = DateTime.utc()
+    .startOf('day')
+    .minus({ days: Math.max(days - 1, 0) })
+    .toJSDate();
+  const rows = await prisma.estimateCacheMetric.findMany({
+    where: { metricDate: { gte: since } },
+    orderBy: [{ metricDate: 'desc' }, { promptVersion: 'asc' }],
+  });
+  return rows.map((row) => {
+    const total = row.hits + row.misses;
+    return {
+      date: DateTime.fromJSDate(row.metricDate, { zone: 'utc' }).toISODate() ?? '',
+      promptVersion: row.promptVersion,
+      hits: row.hits,
+      misses: row.misses,
+      hitRate: total > 0 ? Number((row.hits / total).toFixed(3)) : 0,
+    };
+  });
+}
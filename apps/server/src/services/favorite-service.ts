@@ -1,4 +1,4 @@
-import { Prisma } from '@prisma/client';
+import { Prisma, type MealPeriod } from '@prisma/client';
 import {
   FavoriteMealCreateRequestSchema,
   FavoriteMealDraftSchema,
@@ -15,6 +15,7 @@ import {
 import { prisma } from '../db/prisma.js';
 import { StatusCodes } from 'http-status-codes';
 import { DEFAULT_LOCALE, resolveMealLogLocalization, type LocalizationResolution } from '../utils/locale.js';
+import { createMealLogItems } from './meal-log-item-service.js';
 
 const DEFAULT_NOTES = null;
 
@@ -157,7 +158,11 @@ export async function deleteFavoriteMeal(userId: number, favoriteId: number): Pr
   }
 }
 
-export async function logFavoriteMeal(userId: number, favoriteId: number) {
+export async function logFavoriteMeal(
+  userId: number,
+  favoriteId: number,
+  options: { mealPeriod?: MealPeriod } = {},
+) {
   const favorite = await prisma.favoriteMeal.findFirst({
     where: { id: favoriteId, userId },
     include: {
@@ -189,8 +194,10 @@ export async function logFavoriteMeal(userId: number, favoriteId: number) {
       zeroFloored: false,
       guardrailNotes: null,
       landingType: baseResponse.landing_type,
+      mealPeriod: options.mealPeriod,
     },
   });
+  await createMealLogItems(prisma, log.id, baseResponse);
 
   const localization = resolveMealLogLocalization(aiPayload, DEFAULT_LOCALE);
   const translations = cloneTranslationsMap(localization.translations);
@@ -0,0 +1,216 @@
+import type { Prisma } from '@prisma/client';
+import { StatusCodes } from 'http-status-codes';
+import {
+  buildFoodSearchFragments,
+  normalizeFoodText,
+  pickFoodDisplayName,
+  rankFoodMatches,
+  resolveFoodPortion,
+  scaleFoodNutrients,
+  type FoodImportRow,
+  type FoodSearchCandidate,
+  type FoodSearchNameEntry,
+  type Locale,
+  type ManualMealLogRequest,
+} from '@meal-log/shared';
+import { prisma } from '../db/prisma.js';
+import { DEFAULT_LOCALE } from '../utils/locale.js';
+import { createManualMealLog } from './manual-log-service.js';
+
+const CANDIDATE_POOL_SIZE = 200;
+const IMPORT_BATCH_SIZE = 100;
+
+type FoodWithNames = Prisma.FoodGetPayload<{ include: { names: true } }>;
+
+export async function searchFoodCatalogue(params: {
+  query: string;
+  locale: Locale;
+  limit: number;
+}): Promise<FoodSearchCandidate[]> {
+  const normalized = normalizeFoodText(params.query);
+
+  if (!normalized) {
+    const foods = await prisma.food.findMany({
+      include: { names: true },
+      orderBy: { id: 'asc' },
+      take: params.limit,
+    });
+    return foods.map((food) => mapFoodCandidate(food, params.locale));
+  }
+
+  // Bigram matches are unordered, so on a large catalogue a common bigram could fill the pool before
+  // the closest names; exact and prefix matches on the whole key claim their places first.
+  const fragments = buildFoodSearchFragments(normalized);
+  const pool: number[] = [];
+  for (const where of [
+    { normalized },
+    { normalized: { startsWith: normalized } },
+    { OR: fragments.map((fragment) => ({ normalized: { contains: fragment } })) },
+  ] satisfies Prisma.FoodNameWhereInput[]) {
+    if (pool.length >= CANDIDATE_POOL_SIZE) {
+      break;
+    }
+    const rows = await prisma.foodName.findMany({
+      where: { ...where, foodId: { notIn: pool } },
+      select: { foodId: true },
+      distinct: ['foodId'],
+      take: CANDIDATE_POOL_SIZE - pool.length,
+    });
+    pool.push(...rows.map((row) => row.foodId));
+  }
+  if (pool.length === 0) {
+    return [];
+  }
+
+  const foods = await prisma.food.findMany({
+    where: { id: { in: pool } },
+    include: { names: true },
+  });
+
+  return rankFoodMatches(params.query, foods, { locale: params.locale, limit: params.limit }).map(
+    (match) => mapFoodCandidate(match.food, params.locale, match),
+  );
+}
+
+export async function getFoodById(foodId: number) {
+  return prisma.food.findUnique({ where: { id: foodId }, include: { names: true } });
+}
+
+export async function logCatalogueFood(params: {
+  userId: number;
+  foodId: number;
+  request: ManualMealLogRequest;
+  locale: Locale;
+  timezone?: string;
+  idempotencyKey?: string;
+}) {
+  const food = await getFoodById(params.foodId);
+  if (!food) {
+    const error = new Error('食品が見つかりませんでした');
+    Object.assign(error, { statusCode: StatusCodes.NOT_FOUND, expose: true });
+    throw error;
+  }
+
+  const portion = resolveFoodPortion(
+    {
+      per100g: {
+        kcal: food.kcalPer100g,
+        protein_g: food.proteinPer100g,
+        fat_g: food.fatPer100g,
+        carbs_g: food.carbsPer100g,
+      },
+      servingGrams: food.servingGrams,
+    },
+    params.request,
+  );
+
+  const primaryLocales = Array.from(
+    new Set(food.names.filter((entry) => !entry.isAlias).map((entry) => entry.locale)),
+  );
+  const names = (primaryLocales.length ? primaryLocales : [DEFAULT_LOCALE]).map((locale) => ({
+    locale,
+    name: pickFoodDisplayName(food.names, locale)?.name ?? food.sourceCode,
+  }));
+
+  return createManualMealLog({
+    userId: params.userId,
+    names,
+    portion,
+    request: params.request,
+    locale: params.locale,
+    timezone: params.timezone,
+    sourceMeta: { foodId: food.id },
+    idempotencyPrefix: `food-${food.id}`,
+    idempotencyKey: params.idempotencyKey,
+  });
+}
+
+export async function importFoods(rows: FoodImportRow[]) {
+  let created = 0;
+  let updated = 0;
+
+  for (let offset = 0; offset < rows.length; offset += IMPORT_BATCH_SIZE) {
+    const batch = rows.slice(offset, offset + IMPORT_BATCH_SIZE);
+    await prisma.$transaction(async (tx) => {
+      for (const row of batch) {
+        const key = { source: row.source, sourceCode: row.source_code };
+        const existing = await tx.food.findUnique({
+          where: { source_sourceCode: key },
+          select: { id: true },
+        });
+        const nutrients = {
+          kcalPer100g: row.kcal_per_100g,
+          proteinPer100g: row.protein_g_per_100g,
+          fatPer100g: row.fat_g_per_100g,
+          carbsPer100g: row.carbs_g_per_100g,
+          servingGrams: row.serving_grams ?? 100,
+          servingLabel: row.serving_label ?? null,
+        };
+        const food = existing
+          ? await tx.food.update({ where: { id: existing.id }, data: nutrients })
+          : await tx.food.create({ data: { ...key, ...nutrients } });
+
+        // Names are replaced per locale so a re-import can drop stale aliases.
+        await tx.foodName.deleteMany({ where: { foodId: food.id, locale: row.locale } });
+        await tx.foodName.createMany({
+          data: [
+            {
+              foodId: food.id,
+              locale: row.locale,
+              name: row.name,
+              normalized: normalizeFoodText(row.name),
+              isAlias: false,
+            },
+            ...row.aliases.map((alias) => ({
+              foodId: food.id,
+              locale: row.locale,
+              name: alias,
+              normalized: normalizeFoodText(alias),
+              isAlias: true,
+            })),
+          ],
+          skipDuplicates: true,
+        });
+
+        if (existing) {
+          updated += 1;
+        } else {
+          created += 1;
+        }
+      }
+    });
+  }
+
+  return { created, updated };
+}
+
+export function mapFoodCandidate(
+  food: FoodWithNames,
+  locale: Locale,
+  match?: { score: number; matchedName: FoodSearchNameEntry },
+): FoodSearchCandidate {
+  const display = pickFoodDisplayName(food.names, locale);
+  const per100g = {
+    kcal: food.kcalPer100g,
+    protein_g: food.proteinPer100g,
+    fat_g: food.fatPer100g,
+    carbs_g: food.carbsPer100g,
+  };
+  const perServing = scaleFoodNutrients(per100g, food.servingGrams);
+  const matchedName = match?.matchedName.isAlias ? match.matchedName.name : null;
+
+  return {
+    id: food.id,
+    name: display?.name ?? food.sourceCode,
+    locale: display?.locale ?? locale,
+    matched_name: matchedName,
+    calories: perServing.kcal,
+    protein_g: perServing.protein_g,
+    fat_g: perServing.fat_g,
+    carbs_g: perServing.carbs_g,
+    serving: { label: food.servingLabel, grams: food.servingGrams },
+    per_100g: per100g,
+    source: food.source,
+    ...(match ? { score: Number(match.score.toFixed(3)) } : {}),
+  };
+}
@@ -0,0 +1,126 @@
+import { FoodImportRowSchema, type FoodImportRow, type Locale } from '@meal-log/shared';
+import { parseCsvRecords } from '../utils/csv.js';
+
+export interface FoodCsvColumnPreset {
+  code: string;
+  name: string;
+  aliases?: string;
+  kcal: string;
+  protein: string;
+  fat: string;
+  carbs: string;
+  servingGrams?: string;
+  servingLabel?: string;
+  locale?: string;
+}
+
+export const FOOD_CSV_PRESETS = {
+  // Our own export format: one row per food, aliases separated by "|".
+  generic: {
+    code: 'code',
+    name: 'name',
+    aliases: 'aliases',
+    kcal: 'kcal',
+    protein: 'protein_g',
+    fat: 'fat_g',
+    carbs: 'carbs_g',
+    servingGrams: 'serving_grams',
+    servingLabel: 'serving_label',
+    locale: 'locale',
+  },
+  // 日本食品標準成分表 (MEXT) flattened to a single header row.
+  mext: {
+    code: '食品番号',
+    name: '食品名',
+    aliases: '別名',
+    kcal: 'エネルギー（kcal）',
+    protein: 'たんぱく質',
+    fat: '脂質',
+    carbs: '炭水化物',
+  },
+} satisfies Record<string, FoodCsvColumnPreset>;
+
+export type FoodCsvPresetName = keyof typeof FOOD_CSV_PRESETS;
+
+export interface FoodCsvImportOptions {
+  source: string;
+  locale: Locale;
+  preset?: FoodCsvPresetName;
+}
+
+export interface FoodCsvParseResult {
+  rows: FoodImportRow[];
+  skipped: Array<{ line: number; reason: string }>;
+}
+
+/**
+ * Parses a nutrient value as printed in composition tables.
+ * "Tr" (trace) and "-" (not measured) count as 0, "(1.2)" (estimated) as 1.2.
+ */
+export function parseNutrientValue(raw: string | undefined): number | null {
+  if (raw === undefined) return null;
+  const trimmed = raw.trim();
+  if (!trimmed) return null;
+  if (/^(tr|-|—|\*)$/i.test(trimmed)) return 0;
+  const unwrapped = trimmed.replace(/^\((.*)\)$/, '$1').replace(/,/g, '');
+  const value = Number(unwrapped);
+  return Number.isFinite(value) && value >= 0 ? value : null;
+}
+
+export function parseFoodCsv(text: string, options: FoodCsvImportOptions): FoodCsvParseResult {
+  const preset: FoodCsvColumnPreset = FOOD_CSV_PRESETS[options.preset ?? 'generic'];
+  const records = parseCsvRecords(text);
+  const rows: FoodImportRow[] = [];
+  const skipped: FoodCsvParseResult['skipped'] = [];
+
+  records.forEach((record, index) => {
+    // +2: header row plus 1-based line numbers
+    const line = index + 2;
+    const code = record[preset.code];
+    const name = record[preset.name];
+    if (!code || !name) {
+      skipped.push({ line, reason: 'missing code or name' });
+      return;
+    }
+
+    const kcal = parseNutrientValue(record[preset.kcal]);
+    const protein = parseNutrientValue(record[preset.protein]);
+    const fat = parseNutrientValue(record[preset.fat]);
+    const carbs = parseNutrientValue(record[preset.carbs]);
+    if (kcal === null || protein === null || fat === null || carbs === null) {
+      skipped.push({ line, reason: 'invalid nutrient value' });
+      return;
+    }
+
+    const aliases = preset.aliases
+      ? (record[preset.aliases] ?? '')
+          .split(/[|｜]/)
+          .map((alias) => alias.trim())
+          .filter((alias) => alias.length > 0 && alias !== name)
+      : [];
+
+    const parsed = FoodImportRowSchema.safeParse({
+      source: options.source,
+      source_code: code,
+      locale: (preset.locale && record[preset.locale]) || options.locale,
+      name,
+      aliases,
+      kcal_per_100g: kcal,
+      protein_g_per_100g: protein,
+      fat_g_per_100g: fat,
+      carbs_g_per_100g: carbs,
+      serving_grams: preset.servingGrams
+        ? parseNutrientValue(record[preset.servingGrams]) || null
+        : null,
+      serving_label: preset.servingLabel ? record[preset.servingLabel] || null : null,
+    });
+
+    if (!parsed.success) {
+      skipped.push({ line, reason: parsed.error.issues[0]?.message ?? 'invalid row' });
+      return;
+    }
+    rows.push(parsed.data);
+  });
+
+  return { rows, skipped };
+}
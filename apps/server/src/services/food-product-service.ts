@@ -0,0 +1,216 @@
+import {
+  Prisma,
+  type FoodProduct as FoodProductRecord,
+  type FoodProductOverride,
+} from '@prisma/client';
+import { StatusCodes } from 'http-status-codes';
+import {
+  normalizeBarcode,
+  perServingToPer100g,
+  resolveFoodPortion,
+  type BarcodeMealLogRequest,
+  type FoodProduct,
+  type FoodProductDraft,
+  type FoodProductLabelResponse,
+  type FoodProductLookupResponse,
+  type Locale,
+} from '@meal-log/shared';
+import { prisma } from '../db/prisma.js';
+import { evaluateAiUsage, recordAiUsage, buildUsageLimitError } from './ai-usage-service.js';
+import { analyzeMealWithGemini } from './gemini-service.js';
+import { createManualMealLog } from './manual-log-service.js';
+
+const DEFAULT_LABEL_SERVING_GRAMS = 100;
+
+function parseBarcodeOrThrow(code: string) {
+  const barcode = normalizeBarcode(code);
+  if (!barcode) {
+    const error = new Error('バーコードの形式が正しくありません');
+    Object.assign(error, { statusCode: StatusCodes.BAD_REQUEST, expose: true });
+    throw error;
+  }
+  return barcode;
+}
+
+export async function lookupFoodProduct(userId: number, code: string): Promise<FoodProductLookupResponse> {
+  const barcode = parseBarcodeOrThrow(code);
+  const record = await findProductForUser(userId, barcode);
+  return {
+    ok: true,
+    barcode,
+    found: Boolean(record),
+    product: record ? mapFoodProduct(record) : null,
+  };
+}
+
+/**
+ * Reads a nutrition-facts label photo for a product that is not in the table yet.
+ * The result is only a draft: it is saved once the user confirms it via {@link logFoodProduct}.
+ */
+export async function analyzeFoodLabel(params: {
+  userId: number;
+  code: string;
+  file: Express.Multer.File;
+  locale: Locale;
+}): Promise<FoodProductLabelResponse> {
+  const barcode = parseBarcodeOrThrow(params.code);
+
+  const usageStatus = await evaluateAiUsage(params.userId);
+  if (!usageStatus.allowed) {
+    throw buildUsageLimitError(usageStatus);
+  }
+
+  const analysis = await analyzeMealWithGemini({
+    message: [
+      `Packaged food, barcode ${barcode}. The photo shows its nutrition facts label.`,
+      'Report the printed values for ONE serving: totals are per serving,',
+      'and items[0] is the product name with grams set to the serving size in grams.',
+    ].join(' '),
+    images: [{ base64: params.file.buffer.toString('base64'), mimeType: params.file.mimetype }],
+    locale: params.locale,
+  });
+
+  const usage = await recordAiUsage({
+    userId: params.userId,
+    usageDate: usageStatus.usageDate,
+    consumeCredit: usageStatus.consumeCredit,
+  });
+
+  const response = analysis.response;
+  const servingGrams = response.items[0]?.grams || DEFAULT_LABEL_SERVING_GRAMS;
+
+  return {
+    ok: true,
+    barcode,
+    product: {
+      barcode,
+      name: response.items[0]?.name || response.dish,
+      brand: null,
+      locale: params.locale,
+      serving: { label: null, grams: servingGrams },
+      per_100g: perServingToPer100g(response.totals, servingGrams),
+      source: 'ai_label',
+      confirmed: false,
+    },
+    usage,
+  };
+}
+
+/**
+ * Logs one portion of a scanned product without an AI call. When the request carries
+ * `product`, the user-confirmed data is saved first so the next scan resolves instantly.
+ */
+export async function logFoodProduct(params: {
+  userId: number;
+  code: string;
+  request: BarcodeMealLogRequest;
+  locale: Locale;
+  timezone?: string;
+  idempotencyKey?: string;
+}) {
+  const barcode = parseBarcodeOrThrow(params.code);
+
+  const record = params.request.product
+    ? await saveConfirmedProduct(barcode, params.request.product, params.userId, params.locale)
+    : await findProductForUser(params.userId, barcode);
+
+  if (!record) {
+    const error = new Error('商品が登録されていません');
+    Object.assign(error, { statusCode: StatusCodes.NOT_FOUND, expose: true });
+    throw error;
+  }
+
+  const portion = resolveFoodPortion(
+    {
+      per100g: {
+        kcal: record.kcalPer100g,
+        protein_g: record.proteinPer100g,
+        fat_g: record.fatPer100g,
+        carbs_g: record.carbsPer100g,
+      },
+      servingGrams: record.servingGrams,
+    },
+    params.request,
+  );
+
+  return createManualMealLog({
+    userId: params.userId,
+    names: [{ locale: record.locale, name: record.name }],
+    portion,
+    request: params.request,
+    locale: params.locale,
+    timezone: params.timezone,
+    sourceMeta: { barcode },
+    idempotencyPrefix: `barcode-${barcode}`,
+    idempotencyKey: params.idempotencyKey,
+  });
+}
+
+/** The user's own correction of a product wins over the shared row. */
+async function findProductForUser(userId: number, barcode: string) {
+  const override = await prisma.foodProductOverride.findUnique({
+    where: { userId_barcode: { userId, barcode } },
+  });
+  return override ?? prisma.foodProduct.findUnique({ where: { barcode } });
+}
+
+/**
+ * The first confirmed draft of a barcode becomes the shared row. Once it exists, a client payload
+ * never rewrites it: later drafts are kept as that user's override instead.
+ */
+async function saveConfirmedProduct(
+  barcode: string,
+  draft: FoodProductDraft,
+  userId: number,
+  locale: Locale,
+): Promise<FoodProductRecord | FoodProductOverride> {
+  const data = {
+    name: draft.name,
+    brand: draft.brand ?? null,
+    locale,
+    kcalPer100g: draft.per_100g.kcal,
+    proteinPer100g: draft.per_100g.protein_g,
+    fatPer100g: draft.per_100g.fat_g,
+    carbsPer100g: draft.per_100g.carbs_g,
+    servingGrams: draft.serving.grams,
+    servingLabel: draft.serving.label,
+  };
+
+  const shared = await prisma.foodProduct.findUnique({ where: { barcode }, select: { id: true } });
+  if (!shared) {
+    try {
+      return await prisma.foodProduct.create({
+        data: { barcode, ...data, source: 'user', confirmed: true, contributedById: userId },
+      });
+    } catch (error) {
+      // Another user saved the barcode first; theirs stays the shared row.
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        throw error;
+      }
+    }
+  }
+
+  return prisma.foodProductOverride.upsert({
+    where: { userId_barcode: { userId, barcode } },
+    create: { userId, barcode, ...data },
+    update: data,
+  });
+}
+
+export function mapFoodProduct(record: FoodProductRecord | FoodProductOverride): FoodProduct {
+  return {
+    barcode: record.barcode,
+    name: record.name,
+    brand: record.brand,
+    locale: record.locale,
+    serving: { label: record.servingLabel, grams: record.servingGrams },
+    per_100g: {
+      kcal: record.kcalPer100g,
+      protein_g: record.proteinPer100g,
+      fat_g: record.fatPer100g,
+      carbs_g: record.carbsPer100g,
+    },
+    source: 'source' in record ? (record.source as FoodProduct['source']) : 'user',
+    confirmed: 'confirmed' in record ? record.confirmed : true,
+  };
+}
@@ -1,20 +1,39 @@
 import {
+  CLARIFYING_QUESTIONS_PROMPT,
+  CLARIFYING_QUESTIONS_PROMPT_TYPE,
   GeminiNutritionResponseSchema,
+  formatAiTargetLabel,
+  formatClarificationForPrompt,
+  formatPortionHintsForPrompt,
+  resolveAppliedPortionCalibrations,
+  selectAttemptTarget,
+  type AiPromptImage,
   type GeminiNutritionResponse,
   type HedgeAttemptReport,
   type Locale,
+  type PortionCalibrationHint,
 } from '@meal-log/shared';
-import { env, timeoutConfig } from '../env.js';
+import { timeoutConfig } from '../env.js';
 import { DEFAULT_LOCALE } from '../utils/locale.js';
+import { AiAttemptError, buildMockResponse, getAiProvider, resolveAiProviderChain } from './ai-providers.js';
 
-interface AnalyzeMealParams {
+/** Bump whenever buildPrompt changes meaningfully; cached estimates are keyed by it. */
+export const MEAL_ANALYSIS_PROMPT_VERSION = 'v3';
+
+export interface AnalyzeMealParams {
   message: string;
-  imageBase64?: string;
-  imageMimeType?: string;
+  images?: AiPromptImage[];
   locale?: Locale;
+  /** The user's own serving sizes and learned corrections; see `loadPortionCalibrationHints`. */
+  portionHints?: PortionCalibrationHint[];
+  /** Second pass after the user answered the follow-up questions of `draft`. */
+  clarification?: {
+    draft: GeminiNutritionResponse;
+    answers: Array<{ question: string; answer: string }>;
+  };
 }
 
-interface AnalyzeMealResult {
+export interface AnalyzeMealResult {
   response: GeminiNutritionResponse;
   attemptReports: HedgeAttemptReport[];
   meta: {
@@ -22,21 +41,17 @@ interface AnalyzeMealResult {
     attempt: number;
     latencyMs: number;
     rawText: string;
+    cacheHit?: boolean;
   };
 }
 
-const PRIMARY_MODEL = 'models/gemini-2.5-flash';
-const FALLBACK_MODEL = 'models/gemini-2.5-pro';
-
-class AiAttemptError extends Error {
-  constructor(message: string, readonly cause?: unknown) {
-    super(message);
-    this.name = 'AiAttemptError';
-  }
-}
-
+/**
+ * Runs hedged attempts over the configured provider chain; each attempt picks its own provider and model,
+ * so a Gemini quota failure can be answered by the next provider in the chain.
+ */
 export async function analyzeMealWithGemini(params: AnalyzeMealParams): Promise<AnalyzeMealResult> {
-  if (!env.GEMINI_API_KEY) {
+  const chain = resolveAiProviderChain();
+  if (chain.every((target) => target.provider === 'mock')) {
     const mock = buildMockResponse(params.message, params.locale);
     const meta = { model: 'mock', attempt: 1, latencyMs: 12, rawText: JSON.stringify(mock) };
     return { response: mock, attemptReports: [{ model: 'mock', ok: true, latencyMs: 12, attempt: 1, textLen: meta.rawText.length }], meta };
@@ -48,6 +63,14 @@ export async function analyzeMealWithGemini(params: AnalyzeMealParams): Promise<
   const errors: Error[] = [];
 
   const totalTimeout = timeoutConfig.AI_TOTAL_TIMEOUT_MS;
+  const portionHints = params.portionHints ?? [];
+  const prompt = buildPrompt(
+    params.message,
+    params.locale,
+    params.images?.length ?? 0,
+    portionHints,
+    params.clarification,
+  );
 
   return await new Promise<AnalyzeMealResult>((resolve, reject) => {
     const totalTimer = setTimeout(() => {
@@ -76,7 +99,8 @@ export async function analyzeMealWithGemini(params: AnalyzeMealParams): Promise<
 
     for (let attemptIndex = 0; attemptIndex < timeoutConfig.AI_MAX_ATTEMPTS; attemptIndex += 1) {
       const attemptNumber = attemptIndex + 1;
-      const model = attemptNumber === timeoutConfig.AI_MAX_ATTEMPTS ? FALLBACK_MODEL : PRIMARY_MODEL;
+      const target = selectAttemptTarget(chain, attemptIndex);
+      const model = formatAiTargetLabel(target);
       const delay = attemptIndex * timeoutConfig.AI_HEDGE_DELAY_MS;
 
       setTimeout(async () => {
@@ -86,8 +110,18 @@ export async function analyzeMealWithGemini(params: AnalyzeMealParams): Promise<
         const timer = setTimeout(() => controller.abort('AI_ATTEMPT_TIMEOUT'), timeoutConfig.AI_ATTEMPT_TIMEOUT_MS);
 
         try {
-          const rawText = await callGemini(model, params, controller.signal);
+          const rawText = await getAiProvider(target.provider).generate(
+            target.model,
+            {
+              prompt,
+              message: params.message,
+              locale: params.locale,
+              images: params.images,
+            },
+            controller.signal,
+          );
           const parsed = GeminiNutritionResponseSchema.parse(JSON.parse(rawText));
+          parsed.calibration_applied = resolveAppliedPortionCalibrations(parsed.calibration_applied, portionHints);
           const latencyMs = Date.now() - started;
 
           const report: HedgeAttemptReport = {
@@ -123,109 +157,36 @@ export async function analyzeMealWithGemini(params: AnalyzeMealParams): Promise<
   });
 }
 
-async function callGemini(model: string, params: AnalyzeMealParams, signal: AbortSignal) {
-  const url = new URL(`https://generativelanguage.googleapis.com/v1beta/${model}:generateContent`);
-  url.searchParams.set('key', env.GEMINI_API_KEY!);
-
-  const prompt = buildPrompt(params.message, params.locale);
-
-  const requestBody: Record<string, unknown> = {
-    contents: [
-      {
-        parts: [
-          ...(params.imageBase64 && params.imageMimeType
-            ? [
-                {
-                  inline_data: {
-                    mime_type: params.imageMimeType,
-                    data: params.imageBase64,
-                  },
-                },
-              ]
-            : []),
-          {
-            text: prompt,
-          },
-        ],
-        role: 'user',
-      },
-    ],
-    generationConfig: {
-      temperature: 0.2,
-      topK: 32,
-      topP: 0.8,
-      responseMimeType: 'application/json',
-    },
-  };
-
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(requestBody),
-    signal,
-  });
-
-  if (!response.ok) {
-    const text = await response.text();
-    throw new AiAttemptError(`Gemini responded with ${response.status}`, text);
-  }
-
-  const data = (await response.json()) as any;
-  const firstCandidate: string | undefined = data?.candidates?.[0]?.content?.parts?.[0]?.text;
-  if (!firstCandidate) {
-    throw new AiAttemptError('Gemini returned no candidates');
-  }
-
-  return firstCandidate;
-}
-
-function buildPrompt(userMessage: string, locale: Locale = DEFAULT_LOCALE) {
+function buildPrompt(
+  userMessage: string,
+  locale: Locale = DEFAULT_LOCALE,
+  imageCount = 0,
+  portionHints: PortionCalibrationHint[] = [],
+  clarification?: AnalyzeMealParams['clarification'],
+) {
+  const portionInstruction = formatPortionHintsForPrompt(portionHints);
+  const clarificationInstruction = clarification
+    ? formatClarificationForPrompt(clarification.draft, clarification.answers)
+    : CLARIFYING_QUESTIONS_PROMPT;
   return `You are a nutrition analyst. Analyze the following meal description and respond ONLY with a JSON object that matches this TypeScript type: {
   "dish": string,
   "confidence": number between 0 and 1,
   "totals": { "kcal": number, "protein_g": number, "fat_g": number, "carbs_g": number },
+  "micros"?: { "fiber_g"?: number, "sugar_g"?: number, "saturated_fat_g"?: number, "sodium_mg"?: number, "salt_g"?: number, "potassium_mg"?: number, "calcium_mg"?: number, "iron_mg"?: number, "vitamin_c_mg"?: number, "vitamin_d_ug"?: number },
   "items": Array<{ "name": string, "grams": number, "protein_g"?: number, "fat_g"?: number, "carbs_g"?: number }>,
   "warnings"?: string[],
   "landing_type"?: string | null,
+  "dishes"?: Array<{ "dish": string, "totals": { "kcal": number, "protein_g": number, "fat_g": number, "carbs_g": number }, "item_indexes": number[] }>,${
+    portionInstruction ? '\n  "calibration_applied"?: Array<{ "label": string }>,' : ''
+  }${clarification ? '' : `\n  ${CLARIFYING_QUESTIONS_PROMPT_TYPE},`}
   "meta"?: { "model": string, "fallback_model_used"?: boolean }
 }.
-Numbers must be floats, never strings. Calories must be > 0 when meal is realistic. Use realistic default assumptions if unspecified. The end-user locale is ${locale}; consider locale-specific context but keep all text fields in English (United States).
+Numbers must be floats, never strings. Calories must be > 0 when meal is realistic. Use realistic default assumptions if unspecified. Always estimate micros.salt_g (salt equivalent, 食塩相当量) and micros.sodium_mg, including seasonings and sauces; omit other micros you cannot estimate. The end-user locale is ${locale}; consider locale-specific context but keep all text fields in English (United States).
+When the meal has two or more clearly separate dishes (e.g. a set meal or a tray), also list them in "dishes"; their totals must add up to the top-level totals and "item_indexes" are the zero-based positions in "items" that belong to each dish. Omit "dishes" for a single dish.${
+    imageCount > 1
+      ? ` The ${imageCount} attached photos show the same meal, possibly from different angles; count each dish only once.`
+      : ''
+  }${portionInstruction ? `\n${portionInstruction}` : ''}
+${clarificationInstruction}
 User description: ${userMessage}`;
 }
-
-function buildMockResponse(message: string, locale: Locale | undefined): GeminiNutritionResponse {
-  const baseCalories = Math.max(200, Math.min(900, message.length * 15));
-  const protein = Math.round(baseCalories * 0.3);
-  const fat = Math.round(baseCalories * 0.25);
-  const carbs = Math.round(baseCalories * 0.45);
-
-  return {
-    dish: message.slice(0, 60) || 'Meal',
-    confidence: 0.65,
-    totals: {
-      kcal: baseCalories,
-      protein_g: Number((protein / 4).toFixed(1)),
-      fat_g: Number((fat / 9).toFixed(1)),
-      carbs_g: Number((carbs / 4).toFixed(1)),
-    },
-    items: [
-      {
-        name: message || 'Assorted ingredients',
-        grams: 300,
-        protein_g: Number(((protein / 4) * 0.8).toFixed(1)),
-        fat_g: Number(((fat / 9) * 0.7).toFixed(1)),
-        carbs_g: Number(((carbs / 4) * 0.85).toFixed(1)),
-      },
-    ],
-    warnings: [...(locale && locale !== DEFAULT_LOCALE ? [`mock-locale:${locale}`] : [])],
-    landing_type: 'mock',
-    meta: {
-      model: 'mock-gemini',
-      fallback_model_used: false,
-      attempt: 1,
-      latencyMs: 12,
-    },
-  };
-}
@@ -0,0 +1,308 @@
+import { DateTime } from 'luxon';
+import { IapPlatform, type IapReceipt } from '@prisma/client';
+import { resolvePremiumDaysForProduct } from '@meal-log/shared';
+import { prisma } from '../db/prisma.js';
+import { env } from '../env.js';
+import { logger } from '../logger.js';
+import { resolvePremiumGrant } from './iap-service.js';
+import {
+  PLAY_SUBSCRIPTION_NOTIFICATION,
+  finalizeGooglePlayPurchase,
+  resolveGooglePlayClient,
+  toPlayProductVerification,
+  toPlaySubscriptionVerification,
+  type PlayDeveloperNotification,
+} from './google-play-service.js';
+
+const PLAY_ONE_TIME_PRODUCT_PURCHASED = 1;
+
+type NotificationResult = { handled: true } | { handled: false; reason: string };
+
+export async function processGooglePlayNotification(
+  notification: PlayDeveloperNotification,
+): Promise<NotificationResult> {
+  const packageName = notification.packageName ?? null;
+  if (env.GOOGLE_PLAY_PACKAGE_NAME && packageName && packageName !== env.GOOGLE_PLAY_PACKAGE_NAME) {
+    logger.warn({ packageName }, 'Google Play notification ignored (package mismatch)');
+    return { handled: false, reason: 'package_mismatch' };
+  }
+
+  if (notification.voidedPurchaseNotification) {
+    return processVoidedPurchase(notification.voidedPurchaseNotification);
+  }
+  if (notification.subscriptionNotification) {
+    return processSubscriptionNotification(notification.subscriptionNotification);
+  }
+  if (notification.oneTimeProductNotification) {
+    return processOneTimeProductNotification(notification.oneTimeProductNotification);
+  }
+
+  logger.info(
+    { version: notification.version },
+    'Google Play notification ignored (no purchase data)',
+  );
+  return {
+    handled: false,
+    reason: notification.testNotification ? 'test_notification' : 'unsupported_notification',
+  };
+}
+
+/**
+ * Play reports renewals, cancellations, holds and revocations by purchase token only; the current
+ * state comes from the Developer API. Subscriptions are granted through `/iap/purchase` first, so
+ * tokens without a stored receipt are left for the app to report.
+ */
+async function processSubscriptionNotification(
+  event: NonNullable<PlayDeveloperNotification['subscriptionNotification']>,
+): Promise<NotificationResult> {
+  const purchaseToken = event.purchaseToken;
+  if (!purchaseToken) {
+    return { handled: false, reason: 'missing_purchase_token' };
+  }
+
+  const subscription = await resolveGooglePlayClient().getSubscriptionPurchase(purchaseToken);
+  if (
+    event.notificationType === PLAY_SUBSCRIPTION_NOTIFICATION.PENDING_PURCHASE_CANCELED ||
+    subscription.subscriptionState === 'SUBSCRIPTION_STATE_PENDING'
+  ) {
+    return { handled: false, reason: 'pending_purchase' };
+  }
+
+  // An upgrade or downgrade issues a new token that links back to the replaced one.
+  const tokens = [purchaseToken, subscription.linkedPurchaseToken].filter(
+    (value): value is string => Boolean(value),
+  );
+  const userId = await resolveUserId(tokens);
+  if (!userId) {
+    logger.warn(
+      { notificationType: event.notificationType },
+      'Google Play notification ignored (user not found)',
+    );
+    return { handled: false, reason: 'unknown_user' };
+  }
+
+  if (event.notificationType === PLAY_SUBSCRIPTION_NOTIFICATION.REVOKED) {
+    const receipts = await prisma.iapReceipt.findMany({
+      where: { platform: IapPlatform.GOOGLE_PLAY, originalTransactionId: purchaseToken },
+    });
+    await revokeReceipts(receipts, new Date());
+    logger.info({ userId, receipts: receipts.length }, 'Google Play subscription revoked');
+    return { handled: true };
+  }
+
+  const verified = toPlaySubscriptionVerification(
+    purchaseToken,
+    subscription,
+    event.subscriptionId,
+  );
+  const premiumDays = resolvePremiumDaysForProduct(verified.productId);
+  if (premiumDays === null) {
+    logger.info(
+      { productId: verified.productId },
+      'Google Play notification ignored (unsupported product)',
+    );
+    return { handled: false, reason: 'unsupported_product' };
+  }
+
+  // `startTime` is when the subscription began; a renewal's grant starts where the previous one ended.
+  const previousGrant = await prisma.premiumGrant.findFirst({
+    where: {
+      iapReceipt: { platform: IapPlatform.GOOGLE_PLAY, originalTransactionId: { in: tokens } },
+    },
+    orderBy: { endDate: 'desc' },
+  });
+  const verification =
+    previousGrant &&
+    previousGrant.endDate > verified.purchaseDate &&
+    (!verified.expiresDate || previousGrant.endDate < verified.expiresDate)
+      ? { ...verified, purchaseDate: previousGrant.endDate }
+      : verified;
+  const grant = resolvePremiumGrant(verification, premiumDays, 1);
+
+  await prisma.$transaction(async (tx) => {
+    const existingReceipt = await tx.iapReceipt.findUnique({
+      where: { transactionId: verification.transactionId },
+    });
+    const receiptId =
+      existingReceipt?.id ??
+      (
+        await tx.iapReceipt.create({
+          data: {
+            userId,
+            platform: IapPlatform.GOOGLE_PLAY,
+            productId: verification.productId,
+            transactionId: verification.transactionId,
+            originalTransactionId: purchaseToken,
+            environment: verification.environment,
+            quantity: 1,
+            creditsGranted: 0,
+            status: 'VERIFIED',
+            purchasedAt: verification.purchaseDate,
+            payload: verification.raw as any,
+          },
+        })
+      ).id;
+
+    if (!grant) {
+      return;
+    }
+
+    const existingGrant = await tx.premiumGrant.findFirst({
+      where: { iapReceiptId: receiptId },
+      orderBy: { endDate: 'desc' },
+    });
+    if (!existingGrant) {
+      await tx.premiumGrant.create({
+        data: {
+          userId,
+          source: 'PURCHASE',
+          days: grant.days,
+          startDate: grant.startDate,
+          endDate: grant.endDate,
+          iapReceiptId: receiptId,
+        },
+      });
+      return;
+    }
+
+    // Holds and expirations can pull the paid-through date in; they never extend an order.
+    if (grant.endDate < existingGrant.endDate) {
+      await shortenGrant(tx, existingGrant, grant.endDate);
+    }
+  });
+
+  if (subscription.acknowledgementState === 'ACKNOWLEDGEMENT_STATE_PENDING') {
+    await finalizeGooglePlayPurchase(verification).catch((error) => {
+      logger.error(
+        { err: error, transactionId: verification.transactionId },
+        'google play acknowledgement failed',
+      );
+    });
+  }
+
+  logger.info(
+    {
+      userId,
+      transactionId: verification.transactionId,
+      productId: verification.productId,
+      notificationType: event.notificationType,
+      subscriptionState: subscription.subscriptionState,
+    },
+    'Google Play notification processed',
+  );
+  return { handled: true };
+}
+
+/** Credit packs are granted through `/iap/purchase`; this only retries a consumption that failed there. */
+async function processOneTimeProductNotification(
+  event: NonNullable<PlayDeveloperNotification['oneTimeProductNotification']>,
+): Promise<NotificationResult> {
+  if (
+    event.notificationType !== PLAY_ONE_TIME_PRODUCT_PURCHASED ||
+    !event.purchaseToken ||
+    !event.sku
+  ) {
+    return { handled: false, reason: 'unsupported_notification' };
+  }
+  const receipt = await prisma.iapReceipt.findFirst({
+    where: { platform: IapPlatform.GOOGLE_PLAY, originalTransactionId: event.purchaseToken },
+    select: { id: true },
+  });
+  if (!receipt) {
+    return { handled: false, reason: 'unknown_purchase' };
+  }
+  const purchase = await resolveGooglePlayClient().getProductPurchase(
+    event.sku,
+    event.purchaseToken,
+  );
+  await finalizeGooglePlayPurchase(
+    toPlayProductVerification(event.sku, event.purchaseToken, purchase),
+  );
+  return { handled: true };
+}
+
+/** Refunds and chargebacks: the order's premium ends now and its credits are taken back. */
+async function processVoidedPurchase(
+  event: NonNullable<PlayDeveloperNotification['voidedPurchaseNotification']>,
+): Promise<NotificationResult> {
+  // The order id names one renewal of a subscription; the token covers every order of the purchase.
+  const where = event.orderId
+    ? { transactionId: event.orderId }
+    : event.purchaseToken
+      ? { originalTransactionId: event.purchaseToken }
+      : null;
+  if (!where) {
+    return { handled: false, reason: 'missing_purchase_token' };
+  }
+
+  const receipts = await prisma.iapReceipt.findMany({
+    where: { platform: IapPlatform.GOOGLE_PLAY, ...where },
+  });
+  if (!receipts.length) {
+    logger.warn(
+      { orderId: event.orderId },
+      'Google Play voided purchase ignored (receipt not found)',
+    );
+    return { handled: false, reason: 'unknown_purchase' };
+  }
+
+  await revokeReceipts(receipts, new Date());
+  logger.info(
+    { orderId: event.orderId, refundType: event.refundType, receipts: receipts.length },
+    'Google Play voided purchase processed',
+  );
+  return { handled: true };
+}
+
+async function revokeReceipts(receipts: IapReceipt[], revokedAt: Date) {
+  await prisma.$transaction(async (tx) => {
+    for (const receipt of receipts) {
+      if (receipt.status === 'REVOKED') {
+        continue;
+      }
+      await tx.iapReceipt.update({ where: { id: receipt.id }, data: { status: 'REVOKED' } });
+
+      const grants = await tx.premiumGrant.findMany({ where: { iapReceiptId: receipt.id } });
+      for (const grant of grants) {
+        if (grant.startDate >= revokedAt) {
+          await tx.premiumGrant.delete({ where: { id: grant.id } });
+        } else if (grant.endDate > revokedAt) {
+          await shortenGrant(tx, grant, revokedAt);
+        }
+      }
+
+      if (receipt.creditsGranted > 0) {
+        const user = await tx.user.findUnique({
+          where: { id: receipt.userId },
+          select: { aiCredits: true },
+        });
+        // Credits already spent cannot be taken back.
+        await tx.user.update({
+          where: { id: receipt.userId },
+          data: { aiCredits: Math.max(0, (user?.aiCredits ?? 0) - receipt.creditsGranted) },
+        });
+      }
+    }
+  });
+}
+
+async function shortenGrant(
+  tx: Pick<typeof prisma, 'premiumGrant'>,
+  grant: { id: number; startDate: Date },
+  endDate: Date,
+) {
+  const days = DateTime.fromJSDate(endDate).diff(DateTime.fromJSDate(grant.startDate), 'days').days;
+  await tx.premiumGrant.update({
+    where: { id: grant.id },
+    data: { endDate, days: Math.max(1, Math.ceil(days)) },
+  });
+}
+
+async function resolveUserId(purchaseTokens: string[]) {
+  const receipt = await prisma.iapReceipt.findFirst({
+    where: { platform: IapPlatform.GOOGLE_PLAY, originalTransactionId: { in: purchaseTokens } },
+    orderBy: { createdAt: 'desc' },
+    select: { userId: true },
+  });
+  return receipt?.userId ?? null;
+}
@@ -0,0 +1,387 @@
+import { StatusCodes } from 'http-status-codes';
+import { SignJWT, importPKCS8 } from 'jose';
+import { resolvePremiumDaysForProduct } from '@meal-log/shared';
+import { env } from '../env.js';
+import type { ReceiptVerificationResult } from './iap-service.js';
+
+const ANDROID_PUBLISHER_SCOPE = 'https://www.googleapis.com/auth/androidpublisher';
+const DEFAULT_TOKEN_URI = 'https://oauth2.googleapis.com/token';
+const GOOGLE_PLAY_TIMEOUT_MS = 15_000;
+const ACCESS_TOKEN_REFRESH_MARGIN_MS = 60_000;
+
+export interface GooglePlayServiceAccount {
+  clientEmail: string;
+  privateKey: string;
+  tokenUri: string;
+}
+
+export interface GooglePlayOptions {
+  packageName: string;
+  serviceAccount: GooglePlayServiceAccount;
+  apiBaseUrl: string;
+  timeoutMs?: number;
+}
+
+/** Fields of `purchases.products.get` the app relies on. */
+export interface PlayProductPurchase {
+  orderId?: string;
+  productId?: string;
+  purchaseTimeMillis?: string;
+  /** 0 purchased, 1 canceled, 2 pending */
+  purchaseState?: number;
+  /** 0 yet to be consumed, 1 consumed */
+  consumptionState?: number;
+  /** 0 yet to be acknowledged, 1 acknowledged */
+  acknowledgementState?: number;
+  quantity?: number;
+  /** Only present for test (0) and promo (1) purchases. */
+  purchaseType?: number;
+}
+
+/** Fields of `purchases.subscriptionsv2.get` the app relies on. */
+export interface PlaySubscriptionPurchase {
+  subscriptionState?: string;
+  startTime?: string;
+  latestOrderId?: string;
+  linkedPurchaseToken?: string;
+  acknowledgementState?: string;
+  testPurchase?: Record<string, unknown>;
+  lineItems?: Array<{ productId?: string; expiryTime?: string }>;
+}
+
+/** Real-time developer notification, as published by Google Play to Pub/Sub. */
+export interface PlayDeveloperNotification {
+  version?: string;
+  packageName?: string;
+  eventTimeMillis?: string;
+  subscriptionNotification?: {
+    notificationType?: number;
+    purchaseToken?: string;
+    subscriptionId?: string;
+  };
+  oneTimeProductNotification?: {
+    notificationType?: number;
+    purchaseToken?: string;
+    sku?: string;
+  };
+  voidedPurchaseNotification?: {
+    purchaseToken?: string;
+    orderId?: string;
+    /** 1 subscription, 2 one-time product */
+    productType?: number;
+    /** 1 full refund, 2 quantity-based partial refund */
+    refundType?: number;
+  };
+  testNotification?: { version?: string };
+}
+
+export const PLAY_SUBSCRIPTION_NOTIFICATION = {
+  RECOVERED: 1,
+  RENEWED: 2,
+  CANCELED: 3,
+  PURCHASED: 4,
+  ON_HOLD: 5,
+  IN_GRACE_PERIOD: 6,
+  RESTARTED: 7,
+  REVOKED: 12,
+  EXPIRED: 13,
+  PENDING_PURCHASE_CANCELED: 20,
+} as const;
+
+export interface GooglePlayClient {
+  getProductPurchase(productId: string, purchaseToken: string): Promise<PlayProductPurchase>;
+  getSubscriptionPurchase(purchaseToken: string): Promise<PlaySubscriptionPurchase>;
+  acknowledgeSubscription(productId: string, purchaseToken: string): Promise<void>;
+  consumeProduct(productId: string, purchaseToken: string): Promise<void>;
+}
+
+class GooglePlayApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = 'GooglePlayApiError';
+  }
+}
+
+async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number) {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/** Android Publisher API client authenticated as the service account (OAuth JWT bearer grant). */
+export function createGooglePlayClient(options: GooglePlayOptions): GooglePlayClient {
+  const timeoutMs = options.timeoutMs ?? GOOGLE_PLAY_TIMEOUT_MS;
+  const applicationUrl = [
+    options.apiBaseUrl.replace(/\/+$/, ''),
+    'androidpublisher/v3/applications',
+    encodeURIComponent(options.packageName),
+  ].join('/');
+  let accessToken: { value: string; expiresAt: number } | null = null;
+
+  const getAccessToken = async () => {
+    if (accessToken && accessToken.expiresAt - ACCESS_TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+      return accessToken.value;
+    }
+    const { clientEmail, privateKey, tokenUri } = options.serviceAccount;
+    const assertion = await new SignJWT({ scope: ANDROID_PUBLISHER_SCOPE })
+      .setProtectedHeader({ alg: 'RS256', typ: 'JWT' })
+      .setIssuer(clientEmail)
+      .setAudience(tokenUri)
+      .setIssuedAt()
+      .setExpirationTime('1h')
+      .sign(await importPKCS8(privateKey, 'RS256'));
+    const response = await fetchWithTimeout(
+      tokenUri,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+          grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+          assertion,
+        }).toString(),
+      },
+      timeoutMs,
+    );
+    if (!response.ok) {
+      throw new GooglePlayApiError(`Google OAuth token HTTP ${response.status}`, response.status);
+    }
+    const payload = (await response.json()) as { access_token?: string; expires_in?: number };
+    if (!payload.access_token) {
+      throw new GooglePlayApiError(
+        'Google OAuth token response has no access_token',
+        response.status,
+      );
+    }
+    accessToken = {
+      value: payload.access_token,
+      expiresAt: Date.now() + (payload.expires_in ?? 3600) * 1000,
+    };
+    return accessToken.value;
+  };
+
+  const call = async <T>(path: string, method: 'GET' | 'POST' = 'GET'): Promise<T> => {
+    const response = await fetchWithTimeout(
+      `${applicationUrl}${path}`,
+      {
+        method,
+        headers: {
+          Authorization: `Bearer ${await getAccessToken()}`,
+          ...(method === 'POST' ? { 'Content-Type': 'application/json' } : {}),
+        },
+        ...(method === 'POST' ? { body: '{}' } : {}),
+      },
+      timeoutMs,
+    );
+    if (!response.ok) {
+      // The purchase token stays out of the message; it grants access to the purchase.
+      const resource = path.split('/tokens/')[0];
+      throw new GooglePlayApiError(
+        `Google Play API ${method} ${resource} HTTP ${response.status}`,
+        response.status,
+      );
+    }
+    const text = await response.text();
+    return (text ? JSON.parse(text) : {}) as T;
+  };
+
+  const token = encodeURIComponent;
+  const id = encodeURIComponent;
+
+  return {
+    getProductPurchase: (productId, purchaseToken) =>
+      call(`/purchases/products/${id(productId)}/tokens/${token(purchaseToken)}`),
+    getSubscriptionPurchase: (purchaseToken) =>
+      call(`/purchases/subscriptionsv2/tokens/${token(purchaseToken)}`),
+    acknowledgeSubscription: async (productId, purchaseToken) => {
+      await call(
+        `/purchases/subscriptions/${id(productId)}/tokens/${token(purchaseToken)}:acknowledge`,
+        'POST',
+      );
+    },
+    consumeProduct: async (productId, purchaseToken) => {
+      await call(
+        `/purchases/products/${id(productId)}/tokens/${token(purchaseToken)}:consume`,
+        'POST',
+      );
+    },
+  };
+}
+
+let sharedClient: GooglePlayClient | null = null;
+
+export function resolveGooglePlayClient(): GooglePlayClient {
+  if (sharedClient) {
+    return sharedClient;
+  }
+  if (!env.GOOGLE_PLAY_SERVICE_ACCOUNT || !env.GOOGLE_PLAY_PACKAGE_NAME) {
+    throw Object.assign(new Error('Google Play の検証が設定されていません'), {
+      statusCode: StatusCodes.SERVICE_UNAVAILABLE,
+      expose: true,
+    });
+  }
+  let account: { client_email?: string; private_key?: string; token_uri?: string } | null = null;
+  try {
+    account = JSON.parse(env.GOOGLE_PLAY_SERVICE_ACCOUNT);
+  } catch (_error) {
+    // reported below
+  }
+  if (!account?.client_email || !account.private_key) {
+    throw new Error('GOOGLE_PLAY_SERVICE_ACCOUNT must be a service account JSON key');
+  }
+  sharedClient = createGooglePlayClient({
+    packageName: env.GOOGLE_PLAY_PACKAGE_NAME,
+    apiBaseUrl: env.GOOGLE_PLAY_API_BASE_URL,
+    serviceAccount: {
+      clientEmail: account.client_email,
+      privateKey: account.private_key,
+      tokenUri: account.token_uri ?? DEFAULT_TOKEN_URI,
+    },
+  });
+  return sharedClient;
+}
+
+function verificationError(message: string, cause?: unknown) {
+  return Object.assign(new Error(message), {
+    cause,
+    statusCode: StatusCodes.BAD_REQUEST,
+    expose: true,
+  });
+}
+
+function parseTime(value?: string | null) {
+  if (!value) return null;
+  const date = /^\d+$/.test(value) ? new Date(Number(value)) : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/** Premium products are sold as Play subscriptions; everything else is a one-time product. */
+export function isPlaySubscriptionProduct(productId: string) {
+  return resolvePremiumDaysForProduct(productId) !== null;
+}
+
+export function toPlayProductVerification(
+  productId: string,
+  purchaseToken: string,
+  purchase: PlayProductPurchase,
+): ReceiptVerificationResult {
+  if (purchase.purchaseState === 2) {
+    throw verificationError(
+      'Google Play の購入が保留中です。支払いの完了後にもう一度お試しください',
+    );
+  }
+  if (purchase.purchaseState !== 0) {
+    throw verificationError('Google Play の購入はキャンセルされています');
+  }
+  const quantity = Number(purchase.quantity ?? 1);
+  return {
+    transactionId: purchase.orderId ?? purchaseToken,
+    productId: purchase.productId ?? productId,
+    originalTransactionId: purchaseToken,
+    quantity: Number.isFinite(quantity) && quantity > 0 ? quantity : 1,
+    purchaseDate: parseTime(purchase.purchaseTimeMillis) ?? new Date(),
+    expiresDate: null,
+    isTrial: false,
+    environment: purchase.purchaseType === 0 ? 'SANDBOX' : 'PRODUCTION',
+    raw: { kind: 'product', purchaseToken, ...purchase },
+  };
+}
+
+/**
+ * The purchase token identifies the subscription across renewals, so it plays the part of the
+ * App Store `originalTransactionId`; each renewal gets a new order id.
+ */
+export function toPlaySubscriptionVerification(
+  purchaseToken: string,
+  subscription: PlaySubscriptionPurchase,
+  productId?: string,
+): ReceiptVerificationResult {
+  if (subscription.subscriptionState === 'SUBSCRIPTION_STATE_PENDING') {
+    throw verificationError(
+      'Google Play の購入が保留中です。支払いの完了後にもう一度お試しください',
+    );
+  }
+  const lineItems = subscription.lineItems ?? [];
+  const lineItem = lineItems.find((item) => item.productId === productId) ?? lineItems[0];
+  if (!lineItem?.productId) {
+    throw verificationError('Google Play の購入に商品情報がありません');
+  }
+  return {
+    transactionId: subscription.latestOrderId ?? purchaseToken,
+    productId: lineItem.productId,
+    originalTransactionId: purchaseToken,
+    quantity: 1,
+    purchaseDate: parseTime(subscription.startTime) ?? new Date(),
+    expiresDate: parseTime(lineItem.expiryTime),
+    isTrial: false,
+    environment: subscription.testPurchase ? 'SANDBOX' : 'PRODUCTION',
+    raw: { kind: 'subscription', purchaseToken, ...subscription },
+  };
+}
+
+/** For Play purchases the client sends the purchase token as `receiptData`. */
+export async function verifyGooglePlayPurchase(input: {
+  productId: string;
+  purchaseToken: string;
+}): Promise<ReceiptVerificationResult> {
+  const client = resolveGooglePlayClient();
+  try {
+    if (isPlaySubscriptionProduct(input.productId)) {
+      const subscription = await client.getSubscriptionPurchase(input.purchaseToken);
+      return toPlaySubscriptionVerification(input.purchaseToken, subscription, input.productId);
+    }
+    const purchase = await client.getProductPurchase(input.productId, input.purchaseToken);
+    return toPlayProductVerification(input.productId, input.purchaseToken, purchase);
+  } catch (error) {
+    if ((error as { statusCode?: number }).statusCode) {
+      throw error;
+    }
+    throw verificationError('Google Play の購入の検証に失敗しました', error);
+  }
+}
+
+/**
+ * Play refunds purchases that are not acknowledged within three days. Credit packs are consumed
+ * instead (which acknowledges them) so they can be bought again.
+ */
+export async function finalizeGooglePlayPurchase(verification: ReceiptVerificationResult) {
+  const raw = verification.raw as {
+    kind?: string;
+    purchaseToken?: string;
+    acknowledgementState?: number | string;
+    consumptionState?: number;
+  };
+  if (!raw.purchaseToken) {
+    return;
+  }
+  const client = resolveGooglePlayClient();
+  if (raw.kind === 'subscription') {
+    if (raw.acknowledgementState === 'ACKNOWLEDGEMENT_STATE_PENDING') {
+      await client.acknowledgeSubscription(verification.productId, raw.purchaseToken);
+    }
+    return;
+  }
+  if (raw.consumptionState !== 1) {
+    await client.consumeProduct(verification.productId, raw.purchaseToken);
+  }
+}
+
+/** Unwraps the Pub/Sub push envelope (`{ message: { data: base64(json) } }`). */
+export function decodePlayNotification(body: unknown): PlayDeveloperNotification | null {
+  const data = (body as { message?: { data?: unknown } } | null)?.message?.data;
+  if (typeof data !== 'string' || !data) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(Buffer.from(data, 'base64').toString('utf8')) as unknown;
+    return parsed && typeof parsed === 'object' ? (parsed as PlayDeveloperNotification) : null;
+  } catch (_error) {
+    return null;
+  }
+}
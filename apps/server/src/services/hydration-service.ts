@@ -0,0 +1,116 @@
+import type { HydrationEntry as HydrationEntryRecord } from '@prisma/client';
+import { DateTime } from 'luxon';
+import { StatusCodes } from 'http-status-codes';
+import {
+  HydrationEntryCreateRequestSchema,
+  computeHydrationTargetMl,
+  resolveHydrationCupSizes,
+  type HydrationBeverage,
+  type HydrationDay,
+  type HydrationEntry,
+} from '@meal-log/shared';
+import { prisma } from '../db/prisma.js';
+import { DASHBOARD_TIMEZONE } from '../config/dashboard.js';
+import { invalidateDashboardCacheForUser } from './dashboard-service.js';
+
+type HydrationEntryFields = Pick<HydrationEntryRecord, 'id' | 'amountMl' | 'beverage' | 'recordedAt'>;
+
+export function mapHydrationEntry(record: HydrationEntryFields): HydrationEntry {
+  return {
+    id: record.id,
+    amount_ml: record.amountMl,
+    beverage: record.beverage.toLowerCase() as HydrationBeverage,
+    recorded_at: record.recordedAt.toISOString(),
+  };
+}
+
+function resolveDay(date: string | undefined, timezone: string) {
+  const base = date ? DateTime.fromISO(date, { zone: timezone }) : DateTime.now().setZone(timezone);
+  if (!base.isValid) {
+    const error = new Error('日付の形式が正しくありません');
+    Object.assign(error, { statusCode: StatusCodes.BAD_REQUEST, expose: true });
+    throw error;
+  }
+  const from = base.startOf('day');
+  return { from, to: from.plus({ days: 1 }) };
+}
+
+function fetchHydrationProfile(userId: number) {
+  return prisma.userProfile.findUnique({
+    where: { userId },
+    select: { currentWeightKg: true, bodyWeightKg: true, hydrationCupSizesMl: true },
+  });
+}
+
+function resolveTargetMl(profile: Awaited<ReturnType<typeof fetchHydrationProfile>>) {
+  return computeHydrationTargetMl(profile?.currentWeightKg ?? profile?.bodyWeightKg ?? null);
+}
+
+export async function getHydrationDay(userId: number, date?: string): Promise<HydrationDay> {
+  const timezone = DASHBOARD_TIMEZONE;
+  const { from, to } = resolveDay(date, timezone);
+  const [entries, profile] = await Promise.all([
+    prisma.hydrationEntry.findMany({
+      where: { userId, recordedAt: { gte: from.toJSDate(), lt: to.toJSDate() } },
+      orderBy: { recordedAt: 'desc' },
+    }),
+    fetchHydrationProfile(userId),
+  ]);
+
+  return {
+    date: from.toISODate() ?? '',
+    total_ml: entries.reduce((acc, entry) => acc + entry.amountMl, 0),
+    target_ml: resolveTargetMl(profile),
+    cup_sizes_ml: resolveHydrationCupSizes(profile?.hydrationCupSizesMl),
+    items: entries.map(mapHydrationEntry),
+  };
+}
+
+/** Today's total and target, shared by the dashboard summary and the reminder job. */
+export async function getTodayHydration(userId: number, timezone: string) {
+  const { from, to } = resolveDay(undefined, timezone);
+  const [aggregate, profile] = await Promise.all([
+    prisma.hydrationEntry.aggregate({
+      _sum: { amountMl: true },
+      where: { userId, recordedAt: { gte: from.toJSDate(), lt: to.toJSDate() } },
+    }),
+    fetchHydrationProfile(userId),
+  ]);
+  return {
+    today_ml: aggregate._sum.amountMl ?? 0,
+    target_ml: resolveTargetMl(profile),
+  };
+}
+
+export async function addHydrationEntry(userId: number, payload: unknown) {
+  const parsed = HydrationEntryCreateRequestSchema.parse(payload);
+  const recordedAt = parsed.recorded_at ? new Date(parsed.recorded_at) : new Date();
+  await prisma.hydrationEntry.create({
+    data: {
+      userId,
+      amountMl: parsed.amount_ml,
+      beverage: parsed.beverage.toUpperCase() as HydrationEntryRecord['beverage'],
+      recordedAt,
+    },
+  });
+  invalidateDashboardCacheForUser(userId);
+  return getHydrationDay(
+    userId,
+    DateTime.fromJSDate(recordedAt, { zone: DASHBOARD_TIMEZONE }).toISODate() ?? undefined,
+  );
+}
+
+export async function deleteHydrationEntry(userId: number, entryId: number) {
+  const existing = await prisma.hydrationEntry.findFirst({ where: { id: entryId, userId } });
+  if (!existing) {
+    const error = new Error('水分の記録が見つかりませんでした');
+    Object.assign(error, { statusCode: StatusCodes.NOT_FOUND, expose: true });
+    throw error;
+  }
+  await prisma.hydrationEntry.delete({ where: { id: existing.id } });
+  invalidateDashboardCacheForUser(userId);
+  return getHydrationDay(
+    userId,
+    DateTime.fromJSDate(existing.recordedAt, { zone: DASHBOARD_TIMEZONE }).toISODate() ?? undefined,
+  );
+}
@@ -1,10 +1,12 @@
+import { createHash } from 'node:crypto';
 import { createRemoteJWKSet, decodeJwt, jwtVerify } from 'jose';
 import { DateTime } from 'luxon';
-import { IapPlatform } from '@prisma/client';
+import { IapPlatform, type Prisma } from '@prisma/client';
 import { prisma } from '../db/prisma.js';
 import { env } from '../env.js';
 import { logger } from '../logger.js';
 import { resolvePremiumDaysForProduct } from '@meal-log/shared';
+import { applyAppStoreSubscriptionEvent } from './subscription-state.js';
 
 const APP_STORE_JWKS_URL = new URL('https://api.storekit.itunes.apple.com/in-app-purchase/v1/jwsPublicKeys');
 const APP_STORE_SANDBOX_JWKS_URL = new URL('https://api.storekit-sandbox.itunes.apple.com/in-app-purchase/v1/jwsPublicKeys');
@@ -19,6 +21,7 @@ type AppStoreEnvironment = 'PRODUCTION' | 'SANDBOX';
 type AppStoreNotificationPayload = {
   notificationType?: string;
   subtype?: string | null;
+  notificationUUID?: string;
   environment?: string;
   data?: {
     bundleId?: string;
@@ -42,8 +45,26 @@ type AppStoreTransactionInfo = {
   bundleId?: string;
 };
 
-export async function processAppStoreNotification(signedPayload: string) {
-  const allowUnverified = env.IAP_OFFLINE_VERIFICATION;
+type AppStoreRenewalInfo = {
+  autoRenewStatus?: number;
+  autoRenewProductId?: string;
+  gracePeriodExpiresDate?: number | string;
+};
+
+type NotificationResult = { handled: true } | { handled: false; reason: string };
+
+const REPLAY_BATCH_SIZE = 200;
+
+/**
+ * Every notification is stored before it is applied so that `replayAppStoreNotifications` can rebuild
+ * subscription state later. Replays pass `replay: true` to reuse the stored row; it was verified when
+ * it arrived, so its payload is applied as stored rather than checked against today's Apple keys.
+ */
+export async function processAppStoreNotification(
+  signedPayload: string,
+  options: { replay?: boolean } = {},
+): Promise<NotificationResult> {
+  const allowUnverified = env.IAP_OFFLINE_VERIFICATION || options.replay === true;
   const decodedNotification = decodeJwt(signedPayload) as AppStoreNotificationPayload;
   const environment =
     resolveEnvironment(decodedNotification.environment ?? decodedNotification.data?.environment) ?? 'PRODUCTION';
@@ -53,10 +74,114 @@ export async function processAppStoreNotification(signedPayload: string) {
     allowUnverified,
   );
 
+  const notificationUuid =
+    notification.notificationUUID ?? createHash('sha256').update(signedPayload).digest('hex');
+  const signedDate = resolveDate(notification.signedDate ?? null) ?? new Date();
+  if (!options.replay) {
+    await recordNotification(notificationUuid, notification, signedPayload, signedDate, environment, allowUnverified);
+  }
+
+  const result = await applyNotification(notification, signedDate, environment, allowUnverified);
+  await prisma.appStoreNotification.update({
+    where: { notificationUuid },
+    data: { processedAt: new Date(), result: result.handled ? 'handled' : result.reason },
+  });
+  return result;
+}
+
+/**
+ * Re-processes stored notifications oldest first. Subscription rows with notifications to replay are
+ * rebuilt from scratch; rows only the app's purchase reports created are left as they are. Grants
+ * follow each transaction's own dates, so replaying is idempotent.
+ */
+export async function replayAppStoreNotifications(filter: { originalTransactionIds?: string[] } = {}) {
+  const where: Prisma.AppStoreNotificationWhereInput = filter.originalTransactionIds
+    ? { originalTransactionId: { in: filter.originalTransactionIds } }
+    : {};
+  const replayed = await prisma.appStoreNotification.findMany({
+    where: { AND: [where, { originalTransactionId: { not: null } }] },
+    select: { originalTransactionId: true },
+    distinct: ['originalTransactionId'],
+  });
+  await prisma.subscription.deleteMany({
+    where: {
+      platform: IapPlatform.APP_STORE,
+      originalTransactionId: { in: replayed.map((row) => row.originalTransactionId!) },
+    },
+  });
+
+  const summary = { processed: 0, handled: 0, ignored: 0, failed: 0 };
+  let cursor: number | undefined;
+  for (;;) {
+    const batch = await prisma.appStoreNotification.findMany({
+      where,
+      orderBy: [{ signedDate: 'asc' }, { id: 'asc' }],
+      take: REPLAY_BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      select: { id: true, notificationUuid: true, signedPayload: true },
+    });
+    for (const row of batch) {
+      summary.processed += 1;
+      try {
+        const result = await processAppStoreNotification(row.signedPayload, { replay: true });
+        summary[result.handled ? 'handled' : 'ignored'] += 1;
+      } catch (error) {
+        summary.failed += 1;
+        logger.warn({ err: error, notificationUuid: row.notificationUuid }, 'IAP notification replay failed');
+      }
+    }
+    if (batch.length < REPLAY_BATCH_SIZE) {
+      return summary;
+    }
+    cursor = batch[batch.length - 1].id;
+  }
+}
+
+async function recordNotification(
+  notificationUuid: string,
+  notification: AppStoreNotificationPayload,
+  signedPayload: string,
+  signedDate: Date,
+  environment: AppStoreEnvironment,
+  allowUnverified: boolean,
+) {
+  const signedTransactionInfo = notification.data?.signedTransactionInfo;
+  const transactionInfo = signedTransactionInfo
+    ? await verifySignedPayload<AppStoreTransactionInfo>(signedTransactionInfo, environment, allowUnverified)
+    : null;
+  const originalTransactionId = transactionInfo
+    ? readString(transactionInfo as Record<string, unknown>, [
+        'originalTransactionId',
+        'original_transaction_id',
+        'transactionId',
+        'transaction_id',
+      ])
+    : null;
+
+  await prisma.appStoreNotification.upsert({
+    where: { notificationUuid },
+    create: {
+      notificationUuid,
+      notificationType: notification.notificationType ?? 'UNKNOWN',
+      subtype: notification.subtype ?? null,
+      originalTransactionId,
+      signedPayload,
+      signedDate,
+    },
+    update: {},
+  });
+}
+
+async function applyNotification(
+  notification: AppStoreNotificationPayload,
+  signedDate: Date,
+  environment: AppStoreEnvironment,
+  allowUnverified: boolean,
+): Promise<NotificationResult> {
   const bundleId = notification.data?.bundleId ?? null;
   if (env.APP_STORE_BUNDLE_ID && bundleId && bundleId !== env.APP_STORE_BUNDLE_ID) {
     logger.warn({ bundleId }, 'IAP notification ignored (bundle mismatch)');
-    return { handled: false, reason: 'bundle_mismatch' } as const;
+    return { handled: false, reason: 'bundle_mismatch' };
   }
 
   const signedTransactionInfo = notification.data?.signedTransactionInfo;
@@ -65,7 +190,7 @@ export async function processAppStoreNotification(signedPayload: string) {
       { notificationType: notification.notificationType, subtype: notification.subtype },
       'IAP notification ignored (no transaction info)',
     );
-    return { handled: false, reason: 'missing_transaction' } as const;
+    return { handled: false, reason: 'missing_transaction' };
   }
 
   const transactionInfo = await verifySignedPayload<AppStoreTransactionInfo>(
@@ -77,13 +202,13 @@ export async function processAppStoreNotification(signedPayload: string) {
   const productId = transactionInfo.productId;
   if (!productId || resolvePremiumDaysForProduct(productId) === null) {
     logger.info({ productId }, 'IAP notification ignored (unsupported product)');
-    return { handled: false, reason: 'unsupported_product' } as const;
+    return { handled: false, reason: 'unsupported_product' };
   }
 
   const transactionId = readString(transactionInfo as Record<string, unknown>, ['transactionId', 'transaction_id']);
   if (!transactionId) {
     logger.warn('IAP notification ignored (missing transactionId)');
-    return { handled: false, reason: 'missing_transaction_id' } as const;
+    return { handled: false, reason: 'missing_transaction_id' };
   }
 
   const originalTransactionId =
@@ -104,12 +229,28 @@ export async function processAppStoreNotification(signedPayload: string) {
       { transactionId, originalTransactionId, productId },
       'IAP notification ignored (user not found)',
     );
-    return { handled: false, reason: 'unknown_user' } as const;
+    return { handled: false, reason: 'unknown_user' };
   }
 
-  const endDate = resolveEndDate(purchaseDate, expiresDate, revocationDate);
+  const renewalInfo = notification.data?.signedRenewalInfo
+    ? await verifySignedPayload<AppStoreRenewalInfo>(notification.data.signedRenewalInfo, environment, allowUnverified)
+    : null;
+  const event = {
+    notificationType: notification.notificationType ?? 'UNKNOWN',
+    subtype: notification.subtype ?? null,
+    signedDate,
+    productId,
+    expiresDate,
+    revocationDate,
+    autoRenewStatus: typeof renewalInfo?.autoRenewStatus === 'number' ? renewalInfo.autoRenewStatus === 1 : null,
+    autoRenewProductId: renewalInfo?.autoRenewProductId ?? null,
+    gracePeriodExpiresDate: resolveDate(
+      readMs((renewalInfo ?? {}) as Record<string, unknown>, ['gracePeriodExpiresDate']),
+    ),
+  };
 
-  await prisma.$transaction(async (tx) => {
+  const applied = await prisma.$transaction(async (tx) => {
+    const receiptStatus = revocationDate ? 'REVOKED' : 'VERIFIED';
     const existingReceipt = await tx.iapReceipt.findUnique({ where: { transactionId } });
     let receiptId = existingReceipt?.id ?? null;
 
@@ -124,73 +265,141 @@ export async function processAppStoreNotification(signedPayload: string) {
           environment: environmentLabel,
           quantity,
           creditsGranted: 0,
-          status: revocationDate ? 'REVOKED' : 'VERIFIED',
+          status: receiptStatus,
           purchasedAt: purchaseDate,
           payload: transactionInfo as any,
         },
       });
       receiptId = created.id;
-    } else if (!existingReceipt.originalTransactionId && originalTransactionId) {
+    }
+
+    // Notifications can arrive out of order; an older one must not roll the state back.
+    const subscription = await tx.subscription.findUnique({ where: { originalTransactionId } });
+    if (subscription?.lastEventAt && subscription.lastEventAt > signedDate) {
+      return false;
+    }
+
+    if (
+      existingReceipt &&
+      (existingReceipt.originalTransactionId !== originalTransactionId || existingReceipt.status !== receiptStatus)
+    ) {
       await tx.iapReceipt.update({
         where: { id: existingReceipt.id },
-        data: {
-          originalTransactionId,
-          status: revocationDate ? 'REVOKED' : existingReceipt.status,
-        },
+        data: { originalTransactionId, status: receiptStatus },
       });
-      receiptId = existingReceipt.id;
-    }
-
-    if (!receiptId || !endDate) {
-      return;
     }
 
-    const existingGrant = await tx.premiumGrant.findFirst({
-      where: { iapReceiptId: receiptId },
-      orderBy: { endDate: 'desc' },
+    const next = applyAppStoreSubscriptionEvent(subscription, event);
+    await tx.subscription.upsert({
+      where: { originalTransactionId },
+      create: {
+        userId,
+        platform: IapPlatform.APP_STORE,
+        originalTransactionId,
+        ...next,
+        lastEventAt: signedDate,
+      },
+      update: { ...next, lastEventAt: signedDate },
     });
 
-    const days = resolveGrantDays(purchaseDate, endDate);
-    if (days <= 0) {
-      return;
-    }
-
-    if (!existingGrant) {
-      await tx.premiumGrant.create({
-        data: {
-          userId,
-          source: 'PURCHASE',
-          days,
-          startDate: purchaseDate,
-          endDate,
-          iapReceiptId: receiptId,
-        },
+    if (receiptId && expiresDate) {
+      await syncReceiptGrant(tx, {
+        userId,
+        receiptId,
+        startDate: purchaseDate,
+        endDate: resolveEndDate(purchaseDate, expiresDate, revocationDate),
       });
-      return;
     }
 
-    if (endDate < existingGrant.endDate) {
-      await tx.premiumGrant.update({
-        where: { id: existingGrant.id },
-        data: {
-          endDate,
-          days: resolveGrantDays(existingGrant.startDate, endDate),
+    if (event.notificationType === 'DID_CHANGE_RENEWAL_PREF' && event.subtype === 'UPGRADE') {
+      // The upgraded transaction replaces the rest of the previous period, which Apple refunds pro rata.
+      const previousGrants = await tx.premiumGrant.findMany({
+        where: {
+          endDate: { gt: purchaseDate },
+          iapReceipt: { originalTransactionId, transactionId: { not: transactionId } },
         },
       });
+      for (const grant of previousGrants) {
+        await endGrant(tx, grant, purchaseDate);
+      }
     }
+    return true;
   });
 
+  if (!applied) {
+    logger.info(
+      { transactionId, originalTransactionId, notificationType: notification.notificationType },
+      'IAP notification ignored (superseded by a later notification)',
+    );
+    return { handled: false, reason: 'stale_notification' };
+  }
+
   logger.info(
     {
       transactionId,
       originalTransactionId,
       productId,
       notificationType: notification.notificationType,
+      subtype: notification.subtype,
     },
     'IAP notification processed',
   );
 
-  return { handled: true } as const;
+  return { handled: true };
+}
+
+type GrantClient = Pick<Prisma.TransactionClient, 'premiumGrant'>;
+
+/**
+ * A transaction's grant covers its purchase date to its expiry, cut short by a refund. Refunds
+ * before the period started remove the grant; a reversed refund restores it.
+ */
+async function syncReceiptGrant(
+  tx: GrantClient,
+  params: { userId: number; receiptId: number; startDate: Date; endDate: Date | null },
+) {
+  const existingGrant = await tx.premiumGrant.findFirst({
+    where: { iapReceiptId: params.receiptId },
+    orderBy: { endDate: 'desc' },
+  });
+
+  if (!params.endDate) {
+    if (existingGrant) {
+      await tx.premiumGrant.deleteMany({ where: { iapReceiptId: params.receiptId } });
+    }
+    return;
+  }
+
+  if (!existingGrant) {
+    const days = resolveGrantDays(params.startDate, params.endDate);
+    if (days <= 0) {
+      return;
+    }
+    await tx.premiumGrant.create({
+      data: {
+        userId: params.userId,
+        source: 'PURCHASE',
+        days,
+        startDate: params.startDate,
+        endDate: params.endDate,
+        iapReceiptId: params.receiptId,
+      },
+    });
+    return;
+  }
+
+  if (existingGrant.endDate.getTime() !== params.endDate.getTime()) {
+    await endGrant(tx, existingGrant, params.endDate);
+  }
+}
+
+async function endGrant(tx: GrantClient, grant: { id: number; startDate: Date }, endDate: Date) {
+  const days = resolveGrantDays(grant.startDate, endDate);
+  if (days <= 0) {
+    await tx.premiumGrant.delete({ where: { id: grant.id } });
+    return;
+  }
+  await tx.premiumGrant.update({ where: { id: grant.id }, data: { endDate, days } });
 }
 
 async function verifySignedPayload<T>(
@@ -256,10 +465,9 @@ function resolveGrantDays(startDate: Date, endDate: Date) {
   return Math.max(0, Math.ceil(diffDays));
 }
 
-function resolveEndDate(purchaseDate: Date, expiresDate: Date | null, revocationDate: Date | null) {
-  if (!expiresDate) return null;
+function resolveEndDate(purchaseDate: Date, expiresDate: Date, revocationDate: Date | null) {
   if (revocationDate && revocationDate.getTime() > 0 && revocationDate < expiresDate) {
-    return revocationDate;
+    return revocationDate > purchaseDate ? revocationDate : null;
   }
   if (expiresDate < purchaseDate) {
     return null;
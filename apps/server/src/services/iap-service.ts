@@ -1,5 +1,5 @@
 import { StatusCodes } from 'http-status-codes';
-import { IapPlatform } from '@prisma/client';
+import { IapPlatform, Prisma } from '@prisma/client';
 import type { AiUsageSummary, IapPurchaseRequest, PremiumStatus } from '@meal-log/shared';
 import { resolveCreditsForProduct, resolvePremiumDaysForProduct } from '@meal-log/shared';
 import { prisma } from '../db/prisma.js';
@@ -8,12 +8,13 @@ import { evaluateAiUsage, summarizeUsageStatus } from './ai-usage-service.js';
 import { logger } from '../logger.js';
 import { DateTime } from 'luxon';
 import { getAllPremiumGrants, getPremiumStatus } from './premium-service.js';
+import { finalizeGooglePlayPurchase, verifyGooglePlayPurchase } from './google-play-service.js';
 
 interface ProcessPurchaseParams extends IapPurchaseRequest {
   userId: number;
 }
 
-interface ReceiptVerificationResult {
+export interface ReceiptVerificationResult {
   transactionId: string;
   productId: string;
   originalTransactionId?: string | null;
@@ -36,18 +37,7 @@ export async function processIapPurchase(params: ProcessPurchaseParams): Promise
 
   const existing = await prisma.iapReceipt.findUnique({ where: { transactionId: params.transactionId } });
   if (existing) {
-    if (existing.userId !== params.userId) {
-      const error = new Error('別のユーザーで既に処理済みの購入です');
-      Object.assign(error, { statusCode: StatusCodes.CONFLICT, expose: true });
-      throw error;
-    }
-    const status = await evaluateAiUsage(params.userId);
-    const premiumStatus = await buildPremiumStatusPayload(params.userId);
-    return {
-      creditsGranted: 0,
-      usage: summarizeUsageStatus(status),
-      premiumStatus,
-    };
+    return buildProcessedPurchaseResult(existing, params.userId);
   }
 
   const verification = await verifyReceipt({
@@ -59,6 +49,16 @@ export async function processIapPurchase(params: ProcessPurchaseParams): Promise
     quantity: params.quantity,
   });
 
+  // Receipts are stored under the verified id, which a store can report differently from the client.
+  if (verification.transactionId !== params.transactionId) {
+    const verified = await prisma.iapReceipt.findUnique({
+      where: { transactionId: verification.transactionId },
+    });
+    if (verified) {
+      return buildProcessedPurchaseResult(verified, params.userId);
+    }
+  }
+
   const resolvedProductId = verification.productId ?? params.productId;
   const creditsPerUnit = resolveCreditsForProduct(resolvedProductId);
   const premiumDaysPerUnit = resolvePremiumDaysForProduct(resolvedProductId);
@@ -82,46 +82,86 @@ export async function processIapPurchase(params: ProcessPurchaseParams): Promise
     throw error;
   }
 
-  await prisma.$transaction(async (tx) => {
-    const receipt = await tx.iapReceipt.create({
-      data: {
-        userId: params.userId,
-        platform,
-        productId: verification.productId,
-        transactionId: verification.transactionId,
-        originalTransactionId: originalTransactionId ?? undefined,
-        environment: verification.environment,
-        quantity: verification.quantity,
-        creditsGranted,
-        status: 'VERIFIED',
-        purchasedAt: verification.purchaseDate,
-        payload: verification.raw as any,
-      },
-    });
-
-    if (creditsGranted > 0) {
-      await tx.user.update({
-        where: { id: params.userId },
-        data: { aiCredits: { increment: creditsGranted } },
-      });
-    }
-
-    if (premiumGrant) {
-      await tx.premiumGrant.create({
+  try {
+    await prisma.$transaction(async (tx) => {
+      const receipt = await tx.iapReceipt.create({
         data: {
           userId: params.userId,
-          source: 'PURCHASE',
-          days: premiumGrant.days,
-          startDate: premiumGrant.startDate,
-          endDate: premiumGrant.endDate,
-          iapReceiptId: receipt.id,
+          platform,
+          productId: verification.productId,
+          transactionId: verification.transactionId,
+          originalTransactionId: originalTransactionId ?? undefined,
+          environment: verification.environment,
+          quantity: verification.quantity,
+          creditsGranted,
+          status: 'VERIFIED',
+          purchasedAt: verification.purchaseDate,
+          payload: verification.raw as any,
         },
       });
+
+      if (creditsGranted > 0) {
+        await tx.user.update({
+          where: { id: params.userId },
+          data: { aiCredits: { increment: creditsGranted } },
+        });
+      }
+
+      if (premiumGrant) {
+        await tx.premiumGrant.create({
+          data: {
+            userId: params.userId,
+            source: 'PURCHASE',
+            days: premiumGrant.days,
+            startDate: premiumGrant.startDate,
+            endDate: premiumGrant.endDate,
+            iapReceiptId: receipt.id,
+          },
+        });
+      }
+
+      if (platform === IapPlatform.APP_STORE && premiumGrant && originalTransactionId && verification.expiresDate) {
+        // The app can report a renewal before its notification arrives; only a later period moves the state.
+        const subscription = await tx.subscription.findUnique({ where: { originalTransactionId } });
+        if (!subscription?.expiresAt || subscription.expiresAt < verification.expiresDate) {
+          const state = {
+            status: 'ACTIVE' as const,
+            productId: verification.productId,
+            pendingProductId: null,
+            expiresAt: verification.expiresDate,
+            gracePeriodExpiresAt: null,
+            revokedAt: null,
+          };
+          await tx.subscription.upsert({
+            where: { originalTransactionId },
+            create: { userId: params.userId, platform, originalTransactionId, ...state },
+            update: state,
+          });
+        }
+      }
+    });
+  } catch (error) {
+    // A concurrent retry of the same purchase stored it first.
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      const stored = await prisma.iapReceipt.findUnique({
+        where: { transactionId: verification.transactionId },
+      });
+      if (stored) {
+        return buildProcessedPurchaseResult(stored, params.userId);
+      }
     }
-  });
+    throw error;
+  }
 
   logger.info({ userId: params.userId, creditsGranted, transactionId: params.transactionId }, 'iap purchase processed');
 
+  if (platform === IapPlatform.GOOGLE_PLAY && !env.IAP_OFFLINE_VERIFICATION) {
+    // The grant is already stored; a failed acknowledgement is retried by the purchase's developer notification.
+    await finalizeGooglePlayPurchase(verification).catch((error) => {
+      logger.error({ err: error, transactionId: verification.transactionId }, 'google play acknowledgement failed');
+    });
+  }
+
   const usageStatus = await evaluateAiUsage(params.userId);
   const premiumStatus = await buildPremiumStatusPayload(params.userId);
   return {
@@ -131,6 +171,22 @@ export async function processIapPurchase(params: ProcessPurchaseParams): Promise
   };
 }
 
+/** Answer for a purchase already stored: nothing is granted again, and another user's receipt is refused. */
+async function buildProcessedPurchaseResult(receipt: { userId: number }, userId: number) {
+  if (receipt.userId !== userId) {
+    const error = new Error('別のユーザーで既に処理済みの購入です');
+    Object.assign(error, { statusCode: StatusCodes.CONFLICT, expose: true });
+    throw error;
+  }
+  const status = await evaluateAiUsage(userId);
+  const premiumStatus = await buildPremiumStatusPayload(userId);
+  return {
+    creditsGranted: 0,
+    usage: summarizeUsageStatus(status),
+    premiumStatus,
+  };
+}
+
 async function buildPremiumStatusPayload(userId: number): Promise<PremiumStatus> {
   const status = await getPremiumStatus(userId);
   const grants = await getAllPremiumGrants(userId);
@@ -140,6 +196,7 @@ async function buildPremiumStatusPayload(userId: number): Promise<PremiumStatus>
     source: status.source,
     daysRemaining: status.daysRemaining,
     expiresAt: status.expiresAt?.toISOString() ?? null,
+    subscriptionStatus: status.subscriptionStatus,
     grants: grants.map((grant) => ({
       source: grant.source,
       days: grant.days,
@@ -174,10 +231,7 @@ async function verifyReceipt(input: VerifyReceiptInput): Promise<ReceiptVerifica
     case IapPlatform.APP_STORE:
       return verifyAppStoreReceipt(input);
     case IapPlatform.GOOGLE_PLAY:
-      throw Object.assign(new Error('Google Play の検証は未設定です'), {
-        statusCode: StatusCodes.NOT_IMPLEMENTED,
-        expose: true,
-      });
+      return verifyGooglePlayPurchase({ productId: input.productId, purchaseToken: input.receiptData });
     default:
       throw Object.assign(new Error('未対応のプラットフォームです'), {
         statusCode: StatusCodes.BAD_REQUEST,
@@ -357,7 +411,7 @@ function resolveExpiresDate(expiresDate?: string, expiresDateMs?: number) {
   return null;
 }
 
-function resolvePremiumGrant(
+export function resolvePremiumGrant(
   verification: ReceiptVerificationResult,
   premiumDaysPerUnit: number | null,
   quantity: number,
@@ -13,6 +13,14 @@ const TranslationResultSchema = z.object({
       name: z.string(),
     }),
   ),
+  dishes: z
+    .array(
+      z.object({
+        index: z.number().int().nonnegative(),
+        dish: z.string(),
+      }),
+    )
+    .optional(),
   warnings: z.array(z.string()).optional(),
 });
 
@@ -103,6 +111,12 @@ async function translateWithGemini(
       const override = parsed.items.find((entry) => entry.index === index);
       return override ? { ...item, name: override.name } : { ...item };
     });
+    if (translated.dishes && parsed.dishes) {
+      translated.dishes = translated.dishes.map((dish, index) => {
+        const override = parsed.dishes?.find((entry) => entry.index === index);
+        return override ? { ...dish, dish: override.dish } : { ...dish };
+      });
+    }
     if (parsed.warnings?.length) {
       translated.warnings = [...(translated.warnings ?? []), ...parsed.warnings];
     }
@@ -124,14 +138,16 @@ function buildTranslationPrompt(base: GeminiNutritionResponse, targetLocale: Loc
   const summary = {
     dish: base.dish,
     items: (base.items ?? []).map((item, index) => ({ index, name: item.name })),
+    ...(base.dishes?.length ? { dishes: base.dishes.map((dish, index) => ({ index, dish: dish.dish })) } : {}),
     warnings: base.warnings ?? [],
   };
 
-  return `You are a professional translator. Translate the "dish" label and each item "name" into the locale ${targetLocale}. Preserve nutrition values and ordering using the provided index. Return ONLY JSON matching this TypeScript type and nothing else:
+  return `You are a professional translator. Translate the "dish" label, each item "name" and each "dishes" entry into the locale ${targetLocale}. Preserve nutrition values and ordering using the provided index. Return ONLY JSON matching this TypeScript type and nothing else:
 {
   "locale": string,
   "dish": string,
   "items": Array<{ "index": number, "name": string }>,
+  "dishes"?: Array<{ "index": number, "dish": string }>,
   "warnings"?: string[]
 }
 Use natural wording for ${targetLocale}. Base JSON: ${JSON.stringify(summary)}`;
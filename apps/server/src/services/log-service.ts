@@ -3,17 +3,47 @@ import { StatusCodes } from 'http-status-codes';
 import { DateTime } from 'luxon';
 import { createHash } from 'node:crypto';
 import { v4 as uuidv4 } from 'uuid';
-import type {
-  AiUsageSummary,
-  FavoriteMealDraft,
-  GeminiNutritionResponse,
-  SlotSelectionRequest,
-  Locale,
-  MealLogAiRaw,
+import {
+  CHAIN_MENU_LANDING_TYPE,
+  GeminiNutritionResponseSchema,
+  MealLogClarifyRequestSchema,
+  PendingMealClarificationSchema,
+  buildChainMenuResponse,
+  buildDishResponse,
+  buildMealLogChainMenuSource,
+  buildVoiceMealMessage,
+  buildMealLogClarificationResponse,
+  listSplittableDishes,
+  matchClarifyingAnswers,
+  selectClarifyingQuestions,
+  normalizeMicronutrients,
+  planMealLogItemChanges,
+  scaleMicronutrients,
+  toNutritionItems,
+  withAlternateEstimate,
+  type AiUsageSummary,
+  type AppliedPortionCalibration,
+  type FavoriteMealDraft,
+  type GeminiNutritionResponse,
+  type SlotSelectionRequest,
+  type Locale,
+  type MealLogAiRaw,
+  type MealLogChainMenuSource,
+  type MealLogEstimateSourceRequest,
+  type MealLogItemChangePlan,
+  type MealLogItemInput,
+  type Micronutrients,
+  type MealDish,
+  type MealLogSplitResponse,
+  type MealLogClarificationResponse,
+  type PendingMealClarification,
+  type SpeechToTextAudio,
 } from '@meal-log/shared';
-import { MealPeriod, Prisma } from '@prisma/client';
+import { MealPeriod, Prisma, type MealLog } from '@prisma/client';
 import { prisma } from '../db/prisma.js';
-import { analyzeMealWithGemini } from './gemini-service.js';
+import { analyzeMealWithCache } from './estimate-cache-service.js';
+import { analyzeMealWithGemini, MEAL_ANALYSIS_PROMPT_VERSION, type AnalyzeMealResult } from './gemini-service.js';
+import { loadPortionCalibrationHints } from './portion-calibration-service.js';
 import { invalidateDashboardCacheForUser } from './dashboard-service.js';
 import {
   evaluateAiUsage,
@@ -26,14 +56,21 @@ import type { LocalizationResolution } from '../utils/locale.js';
 import { maybeTranslateNutritionResponse } from './localization-service.js';
 import { buildFavoriteDraftFromAnalysis } from './favorite-service.js';
 import { normalizeTimezone } from '../utils/timezone.js';
+import { applyMealLogItemPlan, createMealLogItems, ensureMealLogItems } from './meal-log-item-service.js';
+import { transcribeMealAudio } from './speech-to-text-service.js';
+import { findChainMenuMatch, getChainMenuItem, getMealLogChainMenuSource } from './chain-menu-service.js';
 
 interface ProcessMealLogParams {
   userId: number;
   message: string;
-  file?: Express.Multer.File;
+  files?: Express.Multer.File[];
+  /** Voice memo; its transcript becomes the meal message and the recording is kept with the log. */
+  audio?: Express.Multer.File;
   idempotencyKey?: string;
   locale?: Locale;
   timezone?: string;
+  /** The client can show follow-up questions, so an uncertain estimate is held instead of saved. */
+  clarify?: boolean;
 }
 
 interface ProcessMealLogResult {
@@ -54,12 +91,26 @@ interface ProcessMealLogResult {
     items: GeminiNutritionResponse['items'];
     warnings: string[];
   };
+  /** Two or more dishes when the log can be split into separate logs; empty otherwise. */
+  dishes: MealDish[];
+  /** Portion references or learned corrections the estimate was adjusted with. */
+  calibrationApplied: AppliedPortionCalibration[];
+  /** Chain menu item the message was matched to; `active` when the log uses its published values. */
+  chainMenu: MealLogChainMenuSource | null;
   meta: Record<string, unknown>;
   usage?: AiUsageSummary;
   favoriteCandidate: FavoriteMealDraft;
 }
 
-const inferMealPeriod = (timezone: string | undefined, referenceDate: Date | undefined = undefined): MealPeriod => {
+export type ProcessMealLogOutcome =
+  | ProcessMealLogResult
+  | (MealLogClarificationResponse & { usage?: AiUsageSummary });
+
+const INGEST_STATUS_PROCESSING = 'processing';
+const INGEST_STATUS_NEEDS_CLARIFICATION = 'needs_clarification';
+const INGEST_STATUS_DONE = 'done';
+
+export const inferMealPeriod = (timezone: string | undefined, referenceDate: Date | undefined = undefined): MealPeriod => {
   const zone = normalizeTimezone(timezone);
   const dt = referenceDate
     ? DateTime.fromJSDate(referenceDate).setZone(zone)
@@ -77,7 +128,7 @@ const inferMealPeriod = (timezone: string | undefined, referenceDate: Date | und
   return MealPeriod.SNACK;
 };
 
-export async function processMealLog(params: ProcessMealLogParams): Promise<ProcessMealLogResult> {
+export async function processMealLog(params: ProcessMealLogParams): Promise<ProcessMealLogOutcome> {
   const requestKey = params.idempotencyKey ?? buildRequestKey(params);
   const requestedLocale = normalizeLocale(params.locale);
   const timezone = normalizeTimezone(params.timezone);
@@ -88,72 +139,56 @@ export async function processMealLog(params: ProcessMealLogParams): Promise<Proc
   });
 
   if (existing?.log && !existing.log.zeroFloored) {
-    const usageStatus = await evaluateAiUsage(params.userId);
-    const usageSummary = summarizeUsageStatus(usageStatus);
-
-    const logRecord = existing.log;
-    const localization = resolveMealLogLocalization(logRecord.aiRaw, requestedLocale);
-    const translation = localization.translation;
-
-    const totals = translation?.totals ?? {
-      kcal: logRecord.calories,
-      protein_g: logRecord.proteinG,
-      fat_g: logRecord.fatG,
-      carbs_g: logRecord.carbsG,
-    };
+    return buildIdempotentMealLogResult(params.userId, requestKey, existing.log, requestedLocale);
+  }
 
-    const items = translation?.items ?? [];
-    const warnings = [...(translation?.warnings ?? [])];
-    if (localization.fallbackApplied) {
-      warnings.push(`translation_fallback:${localization.resolvedLocale}`);
+  if (existing?.status === INGEST_STATUS_NEEDS_CLARIFICATION) {
+    const pending = PendingMealClarificationSchema.safeParse(existing.clarification);
+    if (pending.success) {
+      return buildMealLogClarificationResponse(requestKey, pending.data);
     }
+  }
 
-    const translations = cloneTranslationsMap(localization.translations);
-    const favoriteCandidate = buildFavoriteDraftPayload({
-      translation,
-      totals,
-      items,
-      fallbackDish: logRecord.foodItem,
-      sourceMealLogId: logRecord.id,
-    });
-
-    const meta: Record<string, unknown> = {
-      ...(translation?.meta ?? {}),
-      reused: true,
-      mealPeriod: logRecord.mealPeriod,
-      localization: buildLocalizationMeta({ ...localization, translations }),
-    };
-    if (logRecord.imageUrl) {
-      meta.imageUrl = logRecord.imageUrl;
+  const files = params.files ?? [];
+  const images = files.map((file) => ({
+    base64: file.buffer.toString('base64'),
+    mimeType: file.mimetype,
+    sizeBytes: file.size,
+  }));
+  const audio: SpeechToTextAudio | null = params.audio
+    ? {
+        base64: params.audio.buffer.toString('base64'),
+        mimeType: params.audio.mimetype,
+        sizeBytes: params.audio.size,
+      }
+    : null;
+
+  // A message naming a chain's menu item is logged with the published values and costs no AI credit.
+  if (images.length === 0 && !audio) {
+    const chainMenuItem = await findChainMenuMatch(params.message);
+    if (chainMenuItem) {
+      const ingest =
+        existing ??
+        (await prisma.ingestRequest.create({
+          data: { userId: params.userId, requestKey },
+          include: { log: true },
+        }));
+      const saved = await saveAnalyzedMealLog({
+        userId: params.userId,
+        ingestId: ingest.id,
+        requestKey,
+        message: params.message,
+        requestedLocale,
+        timezone,
+        response: buildChainMenuResponse(chainMenuItem, params.message),
+        images,
+        audio,
+        chainMenu: buildMealLogChainMenuSource(chainMenuItem, CHAIN_MENU_LANDING_TYPE),
+      });
+      return { ...saved, usage: summarizeUsageStatus(await evaluateAiUsage(params.userId)) };
     }
-
-    return {
-      ok: true,
-      success: true,
-      idempotent: true,
-      idempotency_key: requestKey,
-      logId: logRecord.id,
-      requestLocale: localization.requestedLocale,
-      locale: localization.resolvedLocale,
-      translations,
-      fallbackApplied: localization.fallbackApplied,
-      dish: translation?.dish ?? logRecord.foodItem,
-      confidence: translation?.confidence ?? 0.5,
-      totals,
-      items,
-      breakdown: {
-        items,
-        warnings,
-      },
-      meta,
-      usage: usageSummary,
-      favoriteCandidate,
-    };
   }
 
-  const imageBase64 = params.file ? params.file.buffer.toString('base64') : undefined;
-  const imageMimeType = params.file?.mimetype;
-
   const usageStatus = await evaluateAiUsage(params.userId);
   if (!usageStatus.allowed) {
     throw buildUsageLimitError(usageStatus);
@@ -170,13 +205,36 @@ export async function processMealLog(params: ProcessMealLogParams): Promise<Proc
     });
   }
 
+  const portionHints = await loadPortionCalibrationHints(params.userId);
+
+  let message = params.message;
   let analysis;
   try {
-    analysis = await analyzeMealWithGemini({
-      message: params.message,
-      imageBase64,
-      imageMimeType,
+    if (audio) {
+      message = buildVoiceMealMessage(params.message, await transcribeMealAudio(audio, requestedLocale));
+      // Spoken chain menu items are logged like typed ones; the credit is only spent on analysis.
+      const chainMenuItem = images.length === 0 ? await findChainMenuMatch(message) : null;
+      if (chainMenuItem) {
+        const saved = await saveAnalyzedMealLog({
+          userId: params.userId,
+          ingestId: ingest.id,
+          requestKey,
+          message,
+          requestedLocale,
+          timezone,
+          response: buildChainMenuResponse(chainMenuItem, message),
+          images,
+          audio,
+          chainMenu: buildMealLogChainMenuSource(chainMenuItem, CHAIN_MENU_LANDING_TYPE),
+        });
+        return { ...saved, usage: summarizeUsageStatus(usageStatus) };
+      }
+    }
+    analysis = await analyzeMealWithCache({
+      message,
+      images,
       locale: requestedLocale,
+      portionHints,
     });
   } catch (error) {
     if (ingest) {
@@ -188,7 +246,138 @@ export async function processMealLog(params: ProcessMealLogParams): Promise<Proc
     throw error;
   }
 
-  const enrichedResponse: GeminiNutritionResponse = {
+  const enrichedResponse = enrichAnalysisResponse(analysis);
+
+  const questions = params.clarify ? selectClarifyingQuestions(enrichedResponse) : [];
+  if (questions.length > 0) {
+    const pending: PendingMealClarification = {
+      message,
+      locale: requestedLocale,
+      timezone,
+      questions,
+      draft: enrichedResponse,
+      images,
+      audio,
+    };
+    await prisma.ingestRequest.update({
+      where: { id: ingest.id },
+      data: { status: INGEST_STATUS_NEEDS_CLARIFICATION, clarification: toJson(pending) },
+    });
+    const usageSummary = await recordAiUsage({
+      userId: params.userId,
+      usageDate: usageStatus.usageDate,
+      consumeCredit: usageStatus.consumeCredit,
+    });
+    return { ...buildMealLogClarificationResponse(requestKey, pending), usage: usageSummary };
+  }
+
+  const saved = await saveAnalyzedMealLog({
+    userId: params.userId,
+    ingestId: ingest.id,
+    requestKey,
+    message,
+    requestedLocale,
+    timezone,
+    response: enrichedResponse,
+    images,
+    audio,
+  });
+
+  const usageSummary = await recordAiUsage({
+    userId: params.userId,
+    usageDate: usageStatus.usageDate,
+    consumeCredit: usageStatus.consumeCredit,
+  });
+
+  return { ...saved, usage: usageSummary };
+}
+
+/**
+ * Answers the follow-up questions of an ingest request held in `needs_clarification`. With answers the
+ * meal is analyzed again (same photos, the earlier estimate and the answers in the prompt); without any,
+ * the draft is saved as it is. Either way the log is attached to the same ingest request, and the AI
+ * credit was already counted when the questions were asked.
+ */
+export async function clarifyMealLog(params: {
+  userId: number;
+  requestKey: string;
+  payload: unknown;
+  locale?: Locale;
+}): Promise<ProcessMealLogResult> {
+  const body = MealLogClarifyRequestSchema.parse(params.payload);
+  const ingest = await prisma.ingestRequest.findUnique({
+    where: { userId_requestKey: { userId: params.userId, requestKey: params.requestKey } },
+    include: { log: true },
+  });
+
+  if (!ingest) {
+    const error = new Error('解析リクエストが見つかりませんでした');
+    Object.assign(error, { statusCode: StatusCodes.NOT_FOUND, expose: true });
+    throw error;
+  }
+
+  if (ingest.log) {
+    return buildIdempotentMealLogResult(
+      params.userId,
+      params.requestKey,
+      ingest.log,
+      normalizeLocale(params.locale),
+    );
+  }
+
+  const pending = PendingMealClarificationSchema.safeParse(ingest.clarification);
+  // Claiming the request first keeps a double-tapped answer from creating two logs.
+  const claimed = await prisma.ingestRequest.updateMany({
+    where: { id: ingest.id, status: INGEST_STATUS_NEEDS_CLARIFICATION },
+    data: { status: INGEST_STATUS_PROCESSING },
+  });
+  if (!pending.success || claimed.count === 0) {
+    const error = new Error('確認待ちの解析が見つかりませんでした');
+    Object.assign(error, { statusCode: StatusCodes.CONFLICT, expose: true });
+    throw error;
+  }
+
+  const { draft, questions, images, audio, message, timezone } = pending.data;
+  const requestedLocale = params.locale ? normalizeLocale(params.locale) : pending.data.locale;
+  const answers = matchClarifyingAnswers(questions, body.answers);
+
+  try {
+    let response = draft;
+    if (answers.length > 0) {
+      const analysis = await analyzeMealWithGemini({
+        message,
+        images,
+        locale: pending.data.locale,
+        portionHints: await loadPortionCalibrationHints(params.userId),
+        clarification: { draft, answers },
+      });
+      response = enrichAnalysisResponse(analysis);
+    }
+
+    const saved = await saveAnalyzedMealLog({
+      userId: params.userId,
+      ingestId: ingest.id,
+      requestKey: params.requestKey,
+      message,
+      requestedLocale,
+      timezone,
+      response,
+      images,
+      audio,
+    });
+    const usageStatus = await evaluateAiUsage(params.userId);
+    return { ...saved, usage: summarizeUsageStatus(usageStatus) };
+  } catch (error) {
+    await prisma.ingestRequest.update({
+      where: { id: ingest.id },
+      data: { status: INGEST_STATUS_NEEDS_CLARIFICATION },
+    });
+    throw error;
+  }
+}
+
+function enrichAnalysisResponse(analysis: AnalyzeMealResult): GeminiNutritionResponse {
+  return {
     ...analysis.response,
     meta: {
       ...(analysis.response.meta ?? {}),
@@ -196,10 +385,162 @@ export async function processMealLog(params: ProcessMealLogParams): Promise<Proc
       attempt: analysis.meta.attempt,
       latencyMs: analysis.meta.latencyMs,
       attemptReports: analysis.attemptReports,
+      ...(analysis.meta.cacheHit ? { cacheHit: true } : {}),
     },
   };
+}
+
+export async function buildIdempotentMealLogResult(
+  userId: number,
+  requestKey: string,
+  logRecord: MealLog,
+  requestedLocale: Locale,
+): Promise<ProcessMealLogResult> {
+  const usageStatus = await evaluateAiUsage(userId);
+  const usageSummary = summarizeUsageStatus(usageStatus);
+
+  const localization = resolveMealLogLocalization(logRecord.aiRaw, requestedLocale);
+  const translation = localization.translation;
+
+  const totals = translation?.totals ?? {
+    kcal: logRecord.calories,
+    protein_g: logRecord.proteinG,
+    fat_g: logRecord.fatG,
+    carbs_g: logRecord.carbsG,
+  };
+
+  const items = translation?.items ?? [];
+  const warnings = [...(translation?.warnings ?? [])];
+  if (localization.fallbackApplied) {
+    warnings.push(`translation_fallback:${localization.resolvedLocale}`);
+  }
+
+  const translations = cloneTranslationsMap(localization.translations);
+  const favoriteCandidate = buildFavoriteDraftPayload({
+    translation,
+    totals,
+    items,
+    fallbackDish: logRecord.foodItem,
+    sourceMealLogId: logRecord.id,
+  });
+
+  const meta: Record<string, unknown> = {
+    ...(translation?.meta ?? {}),
+    reused: true,
+    mealPeriod: logRecord.mealPeriod,
+    localization: buildLocalizationMeta({ ...localization, translations }),
+  };
+  if (logRecord.imageUrl) {
+    meta.imageUrl = logRecord.imageUrl;
+  }
 
+  return {
+    ok: true,
+    success: true,
+    idempotent: true,
+    idempotency_key: requestKey,
+    logId: logRecord.id,
+    requestLocale: localization.requestedLocale,
+    locale: localization.resolvedLocale,
+    translations,
+    fallbackApplied: localization.fallbackApplied,
+    dish: translation?.dish ?? logRecord.foodItem,
+    confidence: translation?.confidence ?? 0.5,
+    totals,
+    items,
+    breakdown: {
+      items,
+      warnings,
+    },
+    dishes: logRecord.groupId ? [] : listSplittableDishes(translation),
+    calibrationApplied: translation?.calibration_applied ?? [],
+    chainMenu: await getMealLogChainMenuSource(translation?.meta, logRecord.landingType),
+    meta,
+    usage: usageSummary,
+    favoriteCandidate,
+  };
+}
+
+export type IngestStatus =
+  | { ok: true; status: 'processing'; requestKey: string; createdAt: string | null }
+  | {
+      ok: true;
+      status: 'needs_clarification';
+      requestKey: string;
+      clarification: MealLogClarificationResponse;
+    }
+  | { ok: true; status: 'done'; requestKey: string; result: ProcessMealLogResult };
+
+/**
+ * Status of one `POST /log` request for the `/api/stream` channel, in the Edge `GET /api/ingest/:requestKey`
+ * shape. Requests run inline here, so there is no deferred state: a request without a log is still processing.
+ */
+export async function resolveIngestStatus(params: {
+  userId: number;
+  requestKey: string;
+  locale: Locale;
+}): Promise<IngestStatus> {
+  const { userId, requestKey } = params;
+  const ingest = await prisma.ingestRequest.findUnique({
+    where: { userId_requestKey: { userId, requestKey } },
+    include: { log: true },
+  });
+
+  if (!ingest) {
+    const error = new Error('解析リクエストが見つかりませんでした');
+    Object.assign(error, { statusCode: StatusCodes.NOT_FOUND, expose: true });
+    throw error;
+  }
+
+  if (ingest.status === INGEST_STATUS_NEEDS_CLARIFICATION) {
+    const pending = PendingMealClarificationSchema.safeParse(ingest.clarification);
+    if (pending.success) {
+      return {
+        ok: true,
+        status: 'needs_clarification',
+        requestKey,
+        clarification: buildMealLogClarificationResponse(requestKey, pending.data),
+      };
+    }
+  }
+
+  if (ingest.log) {
+    const result = await buildIdempotentMealLogResult(
+      userId,
+      requestKey,
+      ingest.log,
+      normalizeLocale(params.locale),
+    );
+    return { ok: true, status: 'done', requestKey, result };
+  }
+
+  return {
+    ok: true,
+    status: 'processing',
+    requestKey,
+    createdAt: ingest.createdAt.toISOString(),
+  };
+}
+
+/** Stores an analyzed meal as a log (items, photos, period history) and marks its ingest request done. */
+async function saveAnalyzedMealLog(params: {
+  userId: number;
+  ingestId: number;
+  requestKey: string;
+  message: string;
+  requestedLocale: Locale;
+  timezone: string;
+  response: GeminiNutritionResponse;
+  images: PendingMealClarification['images'];
+  audio: SpeechToTextAudio | null;
+  chainMenu?: MealLogChainMenuSource | null;
+}): Promise<Omit<ProcessMealLogResult, 'usage'>> {
+  const { requestedLocale, timezone, images, audio } = params;
+  const enrichedResponse: GeminiNutritionResponse = audio
+    ? { ...params.response, meta: { ...(params.response.meta ?? {}), transcript: params.message } }
+    : params.response;
   const zeroFloored = Object.values(enrichedResponse.totals).some((value) => value === 0);
+  const micros = normalizeMicronutrients(enrichedResponse.micros);
   const mealPeriod = inferMealPeriod(timezone);
 
   const seededTranslations: Record<Locale, GeminiNutritionResponse> = {
@@ -239,6 +580,7 @@ export async function processMealLog(params: ProcessMealLogParams): Promise<Proc
           proteinG: enrichedResponse.totals.protein_g,
           fatG: enrichedResponse.totals.fat_g,
           carbsG: enrichedResponse.totals.carbs_g,
+          micros: Object.keys(micros).length > 0 ? toJson(micros) : Prisma.JsonNull,
           aiRaw: toJson(aiPayload),
           zeroFloored,
           guardrailNotes: zeroFloored ? 'zeroFloored' : null,
@@ -256,6 +598,12 @@ export async function processMealLog(params: ProcessMealLogParams): Promise<Proc
         },
       });
 
+      await createMealLogItems(tx, created.id, {
+        dish: translation.dish,
+        items: responseItems,
+        totals: enrichedResponse.totals,
+      });
+
       return created;
     });
   
@@ -268,39 +616,48 @@ export async function processMealLog(params: ProcessMealLogParams): Promise<Proc
     });
 
   let imageUrl: string | null = null;
-  if (params.file && imageBase64) {
-    imageUrl = `data:${params.file.mimetype};base64,${imageBase64}`;
+  if (images.length > 0) {
+    const assets = images.map((image) => ({
+      mealLogId: log.id,
+      mimeType: image.mimeType,
+      url: `data:${image.mimeType};base64,${image.base64}`,
+      sizeBytes: image.sizeBytes,
+    }));
+    imageUrl = assets[0].url;
+    await prisma.mediaAsset.createMany({ data: assets });
+    await prisma.mealLog.update({
+      where: { id: log.id },
+      data: { imageUrl },
+    });
+  }
+  if (audio) {
     await prisma.mediaAsset.create({
       data: {
         mealLogId: log.id,
-        mimeType: params.file.mimetype,
-        url: imageUrl,
-        sizeBytes: params.file.size,
+        mimeType: audio.mimeType,
+        url: `data:${audio.mimeType};base64,${audio.base64}`,
+        sizeBytes: audio.sizeBytes,
       },
     });
-    await prisma.mealLog.update({
-      where: { id: log.id },
-      data: { imageUrl },
-    });
   }
 
   await prisma.ingestRequest.update({
-    where: { id: ingest.id },
-    data: { logId: zeroFloored ? null : log.id },
+    where: { id: params.ingestId },
+    data: {
+      logId: zeroFloored ? null : log.id,
+      status: INGEST_STATUS_DONE,
+      clarification: Prisma.DbNull,
+      promptVersion: MEAL_ANALYSIS_PROMPT_VERSION,
+      modelVersion: enrichedResponse.meta?.model ?? null,
+    },
   });
 
   invalidateDashboardCacheForUser(params.userId);
 
-  const usageSummary = await recordAiUsage({
-    userId: params.userId,
-    usageDate: usageStatus.usageDate,
-    consumeCredit: usageStatus.consumeCredit,
-  });
-
   const meta: Record<string, unknown> = {
     ...(enrichedResponse.meta ?? {}),
     imageUrl,
-    fallback_model_used: analysis.meta.model === 'models/gemini-2.5-pro',
+    fallback_model_used: enrichedResponse.meta?.model === 'models/gemini-2.5-pro',
     mealPeriod,
     timezone,
     localization: buildLocalizationMeta({ ...localization, translations: responseTranslations }),
@@ -310,7 +667,7 @@ export async function processMealLog(params: ProcessMealLogParams): Promise<Proc
     ok: true,
     success: true,
     idempotent: false,
-    idempotency_key: requestKey,
+    idempotency_key: params.requestKey,
     logId: log.id,
     requestLocale: localization.requestedLocale,
     locale: localization.resolvedLocale,
@@ -324,12 +681,239 @@ export async function processMealLog(params: ProcessMealLogParams): Promise<Proc
       items: responseItems,
       warnings,
     },
+    dishes: listSplittableDishes(translation),
+    calibrationApplied: translation.calibration_applied ?? [],
+    chainMenu: params.chainMenu ?? null,
     meta,
-    usage: usageSummary,
     favoriteCandidate,
   };
 }
 
+/**
+ * Replaces a multi-dish log with one log per dish. The new logs share a `groupId`, keep the original
+ * time, meal period and photos, and the combined log is soft-deleted so it can still be restored.
+ */
+export async function splitMealLog(logId: string, userId: number, locale?: Locale): Promise<MealLogSplitResponse> {
+  const log = await prisma.mealLog.findFirst({
+    where: { id: logId, userId, deletedAt: null },
+  });
+
+  if (!log) {
+    const error = new Error('食事記録が見つかりませんでした');
+    Object.assign(error, { statusCode: StatusCodes.NOT_FOUND, expose: true });
+    throw error;
+  }
+
+  const aiRaw = parseMealLogAiRaw(log.aiRaw);
+  const baseLocale = aiRaw?.locale ? normalizeLocale(aiRaw.locale) : DEFAULT_LOCALE;
+  const base = aiRaw ? (aiRaw.translations?.[baseLocale] ?? cloneNutritionResponse(aiRaw)) : null;
+  const dishes = log.groupId ? [] : listSplittableDishes(base);
+  if (!base || dishes.length === 0) {
+    const error = new Error('この食事記録は料理ごとに分けられません');
+    Object.assign(error, { statusCode: StatusCodes.BAD_REQUEST, expose: true });
+    throw error;
+  }
+
+  const requestedLocale = normalizeLocale(locale);
+  const groupId = uuidv4();
+  const created = await prisma.$transaction(async (tx) => {
+    const results: Array<{ id: string; dish: string; calories: number }> = [];
+    for (const [index, dish] of dishes.entries()) {
+      const dishBase = buildDishResponse(base, dish);
+      dishBase.meta = { ...(dishBase.meta ?? {}), splitFromLogId: log.id };
+      const translations = Object.fromEntries(
+        Object.entries(aiRaw?.translations ?? {}).map(([locale, translation]) => {
+          const translatedDish = translation.dishes?.[index];
+          const response = translatedDish ? buildDishResponse(translation, translatedDish) : cloneNutritionResponse(dishBase);
+          return [locale, { ...response, meta: { ...(response.meta ?? {}), splitFromLogId: log.id } }];
+        }),
+      ) as Record<Locale, GeminiNutritionResponse>;
+      const dishPayload: MealLogAiRaw = {
+        ...dishBase,
+        locale: baseLocale,
+        translations: { ...translations, [baseLocale]: cloneNutritionResponse(dishBase) },
+      };
+      const micros = normalizeMicronutrients(dishBase.micros);
+      const dishName = translations[requestedLocale]?.dish ?? dish.dish;
+
+      const dishLog = await tx.mealLog.create({
+        data: {
+          userId,
+          foodItem: dishName,
+          calories: dish.totals.kcal,
+          proteinG: dish.totals.protein_g,
+          fatG: dish.totals.fat_g,
+          carbsG: dish.totals.carbs_g,
+          micros: Object.keys(micros).length > 0 ? toJson(micros) : Prisma.JsonNull,
+          aiRaw: toJson(dishPayload),
+          zeroFloored: Object.values(dish.totals).some((value) => value === 0),
+          landingType: log.landingType,
+          mealPeriod: log.mealPeriod,
+          imageUrl: log.imageUrl,
+          groupId,
+          createdAt: log.createdAt,
+        },
+      });
+
+      await tx.mealLogPeriodHistory.create({
+        data: {
+          mealLogId: dishLog.id,
+          previousMealPeriod: null,
+          nextMealPeriod: log.mealPeriod,
+          source: 'split',
+        },
+      });
+
+      // Photos stay on the original log; each dish points back to it via meta.splitFromLogId.
+      await createMealLogItems(tx, dishLog.id, {
+        dish: dishBase.dish,
+        items: dishBase.items,
+        totals: dishBase.totals,
+      });
+
+      results.push({ id: dishLog.id, dish: dishName, calories: dish.totals.kcal });
+    }
+
+    await tx.logShareToken.deleteMany({ where: { mealLogId: log.id } });
+    await tx.favoriteMeal.updateMany({
+      where: { userId, sourceMealLogId: log.id },
+      data: { sourceMealLogId: null },
+    });
+    await tx.mealLog.update({
+      where: { id: log.id },
+      data: { deletedAt: new Date() },
+    });
+
+    return results;
+  });
+
+  invalidateDashboardCacheForUser(userId);
+
+  return { ok: true, group_id: groupId, items: created };
+}
+
+/**
+ * Moves a log matched to a chain menu item between the published values and a model estimate of the
+ * same message. The match and the estimate switched away from stay in `meta`, so the user can switch
+ * back and forth; only the first switch to the model uses an AI credit.
+ */
+export async function switchMealLogEstimateSource(params: {
+  logId: string;
+  userId: number;
+  source: MealLogEstimateSourceRequest['source'];
+}): Promise<{ usage?: AiUsageSummary }> {
+  const log = await prisma.mealLog.findFirst({
+    where: { id: params.logId, userId: params.userId, deletedAt: null },
+  });
+  if (!log) {
+    const error = new Error('食事記録が見つかりませんでした');
+    Object.assign(error, { statusCode: StatusCodes.NOT_FOUND, expose: true });
+    throw error;
+  }
+
+  const aiRaw = parseMealLogAiRaw(log.aiRaw);
+  const baseLocale = aiRaw?.locale ? normalizeLocale(aiRaw.locale) : DEFAULT_LOCALE;
+  const base = aiRaw ? (aiRaw.translations?.[baseLocale] ?? aiRaw) : null;
+  const itemId = base?.meta?.chainMenuItemId;
+  const query = base?.meta?.chainMenuQuery;
+  if (typeof itemId !== 'number' || !query) {
+    const error = new Error('この食事記録はチェーン店のメニューと照合されていません');
+    Object.assign(error, { statusCode: StatusCodes.CONFLICT, expose: true });
+    throw error;
+  }
+
+  const current = log.landingType === CHAIN_MENU_LANDING_TYPE ? 'chain_menu' : 'ai';
+  if (current === params.source) {
+    return {};
+  }
+
+  const previous = GeminiNutritionResponseSchema.parse(base);
+  const stored = GeminiNutritionResponseSchema.safeParse(previous.meta?.alternateEstimate);
+  if (
+    stored.success &&
+    (stored.data.landing_type === CHAIN_MENU_LANDING_TYPE) === (params.source === 'chain_menu')
+  ) {
+    await prisma.$transaction((tx) =>
+      replaceMealLogEstimate(tx, log, withAlternateEstimate(stored.data, previous)),
+    );
+    invalidateDashboardCacheForUser(params.userId);
+    return {};
+  }
+
+  if (params.source === 'chain_menu') {
+    const item = await getChainMenuItem(itemId);
+    if (!item) {
+      const error = new Error('メニューが見つかりませんでした');
+      Object.assign(error, { statusCode: StatusCodes.NOT_FOUND, expose: true });
+      throw error;
+    }
+    await prisma.$transaction((tx) =>
+      replaceMealLogEstimate(
+        tx,
+        log,
+        withAlternateEstimate(buildChainMenuResponse(item, query), previous),
+      ),
+    );
+    invalidateDashboardCacheForUser(params.userId);
+    return {};
+  }
+
+  const usageStatus = await evaluateAiUsage(params.userId);
+  if (!usageStatus.allowed) {
+    throw buildUsageLimitError(usageStatus);
+  }
+  const analysis = await analyzeMealWithCache({
+    message: query,
+    images: [],
+    locale: baseLocale,
+    portionHints: await loadPortionCalibrationHints(params.userId),
+  });
+  const response = withAlternateEstimate(enrichAnalysisResponse(analysis), previous);
+  await prisma.$transaction((tx) => replaceMealLogEstimate(tx, log, response));
+  invalidateDashboardCacheForUser(params.userId);
+
+  const usage = await recordAiUsage({
+    userId: params.userId,
+    usageDate: usageStatus.usageDate,
+    consumeCredit: usageStatus.consumeCredit,
+  });
+  return { usage };
+}
+
+/**
+ * Replaces the estimate of a log. Translations of the old estimate are dropped rather than left
+ * describing different numbers; they are produced again on request.
+ */
+export async function replaceMealLogEstimate(
+  tx: Prisma.TransactionClient,
+  log: MealLog,
+  response: GeminiNutritionResponse,
+) {
+  const aiRaw = parseMealLogAiRaw(log.aiRaw);
+  const baseLocale: Locale = aiRaw?.locale ? normalizeLocale(aiRaw.locale) : DEFAULT_LOCALE;
+  const zeroFloored = Object.values(response.totals).some((value) => value === 0);
+  const micros = normalizeMicronutrients(response.micros);
+
+  await tx.mealLog.update({
+    where: { id: log.id },
+    data: {
+      foodItem: response.dish,
+      calories: response.totals.kcal,
+      proteinG: response.totals.protein_g,
+      fatG: response.totals.fat_g,
+      carbsG: response.totals.carbs_g,
+      micros: Object.keys(micros).length > 0 ? toJson(micros) : Prisma.JsonNull,
+      aiRaw: toJson({ ...response, locale: baseLocale, translations: { [baseLocale]: response } }),
+      zeroFloored,
+      guardrailNotes: zeroFloored ? 'zeroFloored' : null,
+      landingType: response.landing_type ?? null,
+      version: { increment: 1 },
+    },
+  });
+  await tx.mealLogItem.deleteMany({ where: { mealLogId: log.id } });
+  await createMealLogItems(tx, log.id, response);
+}
+
 interface UpdateMealLogParams {
   logId: string;
   userId: number;
@@ -340,6 +924,8 @@ interface UpdateMealLogParams {
     fatG?: number;
     carbsG?: number;
     mealPeriod?: MealPeriod;
+    /** Full item list; when given, totals are recomputed from it. */
+    items?: MealLogItemInput[];
   };
 }
 
@@ -359,6 +945,39 @@ export async function updateMealLog({ logId, userId, updates }: UpdateMealLogPar
     version: { increment: 1 },
   };
 
+  let itemPlan: MealLogItemChangePlan | null = null;
+  let micros: Micronutrients | null = null;
+  if (updates.items) {
+    const currentItems = await ensureMealLogItems(prisma, log);
+    itemPlan = planMealLogItemChanges(currentItems, updates.items);
+    if (itemPlan.unknownIds.length > 0) {
+      const error = new Error('この食事記録に含まれない品目が指定されました');
+      Object.assign(error, { statusCode: StatusCodes.BAD_REQUEST, expose: true });
+      throw error;
+    }
+    if (itemPlan.items.length === 0) {
+      const error = new Error('品目を1つ以上残してください');
+      Object.assign(error, { statusCode: StatusCodes.BAD_REQUEST, expose: true });
+      throw error;
+    }
+    Object.assign(changes, itemPlan.changes);
+    // Micronutrients are not itemised; like a split dish's, they follow the share of the calories kept.
+    if (log.calories > 0) {
+      micros = scaleMicronutrients(
+        normalizeMicronutrients(log.micros as Micronutrients | null),
+        itemPlan.totals.kcal / log.calories,
+      );
+      updateData.micros = Object.keys(micros).length > 0 ? toJson(micros) : Prisma.JsonNull;
+    }
+    updates = {
+      ...updates,
+      calories: itemPlan.totals.kcal,
+      proteinG: itemPlan.totals.protein_g,
+      fatG: itemPlan.totals.fat_g,
+      carbsG: itemPlan.totals.carbs_g,
+    };
+  }
+
   if (typeof updates.foodItem === 'string' && updates.foodItem !== log.foodItem) {
     changes.foodItem = { before: log.foodItem, after: updates.foodItem };
     updateData.foodItem = updates.foodItem;
@@ -409,14 +1028,26 @@ export async function updateMealLog({ logId, userId, updates }: UpdateMealLogPar
       ...(typeof updates.fatG === 'number' ? { fat_g: updates.fatG } : {}),
       ...(typeof updates.carbsG === 'number' ? { carbs_g: updates.carbsG } : {}),
     };
+    if (itemPlan) {
+      updatedBase.items = toNutritionItems(itemPlan.items);
+    }
+    if (micros) {
+      updatedBase.micros = micros;
+    }
 
     const updatedTranslations = { ...(parsedAiRaw.translations ?? {}) } as Record<Locale, GeminiNutritionResponse>;
+    if (micros) {
+      for (const locale of Object.keys(updatedTranslations) as Locale[]) {
+        updatedTranslations[locale] = { ...updatedTranslations[locale], micros };
+      }
+    }
     updatedTranslations[baseLocale] = updatedBase;
 
     updatedAiRaw = {
       ...parsedAiRaw,
       dish: updatedBase.dish,
       totals: updatedBase.totals,
+      micros: updatedBase.micros,
       items: updatedBase.items,
       warnings: updatedBase.warnings,
       translations: updatedTranslations,
@@ -433,6 +1064,7 @@ export async function updateMealLog({ logId, userId, updates }: UpdateMealLogPar
         ...(typeof updates.fatG === 'number' ? { fat_g: updates.fatG } : {}),
         ...(typeof updates.carbsG === 'number' ? { carbs_g: updates.carbsG } : {}),
       },
+      ...(micros ? { micros } : {}),
     } satisfies GeminiNutritionResponse;
 
     updatedAiRaw = {
@@ -455,6 +1087,10 @@ export async function updateMealLog({ logId, userId, updates }: UpdateMealLogPar
       },
     });
 
+    if (itemPlan) {
+      await applyMealLogItemPlan(tx, log.id, itemPlan);
+    }
+
     if (typeof updates.mealPeriod !== 'undefined' && updates.mealPeriod !== previousMealPeriod) {
       await tx.mealLogPeriodHistory.create({
         data: {
@@ -638,9 +1274,9 @@ function buildRequestKey(params: ProcessMealLogParams) {
   hash.update(String(params.userId));
   hash.update('|');
   hash.update(params.message);
-  if (params.file) {
+  for (const file of [...(params.files ?? []), ...(params.audio ? [params.audio] : [])]) {
     hash.update('|');
-    hash.update(params.file.buffer);
+    hash.update(file.buffer);
   }
   return `${Date.now()}-${uuidv4()}-${hash.digest('hex').slice(0, 12)}`;
 }
@@ -0,0 +1,111 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import nodemailer from 'nodemailer';
+import { env } from '../env.js';
+import { logger } from '../logger.js';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export type MailTransportName = 'smtp' | 'file' | 'console';
+
+/** Transports deliver one plain-text message; rendering and retries stay with the caller. */
+export interface MailTransport {
+  name: MailTransportName;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  timeoutMs?: number;
+}
+
+const SMTP_TIMEOUT_MS = 15_000;
+
+/**
+ * Submits one message over SMTP: implicit TLS, or STARTTLS when the server offers it. With
+ * credentials TLS is required, so a server without it is refused rather than sent them in clear.
+ */
+export async function sendSmtpMail(options: SmtpOptions, message: MailMessage & { from: string }) {
+  const timeoutMs = options.timeoutMs ?? SMTP_TIMEOUT_MS;
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    requireTLS: Boolean(options.user),
+    auth: options.user ? { user: options.user, pass: options.password ?? '' } : undefined,
+    connectionTimeout: timeoutMs,
+    greetingTimeout: timeoutMs,
+    socketTimeout: timeoutMs,
+  });
+  await transporter.sendMail(message);
+}
+
+const smtpTransport: MailTransport = {
+  name: 'smtp',
+  async send(message) {
+    if (!env.SMTP_HOST) {
+      throw new Error('SMTP_HOST is not configured');
+    }
+    await sendSmtpMail(
+      {
+        host: env.SMTP_HOST,
+        port: env.SMTP_PORT,
+        secure: env.SMTP_SECURE,
+        user: env.SMTP_USER,
+        password: env.SMTP_PASSWORD,
+      },
+      message,
+    );
+  },
+};
+
+/** Writes each message as JSON so tests and local runs can pick the link out of it. */
+export function createFileMailTransport(directory: string): MailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      const dir = resolve(directory);
+      await mkdir(dir, { recursive: true });
+      const sentAt = new Date();
+      await writeFile(
+        join(dir, `${sentAt.getTime()}-${randomUUID()}.json`),
+        JSON.stringify({ ...message, sentAt: sentAt.toISOString() }, null, 2),
+      );
+    },
+  };
+}
+
+const consoleTransport: MailTransport = {
+  name: 'console',
+  async send(message) {
+    logger.info({ mail: message }, 'mail (console transport)');
+  },
+};
+
+/**
+ * `MAIL_TRANSPORT` picks the transport; without it SMTP is used when `SMTP_HOST` is set or in
+ * production, and mail is logged to the console otherwise.
+ */
+export function resolveMailTransport(): MailTransport {
+  const name =
+    env.MAIL_TRANSPORT ?? (env.SMTP_HOST || env.NODE_ENV === 'production' ? 'smtp' : 'console');
+  if (name === 'file') {
+    return createFileMailTransport(env.MAIL_FILE_DIR);
+  }
+  return name === 'smtp' ? smtpTransport : consoleTransport;
+}
+
+export async function sendMail(message: MailMessage) {
+  const transport = resolveMailTransport();
+  await transport.send({ ...message, from: env.MAIL_FROM });
+  logger.info({ transport: transport.name, subject: message.subject }, 'mail sent');
+}
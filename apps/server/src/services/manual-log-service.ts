@@ -0,0 +1,219 @@
+import { randomUUID } from 'node:crypto';
+import { MealPeriod, Prisma } from '@prisma/client';
+import { StatusCodes } from 'http-status-codes';
+import {
+  MANUAL_LOG_LANDING_TYPE,
+  type FavoriteMealDraft,
+  type GeminiNutritionResponse,
+  type Locale,
+  type ManualMealLogRequest,
+  type MealLogAiRaw,
+  type NutritionTotals,
+} from '@meal-log/shared';
+import { prisma } from '../db/prisma.js';
+import {
+  DEFAULT_LOCALE,
+  resolveMealLogLocalization,
+  type LocalizationResolution,
+} from '../utils/locale.js';
+import { normalizeTimezone } from '../utils/timezone.js';
+import { invalidateDashboardCacheForUser } from './dashboard-service.js';
+import { buildFavoriteDraftFromAnalysis } from './favorite-service.js';
+import { buildIdempotentMealLogResult, inferMealPeriod } from './log-service.js';
+import { createMealLogItems } from './meal-log-item-service.js';
+
+const INGEST_STATUS_DONE = 'done';
+
+const mealPeriodLookup: Record<NonNullable<ManualMealLogRequest['meal_period']>, MealPeriod> = {
+  breakfast: MealPeriod.BREAKFAST,
+  lunch: MealPeriod.LUNCH,
+  dinner: MealPeriod.DINNER,
+  snack: MealPeriod.SNACK,
+};
+
+export interface ManualMealLogParams {
+  userId: number;
+  /** Display name per locale; becomes one translation each. */
+  names: Array<{ locale: string; name: string }>;
+  portion: { grams: number; totals: NutritionTotals };
+  /** Item rows to store; defaults to a single row named after the food. */
+  items?: GeminiNutritionResponse['items'];
+  request: Pick<ManualMealLogRequest, 'meal_period'>;
+  locale: Locale;
+  timezone?: string;
+  /** Identifies the source record; stored on the analysis and echoed in the response. */
+  sourceMeta: Pick<NonNullable<GeminiNutritionResponse['meta']>, 'foodId' | 'barcode' | 'recipeId'>;
+  idempotencyPrefix: string;
+  /** Client `Idempotency-Key`; a repeated key returns the log it created instead of a new one. */
+  idempotencyKey?: string;
+}
+
+/**
+ * Creates a meal log from deterministic totals. No model call is made, so the
+ * AI usage counter is neither checked nor incremented.
+ */
+export async function createManualMealLog(params: ManualMealLogParams) {
+  const requestKey = params.idempotencyKey ?? `${params.idempotencyPrefix}-${randomUUID()}`;
+  const existing = await findLoggedRequest(params.userId, requestKey, params.locale);
+  if (existing) {
+    return existing;
+  }
+
+  const translations = buildManualTranslations(params);
+  const baseLocale = translations[DEFAULT_LOCALE] ? DEFAULT_LOCALE : Object.keys(translations)[0]!;
+  const baseResponse = translations[baseLocale]!;
+  const aiPayload: MealLogAiRaw = {
+    ...baseResponse,
+    locale: baseLocale,
+    translations,
+  };
+
+  const mealPeriod = params.request.meal_period
+    ? mealPeriodLookup[params.request.meal_period]
+    : inferMealPeriod(normalizeTimezone(params.timezone));
+
+  let log;
+  try {
+    log = await prisma.$transaction(async (tx) => {
+      const created = await tx.mealLog.create({
+        data: {
+          userId: params.userId,
+          foodItem: baseResponse.dish,
+          calories: params.portion.totals.kcal,
+          proteinG: params.portion.totals.protein_g,
+          fatG: params.portion.totals.fat_g,
+          carbsG: params.portion.totals.carbs_g,
+          aiRaw: aiPayload as Prisma.InputJsonValue,
+          zeroFloored: false,
+          guardrailNotes: null,
+          landingType: MANUAL_LOG_LANDING_TYPE,
+          mealPeriod,
+        },
+      });
+
+      await tx.mealLogPeriodHistory.create({
+        data: {
+          mealLogId: created.id,
+          previousMealPeriod: null,
+          nextMealPeriod: mealPeriod,
+          source: params.request.meal_period ? 'manual' : 'auto',
+        },
+      });
+
+      await createMealLogItems(tx, created.id, baseResponse);
+
+      // Recorded like a /log request so a retry with the same key resolves to this log.
+      await tx.ingestRequest.create({
+        data: { userId: params.userId, requestKey, logId: created.id, status: INGEST_STATUS_DONE },
+      });
+
+      return created;
+    });
+  } catch (error) {
+    // Another request with the same key won the unique (userId, requestKey) row; its log is the result.
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      const winner = await findLoggedRequest(params.userId, requestKey, params.locale);
+      if (winner) {
+        return winner;
+      }
+    }
+    throw error;
+  }
+
+  invalidateDashboardCacheForUser(params.userId);
+
+  const localization = resolveMealLogLocalization(aiPayload, params.locale);
+  const translation = localization.translation ?? baseResponse;
+  const favoriteCandidate: FavoriteMealDraft = buildFavoriteDraftFromAnalysis(translation, {
+    sourceMealLogId: log.id,
+  });
+
+  return {
+    ok: true,
+    success: true,
+    idempotent: false,
+    idempotency_key: requestKey,
+    logId: log.id,
+    requestLocale: localization.requestedLocale,
+    locale: localization.resolvedLocale,
+    translations: localization.translations,
+    fallbackApplied: localization.fallbackApplied,
+    dish: translation.dish,
+    confidence: translation.confidence,
+    totals: translation.totals,
+    items: translation.items,
+    breakdown: {
+      items: translation.items,
+      warnings: translation.warnings ?? [],
+    },
+    meta: {
+      ...params.sourceMeta,
+      grams: params.portion.grams,
+      mealPeriod,
+      localization: buildLocalizationMeta(localization),
+      created_manually: true,
+    } satisfies Record<string, unknown>,
+    usage: undefined,
+    favoriteCandidate,
+  } as const;
+}
+
+/**
+ * The log an earlier request with this key created, or null when the key is unused. A key taken by a
+ * /log request that has no log yet (still analyzing, or waiting for answers) is a 409, as on that path.
+ */
+async function findLoggedRequest(userId: number, requestKey: string, locale: Locale) {
+  const existing = await prisma.ingestRequest.findUnique({
+    where: { userId_requestKey: { userId, requestKey } },
+    include: { log: true },
+  });
+  if (!existing) {
+    return null;
+  }
+  if (!existing.log) {
+    const error = new Error('記録中です。しばらくお待ちください。');
+    Object.assign(error, {
+      statusCode: StatusCodes.CONFLICT,
+      expose: true,
+      code: 'INGEST_IN_PROGRESS',
+      data: { requestKey },
+    });
+    throw error;
+  }
+  return buildIdempotentMealLogResult(userId, requestKey, existing.log, locale);
+}
+
+function buildManualTranslations(
+  params: ManualMealLogParams,
+): Record<Locale, GeminiNutritionResponse> {
+  const entries = params.names.map(({ locale, name }) => {
+    const response: GeminiNutritionResponse = {
+      dish: name,
+      confidence: 1,
+      totals: { ...params.portion.totals },
+      items: params.items?.map((item) => ({ ...item })) ?? [
+        {
+          name,
+          grams: params.portion.grams,
+          protein_g: params.portion.totals.protein_g,
+          fat_g: params.portion.totals.fat_g,
+          carbs_g: params.portion.totals.carbs_g,
+        },
+      ],
+      warnings: [],
+      landing_type: MANUAL_LOG_LANDING_TYPE,
+      meta: { ...params.sourceMeta },
+    };
+    return [locale, response] as const;
+  });
+  return Object.fromEntries(entries) as Record<Locale, GeminiNutritionResponse>;
+}
+
+function buildLocalizationMeta(localization: LocalizationResolution) {
+  return {
+    requested: localization.requestedLocale,
+    resolved: localization.resolvedLocale,
+    fallbackApplied: localization.fallbackApplied,
+    available: Object.keys(localization.translations),
+  } satisfies Record<string, unknown>;
+}
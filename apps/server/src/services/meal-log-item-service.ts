@@ -0,0 +1,121 @@
+import type { MealLogItem as MealLogItemRecord, Prisma } from '@prisma/client';
+import {
+  allocateMealLogItems,
+  type GeminiNutritionResponse,
+  type MealLogItem,
+  type MealLogItemChangePlan,
+  type MealLogItemDraft,
+} from '@meal-log/shared';
+import { prisma } from '../db/prisma.js';
+import { parseMealLogAiRaw, resolveMealLogLocalization } from '../utils/locale.js';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+interface MealLogItemSource {
+  id: string;
+  foodItem: string;
+  calories: number;
+  proteinG: number;
+  fatG: number;
+  carbsG: number;
+  aiRaw: Prisma.JsonValue | null;
+}
+
+export function mapMealLogItem(record: MealLogItemRecord): MealLogItem {
+  return {
+    id: record.id,
+    name: record.name,
+    grams: record.grams,
+    calories: record.calories,
+    protein_g: record.proteinG,
+    fat_g: record.fatG,
+    carbs_g: record.carbsG,
+    order_index: record.orderIndex,
+  };
+}
+
+function toItemData(draft: MealLogItemDraft) {
+  return {
+    name: draft.name,
+    grams: draft.grams,
+    calories: draft.calories,
+    proteinG: draft.protein_g,
+    fatG: draft.fat_g,
+    carbsG: draft.carbs_g,
+    orderIndex: draft.order_index,
+  };
+}
+
+/**
+ * Stores the analysed items of a new log, split so that they add up to its totals.
+ * Rows are unique per (mealLogId, orderIndex), so a second writer of the same log adds nothing.
+ */
+export async function createMealLogItems(
+  client: DbClient,
+  mealLogId: string,
+  response: Pick<GeminiNutritionResponse, 'dish' | 'totals' | 'items'>,
+) {
+  const items = response.items.length > 0 ? response.items : [{ name: response.dish, grams: 0 }];
+  const drafts = allocateMealLogItems(response.totals, items);
+  await client.mealLogItem.createMany({
+    data: drafts.map((draft) => ({ mealLogId, ...toItemData(draft) })),
+    skipDuplicates: true,
+  });
+}
+
+/**
+ * Returns the rows of a log. Logs saved before items were stored get them created from
+ * `aiRaw` on first access, named in the log's own locale like rows stored at save time.
+ */
+export async function ensureMealLogItems(
+  client: DbClient,
+  log: MealLogItemSource,
+): Promise<MealLogItem[]> {
+  const existing = await client.mealLogItem.findMany({
+    where: { mealLogId: log.id },
+    orderBy: { orderIndex: 'asc' },
+  });
+  if (existing.length > 0) {
+    return existing.map(mapMealLogItem);
+  }
+
+  const baseLocale = parseMealLogAiRaw(log.aiRaw)?.locale;
+  const translation = resolveMealLogLocalization(log.aiRaw, baseLocale).translation;
+  await createMealLogItems(client, log.id, {
+    dish: translation?.dish ?? log.foodItem,
+    items: translation?.items ?? [],
+    totals: {
+      kcal: log.calories,
+      protein_g: log.proteinG,
+      fat_g: log.fatG,
+      carbs_g: log.carbsG,
+    },
+  });
+
+  const created = await client.mealLogItem.findMany({
+    where: { mealLogId: log.id },
+    orderBy: { orderIndex: 'asc' },
+  });
+  return created.map(mapMealLogItem);
+}
+
+export async function applyMealLogItemPlan(
+  tx: Prisma.TransactionClient,
+  mealLogId: string,
+  plan: MealLogItemChangePlan,
+) {
+  if (plan.removedIds.length > 0) {
+    await tx.mealLogItem.deleteMany({ where: { mealLogId, id: { in: plan.removedIds } } });
+  }
+  // Park the kept rows on negative positions so renumbering them never collides with the unique index.
+  await tx.$executeRaw`
+    UPDATE "MealLogItem" SET "orderIndex" = -1 - "orderIndex" WHERE "mealLogId" = ${mealLogId}
+  `;
+  for (const draft of plan.items) {
+    if (draft.id !== undefined) {
+      await tx.mealLogItem.update({ where: { id: draft.id }, data: toItemData(draft) });
+    } else {
+      await tx.mealLogItem.create({ data: { mealLogId, ...toItemData(draft) } });
+    }
+  }
+}
@@ -0,0 +1,414 @@
+import { StatusCodes } from 'http-status-codes';
+import {
+  GeminiNutritionResponseSchema,
+  MealLogReanalysisSchema,
+  MealReanalysisFilterSchema,
+  buildReanalysisMessage,
+  decideMealReanalysis,
+  isReanalyzableMealLog,
+  type AiPromptImage,
+  type GeminiNutritionResponse,
+  type MealLogReanalysis,
+  type MealReanalysisFilter,
+} from '@meal-log/shared';
+import { Prisma, type MealLog, type MealLogReanalysis as MealLogReanalysisRecord } from '@prisma/client';
+import { prisma } from '../db/prisma.js';
+import { logger } from '../logger.js';
+import { DEFAULT_LOCALE, normalizeLocale, parseMealLogAiRaw } from '../utils/locale.js';
+import { analyzeMealWithGemini, MEAL_ANALYSIS_PROMPT_VERSION } from './gemini-service.js';
+import { loadPortionCalibrationHints } from './portion-calibration-service.js';
+import { invalidateDashboardCacheForUser } from './dashboard-service.js';
+import { ensureMealLogItems } from './meal-log-item-service.js';
+import { replaceMealLogEstimate } from './log-service.js';
+
+const JOB_STATUS_RUNNING = 'running';
+const JOB_STATUS_PAUSED = 'paused';
+const JOB_STATUS_DONE = 'done';
+
+const REANALYSIS_STATUS_APPLIED = 'applied';
+const REANALYSIS_STATUS_PENDING = 'pending';
+const REANALYSIS_STATUS_ACCEPTED = 'accepted';
+const REANALYSIS_STATUS_DISMISSED = 'dismissed';
+const REANALYSIS_STATUS_SUPERSEDED = 'superseded';
+const REANALYSIS_STATUS_UNCHANGED = 'unchanged';
+const REANALYSIS_STATUS_SKIPPED = 'skipped';
+const REANALYSIS_STATUS_FAILED = 'failed';
+
+const JOB_BATCH_SIZE = 20;
+/** A run of failures usually means the provider or the prompt is broken; stop instead of burning the whole range. */
+const MAX_CONSECUTIVE_FAILURES = 5;
+export const DEFAULT_REANALYSIS_RATE_PER_MINUTE = 20;
+
+type ReanalysisOutcome =
+  | typeof REANALYSIS_STATUS_APPLIED
+  | typeof REANALYSIS_STATUS_PENDING
+  | typeof REANALYSIS_STATUS_UNCHANGED
+  | typeof REANALYSIS_STATUS_SKIPPED
+  | typeof REANALYSIS_STATUS_FAILED;
+
+const outcomeCounter: Record<ReanalysisOutcome, 'applied' | 'proposed' | 'unchanged' | 'skipped' | 'failed'> = {
+  [REANALYSIS_STATUS_APPLIED]: 'applied',
+  [REANALYSIS_STATUS_PENDING]: 'proposed',
+  [REANALYSIS_STATUS_UNCHANGED]: 'unchanged',
+  [REANALYSIS_STATUS_SKIPPED]: 'skipped',
+  [REANALYSIS_STATUS_FAILED]: 'failed',
+};
+
+type ReanalysisLog = MealLog & {
+  mediaAssets: Array<{ url: string; mimeType: string }>;
+  _count: { edits: number };
+};
+
+export async function createMealReanalysisJob(filters: unknown) {
+  const parsed = MealReanalysisFilterSchema.parse(filters);
+  return prisma.mealReanalysisJob.create({
+    data: {
+      filters: toJson(parsed),
+      promptVersion: MEAL_ANALYSIS_PROMPT_VERSION,
+    },
+  });
+}
+
+export async function getMealReanalysisJob(jobId: number) {
+  return prisma.mealReanalysisJob.findUnique({ where: { id: jobId } });
+}
+
+/**
+ * Works through the job's logs in id order from its cursor, so a stopped run picks up where it left off.
+ * AI calls are spaced to `ratePerMinute`; a quota error or a run of failures pauses the job without
+ * moving the cursor past the log that hit it. `limit` caps the logs handled in this call.
+ */
+export async function runMealReanalysisJob(
+  jobId: number,
+  options: { ratePerMinute?: number; limit?: number } = {},
+) {
+  const job = await prisma.mealReanalysisJob.findUnique({ where: { id: jobId } });
+  if (!job) {
+    throw new Error(`Re-analysis job ${jobId} not found`);
+  }
+  if (job.status === JOB_STATUS_DONE) {
+    return job;
+  }
+  if (job.promptVersion !== MEAL_ANALYSIS_PROMPT_VERSION) {
+    throw new Error(
+      `Job ${jobId} was created for prompt ${job.promptVersion} but the analyzer is on ${MEAL_ANALYSIS_PROMPT_VERSION}; start a new job`,
+    );
+  }
+
+  const filters = MealReanalysisFilterSchema.parse(job.filters);
+  const pace = createRequestPacer(options.ratePerMinute ?? DEFAULT_REANALYSIS_RATE_PER_MINUTE);
+  let cursor = job.cursor;
+  let handled = 0;
+  let consecutiveFailures = 0;
+
+  await prisma.mealReanalysisJob.update({
+    where: { id: jobId },
+    data: { status: JOB_STATUS_RUNNING, lastError: null },
+  });
+
+  while (true) {
+    const logs: ReanalysisLog[] = await prisma.mealLog.findMany({
+      where: { ...buildJobLogFilter(filters), ...(cursor ? { id: { gt: cursor } } : {}) },
+      orderBy: { id: 'asc' },
+      take: JOB_BATCH_SIZE,
+      include: {
+        mediaAssets: { select: { url: true, mimeType: true }, orderBy: { id: 'asc' } },
+        _count: { select: { edits: true } },
+      },
+    });
+
+    if (logs.length === 0) {
+      return prisma.mealReanalysisJob.update({
+        where: { id: jobId },
+        data: { status: JOB_STATUS_DONE, finishedAt: new Date() },
+      });
+    }
+
+    for (const log of logs) {
+      if (options.limit !== undefined && handled >= options.limit) {
+        return prisma.mealReanalysisJob.update({
+          where: { id: jobId },
+          data: { status: JOB_STATUS_PAUSED },
+        });
+      }
+
+      const alreadyHandled = await prisma.mealLogReanalysis.findUnique({
+        where: { jobId_mealLogId: { jobId, mealLogId: log.id } },
+        select: { id: true },
+      });
+
+      let outcome: ReanalysisOutcome;
+      if (alreadyHandled) {
+        outcome = REANALYSIS_STATUS_SKIPPED;
+      } else {
+        try {
+          outcome = await reanalyzeMealLog(jobId, log, pace);
+          consecutiveFailures = 0;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          if (isAiQuotaError(error)) {
+            logger.warn({ jobId, mealLogId: log.id }, 'Re-analysis paused on AI quota');
+            return prisma.mealReanalysisJob.update({
+              where: { id: jobId },
+              data: { status: JOB_STATUS_PAUSED, lastError: message },
+            });
+          }
+          logger.warn({ jobId, mealLogId: log.id, err: error }, 'Re-analysis failed for log');
+          await prisma.mealLogReanalysis.create({
+            data: {
+              jobId,
+              mealLogId: log.id,
+              status: REANALYSIS_STATUS_FAILED,
+              promptVersion: MEAL_ANALYSIS_PROMPT_VERSION,
+              previous: toJson(snapshotMealLog(log)),
+              error: message,
+            },
+          });
+          outcome = REANALYSIS_STATUS_FAILED;
+          consecutiveFailures += 1;
+        }
+      }
+
+      cursor = log.id;
+      handled += 1;
+      await prisma.mealReanalysisJob.update({
+        where: { id: jobId },
+        data: {
+          cursor,
+          ...(alreadyHandled ? {} : { processed: { increment: 1 }, [outcomeCounter[outcome]]: { increment: 1 } }),
+        },
+      });
+
+      if (consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+        return prisma.mealReanalysisJob.update({
+          where: { id: jobId },
+          data: { status: JOB_STATUS_PAUSED, lastError: `${MAX_CONSECUTIVE_FAILURES} logs failed in a row` },
+        });
+      }
+    }
+  }
+}
+
+/** The pending proposal of a log, if a re-analysis found a different estimate for a log the user had edited. */
+export async function getPendingMealLogReanalysis(mealLogId: string): Promise<MealLogReanalysis | null> {
+  const record = await prisma.mealLogReanalysis.findFirst({
+    where: { mealLogId, status: REANALYSIS_STATUS_PENDING },
+    orderBy: { createdAt: 'desc' },
+  });
+  return record ? mapMealLogReanalysis(record) : null;
+}
+
+/** Accepting replaces the log's estimate with the proposal; dismissing keeps the log as the user left it. */
+export async function resolveMealLogReanalysis(params: {
+  logId: string;
+  userId: number;
+  action: 'accept' | 'dismiss';
+}) {
+  const log = await prisma.mealLog.findFirst({
+    where: { id: params.logId, userId: params.userId, deletedAt: null },
+  });
+  if (!log) {
+    const error = new Error('食事記録が見つかりませんでした');
+    Object.assign(error, { statusCode: StatusCodes.NOT_FOUND, expose: true });
+    throw error;
+  }
+
+  const pending = await prisma.mealLogReanalysis.findFirst({
+    where: { mealLogId: log.id, status: REANALYSIS_STATUS_PENDING },
+    orderBy: { createdAt: 'desc' },
+  });
+  const response = pending ? GeminiNutritionResponseSchema.safeParse(pending.response) : null;
+  if (!pending || !response?.success) {
+    const error = new Error('新しい推定値はありません');
+    Object.assign(error, { statusCode: StatusCodes.NOT_FOUND, expose: true });
+    throw error;
+  }
+
+  await prisma.$transaction(async (tx) => {
+    // Claiming the proposal first keeps a double tap from applying it twice.
+    const claimed = await tx.mealLogReanalysis.updateMany({
+      where: { id: pending.id, status: REANALYSIS_STATUS_PENDING },
+      data: {
+        status: params.action === 'accept' ? REANALYSIS_STATUS_ACCEPTED : REANALYSIS_STATUS_DISMISSED,
+        resolvedAt: new Date(),
+      },
+    });
+    if (claimed.count === 0) {
+      const error = new Error('この推定値はすでに処理されています');
+      Object.assign(error, { statusCode: StatusCodes.CONFLICT, expose: true });
+      throw error;
+    }
+    if (params.action === 'accept') {
+      await replaceMealLogEstimate(tx, log, response.data);
+    }
+  });
+
+  if (params.action === 'accept') {
+    invalidateDashboardCacheForUser(params.userId);
+  }
+}
+
+async function reanalyzeMealLog(jobId: number, log: ReanalysisLog, pace: () => Promise<void>): Promise<ReanalysisOutcome> {
+  const previous = snapshotMealLog(log);
+  const aiRaw = parseMealLogAiRaw(log.aiRaw);
+  const baseLocale = aiRaw?.locale ? normalizeLocale(aiRaw.locale) : DEFAULT_LOCALE;
+  const base = aiRaw ? (aiRaw.translations?.[baseLocale] ?? aiRaw) : null;
+
+  if (!isReanalyzableMealLog({ landingType: log.landingType, meta: base?.meta })) {
+    await prisma.mealLogReanalysis.create({
+      data: {
+        jobId,
+        mealLogId: log.id,
+        status: REANALYSIS_STATUS_SKIPPED,
+        promptVersion: MEAL_ANALYSIS_PROMPT_VERSION,
+        previous: toJson(previous),
+      },
+    });
+    return REANALYSIS_STATUS_SKIPPED;
+  }
+
+  const items = await ensureMealLogItems(prisma, log);
+  const images = log.mediaAssets
+    .map((asset) => parseDataUrlImage(asset))
+    .filter((image): image is AiPromptImage => image !== null);
+
+  await pace();
+  const analysis = await analyzeMealWithGemini({
+    message: buildReanalysisMessage(base?.dish ?? log.foodItem, items),
+    images,
+    locale: baseLocale,
+    portionHints: await loadPortionCalibrationHints(log.userId),
+  });
+  const response: GeminiNutritionResponse = {
+    ...analysis.response,
+    meta: { ...(analysis.response.meta ?? {}), model: analysis.meta.model },
+  };
+
+  const status = await prisma.$transaction(async (tx) => {
+    let current: MealLog = log;
+    let snapshot = previous;
+    let edited = log._count.edits > 0;
+    if (!edited) {
+      // The model call takes a while; an edit made meanwhile turns the result into a proposal.
+      await tx.$executeRaw`SELECT 1 FROM "MealLog" WHERE "id" = ${log.id} FOR UPDATE`;
+      if ((await tx.mealLogEdit.count({ where: { mealLogId: log.id } })) > 0) {
+        current = await tx.mealLog.findUniqueOrThrow({ where: { id: log.id } });
+        snapshot = snapshotMealLog(current);
+        edited = true;
+      }
+    }
+
+    const decision = decideMealReanalysis({
+      edited,
+      previous: snapshot.totals,
+      proposed: response.totals,
+    });
+    const outcome =
+      decision === 'apply'
+        ? REANALYSIS_STATUS_APPLIED
+        : decision === 'propose'
+          ? REANALYSIS_STATUS_PENDING
+          : REANALYSIS_STATUS_UNCHANGED;
+
+    if (outcome === REANALYSIS_STATUS_PENDING) {
+      await tx.mealLogReanalysis.updateMany({
+        where: { mealLogId: log.id, status: REANALYSIS_STATUS_PENDING },
+        data: { status: REANALYSIS_STATUS_SUPERSEDED, resolvedAt: new Date() },
+      });
+    }
+    await tx.mealLogReanalysis.create({
+      data: {
+        jobId,
+        mealLogId: log.id,
+        status: outcome,
+        promptVersion: MEAL_ANALYSIS_PROMPT_VERSION,
+        modelVersion: analysis.meta.model,
+        previous: toJson(snapshot),
+        response: toJson(response),
+        resolvedAt: outcome === REANALYSIS_STATUS_APPLIED ? new Date() : null,
+      },
+    });
+    if (outcome === REANALYSIS_STATUS_APPLIED) {
+      await replaceMealLogEstimate(tx, current, response);
+    }
+    return outcome;
+  });
+
+  if (status === REANALYSIS_STATUS_APPLIED) {
+    invalidateDashboardCacheForUser(log.userId);
+  }
+  return status;
+}
+
+function buildJobLogFilter(filters: MealReanalysisFilter): Prisma.MealLogWhereInput {
+  const createdAt: Prisma.DateTimeFilter = {};
+  if (filters.from) {
+    createdAt.gte = new Date(`${filters.from}T00:00:00.000Z`);
+  }
+  if (filters.to) {
+    createdAt.lt = new Date(new Date(`${filters.to}T00:00:00.000Z`).getTime() + 24 * 60 * 60 * 1000);
+  }
+  return {
+    deletedAt: null,
+    aiRaw: { not: Prisma.AnyNull },
+    ...(filters.userId ? { userId: filters.userId } : {}),
+    ...(filters.from || filters.to ? { createdAt } : {}),
+    ...(filters.promptVersion ? { ingestRequests: { some: { promptVersion: filters.promptVersion } } } : {}),
+  };
+}
+
+function snapshotMealLog(log: MealLog) {
+  return {
+    dish: log.foodItem,
+    totals: { kcal: log.calories, protein_g: log.proteinG, fat_g: log.fatG, carbs_g: log.carbsG },
+  };
+}
+
+function mapMealLogReanalysis(record: MealLogReanalysisRecord): MealLogReanalysis | null {
+  const response = GeminiNutritionResponseSchema.safeParse(record.response);
+  if (!response.success) {
+    return null;
+  }
+  const parsed = MealLogReanalysisSchema.safeParse({
+    id: record.id,
+    prompt_version: record.promptVersion,
+    model: record.modelVersion,
+    created_at: record.createdAt.toISOString(),
+    previous: record.previous,
+    proposed: { dish: response.data.dish, totals: response.data.totals },
+  });
+  return parsed.success ? parsed.data : null;
+}
+
+/** Photos are stored inline as data URLs by both runtimes. */
+function parseDataUrlImage(asset: { url: string; mimeType: string }): AiPromptImage | null {
+  const match = /^data:([^;,]+);base64,(.+)$/.exec(asset.url);
+  // Voice memos are media assets too; only photos go back to the model.
+  if (!match || !(match[1] || asset.mimeType).startsWith('image/')) {
+    return null;
+  }
+  return { mimeType: match[1] || asset.mimeType, base64: match[2] };
+}
+
+function isAiQuotaError(error: unknown) {
+  const errors = error instanceof AggregateError ? error.errors : [error];
+  return errors.some((entry) => entry instanceof Error && /\b429\b/.test(entry.message));
+}
+
+/** Spaces calls at least `60s / ratePerMinute` apart, measured from when each call was allowed to start. */
+function createRequestPacer(ratePerMinute: number) {
+  const intervalMs = 60_000 / Math.max(1, ratePerMinute);
+  let nextAt = 0;
+  return async () => {
+    const now = Date.now();
+    const startAt = Math.max(now, nextAt);
+    nextAt = startAt + intervalMs;
+    if (startAt > now) {
+      await new Promise((resolve) => setTimeout(resolve, startAt - now));
+    }
+  };
+}
+
+function toJson(value: unknown): Prisma.InputJsonValue {
+  return value as Prisma.InputJsonValue;
+}
@@ -11,6 +11,7 @@ export function toSettingsResponse(settings: {
   quietHoursStart: number;
   quietHoursEnd: number;
   dailyCap: number;
+  hydrationReminderEnabled: boolean;
   timezone: string | null;
 }) {
   return {
@@ -19,6 +20,7 @@ export function toSettingsResponse(settings: {
     quiet_hours_start: settings.quietHoursStart,
     quiet_hours_end: settings.quietHoursEnd,
     daily_cap: settings.dailyCap,
+    hydration_reminder_enabled: settings.hydrationReminderEnabled,
     timezone: normalizeTimezone(settings.timezone),
   };
 }
@@ -56,6 +58,7 @@ export async function updateNotificationSettings(
     quietHoursStart: number;
     quietHoursEnd: number;
     dailyCap: number;
+    hydrationReminderEnabled: boolean;
     timezone: string | null;
   }>,
 ) {
@@ -71,6 +74,7 @@ export async function updateNotificationSettings(
       quietHoursStart: clampMinutes(updates.quietHoursStart ?? existing.quietHoursStart),
       quietHoursEnd: clampMinutes(updates.quietHoursEnd ?? existing.quietHoursEnd),
       dailyCap: clampDailyCap(updates.dailyCap ?? existing.dailyCap),
+      hydrationReminderEnabled: updates.hydrationReminderEnabled ?? existing.hydrationReminderEnabled,
       timezone:
         updates.timezone !== undefined
           ? normalizeTimezone(updates.timezone)
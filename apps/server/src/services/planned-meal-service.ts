@@ -0,0 +1,277 @@
+import { MealPeriod, type PlannedMeal as PlannedMealRecord } from '@prisma/client';
+import { DateTime } from 'luxon';
+import { StatusCodes } from 'http-status-codes';
+import {
+  PLANNER_MAX_RANGE_DAYS,
+  PlannedMealCreateRequestSchema,
+  PlannedMealSchema,
+  PlannedMealUpdateRequestSchema,
+  type Locale,
+  type MealPeriod as MealPeriodKey,
+  type NutritionTotals,
+  type PlannedMeal,
+  type PlannedMealSource,
+} from '@meal-log/shared';
+import { prisma } from '../db/prisma.js';
+import { DASHBOARD_TIMEZONE } from '../config/dashboard.js';
+import { invalidateDashboardCacheForUser } from './dashboard-service.js';
+import { getFavoriteMeal, logFavoriteMeal } from './favorite-service.js';
+import { createManualMealLog } from './manual-log-service.js';
+import { getRecipePortion, logRecipe } from './recipe-service.js';
+
+const mealPeriodLookup: Record<MealPeriodKey, MealPeriod> = {
+  breakfast: MealPeriod.BREAKFAST,
+  lunch: MealPeriod.LUNCH,
+  dinner: MealPeriod.DINNER,
+  snack: MealPeriod.SNACK,
+};
+
+export function mapPlannedMeal(record: PlannedMealRecord): PlannedMeal {
+  const item = {
+    id: record.id,
+    date: record.date.toISOString().slice(0, 10),
+    meal_period: record.mealPeriod.toLowerCase() as MealPeriodKey,
+    source: record.source as PlannedMealSource,
+    favorite_id: record.favoriteMealId ?? null,
+    recipe_id: record.recipeId ?? null,
+    name: record.name,
+    servings: record.servings,
+    totals: {
+      kcal: record.calories,
+      protein_g: record.proteinG,
+      fat_g: record.fatG,
+      carbs_g: record.carbsG,
+    },
+    status: record.status === 'EATEN' ? 'eaten' : 'planned',
+    meal_log_id: record.mealLogId ?? null,
+    eaten_at: record.eatenAt?.toISOString() ?? null,
+    created_at: record.createdAt.toISOString(),
+    updated_at: record.updatedAt.toISOString(),
+  } satisfies PlannedMeal;
+
+  PlannedMealSchema.parse(item);
+  return item;
+}
+
+/** Defaults to the seven days starting today; `to` is inclusive. */
+export function resolvePlannerRange(query: { from?: string; to?: string }, timezone = DASHBOARD_TIMEZONE) {
+  const from = query.from
+    ? DateTime.fromISO(query.from, { zone: timezone })
+    : DateTime.now().setZone(timezone).startOf('day');
+  const to = query.to ? DateTime.fromISO(query.to, { zone: timezone }) : from.plus({ days: 6 });
+  if (!from.isValid || !to.isValid) {
+    throw badRequest('日付の形式が正しくありません');
+  }
+  if (to < from) {
+    throw badRequest('終了日は開始日以降の日付を指定してください');
+  }
+  if (to.diff(from, 'days').days >= PLANNER_MAX_RANGE_DAYS) {
+    throw badRequest(`期間は${PLANNER_MAX_RANGE_DAYS}日以内で指定してください`);
+  }
+  return { from: from.toISODate()!, to: to.toISODate()! };
+}
+
+export async function listPlannedMeals(userId: number, query: { from?: string; to?: string }) {
+  const range = resolvePlannerRange(query);
+  const records = await prisma.plannedMeal.findMany({
+    where: { userId, date: { gte: toDbDate(range.from), lte: toDbDate(range.to) } },
+    orderBy: [{ date: 'asc' }, { mealPeriod: 'asc' }, { createdAt: 'asc' }],
+  });
+  return { ...range, items: records.map(mapPlannedMeal) };
+}
+
+export async function createPlannedMeal(userId: number, payload: unknown): Promise<PlannedMeal> {
+  const parsed = PlannedMealCreateRequestSchema.parse(payload);
+  const snapshot = await resolvePlanSnapshot(userId, parsed);
+
+  const created = await prisma.plannedMeal.create({
+    data: {
+      userId,
+      date: toDbDate(parsed.date),
+      mealPeriod: mealPeriodLookup[parsed.meal_period],
+      source: snapshot.source,
+      favoriteMealId: parsed.favorite_id ?? null,
+      recipeId: parsed.recipe_id ?? null,
+      name: snapshot.name,
+      servings: snapshot.servings,
+      ...toTotalsData(snapshot.totals),
+    },
+  });
+  invalidateDashboardCacheForUser(userId);
+  return mapPlannedMeal(created);
+}
+
+/** Changing servings scales the frozen totals unless new totals are sent with it. */
+export async function updatePlannedMeal(userId: number, plannedMealId: number, payload: unknown) {
+  const parsed = PlannedMealUpdateRequestSchema.parse(payload);
+  const existing = await findPlannedMealOrThrow(userId, plannedMealId);
+  if (existing.status === 'EATEN') {
+    throw conflict('食べた記録済みの予定は変更できません');
+  }
+
+  const servings = parsed.servings ?? existing.servings;
+  const factor = existing.servings > 0 ? servings / existing.servings : 1;
+  const totals =
+    parsed.totals ??
+    (factor !== 1
+      ? {
+          kcal: Math.round(existing.calories * factor),
+          protein_g: roundTenth(existing.proteinG * factor),
+          fat_g: roundTenth(existing.fatG * factor),
+          carbs_g: roundTenth(existing.carbsG * factor),
+        }
+      : null);
+
+  const updated = await prisma.plannedMeal.update({
+    where: { id: existing.id },
+    data: {
+      date: parsed.date ? toDbDate(parsed.date) : undefined,
+      mealPeriod: parsed.meal_period ? mealPeriodLookup[parsed.meal_period] : undefined,
+      name: parsed.name,
+      servings,
+      ...(totals ? toTotalsData(totals) : {}),
+    },
+  });
+  invalidateDashboardCacheForUser(userId);
+  return mapPlannedMeal(updated);
+}
+
+export async function deletePlannedMeal(userId: number, plannedMealId: number): Promise<void> {
+  const deleted = await prisma.plannedMeal.deleteMany({ where: { id: plannedMealId, userId } });
+  if (deleted.count === 0) {
+    throw notFoundError();
+  }
+  invalidateDashboardCacheForUser(userId);
+}
+
+/**
+ * Logs the planned meal through the same path as logging its favorite or recipe directly.
+ * Plans whose source was deleted, and free-text plans, are logged from the frozen totals.
+ */
+export async function markPlannedMealEaten(params: {
+  userId: number;
+  plannedMealId: number;
+  locale: Locale;
+  timezone?: string;
+}) {
+  const existing = await findPlannedMealOrThrow(params.userId, params.plannedMealId);
+  // Claim the entry first so a double tap cannot log the meal twice.
+  const claimed = await prisma.plannedMeal.updateMany({
+    where: { id: existing.id, status: 'PLANNED' },
+    data: { status: 'EATEN', eatenAt: new Date() },
+  });
+  if (claimed.count === 0) {
+    throw conflict('この予定はすでに記録済みです');
+  }
+
+  let logId: string;
+  try {
+    logId = (await logPlannedMeal(existing, params)).logId;
+  } catch (error) {
+    await prisma.plannedMeal.update({
+      where: { id: existing.id },
+      data: { status: 'PLANNED', eatenAt: null },
+    });
+    throw error;
+  }
+
+  const updated = await prisma.plannedMeal.update({
+    where: { id: existing.id },
+    data: { mealLogId: logId },
+  });
+  invalidateDashboardCacheForUser(params.userId);
+  return { item: mapPlannedMeal(updated), logId };
+}
+
+function logPlannedMeal(record: PlannedMealRecord, params: { userId: number; locale: Locale; timezone?: string }) {
+  const mealPeriod = record.mealPeriod.toLowerCase() as MealPeriodKey;
+  if (record.favoriteMealId) {
+    return logFavoriteMeal(params.userId, record.favoriteMealId, { mealPeriod: record.mealPeriod });
+  }
+  if (record.recipeId) {
+    return logRecipe({
+      userId: params.userId,
+      recipeId: record.recipeId,
+      request: { servings: record.servings, meal_period: mealPeriod },
+      locale: params.locale,
+      timezone: params.timezone,
+    });
+  }
+  return createManualMealLog({
+    userId: params.userId,
+    names: [{ locale: params.locale, name: record.name }],
+    portion: {
+      grams: 0,
+      totals: {
+        kcal: record.calories,
+        protein_g: record.proteinG,
+        fat_g: record.fatG,
+        carbs_g: record.carbsG,
+      },
+    },
+    request: { meal_period: mealPeriod },
+    locale: params.locale,
+    timezone: params.timezone,
+    sourceMeta: {},
+    idempotencyPrefix: `plan-${record.id}`,
+  });
+}
+
+async function resolvePlanSnapshot(
+  userId: number,
+  request: ReturnType<typeof PlannedMealCreateRequestSchema.parse>,
+): Promise<{ source: PlannedMealSource; name: string; servings: number; totals: NutritionTotals }> {
+  if (request.favorite_id) {
+    const favorite = await getFavoriteMeal(userId, request.favorite_id);
+    return { source: 'favorite', name: favorite.name, servings: 1, totals: favorite.totals };
+  }
+  if (request.recipe_id) {
+    const servings = request.servings ?? 1;
+    const { name, portion } = await getRecipePortion(userId, request.recipe_id, servings);
+    return { source: 'recipe', name, servings, totals: portion.totals };
+  }
+  return { source: 'text', name: request.name!, servings: request.servings ?? 1, totals: request.totals! };
+}
+
+async function findPlannedMealOrThrow(userId: number, plannedMealId: number) {
+  const record = await prisma.plannedMeal.findFirst({ where: { id: plannedMealId, userId } });
+  if (!record) {
+    throw notFoundError();
+  }
+  return record;
+}
+
+function toDbDate(date: string) {
+  return new Date(`${date}T00:00:00.000Z`);
+}
+
+function toTotalsData(totals: NutritionTotals) {
+  return {
+    calories: totals.kcal,
+    proteinG: totals.protein_g,
+    fatG: totals.fat_g,
+    carbsG: totals.carbs_g,
+  };
+}
+
+function roundTenth(value: number) {
+  return Math.round(value * 10) / 10;
+}
+
+function badRequest(message: string) {
+  const error = new Error(message);
+  Object.assign(error, { statusCode: StatusCodes.BAD_REQUEST, expose: true });
+  return error;
+}
+
+function conflict(message: string) {
+  const error = new Error(message);
+  Object.assign(error, { statusCode: StatusCodes.CONFLICT, expose: true });
+  return error;
+}
+
+function notFoundError() {
+  const error = new Error('予定が見つかりませんでした');
+  Object.assign(error, { statusCode: StatusCodes.NOT_FOUND, expose: true });
+  return error;
+}
@@ -0,0 +1,129 @@
+import type { PortionCalibration as PortionCalibrationRecord } from '@prisma/client';
+import { StatusCodes } from 'http-status-codes';
+import {
+  MAX_PORTION_HINTS,
+  PortionCalibrationCreateRequestSchema,
+  PortionCalibrationUpdateRequestSchema,
+  buildPortionCalibrationHints,
+  derivePortionFactorsFromEdits,
+  type PortionCalibration,
+  type PortionCalibrationHint,
+  type PortionCalibrationListResponse,
+} from '@meal-log/shared';
+import { prisma } from '../db/prisma.js';
+import { logger } from '../logger.js';
+
+/** Most recent edits scanned for gram corrections. */
+const PORTION_EDIT_LOOKBACK = 200;
+
+export function mapPortionCalibration(record: PortionCalibrationRecord): PortionCalibration {
+  return {
+    id: record.id,
+    label: record.label,
+    grams: record.grams,
+    created_at: record.createdAt.toISOString(),
+    updated_at: record.updatedAt.toISOString(),
+  };
+}
+
+async function fetchLearnedPortionFactors(userId: number) {
+  const edits = await prisma.mealLogEdit.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+    take: PORTION_EDIT_LOOKBACK,
+    select: { changes: true },
+  });
+  return derivePortionFactorsFromEdits(edits.map((edit) => edit.changes));
+}
+
+export async function listPortionCalibrations(
+  userId: number,
+): Promise<Omit<PortionCalibrationListResponse, 'ok'>> {
+  const [items, learned] = await Promise.all([
+    prisma.portionCalibration.findMany({ where: { userId }, orderBy: { updatedAt: 'desc' } }),
+    fetchLearnedPortionFactors(userId),
+  ]);
+  return { items: items.map(mapPortionCalibration), learned };
+}
+
+/**
+ * Hints for the meal-analysis prompt. A failure here only costs the calibration, so it is logged
+ * and the analysis goes ahead without hints.
+ */
+export async function loadPortionCalibrationHints(
+  userId: number,
+): Promise<PortionCalibrationHint[]> {
+  try {
+    const [references, learned] = await Promise.all([
+      prisma.portionCalibration.findMany({
+        where: { userId },
+        orderBy: { updatedAt: 'desc' },
+        take: MAX_PORTION_HINTS,
+        select: { label: true, grams: true },
+      }),
+      fetchLearnedPortionFactors(userId),
+    ]);
+    return buildPortionCalibrationHints(references, learned);
+  } catch (error) {
+    logger.warn({ err: error, userId }, 'portion calibration lookup failed');
+    return [];
+  }
+}
+
+export async function createPortionCalibration(userId: number, payload: unknown) {
+  const parsed = PortionCalibrationCreateRequestSchema.parse(payload);
+  await assertLabelAvailable(userId, parsed.label);
+  const created = await prisma.portionCalibration.create({
+    data: { userId, label: parsed.label, grams: parsed.grams },
+  });
+  return mapPortionCalibration(created);
+}
+
+export async function updatePortionCalibration(
+  userId: number,
+  calibrationId: number,
+  payload: unknown,
+) {
+  const parsed = PortionCalibrationUpdateRequestSchema.parse(payload);
+  const current = await findOwnedCalibration(userId, calibrationId);
+  if (parsed.label !== undefined && parsed.label !== current.label) {
+    await assertLabelAvailable(userId, parsed.label);
+  }
+  const updated = await prisma.portionCalibration.update({
+    where: { id: current.id },
+    data: {
+      ...(parsed.label !== undefined ? { label: parsed.label } : {}),
+      ...(parsed.grams !== undefined ? { grams: parsed.grams } : {}),
+    },
+  });
+  return mapPortionCalibration(updated);
+}
+
+export async function deletePortionCalibration(userId: number, calibrationId: number) {
+  const current = await findOwnedCalibration(userId, calibrationId);
+  await prisma.portionCalibration.delete({ where: { id: current.id } });
+}
+
+async function findOwnedCalibration(userId: number, calibrationId: number) {
+  const calibration = await prisma.portionCalibration.findFirst({
+    where: { id: calibrationId, userId },
+  });
+  if (!calibration) {
+    const error = new Error('量の基準が見つかりませんでした');
+    Object.assign(error, { statusCode: StatusCodes.NOT_FOUND, expose: true });
+    throw error;
+  }
+  return calibration;
+}
+
+async function assertLabelAvailable(userId: number, label: string) {
+  const existing = await prisma.portionCalibration.findFirst({
+    where: { userId, label },
+    select: { id: true },
+  });
+  if (existing) {
+    const error = new Error('同じ名前の基準がすでに登録されています');
+    Object.assign(error, { statusCode: StatusCodes.CONFLICT, expose: true });
+    throw error;
+  }
+}
@@ -2,7 +2,8 @@
  * PremiumService
  * 
  * プレミアム状態を判定・管理するサービス
- * PremiumGrantテーブルを参照してプレミアム状態を判定
+ * 自動更新サブスクリプションは Subscription の状態（猶予期間・返金など）で判定し、
+ * それ以外（紹介・管理者付与など）は PremiumGrant の期間で判定
  * 
  * 関連サービス:
  * - ai-usage-service: AI使用制限の判定
@@ -11,14 +12,16 @@
  */
 
 import { prisma } from '../db/prisma.js';
-import { PremiumSource } from '@prisma/client';
+import { PremiumSource, type Prisma, type SubscriptionStatus } from '@prisma/client';
 import { DateTime } from 'luxon';
+import { resolveSubscriptionEntitlementEnd } from './subscription-state.js';
 
 export interface PremiumStatus {
   isPremium: boolean;
   source: PremiumSource | null;
   daysRemaining: number;
   expiresAt: Date | null;
+  subscriptionStatus: SubscriptionStatus | null;
 }
 
 export interface GrantPremiumDaysParams {
@@ -36,18 +39,8 @@ export interface GrantPremiumDaysParams {
  * @returns プレミアム会員の場合 true
  */
 export async function isPremium(userId: number): Promise<boolean> {
-  const now = new Date();
-  
-  const activeGrant = await prisma.premiumGrant.findFirst({
-    where: {
-      userId,
-      startDate: { lte: now },
-      endDate: { gte: now },
-    },
-    orderBy: { endDate: 'desc' },
-  });
-
-  return activeGrant !== null;
+  const status = await getPremiumStatus(userId);
+  return status.isPremium;
 }
 
 /**
@@ -58,34 +51,68 @@ export async function isPremium(userId: number): Promise<boolean> {
  */
 export async function getPremiumStatus(userId: number): Promise<PremiumStatus> {
   const now = new Date();
-  
+
+  const subscriptions = await prisma.subscription.findMany({
+    where: { userId },
+    orderBy: { updatedAt: 'desc' },
+  });
+  const entitledSubscription = subscriptions
+    .map((subscription) => ({ subscription, endDate: resolveSubscriptionEntitlementEnd(subscription, now) }))
+    .filter((entry): entry is { subscription: (typeof subscriptions)[number]; endDate: Date } => entry.endDate !== null)
+    .sort((a, b) => b.endDate.getTime() - a.endDate.getTime())[0];
+  const subscriptionStatus = (entitledSubscription?.subscription ?? subscriptions[0])?.status ?? null;
+
+  // 状態を管理しているサブスクリプションの購入分は、期間が残っていても Subscription 側の判定に従う
   const activeGrant = await prisma.premiumGrant.findFirst({
     where: {
       userId,
       startDate: { lte: now },
       endDate: { gte: now },
+      ...excludeSubscriptionGrants(subscriptions.map((subscription) => subscription.originalTransactionId)),
     },
     orderBy: { endDate: 'desc' },
   });
 
-  if (!activeGrant) {
+  const entitlement =
+    entitledSubscription && (!activeGrant || entitledSubscription.endDate >= activeGrant.endDate)
+      ? { source: PremiumSource.PURCHASE, endDate: entitledSubscription.endDate }
+      : activeGrant
+        ? { source: activeGrant.source, endDate: activeGrant.endDate }
+        : null;
+
+  if (!entitlement) {
     return {
       isPremium: false,
       source: null,
       daysRemaining: 0,
       expiresAt: null,
+      subscriptionStatus,
     };
   }
 
   const nowDt = DateTime.now();
-  const expiresAt = DateTime.fromJSDate(activeGrant.endDate);
+  const expiresAt = DateTime.fromJSDate(entitlement.endDate);
   const daysRemaining = Math.ceil(expiresAt.diff(nowDt, 'days').days);
 
   return {
     isPremium: true,
-    source: activeGrant.source,
+    source: entitlement.source,
     daysRemaining: Math.max(daysRemaining, 0),
-    expiresAt: activeGrant.endDate,
+    expiresAt: entitlement.endDate,
+    subscriptionStatus,
+  };
+}
+
+function excludeSubscriptionGrants(originalTransactionIds: string[]): Prisma.PremiumGrantWhereInput {
+  if (originalTransactionIds.length === 0) {
+    return {};
+  }
+  return {
+    OR: [
+      { iapReceiptId: null },
+      { iapReceipt: { originalTransactionId: null } },
+      { iapReceipt: { originalTransactionId: { notIn: originalTransactionIds } } },
+    ],
   };
 }
 
@@ -163,8 +190,13 @@ export async function filterPremiumUserIds(userIds: number[]): Promise<number[]>
     select: { userId: true },
     distinct: ['userId'],
   });
+  const graceSubscriptions = await prisma.subscription.findMany({
+    where: { userId: { in: userIds }, ...gracePeriodWhere(now) },
+    select: { userId: true },
+    distinct: ['userId'],
+  });
 
-  return premiumGrants.map((grant) => grant.userId);
+  return mergeUserIds(premiumGrants, graceSubscriptions);
 }
 
 /**
@@ -183,6 +215,20 @@ export async function getAllPremiumUserIds(): Promise<number[]> {
     select: { userId: true },
     distinct: ['userId'],
   });
+  const graceSubscriptions = await prisma.subscription.findMany({
+    where: gracePeriodWhere(now),
+    select: { userId: true },
+    distinct: ['userId'],
+  });
+
+  return mergeUserIds(premiumGrants, graceSubscriptions);
+}
+
+// 返金・失効はグラントの短縮で反映済み。グラントに現れないのは請求の猶予期間だけ
+function gracePeriodWhere(now: Date): Prisma.SubscriptionWhereInput {
+  return { status: 'GRACE_PERIOD', gracePeriodExpiresAt: { gte: now } };
+}
 
-  return premiumGrants.map((grant) => grant.userId);
+function mergeUserIds(...rows: Array<Array<{ userId: number }>>) {
+  return Array.from(new Set(rows.flat().map((row) => row.userId)));
 }
@@ -0,0 +1,354 @@
+import type { Prisma } from '@prisma/client';
+import { StatusCodes } from 'http-status-codes';
+import {
+  RecipeCreateRequestSchema,
+  RecipeSchema,
+  RecipeUpdateRequestSchema,
+  allocateMealLogItems,
+  computeRecipePortion,
+  scaleFoodNutrients,
+  sumRecipeTotals,
+  type Locale,
+  type MealPeriod,
+  type NutritionTotals,
+  type Recipe,
+  type RecipeIngredientInput,
+  type RecipeIngredientSource,
+} from '@meal-log/shared';
+import { prisma } from '../db/prisma.js';
+import { analyzeMealWithGemini } from './gemini-service.js';
+import {
+  buildUsageLimitError,
+  evaluateAiUsage,
+  recordAiUsage,
+  type AiUsageSummary,
+} from './ai-usage-service.js';
+import { createManualMealLog } from './manual-log-service.js';
+
+type RecipeWithIngredients = Prisma.RecipeGetPayload<{ include: { ingredients: true } }>;
+
+interface ResolvedIngredient {
+  name: string;
+  grams: number;
+  foodId: number | null;
+  source: RecipeIngredientSource;
+  totals: NutritionTotals;
+}
+
+const INCLUDE_INGREDIENTS = {
+  ingredients: { orderBy: { orderIndex: 'asc' } },
+} satisfies Prisma.RecipeInclude;
+
+export async function listRecipes(userId: number): Promise<Recipe[]> {
+  const records = await prisma.recipe.findMany({
+    where: { userId },
+    include: INCLUDE_INGREDIENTS,
+    orderBy: { updatedAt: 'desc' },
+  });
+  return records.map(mapRecipe);
+}
+
+export async function getRecipe(userId: number, recipeId: number): Promise<Recipe> {
+  return mapRecipe(await findRecipeOrThrow(userId, recipeId));
+}
+
+export async function createRecipe(userId: number, payload: unknown, locale: Locale) {
+  const parsed = RecipeCreateRequestSchema.parse(payload);
+  const { ingredients, usage } = await resolveIngredients(userId, parsed.ingredients, locale);
+  const totals = sumRecipeTotals(ingredients);
+
+  const created = await prisma.recipe.create({
+    data: {
+      userId,
+      name: parsed.name,
+      notes: parsed.notes ?? null,
+      servings: parsed.servings,
+      yieldGrams: parsed.yield_grams ?? null,
+      calories: totals.kcal,
+      proteinG: totals.protein_g,
+      fatG: totals.fat_g,
+      carbsG: totals.carbs_g,
+      ingredients: { create: ingredients.map(toIngredientData) },
+    },
+    include: INCLUDE_INGREDIENTS,
+  });
+
+  return { recipe: mapRecipe(created), usage };
+}
+
+/** Replaces the ingredient lines only when `ingredients` is sent; totals are always recomputed from them. */
+export async function updateRecipe(userId: number, recipeId: number, payload: unknown, locale: Locale) {
+  const parsed = RecipeUpdateRequestSchema.parse(payload);
+  const existing = await findRecipeOrThrow(userId, recipeId);
+
+  const resolved = parsed.ingredients
+    ? await resolveIngredients(userId, parsed.ingredients, locale)
+    : null;
+  const totals = resolved ? sumRecipeTotals(resolved.ingredients) : null;
+
+  const updated = await prisma.$transaction(async (tx) => {
+    if (resolved) {
+      await tx.recipeIngredient.deleteMany({ where: { recipeId } });
+      await tx.recipeIngredient.createMany({
+        data: resolved.ingredients.map((ingredient, index) => ({
+          recipeId,
+          ...toIngredientData(ingredient, index),
+        })),
+      });
+    }
+
+    return tx.recipe.update({
+      where: { id: existing.id },
+      data: {
+        name: parsed.name ?? existing.name,
+        notes: parsed.notes !== undefined ? parsed.notes : existing.notes,
+        servings: parsed.servings ?? existing.servings,
+        yieldGrams: parsed.yield_grams !== undefined ? parsed.yield_grams : existing.yieldGrams,
+        ...(totals
+          ? {
+              calories: totals.kcal,
+              proteinG: totals.protein_g,
+              fatG: totals.fat_g,
+              carbsG: totals.carbs_g,
+            }
+          : {}),
+      },
+      include: INCLUDE_INGREDIENTS,
+    });
+  });
+
+  return { recipe: mapRecipe(updated), usage: resolved?.usage };
+}
+
+export async function deleteRecipe(userId: number, recipeId: number): Promise<void> {
+  const deleted = await prisma.recipe.deleteMany({ where: { id: recipeId, userId } });
+  if (deleted.count === 0) {
+    throw notFoundError();
+  }
+}
+
+/** Logs `servings` portions of a recipe; ingredient rows are scaled into the log's items. */
+export async function logRecipe(params: {
+  userId: number;
+  recipeId: number;
+  request: { servings: number; meal_period?: MealPeriod };
+  locale: Locale;
+  timezone?: string;
+  idempotencyKey?: string;
+}) {
+  const recipe = await findRecipeOrThrow(params.userId, params.recipeId);
+  const portion = computeRecipePortion(toNutritionBasis(recipe), params.request.servings);
+
+  return createManualMealLog({
+    userId: params.userId,
+    names: [{ locale: params.locale, name: recipe.name }],
+    portion: { grams: portion.grams, totals: portion.totals },
+    items: recipe.ingredients.map((ingredient) => ({
+      name: ingredient.name,
+      grams: roundTenth(ingredient.grams * portion.factor),
+      protein_g: roundTenth(ingredient.proteinG * portion.factor),
+      fat_g: roundTenth(ingredient.fatG * portion.factor),
+      carbs_g: roundTenth(ingredient.carbsG * portion.factor),
+    })),
+    request: { meal_period: params.request.meal_period },
+    locale: params.locale,
+    timezone: params.timezone,
+    sourceMeta: { recipeId: recipe.id },
+    idempotencyPrefix: `recipe-${recipe.id}`,
+    idempotencyKey: params.idempotencyKey,
+  });
+}
+
+/** Name and nutrition of `servings` portions, for callers that snapshot a recipe (e.g. the planner). */
+export async function getRecipePortion(userId: number, recipeId: number, servings: number) {
+  const recipe = await findRecipeOrThrow(userId, recipeId);
+  return { name: recipe.name, portion: computeRecipePortion(toNutritionBasis(recipe), servings) };
+}
+
+async function findRecipeOrThrow(userId: number, recipeId: number) {
+  const record = await prisma.recipe.findFirst({
+    where: { id: recipeId, userId },
+    include: INCLUDE_INGREDIENTS,
+  });
+  if (!record) {
+    throw notFoundError();
+  }
+  return record;
+}
+
+/**
+ * Catalogue lines are computed from the food's per-100g values and typed totals are kept.
+ * Whatever is left is estimated in a single AI call, which counts as one use.
+ */
+async function resolveIngredients(
+  userId: number,
+  inputs: RecipeIngredientInput[],
+  locale: Locale,
+): Promise<{ ingredients: ResolvedIngredient[]; usage?: AiUsageSummary }> {
+  const foodIds = Array.from(new Set(inputs.map((input) => input.food_id).filter((id): id is number => !!id)));
+  const foods = foodIds.length
+    ? await prisma.food.findMany({ where: { id: { in: foodIds } } })
+    : [];
+  const foodsById = new Map(foods.map((food) => [food.id, food]));
+
+  const resolved = inputs.map<ResolvedIngredient | null>((input) => {
+    if (input.food_id) {
+      const food = foodsById.get(input.food_id);
+      if (!food) {
+        const error = new Error('食品が見つかりませんでした');
+        Object.assign(error, { statusCode: StatusCodes.NOT_FOUND, expose: true });
+        throw error;
+      }
+      const per100g = {
+        kcal: food.kcalPer100g,
+        protein_g: food.proteinPer100g,
+        fat_g: food.fatPer100g,
+        carbs_g: food.carbsPer100g,
+      };
+      return {
+        name: input.name,
+        grams: input.grams,
+        foodId: food.id,
+        source: 'catalogue',
+        totals: scaleFoodNutrients(per100g, input.grams),
+      };
+    }
+    if (input.totals) {
+      return { name: input.name, grams: input.grams, foodId: null, source: 'manual', totals: input.totals };
+    }
+    return null;
+  });
+
+  const pending = inputs
+    .map((input, index) => ({ input, index }))
+    .filter(({ index }) => resolved[index] === null);
+  if (pending.length === 0) {
+    return { ingredients: resolved as ResolvedIngredient[] };
+  }
+
+  const estimate = await estimateIngredients(
+    userId,
+    pending.map(({ input }) => input),
+    locale,
+  );
+  pending.forEach(({ input, index }, position) => {
+    resolved[index] = {
+      name: input.name,
+      grams: input.grams,
+      foodId: null,
+      source: 'ai',
+      totals: estimate.totals[position]!,
+    };
+  });
+
+  return { ingredients: resolved as ResolvedIngredient[], usage: estimate.usage };
+}
+
+async function estimateIngredients(userId: number, lines: RecipeIngredientInput[], locale: Locale) {
+  const usageStatus = await evaluateAiUsage(userId);
+  if (!usageStatus.allowed) {
+    throw buildUsageLimitError(usageStatus);
+  }
+
+  const analysis = await analyzeMealWithGemini({
+    message: [
+      'Raw ingredients of a home-cooked recipe, one per line with their weight.',
+      'Report the totals for all of them together and one item per line, in the same order.',
+      ...lines.map((line) => `- ${line.name} ${line.grams}g`),
+    ].join('\n'),
+    locale,
+  });
+
+  const usage = await recordAiUsage({
+    userId,
+    usageDate: usageStatus.usageDate,
+    consumeCredit: usageStatus.consumeCredit,
+  });
+
+  // Trust the model's per-line split only when it kept one item per line.
+  const response = analysis.response;
+  const items =
+    response.items.length === lines.length
+      ? response.items.map((item, index) => ({ ...item, grams: lines[index]!.grams }))
+      : lines.map((line) => ({ name: line.name, grams: line.grams }));
+  const totals = allocateMealLogItems(response.totals, items).map((draft) => ({
+    kcal: draft.calories,
+    protein_g: draft.protein_g,
+    fat_g: draft.fat_g,
+    carbs_g: draft.carbs_g,
+  }));
+
+  return { totals, usage };
+}
+
+function toIngredientData(ingredient: ResolvedIngredient, index: number) {
+  return {
+    foodId: ingredient.foodId,
+    name: ingredient.name,
+    grams: ingredient.grams,
+    calories: ingredient.totals.kcal,
+    proteinG: ingredient.totals.protein_g,
+    fatG: ingredient.totals.fat_g,
+    carbsG: ingredient.totals.carbs_g,
+    source: ingredient.source,
+    orderIndex: index,
+  };
+}
+
+function toNutritionBasis(record: RecipeWithIngredients) {
+  return {
+    totals: {
+      kcal: record.calories,
+      protein_g: record.proteinG,
+      fat_g: record.fatG,
+      carbs_g: record.carbsG,
+    },
+    servings: record.servings,
+    yieldGrams: record.yieldGrams,
+    ingredientGrams: record.ingredients.reduce((acc, ingredient) => acc + ingredient.grams, 0),
+  };
+}
+
+export function mapRecipe(record: RecipeWithIngredients): Recipe {
+  const basis = toNutritionBasis(record);
+  const perServing = computeRecipePortion(basis);
+  const recipe = {
+    id: record.id,
+    name: record.name,
+    notes: record.notes ?? null,
+    servings: record.servings,
+    yield_grams: record.yieldGrams ?? null,
+    totals: basis.totals,
+    per_serving: perServing.totals,
+    serving_grams: perServing.grams,
+    ingredients: record.ingredients.map((ingredient) => ({
+      id: ingredient.id,
+      name: ingredient.name,
+      grams: ingredient.grams,
+      food_id: ingredient.foodId ?? null,
+      source: ingredient.source as RecipeIngredientSource,
+      totals: {
+        kcal: ingredient.calories,
+        protein_g: ingredient.proteinG,
+        fat_g: ingredient.fatG,
+        carbs_g: ingredient.carbsG,
+      },
+      order_index: ingredient.orderIndex,
+    })),
+    created_at: record.createdAt.toISOString(),
+    updated_at: record.updatedAt.toISOString(),
+  } satisfies Recipe;
+
+  RecipeSchema.parse(recipe);
+  return recipe;
+}
+
+function roundTenth(value: number) {
+  return Math.round(value * 10) / 10;
+}
+
+function notFoundError() {
+  const error = new Error('レシピが見つかりませんでした');
+  Object.assign(error, { statusCode: StatusCodes.NOT_FOUND, expose: true });
+  return error;
+}
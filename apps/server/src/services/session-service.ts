@@ -0,0 +1,71 @@
+import { createHash } from 'node:crypto';
+import { StatusCodes } from 'http-status-codes';
+import type { Prisma } from '@prisma/client';
+import { parseDeviceSessionPlatform, type DeviceSession } from '@meal-log/shared';
+import { prisma } from '../db/prisma.js';
+
+/**
+ * Sessions of the user. Rows written before sessions recorded their owner are matched on the
+ * serialized `userId` instead.
+ */
+function ownedBy(userId: number): Prisma.SessionWhereInput {
+  return {
+    OR: [
+      { userId },
+      { userId: null, data: { contains: `"userId":${userId},` } },
+      { userId: null, data: { contains: `"userId":${userId}}` } },
+    ],
+  };
+}
+
+/** Handle shown to clients; a session id from the list must not be usable as a cookie or token. */
+export function toPublicSessionId(sid: string) {
+  return createHash('sha256').update(sid).digest('hex').slice(0, 32);
+}
+
+export async function listUserSessions(
+  userId: number,
+  currentSid: string,
+): Promise<DeviceSession[]> {
+  const rows = await prisma.session.findMany({
+    where: { ...ownedBy(userId), expiresAt: { gt: new Date() } },
+    orderBy: { lastSeenAt: 'desc' },
+  });
+  return rows
+    .map((row) => ({
+      id: toPublicSessionId(row.sid),
+      kind: row.kind === 'token' ? ('token' as const) : ('cookie' as const),
+      current: row.sid === currentSid,
+      device_name: row.deviceName,
+      platform: parseDeviceSessionPlatform(row.platform),
+      ip_address: row.ipAddress,
+      region: row.region,
+      created_at: row.createdAt.toISOString(),
+      last_seen_at: row.lastSeenAt.toISOString(),
+    }))
+    .sort((a, b) => Number(b.current) - Number(a.current));
+}
+
+/** Revokes one session by its public id and reports whether it was the caller's own. */
+export async function revokeUserSession(userId: number, publicId: string, currentSid: string) {
+  const rows = await prisma.session.findMany({ where: ownedBy(userId), select: { sid: true } });
+  const target = rows.find((row) => toPublicSessionId(row.sid) === publicId);
+  if (!target) {
+    const error = new Error('セッションが見つかりません');
+    Object.assign(error, { statusCode: StatusCodes.NOT_FOUND, expose: true });
+    throw error;
+  }
+  await prisma.session.deleteMany({ where: { sid: target.sid } });
+  return { current: target.sid === currentSid };
+}
+
+/** Deletes the user's sessions, optionally keeping the current one. Edge JWTs stop working with their row. */
+export async function revokeUserSessions(userId: number, options: { exceptSid?: string } = {}) {
+  const deleted = await prisma.session.deleteMany({
+    where: {
+      ...(options.exceptSid ? { sid: { not: options.exceptSid } } : {}),
+      ...ownedBy(userId),
+    },
+  });
+  return deleted.count;
+}
@@ -0,0 +1,163 @@
+import { StatusCodes } from 'http-status-codes';
+import {
+  DEFAULT_SPEECH_TO_TEXT_MODELS,
+  buildGeminiTranscriptionRequestBody,
+  buildSpeechToTextFileName,
+  decodeStubTranscript,
+  extractGeminiTranscript,
+  extractOpenAiTranscript,
+  normalizeTranscript,
+  resolveSpeechToTextProviderFromChain,
+  type Locale,
+  type SpeechToTextAudio,
+  type SpeechToTextProviderName,
+} from '@meal-log/shared';
+import { env, timeoutConfig } from '../env.js';
+import { logger } from '../logger.js';
+import { resolveAiProviderChain } from './ai-providers.js';
+
+/** Adapters return the raw transcript; trimming and the empty check stay with the caller. */
+export interface SpeechToTextProvider {
+  name: SpeechToTextProviderName;
+  transcribe(
+    audio: SpeechToTextAudio,
+    model: string,
+    locale: Locale,
+    signal: AbortSignal,
+  ): Promise<string>;
+}
+
+const geminiProvider: SpeechToTextProvider = {
+  name: 'gemini',
+  async transcribe(audio, model, locale, signal) {
+    if (!env.GEMINI_API_KEY) {
+      throw new Error('GEMINI_API_KEY is not configured');
+    }
+    const url = new URL(
+      `https://generativelanguage.googleapis.com/v1beta/${model}:generateContent`,
+    );
+    url.searchParams.set('key', env.GEMINI_API_KEY);
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(buildGeminiTranscriptionRequestBody(audio, locale)),
+      signal,
+    });
+    if (!response.ok) {
+      throw new Error(
+        `Gemini transcription responded with ${response.status}: ${await response.text()}`,
+      );
+    }
+    const transcript = extractGeminiTranscript(await response.json());
+    if (transcript === null) {
+      throw new Error('Gemini transcription returned no candidates');
+    }
+    return transcript;
+  },
+};
+
+const openAiCompatibleProvider: SpeechToTextProvider = {
+  name: 'openai',
+  async transcribe(audio, model, locale, signal) {
+    if (!env.OPENAI_COMPATIBLE_BASE_URL) {
+      throw new Error('OPENAI_COMPATIBLE_BASE_URL is not configured');
+    }
+    const baseUrl = env.OPENAI_COMPATIBLE_BASE_URL;
+    const url = new URL('audio/transcriptions', baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`);
+    const form = new FormData();
+    form.append(
+      'file',
+      new Blob([Buffer.from(audio.base64, 'base64')], { type: audio.mimeType }),
+      buildSpeechToTextFileName(audio.mimeType),
+    );
+    form.append('model', model);
+    form.append('language', locale.slice(0, 2));
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: env.OPENAI_COMPATIBLE_API_KEY
+        ? { Authorization: `Bearer ${env.OPENAI_COMPATIBLE_API_KEY}` }
+        : {},
+      body: form,
+      signal,
+    });
+    if (!response.ok) {
+      throw new Error(
+        `OpenAI-compatible transcription responded with ${response.status}: ${await response.text()}`,
+      );
+    }
+    const transcript = extractOpenAiTranscript(await response.json());
+    if (transcript === null) {
+      throw new Error('OpenAI-compatible transcription returned no text');
+    }
+    return transcript;
+  },
+};
+
+const stubProvider: SpeechToTextProvider = {
+  name: 'stub',
+  async transcribe(audio) {
+    return decodeStubTranscript(Buffer.from(audio.base64, 'base64'));
+  },
+};
+
+const providers: Record<SpeechToTextProviderName, SpeechToTextProvider> = {
+  gemini: geminiProvider,
+  openai: openAiCompatibleProvider,
+  stub: stubProvider,
+};
+
+/**
+ * `SPEECH_TO_TEXT_PROVIDER` picks the provider; without it the meal analysis chain decides (see
+ * `resolveSpeechToTextProviderFromChain`). Null when production has no real provider: the stub phrase
+ * must never be logged as someone's meal there.
+ */
+export function resolveSpeechToTextProvider() {
+  const name =
+    env.SPEECH_TO_TEXT_PROVIDER ??
+    resolveSpeechToTextProviderFromChain(resolveAiProviderChain(), {
+      gemini: Boolean(env.GEMINI_API_KEY),
+      openai: Boolean(env.OPENAI_COMPATIBLE_BASE_URL),
+    });
+  if (!name || (name === 'stub' && env.NODE_ENV === 'production')) {
+    return null;
+  }
+  return {
+    provider: providers[name],
+    model: env.SPEECH_TO_TEXT_MODEL ?? DEFAULT_SPEECH_TO_TEXT_MODELS[name],
+  };
+}
+
+/** Transcribes a voice memo into the meal message. An empty transcript is a client error, not a meal. */
+export async function transcribeMealAudio(audio: SpeechToTextAudio, locale: Locale) {
+  const resolved = resolveSpeechToTextProvider();
+  if (!resolved) {
+    const error = new Error(
+      '音声入力は現在ご利用いただけません。テキストか写真で記録してください。',
+    );
+    Object.assign(error, { statusCode: StatusCodes.SERVICE_UNAVAILABLE, expose: true });
+    throw error;
+  }
+  const { provider, model } = resolved;
+  let raw: string;
+  try {
+    raw = await provider.transcribe(
+      audio,
+      model,
+      locale,
+      AbortSignal.timeout(timeoutConfig.AI_TOTAL_TIMEOUT_MS),
+    );
+  } catch (error) {
+    logger.warn({ provider: provider.name, model, err: error }, 'Voice memo transcription failed');
+    const failure = new Error('音声の文字起こしに失敗しました。もう一度お試しください。');
+    Object.assign(failure, { statusCode: StatusCodes.BAD_GATEWAY, expose: true });
+    throw failure;
+  }
+
+  const transcript = normalizeTranscript(raw);
+  if (!transcript) {
+    const error = new Error('音声から食事の内容を聞き取れませんでした。');
+    Object.assign(error, { statusCode: StatusCodes.UNPROCESSABLE_ENTITY, expose: true });
+    throw error;
+  }
+  return transcript;
+}
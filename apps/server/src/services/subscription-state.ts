@@ -0,0 +1,153 @@
+import type { SubscriptionStatus } from '@prisma/client';
+
+export interface SubscriptionState {
+  status: SubscriptionStatus;
+  productId: string;
+  pendingProductId: string | null;
+  autoRenew: boolean;
+  expiresAt: Date | null;
+  gracePeriodExpiresAt: Date | null;
+  revokedAt: Date | null;
+}
+
+export interface AppStoreSubscriptionEvent {
+  notificationType: string;
+  subtype: string | null;
+  signedDate: Date;
+  productId: string;
+  expiresDate: Date | null;
+  revocationDate: Date | null;
+  autoRenewStatus: boolean | null;
+  autoRenewProductId: string | null;
+  gracePeriodExpiresDate: Date | null;
+}
+
+/**
+ * Applies one App Store Server Notification to the stored subscription. Notification types follow
+ * https://developer.apple.com/documentation/appstoreservernotifications/notificationtype.
+ * Unknown or informational types (PRICE_INCREASE, CONSUMPTION_REQUEST, ...) only refresh the renewal
+ * preference.
+ */
+export function applyAppStoreSubscriptionEvent(
+  current: SubscriptionState | null,
+  event: AppStoreSubscriptionEvent,
+): SubscriptionState {
+  const base: SubscriptionState = {
+    status: current?.status ?? 'ACTIVE',
+    productId: current?.productId ?? event.productId,
+    pendingProductId: current?.pendingProductId ?? null,
+    autoRenew: event.autoRenewStatus ?? current?.autoRenew ?? true,
+    expiresAt: current?.expiresAt ?? event.expiresDate,
+    gracePeriodExpiresAt: current?.gracePeriodExpiresAt ?? null,
+    revokedAt: current?.revokedAt ?? null,
+  };
+  // Transaction info always describes the latest transaction; it is the paid-through date.
+  const renewed: SubscriptionState = {
+    ...base,
+    status: 'ACTIVE',
+    productId: event.productId,
+    pendingProductId: null,
+    expiresAt: event.expiresDate ?? base.expiresAt,
+    gracePeriodExpiresAt: null,
+    revokedAt: null,
+  };
+  // Refunds and revocations name one transaction. One of an earlier period only shortens that
+  // period's grant; the subscription follows the transaction that is paid through `expiresAt`.
+  const isCurrentTransaction =
+    !event.expiresDate || !base.expiresAt || event.expiresDate >= base.expiresAt;
+
+  switch (event.notificationType) {
+    case 'SUBSCRIBED':
+    case 'DID_RENEW':
+    case 'OFFER_REDEEMED':
+    case 'RENEWAL_EXTENDED':
+      return renewed;
+    case 'DID_CHANGE_RENEWAL_PREF':
+      if (event.subtype === 'UPGRADE') {
+        // Upgrades (monthly to annual) take effect immediately with a new transaction.
+        return renewed;
+      }
+      if (event.subtype === 'DOWNGRADE') {
+        // Downgrades (annual to monthly) wait for the next renewal.
+        const pendingProductId = event.autoRenewProductId ?? null;
+        return {
+          ...base,
+          pendingProductId: pendingProductId !== base.productId ? pendingProductId : null,
+        };
+      }
+      // No subtype: the user went back to the current product before a downgrade applied.
+      return { ...base, pendingProductId: null };
+    case 'DID_CHANGE_RENEWAL_STATUS':
+      return {
+        ...base,
+        autoRenew: event.autoRenewStatus ?? event.subtype !== 'AUTO_RENEW_DISABLED',
+      };
+    case 'DID_FAIL_TO_RENEW':
+      if (event.subtype === 'GRACE_PERIOD' && event.gracePeriodExpiresDate) {
+        return {
+          ...base,
+          status: 'GRACE_PERIOD',
+          gracePeriodExpiresAt: event.gracePeriodExpiresDate,
+        };
+      }
+      return { ...base, status: 'BILLING_RETRY', gracePeriodExpiresAt: null };
+    case 'GRACE_PERIOD_EXPIRED':
+      // Apple keeps retrying the charge after the grace period ends; access stops until it succeeds.
+      return { ...base, status: 'BILLING_RETRY', gracePeriodExpiresAt: null };
+    case 'EXPIRED':
+      return { ...base, status: 'EXPIRED', autoRenew: false, gracePeriodExpiresAt: null };
+    case 'REFUND':
+      if (!isCurrentTransaction) {
+        return base;
+      }
+      return {
+        ...base,
+        status: 'REFUNDED',
+        gracePeriodExpiresAt: null,
+        revokedAt: event.revocationDate ?? event.signedDate,
+      };
+    case 'REVOKE':
+      // Family Sharing access was withdrawn by the purchaser.
+      if (!isCurrentTransaction) {
+        return base;
+      }
+      return {
+        ...base,
+        status: 'REVOKED',
+        gracePeriodExpiresAt: null,
+        revokedAt: event.revocationDate ?? event.signedDate,
+      };
+    case 'REFUND_REVERSED': {
+      if (!isCurrentTransaction) {
+        return base;
+      }
+      const expiresAt = event.expiresDate ?? base.expiresAt;
+      return {
+        ...base,
+        status: expiresAt && expiresAt > event.signedDate ? 'ACTIVE' : 'EXPIRED',
+        expiresAt,
+        revokedAt: null,
+      };
+    }
+    default:
+      return base;
+  }
+}
+
+/** End of paid access when the subscription entitles premium at `now`, otherwise null. */
+export function resolveSubscriptionEntitlementEnd(
+  state: SubscriptionState,
+  now: Date,
+): Date | null {
+  if (state.status === 'ACTIVE' && state.expiresAt && state.expiresAt >= now) {
+    return state.expiresAt;
+  }
+  if (
+    state.status === 'GRACE_PERIOD' &&
+    state.gracePeriodExpiresAt &&
+    state.gracePeriodExpiresAt >= now
+  ) {
+    return state.gracePeriodExpiresAt;
+  }
+  return null;
+}
@@ -0,0 +1,165 @@
+import type { Prisma, WeightEntry as WeightEntryRecord } from '@prisma/client';
+import { DateTime } from 'luxon';
+import { StatusCodes } from 'http-status-codes';
+import {
+  WEIGHT_TREND_WINDOW_DAYS,
+  WeightEntryCreateRequestSchema,
+  WeightEntryUpdateRequestSchema,
+  buildWeightTrend,
+  projectWeightGoal,
+  type WeightEntry,
+  type WeightLogResponse,
+} from '@meal-log/shared';
+import { prisma } from '../db/prisma.js';
+
+export const DEFAULT_WEIGHT_LOG_DAYS = 90;
+
+type WeightEntryFields = Pick<WeightEntryRecord, 'id' | 'weightKg' | 'recordedAt' | 'note'>;
+
+export function mapWeightEntry(record: WeightEntryFields): WeightEntry {
+  return {
+    id: record.id,
+    weight_kg: record.weightKg,
+    recorded_at: record.recordedAt.toISOString(),
+    note: record.note,
+  };
+}
+
+/**
+ * Builds the list, trend and projection for a window of entries. `entries` should reach back
+ * one smoothing window before `from` so the first trend points are already averaged.
+ */
+export function buildWeightLog(params: {
+  entries: WeightEntryFields[];
+  from: DateTime;
+  timezone: string;
+  targetWeightKg: number | null;
+  targetDate: Date | null;
+}): Omit<WeightLogResponse, 'ok'> {
+  const fromKey = params.from.setZone(params.timezone).toISODate() ?? '';
+  const samples = params.entries.map((entry) => ({
+    date: DateTime.fromJSDate(entry.recordedAt, { zone: params.timezone }).toISODate() ?? '',
+    weight_kg: entry.weightKg,
+  }));
+  const trend = buildWeightTrend(samples).filter((point) => point.date >= fromKey);
+
+  return {
+    items: params.entries
+      .filter((entry) => entry.recordedAt >= params.from.toJSDate())
+      .sort((a, b) => b.recordedAt.getTime() - a.recordedAt.getTime())
+      .map(mapWeightEntry),
+    trend,
+    projection: projectWeightGoal({
+      trend,
+      targetWeightKg: params.targetWeightKg,
+      plannedDate: params.targetDate?.toISOString() ?? null,
+    }),
+  };
+}
+
+/** Entries and trend of the last `days` days, with days counted in the user's `timezone`. */
+export async function getWeightLog(userId: number, days: number, timezone: string) {
+  const from = DateTime.now()
+    .setZone(timezone)
+    .startOf('day')
+    .minus({ days: days - 1 });
+
+  const [entries, profile] = await Promise.all([
+    fetchWeightEntriesForTrend(userId, from),
+    prisma.userProfile.findUnique({
+      where: { userId },
+      select: { targetWeightKg: true, targetDate: true },
+    }),
+  ]);
+
+  return buildWeightLog({
+    entries,
+    from,
+    timezone,
+    targetWeightKg: profile?.targetWeightKg ?? null,
+    targetDate: profile?.targetDate ?? null,
+  });
+}
+
+/** Entries from one smoothing window before `from`, so the first trend point is averaged. */
+function fetchWeightEntriesForTrend(userId: number, from: DateTime) {
+  return prisma.weightEntry.findMany({
+    where: {
+      userId,
+      recordedAt: { gte: from.minus({ days: WEIGHT_TREND_WINDOW_DAYS - 1 }).toJSDate() },
+    },
+    orderBy: { recordedAt: 'asc' },
+  });
+}
+
+export async function getWeightTrend(userId: number, from: DateTime, timezone: string) {
+  const entries = await fetchWeightEntriesForTrend(userId, from);
+  return buildWeightLog({ entries, from, timezone, targetWeightKg: null, targetDate: null }).trend;
+}
+
+export async function createWeightEntry(userId: number, payload: unknown) {
+  const parsed = WeightEntryCreateRequestSchema.parse(payload);
+  return prisma.$transaction(async (tx) => {
+    const created = await tx.weightEntry.create({
+      data: {
+        userId,
+        weightKg: parsed.weight_kg,
+        recordedAt: parsed.recorded_at ? new Date(parsed.recorded_at) : new Date(),
+        note: parsed.note ?? null,
+      },
+    });
+    await syncCurrentWeight(tx, userId);
+    return mapWeightEntry(created);
+  });
+}
+
+export async function updateWeightEntry(userId: number, entryId: number, payload: unknown) {
+  const parsed = WeightEntryUpdateRequestSchema.parse(payload);
+  await findOwnedEntry(userId, entryId);
+  return prisma.$transaction(async (tx) => {
+    const updated = await tx.weightEntry.update({
+      where: { id: entryId },
+      data: {
+        ...(parsed.weight_kg !== undefined ? { weightKg: parsed.weight_kg } : {}),
+        ...(parsed.recorded_at !== undefined ? { recordedAt: new Date(parsed.recorded_at) } : {}),
+        ...(parsed.note !== undefined ? { note: parsed.note } : {}),
+      },
+    });
+    await syncCurrentWeight(tx, userId);
+    return mapWeightEntry(updated);
+  });
+}
+
+export async function deleteWeightEntry(userId: number, entryId: number) {
+  await findOwnedEntry(userId, entryId);
+  await prisma.$transaction(async (tx) => {
+    await tx.weightEntry.delete({ where: { id: entryId } });
+    await syncCurrentWeight(tx, userId);
+  });
+}
+
+async function findOwnedEntry(userId: number, entryId: number) {
+  const entry = await prisma.weightEntry.findFirst({ where: { id: entryId, userId } });
+  if (!entry) {
+    const error = new Error('体重記録が見つかりませんでした');
+    Object.assign(error, { statusCode: StatusCodes.NOT_FOUND, expose: true });
+    throw error;
+  }
+  return entry;
+}
+
+/** Keeps the profile's single weight field pointing at the most recent entry. */
+async function syncCurrentWeight(tx: Prisma.TransactionClient, userId: number) {
+  const latest = await tx.weightEntry.findFirst({
+    where: { userId },
+    orderBy: { recordedAt: 'desc' },
+    select: { weightKg: true },
+  });
+  if (!latest) {
+    return;
+  }
+  await tx.userProfile.updateMany({
+    where: { userId },
+    data: { currentWeightKg: latest.weightKg },
+  });
+}
@@ -1,4 +1,5 @@
 import 'express-session';
+import type { SessionClientInfo } from '@meal-log/shared';
 
 declare module 'express-session' {
   interface SessionData {
@@ -6,5 +7,6 @@ declare module 'express-session' {
     aiCredits?: number;
     locale?: string;
     timezone?: string;
+    client?: SessionClientInfo;
   }
 }
@@ -0,0 +1,18 @@
+import { createHash, randomBytes } from 'node:crypto';
+
+/** Only the hash is stored, so a leaked table cannot be replayed as links. */
+export function hashAuthToken(token: string) {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function generateAuthToken() {
+  const token = randomBytes(32).toString('base64url');
+  return { token, tokenHash: hashAuthToken(token) };
+}
+
+export function isAuthTokenUsable(
+  record: { expiresAt: Date; usedAt: Date | null },
+  now: Date = new Date(),
+) {
+  return record.usedAt === null && record.expiresAt.getTime() > now.getTime();
+}
@@ -1,4 +1,5 @@
 import type { Request } from 'express';
+import { readSessionClientInfo } from '@meal-log/shared';
 
 export function getClientIp(req: Request): string {
   const fromExpress = req.ip;
@@ -16,3 +17,7 @@ export function getClientUserAgent(req: Request): string {
   const ua = req.headers['user-agent'];
   return typeof ua === 'string' && ua.trim() ? ua : 'unknown';
 }
+
+export function getSessionClientInfo(req: Request) {
+  return readSessionClientInfo((name) => req.get(name), getClientIp(req));
+}
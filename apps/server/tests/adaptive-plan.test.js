@@ -0,0 +1,117 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  buildAdaptivePlanProposal,
+  computeNutritionPlan,
+  estimateMaintenanceFromHistory,
+} from '@meal-log/shared';
+
+const planInput = {
+  gender: 'MALE',
+  birthdate: '1990-01-01T00:00:00.000Z',
+  heightCm: 175,
+  currentWeightKg: 80,
+  targetWeightKg: 72,
+  activityLevel: 'MODERATE',
+  planIntensity: 'STANDARD',
+  goals: ['WEIGHT_LOSS'],
+};
+
+const current = { calories: 2211, protein_g: 160, fat_g: 61, carbs_g: 253 };
+
+function dateAt(offset) {
+  return new Date(Date.UTC(2026, 8, 1 + offset)).toISOString().slice(0, 10);
+}
+
+function buildHistory({ days = 28, intakeKcal = 2200, weeklyChangeKg = -0.5, loggedEvery = 1 } = {}) {
+  const intake = [];
+  const trend = [];
+  for (let offset = 0; offset < days; offset += 1) {
+    if (offset % loggedEvery === 0) {
+      intake.push({ date: dateAt(offset), kcal: intakeKcal });
+    }
+    const kg = Math.round((80 + (weeklyChangeKg / 7) * offset) * 100) / 100;
+    trend.push({ date: dateAt(offset), weight_kg: kg, trend_kg: kg });
+  }
+  return { intake, trend };
+}
+
+test('estimateMaintenanceFromHistory corrects intake by the energy of the weight trend', () => {
+  const estimate = estimateMaintenanceFromHistory(buildHistory());
+
+  assert.equal(estimate.reason, null);
+  assert.equal(estimate.confidence, 'high');
+  assert.equal(estimate.loggedDays, 28);
+  assert.equal(estimate.weeklyWeightChangeKg, -0.5);
+  assert.equal(estimate.measuredMaintenanceKcal, 2750);
+});
+
+test('estimateMaintenanceFromHistory ignores partial days and needs two weeks of intake', () => {
+  const history = buildHistory({ loggedEvery: 2 });
+  history.intake.push({ date: dateAt(1), kcal: 350 });
+
+  const estimate = estimateMaintenanceFromHistory(history);
+  assert.equal(estimate.loggedDays, 14);
+  assert.equal(estimate.averageIntakeKcal, 2200);
+  assert.equal(estimate.confidence, 'low');
+
+  const sparse = estimateMaintenanceFromHistory(buildHistory({ loggedEvery: 3 }));
+  assert.equal(sparse.reason, 'intake');
+  assert.equal(sparse.measuredMaintenanceKcal, null);
+});
+
+test('buildAdaptivePlanProposal recomputes targets from measured maintenance', () => {
+  const proposal = buildAdaptivePlanProposal({
+    planInput,
+    estimate: estimateMaintenanceFromHistory(buildHistory({ weeklyChangeKg: 0 })),
+    current,
+  });
+  const expected = computeNutritionPlan(planInput, { maintenanceCalories: 2200 });
+
+  assert.equal(proposal.status, 'ready');
+  assert.equal(proposal.estimated_maintenance_kcal, 2200);
+  assert.equal(expected.method, 'adaptive');
+  assert.deepEqual(proposal.proposed, {
+    calories: expected.targetCalories,
+    protein_g: expected.proteinGrams,
+    fat_g: expected.fatGrams,
+    carbs_g: expected.carbGrams,
+  });
+  assert.ok(proposal.proposed.calories < current.calories);
+});
+
+test('buildAdaptivePlanProposal only moves part of the way on low confidence and respects a decline', () => {
+  const formula = computeNutritionPlan(planInput).maintenanceCalories;
+  const estimate = estimateMaintenanceFromHistory(
+    buildHistory({ loggedEvery: 2, weeklyChangeKg: 0 }),
+  );
+  const now = new Date('2026-10-19T00:00:00.000Z');
+  const proposal = buildAdaptivePlanProposal({
+    planInput,
+    estimate,
+    current,
+    declinedAt: new Date('2026-10-15T00:00:00.000Z'),
+    now,
+  });
+
+  assert.equal(proposal.confidence, 'low');
+  assert.equal(proposal.estimated_maintenance_kcal, Math.round(formula + (2200 - formula) * 0.5));
+  assert.equal(proposal.status, 'snoozed');
+  assert.equal(
+    buildAdaptivePlanProposal({ planInput, estimate, current, declinedAt: new Date('2026-09-01'), now })
+      .status,
+    'ready',
+  );
+});
+
+test('buildAdaptivePlanProposal reports missing profile fields', () => {
+  const proposal = buildAdaptivePlanProposal({
+    planInput: { ...planInput, heightCm: null },
+    estimate: estimateMaintenanceFromHistory(buildHistory()),
+    current: null,
+  });
+
+  assert.equal(proposal.status, 'insufficient_data');
+  assert.equal(proposal.reason, 'profile');
+  assert.equal(proposal.proposed, null);
+});
@@ -0,0 +1,58 @@
+import './test-env.ts';
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { parseAiProviderChain, selectAttemptTarget } from '@meal-log/shared';
+
+process.env.AI_PROVIDER_CHAIN = 'gemini,openai:test-model';
+process.env.OPENAI_COMPATIBLE_BASE_URL = 'http://ai.test/v1';
+process.env.AI_HEDGE_DELAY_MS = '0';
+process.env.GEMINI_API_KEY = '';
+
+const { analyzeMealWithGemini } = await import('../src/services/gemini-service.ts');
+
+const defaults = {
+  gemini: 'models/gemini-2.5-flash',
+  openai: 'gpt-4o-mini',
+  local: 'llama3.2-vision',
+  mock: 'mock',
+};
+
+test('parseAiProviderChain fills default models and rejects unknown providers', () => {
+  assert.deepEqual(parseAiProviderChain(' gemini , openai:gpt-4.1-mini,local ', defaults), [
+    { provider: 'gemini', model: 'models/gemini-2.5-flash' },
+    { provider: 'openai', model: 'gpt-4.1-mini' },
+    { provider: 'local', model: 'llama3.2-vision' },
+  ]);
+  assert.deepEqual(parseAiProviderChain(undefined, defaults), []);
+  assert.throws(() => parseAiProviderChain('claude', defaults), /Unknown AI provider/);
+
+  const chain = parseAiProviderChain('gemini,mock', defaults);
+  assert.equal(selectAttemptTarget(chain, 0).provider, 'gemini');
+  assert.equal(selectAttemptTarget(chain, 3).provider, 'mock');
+});
+
+test('hedged analysis fails over to the next provider in the chain', async (t) => {
+  const requests = [];
+  t.mock.method(globalThis, 'fetch', async (url, init) => {
+    requests.push({ url: String(url), body: JSON.parse(init.body) });
+    const content = JSON.stringify({
+      dish: 'Grilled chicken',
+      confidence: 0.8,
+      totals: { kcal: 420, protein_g: 38, fat_g: 14, carbs_g: 30 },
+      items: [{ name: 'chicken', grams: 180 }],
+    });
+    return new Response(JSON.stringify({ choices: [{ message: { content } }] }), { status: 200 });
+  });
+
+  const result = await analyzeMealWithGemini({ message: 'grilled chicken' });
+
+  assert.equal(result.response.dish, 'Grilled chicken');
+  assert.equal(result.meta.model, 'openai:test-model');
+  assert.equal(result.meta.attempt, 2);
+  assert.equal(requests.length, 1);
+  assert.equal(requests[0].url, 'http://ai.test/v1/chat/completions');
+  assert.equal(requests[0].body.model, 'test-model');
+  const failed = result.attemptReports.find((report) => !report.ok);
+  assert.equal(failed?.model, 'models/gemini-2.5-flash');
+  assert.match(failed?.error ?? '', /GEMINI_API_KEY/);
+});
@@ -17,10 +17,12 @@ const originalCounterUpsert = prismaAny.aiUsageCounter.upsert;
 const originalUserUpdate = prismaAny.user.update;
 const originalTransaction = prismaAny.$transaction;
 const originalPremiumFindFirst = prismaAny.premiumGrant.findFirst;
+const originalSubscriptionFindMany = prismaAny.subscription.findMany;
 
 test.beforeEach(() => {
   delete process.env.USER_PLAN_OVERRIDE;
   prismaAny.premiumGrant.findFirst = async () => null;
+  prismaAny.subscription.findMany = async () => [];
 });
 
 test.afterEach(() => {
@@ -30,6 +32,7 @@ test.afterEach(() => {
   prismaAny.user.update = originalUserUpdate;
   prismaAny.$transaction = originalTransaction;
   prismaAny.premiumGrant.findFirst = originalPremiumFindFirst;
+  prismaAny.subscription.findMany = originalSubscriptionFindMany;
 });
 
 test('evaluateAiUsage reports remaining allowance for free plan', async () => {
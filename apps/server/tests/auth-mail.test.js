@@ -0,0 +1,134 @@
+import './test-env.ts';
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import net from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import test from 'node:test';
+
+const { generateAuthToken, hashAuthToken, isAuthTokenUsable } = await import(
+  '../src/utils/auth-token.ts'
+);
+const { createFileMailTransport, sendSmtpMail } = await import('../src/services/mail-service.ts');
+
+test('auth tokens are random, stored as hashes and usable once before they expire', () => {
+  const first = generateAuthToken();
+  const second = generateAuthToken();
+  assert.notEqual(first.token, second.token);
+  assert.equal(first.tokenHash, hashAuthToken(first.token));
+  assert.notEqual(first.tokenHash, first.token);
+  assert.match(first.token, /^[A-Za-z0-9_-]{43}$/);
+
+  const now = new Date('2026-10-19T12:00:00Z');
+  const expiresAt = new Date('2026-10-19T13:00:00Z');
+  assert.equal(isAuthTokenUsable({ expiresAt, usedAt: null }, now), true);
+  assert.equal(isAuthTokenUsable({ expiresAt, usedAt: now }, now), false);
+  assert.equal(isAuthTokenUsable({ expiresAt, usedAt: null }, expiresAt), false);
+});
+
+test('file transport writes one JSON message per mail', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'meal-log-mail-'));
+  try {
+    const transport = createFileMailTransport(dir);
+    await transport.send({
+      from: 'Meal Log <no-reply@meal-log.app>',
+      to: 'user@example.com',
+      subject: 'Reset your Meal Log password',
+      text: 'meallog://reset-password?token=abc',
+    });
+    const files = await readdir(dir);
+    assert.equal(files.length, 1);
+    const mail = JSON.parse(await readFile(join(dir, files[0]), 'utf8'));
+    assert.equal(mail.to, 'user@example.com');
+    assert.match(mail.text, /token=abc/);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+/** Plain-text SMTP server without STARTTLS that records every line it receives. */
+async function startFakeSmtpServer() {
+  const received = [];
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let inData = false;
+    const reply = (line) => socket.write(`${line}\r\n`);
+    reply('220 fake.smtp ready');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString();
+      let index;
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        received.push(line);
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            reply('250 queued');
+          }
+        } else if (line.startsWith('EHLO')) {
+          reply('250-fake.smtp');
+          reply('250 AUTH PLAIN');
+        } else if (line.startsWith('AUTH PLAIN')) {
+          reply('235 ok');
+        } else if (line === 'DATA') {
+          inData = true;
+          reply('354 go ahead');
+        } else if (line === 'QUIT') {
+          reply('221 bye');
+          socket.end();
+        } else {
+          reply('250 ok');
+        }
+      }
+    });
+  });
+  await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return { server, port: server.address().port, received };
+}
+
+const resetMail = {
+  from: 'Meal Log <no-reply@meal-log.app>',
+  to: 'user@example.com',
+  subject: '【Meal Log】パスワードの再設定',
+  text: 'meallog://reset-password?token=abc',
+};
+
+test('SMTP transport submits the message', async () => {
+  const { server, port, received } = await startFakeSmtpServer();
+  try {
+    await sendSmtpMail({ host: '127.0.0.1', port, secure: false, timeoutMs: 5000 }, resetMail);
+  } finally {
+    server.close();
+  }
+
+  assert.ok(!received.some((line) => line.startsWith('AUTH')));
+  assert.ok(received.includes('MAIL FROM:<no-reply@meal-log.app>'));
+  assert.ok(received.includes('RCPT TO:<user@example.com>'));
+  assert.ok(received.some((line) => line.startsWith('Subject: =?UTF-8?B?')));
+  assert.ok(received.includes('meallog://reset-password?token=abc'));
+});
+
+test('SMTP transport refuses to send credentials without TLS', async () => {
+  const { server, port, received } = await startFakeSmtpServer();
+  try {
+    await assert.rejects(
+      sendSmtpMail(
+        {
+          host: '127.0.0.1',
+          port,
+          secure: false,
+          user: 'mailer',
+          password: 'secret',
+          timeoutMs: 5000,
+        },
+        resetMail,
+      ),
+    );
+  } finally {
+    server.close();
+  }
+
+  assert.ok(!received.some((line) => line.startsWith('AUTH')));
+  assert.ok(!received.some((line) => line.startsWith('MAIL FROM')));
+});
@@ -0,0 +1,129 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  CHAIN_MENU_LANDING_TYPE,
+  buildChainMenuResponse,
+  buildMealLogChainMenuSource,
+  isReanalyzableMealLog,
+  matchChainMenuItem,
+  normalizeChainMenuText,
+  withAlternateEstimate,
+} from '@meal-log/shared';
+import { parseChainMenuCsv } from '../src/services/chain-menu-import.js';
+
+const chainKeys = ['吉野家', 'よしのや', 'Yoshinoya'].map(normalizeChainMenuText);
+const menu = [
+  {
+    id: 1,
+    chainKeys,
+    names: [
+      { name: '牛丼 並盛' },
+      { name: '並盛 牛丼', isAlias: true },
+      { name: '牛丼', isAlias: true },
+      { name: 'gyudon', isAlias: true },
+    ],
+  },
+  { id: 2, chainKeys, names: [{ name: '牛丼 大盛' }, { name: '大盛 牛丼', isAlias: true }] },
+];
+
+const item = {
+  id: 2,
+  chain: '吉野家',
+  name: '牛丼',
+  sizeLabel: '大盛',
+  kcal: 845,
+  proteinG: 28.4,
+  fatG: 31.1,
+  carbsG: 110.5,
+  saltG: 3.7,
+  servingGrams: null,
+  sourceUrl: 'https://example.com/menu/gyudon',
+};
+
+test('matchChainMenuItem needs the chain and a menu name with only filler around them', () => {
+  assert.equal(matchChainMenuItem('吉野家で牛丼並盛を食べた', menu)?.item.id, 1);
+  assert.equal(matchChainMenuItem('Yoshinoya gyudon', menu)?.item.id, 1);
+  assert.equal(matchChainMenuItem('すき家の牛丼', menu), null);
+  assert.equal(matchChainMenuItem('吉野家の牛丼とサラダ', menu), null);
+  assert.equal(matchChainMenuItem('牛丼 大盛', menu), null);
+});
+
+test('matchChainMenuItem only drops filler used as a whole word or particle', () => {
+  assert.equal(matchChainMenuItem('had the Yoshinoya gyudon', menu)?.item.id, 1);
+  assert.equal(matchChainMenuItem('吉野家で牛丼1杯', menu)?.item.id, 1);
+  assert.equal(matchChainMenuItem('吉野家 牛丼 1', menu)?.item.id, 1);
+  assert.equal(matchChainMenuItem('吉野家 牛丼 11杯', menu), null);
+  assert.equal(matchChainMenuItem('吉野家 牛丼 2', menu), null);
+  assert.equal(matchChainMenuItem('Yoshinoya gyudon and salad', menu), null);
+});
+
+test('matchChainMenuItem prefers the longest name so a size beats the default portion', () => {
+  assert.equal(matchChainMenuItem('吉野家の牛丼', menu)?.item.id, 1);
+  const match = matchChainMenuItem('吉野家の牛丼大盛', menu);
+  assert.equal(match?.item.id, 2);
+  assert.equal(match?.matchedName, '牛丼 大盛');
+});
+
+test('buildChainMenuResponse stores the published values with the match in meta', () => {
+  const response = buildChainMenuResponse(item, '吉野家の牛丼大盛');
+  assert.equal(response.dish, '吉野家 牛丼 大盛');
+  assert.equal(response.confidence, 1);
+  assert.equal(response.landing_type, CHAIN_MENU_LANDING_TYPE);
+  assert.deepEqual(response.totals, { kcal: 845, protein_g: 28.4, fat_g: 31.1, carbs_g: 110.5 });
+  assert.deepEqual(response.micros, { salt_g: 3.7 });
+  assert.deepEqual(response.meta, { chainMenuItemId: 2, chainMenuQuery: '吉野家の牛丼大盛' });
+  assert.equal(isReanalyzableMealLog({ landingType: response.landing_type, meta: response.meta }), false);
+});
+
+test('withAlternateEstimate keeps one previous estimate to switch back to', () => {
+  const chainMenu = buildChainMenuResponse(item, '吉野家の牛丼大盛');
+  const model = {
+    dish: '牛丼',
+    confidence: 0.7,
+    totals: { kcal: 900, protein_g: 30, fat_g: 35, carbs_g: 115 },
+    items: [],
+    warnings: [],
+    meta: { model: 'gemini' },
+  };
+
+  const switched = withAlternateEstimate(model, chainMenu);
+  assert.equal(switched.totals.kcal, 900);
+  assert.equal(switched.meta?.chainMenuItemId, 2);
+  assert.equal(switched.meta?.chainMenuQuery, '吉野家の牛丼大盛');
+  assert.deepEqual(switched.meta?.alternateEstimate, chainMenu);
+
+  const back = withAlternateEstimate(switched.meta.alternateEstimate, switched);
+  assert.equal(back.landing_type, CHAIN_MENU_LANDING_TYPE);
+  assert.equal(back.meta?.alternateEstimate.totals.kcal, 900);
+  assert.equal(back.meta?.alternateEstimate.meta.alternateEstimate, undefined);
+});
+
+test('buildMealLogChainMenuSource reports whether the log still uses the menu values', () => {
+  assert.equal(buildMealLogChainMenuSource(item, CHAIN_MENU_LANDING_TYPE).active, true);
+  const source = buildMealLogChainMenuSource(item, null);
+  assert.equal(source.active, false);
+  assert.equal(source.size_label, '大盛');
+  assert.equal(source.source_url, 'https://example.com/menu/gyudon');
+});
+
+test('parseChainMenuCsv maps menu rows and reports skipped lines', () => {
+  const csv = [
+    'code,chain,chain_aliases,name,aliases,size,kcal,protein_g,fat_g,carbs_g,salt_g,serving_grams,source_url',
+    'Y001,吉野家,よしのや|Yoshinoya,牛丼,gyudon,並盛,635,19.7,23.4,88.9,2.6,,https://example.com/menu/gyudon',
+    'Y002,吉野家,,牛丼,,大盛,845,28.4,31.1,110.5,,,',
+    'Y003,吉野家,,牛丼,,特盛,abc,1,1,1,,,',
+    ',吉野家,,味噌汁,,,20,1,1,1,,,',
+  ].join('\n');
+  const { rows, skipped } = parseChainMenuCsv(csv, { source: 'yoshinoya', locale: 'ja-JP' });
+  assert.equal(rows.length, 2);
+  assert.deepEqual(rows[0].chain_aliases, ['よしのや', 'Yoshinoya']);
+  assert.deepEqual(rows[0].aliases, ['gyudon']);
+  assert.equal(rows[0].size_label, '並盛');
+  assert.equal(rows[0].salt_g, 2.6);
+  assert.equal(rows[1].salt_g, null);
+  assert.equal(rows[1].source_url, null);
+  assert.deepEqual(
+    skipped.map((entry) => entry.line),
+    [4, 5],
+  );
+});
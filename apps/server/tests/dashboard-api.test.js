@@ -10,11 +10,15 @@ const prismaAny = prisma;
 const originalFindMany = prismaAny.mealLog.findMany;
 const originalAggregate = prismaAny.mealLog.aggregate;
 const originalUserProfileFindUnique = prismaAny.userProfile.findUnique;
+const originalHydrationAggregate = prismaAny.hydrationEntry.aggregate;
+const originalPlannedMealFindMany = prismaAny.plannedMeal.findMany;
 
 test.afterEach(() => {
   prismaAny.mealLog.findMany = originalFindMany;
   prismaAny.mealLog.aggregate = originalAggregate;
   prismaAny.userProfile.findUnique = originalUserProfileFindUnique;
+  prismaAny.hydrationEntry.aggregate = originalHydrationAggregate;
+  prismaAny.plannedMeal.findMany = originalPlannedMealFindMany;
   invalidateDashboardCacheForUser();
   Settings.now = Date.now;
 });
@@ -45,6 +49,30 @@ test('summary endpoint returns dashboard payload when authenticated', async () =
     'daily entries include ISO date strings',
   );
   assert.equal(response.body.summary.range.timezone, 'Asia/Tokyo');
+  assert.deepEqual(response.body.summary.hydration, { today_ml: 0, target_ml: 2000 });
+  assert.equal(response.body.summary.plan.entries, 0);
+});
+
+test('summary endpoint reports planned meals next to what was logged', async () => {
+  Settings.now = () => Date.parse('2025-01-08T03:00:00Z');
+
+  stubPrisma(
+    [createLog('2025-01-08T12:10:00+09:00', 700, 42, 18, 68, 'LUNCH')],
+    [
+      { calories: 650, proteinG: 40, fatG: 20, carbsG: 70, status: 'EATEN' },
+      { calories: 800, proteinG: 50.25, fatG: 25, carbsG: 80, status: 'PLANNED' },
+    ],
+  );
+
+  const response = await invokeSummaryEndpoint({ session: { userId: 99 }, query: { period: 'today' } });
+  assert.equal(response.status, 200);
+  assert.deepEqual(response.body.summary.plan, {
+    entries: 2,
+    eaten_entries: 1,
+    planned: { calories: 1450, protein_g: 90.3, fat_g: 45, carbs_g: 150 },
+    eaten: { calories: 650, protein_g: 40, fat_g: 20, carbs_g: 70 },
+  });
+  assert.equal(response.body.summary.macros.total.calories, 700);
 });
 
 test('summary endpoint respects timezone boundaries around midnight', async () => {
@@ -84,7 +112,7 @@ async function invokeSummaryEndpoint({ session, query }) {
   }
 }
 
-function stubPrisma(logs) {
+function stubPrisma(logs, plans = []) {
   prismaAny.mealLog.findMany = async (args) => {
     if (!args?.where?.createdAt) {
       return logs;
@@ -115,6 +143,8 @@ function stubPrisma(logs) {
   };
 
   prismaAny.userProfile.findUnique = async () => null;
+  prismaAny.hydrationEntry.aggregate = async () => ({ _sum: { amountMl: null } });
+  prismaAny.plannedMeal.findMany = async () => plans;
 }
 
 function createLog(dateIso, calories, protein, fat, carbs, mealPeriod) {
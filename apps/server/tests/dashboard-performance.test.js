@@ -11,11 +11,15 @@ const prismaAny = prisma;
 const originalFindMany = prismaAny.mealLog.findMany;
 const originalAggregate = prismaAny.mealLog.aggregate;
 const originalUserProfileFindUnique = prismaAny.userProfile.findUnique;
+const originalHydrationAggregate = prismaAny.hydrationEntry.aggregate;
+const originalPlannedMealFindMany = prismaAny.plannedMeal.findMany;
 
 test.afterEach(() => {
   prismaAny.mealLog.findMany = originalFindMany;
   prismaAny.mealLog.aggregate = originalAggregate;
   prismaAny.userProfile.findUnique = originalUserProfileFindUnique;
+  prismaAny.hydrationEntry.aggregate = originalHydrationAggregate;
+  prismaAny.plannedMeal.findMany = originalPlannedMealFindMany;
   invalidateDashboardCacheForUser();
   Settings.now = undefined;
 });
@@ -40,6 +44,8 @@ test('dashboard summary resolves under 300ms for 4-week window with 5000 logs',
     ),
   });
   prismaAny.userProfile.findUnique = async () => null;
+  prismaAny.hydrationEntry.aggregate = async () => ({ _sum: { amountMl: null } });
+  prismaAny.plannedMeal.findMany = async () => [];
 
   const t0 = performance.now();
   const summary = await getDashboardSummary({ userId: 42, period: 'thisWeek' });
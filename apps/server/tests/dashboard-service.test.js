@@ -123,3 +123,36 @@ test('buildDashboardSummary uses provided targets when supplied', () => {
   assert.equal(summary.macros.targets.protein_g, customTargets.protein_g);
   assert.equal(summary.calories.remainingToday.calories, customTargets.calories - 0);
 });
+
+test('buildDashboardSummary aggregates stored micronutrients against daily reference targets', () => {
+  const logs = [
+    { ...createLog({ date: '2024-12-01T08:30:00', calories: 500, protein_g: 30, fat_g: 15, carbs_g: 40, mealPeriod: 'BREAKFAST' }), micros: { sodium_mg: 1000, fiber_g: 4 } },
+    { ...createLog({ date: '2024-12-02T19:10:00', calories: 650, protein_g: 32, fat_g: 25, carbs_g: 55, mealPeriod: 'DINNER' }), micros: { salt_g: 3.2 } },
+    createLog({ date: '2024-12-02T21:00:00', calories: 200, protein_g: 5, fat_g: 8, carbs_g: 25, mealPeriod: 'SNACK' }),
+  ];
+
+  const fromDate = DateTime.fromISO('2024-12-01', { zone: timezone }).startOf('day');
+  const toDate = fromDate.plus({ days: 2 });
+
+  const summary = buildDashboardSummary({
+    logs,
+    range: { fromDate, toDate, period: 'custom' },
+    timezone,
+    todayTotals: { calories: 0, protein_g: 0, fat_g: 0, carbs_g: 0 },
+    dailyTargets: getDefaultTargets(),
+    microKeys: ['iron_mg'],
+  });
+
+  assert.deepEqual(
+    summary.micros.map((row) => row.key),
+    ['fiber_g', 'sugar_g', 'saturated_fat_g', 'salt_g', 'iron_mg'],
+  );
+  const salt = summary.micros.find((row) => row.key === 'salt_g');
+  assert.equal(salt.total, 5.7);
+  assert.equal(salt.target, 15);
+  assert.equal(salt.kind, 'limit');
+  const fiber = summary.micros.find((row) => row.key === 'fiber_g');
+  assert.equal(fiber.total, 4);
+  assert.equal(fiber.target, 42);
+  assert.equal(summary.micros.find((row) => row.key === 'iron_mg').total, 0);
+});
@@ -0,0 +1,41 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { detectSessionPlatform, readSessionClientInfo } from '@meal-log/shared';
+
+const headersOf = (values) => (name) => values[name.toLowerCase()];
+
+test('session metadata prefers app headers and decodes non-ASCII device names', () => {
+  const info = readSessionClientInfo(
+    headersOf({
+      'user-agent': 'MealLog/1.4 CFNetwork/1494 Darwin/23.4.0',
+      'x-client-platform': 'ios',
+      'x-device-name': encodeURIComponent('山田のiPhone'),
+      'cf-ipcountry': 'JP',
+    }),
+    '203.0.113.7',
+  );
+  assert.deepEqual(info, {
+    deviceName: '山田のiPhone',
+    platform: 'ios',
+    userAgent: 'MealLog/1.4 CFNetwork/1494 Darwin/23.4.0',
+    ipAddress: '203.0.113.7',
+    region: 'JP',
+  });
+});
+
+test('session metadata falls back to the user agent and drops unknown values', () => {
+  const info = readSessionClientInfo(
+    headersOf({
+      'user-agent': 'okhttp/4.12.0',
+      'x-client-platform': 'tvos',
+      'cf-ipcountry': 'XX',
+    }),
+    'unknown',
+  );
+  assert.equal(info.platform, 'android');
+  assert.equal(info.deviceName, null);
+  assert.equal(info.ipAddress, null);
+  assert.equal(info.region, null);
+  assert.equal(detectSessionPlatform(null, 'Mozilla/5.0 (Windows NT 10.0)'), 'web');
+  assert.equal(detectSessionPlatform(null, 'curl/8.0'), null);
+});
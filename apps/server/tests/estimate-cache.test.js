@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { buildEstimateCacheKeyPayload, normalizeEstimateText } from '@meal-log/shared';
+
+test('normalizeEstimateText folds width, case, spacing and trailing punctuation', () => {
+  assert.equal(normalizeEstimateText('  納豆ご飯。 '), '納豆ご飯');
+  assert.equal(
+    normalizeEstimateText('ＧＲＩＬＬＥＤ　Chicken\n and   rice!'),
+    'grilled chicken and rice',
+  );
+  assert.equal(normalizeEstimateText('...'), '');
+});
+
+test('buildEstimateCacheKeyPayload keys on normalized text, image, locale and prompt version', () => {
+  const base = { imageHash: null, locale: 'ja-JP', promptVersion: 'v1' };
+  const payload = buildEstimateCacheKeyPayload({ ...base, text: '納豆ご飯' });
+
+  assert.equal(buildEstimateCacheKeyPayload({ ...base, text: ' 納豆ご飯。' }), payload);
+  assert.notEqual(
+    buildEstimateCacheKeyPayload({ ...base, text: '納豆ご飯', promptVersion: 'v2' }),
+    payload,
+  );
+  assert.notEqual(
+    buildEstimateCacheKeyPayload({ ...base, text: '納豆ご飯', locale: 'en-US' }),
+    payload,
+  );
+  assert.notEqual(
+    buildEstimateCacheKeyPayload({ ...base, text: '納豆ご飯', imageHash: 'abc' }),
+    payload,
+  );
+  assert.equal(buildEstimateCacheKeyPayload({ ...base, text: '  ' }), null);
+  assert.ok(buildEstimateCacheKeyPayload({ ...base, text: '', imageHash: 'abc' }));
+});
@@ -0,0 +1,107 @@
+import http from 'node:http';
+import { jwtVerify } from 'jose';
+
+const ACCESS_TOKEN = 'fake-google-access-token';
+
+/**
+ * Local stand-in for the OAuth token endpoint and the Android Publisher purchases API. Purchases
+ * are keyed by purchase token; acknowledgements and consumptions are recorded in `calls`.
+ */
+export async function startFakeGooglePlay({ packageName, publicKey }) {
+  const subscriptions = new Map();
+  const products = new Map();
+  const calls = [];
+  let baseUrl = '';
+
+  const readBody = (req) =>
+    new Promise((resolve) => {
+      let body = '';
+      req.on('data', (chunk) => {
+        body += chunk;
+      });
+      req.on('end', () => resolve(body));
+    });
+
+  const send = (res, status, payload) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(payload === undefined ? '' : JSON.stringify(payload));
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url, baseUrl);
+    const body = await readBody(req);
+
+    if (req.method === 'POST' && url.pathname === '/token') {
+      const form = new URLSearchParams(body);
+      try {
+        const { payload } = await jwtVerify(form.get('assertion') ?? '', publicKey, {
+          audience: `${baseUrl}/token`,
+        });
+        calls.push({ type: 'token', scope: payload.scope, issuer: payload.iss });
+        send(res, 200, { access_token: ACCESS_TOKEN, expires_in: 3600, token_type: 'Bearer' });
+      } catch (_error) {
+        send(res, 400, { error: 'invalid_grant' });
+      }
+      return;
+    }
+
+    if (req.headers.authorization !== `Bearer ${ACCESS_TOKEN}`) {
+      send(res, 401, { error: { code: 401 } });
+      return;
+    }
+
+    const prefix = `/androidpublisher/v3/applications/${packageName}/purchases/`;
+    if (!url.pathname.startsWith(prefix)) {
+      send(res, 404, { error: { code: 404 } });
+      return;
+    }
+    const route = url.pathname.slice(prefix.length).split('/').map(decodeURIComponent);
+
+    if (req.method === 'GET' && route[0] === 'subscriptionsv2' && route[1] === 'tokens') {
+      const subscription = subscriptions.get(route[2]);
+      send(res, subscription ? 200 : 404, subscription ?? { error: { code: 404 } });
+      return;
+    }
+    if (route[0] === 'products' && route[2] === 'tokens') {
+      const [token, action] = route[3].split(':');
+      const purchase = products.get(token);
+      if (!purchase || purchase.productId !== route[1]) {
+        send(res, 404, { error: { code: 404 } });
+      } else if (req.method === 'GET' && !action) {
+        send(res, 200, purchase);
+      } else if (req.method === 'POST' && action === 'consume') {
+        calls.push({ type: 'consume', productId: route[1], token });
+        Object.assign(purchase, { consumptionState: 1, acknowledgementState: 1 });
+        send(res, 200);
+      } else {
+        send(res, 404, { error: { code: 404 } });
+      }
+      return;
+    }
+    if (req.method === 'POST' && route[0] === 'subscriptions' && route[2] === 'tokens') {
+      const [token, action] = route[3].split(':');
+      const subscription = subscriptions.get(token);
+      if (!subscription || action !== 'acknowledge') {
+        send(res, 404, { error: { code: 404 } });
+        return;
+      }
+      calls.push({ type: 'acknowledge', productId: route[1], token });
+      subscription.acknowledgementState = 'ACKNOWLEDGEMENT_STATE_ACKNOWLEDGED';
+      send(res, 200);
+      return;
+    }
+
+    send(res, 404, { error: { code: 404 } });
+  });
+
+  await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+
+  return {
+    url: baseUrl,
+    subscriptions,
+    products,
+    calls,
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+}
@@ -0,0 +1,144 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  BarcodeMealLogRequestSchema,
+  ManualMealLogRequestSchema,
+  normalizeBarcode,
+  normalizeFoodText,
+  perServingToPer100g,
+  rankFoodMatches,
+  resolveFoodPortion,
+  scaleFoodNutrients,
+} from '@meal-log/shared';
+import { parseFoodCsv, parseNutrientValue } from '../src/services/food-import.js';
+
+const foods = [
+  {
+    id: 1,
+    names: [
+      { name: '味噌汁', locale: 'ja-JP' },
+      { name: 'みそしる', locale: 'ja-JP', isAlias: true },
+      { name: 'Miso soup', locale: 'en-US' },
+    ],
+  },
+  { id: 2, names: [{ name: 'カレーライス', locale: 'ja-JP' }] },
+  { id: 3, names: [{ name: 'カレーうどん', locale: 'ja-JP' }] },
+  { id: 4, names: [{ name: 'オートミール', locale: 'ja-JP' }] },
+];
+
+test('normalizeFoodText folds width, katakana and romaji onto one key', () => {
+  assert.equal(normalizeFoodText('カレー'), normalizeFoodText('かれー'));
+  assert.equal(normalizeFoodText('karee'), normalizeFoodText('カレー'));
+  assert.equal(normalizeFoodText('ｶﾚｰ'), 'かれ');
+  assert.equal(normalizeFoodText('misoshiru'), 'みそしる');
+  assert.equal(normalizeFoodText('Matcha Latte'), 'まっちゃらって');
+  assert.equal(normalizeFoodText('salad'), 'salad');
+});
+
+test('rankFoodMatches orders exact, prefix and substring hits', () => {
+  const ranked = rankFoodMatches('カレー', foods);
+  assert.deepEqual(
+    ranked.map((match) => match.food.id),
+    [2, 3],
+  );
+  assert.ok(ranked[0].score > 0.8);
+});
+
+test('rankFoodMatches resolves romaji and aliases', () => {
+  const [top] = rankFoodMatches('misoshiru', foods, { locale: 'ja-JP' });
+  assert.equal(top.food.id, 1);
+  assert.equal(top.matchedName.name, 'みそしる');
+});
+
+test('rankFoodMatches tolerates a single typo', () => {
+  const [top] = rankFoodMatches('おーとみる', foods);
+  assert.equal(top?.food.id, 4);
+  assert.equal(rankFoodMatches('ぎゅうどん', foods).length, 0);
+});
+
+test('scaleFoodNutrients converts per-100g values to a portion', () => {
+  assert.deepEqual(scaleFoodNutrients({ kcal: 168, protein_g: 2.5, fat_g: 0.3, carbs_g: 37.1 }, 150), {
+    kcal: 252,
+    protein_g: 3.8,
+    fat_g: 0.5,
+    carbs_g: 55.7,
+  });
+});
+
+test('resolveFoodPortion defaults to one serving and honours grams or servings', () => {
+  const food = { per100g: { kcal: 168, protein_g: 2.5, fat_g: 0.3, carbs_g: 37.1 }, servingGrams: 150 };
+  assert.equal(resolveFoodPortion(food, {}).grams, 150);
+  assert.equal(resolveFoodPortion(food, { servings: 0.5 }).grams, 75);
+  assert.deepEqual(resolveFoodPortion(food, { grams: 200 }), {
+    grams: 200,
+    totals: { kcal: 336, protein_g: 5, fat_g: 0.6, carbs_g: 74.2 },
+  });
+});
+
+test('ManualMealLogRequestSchema rejects grams and servings together', () => {
+  assert.equal(ManualMealLogRequestSchema.safeParse({ grams: 120 }).success, true);
+  assert.equal(ManualMealLogRequestSchema.safeParse({ grams: 120, servings: 1 }).success, false);
+  assert.equal(ManualMealLogRequestSchema.safeParse({ servings: 0 }).success, false);
+});
+
+test('normalizeBarcode validates check digits and widens UPC-A to EAN-13', () => {
+  assert.equal(normalizeBarcode('4006381333931'), '4006381333931');
+  assert.equal(normalizeBarcode('4006381333932'), null);
+  assert.equal(normalizeBarcode('036000291452'), '0036000291452');
+  assert.equal(normalizeBarcode('9638-5074'), '96385074');
+  assert.equal(normalizeBarcode('abc'), null);
+});
+
+test('perServingToPer100g converts label values printed per serving', () => {
+  assert.deepEqual(perServingToPer100g({ kcal: 120, protein_g: 3, fat_g: 4.5, carbs_g: 18 }, 30), {
+    kcal: 400,
+    protein_g: 10,
+    fat_g: 15,
+    carbs_g: 60,
+  });
+});
+
+test('BarcodeMealLogRequestSchema accepts a confirmed product draft', () => {
+  const product = {
+    name: 'Granola',
+    serving: { label: '1 cup', grams: 40 },
+    per_100g: { kcal: 450, protein_g: 9, fat_g: 15, carbs_g: 68 },
+  };
+  assert.equal(BarcodeMealLogRequestSchema.safeParse({ product, servings: 2 }).success, true);
+  assert.equal(BarcodeMealLogRequestSchema.safeParse({ product, grams: 10, servings: 2 }).success, false);
+});
+
+test('parseNutrientValue understands composition table notation', () => {
+  assert.equal(parseNutrientValue('Tr'), 0);
+  assert.equal(parseNutrientValue('-'), 0);
+  assert.equal(parseNutrientValue('(1.2)'), 1.2);
+  assert.equal(parseNutrientValue('1,234'), 1234);
+  assert.equal(parseNutrientValue(''), null);
+  assert.equal(parseNutrientValue('abc'), null);
+});
+
+test('parseFoodCsv maps generic rows and reports skipped lines', () => {
+  const csv = [
+    'code,name,aliases,kcal,protein_g,fat_g,carbs_g,serving_grams,serving_label,locale',
+    'a1,"ご飯, 白米",ごはん|白飯,156,2.5,0.3,37.1,150,茶碗1杯,ja-JP',
+    'a2,納豆,,190,16.5,10,12.1,,,',
+    'a3,壊れた行,,abc,1,1,1,,,',
+  ].join('\r\n');
+
+  const result = parseFoodCsv(csv, { source: 'test', locale: 'ja-JP' });
+  assert.equal(result.rows.length, 2);
+  assert.deepEqual(result.rows[0].aliases, ['ごはん', '白飯']);
+  assert.equal(result.rows[0].name, 'ご飯, 白米');
+  assert.equal(result.rows[0].serving_grams, 150);
+  assert.equal(result.rows[1].serving_grams, null);
+  assert.equal(result.rows[1].locale, 'ja-JP');
+  assert.deepEqual(result.skipped, [{ line: 4, reason: 'invalid nutrient value' }]);
+});
+
+test('parseFoodCsv supports the MEXT preset', () => {
+  const csv = '食品番号,食品名,別名,エネルギー（kcal）,たんぱく質,脂質,炭水化物\n01088,こめ [水稲めし] 精白米 うるち米,ごはん,156,2.5,0.3,37.1\n';
+  const result = parseFoodCsv(csv, { source: 'mext', locale: 'ja-JP', preset: 'mext' });
+  assert.equal(result.rows[0].source_code, '01088');
+  assert.equal(result.rows[0].kcal_per_100g, 156);
+  assert.deepEqual(result.rows[0].aliases, ['ごはん']);
+});
@@ -0,0 +1,115 @@
+import './test-env.ts';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync } from 'node:crypto';
+import test from 'node:test';
+import { startFakeGooglePlay } from './fake-google-play.js';
+
+const PACKAGE_NAME = 'com.meallog.app';
+const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const fake = await startFakeGooglePlay({ packageName: PACKAGE_NAME, publicKey });
+
+process.env.GOOGLE_PLAY_PACKAGE_NAME = PACKAGE_NAME;
+process.env.GOOGLE_PLAY_API_BASE_URL = fake.url;
+process.env.GOOGLE_PLAY_SERVICE_ACCOUNT = JSON.stringify({
+  client_email: 'play-verifier@meal-log.iam.gserviceaccount.com',
+  private_key: privateKey.export({ type: 'pkcs8', format: 'pem' }),
+  token_uri: `${fake.url}/token`,
+});
+
+const { decodePlayNotification, finalizeGooglePlayPurchase, verifyGooglePlayPurchase } =
+  await import('../src/services/google-play-service.ts');
+
+test.after(() => fake.close());
+
+test('subscriptions are verified through the Developer API and acknowledged', async () => {
+  fake.subscriptions.set('sub-token', {
+    subscriptionState: 'SUBSCRIPTION_STATE_ACTIVE',
+    startTime: '2026-10-01T00:00:00Z',
+    latestOrderId: 'GPA.1234-5678-9012-34567..1',
+    acknowledgementState: 'ACKNOWLEDGEMENT_STATE_PENDING',
+    lineItems: [{ productId: 'com.meallog.premium.monthly', expiryTime: '2026-11-01T00:00:00Z' }],
+  });
+
+  const verification = await verifyGooglePlayPurchase({
+    productId: 'com.meallog.premium.monthly',
+    purchaseToken: 'sub-token',
+  });
+  assert.equal(verification.transactionId, 'GPA.1234-5678-9012-34567..1');
+  assert.equal(verification.originalTransactionId, 'sub-token');
+  assert.equal(verification.productId, 'com.meallog.premium.monthly');
+  assert.equal(verification.purchaseDate.toISOString(), '2026-10-01T00:00:00.000Z');
+  assert.equal(verification.expiresDate.toISOString(), '2026-11-01T00:00:00.000Z');
+  assert.equal(verification.environment, 'PRODUCTION');
+
+  await finalizeGooglePlayPurchase(verification);
+  assert.deepEqual(
+    fake.calls.find((call) => call.type === 'acknowledge'),
+    {
+      type: 'acknowledge',
+      productId: 'com.meallog.premium.monthly',
+      token: 'sub-token',
+    },
+  );
+  const tokenCall = fake.calls.find((call) => call.type === 'token');
+  assert.equal(tokenCall.scope, 'https://www.googleapis.com/auth/androidpublisher');
+  assert.equal(tokenCall.issuer, 'play-verifier@meal-log.iam.gserviceaccount.com');
+});
+
+test('credit packs are consumed once verified and pending or unknown purchases are rejected', async () => {
+  fake.products.set('credit-token', {
+    productId: 'com.meallog.credits.100',
+    orderId: 'GPA.9999-0000-1111-22222',
+    purchaseTimeMillis: '1791590400000',
+    purchaseState: 0,
+    consumptionState: 0,
+    acknowledgementState: 0,
+    purchaseType: 0,
+  });
+  fake.products.set('pending-token', { productId: 'com.meallog.credits.100', purchaseState: 2 });
+
+  const verification = await verifyGooglePlayPurchase({
+    productId: 'com.meallog.credits.100',
+    purchaseToken: 'credit-token',
+  });
+  assert.equal(verification.transactionId, 'GPA.9999-0000-1111-22222');
+  assert.equal(verification.quantity, 1);
+  assert.equal(verification.environment, 'SANDBOX');
+  assert.equal(verification.expiresDate, null);
+
+  await finalizeGooglePlayPurchase(verification);
+  assert.ok(fake.calls.some((call) => call.type === 'consume' && call.token === 'credit-token'));
+
+  await assert.rejects(
+    verifyGooglePlayPurchase({
+      productId: 'com.meallog.credits.100',
+      purchaseToken: 'pending-token',
+    }),
+    (error) => error.statusCode === 400 && /保留中/.test(error.message),
+  );
+  await assert.rejects(
+    verifyGooglePlayPurchase({
+      productId: 'com.meallog.credits.100',
+      purchaseToken: 'forged-token',
+    }),
+    (error) => error.statusCode === 400 && error.cause?.status === 404,
+  );
+});
+
+test('real-time developer notifications are unwrapped from the Pub/Sub envelope', () => {
+  const notification = {
+    version: '1.0',
+    packageName: PACKAGE_NAME,
+    eventTimeMillis: '1791590400000',
+    subscriptionNotification: { version: '1.0', notificationType: 2, purchaseToken: 'sub-token' },
+  };
+  const body = {
+    message: {
+      data: Buffer.from(JSON.stringify(notification)).toString('base64'),
+      messageId: '136969346945',
+    },
+    subscription: 'projects/meal-log/subscriptions/play-rtdn',
+  };
+  assert.deepEqual(decodePlayNotification(body), notification);
+  assert.equal(decodePlayNotification({ message: { data: 'not json' } }), null);
+  assert.equal(decodePlayNotification({}), null);
+});
@@ -0,0 +1,35 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  DEFAULT_HYDRATION_CUP_SIZES_ML,
+  DEFAULT_HYDRATION_TARGET_ML,
+  computeHydrationTargetMl,
+  expectedHydrationByMinutes,
+  isBehindHydrationPace,
+  resolveHydrationCupSizes,
+} from '@meal-log/shared';
+
+test('computeHydrationTargetMl scales with body weight within sane bounds', () => {
+  assert.equal(computeHydrationTargetMl(60), 2100);
+  assert.equal(computeHydrationTargetMl(73), 2550);
+  assert.equal(computeHydrationTargetMl(20), 1200);
+  assert.equal(computeHydrationTargetMl(200), 4000);
+  assert.equal(computeHydrationTargetMl(null), DEFAULT_HYDRATION_TARGET_ML);
+});
+
+test('resolveHydrationCupSizes sorts, de-duplicates and falls back to defaults', () => {
+  assert.deepEqual(resolveHydrationCupSizes([500, 200, 500, 0, 330, 1000, 750]), [200, 330, 500, 750]);
+  assert.deepEqual(resolveHydrationCupSizes([]), [...DEFAULT_HYDRATION_CUP_SIZES_ML]);
+  assert.deepEqual(resolveHydrationCupSizes(null), [...DEFAULT_HYDRATION_CUP_SIZES_ML]);
+});
+
+test('isBehindHydrationPace only nudges during the day when clearly behind', () => {
+  assert.equal(expectedHydrationByMinutes(2600, 8 * 60), 0);
+  assert.equal(expectedHydrationByMinutes(2600, 14 * 60 + 30), 1300);
+  assert.equal(expectedHydrationByMinutes(2600, 23 * 60), 2600);
+
+  assert.equal(isBehindHydrationPace({ totalMl: 500, targetMl: 2600, minutes: 14 * 60 + 30 }), true);
+  assert.equal(isBehindHydrationPace({ totalMl: 1000, targetMl: 2600, minutes: 14 * 60 + 30 }), false);
+  assert.equal(isBehindHydrationPace({ totalMl: 0, targetMl: 2600, minutes: 7 * 60 }), false);
+  assert.equal(isBehindHydrationPace({ totalMl: 0, targetMl: 2600, minutes: 21 * 60 }), false);
+});
@@ -15,6 +15,11 @@ const originalCounterFindUnique = prismaAny.aiUsageCounter.findUnique;
 const originalGrantFindFirst = prismaAny.premiumGrant.findFirst;
 const originalGrantFindMany = prismaAny.premiumGrant.findMany;
 const originalGrantCreate = prismaAny.premiumGrant.create;
+const originalSubscriptionFindMany = prismaAny.subscription.findMany;
+
+test.beforeEach(() => {
+  prismaAny.subscription.findMany = async () => [];
+});
 
 test.afterEach(() => {
   prismaAny.iapReceipt.findUnique = originalReceiptFindUnique;
@@ -25,6 +30,7 @@ test.afterEach(() => {
   prismaAny.premiumGrant.findFirst = originalGrantFindFirst;
   prismaAny.premiumGrant.findMany = originalGrantFindMany;
   prismaAny.premiumGrant.create = originalGrantCreate;
+  prismaAny.subscription.findMany = originalSubscriptionFindMany;
 });
 
 test('processIapPurchase grants credits in test mode', async () => {
@@ -158,12 +164,20 @@ test('processIapPurchase uses receipt expiry when available', async () => {
 
   const grants = [];
   let grantPayload = null;
+  let subscriptionPayload = null;
 
   prismaAny.$transaction = async (fn) =>
     fn({
       iapReceipt: {
         create: async ({ data }) => ({ ...data, id: 3 }),
       },
+      subscription: {
+        findUnique: async () => null,
+        upsert: async ({ create }) => {
+          subscriptionPayload = create;
+          return create;
+        },
+      },
       user: {
         update: async () => ({ aiCredits: 0 }),
       },
@@ -213,5 +227,8 @@ test('processIapPurchase uses receipt expiry when available', async () => {
   assert.equal(grantPayload.days, 7);
   assert.equal(grantPayload.startDate.toISOString(), purchaseDate.toISOString());
   assert.equal(grantPayload.endDate.toISOString(), expiresDate.toISOString());
+  assert.equal(subscriptionPayload.originalTransactionId, 'txn-premium-trial-1');
+  assert.equal(subscriptionPayload.status, 'ACTIVE');
+  assert.equal(subscriptionPayload.expiresAt.toISOString(), expiresDate.toISOString());
   assert.equal(result.premiumStatus.isPremium, true);
 });
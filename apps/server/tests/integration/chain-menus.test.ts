@@ -0,0 +1,41 @@
+import '../test-env.ts';
+
+import test, { after, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { prisma } from '../../src/db/prisma.ts';
+import { findChainMenuMatch, importChainMenuItems } from '../../src/services/chain-menu-service.ts';
+
+const row = {
+  source: 'test',
+  locale: 'ja-JP' as const,
+  chain_aliases: [],
+  aliases: [],
+  protein_g: 20,
+  fat_g: 20,
+  carbs_g: 90,
+};
+
+before(async () => {
+  await prisma.$executeRawUnsafe('TRUNCATE "ChainMenuItem" CASCADE');
+
+  await importChainMenuItems([
+    { ...row, source_code: 'yoshinoya-gyudon', chain: '吉野家', name: '牛丼', kcal: 650 },
+    { ...row, source_code: 'yoshinoya-salad', chain: '吉野家', name: 'サラダ', kcal: 40 },
+    { ...row, source_code: 'matsuya-gyumeshi', chain: '松屋', name: '牛めし', kcal: 700 },
+  ]);
+});
+
+after(async () => {
+  await prisma.$disconnect();
+});
+
+test('findChainMenuMatch finds the item of the chain named in the message', async () => {
+  const item = await findChainMenuMatch('吉野家で牛丼を食べた');
+  assert.equal(item?.chain, '吉野家');
+  assert.equal(item?.name, '牛丼');
+});
+
+test('findChainMenuMatch leaves messages naming no imported chain to the model', async () => {
+  assert.equal(await findChainMenuMatch('すき家で牛丼を食べた'), null);
+  assert.equal(await findChainMenuMatch('松屋で牛丼を食べた'), null);
+});
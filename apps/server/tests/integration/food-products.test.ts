@@ -0,0 +1,77 @@
+import '../test-env.ts';
+
+import test, { after, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { prisma } from '../../src/db/prisma.ts';
+import { logFoodProduct, lookupFoodProduct } from '../../src/services/food-product-service.ts';
+
+const BARCODE = '4901234567894';
+let contributorId = 0;
+let otherUserId = 0;
+
+function draft(name: string, kcal: number) {
+  return {
+    name,
+    brand: null,
+    serving: { label: '1本', grams: 500 },
+    per_100g: { kcal, protein_g: 0, fat_g: 0, carbs_g: kcal / 4 },
+  };
+}
+
+before(async () => {
+  await prisma.$executeRawUnsafe('TRUNCATE "MealLog" CASCADE');
+  await prisma.$executeRawUnsafe('TRUNCATE "IngestRequest" CASCADE');
+  await prisma.$executeRawUnsafe('TRUNCATE "FoodProduct" CASCADE');
+  await prisma.$executeRawUnsafe('TRUNCATE "User" CASCADE');
+
+  const contributor = await prisma.user.create({
+    data: { email: 'products-first@example.com', passwordHash: 'unused' },
+  });
+  const other = await prisma.user.create({
+    data: { email: 'products-second@example.com', passwordHash: 'unused' },
+  });
+  contributorId = contributor.id;
+  otherUserId = other.id;
+});
+
+after(async () => {
+  await prisma.$disconnect();
+});
+
+test('the first confirmed draft becomes the shared product', async () => {
+  await logFoodProduct({
+    userId: contributorId,
+    code: BARCODE,
+    request: { product: draft('緑茶', 0) },
+    locale: 'ja-JP',
+  });
+
+  const lookup = await lookupFoodProduct(otherUserId, BARCODE);
+  assert.equal(lookup.product?.name, '緑茶');
+  assert.equal(lookup.product?.confirmed, true);
+});
+
+test('a later draft is kept per user and leaves the shared product alone', async () => {
+  await logFoodProduct({
+    userId: otherUserId,
+    code: BARCODE,
+    request: { product: draft('甘い緑茶', 40) },
+    locale: 'ja-JP',
+  });
+
+  const shared = await prisma.foodProduct.findUniqueOrThrow({ where: { barcode: BARCODE } });
+  assert.equal(shared.name, '緑茶');
+  assert.equal(shared.kcalPer100g, 0);
+  assert.equal(shared.contributedById, contributorId);
+
+  assert.equal((await lookupFoodProduct(otherUserId, BARCODE)).product?.name, '甘い緑茶');
+  assert.equal((await lookupFoodProduct(contributorId, BARCODE)).product?.name, '緑茶');
+
+  const logged = await logFoodProduct({
+    userId: otherUserId,
+    code: BARCODE,
+    request: {},
+    locale: 'ja-JP',
+  });
+  assert.equal(logged.totals.kcal, 200);
+});
@@ -0,0 +1,99 @@
+import '../test-env.ts';
+
+import test, { after, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { prisma } from '../../src/db/prisma.ts';
+import { env } from '../../src/env.ts';
+import { processIapPurchase } from '../../src/services/iap-service.ts';
+import {
+  processAppStoreNotification,
+  replayAppStoreNotifications,
+} from '../../src/services/iap-notification-service.ts';
+
+const ANNUAL = 'com.meallog.premium.annual';
+let userId = 0;
+
+// Unsigned JWS; offline verification only decodes it.
+const sign = (payload: Record<string, unknown>) =>
+  [{ alg: 'none' }, payload, 'signature']
+    .map((part) => Buffer.from(JSON.stringify(part)).toString('base64url'))
+    .join('.');
+
+function purchase(transactionId: string) {
+  const receipt = {
+    transactionId,
+    productId: ANNUAL,
+    quantity: 1,
+    purchaseDate: '2026-10-01T00:00:00.000Z',
+    expiresDate: '2027-10-01T00:00:00.000Z',
+  };
+  return processIapPurchase({
+    userId,
+    platform: 'APP_STORE',
+    productId: ANNUAL,
+    transactionId,
+    receiptData: Buffer.from(JSON.stringify(receipt)).toString('base64'),
+  });
+}
+
+before(async () => {
+  await prisma.$executeRawUnsafe('TRUNCATE "AppStoreNotification" CASCADE');
+  await prisma.$executeRawUnsafe('TRUNCATE "Subscription" CASCADE');
+  await prisma.$executeRawUnsafe('TRUNCATE "PremiumGrant" CASCADE');
+  await prisma.$executeRawUnsafe('TRUNCATE "IapReceipt" CASCADE');
+  await prisma.$executeRawUnsafe('TRUNCATE "User" CASCADE');
+
+  const user = await prisma.user.create({
+    data: { email: 'iap-replay@example.com', passwordHash: 'unused' },
+  });
+  userId = user.id;
+});
+
+after(async () => {
+  await prisma.$disconnect();
+});
+
+test('replay rebuilds notified subscriptions without touching purchase-only ones or re-verifying', async (t) => {
+  await purchase('replay-purchase-only');
+  await purchase('replay-notified');
+  const result = await processAppStoreNotification(
+    sign({
+      notificationType: 'DID_RENEW',
+      notificationUUID: 'replay-renewal',
+      signedDate: Date.parse('2027-10-01T00:00:00Z'),
+      data: {
+        signedTransactionInfo: sign({
+          transactionId: 'replay-notified-2',
+          originalTransactionId: 'replay-notified',
+          productId: ANNUAL,
+          purchaseDate: Date.parse('2027-10-01T00:00:00Z'),
+          expiresDate: Date.parse('2028-10-01T00:00:00Z'),
+        }),
+      },
+    }),
+  );
+  assert.deepEqual(result, { handled: true });
+  await prisma.subscription.update({
+    where: { originalTransactionId: 'replay-notified' },
+    data: { status: 'EXPIRED' },
+  });
+
+  // Stored rows were verified on arrival; a replay must not depend on checking them again.
+  const offline = env.IAP_OFFLINE_VERIFICATION;
+  env.IAP_OFFLINE_VERIFICATION = false;
+  t.after(() => {
+    env.IAP_OFFLINE_VERIFICATION = offline;
+  });
+  const summary = await replayAppStoreNotifications();
+  assert.deepEqual(summary, { processed: 1, handled: 1, ignored: 0, failed: 0 });
+
+  const notified = await prisma.subscription.findUniqueOrThrow({
+    where: { originalTransactionId: 'replay-notified' },
+  });
+  assert.equal(notified.status, 'ACTIVE');
+  assert.equal(notified.expiresAt?.toISOString(), '2028-10-01T00:00:00.000Z');
+  const purchaseOnly = await prisma.subscription.findUniqueOrThrow({
+    where: { originalTransactionId: 'replay-purchase-only' },
+  });
+  assert.equal(purchaseOnly.status, 'ACTIVE');
+});
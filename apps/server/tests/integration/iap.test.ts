@@ -123,6 +123,50 @@ test('iap purchase grants premium and usage update', async (t) => {
   assert.equal(secondBody.premiumStatus.grants.length, 1);
 });
 
+test('concurrent retries of one purchase grant it once', async (t) => {
+  if (!dbAvailable) {
+    t.skip('database not available');
+    return;
+  }
+  await login();
+
+  const receipt = {
+    transactionId: 'txn-integration-retry',
+    productId: 'com.meallog.premium.annual',
+    quantity: 1,
+    purchaseDate: new Date().toISOString(),
+    environment: 'sandbox',
+  } as const;
+  const request = {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      platform: 'APP_STORE',
+      productId: receipt.productId,
+      transactionId: receipt.transactionId,
+      receiptData: Buffer.from(JSON.stringify(receipt)).toString('base64'),
+      environment: 'sandbox',
+      quantity: receipt.quantity,
+    }),
+  };
+
+  const results = await Promise.all([
+    fetchWithSession('/api/iap/purchase', request),
+    fetchWithSession('/api/iap/purchase', request),
+  ]);
+
+  assert.deepEqual(
+    results.map(({ response }) => response.status),
+    [200, 200],
+  );
+  const receipts = await prisma.iapReceipt.findMany({
+    where: { transactionId: receipt.transactionId },
+    include: { premiumGrants: true },
+  });
+  assert.equal(receipts.length, 1);
+  assert.equal(receipts[0]?.premiumGrants.length, 1);
+});
+
 test('rejects forged receipts', async (t) => {
   if (!dbAvailable) {
     t.skip('database not available');
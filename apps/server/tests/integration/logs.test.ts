@@ -4,6 +4,7 @@ import test, { after, before } from 'node:test';
 import assert from 'node:assert/strict';
 import { prisma } from '../../src/db/prisma.ts';
 import { createApp } from '../../src/app.ts';
+import { clarifyMealLog, updateMealLog } from '../../src/services/log-service.ts';
 
 process.env.USER_PLAN_OVERRIDE = 'STANDARD';
 
@@ -256,6 +257,177 @@ test('delete and restore keep period history intact', async () => {
   assert.equal(detail.body.item.time_history.length >= 1, true);
 });
 
+test('concurrent detail reads create the items of an older log once', async () => {
+  await loginAsDemo();
+  await prisma.$executeRawUnsafe('TRUNCATE "MealLog" CASCADE');
+
+  const response = {
+    dish: '親子丼',
+    confidence: 0.8,
+    totals: { kcal: 700, protein_g: 30, fat_g: 20, carbs_g: 95 },
+    items: [
+      { name: 'ごはん', grams: 250, protein_g: 6, fat_g: 1, carbs_g: 90 },
+      { name: '鶏肉と卵', grams: 150, protein_g: 24, fat_g: 19, carbs_g: 5 },
+    ],
+    warnings: [],
+  };
+  const log = await prisma.mealLog.create({
+    data: {
+      userId: demoUserId,
+      foodItem: '親子丼',
+      calories: 700,
+      proteinG: 30,
+      fatG: 20,
+      carbsG: 95,
+      aiRaw: {
+        ...response,
+        locale: 'ja-JP',
+        translations: {
+          'ja-JP': response,
+          'en-US': {
+            ...response,
+            dish: 'Oyakodon',
+            items: [
+              { ...response.items[0], name: 'Rice' },
+              { ...response.items[1], name: 'Chicken and egg' },
+            ],
+          },
+        },
+      },
+    },
+  });
+
+  const [ja, en] = await Promise.all([
+    fetchWithSession(`/api/log/${log.id}`, { headers: { 'Accept-Language': 'ja-JP' } }),
+    fetchWithSession(`/api/log/${log.id}`, { headers: { 'Accept-Language': 'en-US' } }),
+  ]);
+  assert.equal(ja.response.status, 200);
+  assert.equal(en.response.status, 200);
+
+  const items = await prisma.mealLogItem.findMany({
+    where: { mealLogId: log.id },
+    orderBy: { orderIndex: 'asc' },
+  });
+  assert.deepEqual(
+    items.map((item) => item.name),
+    ['ごはん', '鶏肉と卵'],
+  );
+});
+
+test('deleting an item scales the micronutrients with the calories kept', async () => {
+  const response = {
+    dish: '焼き魚定食',
+    confidence: 0.8,
+    totals: { kcal: 700, protein_g: 35, fat_g: 15, carbs_g: 100 },
+    micros: { salt_g: 3.5, fiber_g: 7 },
+    items: [
+      { name: 'ごはんと味噌汁', grams: 350, protein_g: 10, fat_g: 5, carbs_g: 95 },
+      { name: '焼き魚', grams: 100, protein_g: 25, fat_g: 10, carbs_g: 5 },
+    ],
+    warnings: [],
+  };
+  const log = await prisma.mealLog.create({
+    data: {
+      userId: demoUserId,
+      foodItem: response.dish,
+      calories: 700,
+      proteinG: 35,
+      fatG: 15,
+      carbsG: 100,
+      micros: response.micros,
+      aiRaw: {
+        ...response,
+        locale: 'ja-JP',
+        translations: { 'ja-JP': response, 'en-US': { ...response, dish: 'Grilled fish set' } },
+      },
+      items: {
+        create: [
+          { name: 'ごはんと味噌汁', grams: 350, calories: 500, proteinG: 10, fatG: 5, carbsG: 95 },
+          { name: '焼き魚', grams: 100, calories: 200, proteinG: 25, fatG: 10, carbsG: 5, orderIndex: 1 },
+        ],
+      },
+    },
+    include: { items: { orderBy: { orderIndex: 'asc' } } },
+  });
+  const kept = log.items[0];
+
+  await updateMealLog({
+    logId: log.id,
+    userId: demoUserId,
+    updates: {
+      items: [
+        {
+          id: kept.id,
+          name: kept.name,
+          grams: kept.grams,
+          calories: kept.calories,
+          protein_g: kept.proteinG,
+          fat_g: kept.fatG,
+          carbs_g: kept.carbsG,
+        },
+      ],
+    },
+  });
+
+  const saved = await prisma.mealLog.findUniqueOrThrow({ where: { id: log.id } });
+  assert.equal(saved.calories, 500);
+  const micros = saved.micros as Record<string, number>;
+  assert.equal(micros.salt_g, 2.5);
+  assert.equal(micros.fiber_g, 5);
+  const aiRaw = saved.aiRaw as {
+    micros: Record<string, number>;
+    translations: Record<string, { micros: Record<string, number> }>;
+  };
+  assert.equal(aiRaw.micros.salt_g, 2.5);
+  assert.equal(aiRaw.translations['ja-JP'].micros.salt_g, 2.5);
+  assert.equal(aiRaw.translations['en-US'].micros.fiber_g, 5);
+});
+
+test('a voice memo held for clarification keeps its recording on the answered log', async () => {
+  const draft = {
+    dish: '牛丼',
+    confidence: 0.4,
+    totals: { kcal: 650, protein_g: 20, fat_g: 20, carbs_g: 90 },
+    items: [{ name: '牛丼', grams: 350, protein_g: 20, fat_g: 20, carbs_g: 90 }],
+    warnings: [],
+  };
+  const audio = {
+    base64: Buffer.from('voice memo').toString('base64'),
+    mimeType: 'audio/m4a',
+    sizeBytes: 10,
+  };
+  await prisma.ingestRequest.create({
+    data: {
+      userId: demoUserId,
+      requestKey: 'clarify-voice',
+      status: 'needs_clarification',
+      clarification: {
+        message: '牛丼を食べた',
+        locale: 'ja-JP',
+        timezone: 'Asia/Tokyo',
+        questions: [{ id: 'q1', question: 'サイズは？', options: ['並盛', '大盛'] }],
+        draft,
+        images: [],
+        audio,
+      },
+    },
+  });
+
+  const saved = await clarifyMealLog({
+    userId: demoUserId,
+    requestKey: 'clarify-voice',
+    payload: { answers: [] },
+  });
+
+  const assets = await prisma.mediaAsset.findMany({ where: { mealLogId: saved.logId } });
+  assert.deepEqual(
+    assets.map((asset) => [asset.mimeType, asset.url]),
+    [['audio/m4a', `data:audio/m4a;base64,${audio.base64}`]],
+  );
+  const log = await prisma.mealLog.findUniqueOrThrow({ where: { id: saved.logId } });
+  assert.equal((log.aiRaw as { meta?: { transcript?: string } }).meta?.transcript, '牛丼を食べた');
+});
+
 test('streak endpoint returns streak data', async () => {
   await loginAsDemo();
   const streak = await fetchWithSession('/api/streak');
@@ -0,0 +1,87 @@
+import '../test-env.ts';
+
+import test, { after, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { prisma } from '../../src/db/prisma.ts';
+import { logCatalogueFood } from '../../src/services/food-catalogue-service.ts';
+
+let userId = 0;
+let foodId = 0;
+
+before(async () => {
+  await prisma.$executeRawUnsafe('TRUNCATE "MealLog" CASCADE');
+  await prisma.$executeRawUnsafe('TRUNCATE "IngestRequest" CASCADE');
+  await prisma.$executeRawUnsafe('TRUNCATE "Food" CASCADE');
+  await prisma.$executeRawUnsafe('TRUNCATE "User" CASCADE');
+
+  const user = await prisma.user.create({
+    data: { email: 'manual-logs@example.com', passwordHash: 'unused' },
+  });
+  userId = user.id;
+
+  const food = await prisma.food.create({
+    data: {
+      source: 'test',
+      sourceCode: 'rice',
+      kcalPer100g: 168,
+      proteinPer100g: 2.5,
+      fatPer100g: 0.3,
+      carbsPer100g: 37.1,
+      servingGrams: 150,
+      names: { create: [{ locale: 'ja-JP', name: 'ごはん', normalized: 'ごはん' }] },
+    },
+  });
+  foodId = food.id;
+});
+
+after(async () => {
+  await prisma.$disconnect();
+});
+
+function logRice(idempotencyKey?: string) {
+  return logCatalogueFood({ userId, foodId, request: {}, locale: 'ja-JP', idempotencyKey });
+}
+
+test('a repeated idempotency key returns the first manual log', async () => {
+  const first = await logRice('rice-tap-1');
+  const second = await logRice('rice-tap-1');
+
+  assert.equal(first.idempotent, false);
+  assert.equal(first.idempotency_key, 'rice-tap-1');
+  assert.equal(second.idempotent, true);
+  assert.equal(second.logId, first.logId);
+  assert.equal(await prisma.mealLog.count({ where: { userId, deletedAt: null } }), 1);
+});
+
+test('concurrent requests with one key create a single log', async () => {
+  const results = await Promise.all([logRice('rice-tap-2'), logRice('rice-tap-2')]);
+
+  assert.equal(results[0].logId, results[1].logId);
+  assert.equal(
+    await prisma.ingestRequest.count({ where: { userId, requestKey: 'rice-tap-2' } }),
+    1,
+  );
+  assert.equal(await prisma.mealLog.count({ where: { userId, deletedAt: null } }), 2);
+});
+
+test('requests without a key still get a key that resolves to their log', async () => {
+  const result = await logRice();
+
+  assert.match(result.idempotency_key, new RegExp(`^food-${foodId}-`));
+  const ingest = await prisma.ingestRequest.findUnique({
+    where: { userId_requestKey: { userId, requestKey: result.idempotency_key } },
+  });
+  assert.equal(ingest?.logId, result.logId);
+});
+
+test('a key still held by an AI log request is answered with 409', async () => {
+  await prisma.ingestRequest.create({
+    data: { userId, requestKey: 'rice-tap-3', status: 'needs_clarification' },
+  });
+
+  await assert.rejects(logRice('rice-tap-3'), { statusCode: 409, code: 'INGEST_IN_PROGRESS' });
+  assert.equal(
+    await prisma.ingestRequest.count({ where: { userId, requestKey: 'rice-tap-3' } }),
+    1,
+  );
+});
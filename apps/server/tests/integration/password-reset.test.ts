@@ -0,0 +1,109 @@
+import '../test-env.ts';
+
+import test, { after, before } from 'node:test';
+import assert from 'node:assert/strict';
+import argon2 from 'argon2';
+import { prisma } from '../../src/db/prisma.ts';
+import {
+  AUTH_TOKEN_RESEND_INTERVAL_MS,
+  AUTH_TOKEN_TTL_MS,
+  consumeAuthToken,
+  issueAuthToken,
+} from '../../src/services/auth-token-service.ts';
+import { requestPasswordReset, resetPassword } from '../../src/services/auth-service.ts';
+
+let userId = 0;
+
+before(async () => {
+  await prisma.$executeRawUnsafe('TRUNCATE "AuthToken" CASCADE');
+  await prisma.$executeRawUnsafe('TRUNCATE "Session" CASCADE');
+  await prisma.$executeRawUnsafe('TRUNCATE "User" CASCADE');
+
+  const user = await prisma.user.create({
+    data: { email: 'reset@example.com', passwordHash: 'unused' },
+  });
+  userId = user.id;
+});
+
+after(async () => {
+  await prisma.$disconnect();
+});
+
+async function clearTokens() {
+  await prisma.authToken.deleteMany({ where: { userId } });
+}
+
+test('issueAuthToken throttles resends and retires the earlier token', async () => {
+  await clearTokens();
+  const now = new Date();
+  const first = await issueAuthToken(userId, 'password_reset', now);
+  assert.ok(first);
+  assert.equal(await issueAuthToken(userId, 'password_reset', now), null);
+
+  const later = new Date(now.getTime() + AUTH_TOKEN_RESEND_INTERVAL_MS + 1000);
+  const second = await issueAuthToken(userId, 'password_reset', later);
+  assert.ok(second);
+
+  await assert.rejects(consumeAuthToken(first, 'password_reset', later), { statusCode: 400 });
+  assert.equal(await consumeAuthToken(second, 'password_reset', later), userId);
+});
+
+test('concurrent requests issue a single token', async () => {
+  await clearTokens();
+  const now = new Date();
+  const tokens = await Promise.all([
+    issueAuthToken(userId, 'password_reset', now),
+    issueAuthToken(userId, 'password_reset', now),
+  ]);
+
+  assert.equal(tokens.filter(Boolean).length, 1);
+  assert.equal(await prisma.authToken.count({ where: { userId } }), 1);
+});
+
+test('consumeAuthToken accepts a token once, for its own purpose, before it expires', async () => {
+  await clearTokens();
+  const now = new Date();
+  const token = await issueAuthToken(userId, 'password_reset', now);
+  assert.ok(token);
+
+  await assert.rejects(consumeAuthToken(token, 'email_verification', now), { statusCode: 400 });
+  const expired = new Date(now.getTime() + AUTH_TOKEN_TTL_MS.password_reset);
+  await assert.rejects(consumeAuthToken(token, 'password_reset', expired), { statusCode: 400 });
+
+  const results = await Promise.allSettled([
+    consumeAuthToken(token, 'password_reset', now),
+    consumeAuthToken(token, 'password_reset', now),
+  ]);
+  assert.equal(results.filter((result) => result.status === 'fulfilled').length, 1);
+  await assert.rejects(consumeAuthToken(token, 'password_reset', now), { statusCode: 400 });
+});
+
+test('resetPassword sets the password, verifies the email and revokes every session', async () => {
+  await clearTokens();
+  const expiresAt = new Date(Date.now() + 60 * 60 * 1000);
+  await prisma.session.createMany({
+    data: [
+      { sid: 'reset-cookie', userId, data: '{}', expiresAt },
+      { sid: 'reset-token', userId, kind: 'token', data: '{}', expiresAt },
+      { sid: 'reset-legacy', data: `{"userId":${userId}}`, expiresAt },
+    ],
+  });
+  const token = await issueAuthToken(userId, 'password_reset');
+  assert.ok(token);
+
+  const user = await resetPassword({ token, password: 'new-password-123' });
+  assert.equal(user.emailVerified, true);
+
+  const stored = await prisma.user.findUniqueOrThrow({ where: { id: userId } });
+  assert.equal(await argon2.verify(stored.passwordHash, 'new-password-123'), true);
+  assert.equal(await prisma.session.count({ where: { sid: { startsWith: 'reset-' } } }), 0);
+  await assert.rejects(resetPassword({ token, password: 'another-password' }), {
+    statusCode: 400,
+  });
+});
+
+test('requestPasswordReset answers for unknown addresses without issuing a token', async () => {
+  await clearTokens();
+  await requestPasswordReset('nobody@example.com');
+  assert.equal(await prisma.authToken.count(), 0);
+});
@@ -0,0 +1,165 @@
+import '../test-env.ts';
+
+import test, { after, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { prisma } from '../../src/db/prisma.ts';
+import {
+  createPlannedMeal,
+  deletePlannedMeal,
+  markPlannedMealEaten,
+  updatePlannedMeal,
+} from '../../src/services/planned-meal-service.ts';
+import { createRecipe } from '../../src/services/recipe-service.ts';
+
+let ownerId = 0;
+let strangerId = 0;
+let recipeId = 0;
+
+before(async () => {
+  await prisma.$executeRawUnsafe('TRUNCATE "PlannedMeal" CASCADE');
+  await prisma.$executeRawUnsafe('TRUNCATE "Recipe" CASCADE');
+  await prisma.$executeRawUnsafe('TRUNCATE "MealLog" CASCADE');
+  await prisma.$executeRawUnsafe('TRUNCATE "IngestRequest" CASCADE');
+  await prisma.$executeRawUnsafe('TRUNCATE "User" CASCADE');
+
+  const owner = await prisma.user.create({
+    data: { email: 'planner-owner@example.com', passwordHash: 'unused' },
+  });
+  const stranger = await prisma.user.create({
+    data: { email: 'planner-stranger@example.com', passwordHash: 'unused' },
+  });
+  ownerId = owner.id;
+  strangerId = stranger.id;
+
+  const { recipe } = await createRecipe(
+    ownerId,
+    {
+      name: '豚汁',
+      servings: 4,
+      ingredients: [
+        {
+          name: '具材',
+          grams: 800,
+          totals: { kcal: 800, protein_g: 40, fat_g: 36, carbs_g: 60 },
+        },
+      ],
+    },
+    'ja-JP',
+  );
+  recipeId = recipe.id;
+});
+
+after(async () => {
+  await prisma.$disconnect();
+});
+
+function planText(userId = ownerId) {
+  return createPlannedMeal(userId, {
+    date: '2026-10-20',
+    meal_period: 'lunch',
+    name: 'サラダチキン',
+    totals: { kcal: 120, protein_g: 24, fat_g: 2, carbs_g: 1 },
+  });
+}
+
+test('recipe plans snapshot the portion and cannot reference another user’s recipe', async () => {
+  const plan = await createPlannedMeal(ownerId, {
+    date: '2026-10-20',
+    meal_period: 'dinner',
+    recipe_id: recipeId,
+    servings: 2,
+  });
+  assert.equal(plan.source, 'recipe');
+  assert.equal(plan.name, '豚汁');
+  assert.equal(plan.totals.kcal, 400);
+
+  await assert.rejects(
+    createPlannedMeal(strangerId, {
+      date: '2026-10-20',
+      meal_period: 'dinner',
+      recipe_id: recipeId,
+    }),
+    { statusCode: 404 },
+  );
+});
+
+test('plans are only editable by their owner', async () => {
+  const plan = await planText();
+
+  await assert.rejects(updatePlannedMeal(strangerId, plan.id, { servings: 2 }), {
+    statusCode: 404,
+  });
+  await assert.rejects(deletePlannedMeal(strangerId, plan.id), { statusCode: 404 });
+  await assert.rejects(
+    markPlannedMealEaten({ userId: strangerId, plannedMealId: plan.id, locale: 'ja-JP' }),
+    { statusCode: 404 },
+  );
+
+  const unchanged = await prisma.plannedMeal.findUniqueOrThrow({ where: { id: plan.id } });
+  assert.equal(unchanged.status, 'PLANNED');
+  assert.equal(unchanged.servings, 1);
+});
+
+test('markPlannedMealEaten logs the plan once even when tapped twice', async () => {
+  const plan = await planText();
+
+  const results = await Promise.allSettled([
+    markPlannedMealEaten({ userId: ownerId, plannedMealId: plan.id, locale: 'ja-JP' }),
+    markPlannedMealEaten({ userId: ownerId, plannedMealId: plan.id, locale: 'ja-JP' }),
+  ]);
+  const fulfilled = results.filter((result) => result.status === 'fulfilled');
+  const rejected = results.filter((result) => result.status === 'rejected');
+  assert.equal(fulfilled.length, 1);
+  assert.equal(rejected.length, 1);
+  assert.equal(rejected[0].reason.statusCode, 409);
+
+  const { item, logId } = fulfilled[0].value;
+  assert.equal(item.status, 'eaten');
+  assert.equal(item.meal_log_id, logId);
+  const log = await prisma.mealLog.findUniqueOrThrow({ where: { id: logId } });
+  assert.equal(log.calories, 120);
+  assert.equal(log.mealPeriod, 'LUNCH');
+
+  await assert.rejects(updatePlannedMeal(ownerId, plan.id, { servings: 2 }), { statusCode: 409 });
+});
+
+test('a failed log releases the claim so the plan can be eaten later', async () => {
+  const { recipe: foreign } = await createRecipe(
+    strangerId,
+    {
+      name: '他人のレシピ',
+      servings: 1,
+      ingredients: [
+        { name: '材料', grams: 100, totals: { kcal: 100, protein_g: 1, fat_g: 1, carbs_g: 20 } },
+      ],
+    },
+    'ja-JP',
+  );
+  // Written directly: the API would refuse to plan a recipe the user does not own.
+  const plan = await prisma.plannedMeal.create({
+    data: {
+      userId: ownerId,
+      date: new Date('2026-10-21T00:00:00.000Z'),
+      mealPeriod: 'BREAKFAST',
+      source: 'recipe',
+      recipeId: foreign.id,
+      name: '他人のレシピ',
+      calories: 100,
+      proteinG: 1,
+      fatG: 1,
+      carbsG: 20,
+    },
+  });
+  const logsBefore = await prisma.mealLog.count({ where: { userId: ownerId } });
+
+  await assert.rejects(
+    markPlannedMealEaten({ userId: ownerId, plannedMealId: plan.id, locale: 'ja-JP' }),
+    { statusCode: 404 },
+  );
+
+  const released = await prisma.plannedMeal.findUniqueOrThrow({ where: { id: plan.id } });
+  assert.equal(released.status, 'PLANNED');
+  assert.equal(released.eatenAt, null);
+  assert.equal(released.mealLogId, null);
+  assert.equal(await prisma.mealLog.count({ where: { userId: ownerId } }), logsBefore);
+});
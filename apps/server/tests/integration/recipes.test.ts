@@ -0,0 +1,150 @@
+import '../test-env.ts';
+
+import test, { after, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { prisma } from '../../src/db/prisma.ts';
+import {
+  createRecipe,
+  deleteRecipe,
+  getRecipe,
+  listRecipes,
+  logRecipe,
+  updateRecipe,
+} from '../../src/services/recipe-service.ts';
+
+let ownerId = 0;
+let strangerId = 0;
+let riceId = 0;
+
+before(async () => {
+  await prisma.$executeRawUnsafe('TRUNCATE "Recipe" CASCADE');
+  await prisma.$executeRawUnsafe('TRUNCATE "MealLog" CASCADE');
+  await prisma.$executeRawUnsafe('TRUNCATE "IngestRequest" CASCADE');
+  await prisma.$executeRawUnsafe('TRUNCATE "Food" CASCADE');
+  await prisma.$executeRawUnsafe('TRUNCATE "User" CASCADE');
+
+  const owner = await prisma.user.create({
+    data: { email: 'recipes-owner@example.com', passwordHash: 'unused' },
+  });
+  const stranger = await prisma.user.create({
+    data: { email: 'recipes-stranger@example.com', passwordHash: 'unused' },
+  });
+  ownerId = owner.id;
+  strangerId = stranger.id;
+
+  const rice = await prisma.food.create({
+    data: {
+      source: 'test',
+      sourceCode: 'rice',
+      kcalPer100g: 168,
+      proteinPer100g: 2.5,
+      fatPer100g: 0.3,
+      carbsPer100g: 37.1,
+      names: { create: [{ locale: 'ja-JP', name: 'ごはん', normalized: 'ごはん' }] },
+    },
+  });
+  riceId = rice.id;
+});
+
+after(async () => {
+  await prisma.$disconnect();
+});
+
+async function createCurry() {
+  const { recipe, usage } = await createRecipe(
+    ownerId,
+    {
+      name: 'カレーライス',
+      servings: 2,
+      ingredients: [
+        { name: 'ごはん', grams: 400, food_id: riceId },
+        {
+          name: 'カレー',
+          grams: 300,
+          totals: { kcal: 500, protein_g: 20, fat_g: 25, carbs_g: 45 },
+        },
+      ],
+    },
+    'ja-JP',
+  );
+  assert.equal(usage, undefined);
+  return recipe;
+}
+
+test('createRecipe computes catalogue lines and keeps typed totals without an AI call', async () => {
+  const recipe = await createCurry();
+
+  assert.deepEqual(
+    recipe.ingredients.map((ingredient) => [ingredient.source, ingredient.totals.kcal]),
+    [
+      ['catalogue', 672],
+      ['manual', 500],
+    ],
+  );
+  assert.equal(recipe.totals.kcal, 1172);
+  assert.equal(recipe.per_serving.kcal, 586);
+});
+
+test('recipes are only visible and editable by their owner', async () => {
+  const recipe = await createCurry();
+
+  assert.equal((await listRecipes(strangerId)).length, 0);
+  await assert.rejects(getRecipe(strangerId, recipe.id), { statusCode: 404 });
+  await assert.rejects(updateRecipe(strangerId, recipe.id, { name: '乗っ取り' }, 'ja-JP'), {
+    statusCode: 404,
+  });
+  await assert.rejects(
+    logRecipe({
+      userId: strangerId,
+      recipeId: recipe.id,
+      request: { servings: 1 },
+      locale: 'ja-JP',
+    }),
+    { statusCode: 404 },
+  );
+  await assert.rejects(deleteRecipe(strangerId, recipe.id), { statusCode: 404 });
+
+  assert.equal((await getRecipe(ownerId, recipe.id)).name, 'カレーライス');
+});
+
+test('updateRecipe replaces ingredients and recomputes totals', async () => {
+  const recipe = await createCurry();
+
+  const { recipe: updated } = await updateRecipe(
+    ownerId,
+    recipe.id,
+    { ingredients: [{ name: 'ごはん', grams: 200, food_id: riceId }] },
+    'ja-JP',
+  );
+
+  assert.equal(updated.ingredients.length, 1);
+  assert.equal(updated.totals.kcal, 336);
+  assert.equal(updated.name, 'カレーライス');
+});
+
+test('logRecipe logs the requested servings with scaled ingredient items', async () => {
+  const recipe = await createCurry();
+
+  const result = await logRecipe({
+    userId: ownerId,
+    recipeId: recipe.id,
+    request: { servings: 1, meal_period: 'dinner' },
+    locale: 'ja-JP',
+  });
+
+  assert.equal(result.totals.kcal, 586);
+  const log = await prisma.mealLog.findUniqueOrThrow({
+    where: { id: result.logId },
+    include: { items: { orderBy: { orderIndex: 'asc' } } },
+  });
+  assert.equal(log.userId, ownerId);
+  assert.equal(log.mealPeriod, 'DINNER');
+  assert.equal(log.calories, 586);
+  assert.deepEqual(
+    log.items.map((item) => [item.name, item.grams]),
+    [
+      ['ごはん', 200],
+      ['カレー', 150],
+    ],
+  );
+});
@@ -0,0 +1,94 @@
+import '../test-env.ts';
+
+import test, { after, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServerSentEventParser, type ServerSentEvent } from '@meal-log/shared';
+import { prisma } from '../../src/db/prisma.ts';
+import { createApp } from '../../src/app.ts';
+
+const app = createApp();
+const server = app.listen(0);
+const address = server.address();
+const baseUrl =
+  typeof address === 'object' && address
+    ? `http://127.0.0.1:${address.port}`
+    : 'http://127.0.0.1:4100';
+let sessionCookie = '';
+let userId = 0;
+
+before(async () => {
+  await prisma.$executeRawUnsafe('TRUNCATE "MealLog" CASCADE');
+  await prisma.$executeRawUnsafe('TRUNCATE "IngestRequest" CASCADE');
+  await prisma.$executeRawUnsafe('TRUNCATE "User" CASCADE');
+
+  const response = await fetch(`${baseUrl}/api/register`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      email: 'stream@example.com',
+      username: 'Stream',
+      password: 'password123',
+    }),
+  });
+  assert.equal(response.status, 201);
+  sessionCookie = response.headers.get('set-cookie') ?? '';
+  userId = (await prisma.user.findUniqueOrThrow({ where: { email: 'stream@example.com' } })).id;
+});
+
+after(async () => {
+  server.close();
+  await prisma.$disconnect();
+});
+
+async function readStream(query: string, cookie = sessionCookie) {
+  const response = await fetch(`${baseUrl}/api/stream?${query}`, { headers: { Cookie: cookie } });
+  if (!response.headers.get('content-type')?.includes('text/event-stream')) {
+    return { response, events: [] as ServerSentEvent[] };
+  }
+  const events: ServerSentEvent[] = [];
+  createServerSentEventParser((event) => events.push(event))(await response.text());
+  return { response, events };
+}
+
+test('the stream requires a session', async () => {
+  const { response } = await readStream('ingest=anything', '');
+  assert.equal(response.status, 401);
+});
+
+test('a logged ingest request is pushed as done and the stream completes', async () => {
+  const log = await prisma.mealLog.create({
+    data: { userId, foodItem: 'おにぎり', calories: 180, proteinG: 4, fatG: 1, carbsG: 39 },
+  });
+  await prisma.ingestRequest.create({
+    data: { userId, requestKey: 'stream-done', logId: log.id, status: 'done' },
+  });
+
+  const { response, events } = await readStream('ingest=stream-done&report=r1');
+  assert.equal(response.status, 200);
+  assert.deepEqual(
+    events.map((event) => event.event),
+    ['error', 'ingest', 'end'],
+  );
+  assert.equal(JSON.parse(events[0].data).status, 404);
+  const ingest = JSON.parse(events[1].data);
+  assert.equal(ingest.status, 'done');
+  assert.equal(ingest.result.logId, log.id);
+  assert.deepEqual(JSON.parse(events[2].data), { reason: 'complete' });
+});
+
+test('another user’s request key is reported as not found', async () => {
+  const other = await prisma.user.create({
+    data: { email: 'stream-other@example.com', passwordHash: 'unused' },
+  });
+  await prisma.ingestRequest.create({ data: { userId: other.id, requestKey: 'stream-foreign' } });
+
+  const { events } = await readStream('ingest=stream-foreign');
+  assert.equal(events[0].event, 'error');
+  assert.deepEqual(JSON.parse(events[0].data), {
+    target: 'ingest',
+    id: 'stream-foreign',
+    status: 404,
+    message: '解析リクエストが見つかりませんでした',
+  });
+  assert.equal(events[1].event, 'end');
+});
@@ -83,6 +83,7 @@ test('purgeExpiredMealLogs deletes soft-deleted and expired free logs', async ()
   const calls = [];
 
   prismaAny.premiumGrant.findMany = async () => [];
+  prismaAny.subscription.findMany = async () => [];
 
   prismaAny.mealLog.deleteMany = async (args) => {
     calls.push(args);
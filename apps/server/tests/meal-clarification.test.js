@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  MAX_CLARIFYING_QUESTIONS,
+  buildMealLogClarificationResponse,
+  formatClarificationForPrompt,
+  matchClarifyingAnswers,
+  selectClarifyingQuestions,
+} from '@meal-log/shared';
+
+const draft = {
+  dish: '唐揚げ定食',
+  confidence: 0.4,
+  totals: { kcal: 850, protein_g: 35, fat_g: 40, carbs_g: 90 },
+  items: [{ name: '唐揚げ', grams: 150, protein_g: 25, fat_g: 20, carbs_g: 10 }],
+};
+
+test('selectClarifyingQuestions asks nothing when the model is confident enough', () => {
+  const questions = selectClarifyingQuestions({
+    confidence: 0.6,
+    clarifying_questions: [{ question: '何個食べましたか？', options: ['3個', '5個'] }],
+  });
+  assert.deepEqual(questions, []);
+  assert.deepEqual(selectClarifyingQuestions({ confidence: 0.3 }), []);
+});
+
+test('selectClarifyingQuestions trims, de-duplicates, caps and numbers the questions', () => {
+  const questions = selectClarifyingQuestions({
+    confidence: 0.3,
+    clarifying_questions: [
+      {
+        question: ' 何個食べましたか？ ',
+        options: ['3個', ' 3個', '5個', '', '7個', '9個', '11個'],
+      },
+      { question: '何個食べましたか？', options: ['1個'] },
+      { question: '   ', options: ['a'] },
+      { question: 'ソースは？' },
+      { question: 'ご飯の量は？', options: ['少なめ', '普通'] },
+      { question: '味噌汁は飲みましたか？', options: ['はい', 'いいえ'] },
+    ],
+  });
+  assert.equal(questions.length, MAX_CLARIFYING_QUESTIONS);
+  assert.deepEqual(questions, [
+    { id: 'q1', question: '何個食べましたか？', options: ['3個', '5個', '7個', '9個'] },
+    { id: 'q2', question: 'ソースは？', options: [] },
+    { id: 'q3', question: 'ご飯の量は？', options: ['少なめ', '普通'] },
+  ]);
+});
+
+test('buildMealLogClarificationResponse exposes the draft summary and questions', () => {
+  const questions = [{ id: 'q1', question: '何個？', options: ['3個', '5個'] }];
+  const response = buildMealLogClarificationResponse('ingest_1', { draft, questions });
+  assert.deepEqual(response, {
+    ok: true,
+    success: false,
+    status: 'needs_clarification',
+    requestKey: 'ingest_1',
+    dish: '唐揚げ定食',
+    confidence: 0.4,
+    totals: draft.totals,
+    questions,
+  });
+  assert.notEqual(response.questions[0].options, questions[0].options);
+});
+
+test('matchClarifyingAnswers keeps the last answer per known question', () => {
+  const questions = [
+    { id: 'q1', question: '何個？', options: [] },
+    { id: 'q2', question: 'ソースは？', options: [] },
+  ];
+  const matched = matchClarifyingAnswers(questions, [
+    { question_id: 'q1', answer: '3個' },
+    { question_id: 'q1', answer: ' 5個 ' },
+    { question_id: 'q2', answer: '  ' },
+    { question_id: 'q9', answer: 'unknown' },
+  ]);
+  assert.deepEqual(matched, [{ question: '何個？', answer: '5個' }]);
+});
+
+test('formatClarificationForPrompt includes the earlier estimate and the answers', () => {
+  const prompt = formatClarificationForPrompt(draft, [{ question: '何個？', answer: '5個' }]);
+  assert.match(prompt, /"dish":"唐揚げ定食"/);
+  assert.match(prompt, /- Q: 何個？\n {2}A: 5個/);
+  assert.match(prompt, /do not return "clarifying_questions"/);
+});
@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { buildDishResponse, listSplittableDishes } from '@meal-log/shared';
+
+const combined = {
+  dish: 'Ramen and gyoza',
+  confidence: 0.8,
+  totals: { kcal: 800, protein_g: 30, fat_g: 30, carbs_g: 100 },
+  items: [
+    { name: 'ramen noodles', grams: 200, protein_g: 10, fat_g: 5, carbs_g: 70 },
+    { name: 'pork broth', grams: 300, protein_g: 8, fat_g: 15, carbs_g: 5 },
+    { name: 'gyoza', grams: 120, protein_g: 12, fat_g: 10, carbs_g: 25 },
+  ],
+  warnings: [],
+  micros: { fiber_g: 4, salt_g: 8 },
+  dishes: [
+    {
+      dish: 'Ramen',
+      totals: { kcal: 600, protein_g: 18, fat_g: 20, carbs_g: 75 },
+      item_indexes: [0, 1],
+    },
+    {
+      dish: 'Gyoza',
+      totals: { kcal: 200, protein_g: 12, fat_g: 10, carbs_g: 25 },
+      item_indexes: [2, 9],
+    },
+  ],
+};
+
+test('listSplittableDishes needs at least two named dishes', () => {
+  assert.equal(listSplittableDishes(combined).length, 2);
+  assert.deepEqual(listSplittableDishes({ dishes: [combined.dishes[0]] }), []);
+  assert.deepEqual(
+    listSplittableDishes({ dishes: [combined.dishes[0], { ...combined.dishes[1], dish: ' ' }] }),
+    [],
+  );
+  assert.deepEqual(listSplittableDishes(null), []);
+});
+
+test('buildDishResponse keeps the dish items and scales micronutrients by calorie share', () => {
+  const gyoza = buildDishResponse(combined, combined.dishes[1]);
+
+  assert.equal(gyoza.dish, 'Gyoza');
+  assert.deepEqual(gyoza.totals, combined.dishes[1].totals);
+  assert.deepEqual(
+    gyoza.items.map((item) => item.name),
+    ['gyoza'],
+  );
+  assert.equal(gyoza.micros?.fiber_g, 1);
+  assert.equal(gyoza.micros?.salt_g, 2);
+  assert.equal(gyoza.dishes, undefined);
+  assert.equal(combined.items.length, 3);
+});
@@ -0,0 +1,81 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  UpdateMealLogRequestSchema,
+  allocateMealLogItems,
+  planMealLogItemChanges,
+  sumMealLogItems,
+} from '@meal-log/shared';
+
+const existing = [
+  { id: 1, name: 'ご飯', grams: 150, calories: 252, protein_g: 3.8, fat_g: 0.5, carbs_g: 55.7, order_index: 0 },
+  { id: 2, name: '鮭の塩焼き', grams: 80, calories: 160, protein_g: 17.8, fat_g: 9.0, carbs_g: 0.1, order_index: 1 },
+  { id: 3, name: '味噌汁', grams: 200, calories: 40, protein_g: 2.6, fat_g: 1.2, carbs_g: 4.2, order_index: 2 },
+];
+
+test('allocateMealLogItems splits totals so rows add up to them', () => {
+  const items = allocateMealLogItems({ kcal: 600, protein_g: 30, fat_g: 20, carbs_g: 70 }, [
+    { name: 'rice', grams: 200, protein_g: 5, fat_g: 1, carbs_g: 60 },
+    { name: 'chicken', grams: 100, protein_g: 25, fat_g: 19, carbs_g: 10 },
+  ]);
+
+  assert.equal(items.length, 2);
+  assert.deepEqual(sumMealLogItems(items), { kcal: 600, protein_g: 30, fat_g: 20, carbs_g: 70 });
+  assert.equal(items[0].protein_g, 5);
+  assert.equal(items[1].protein_g, 25);
+});
+
+test('allocateMealLogItems falls back to the gram share when items carry no nutrients', () => {
+  const items = allocateMealLogItems({ kcal: 300, protein_g: 12, fat_g: 6, carbs_g: 48 }, [
+    { name: 'a', grams: 100 },
+    { name: 'b', grams: 300 },
+  ]);
+
+  assert.equal(items[0].calories, 75);
+  assert.equal(items[1].calories, 225);
+  assert.equal(items[1].carbs_g, 36);
+});
+
+test('planMealLogItemChanges scales an edited item, removes and adds rows, and recomputes totals', () => {
+  const plan = planMealLogItemChanges(existing, [
+    { id: 1, name: 'ご飯', grams: 300 },
+    { id: 2, name: '鮭の塩焼き', grams: 80 },
+    { name: '納豆', grams: 45, calories: 90, protein_g: 7.4, fat_g: 4.5, carbs_g: 5.4 },
+  ]);
+
+  assert.deepEqual(plan.removedIds, [3]);
+  assert.deepEqual(plan.unknownIds, []);
+  assert.equal(plan.items[0].calories, 504);
+  assert.equal(plan.items[0].carbs_g, 111.4);
+  assert.equal(plan.items[2].id, undefined);
+  assert.deepEqual(plan.totals, { kcal: 754, protein_g: 32.8, fat_g: 14.5, carbs_g: 116.9 });
+  assert.deepEqual(Object.keys(plan.changes).sort(), ['item:1', 'item:3', 'item:new-2']);
+  assert.deepEqual(plan.changes['item:1'], {
+    before: { name: 'ご飯', grams: 150, calories: 252 },
+    after: { name: 'ご飯', grams: 300, calories: 504 },
+  });
+  assert.equal(plan.changes['item:3'].after, null);
+});
+
+test('planMealLogItemChanges reports ids that do not belong to the log', () => {
+  const plan = planMealLogItemChanges(existing, [
+    { id: 1, name: 'ご飯', grams: 150 },
+    { id: 99, name: 'ghost', grams: 10 },
+    { id: 1, name: 'ご飯', grams: 150 },
+  ]);
+
+  assert.deepEqual(plan.unknownIds, [99, 1]);
+  assert.equal(plan.changes['item:1'], undefined);
+});
+
+test('UpdateMealLogRequestSchema rejects items combined with explicit totals', () => {
+  assert.equal(
+    UpdateMealLogRequestSchema.safeParse({ items: [{ id: 1, name: 'ご飯', grams: 100 }] }).success,
+    true,
+  );
+  assert.equal(
+    UpdateMealLogRequestSchema.safeParse({ items: [{ id: 1, name: 'ご飯', grams: 100 }], calories: 500 })
+      .success,
+    false,
+  );
+});
@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  buildReanalysisMessage,
+  decideMealReanalysis,
+  diffNutritionTotals,
+  isReanalyzableMealLog,
+} from '@meal-log/shared';
+
+const previous = { kcal: 600, protein_g: 25, fat_g: 20, carbs_g: 80 };
+
+test('decideMealReanalysis ignores estimates that barely moved', () => {
+  const proposed = { kcal: 620, protein_g: 26, fat_g: 21, carbs_g: 82 };
+  assert.equal(decideMealReanalysis({ edited: false, previous, proposed }), 'unchanged');
+});
+
+test('decideMealReanalysis applies to untouched logs and proposes for edited ones', () => {
+  const proposed = { kcal: 720, protein_g: 30, fat_g: 28, carbs_g: 85 };
+  assert.equal(decideMealReanalysis({ edited: false, previous, proposed }), 'apply');
+  assert.equal(decideMealReanalysis({ edited: true, previous, proposed }), 'propose');
+});
+
+test('decideMealReanalysis counts a macro shift even when calories hold', () => {
+  const proposed = { kcal: 605, protein_g: 35, fat_g: 16, carbs_g: 72 };
+  assert.equal(decideMealReanalysis({ edited: false, previous, proposed }), 'apply');
+});
+
+test('diffNutritionTotals rounds like the app displays', () => {
+  assert.deepEqual(diffNutritionTotals(previous, { kcal: 650.6, protein_g: 24.44, fat_g: 20, carbs_g: 90.26 }), {
+    kcal: 51,
+    protein_g: -0.6,
+    fat_g: 0,
+    carbs_g: 10.3,
+  });
+});
+
+test('isReanalyzableMealLog skips logs that copy known values', () => {
+  assert.equal(isReanalyzableMealLog({ landingType: null, meta: { model: 'models/gemini-2.5-flash' } }), true);
+  assert.equal(isReanalyzableMealLog({ landingType: 'manual', meta: {} }), false);
+  assert.equal(isReanalyzableMealLog({ meta: { favoriteId: 3 } }), false);
+  assert.equal(isReanalyzableMealLog({ meta: { barcode: '4901234567894' } }), false);
+  assert.equal(isReanalyzableMealLog({ meta: { splitFromLogId: 'log_1' } }), false);
+});
+
+test('buildReanalysisMessage keeps the saved portions', () => {
+  assert.equal(
+    buildReanalysisMessage('唐揚げ定食', [
+      { name: '唐揚げ', grams: 150.4 },
+      { name: 'ご飯', grams: 200 },
+      { name: '味噌汁', grams: 0 },
+    ]),
+    '唐揚げ定食 (唐揚げ 150g, ご飯 200g, 味噌汁)',
+  );
+  assert.equal(buildReanalysisMessage('ラーメン', [{ name: 'ラーメン', grams: 500 }]), 'ラーメン');
+});
@@ -0,0 +1,32 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { PlannedMealCreateRequestSchema, summarizePlannedMeals } from '@meal-log/shared';
+
+test('plan requests name exactly one source and free text needs expected totals', () => {
+  const base = { date: '2026-10-20', meal_period: 'dinner' };
+  assert.equal(PlannedMealCreateRequestSchema.safeParse({ ...base, recipe_id: 3, servings: 2 }).success, true);
+  assert.equal(PlannedMealCreateRequestSchema.safeParse({ ...base, recipe_id: 3, favorite_id: 4 }).success, false);
+  assert.equal(PlannedMealCreateRequestSchema.safeParse({ ...base, name: '外食' }).success, false);
+  assert.equal(
+    PlannedMealCreateRequestSchema.safeParse({
+      ...base,
+      name: '外食',
+      totals: { kcal: 900, protein_g: 30, fat_g: 35, carbs_g: 110 },
+    }).success,
+    true,
+  );
+  assert.equal(PlannedMealCreateRequestSchema.safeParse({ ...base, date: '2026/10/20', recipe_id: 3 }).success, false);
+});
+
+test('summarizePlannedMeals separates eaten entries from the whole plan', () => {
+  const plan = summarizePlannedMeals([
+    { totals: { kcal: 400.4, protein_g: 20.04, fat_g: 10, carbs_g: 50 }, status: 'eaten' },
+    { totals: { kcal: 600, protein_g: 30, fat_g: 20.06, carbs_g: 70 }, status: 'planned' },
+  ]);
+  assert.deepEqual(plan, {
+    entries: 2,
+    eaten_entries: 1,
+    planned: { calories: 1000, protein_g: 50, fat_g: 30.1, carbs_g: 120 },
+    eaten: { calories: 400, protein_g: 20, fat_g: 10, carbs_g: 50 },
+  });
+});
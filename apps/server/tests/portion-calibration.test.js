@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  buildEstimateCacheKeyPayload,
+  buildPortionCalibrationHints,
+  derivePortionFactorsFromEdits,
+  fingerprintPortionHints,
+  formatPortionHintsForPrompt,
+  resolveAppliedPortionCalibrations,
+} from '@meal-log/shared';
+
+const gramEdit = (id, name, before, after) => ({
+  [`item:${id}`]: { before: { name, grams: before }, after: { name, grams: after } },
+});
+
+test('derivePortionFactorsFromEdits learns a consistent scaling habit', () => {
+  const learned = derivePortionFactorsFromEdits([
+    gramEdit('a', 'Rice', 150, 200),
+    gramEdit('b', 'rice ', 100, 120),
+    { ...gramEdit('c', 'Rice', 150, 210), fields: { before: 'x', after: 'y' } },
+  ]);
+  assert.deepEqual(learned, [{ name: 'Rice', factor: 1.33, samples: 3 }]);
+});
+
+test('derivePortionFactorsFromEdits ignores renames, single edits, mixed directions and noise', () => {
+  const learned = derivePortionFactorsFromEdits([
+    {
+      'item:a': { before: { name: 'Rice', grams: 150 }, after: { name: 'Brown rice', grams: 200 } },
+    },
+    gramEdit('b', 'Brown rice', 100, 150),
+    gramEdit('c', 'Miso soup', 200, 300),
+    gramEdit('d', 'Miso soup', 200, 150),
+    gramEdit('e', 'Natto', 50, 52),
+    gramEdit('f', 'Natto', 50, 53),
+    gramEdit('new-1', 'Salad', 50, 100),
+    gramEdit('new-2', 'Salad', 50, 100),
+    null,
+    'broken',
+  ]);
+  assert.deepEqual(learned, []);
+});
+
+test('derivePortionFactorsFromEdits clamps extreme corrections', () => {
+  const learned = derivePortionFactorsFromEdits([
+    gramEdit('a', 'Pasta', 100, 500),
+    gramEdit('b', 'Pasta', 100, 400),
+  ]);
+  assert.deepEqual(learned, [{ name: 'Pasta', factor: 2, samples: 2 }]);
+});
+
+test('buildPortionCalibrationHints prefers the user references over learned factors', () => {
+  const hints = buildPortionCalibrationHints(
+    [
+      { label: 'Rice', grams: 180 },
+      { label: 'rice', grams: 150 },
+    ],
+    [
+      { name: 'RICE', factor: 1.3, samples: 4 },
+      { name: 'Pasta', factor: 0.8, samples: 2 },
+    ],
+  );
+  assert.deepEqual(hints, [
+    { label: 'Rice', source: 'reference', grams: 180 },
+    { label: 'Pasta', source: 'history', factor: 0.8 },
+  ]);
+  assert.match(formatPortionHintsForPrompt(hints), /"Rice": 180 g/);
+  assert.match(formatPortionHintsForPrompt(hints), /"Pasta": .*0\.8×/);
+  assert.equal(formatPortionHintsForPrompt([]), '');
+});
+
+test('resolveAppliedPortionCalibrations keeps only labels that were sent', () => {
+  const hints = [
+    { label: 'My rice bowl', source: 'reference', grams: 180 },
+    { label: 'Pasta', source: 'history', factor: 0.8 },
+  ];
+  assert.deepEqual(
+    resolveAppliedPortionCalibrations(
+      [{ label: 'my rice bowl' }, { label: 'My rice bowl' }, { label: 'Invented' }],
+      hints,
+    ),
+    [{ label: 'My rice bowl', source: 'reference', grams: 180 }],
+  );
+  assert.equal(resolveAppliedPortionCalibrations([{ label: 'Invented' }], hints), undefined);
+  assert.equal(resolveAppliedPortionCalibrations(undefined, hints), undefined);
+});
+
+test('portion hints only change the estimate cache key when present', () => {
+  const base = { text: 'ご飯', imageHash: null, locale: 'ja-JP', promptVersion: 'v1' };
+  const hints = [{ label: 'ご飯', source: 'reference', grams: 180 }];
+  assert.equal(fingerprintPortionHints([]), null);
+  assert.equal(
+    buildEstimateCacheKeyPayload({ ...base, calibration: fingerprintPortionHints([]) }),
+    buildEstimateCacheKeyPayload(base),
+  );
+  const calibrated = buildEstimateCacheKeyPayload({
+    ...base,
+    calibration: fingerprintPortionHints(hints),
+  });
+  assert.notEqual(calibrated, buildEstimateCacheKeyPayload(base));
+  assert.notEqual(
+    calibrated,
+    buildEstimateCacheKeyPayload({
+      ...base,
+      calibration: fingerprintPortionHints([{ ...hints[0], grams: 200 }]),
+    }),
+  );
+});
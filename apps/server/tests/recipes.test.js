@@ -0,0 +1,48 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  RecipeCreateRequestSchema,
+  RecipeLogRequestSchema,
+  computeRecipePortion,
+  sumRecipeTotals,
+} from '@meal-log/shared';
+
+const curry = {
+  totals: { kcal: 3200, protein_g: 120, fat_g: 140, carbs_g: 360 },
+  servings: 8,
+  yieldGrams: 2400,
+  ingredientGrams: 2000,
+};
+
+test('sumRecipeTotals adds ingredient lines and rounds like meal totals', () => {
+  const totals = sumRecipeTotals([
+    { totals: { kcal: 412.4, protein_g: 34.04, fat_g: 28.11, carbs_g: 0 } },
+    { totals: { kcal: 130.3, protein_g: 2.5, fat_g: 0.3, carbs_g: 28.66 } },
+  ]);
+  assert.deepEqual(totals, { kcal: 543, protein_g: 36.5, fat_g: 28.4, carbs_g: 28.7 });
+});
+
+test('computeRecipePortion divides the batch by servings and weighs portions by cooked yield', () => {
+  const one = computeRecipePortion(curry);
+  assert.equal(one.grams, 300);
+  assert.deepEqual(one.totals, { kcal: 400, protein_g: 15, fat_g: 17.5, carbs_g: 45 });
+
+  const two = computeRecipePortion(curry, 2);
+  assert.equal(two.grams, 600);
+  assert.equal(two.totals.kcal, 800);
+  assert.equal(two.factor, 0.25);
+});
+
+test('computeRecipePortion falls back to raw ingredient weight without a cooked yield', () => {
+  const portion = computeRecipePortion({ ...curry, yieldGrams: null }, 1.5);
+  assert.equal(portion.grams, 375);
+  assert.equal(portion.totals.kcal, 600);
+});
+
+test('recipe requests need ingredients and default to logging one serving', () => {
+  assert.equal(
+    RecipeCreateRequestSchema.safeParse({ name: 'カレー', servings: 8, ingredients: [] }).success,
+    false,
+  );
+  assert.equal(RecipeLogRequestSchema.parse({}).servings, 1);
+});
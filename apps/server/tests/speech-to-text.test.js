@@ -0,0 +1,109 @@
+import './test-env.ts';
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  buildVoiceMealMessage,
+  decodeStubTranscript,
+  isSupportedMealAudioType,
+  normalizeTranscript,
+  resolveSpeechToTextProviderFromChain,
+} from '@meal-log/shared';
+
+process.env.SPEECH_TO_TEXT_PROVIDER = 'openai';
+process.env.OPENAI_COMPATIBLE_BASE_URL = 'http://ai.test/v1';
+
+const { transcribeMealAudio } = await import('../src/services/speech-to-text-service.ts');
+const { env } = await import('../src/env.ts');
+
+const memo = {
+  base64: Buffer.from('fake audio').toString('base64'),
+  mimeType: 'audio/m4a',
+  sizeBytes: 10,
+};
+
+test('voice memo helpers accept common recorder formats and keep typed notes', () => {
+  assert.equal(isSupportedMealAudioType('audio/m4a'), true);
+  assert.equal(isSupportedMealAudioType('audio/webm;codecs=opus'), true);
+  assert.equal(isSupportedMealAudioType('video/mp4'), false);
+  assert.equal(normalizeTranscript('  「トーストと\n ラテ」 '), 'トーストと ラテ');
+  assert.equal(buildVoiceMealMessage('', 'toast with butter'), 'toast with butter');
+  assert.equal(buildVoiceMealMessage('朝食', 'toast with butter'), '朝食\ntoast with butter');
+});
+
+test('stub transcripts read text uploads back and fall back for real audio', () => {
+  assert.equal(
+    decodeStubTranscript(new TextEncoder().encode('ramen and gyoza')),
+    'ramen and gyoza',
+  );
+  assert.equal(
+    decodeStubTranscript(new Uint8Array([0xff, 0xf1, 0x00, 0x80])),
+    'toast with butter and a latte',
+  );
+});
+
+test('transcribeMealAudio posts the memo to the configured provider', async (t) => {
+  const requests = [];
+  t.mock.method(globalThis, 'fetch', async (url, init) => {
+    requests.push({ url: String(url), body: init.body });
+    return new Response(JSON.stringify({ text: ' toast with butter and a latte ' }), {
+      status: 200,
+    });
+  });
+
+  const transcript = await transcribeMealAudio(memo, 'en-US');
+
+  assert.equal(transcript, 'toast with butter and a latte');
+  assert.equal(requests[0].url, 'http://ai.test/v1/audio/transcriptions');
+  assert.equal(requests[0].body.get('model'), 'whisper-1');
+  assert.equal(requests[0].body.get('language'), 'en');
+  assert.equal(requests[0].body.get('file').name, 'memo.m4a');
+});
+
+test('transcribeMealAudio rejects silent memos and surfaces provider failures', async (t) => {
+  const fetchMock = t.mock.method(
+    globalThis,
+    'fetch',
+    async () => new Response(JSON.stringify({ text: '  ' })),
+  );
+  await assert.rejects(() => transcribeMealAudio(memo, 'ja-JP'), { statusCode: 422 });
+
+  fetchMock.mock.mockImplementation(async () => new Response('overloaded', { status: 503 }));
+  await assert.rejects(() => transcribeMealAudio(memo, 'ja-JP'), { statusCode: 502 });
+});
+
+test('without an explicit provider the analysis chain picks the transcriber', () => {
+  const configured = { gemini: false, openai: true };
+  assert.equal(
+    resolveSpeechToTextProviderFromChain(
+      [
+        { provider: 'local', model: 'llama3.2-vision' },
+        { provider: 'openai', model: 'gpt-4o-mini' },
+      ],
+      configured,
+    ),
+    'openai',
+  );
+  assert.equal(
+    resolveSpeechToTextProviderFromChain([{ provider: 'gemini', model: 'flash' }], configured),
+    null,
+  );
+  assert.equal(
+    resolveSpeechToTextProviderFromChain([{ provider: 'mock', model: 'mock' }], configured),
+    'stub',
+  );
+});
+
+test('production refuses voice memos instead of logging the stub phrase', async (t) => {
+  const saved = { ...env };
+  t.after(() => Object.assign(env, saved));
+  Object.assign(env, {
+    SPEECH_TO_TEXT_PROVIDER: undefined,
+    AI_PROVIDER_CHAIN: undefined,
+    GEMINI_API_KEY: undefined,
+    NODE_ENV: 'production',
+  });
+  const fetchMock = t.mock.method(globalThis, 'fetch', async () => new Response('{}'));
+
+  await assert.rejects(() => transcribeMealAudio(memo, 'ja-JP'), { statusCode: 503 });
+  assert.equal(fetchMock.mock.callCount(), 0);
+});
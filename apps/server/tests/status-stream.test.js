@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  createServerSentEventParser,
+  isTerminalIngestStatus,
+  isTerminalReportStatus,
+} from '@meal-log/shared';
+
+const collect = () => {
+  const events = [];
+  const parse = createServerSentEventParser((event) => events.push(event));
+  return { events, parse };
+};
+
+test('createServerSentEventParser waits for the blank line before emitting an event', () => {
+  const { events, parse } = collect();
+  parse('event: ingest\ndata: {"requestKey":');
+  assert.equal(events.length, 0);
+  parse('"abc"}\n');
+  assert.equal(events.length, 0);
+  parse('\nevent: end\ndata: {"reason":"complete"}\n\n');
+  assert.deepEqual(events, [
+    { event: 'ingest', data: '{"requestKey":"abc"}' },
+    { event: 'end', data: '{"reason":"complete"}' },
+  ]);
+});
+
+test('createServerSentEventParser handles CRLF split across chunks', () => {
+  const { events, parse } = collect();
+  parse('event: report\r');
+  parse('\ndata: {}\r\n\r');
+  parse('\n');
+  assert.deepEqual(events, [{ event: 'report', data: '{}' }]);
+});
+
+test('createServerSentEventParser skips heartbeats and joins multi-line data', () => {
+  const { events, parse } = collect();
+  parse(': ping\n\n');
+  parse('id: 7\ndata: first\ndata: second\n\n');
+  assert.deepEqual(events, [{ event: 'message', data: 'first\nsecond', id: '7' }]);
+});
+
+test('terminal status helpers stop following finished requests', () => {
+  assert.equal(isTerminalIngestStatus('done'), true);
+  assert.equal(isTerminalIngestStatus('needs_clarification'), true);
+  assert.equal(isTerminalIngestStatus('processing'), false);
+  assert.equal(isTerminalIngestStatus('deferred'), false);
+  assert.equal(isTerminalReportStatus('canceled'), true);
+  assert.equal(isTerminalReportStatus('queued'), false);
+});
@@ -0,0 +1,178 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  applyAppStoreSubscriptionEvent,
+  resolveSubscriptionEntitlementEnd,
+} from '../src/services/subscription-state.ts';
+
+const MONTHLY = 'com.meallog.premium.monthly';
+const ANNUAL = 'com.meallog.premium.annual';
+
+const event = (overrides) => ({
+  notificationType: 'DID_RENEW',
+  subtype: null,
+  signedDate: new Date('2026-10-01T00:00:00Z'),
+  productId: MONTHLY,
+  expiresDate: new Date('2026-11-01T00:00:00Z'),
+  revocationDate: null,
+  autoRenewStatus: null,
+  autoRenewProductId: null,
+  gracePeriodExpiresDate: null,
+  ...overrides,
+});
+
+const replay = (events) =>
+  events.reduce((state, next) => applyAppStoreSubscriptionEvent(state, event(next)), null);
+
+test('billing failures move through grace period and billing retry until a recovery renews', () => {
+  const subscribed = replay([{ notificationType: 'SUBSCRIBED', subtype: 'INITIAL_BUY' }]);
+  assert.equal(subscribed.status, 'ACTIVE');
+
+  const grace = applyAppStoreSubscriptionEvent(
+    subscribed,
+    event({
+      notificationType: 'DID_FAIL_TO_RENEW',
+      subtype: 'GRACE_PERIOD',
+      gracePeriodExpiresDate: new Date('2026-11-17T00:00:00Z'),
+    }),
+  );
+  assert.equal(grace.status, 'GRACE_PERIOD');
+  assert.equal(
+    resolveSubscriptionEntitlementEnd(grace, new Date('2026-11-10T00:00:00Z'))?.toISOString(),
+    '2026-11-17T00:00:00.000Z',
+  );
+
+  const retry = applyAppStoreSubscriptionEvent(
+    grace,
+    event({ notificationType: 'GRACE_PERIOD_EXPIRED' }),
+  );
+  assert.equal(retry.status, 'BILLING_RETRY');
+  assert.equal(retry.gracePeriodExpiresAt, null);
+  assert.equal(resolveSubscriptionEntitlementEnd(retry, new Date('2026-11-20T00:00:00Z')), null);
+
+  const recovered = applyAppStoreSubscriptionEvent(
+    retry,
+    event({
+      subtype: 'BILLING_RECOVERY',
+      expiresDate: new Date('2026-12-20T00:00:00Z'),
+    }),
+  );
+  assert.equal(recovered.status, 'ACTIVE');
+  assert.equal(recovered.expiresAt.toISOString(), '2026-12-20T00:00:00.000Z');
+
+  const expired = applyAppStoreSubscriptionEvent(
+    recovered,
+    event({ notificationType: 'EXPIRED', subtype: 'VOLUNTARY' }),
+  );
+  assert.equal(expired.status, 'EXPIRED');
+  assert.equal(expired.autoRenew, false);
+  assert.equal(resolveSubscriptionEntitlementEnd(expired, new Date('2026-12-01T00:00:00Z')), null);
+});
+
+test('refunds end access at the revocation date and a reversed refund restores it', () => {
+  const refunded = replay([
+    { notificationType: 'SUBSCRIBED', subtype: 'INITIAL_BUY' },
+    { notificationType: 'REFUND', revocationDate: new Date('2026-10-10T00:00:00Z') },
+  ]);
+  assert.equal(refunded.status, 'REFUNDED');
+  assert.equal(refunded.revokedAt.toISOString(), '2026-10-10T00:00:00.000Z');
+  assert.equal(resolveSubscriptionEntitlementEnd(refunded, new Date('2026-10-15T00:00:00Z')), null);
+
+  const reversed = applyAppStoreSubscriptionEvent(
+    refunded,
+    event({ notificationType: 'REFUND_REVERSED', signedDate: new Date('2026-10-20T00:00:00Z') }),
+  );
+  assert.equal(reversed.status, 'ACTIVE');
+  assert.equal(reversed.revokedAt, null);
+
+  const revoked = applyAppStoreSubscriptionEvent(reversed, event({ notificationType: 'REVOKE' }));
+  assert.equal(revoked.status, 'REVOKED');
+});
+
+test('refunding an earlier period leaves the current one active', () => {
+  const renewed = replay([
+    { notificationType: 'SUBSCRIBED', subtype: 'INITIAL_BUY' },
+    { expiresDate: new Date('2026-12-01T00:00:00Z'), signedDate: new Date('2026-11-01T00:00:00Z') },
+  ]);
+
+  const refunded = applyAppStoreSubscriptionEvent(
+    renewed,
+    event({
+      notificationType: 'REFUND',
+      signedDate: new Date('2026-11-05T00:00:00Z'),
+      revocationDate: new Date('2026-11-05T00:00:00Z'),
+    }),
+  );
+  assert.equal(refunded.status, 'ACTIVE');
+  assert.equal(refunded.revokedAt, null);
+  assert.equal(refunded.expiresAt.toISOString(), '2026-12-01T00:00:00.000Z');
+
+  const reversed = applyAppStoreSubscriptionEvent(
+    refunded,
+    event({ notificationType: 'REFUND_REVERSED', signedDate: new Date('2026-11-06T00:00:00Z') }),
+  );
+  assert.equal(reversed.expiresAt.toISOString(), '2026-12-01T00:00:00.000Z');
+
+  const current = applyAppStoreSubscriptionEvent(
+    reversed,
+    event({ notificationType: 'REFUND', expiresDate: new Date('2026-12-01T00:00:00Z') }),
+  );
+  assert.equal(current.status, 'REFUNDED');
+});
+
+test('upgrades switch product immediately while downgrades wait for the next renewal', () => {
+  const upgraded = replay([
+    { notificationType: 'SUBSCRIBED', subtype: 'INITIAL_BUY' },
+    {
+      notificationType: 'DID_CHANGE_RENEWAL_PREF',
+      subtype: 'UPGRADE',
+      productId: ANNUAL,
+      expiresDate: new Date('2027-10-15T00:00:00Z'),
+    },
+  ]);
+  assert.equal(upgraded.productId, ANNUAL);
+  assert.equal(upgraded.expiresAt.toISOString(), '2027-10-15T00:00:00.000Z');
+
+  const downgrade = applyAppStoreSubscriptionEvent(
+    upgraded,
+    event({
+      notificationType: 'DID_CHANGE_RENEWAL_PREF',
+      subtype: 'DOWNGRADE',
+      productId: ANNUAL,
+      autoRenewProductId: MONTHLY,
+    }),
+  );
+  assert.equal(downgrade.productId, ANNUAL);
+  assert.equal(downgrade.pendingProductId, MONTHLY);
+  assert.equal(downgrade.expiresAt.toISOString(), '2027-10-15T00:00:00.000Z');
+
+  const kept = applyAppStoreSubscriptionEvent(
+    downgrade,
+    event({ notificationType: 'DID_CHANGE_RENEWAL_PREF', productId: ANNUAL }),
+  );
+  assert.equal(kept.pendingProductId, null);
+
+  const renewedAsMonthly = applyAppStoreSubscriptionEvent(
+    downgrade,
+    event({ productId: MONTHLY, expiresDate: new Date('2027-11-15T00:00:00Z') }),
+  );
+  assert.equal(renewedAsMonthly.productId, MONTHLY);
+  assert.equal(renewedAsMonthly.pendingProductId, null);
+});
+
+test('auto-renew changes keep the current period', () => {
+  const disabled = replay([
+    { notificationType: 'SUBSCRIBED', subtype: 'INITIAL_BUY' },
+    {
+      notificationType: 'DID_CHANGE_RENEWAL_STATUS',
+      subtype: 'AUTO_RENEW_DISABLED',
+      autoRenewStatus: false,
+    },
+  ]);
+  assert.equal(disabled.status, 'ACTIVE');
+  assert.equal(disabled.autoRenew, false);
+  assert.equal(
+    resolveSubscriptionEntitlementEnd(disabled, new Date('2026-10-20T00:00:00Z'))?.toISOString(),
+    '2026-11-01T00:00:00.000Z',
+  );
+});
@@ -0,0 +1,57 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { DateTime } from 'luxon';
+import { buildWeightTrend, projectWeightGoal } from '@meal-log/shared';
+
+const timezone = 'Asia/Tokyo';
+
+function createSamples(startIso, days, startKg, dailyDelta) {
+  const start = DateTime.fromISO(startIso, { zone: timezone });
+  return Array.from({ length: days }, (_, index) => ({
+    date: start.plus({ days: index }).toISODate(),
+    weight_kg: Math.round((startKg + dailyDelta * index) * 10) / 10,
+  }));
+}
+
+test('buildWeightTrend averages same-day entries and smooths over the trailing week', () => {
+  const trend = buildWeightTrend([
+    { date: '2026-09-01', weight_kg: 70 },
+    { date: '2026-09-01', weight_kg: 71 },
+    { date: '2026-09-03', weight_kg: 72 },
+    { date: '2026-09-09', weight_kg: 74 },
+  ]);
+
+  assert.deepEqual(trend, [
+    { date: '2026-09-01', weight_kg: 70.5, trend_kg: 70.5 },
+    { date: '2026-09-03', weight_kg: 72, trend_kg: 71.25 },
+    { date: '2026-09-09', weight_kg: 74, trend_kg: 73 },
+  ]);
+});
+
+test('projectWeightGoal estimates the goal date from the actual rate of loss', () => {
+  const trend = buildWeightTrend(createSamples('2026-09-01', 28, 80, -0.1)).filter(
+    (point) => point.date >= '2026-09-08',
+  );
+  const projection = projectWeightGoal({
+    trend,
+    targetWeightKg: 75,
+    plannedDate: '2026-12-31T00:00:00.000Z',
+  });
+
+  assert.equal(trend.at(-1).trend_kg, 77.6);
+  assert.equal(projection.status, 'on_track');
+  assert.equal(projection.weekly_rate_kg, -0.7);
+  assert.equal(projection.planned_date, '2026-12-31T00:00:00.000Z');
+  assert.ok(projection.estimated_date.startsWith('2026-10-2'));
+});
+
+test('projectWeightGoal flags a trend moving away from the target', () => {
+  const trend = buildWeightTrend(createSamples('2026-09-01', 21, 70, 0.1));
+
+  assert.equal(projectWeightGoal({ trend, targetWeightKg: 65 }).status, 'off_track');
+  assert.equal(projectWeightGoal({ trend, targetWeightKg: null }).status, 'no_goal');
+  assert.equal(
+    projectWeightGoal({ trend: trend.slice(0, 3), targetWeightKg: 65 }).status,
+    'insufficient_data',
+  );
+});
@@ -0,0 +1 @@
+export * from './adaptive-plan.ts';
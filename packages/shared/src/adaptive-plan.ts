@@ -0,0 +1,166 @@
+import { computeNutritionPlan, type NutritionPlanInput } from './health.js';
+import { calculateWeeklyWeightRate } from './weight.js';
+import type { AdaptivePlanConfidence, AdaptivePlanProposal, WeightTrendPoint } from './index.js';
+
+/** Days of intake and weight history the estimate looks at. */
+export const ADAPTIVE_PLAN_WINDOW_DAYS = 28;
+/** Days a declined proposal stays hidden. */
+export const ADAPTIVE_PLAN_SNOOZE_DAYS = 14;
+/** Minimum complete intake days before a maintenance estimate is attempted. */
+const MIN_LOGGED_DAYS = 14;
+/** Minimum days with a weigh-in inside the window. */
+const MIN_WEIGHT_DAYS = 4;
+/** Days below this are treated as partially logged and left out of the intake average. */
+const INCOMPLETE_DAY_KCAL = 800;
+/** Energy stored in a kilogram of body mass change (mixed fat and lean tissue). */
+const KCAL_PER_KG = 7700;
+/** Proposals closer than this to the current target are not worth interrupting for. */
+const MIN_CHANGE_KCAL = 50;
+const PLAUSIBLE_MAINTENANCE = { min: 1000, max: 5000 } as const;
+/** How far the measured value may move the formula value, by confidence. */
+const CONFIDENCE_WEIGHT: Record<AdaptivePlanConfidence, number> = {
+  low: 0.5,
+  medium: 0.75,
+  high: 1,
+};
+
+export interface DailyIntake {
+  /** Local calendar date (YYYY-MM-DD). */
+  date: string;
+  kcal: number;
+}
+
+export interface MaintenanceEstimate {
+  reason: AdaptivePlanProposal['reason'];
+  loggedDays: number;
+  weightDays: number;
+  averageIntakeKcal: number | null;
+  weeklyWeightChangeKg: number | null;
+  /** Intake corrected for the energy that went into (or came out of) body mass. */
+  measuredMaintenanceKcal: number | null;
+  confidence: AdaptivePlanConfidence | null;
+}
+
+function resolveConfidence(loggedDays: number, weightDays: number, windowDays: number) {
+  const coverage = loggedDays / windowDays;
+  if (coverage >= 0.8 && weightDays >= 12) return 'high';
+  if (coverage >= 0.6 && weightDays >= 6) return 'medium';
+  return 'low';
+}
+
+/**
+ * Estimates actual maintenance (TDEE) by energy balance: average intake minus the energy
+ * implied by the weight trend's slope. Both series should already be limited to the window.
+ */
+export function estimateMaintenanceFromHistory(params: {
+  intake: DailyIntake[];
+  trend: WeightTrendPoint[];
+  windowDays?: number;
+}): MaintenanceEstimate {
+  const windowDays = params.windowDays ?? ADAPTIVE_PLAN_WINDOW_DAYS;
+  const completeDays = params.intake.filter((day) => day.kcal >= INCOMPLETE_DAY_KCAL);
+  const loggedDays = completeDays.length;
+  const weightDays = params.trend.length;
+  const averageIntakeKcal =
+    loggedDays > 0
+      ? Math.round(completeDays.reduce((acc, day) => acc + day.kcal, 0) / loggedDays)
+      : null;
+  const weeklyWeightChangeKg = calculateWeeklyWeightRate(params.trend, windowDays);
+  const base: MaintenanceEstimate = {
+    reason: null,
+    loggedDays,
+    weightDays,
+    averageIntakeKcal,
+    weeklyWeightChangeKg,
+    measuredMaintenanceKcal: null,
+    confidence: null,
+  };
+
+  if (averageIntakeKcal == null || loggedDays < MIN_LOGGED_DAYS) {
+    return { ...base, reason: 'intake' };
+  }
+  if (weeklyWeightChangeKg == null || weightDays < MIN_WEIGHT_DAYS) {
+    return { ...base, reason: 'weight' };
+  }
+
+  const measured = Math.round(averageIntakeKcal - (weeklyWeightChangeKg * KCAL_PER_KG) / 7);
+  if (measured < PLAUSIBLE_MAINTENANCE.min || measured > PLAUSIBLE_MAINTENANCE.max) {
+    return { ...base, reason: 'implausible' };
+  }
+
+  return {
+    ...base,
+    measuredMaintenanceKcal: measured,
+    confidence: resolveConfidence(loggedDays, weightDays, windowDays),
+  };
+}
+
+/**
+ * Turns a maintenance estimate into updated targets. Lower-confidence estimates only move the
+ * formula value part of the way, so a sparse month of logging cannot swing the plan wildly.
+ */
+export function buildAdaptivePlanProposal(params: {
+  planInput: NutritionPlanInput;
+  estimate: MaintenanceEstimate;
+  current: AdaptivePlanProposal['current'];
+  declinedAt?: Date | null;
+  now?: Date;
+  windowDays?: number;
+}): AdaptivePlanProposal {
+  const { estimate } = params;
+  const now = params.now ?? new Date();
+  const formulaPlan = computeNutritionPlan(params.planInput);
+  const declinedAt = params.declinedAt ?? null;
+  const base: AdaptivePlanProposal = {
+    status: 'insufficient_data',
+    reason: estimate.reason,
+    window_days: params.windowDays ?? ADAPTIVE_PLAN_WINDOW_DAYS,
+    logged_days: estimate.loggedDays,
+    weight_days: estimate.weightDays,
+    average_intake_kcal: estimate.averageIntakeKcal,
+    weekly_weight_change_kg: estimate.weeklyWeightChangeKg,
+    formula_maintenance_kcal: formulaPlan?.maintenanceCalories ?? null,
+    estimated_maintenance_kcal: null,
+    confidence: estimate.confidence,
+    current: params.current,
+    proposed: null,
+    declined_at: declinedAt?.toISOString() ?? null,
+  };
+
+  if (!formulaPlan) {
+    return { ...base, reason: 'profile' };
+  }
+  if (estimate.measuredMaintenanceKcal == null || !estimate.confidence) {
+    return base;
+  }
+
+  const weight = CONFIDENCE_WEIGHT[estimate.confidence];
+  const maintenance = Math.round(
+    formulaPlan.maintenanceCalories +
+      (estimate.measuredMaintenanceKcal - formulaPlan.maintenanceCalories) * weight,
+  );
+  const plan = computeNutritionPlan(params.planInput, { maintenanceCalories: maintenance });
+  if (!plan) {
+    return { ...base, reason: 'profile' };
+  }
+
+  const proposed = {
+    calories: plan.targetCalories,
+    protein_g: plan.proteinGrams,
+    fat_g: plan.fatGrams,
+    carbs_g: plan.carbGrams,
+  };
+  const snoozeUntil = declinedAt
+    ? declinedAt.getTime() + ADAPTIVE_PLAN_SNOOZE_DAYS * 24 * 60 * 60 * 1000
+    : 0;
+  const unchanged =
+    params.current != null &&
+    Math.abs(params.current.calories - proposed.calories) < MIN_CHANGE_KCAL;
+
+  return {
+    ...base,
+    status: unchanged ? 'up_to_date' : now.getTime() < snoozeUntil ? 'snoozed' : 'ready',
+    estimated_maintenance_kcal: maintenance,
+    proposed,
+  };
+}
@@ -0,0 +1 @@
+export * from './ai-providers.ts';
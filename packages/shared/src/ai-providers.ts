@@ -0,0 +1,105 @@
+export const AI_PROVIDER_NAMES = ['gemini', 'openai', 'local', 'mock'] as const;
+export type AiProviderName = (typeof AI_PROVIDER_NAMES)[number];
+
+export interface AiProviderTarget {
+  provider: AiProviderName;
+  model: string;
+}
+
+export interface AiPromptImage {
+  base64: string;
+  mimeType: string;
+}
+
+export interface AiPromptInput {
+  prompt: string;
+  images?: AiPromptImage[];
+}
+
+/**
+ * Parses `AI_PROVIDER_CHAIN` entries of the form `provider` or `provider:model`, in attempt order.
+ * Entries without a model use the provider's default model.
+ */
+export function parseAiProviderChain(
+  raw: string | undefined,
+  defaultModels: Record<AiProviderName, string>,
+): AiProviderTarget[] {
+  return (raw ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(':');
+      const name = (separator === -1 ? entry : entry.slice(0, separator)).trim().toLowerCase();
+      const model = separator === -1 ? '' : entry.slice(separator + 1).trim();
+      if (!isAiProviderName(name)) {
+        throw new Error(`Unknown AI provider "${name}" in AI_PROVIDER_CHAIN`);
+      }
+      return { provider: name, model: model || defaultModels[name] };
+    });
+}
+
+export function isAiProviderName(value: string): value is AiProviderName {
+  return (AI_PROVIDER_NAMES as readonly string[]).includes(value);
+}
+
+/** Attempts past the end of the chain reuse its last entry. */
+export function selectAttemptTarget(chain: readonly AiProviderTarget[], attemptIndex: number) {
+  if (chain.length === 0) {
+    throw new Error('AI provider chain is empty');
+  }
+  return chain[Math.min(Math.max(attemptIndex, 0), chain.length - 1)];
+}
+
+/** Gemini keeps its bare model id in attempt reports so existing dashboards stay comparable. */
+export function formatAiTargetLabel(target: AiProviderTarget) {
+  return target.provider === 'gemini' ? target.model : `${target.provider}:${target.model}`;
+}
+
+export function extractGeminiText(data: unknown): string | null {
+  const candidates = (
+    data as { candidates?: Array<{ content?: { parts?: Array<{ text?: unknown }> } }> } | null
+  )?.candidates;
+  const text = candidates?.[0]?.content?.parts?.[0]?.text;
+  return typeof text === 'string' && text.trim() ? text : null;
+}
+
+export function buildOpenAiCompatibleRequestBody(model: string, input: AiPromptInput) {
+  const content: Array<Record<string, unknown>> = [{ type: 'text', text: input.prompt }];
+  for (const image of input.images ?? []) {
+    content.push({
+      type: 'image_url',
+      image_url: { url: `data:${image.mimeType};base64,${image.base64}` },
+    });
+  }
+  return {
+    model,
+    messages: [{ role: 'user', content }],
+    temperature: 0.2,
+    response_format: { type: 'json_object' },
+  };
+}
+
+export function extractOpenAiCompatibleText(data: unknown): string | null {
+  const choices = (data as { choices?: Array<{ message?: { content?: unknown } }> } | null)
+    ?.choices;
+  const content = choices?.[0]?.message?.content;
+  return typeof content === 'string' && content.trim() ? content : null;
+}
+
+/** Request body for an Ollama-style `/api/generate` endpoint. */
+export function buildLocalModelRequestBody(model: string, input: AiPromptInput) {
+  return {
+    model,
+    prompt: input.prompt,
+    ...(input.images?.length ? { images: input.images.map((image) => image.base64) } : {}),
+    format: 'json',
+    stream: false,
+    options: { temperature: 0.2 },
+  };
+}
+
+export function extractLocalModelText(data: unknown): string | null {
+  const response = (data as { response?: unknown } | null)?.response;
+  return typeof response === 'string' && response.trim() ? response : null;
+}
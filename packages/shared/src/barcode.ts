@@ -0,0 +1,44 @@
+import type { NutritionTotals } from './index.js';
+
+function hasValidCheckDigit(digits: string) {
+  const body = digits.slice(0, -1);
+  let sum = 0;
+  // GS1 weights alternate 3,1,3,... starting from the digit next to the check digit.
+  for (let index = 0; index < body.length; index += 1) {
+    const digit = Number(body[body.length - 1 - index]);
+    sum += index % 2 === 0 ? digit * 3 : digit;
+  }
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+}
+
+/**
+ * Normalizes a scanned EAN-8 / EAN-13 (JAN) / UPC-A / GTIN-14 code into the key used
+ * by the product table. UPC-A is widened to EAN-13 so both scans of a product match.
+ * Returns null when the code is malformed or fails the check digit.
+ */
+export function normalizeBarcode(raw: string): string | null {
+  const digits = raw.replace(/[\s-]/g, '');
+  if (!/^\d+$/.test(digits)) {
+    return null;
+  }
+  const widened = digits.length === 12 ? `0${digits}` : digits;
+  if (![8, 13, 14].includes(widened.length) || !hasValidCheckDigit(widened)) {
+    return null;
+  }
+  return widened;
+}
+
+/** Label panels print values per serving; the product table stores them per 100 g. */
+export function perServingToPer100g(
+  perServing: NutritionTotals,
+  servingGrams: number,
+): NutritionTotals {
+  const factor = servingGrams > 0 ? 100 / servingGrams : 0;
+  const round = (value: number) => Math.round(value * factor * 10) / 10;
+  return {
+    kcal: round(perServing.kcal),
+    protein_g: round(perServing.protein_g),
+    fat_g: round(perServing.fat_g),
+    carbs_g: round(perServing.carbs_g),
+  };
+}
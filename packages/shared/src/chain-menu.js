@@ -0,0 +1 @@
+export * from './chain-menu.ts';
@@ -0,0 +1,219 @@
+import { normalizeFoodText } from './food-search.js';
+import type { GeminiNutritionResponse, MealLogChainMenuSource } from './index.js';
+
+/** `landingType` of logs saved with a chain's published values instead of an AI estimate. */
+export const CHAIN_MENU_LANDING_TYPE = 'chain_menu';
+
+// Particles and verbs written straight after a name ("吉野家で牛丼並盛を食べた").
+const CHAIN_MENU_FILLER_SUFFIXES = [
+  'で',
+  'の',
+  'を',
+  'は',
+  'と',
+  'にて',
+  '食べた',
+  '食べました',
+  'たべた',
+  '一杯',
+  '1杯',
+  '1つ',
+  '一つ',
+];
+
+// Words that are filler only on their own ("had Yoshinoya gyudon"); inside "11杯" or "salad" they are not.
+const CHAIN_MENU_FILLER_WORDS = ['ate', 'had', 'at', 'from', 'the', 'a', 'an', 'one', '1'];
+
+const CHAIN_MENU_WORD_SEPARATOR = /[\s,、。・]+/;
+
+/**
+ * Catalogue key for menu text, built word by word so that mixed input such as
+ * "Yoshinoya gyudon regular" reads the romaji words as kana and keeps the English ones.
+ */
+export function normalizeChainMenuText(value: string) {
+  return value
+    .split(CHAIN_MENU_WORD_SEPARATOR)
+    .map((word) => normalizeFoodText(word))
+    .join('');
+}
+
+const FILLER_SUFFIX_KEYS = Array.from(
+  new Set(CHAIN_MENU_FILLER_SUFFIXES.map(normalizeChainMenuText)),
+).filter(Boolean);
+const FILLER_WORD_KEYS = new Set(CHAIN_MENU_FILLER_WORDS.map(normalizeChainMenuText));
+
+/** Drops whole filler words before the message is joined into one key. */
+function dropFillerWords(message: string) {
+  return message
+    .split(CHAIN_MENU_WORD_SEPARATOR)
+    .filter((word) => !FILLER_WORD_KEYS.has(normalizeFoodText(word)))
+    .join(' ');
+}
+
+/** True when the text is nothing but particles and verbs, each used whole. */
+function isFillerOnly(text: string) {
+  const reachable = [true];
+  for (let index = 0; index < text.length; index += 1) {
+    if (!reachable[index]) continue;
+    for (const key of FILLER_SUFFIX_KEYS) {
+      if (text.startsWith(key, index)) {
+        reachable[index + key.length] = true;
+      }
+    }
+  }
+  return Boolean(reachable[text.length]);
+}
+
+export interface ChainMenuMatchCandidate {
+  id: number;
+  /** Normalized chain name and aliases. */
+  chainKeys: string[];
+  names: Array<{ name: string; normalized?: string | null; isAlias?: boolean }>;
+}
+
+export interface ChainMenuMatch<T> {
+  item: T;
+  matchedChain: string;
+  matchedName: string;
+}
+
+function stripFirst(haystack: string, needle: string) {
+  const index = haystack.indexOf(needle);
+  return index === -1 ? null : haystack.slice(0, index) + haystack.slice(index + needle.length);
+}
+
+/**
+ * Finds the menu item a message names exactly: the chain and one of the item's names must both
+ * appear, and nothing but filler words may be left over, so "Yoshinoya gyudon and a salad" is
+ * left to the model. The longest matching name wins, which is how a size ("大盛") beats the
+ * default size of the same dish; primary names win ties over aliases.
+ */
+export function matchChainMenuItem<T extends ChainMenuMatchCandidate>(
+  message: string,
+  candidates: readonly T[],
+): ChainMenuMatch<T> | null {
+  const haystack = normalizeChainMenuText(dropFillerWords(message));
+  if (!haystack) {
+    return null;
+  }
+
+  let best: (ChainMenuMatch<T> & { length: number; isAlias: boolean }) | null = null;
+  for (const item of candidates) {
+    const chainKey = item.chainKeys
+      .filter((key) => key && haystack.includes(key))
+      .sort((a, b) => b.length - a.length)[0];
+    if (!chainKey) continue;
+    const rest = stripFirst(haystack, chainKey)!;
+
+    for (const entry of item.names) {
+      const key = entry.normalized ?? normalizeChainMenuText(entry.name);
+      const leftover = key ? stripFirst(rest, key) : null;
+      if (leftover === null || !isFillerOnly(leftover)) continue;
+
+      const isAlias = Boolean(entry.isAlias);
+      if (
+        !best ||
+        key.length > best.length ||
+        (key.length === best.length && best.isAlias && !isAlias)
+      ) {
+        best = {
+          item,
+          matchedChain: chainKey,
+          matchedName: entry.name,
+          length: key.length,
+          isAlias,
+        };
+      }
+    }
+  }
+
+  return best
+    ? { item: best.item, matchedChain: best.matchedChain, matchedName: best.matchedName }
+    : null;
+}
+
+export interface ChainMenuItemValues {
+  id: number;
+  chain: string;
+  name: string;
+  sizeLabel: string | null;
+  kcal: number;
+  proteinG: number;
+  fatG: number;
+  carbsG: number;
+  saltG: number | null;
+  servingGrams: number | null;
+  sourceUrl: string | null;
+}
+
+export function formatChainMenuDish(
+  item: Pick<ChainMenuItemValues, 'chain' | 'name' | 'sizeLabel'>,
+) {
+  return [item.chain, item.name, item.sizeLabel].filter(Boolean).join(' ');
+}
+
+/** Analysis payload carrying the published values, so the log is stored like any other. */
+export function buildChainMenuResponse(
+  item: ChainMenuItemValues,
+  query: string,
+): GeminiNutritionResponse {
+  const name = [item.name, item.sizeLabel].filter(Boolean).join(' ');
+  return {
+    dish: formatChainMenuDish(item),
+    confidence: 1,
+    totals: {
+      kcal: item.kcal,
+      protein_g: item.proteinG,
+      fat_g: item.fatG,
+      carbs_g: item.carbsG,
+    },
+    ...(item.saltG !== null ? { micros: { salt_g: item.saltG } } : {}),
+    items: [
+      {
+        name,
+        grams: item.servingGrams ?? 0,
+        protein_g: item.proteinG,
+        fat_g: item.fatG,
+        carbs_g: item.carbsG,
+      },
+    ],
+    warnings: [],
+    landing_type: CHAIN_MENU_LANDING_TYPE,
+    meta: { chainMenuItemId: item.id, chainMenuQuery: query },
+  };
+}
+
+/**
+ * `next` as the estimate of a chain menu log, carrying the match over and keeping `previous` in
+ * `meta.alternateEstimate` so that switching back needs no menu lookup or AI call.
+ */
+export function withAlternateEstimate(
+  next: GeminiNutritionResponse,
+  previous: GeminiNutritionResponse,
+): GeminiNutritionResponse {
+  const previousMeta = { ...previous.meta };
+  delete previousMeta.alternateEstimate;
+  return {
+    ...next,
+    meta: {
+      ...next.meta,
+      chainMenuItemId: previousMeta.chainMenuItemId,
+      chainMenuQuery: previousMeta.chainMenuQuery,
+      alternateEstimate: { ...previous, meta: previousMeta },
+    },
+  };
+}
+
+export function buildMealLogChainMenuSource(
+  item: ChainMenuItemValues,
+  landingType: string | null | undefined,
+): MealLogChainMenuSource {
+  return {
+    item_id: item.id,
+    chain: item.chain,
+    name: item.name,
+    size_label: item.sizeLabel,
+    source_url: item.sourceUrl,
+    active: landingType === CHAIN_MENU_LANDING_TYPE,
+  };
+}
@@ -0,0 +1,90 @@
+/** Express cookie sessions and edge-issued JWTs share one session table. */
+export const DEVICE_SESSION_KINDS = ['cookie', 'token'] as const;
+export type DeviceSessionKind = (typeof DEVICE_SESSION_KINDS)[number];
+
+export const DEVICE_SESSION_PLATFORMS = ['ios', 'android', 'web'] as const;
+export type DeviceSessionPlatform = (typeof DEVICE_SESSION_PLATFORMS)[number];
+
+/** Device details recorded when a session is created and shown in the session list. */
+export interface SessionClientInfo {
+  deviceName: string | null;
+  platform: DeviceSessionPlatform | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+  region: string | null;
+}
+
+// Country/region headers set by common proxies and CDNs; the first present one wins.
+const REGION_HEADERS = [
+  'x-client-region',
+  'cf-ipcountry',
+  'x-vercel-ip-country',
+  'x-appengine-country',
+  'cloudfront-viewer-country',
+];
+
+/** Sessions seen within this window keep their `lastSeenAt`, so not every request writes. */
+export const SESSION_LAST_SEEN_INTERVAL_MS = 5 * 60 * 1000;
+
+function clean(value: string | null | undefined, maxLength: number) {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed.slice(0, maxLength) : null;
+}
+
+export function parseDeviceSessionPlatform(
+  value: string | null | undefined,
+): DeviceSessionPlatform | null {
+  const platform = value?.trim().toLowerCase();
+  return platform && (DEVICE_SESSION_PLATFORMS as readonly string[]).includes(platform)
+    ? (platform as DeviceSessionPlatform)
+    : null;
+}
+
+/** `X-Device-Name` is URI-encoded by the app, since device names are often not ASCII. */
+export function decodeDeviceName(value: string | null | undefined) {
+  if (!value) {
+    return null;
+  }
+  try {
+    return clean(decodeURIComponent(value), 100);
+  } catch {
+    return clean(value, 100);
+  }
+}
+
+/** `X-Client-Platform` from the app wins; otherwise the user agent decides. */
+export function detectSessionPlatform(
+  hinted: string | null | undefined,
+  userAgent: string | null | undefined,
+): DeviceSessionPlatform | null {
+  const hint = parseDeviceSessionPlatform(hinted);
+  if (hint) {
+    return hint;
+  }
+  const ua = userAgent ?? '';
+  if (/iphone|ipad|ipod|ios|cfnetwork|darwin/i.test(ua)) {
+    return 'ios';
+  }
+  if (/android|okhttp/i.test(ua)) {
+    return 'android';
+  }
+  return /mozilla/i.test(ua) ? 'web' : null;
+}
+
+/** Reads session metadata from request headers; `header` is the framework's case-insensitive getter. */
+export function readSessionClientInfo(
+  header: (name: string) => string | null | undefined,
+  ipAddress: string | null,
+): SessionClientInfo {
+  const userAgent = clean(header('user-agent'), 300);
+  const region = REGION_HEADERS.map((name) => clean(header(name), 40)).find(
+    (value) => value && value.toUpperCase() !== 'XX',
+  );
+  return {
+    deviceName: decodeDeviceName(header('x-device-name')),
+    platform: detectSessionPlatform(header('x-client-platform'), userAgent),
+    userAgent,
+    ipAddress: ipAddress && ipAddress !== 'unknown' ? ipAddress : null,
+    region: region ?? null,
+  };
+}
@@ -0,0 +1 @@
+export * from './estimate-cache.ts';
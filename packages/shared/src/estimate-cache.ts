@@ -0,0 +1,43 @@
+/** How long a cached nutrition estimate may be reused. */
+export const ESTIMATE_CACHE_TTL_DAYS = 30;
+
+export type EstimateCacheOutcome = 'hit' | 'miss';
+
+/**
+ * Folds the differences that do not change what was eaten: full-width characters, case,
+ * repeated whitespace and trailing punctuation. "納豆ご飯。" and " 納豆ご飯 " share an entry.
+ */
+export function normalizeEstimateText(message: string) {
+  return message
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/[\s.,!?。、！？]+$/u, '');
+}
+
+/**
+ * Canonical string the runtimes hash (SHA-256, hex) into the cache key; `imageHash` is the SHA-256 of the
+ * uploaded base64 images joined with commas, in upload order. Returns null when there is nothing to key on. The key is not user-specific,
+ * so identical meals are shared across users and between the server and the edge function. `calibration`
+ * (see `fingerprintPortionHints`) is only part of the key when the user has portion hints.
+ */
+export function buildEstimateCacheKeyPayload(params: {
+  text: string;
+  imageHash: string | null;
+  locale: string;
+  promptVersion: string;
+  calibration?: string | null;
+}) {
+  const text = normalizeEstimateText(params.text);
+  if (!text && !params.imageHash) {
+    return null;
+  }
+  return JSON.stringify({
+    text,
+    imageHash: params.imageHash,
+    locale: params.locale,
+    promptVersion: params.promptVersion,
+    ...(params.calibration ? { calibration: params.calibration } : {}),
+  });
+}
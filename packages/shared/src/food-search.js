@@ -0,0 +1 @@
+export * from './food-search.ts';
@@ -0,0 +1,272 @@
+import type { NutritionTotals } from './index.js';
+
+// prettier-ignore
+const ROMAJI_TABLE: Record<string, string> = {
+  kya: 'きゃ', kyu: 'きゅ', kyo: 'きょ',
+  sha: 'しゃ', shu: 'しゅ', sho: 'しょ', shi: 'し',
+  sya: 'しゃ', syu: 'しゅ', syo: 'しょ',
+  cha: 'ちゃ', chu: 'ちゅ', cho: 'ちょ', chi: 'ち',
+  tya: 'ちゃ', tyu: 'ちゅ', tyo: 'ちょ',
+  tsu: 'つ',
+  nya: 'にゃ', nyu: 'にゅ', nyo: 'にょ',
+  hya: 'ひゃ', hyu: 'ひゅ', hyo: 'ひょ',
+  mya: 'みゃ', myu: 'みゅ', myo: 'みょ',
+  rya: 'りゃ', ryu: 'りゅ', ryo: 'りょ',
+  gya: 'ぎゃ', gyu: 'ぎゅ', gyo: 'ぎょ',
+  jya: 'じゃ', jyu: 'じゅ', jyo: 'じょ',
+  zya: 'じゃ', zyu: 'じゅ', zyo: 'じょ',
+  bya: 'びゃ', byu: 'びゅ', byo: 'びょ',
+  pya: 'ぴゃ', pyu: 'ぴゅ', pyo: 'ぴょ',
+  ka: 'か', ki: 'き', ku: 'く', ke: 'け', ko: 'こ',
+  sa: 'さ', si: 'し', su: 'す', se: 'せ', so: 'そ',
+  ta: 'た', ti: 'ち', tu: 'つ', te: 'て', to: 'と',
+  na: 'な', ni: 'に', nu: 'ぬ', ne: 'ね', no: 'の',
+  ha: 'は', hi: 'ひ', hu: 'ふ', fu: 'ふ', he: 'へ', ho: 'ほ',
+  ma: 'ま', mi: 'み', mu: 'む', me: 'め', mo: 'も',
+  ya: 'や', yu: 'ゆ', yo: 'よ',
+  ra: 'ら', ri: 'り', ru: 'る', re: 'れ', ro: 'ろ',
+  la: 'ら', li: 'り', lu: 'る', le: 'れ', lo: 'ろ',
+  wa: 'わ', wo: 'を',
+  ga: 'が', gi: 'ぎ', gu: 'ぐ', ge: 'げ', go: 'ご',
+  za: 'ざ', zi: 'じ', ji: 'じ', zu: 'ず', ze: 'ぜ', zo: 'ぞ',
+  ja: 'じゃ', ju: 'じゅ', jo: 'じょ',
+  da: 'だ', di: 'ぢ', du: 'づ', de: 'で', do: 'ど',
+  ba: 'ば', bi: 'び', bu: 'ぶ', be: 'べ', bo: 'ぼ',
+  pa: 'ぱ', pi: 'ぴ', pu: 'ぷ', pe: 'ぺ', po: 'ぽ',
+  a: 'あ', i: 'い', u: 'う', e: 'え', o: 'お',
+};
+
+const ROMAJI_ONLY_REGEX = /^[a-z' ]+$/;
+const IGNORED_CHARS_REGEX = /[\s・·・,.、。()（）[\]「」'"_\-/]+/g;
+
+function katakanaToHiragana(value: string) {
+  return value.replace(/[ァ-ヶ]/g, (char) => String.fromCharCode(char.charCodeAt(0) - 0x60));
+}
+
+/**
+ * Converts Hepburn/Kunrei romaji into hiragana. Returns null when the input contains
+ * sequences that cannot be read as romaji (e.g. English words like "salad").
+ */
+export function romajiToHiragana(input: string): string | null {
+  const source = input.toLowerCase().replace(/[' ]/g, '');
+  let output = '';
+  let index = 0;
+
+  while (index < source.length) {
+    const current = source[index]!;
+    const next = source[index + 1];
+
+    if (current === 'n') {
+      if (next === 'n' || next === "'" || next === undefined) {
+        output += 'ん';
+        index += next === 'n' ? 2 : 1;
+        continue;
+      }
+      if (!'aiueoy'.includes(next)) {
+        output += 'ん';
+        index += 1;
+        continue;
+      }
+    }
+
+    if (
+      next &&
+      (current === next || (current === 't' && next === 'c')) &&
+      !'aiueon'.includes(current)
+    ) {
+      output += 'っ';
+      index += 1;
+      continue;
+    }
+
+    let matched = false;
+    for (const length of [3, 2, 1]) {
+      const chunk = source.slice(index, index + length);
+      const kana = ROMAJI_TABLE[chunk];
+      if (kana) {
+        output += kana;
+        index += length;
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) {
+      return null;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Produces the comparison key used for catalogue search: NFKC width folding, lowercase,
+ * katakana folded to hiragana, romaji read as kana, and long-vowel marks dropped so that
+ * "カレー", "かれー" and "karee" all land on the same key.
+ */
+export function normalizeFoodText(value: string) {
+  const folded = value.normalize('NFKC').toLowerCase().trim();
+  if (!folded) {
+    return '';
+  }
+  let base = folded;
+  if (ROMAJI_ONLY_REGEX.test(folded)) {
+    const collapsed = folded.replace(/([aiueo])\1+/g, '$1');
+    base = romajiToHiragana(collapsed) ?? folded;
+  }
+  return katakanaToHiragana(base).replace(IGNORED_CHARS_REGEX, '').replace(/ー/g, '');
+}
+
+export function levenshteinDistance(a: string, b: string) {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+  const a1 = Array.from(a);
+  const b1 = Array.from(b);
+  let previous = Array.from({ length: b1.length + 1 }, (_, idx) => idx);
+  for (let i = 1; i <= a1.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= b1.length; j += 1) {
+      const cost = a1[i - 1] === b1[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost);
+    }
+    previous = current;
+  }
+  return previous[b1.length]!;
+}
+
+/**
+ * Substrings used to pull a candidate pool from the database before ranking.
+ * Bigrams keep typo'd queries ("みそしlる") reachable without a trigram index.
+ */
+export function buildFoodSearchFragments(normalizedQuery: string, maxFragments = 12) {
+  const chars = Array.from(normalizedQuery.replace(/[%*_\\]/g, ''));
+  if (chars.length <= 2) {
+    return chars.length ? [chars.join('')] : [];
+  }
+  const fragments = new Set<string>();
+  for (let index = 0; index < chars.length - 1 && fragments.size < maxFragments; index += 1) {
+    fragments.add(chars[index]! + chars[index + 1]!);
+  }
+  return Array.from(fragments);
+}
+
+export const FOOD_MATCH_THRESHOLD = 0.35;
+
+/**
+ * Scores a single catalogue name against an already-normalized query.
+ * exact > prefix > substring > fuzzy (edit-distance ratio); 0 means no match.
+ */
+export function scoreFoodName(normalizedQuery: string, normalizedName: string) {
+  if (!normalizedQuery || !normalizedName) {
+    return 0;
+  }
+  if (normalizedName === normalizedQuery) {
+    return 1;
+  }
+  const lengthPenalty = Math.min(0.1, (normalizedName.length - normalizedQuery.length) * 0.01);
+  if (normalizedName.startsWith(normalizedQuery)) {
+    return 0.9 - lengthPenalty;
+  }
+  if (normalizedName.includes(normalizedQuery)) {
+    return 0.7 - lengthPenalty;
+  }
+  const queryLength = Array.from(normalizedQuery).length;
+  const window = Array.from(normalizedName)
+    .slice(0, queryLength + 1)
+    .join('');
+  const distance = Math.min(
+    levenshteinDistance(normalizedQuery, normalizedName),
+    levenshteinDistance(normalizedQuery, window),
+  );
+  const ratio = 1 - distance / Math.max(queryLength, 1);
+  if (ratio < 0.6) {
+    return 0;
+  }
+  return Number((0.55 * ratio).toFixed(4));
+}
+
+export interface FoodSearchNameEntry {
+  name: string;
+  locale: string;
+  normalized?: string | null;
+  isAlias?: boolean;
+}
+
+export interface RankedFoodMatch<T> {
+  food: T;
+  score: number;
+  matchedName: FoodSearchNameEntry;
+}
+
+/**
+ * Ranks foods by their best-scoring name. Names in the caller's locale win ties,
+ * and alias hits are scored slightly below primary names.
+ */
+export function rankFoodMatches<T extends { names: FoodSearchNameEntry[] }>(
+  query: string,
+  foods: T[],
+  options: { locale?: string; limit?: number } = {},
+): RankedFoodMatch<T>[] {
+  const normalizedQuery = normalizeFoodText(query);
+  const language = options.locale?.split('-')[0]?.toLowerCase();
+  const ranked: RankedFoodMatch<T>[] = [];
+
+  for (const food of foods) {
+    let best: RankedFoodMatch<T> | null = null;
+    for (const entry of food.names) {
+      const normalizedName = entry.normalized ?? normalizeFoodText(entry.name);
+      let score = scoreFoodName(normalizedQuery, normalizedName);
+      if (score <= 0) continue;
+      if (entry.isAlias) score *= 0.95;
+      if (language && entry.locale.split('-')[0]?.toLowerCase() === language) score += 0.01;
+      if (!best || score > best.score) {
+        best = { food, score, matchedName: entry };
+      }
+    }
+    if (best && best.score >= FOOD_MATCH_THRESHOLD) {
+      ranked.push(best);
+    }
+  }
+
+  ranked.sort((a, b) => b.score - a.score);
+  return typeof options.limit === 'number' ? ranked.slice(0, options.limit) : ranked;
+}
+
+/** Picks the display name for a food: primary name in the request language, else any primary name. */
+export function pickFoodDisplayName(names: FoodSearchNameEntry[], locale?: string) {
+  const language = locale?.split('-')[0]?.toLowerCase();
+  const primaries = names.filter((entry) => !entry.isAlias);
+  const pool = primaries.length ? primaries : names;
+  return (
+    pool.find((entry) => language && entry.locale.split('-')[0]?.toLowerCase() === language) ??
+    pool[0] ??
+    null
+  );
+}
+
+export function scaleFoodNutrients(per100g: NutritionTotals, grams: number): NutritionTotals {
+  const factor = Math.max(grams, 0) / 100;
+  const round = (value: number) => Math.round(value * factor * 10) / 10;
+  return {
+    kcal: round(per100g.kcal),
+    protein_g: round(per100g.protein_g),
+    fat_g: round(per100g.fat_g),
+    carbs_g: round(per100g.carbs_g),
+  };
+}
+
+/**
+ * Resolves the logged portion for a manual (non-AI) log. Grams win over servings;
+ * with neither given, one catalogue serving is assumed.
+ */
+export function resolveFoodPortion(
+  food: { per100g: NutritionTotals; servingGrams: number },
+  portion: { grams?: number; servings?: number },
+) {
+  const grams =
+    typeof portion.grams === 'number'
+      ? portion.grams
+      : food.servingGrams * (typeof portion.servings === 'number' ? portion.servings : 1);
+  const roundedGrams = Math.round(grams * 10) / 10;
+  return { grams: roundedGrams, totals: scaleFoodNutrients(food.per100g, roundedGrams) };
+}
@@ -132,7 +132,7 @@ export interface NutritionPlanResult {
   proteinGrams: number;
   fatGrams: number;
   carbGrams: number;
-  method: 'auto';
+  method: 'auto' | 'adaptive';
 }
 
 export type NutritionPlanComputation = NutritionPlanResult & {
@@ -270,7 +270,18 @@ function clamp(value: number, min: number, max: number) {
   return Math.min(Math.max(value, min), max);
 }
 
-export function computeNutritionPlan(input: NutritionPlanInput): NutritionPlanComputation | null {
+export interface NutritionPlanOptions {
+  /**
+   * Maintenance measured from logged intake and weight change. Replaces the BMR × activity
+   * estimate and marks the plan as `adaptive`.
+   */
+  maintenanceCalories?: number;
+}
+
+export function computeNutritionPlan(
+  input: NutritionPlanInput,
+  options: NutritionPlanOptions = {},
+): NutritionPlanComputation | null {
   const context = guardInputs(input);
   if (!context) return null;
 
@@ -279,7 +290,10 @@ export function computeNutritionPlan(input: NutritionPlanInput): NutritionPlanCo
     return null;
   }
 
-  const maintenanceCalories = bmr * context.activityFactor;
+  const measuredMaintenance = options.maintenanceCalories;
+  const isAdaptive =
+    measuredMaintenance != null && Number.isFinite(measuredMaintenance) && measuredMaintenance > 0;
+  const maintenanceCalories = isAdaptive ? measuredMaintenance : bmr * context.activityFactor;
   const adjustment = determineCalorieAdjustment(context, maintenanceCalories);
 
   const minCalories = Math.max(bmr * 1.2, 1200);
@@ -356,7 +370,7 @@ export function computeNutritionPlan(input: NutritionPlanInput): NutritionPlanCo
     proteinGrams: Math.round(proteinGrams),
     fatGrams: Math.round(fatGrams),
     carbGrams: Math.round(carbGrams),
-    method: 'auto',
+    method: isAdaptive ? 'adaptive' : 'auto',
     meta: {
       bmr: Math.round(bmr),
       activityFactor: context.activityFactor,
@@ -0,0 +1,46 @@
+/** Quick-add sizes offered until the user configures their own cups. */
+export const DEFAULT_HYDRATION_CUP_SIZES_ML = [150, 250, 500] as const;
+export const MAX_HYDRATION_CUP_SIZES = 4;
+/** Fallback daily water target when no body weight is recorded. */
+export const DEFAULT_HYDRATION_TARGET_ML = 2000;
+/** Fluid from drinks per kilogram of body weight (food water excluded). */
+const HYDRATION_ML_PER_KG = 35;
+const HYDRATION_TARGET_BOUNDS = { min: 1200, max: 4000 } as const;
+/** Local window (minutes after midnight) over which the daily target is expected to be spread. */
+export const HYDRATION_DAY_WINDOW = { start: 8 * 60, end: 21 * 60 } as const;
+/** How far behind the expected pace intake must fall before a reminder is worth sending. */
+const HYDRATION_REMINDER_GAP_ML = 500;
+
+export function computeHydrationTargetMl(weightKg: number | null | undefined) {
+  if (typeof weightKg !== 'number' || !Number.isFinite(weightKg) || weightKg <= 0) {
+    return DEFAULT_HYDRATION_TARGET_ML;
+  }
+  const raw = Math.round((weightKg * HYDRATION_ML_PER_KG) / 50) * 50;
+  return Math.min(Math.max(raw, HYDRATION_TARGET_BOUNDS.min), HYDRATION_TARGET_BOUNDS.max);
+}
+
+/** Returns the user's cups sorted and de-duplicated, or the defaults when none are stored. */
+export function resolveHydrationCupSizes(sizes: readonly number[] | null | undefined) {
+  const cleaned = [...new Set((sizes ?? []).filter((size) => Number.isInteger(size) && size > 0))]
+    .sort((a, b) => a - b)
+    .slice(0, MAX_HYDRATION_CUP_SIZES);
+  return cleaned.length > 0 ? cleaned : [...DEFAULT_HYDRATION_CUP_SIZES_ML];
+}
+
+/** Amount that should have been drunk by `minutes` if the target were spread evenly over the day window. */
+export function expectedHydrationByMinutes(targetMl: number, minutes: number) {
+  const { start, end } = HYDRATION_DAY_WINDOW;
+  const fraction = Math.min(Math.max((minutes - start) / (end - start), 0), 1);
+  return Math.round(targetMl * fraction);
+}
+
+export function isBehindHydrationPace(params: { totalMl: number; targetMl: number; minutes: number }) {
+  if (params.minutes < HYDRATION_DAY_WINDOW.start || params.minutes >= HYDRATION_DAY_WINDOW.end) {
+    return false;
+  }
+  if (params.totalMl >= params.targetMl) {
+    return false;
+  }
+  const expected = expectedHydrationByMinutes(params.targetMl, params.minutes);
+  return expected - params.totalMl >= HYDRATION_REMINDER_GAP_ML;
+}
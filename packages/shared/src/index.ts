@@ -31,6 +31,25 @@ export const NutritionTotalsSchema = z.object({
   carbs_g: z.number().nonnegative(),
 });
 
+export type NutritionTotals = z.infer<typeof NutritionTotalsSchema>;
+
+const MicroValueSchema = z.number().nonnegative().optional();
+
+export const MicronutrientsSchema = z.object({
+  fiber_g: MicroValueSchema,
+  sugar_g: MicroValueSchema,
+  saturated_fat_g: MicroValueSchema,
+  sodium_mg: MicroValueSchema,
+  salt_g: MicroValueSchema,
+  potassium_mg: MicroValueSchema,
+  calcium_mg: MicroValueSchema,
+  iron_mg: MicroValueSchema,
+  vitamin_c_mg: MicroValueSchema,
+  vitamin_d_ug: MicroValueSchema,
+});
+
+export type Micronutrients = z.infer<typeof MicronutrientsSchema>;
+
 export const NutritionItemSchema = z.object({
   name: z.string(),
   grams: z.number().nonnegative(),
@@ -50,13 +69,52 @@ export const HedgeAttemptReportSchema = z.object({
 
 export type HedgeAttemptReport = z.infer<typeof HedgeAttemptReportSchema>;
 
+/**
+ * One dish of a multi-dish meal (e.g. a tray or set meal). `totals` of all dishes add up to the meal
+ * totals; `item_indexes` point into the meal's `items` so item translations carry over.
+ */
+export const MealDishSchema = z.object({
+  dish: z.string(),
+  totals: NutritionTotalsSchema,
+  item_indexes: z.array(z.number().int().nonnegative()).default([]),
+});
+
+export type MealDish = z.infer<typeof MealDishSchema>;
+
+export const PortionCalibrationSourceSchema = z.enum(['reference', 'history']);
+export type PortionCalibrationSource = z.infer<typeof PortionCalibrationSourceSchema>;
+
+/**
+ * A portion hint the model says it used. The model only returns `label`; the server fills in the
+ * rest from the hints it sent, so a reference is shown with its grams and a learned one with its factor.
+ */
+export const AppliedPortionCalibrationSchema = z.object({
+  label: z.string(),
+  source: PortionCalibrationSourceSchema.optional(),
+  grams: z.number().positive().optional(),
+  factor: z.number().positive().optional(),
+});
+
+export type AppliedPortionCalibration = z.infer<typeof AppliedPortionCalibrationSchema>;
+
+/** A follow-up question the model asks when it is unsure of the meal; `options` are short quick replies. */
+export const ModelClarifyingQuestionSchema = z.object({
+  question: z.string(),
+  options: z.array(z.string()).optional(),
+});
+
 export const GeminiNutritionResponseSchema = z.object({
   dish: z.string(),
   confidence: z.number().min(0).max(1),
   totals: NutritionTotalsSchema,
+  micros: MicronutrientsSchema.optional(),
   items: z.array(NutritionItemSchema).default([]),
   warnings: z.array(z.string()).default([]),
   landing_type: z.string().optional().nullable(),
+  dishes: z.array(MealDishSchema).optional(),
+  // A malformed echo of the portion hints must not fail the whole analysis.
+  calibration_applied: z.array(AppliedPortionCalibrationSchema).optional().catch(undefined),
+  clarifying_questions: z.array(ModelClarifyingQuestionSchema).optional().catch(undefined),
   meta: z
     .object({
       model: z.string().optional(),
@@ -65,6 +123,11 @@ export const GeminiNutritionResponseSchema = z.object({
       latencyMs: z.number().nonnegative().optional(),
       attemptReports: z.array(HedgeAttemptReportSchema).optional(),
       favoriteId: z.number().int().optional(),
+      foodId: z.number().int().optional(),
+      barcode: z.string().optional(),
+      recipeId: z.number().int().optional(),
+      cacheHit: z.boolean().optional(),
+      splitFromLogId: z.string().optional(),
       translation: z
         .object({
           locale: LocaleSchema,
@@ -72,6 +135,14 @@ export const GeminiNutritionResponseSchema = z.object({
         })
         .optional(),
       sourceMealLogId: z.string().optional(),
+      /** What the voice memo of the log was transcribed to. */
+      transcript: z.string().optional(),
+      /** Chain menu item the message was matched to; kept after switching to the AI estimate. */
+      chainMenuItemId: z.number().int().optional(),
+      /** The message that was matched, analyzed when the user switches to the AI estimate. */
+      chainMenuQuery: z.string().optional(),
+      /** The other estimate of a chain menu log, restored when the user switches back to it. */
+      alternateEstimate: z.any().optional(),
     })
     .optional(),
 });
@@ -136,6 +207,70 @@ export const FavoriteMealUpdateRequestSchema = FavoriteMealDraftSchema.partial()
 
 export type FavoriteMealUpdateRequest = z.infer<typeof FavoriteMealUpdateRequestSchema>;
 
+export const FoodSearchCandidateSchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  locale: LocaleSchema,
+  matched_name: z.string().nullable().optional(),
+  calories: z.number().nonnegative(),
+  protein_g: z.number().nonnegative(),
+  fat_g: z.number().nonnegative(),
+  carbs_g: z.number().nonnegative(),
+  serving: z.object({
+    label: z.string().nullable(),
+    grams: z.number().positive(),
+  }),
+  per_100g: NutritionTotalsSchema,
+  source: z.string(),
+  score: z.number().optional(),
+});
+
+export type FoodSearchCandidate = z.infer<typeof FoodSearchCandidateSchema>;
+
+export const FoodSearchResponseSchema = z.object({
+  q: z.string(),
+  candidates: z.array(FoodSearchCandidateSchema),
+});
+
+export type FoodSearchResponse = z.infer<typeof FoodSearchResponseSchema>;
+
+export const FoodImportRowSchema = z.object({
+  source: z.string().min(1),
+  source_code: z.string().min(1),
+  locale: LocaleSchema,
+  name: z.string().min(1),
+  aliases: z.array(z.string().min(1)).default([]),
+  kcal_per_100g: z.number().nonnegative(),
+  protein_g_per_100g: z.number().nonnegative(),
+  fat_g_per_100g: z.number().nonnegative(),
+  carbs_g_per_100g: z.number().nonnegative(),
+  serving_grams: z.number().positive().nullable().optional(),
+  serving_label: z.string().min(1).nullable().optional(),
+});
+
+export type FoodImportRow = z.infer<typeof FoodImportRowSchema>;
+
+/** One menu item (one size) with the nutrition its chain publishes. */
+export const ChainMenuImportRowSchema = z.object({
+  source: z.string().min(1),
+  source_code: z.string().min(1),
+  locale: LocaleSchema,
+  chain: z.string().min(1),
+  chain_aliases: z.array(z.string().min(1)).default([]),
+  name: z.string().min(1),
+  aliases: z.array(z.string().min(1)).default([]),
+  size_label: z.string().min(1).nullable().optional(),
+  kcal: z.number().nonnegative(),
+  protein_g: z.number().nonnegative(),
+  fat_g: z.number().nonnegative(),
+  carbs_g: z.number().nonnegative(),
+  salt_g: z.number().nonnegative().nullable().optional(),
+  serving_grams: z.number().positive().nullable().optional(),
+  source_url: z.string().url().nullable().optional(),
+});
+
+export type ChainMenuImportRow = z.infer<typeof ChainMenuImportRowSchema>;
+
 export const MealLogAiRawSchema = GeminiNutritionResponseSchema.extend({
   locale: LocaleSchema.optional(),
   translations: z.record(LocaleSchema, GeminiNutritionResponseSchema).optional(),
@@ -146,6 +281,64 @@ export type MealLogAiRaw = z.infer<typeof MealLogAiRawSchema>;
 export const MealPeriodSchema = z.enum(['breakfast', 'lunch', 'dinner', 'snack']);
 export type MealPeriod = z.infer<typeof MealPeriodSchema>;
 
+export const MANUAL_LOG_LANDING_TYPE = 'manual';
+
+const ManualMealLogPortionSchema = z.object({
+  grams: z.number().positive().max(5000).optional(),
+  servings: z.number().positive().max(50).optional(),
+  meal_period: MealPeriodSchema.optional(),
+});
+
+const SINGLE_PORTION_RULE = [
+  (data: { grams?: number; servings?: number }) => data.grams === undefined || data.servings === undefined,
+  { message: 'Specify either grams or servings, not both' },
+] as const;
+
+export const ManualMealLogRequestSchema = ManualMealLogPortionSchema.refine(...SINGLE_PORTION_RULE);
+
+export type ManualMealLogRequest = z.infer<typeof ManualMealLogRequestSchema>;
+
+export const FoodProductSourceSchema = z.enum(['catalogue', 'user', 'ai_label']);
+export type FoodProductSource = z.infer<typeof FoodProductSourceSchema>;
+
+/** Editable nutrition-facts data; what the user confirms after a scan. */
+export const FoodProductDraftSchema = z.object({
+  name: z.string().min(1).max(200),
+  brand: z.string().max(200).nullable().optional(),
+  serving: z.object({
+    label: z.string().max(100).nullable(),
+    grams: z.number().positive().max(5000),
+  }),
+  per_100g: NutritionTotalsSchema,
+});
+
+export type FoodProductDraft = z.infer<typeof FoodProductDraftSchema>;
+
+export const FoodProductSchema = FoodProductDraftSchema.extend({
+  barcode: z.string().regex(/^\d{8}$|^\d{13,14}$/),
+  locale: LocaleSchema,
+  source: FoodProductSourceSchema,
+  confirmed: z.boolean(),
+});
+
+export type FoodProduct = z.infer<typeof FoodProductSchema>;
+
+export const FoodProductLookupResponseSchema = z.object({
+  ok: z.literal(true),
+  barcode: z.string(),
+  found: z.boolean(),
+  product: FoodProductSchema.nullable(),
+});
+
+export type FoodProductLookupResponse = z.infer<typeof FoodProductLookupResponseSchema>;
+
+/** Logs a scanned product. `product` carries user-confirmed data to be saved back for the next scan. */
+export const BarcodeMealLogRequestSchema = ManualMealLogPortionSchema.extend({
+  product: FoodProductDraftSchema.optional(),
+}).refine(...SINGLE_PORTION_RULE);
+
+export type BarcodeMealLogRequest = z.infer<typeof BarcodeMealLogRequestSchema>;
+
 export const IapPlatformSchema = z.enum(['APP_STORE', 'GOOGLE_PLAY']);
 export type IapPlatform = z.infer<typeof IapPlatformSchema>;
 
@@ -190,6 +383,16 @@ export type UserTier = z.infer<typeof UserTierSchema>;
 export const PremiumSourceSchema = z.enum(['REFERRAL_FRIEND', 'REFERRAL_REFERRER', 'PURCHASE', 'ADMIN_GRANT']);
 export type PremiumSource = z.infer<typeof PremiumSourceSchema>;
 
+export const SubscriptionStatusSchema = z.enum([
+  'ACTIVE',
+  'GRACE_PERIOD',
+  'BILLING_RETRY',
+  'EXPIRED',
+  'REVOKED',
+  'REFUNDED',
+]);
+export type SubscriptionStatus = z.infer<typeof SubscriptionStatusSchema>;
+
 export const PremiumGrantSchema = z.object({
   source: PremiumSourceSchema,
   days: z.number().int().positive(),
@@ -205,6 +408,7 @@ export const PremiumStatusSchema = z.object({
   source: PremiumSourceSchema.nullable(),
   daysRemaining: z.number().int().nonnegative(),
   expiresAt: z.string().nullable(),
+  subscriptionStatus: SubscriptionStatusSchema.nullable().optional(),
   grants: z.array(PremiumGrantSchema).default([]),
 });
 
@@ -222,6 +426,15 @@ export const AiUsageSummarySchema = z.object({
 
 export type AiUsageSummary = z.infer<typeof AiUsageSummarySchema>;
 
+export const FoodProductLabelResponseSchema = z.object({
+  ok: z.literal(true),
+  barcode: z.string(),
+  product: FoodProductSchema,
+  usage: AiUsageSummarySchema.optional(),
+});
+
+export type FoodProductLabelResponse = z.infer<typeof FoodProductLabelResponseSchema>;
+
 export const AiReportPeriodSchema = z.enum(['daily', 'weekly', 'monthly']);
 export type AiReportPeriod = z.infer<typeof AiReportPeriodSchema>;
 
@@ -485,6 +698,47 @@ export const LoginRequestSchema = z.object({
   password: z.string().min(8),
 });
 
+export const PasswordForgotRequestSchema = z.object({
+  email: z.string().email(),
+});
+
+export type PasswordForgotRequest = z.infer<typeof PasswordForgotRequestSchema>;
+
+export const PasswordResetRequestSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(8),
+});
+
+export type PasswordResetRequest = z.infer<typeof PasswordResetRequestSchema>;
+
+export const EmailVerifyRequestSchema = z.object({
+  token: z.string().min(1),
+});
+
+export type EmailVerifyRequest = z.infer<typeof EmailVerifyRequestSchema>;
+
+export const DeviceSessionSchema = z.object({
+  /** Opaque handle for revocation; never the session id itself. */
+  id: z.string(),
+  kind: z.enum(['cookie', 'token']),
+  current: z.boolean(),
+  device_name: z.string().nullable(),
+  platform: z.enum(['ios', 'android', 'web']).nullable(),
+  ip_address: z.string().nullable(),
+  region: z.string().nullable(),
+  created_at: z.string().datetime(),
+  last_seen_at: z.string().datetime(),
+});
+
+export type DeviceSession = z.infer<typeof DeviceSessionSchema>;
+
+export const DeviceSessionListResponseSchema = z.object({
+  ok: z.literal(true),
+  sessions: z.array(DeviceSessionSchema),
+});
+
+export type DeviceSessionListResponse = z.infer<typeof DeviceSessionListResponseSchema>;
+
 export const AppleAuthRequestSchema = z.object({
   identityToken: z.string().min(10),
   authorizationCode: z.string().min(4).optional(),
@@ -516,6 +770,7 @@ export const MealLogSummarySchema = z.object({
   requested_locale: LocaleSchema.optional(),
   fallback_applied: z.boolean().optional(),
   favorite_meal_id: z.number().int().nullable().optional(),
+  group_id: z.string().nullable().optional(),
 });
 
 export type MealLogSummary = z.infer<typeof MealLogSummarySchema>;
@@ -543,6 +798,35 @@ export const MealLogEditEntrySchema = z.object({
 
 export type MealLogEditEntry = z.infer<typeof MealLogEditEntrySchema>;
 
+export const MealLogItemSchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  grams: z.number().nonnegative(),
+  calories: z.number().nonnegative(),
+  protein_g: z.number().nonnegative(),
+  fat_g: z.number().nonnegative(),
+  carbs_g: z.number().nonnegative(),
+  order_index: z.number().int().nonnegative(),
+});
+
+export type MealLogItem = z.infer<typeof MealLogItemSchema>;
+
+/**
+ * One row of an item edit. Rows with `id` update an existing item (nutrients scale with
+ * grams unless given explicitly); rows without `id` are added; missing ids are removed.
+ */
+export const MealLogItemInputSchema = z.object({
+  id: z.number().int().optional(),
+  name: z.string().trim().min(1),
+  grams: z.coerce.number().nonnegative(),
+  calories: z.coerce.number().nonnegative().optional(),
+  protein_g: z.coerce.number().nonnegative().optional(),
+  fat_g: z.coerce.number().nonnegative().optional(),
+  carbs_g: z.coerce.number().nonnegative().optional(),
+});
+
+export type MealLogItemInput = z.infer<typeof MealLogItemInputSchema>;
+
 export const MealPeriodHistoryEntrySchema = z.object({
   id: z.number().int(),
   changed_at: z.string(),
@@ -553,6 +837,57 @@ export const MealPeriodHistoryEntrySchema = z.object({
 
 export type MealPeriodHistoryEntry = z.infer<typeof MealPeriodHistoryEntrySchema>;
 
+const MealLogReanalysisEstimateSchema = z.object({
+  dish: z.string(),
+  totals: NutritionTotalsSchema,
+});
+
+/** A newer estimate from a re-analysis run, kept for the user to review because they had edited the log. */
+export const MealLogReanalysisSchema = z.object({
+  id: z.number().int(),
+  prompt_version: z.string(),
+  model: z.string().nullable(),
+  created_at: z.string(),
+  previous: MealLogReanalysisEstimateSchema,
+  proposed: MealLogReanalysisEstimateSchema,
+});
+
+export type MealLogReanalysis = z.infer<typeof MealLogReanalysisSchema>;
+
+export const MealLogReanalysisResolveRequestSchema = z.object({
+  action: z.enum(['accept', 'dismiss']),
+});
+
+export type MealLogReanalysisResolveRequest = z.infer<typeof MealLogReanalysisResolveRequestSchema>;
+
+/** Which logs a re-analysis job goes through; every field narrows the selection. */
+export const MealReanalysisFilterSchema = z.object({
+  userId: z.number().int().positive().optional(),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD').optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD').optional(),
+  promptVersion: z.string().min(1).optional(),
+});
+
+export type MealReanalysisFilter = z.infer<typeof MealReanalysisFilterSchema>;
+
+/** The official menu item a log was matched to; `active` is false once the user switched to the AI estimate. */
+export const MealLogChainMenuSourceSchema = z.object({
+  item_id: z.number().int(),
+  chain: z.string(),
+  name: z.string(),
+  size_label: z.string().nullable(),
+  source_url: z.string().nullable(),
+  active: z.boolean(),
+});
+
+export type MealLogChainMenuSource = z.infer<typeof MealLogChainMenuSourceSchema>;
+
+export const MealLogEstimateSourceRequestSchema = z.object({
+  source: z.enum(['chain_menu', 'ai']),
+});
+
+export type MealLogEstimateSourceRequest = z.infer<typeof MealLogEstimateSourceRequestSchema>;
+
 export const MealLogDetailSchema = z.object({
   id: z.string(),
   food_item: z.string(),
@@ -568,12 +903,98 @@ export const MealLogDetailSchema = z.object({
   requested_locale: LocaleSchema.optional(),
   fallback_applied: z.boolean().optional(),
   favorite_meal_id: z.number().int().nullable().optional(),
+  group_id: z.string().nullable().optional(),
+  items: z.array(MealLogItemSchema).default([]),
   history: z.array(MealLogEditEntrySchema),
   time_history: z.array(MealPeriodHistoryEntrySchema),
+  reanalysis: MealLogReanalysisSchema.nullable().optional(),
+  chain_menu: MealLogChainMenuSourceSchema.nullable().optional(),
 });
 
 export type MealLogDetail = z.infer<typeof MealLogDetailSchema>;
 
+export const MealLogSplitResponseSchema = z.object({
+  ok: z.literal(true),
+  group_id: z.string(),
+  items: z.array(
+    z.object({
+      id: z.string(),
+      dish: z.string(),
+      calories: z.number(),
+    }),
+  ),
+});
+
+export type MealLogSplitResponse = z.infer<typeof MealLogSplitResponseSchema>;
+
+export const ClarifyingQuestionSchema = z.object({
+  id: z.string(),
+  question: z.string(),
+  options: z.array(z.string()),
+});
+
+export type ClarifyingQuestion = z.infer<typeof ClarifyingQuestionSchema>;
+
+/** Returned instead of a saved log when the estimate is uncertain and the client asked to be consulted. */
+export const MealLogClarificationResponseSchema = z.object({
+  ok: z.literal(true),
+  success: z.literal(false),
+  status: z.literal('needs_clarification'),
+  requestKey: z.string(),
+  dish: z.string(),
+  confidence: z.number(),
+  totals: NutritionTotalsSchema,
+  questions: z.array(ClarifyingQuestionSchema).min(1),
+});
+
+export type MealLogClarificationResponse = z.infer<typeof MealLogClarificationResponseSchema>;
+
+/** An empty `answers` list saves the draft estimate as it is. */
+export const MealLogClarifyRequestSchema = z.object({
+  answers: z
+    .array(
+      z.object({
+        question_id: z.string(),
+        answer: z.string().trim().max(200),
+      }),
+    )
+    .max(10)
+    .default([]),
+});
+
+export type MealLogClarifyRequest = z.infer<typeof MealLogClarifyRequestSchema>;
+
+/**
+ * What an ingest request keeps while it waits for answers; the photos and the voice memo, already
+ * transcribed into `message`, are saved with the log afterwards.
+ */
+export const PendingMealClarificationSchema = z.object({
+  message: z.string(),
+  locale: LocaleSchema,
+  timezone: z.string(),
+  questions: z.array(ClarifyingQuestionSchema),
+  draft: GeminiNutritionResponseSchema,
+  images: z
+    .array(
+      z.object({
+        base64: z.string(),
+        mimeType: z.string(),
+        sizeBytes: z.number().int().nonnegative(),
+      }),
+    )
+    .default([]),
+  audio: z
+    .object({
+      base64: z.string(),
+      mimeType: z.string(),
+      sizeBytes: z.number().int().nonnegative(),
+    })
+    .nullable()
+    .default(null),
+});
+
+export type PendingMealClarification = z.infer<typeof PendingMealClarificationSchema>;
+
 export const ApiSuccessSchema = z.object({ ok: z.literal(true) });
 export const ApiErrorSchema = z.object({ ok: z.literal(false), error: z.string().optional() });
 
@@ -611,10 +1032,17 @@ export const UpdateMealLogRequestSchema = z
     fat_g: z.coerce.number().nonnegative().optional(),
     carbs_g: z.coerce.number().nonnegative().optional(),
     meal_period: MealPeriodSchema.optional(),
+    items: z.array(MealLogItemInputSchema).max(30).optional(),
   })
   .refine((data) => Object.keys(data).length > 0, {
     message: 'At least one field must be provided for update',
-  });
+  })
+  .refine(
+    (data) =>
+      !data.items ||
+      [data.calories, data.protein_g, data.fat_g, data.carbs_g].every((value) => value === undefined),
+    { message: 'Totals are recomputed from items; send either items or totals' },
+  );
 
 export type UpdateMealLogRequest = z.infer<typeof UpdateMealLogRequestSchema>;
 
@@ -640,6 +1068,16 @@ const MacroTotalsSchema = z.object({
   carbs_g: z.number(),
 });
 
+/** Planned meals whose date falls inside the summary range; `actual` is `macros.total`. */
+export const DashboardPlanSchema = z.object({
+  entries: z.number().int().nonnegative(),
+  eaten_entries: z.number().int().nonnegative(),
+  planned: MacroTotalsSchema,
+  eaten: MacroTotalsSchema,
+});
+
+export type DashboardPlan = z.infer<typeof DashboardPlanSchema>;
+
 export const DashboardSummarySchema = z.object({
   period: MealPeriodFilterSchema,
   range: z.object({
@@ -661,11 +1099,18 @@ export const DashboardSummarySchema = z.object({
       key: z.string(),
       label: z.string(),
       unit: z.string(),
+      kind: z.enum(['limit', 'goal']).optional(),
       total: z.number(),
       target: z.number(),
       delta: z.number(),
     }),
   ),
+  /** Today's drinks, independent of the selected period. */
+  hydration: z.object({
+    today_ml: z.number(),
+    target_ml: z.number(),
+  }),
+  plan: DashboardPlanSchema,
   metadata: z.object({
     generatedAt: z.string(),
   }),
@@ -690,6 +1135,319 @@ export const CalorieTrendResponseSchema = z.object({
 export type CalorieTrendPoint = z.infer<typeof CalorieTrendPointSchema>;
 export type CalorieTrendResponse = z.infer<typeof CalorieTrendResponseSchema>;
 
+export const WeightEntrySchema = z.object({
+  id: z.number().int(),
+  weight_kg: z.number().positive(),
+  recorded_at: z.string().datetime(),
+  note: z.string().nullable(),
+});
+
+export type WeightEntry = z.infer<typeof WeightEntrySchema>;
+
+export const WeightEntryCreateRequestSchema = z.object({
+  weight_kg: z.coerce.number().min(20).max(400),
+  recorded_at: z.string().datetime().optional(),
+  note: z.string().trim().max(200).nullable().optional(),
+});
+
+export type WeightEntryCreateRequest = z.infer<typeof WeightEntryCreateRequestSchema>;
+
+export const WeightEntryUpdateRequestSchema = WeightEntryCreateRequestSchema.partial().refine(
+  (data) => Object.keys(data).length > 0,
+  { message: 'At least one field must be provided' },
+);
+
+export type WeightEntryUpdateRequest = z.infer<typeof WeightEntryUpdateRequestSchema>;
+
+export const WeightTrendPointSchema = z.object({
+  date: z.string(),
+  weight_kg: z.number(),
+  trend_kg: z.number(),
+});
+
+export type WeightTrendPoint = z.infer<typeof WeightTrendPointSchema>;
+
+export const WeightProjectionStatusSchema = z.enum([
+  'no_goal',
+  'insufficient_data',
+  'reached',
+  'on_track',
+  'stalled',
+  'off_track',
+]);
+
+export const WeightProjectionSchema = z.object({
+  status: WeightProjectionStatusSchema,
+  current_trend_kg: z.number().nullable(),
+  target_weight_kg: z.number().nullable(),
+  weekly_rate_kg: z.number().nullable(),
+  estimated_date: z.string().datetime().nullable(),
+  planned_date: z.string().datetime().nullable(),
+});
+
+export type WeightProjection = z.infer<typeof WeightProjectionSchema>;
+
+export const WeightLogResponseSchema = z.object({
+  ok: z.literal(true),
+  items: z.array(WeightEntrySchema),
+  trend: z.array(WeightTrendPointSchema),
+  projection: WeightProjectionSchema,
+});
+
+export type WeightLogResponse = z.infer<typeof WeightLogResponseSchema>;
+
+export const WeightEntryResponseSchema = z.object({
+  ok: z.literal(true),
+  item: WeightEntrySchema,
+});
+
+export const HydrationBeverageSchema = z.enum(['water', 'tea', 'coffee', 'other']);
+export type HydrationBeverage = z.infer<typeof HydrationBeverageSchema>;
+
+export const HydrationEntrySchema = z.object({
+  id: z.number().int(),
+  amount_ml: z.number().int().positive(),
+  beverage: HydrationBeverageSchema,
+  recorded_at: z.string().datetime(),
+});
+
+export type HydrationEntry = z.infer<typeof HydrationEntrySchema>;
+
+export const HydrationEntryCreateRequestSchema = z.object({
+  amount_ml: z.coerce.number().int().min(10).max(3000),
+  beverage: HydrationBeverageSchema.default('water'),
+  recorded_at: z.string().datetime().optional(),
+});
+
+export type HydrationEntryCreateRequest = z.input<typeof HydrationEntryCreateRequestSchema>;
+
+export const HydrationDaySchema = z.object({
+  date: z.string(),
+  total_ml: z.number().int().nonnegative(),
+  target_ml: z.number().int().positive(),
+  cup_sizes_ml: z.array(z.number().int().positive()),
+  items: z.array(HydrationEntrySchema),
+});
+
+export type HydrationDay = z.infer<typeof HydrationDaySchema>;
+
+export const HydrationResponseSchema = z.object({
+  ok: z.literal(true),
+  day: HydrationDaySchema,
+});
+
+export type HydrationResponse = z.infer<typeof HydrationResponseSchema>;
+
+export const RecipeIngredientSourceSchema = z.enum(['catalogue', 'manual', 'ai']);
+export type RecipeIngredientSource = z.infer<typeof RecipeIngredientSourceSchema>;
+
+/**
+ * One ingredient line as entered. Lines linked to a catalogue food are computed from it,
+ * lines with `totals` are kept as typed, and the rest are estimated by AI when saved.
+ */
+export const RecipeIngredientInputSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  grams: z.number().positive().max(10000),
+  food_id: z.number().int().positive().nullable().optional(),
+  totals: NutritionTotalsSchema.nullable().optional(),
+});
+
+export type RecipeIngredientInput = z.infer<typeof RecipeIngredientInputSchema>;
+
+export const RecipeIngredientSchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  grams: z.number().positive(),
+  food_id: z.number().int().nullable(),
+  source: RecipeIngredientSourceSchema,
+  totals: NutritionTotalsSchema,
+  order_index: z.number().int().nonnegative(),
+});
+
+export type RecipeIngredient = z.infer<typeof RecipeIngredientSchema>;
+
+export const RecipeSchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  notes: z.string().nullable(),
+  servings: z.number().positive(),
+  /** Cooked weight of the whole batch; grams per serving fall back to the raw ingredient weight. */
+  yield_grams: z.number().positive().nullable(),
+  totals: NutritionTotalsSchema,
+  per_serving: NutritionTotalsSchema,
+  serving_grams: z.number().nonnegative(),
+  ingredients: z.array(RecipeIngredientSchema),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export type Recipe = z.infer<typeof RecipeSchema>;
+
+export const RecipeCreateRequestSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  notes: z.string().max(1000).nullable().optional(),
+  servings: z.number().positive().max(100),
+  yield_grams: z.number().positive().max(50000).nullable().optional(),
+  ingredients: z.array(RecipeIngredientInputSchema).min(1).max(50),
+});
+
+export type RecipeCreateRequest = z.infer<typeof RecipeCreateRequestSchema>;
+
+export const RecipeUpdateRequestSchema = RecipeCreateRequestSchema.partial();
+export type RecipeUpdateRequest = z.infer<typeof RecipeUpdateRequestSchema>;
+
+export const RecipeListResponseSchema = z.object({
+  ok: z.literal(true),
+  items: z.array(RecipeSchema),
+});
+
+export const RecipeDetailResponseSchema = z.object({
+  ok: z.literal(true),
+  item: RecipeSchema,
+  usage: AiUsageSummarySchema.optional(),
+});
+
+export type RecipeDetailResponse = z.infer<typeof RecipeDetailResponseSchema>;
+
+export const RecipeLogRequestSchema = z.object({
+  servings: z.number().positive().max(20).default(1),
+  meal_period: MealPeriodSchema.optional(),
+});
+
+export type RecipeLogRequest = z.input<typeof RecipeLogRequestSchema>;
+
+const PlanDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+
+export const PlannedMealSourceSchema = z.enum(['favorite', 'recipe', 'text']);
+export type PlannedMealSource = z.infer<typeof PlannedMealSourceSchema>;
+
+export const PlannedMealStatusSchema = z.enum(['planned', 'eaten']);
+export type PlannedMealStatus = z.infer<typeof PlannedMealStatusSchema>;
+
+export const PlannedMealSchema = z.object({
+  id: z.number().int(),
+  date: PlanDateSchema,
+  meal_period: MealPeriodSchema,
+  source: PlannedMealSourceSchema,
+  favorite_id: z.number().int().nullable(),
+  recipe_id: z.number().int().nullable(),
+  name: z.string(),
+  servings: z.number().positive(),
+  /** Expected nutrition, frozen when the entry is planned. */
+  totals: NutritionTotalsSchema,
+  status: PlannedMealStatusSchema,
+  meal_log_id: z.string().nullable(),
+  eaten_at: z.string().datetime().nullable(),
+  created_at: z.string().datetime(),
+  updated_at: z.string().datetime(),
+});
+
+export type PlannedMeal = z.infer<typeof PlannedMealSchema>;
+
+export const PlannedMealCreateRequestSchema = z
+  .object({
+    date: PlanDateSchema,
+    meal_period: MealPeriodSchema,
+    favorite_id: z.number().int().positive().optional(),
+    recipe_id: z.number().int().positive().optional(),
+    servings: z.number().positive().max(20).optional(),
+    name: z.string().trim().min(1).max(120).optional(),
+    totals: NutritionTotalsSchema.optional(),
+  })
+  .refine(
+    (data) => [data.favorite_id, data.recipe_id, data.name].filter((value) => value !== undefined).length === 1,
+    { message: 'Plan exactly one of favorite_id, recipe_id or a free-text name' },
+  )
+  .refine((data) => data.name === undefined || data.totals !== undefined, {
+    message: 'Free-text plans need expected totals',
+    path: ['totals'],
+  });
+
+export type PlannedMealCreateRequest = z.infer<typeof PlannedMealCreateRequestSchema>;
+
+export const PlannedMealUpdateRequestSchema = z
+  .object({
+    date: PlanDateSchema.optional(),
+    meal_period: MealPeriodSchema.optional(),
+    servings: z.number().positive().max(20).optional(),
+    name: z.string().trim().min(1).max(120).optional(),
+    totals: NutritionTotalsSchema.optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided for update',
+  });
+
+export type PlannedMealUpdateRequest = z.infer<typeof PlannedMealUpdateRequestSchema>;
+
+export const PlannedMealListResponseSchema = z.object({
+  ok: z.literal(true),
+  from: PlanDateSchema,
+  to: PlanDateSchema,
+  items: z.array(PlannedMealSchema),
+});
+
+export type PlannedMealListResponse = z.infer<typeof PlannedMealListResponseSchema>;
+
+export const PlannedMealResponseSchema = z.object({
+  ok: z.literal(true),
+  item: PlannedMealSchema,
+  /** Set when the entry was just marked as eaten. */
+  logId: z.string().optional(),
+});
+
+export type PlannedMealResponse = z.infer<typeof PlannedMealResponseSchema>;
+
+/** A user's own serving size, e.g. "my rice bowl" = 180 g or "large gyudon at Sukiya" = 380 g. */
+export const PortionCalibrationSchema = z.object({
+  id: z.number().int(),
+  label: z.string(),
+  grams: z.number().positive(),
+  created_at: z.string().datetime(),
+  updated_at: z.string().datetime(),
+});
+
+export type PortionCalibration = z.infer<typeof PortionCalibrationSchema>;
+
+export const PortionCalibrationCreateRequestSchema = z.object({
+  label: z.string().trim().min(1).max(80),
+  grams: z.number().positive().max(5000),
+});
+
+export type PortionCalibrationCreateRequest = z.infer<typeof PortionCalibrationCreateRequestSchema>;
+
+export const PortionCalibrationUpdateRequestSchema = PortionCalibrationCreateRequestSchema.partial().refine(
+  (data) => Object.keys(data).length > 0,
+  { message: 'At least one field must be provided for update' },
+);
+
+export type PortionCalibrationUpdateRequest = z.infer<typeof PortionCalibrationUpdateRequestSchema>;
+
+/** Learned from the user's own edits: they keep scaling this item's grams by `factor`. */
+export const LearnedPortionFactorSchema = z.object({
+  name: z.string(),
+  factor: z.number().positive(),
+  samples: z.number().int().positive(),
+});
+
+export type LearnedPortionFactor = z.infer<typeof LearnedPortionFactorSchema>;
+
+export const PortionCalibrationListResponseSchema = z.object({
+  ok: z.literal(true),
+  items: z.array(PortionCalibrationSchema),
+  learned: z.array(LearnedPortionFactorSchema),
+});
+
+export type PortionCalibrationListResponse = z.infer<typeof PortionCalibrationListResponseSchema>;
+
+export const PortionCalibrationResponseSchema = z.object({
+  ok: z.literal(true),
+  item: PortionCalibrationSchema,
+});
+
+export type PortionCalibrationResponse = z.infer<typeof PortionCalibrationResponseSchema>;
+
+const HydrationCupSizesSchema = z.array(z.number().int().min(50).max(2000)).max(4);
+
 export const UserProfileSchema = z.object({
   display_name: z.string().trim().min(1).max(80).nullable().optional(),
   gender: GenderSchema.nullable().optional(),
@@ -715,6 +1473,7 @@ export const UserProfileSchema = z.object({
   activity_level: ActivityLevelStringSchema.nullable().optional(),
   apple_health_linked: z.boolean().optional(),
   questionnaire_completed_at: z.string().datetime().nullable().optional(),
+  hydration_cup_sizes_ml: HydrationCupSizesSchema.optional(),
   language: LocaleSchema.nullable().optional(),
   updated_at: z.string().optional(),
 });
@@ -761,6 +1520,7 @@ export const UpdateUserProfileRequestSchema = z
     activity_level: ActivityLevelStringSchema.nullable().optional(),
     apple_health_linked: z.boolean().optional(),
     questionnaire_completed_at: z.string().datetime().nullable().optional(),
+    hydration_cup_sizes_ml: HydrationCupSizesSchema.optional(),
     language: LocaleSchema.nullable().optional(),
     auto_recalculate: z.boolean().optional(),
   })
@@ -776,6 +1536,7 @@ export const NotificationSettingsSchema = z.object({
   quiet_hours_start: z.number().int().min(0).max(1439),
   quiet_hours_end: z.number().int().min(0).max(1439),
   daily_cap: z.number().int().min(1).max(5),
+  hydration_reminder_enabled: z.boolean(),
   timezone: z.string().min(1),
 });
 
@@ -813,6 +1574,49 @@ export const PushTokenDisableRequestSchema = z.object({
 
 export type PushTokenDisableRequest = z.infer<typeof PushTokenDisableRequestSchema>;
 
+export const AdaptivePlanConfidenceSchema = z.enum(['low', 'medium', 'high']);
+export type AdaptivePlanConfidence = z.infer<typeof AdaptivePlanConfidenceSchema>;
+
+export const AdaptivePlanStatusSchema = z.enum([
+  'ready',
+  'up_to_date',
+  'snoozed',
+  'insufficient_data',
+]);
+export type AdaptivePlanStatus = z.infer<typeof AdaptivePlanStatusSchema>;
+
+export const AdaptivePlanProposalSchema = z.object({
+  status: AdaptivePlanStatusSchema,
+  reason: z.enum(['intake', 'weight', 'profile', 'implausible']).nullable(),
+  window_days: z.number().int().positive(),
+  logged_days: z.number().int().nonnegative(),
+  weight_days: z.number().int().nonnegative(),
+  average_intake_kcal: z.number().nullable(),
+  weekly_weight_change_kg: z.number().nullable(),
+  formula_maintenance_kcal: z.number().nullable(),
+  estimated_maintenance_kcal: z.number().nullable(),
+  confidence: AdaptivePlanConfidenceSchema.nullable(),
+  current: MacroTotalsSchema.nullable(),
+  proposed: MacroTotalsSchema.nullable(),
+  declined_at: z.string().datetime().nullable(),
+});
+export type AdaptivePlanProposal = z.infer<typeof AdaptivePlanProposalSchema>;
+
+export const AdaptivePlanResponseSchema = z.object({
+  ok: z.literal(true),
+  proposal: AdaptivePlanProposalSchema,
+});
+
+export const AdaptivePlanDecisionRequestSchema = z.discriminatedUnion('decision', [
+  z.object({
+    decision: z.literal('accept'),
+    /** Calories the user saw; a mismatch means the proposal changed underneath them. */
+    expected_calories: z.number().int().positive(),
+  }),
+  z.object({ decision: z.literal('decline') }),
+]);
+export type AdaptivePlanDecisionRequest = z.infer<typeof AdaptivePlanDecisionRequestSchema>;
+
 export const OnboardingStatusSchema = z.object({
   completed: z.boolean(),
   completed_at: z.string().datetime().nullable().optional(),
@@ -821,3 +1625,22 @@ export const OnboardingStatusSchema = z.object({
 export type OnboardingStatus = z.infer<typeof OnboardingStatusSchema>;
 
 export * from './health.js';
+export * from './food-search.js';
+export * from './barcode.js';
+export * from './micronutrients.js';
+export * from './meal-log-items.js';
+export * from './weight.js';
+export * from './adaptive-plan.js';
+export * from './hydration.js';
+export * from './recipes.js';
+export * from './planned-meals.js';
+export * from './ai-providers.js';
+export * from './estimate-cache.js';
+export * from './meal-dishes.js';
+export * from './portion-calibration.js';
+export * from './meal-clarification.js';
+export * from './status-stream.js';
+export * from './meal-reanalysis.js';
+export * from './meal-audio.js';
+export * from './chain-menu.js';
+export * from './device-sessions.js';
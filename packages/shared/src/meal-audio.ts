@@ -0,0 +1,163 @@
+import type { AiProviderTarget } from './ai-providers.js';
+import type { Locale } from './index.js';
+
+/** Voice memo formats accepted in the `audio` field of `POST /api/log`. */
+export const MEAL_LOG_AUDIO_MIME_TYPES = [
+  'audio/m4a',
+  'audio/x-m4a',
+  'audio/mp4',
+  'audio/aac',
+  'audio/mpeg',
+  'audio/wav',
+  'audio/x-wav',
+  'audio/webm',
+  'audio/ogg',
+] as const;
+
+/** Same ceiling as a photo upload; a minute of AAC is well under 1 MB. */
+export const MEAL_LOG_MAX_AUDIO_BYTES = 5 * 1024 * 1024;
+
+/** Longer transcripts are cut here before they reach the analysis prompt. */
+export const MEAL_LOG_MAX_TRANSCRIPT_LENGTH = 500;
+
+export const SPEECH_TO_TEXT_PROVIDER_NAMES = ['gemini', 'openai', 'stub'] as const;
+export type SpeechToTextProviderName = (typeof SPEECH_TO_TEXT_PROVIDER_NAMES)[number];
+
+export const DEFAULT_SPEECH_TO_TEXT_MODELS: Record<SpeechToTextProviderName, string> = {
+  gemini: 'models/gemini-2.5-flash',
+  openai: 'whisper-1',
+  stub: 'stub',
+};
+
+export interface SpeechToTextAudio {
+  base64: string;
+  mimeType: string;
+  sizeBytes: number;
+}
+
+/** Parses `SPEECH_TO_TEXT_PROVIDER`; unset means the caller picks its default. */
+export function parseSpeechToTextProvider(
+  raw: string | undefined,
+): SpeechToTextProviderName | null {
+  const name = (raw ?? '').trim().toLowerCase();
+  if (!name) {
+    return null;
+  }
+  if (!(SPEECH_TO_TEXT_PROVIDER_NAMES as readonly string[]).includes(name)) {
+    throw new Error(`Unknown speech-to-text provider "${name}" in SPEECH_TO_TEXT_PROVIDER`);
+  }
+  return name as SpeechToTextProviderName;
+}
+
+/**
+ * Provider for an unset `SPEECH_TO_TEXT_PROVIDER`: the first provider of the meal analysis chain that can
+ * transcribe and is configured. The stub only stands in when analysis itself runs on the mock, so a
+ * deployment with real analysis never logs the stub phrase; null means voice memos are unavailable.
+ */
+export function resolveSpeechToTextProviderFromChain(
+  chain: readonly AiProviderTarget[],
+  configured: { gemini: boolean; openai: boolean },
+): SpeechToTextProviderName | null {
+  for (const { provider } of chain) {
+    if ((provider === 'gemini' || provider === 'openai') && configured[provider]) {
+      return provider;
+    }
+  }
+  return chain.every((target) => target.provider === 'mock') ? 'stub' : null;
+}
+
+/** Ignores codec parameters such as `audio/webm;codecs=opus`. */
+export function isSupportedMealAudioType(mimeType: string | null | undefined) {
+  const base = (mimeType ?? '').split(';')[0].trim().toLowerCase();
+  return (MEAL_LOG_AUDIO_MIME_TYPES as readonly string[]).includes(base);
+}
+
+export function normalizeTranscript(text: string) {
+  return text
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^["「『](.*)["」』]$/, '$1')
+    .trim()
+    .slice(0, MEAL_LOG_MAX_TRANSCRIPT_LENGTH);
+}
+
+/** The transcript is the meal message; text typed next to the memo is kept in front of it. */
+export function buildVoiceMealMessage(typed: string, transcript: string) {
+  const note = typed.trim();
+  return note ? `${note}\n${transcript}` : transcript;
+}
+
+export function buildSpeechToTextPrompt(locale: Locale) {
+  const language = locale.toLowerCase().startsWith('ja') ? 'Japanese' : 'English';
+  return `Transcribe this voice memo about a meal exactly as spoken. The speaker most likely uses ${language}. Reply with the transcript only, without quotes or commentary. Reply with an empty string when nothing intelligible is said.`;
+}
+
+export function buildGeminiTranscriptionRequestBody(audio: SpeechToTextAudio, locale: Locale) {
+  return {
+    contents: [
+      {
+        role: 'user',
+        parts: [
+          { inline_data: { mime_type: audio.mimeType, data: audio.base64 } },
+          { text: buildSpeechToTextPrompt(locale) },
+        ],
+      },
+    ],
+    generationConfig: { temperature: 0 },
+  };
+}
+
+export function extractGeminiTranscript(data: unknown): string | null {
+  const parts = (
+    data as { candidates?: Array<{ content?: { parts?: Array<{ text?: unknown }> } }> } | null
+  )?.candidates?.[0]?.content?.parts;
+  if (!Array.isArray(parts)) {
+    return null;
+  }
+  return parts.map((part) => (typeof part.text === 'string' ? part.text : '')).join('');
+}
+
+/** Whisper-style endpoints detect the format from the file name rather than the content type. */
+export function buildSpeechToTextFileName(mimeType: string) {
+  const type = mimeType.toLowerCase();
+  const extension = type.includes('mpeg')
+    ? 'mp3'
+    : type.includes('wav')
+      ? 'wav'
+      : type.includes('webm')
+        ? 'webm'
+        : type.includes('ogg')
+          ? 'ogg'
+          : type.includes('aac')
+            ? 'aac'
+            : 'm4a';
+  return `memo.${extension}`;
+}
+
+/** Response of an OpenAI-compatible `/audio/transcriptions` endpoint. */
+export function extractOpenAiTranscript(data: unknown): string | null {
+  const text = (data as { text?: unknown } | null)?.text;
+  return typeof text === 'string' ? text : null;
+}
+
+const STUB_TRANSCRIPT = 'toast with butter and a latte';
+
+/**
+ * Transcript of the `stub` provider. An upload that is plain UTF-8 text is read back as the
+ * transcript, so tests choose what was "said"; real audio always yields the same phrase.
+ */
+export function decodeStubTranscript(bytes: Uint8Array) {
+  try {
+    const text = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    const hasControlChars = Array.from(text).some((char) => {
+      const code = char.charCodeAt(0);
+      return code < 9 || (code > 13 && code < 32);
+    });
+    if (text.trim() && !hasControlChars) {
+      return text;
+    }
+  } catch {
+    // Binary audio; fall through to the fixed phrase.
+  }
+  return STUB_TRANSCRIPT;
+}
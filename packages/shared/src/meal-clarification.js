@@ -0,0 +1 @@
+export * from './meal-clarification.ts';
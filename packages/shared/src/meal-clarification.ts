@@ -0,0 +1,98 @@
+import type {
+  ClarifyingQuestion,
+  GeminiNutritionResponse,
+  MealLogClarificationResponse,
+  MealLogClarifyRequest,
+  PendingMealClarification,
+} from './index.js';
+import { normalizeEstimateText } from './estimate-cache.js';
+
+/** Estimates below this confidence ask the user before a log is saved. */
+export const MEAL_CLARIFICATION_CONFIDENCE_THRESHOLD = 0.6;
+export const MAX_CLARIFYING_QUESTIONS = 3;
+const MAX_CLARIFYING_OPTIONS = 4;
+
+/** Prompt lines shared by both runtimes; the questions are shown to the user as they are, so they use the user's language. */
+export const CLARIFYING_QUESTIONS_PROMPT_TYPE =
+  '"clarifying_questions"?: Array<{ "question": string, "options": string[] }>';
+export const CLARIFYING_QUESTIONS_PROMPT = `When your confidence is below ${MEAL_CLARIFICATION_CONFIDENCE_THRESHOLD}, also return up to ${MAX_CLARIFYING_QUESTIONS} short "clarifying_questions" that would change the estimate the most (e.g. how many pieces, which sauce or dressing, the portion size), each with 2-${MAX_CLARIFYING_OPTIONS} short answer "options". Write the questions and options in the language of the end-user locale.`;
+
+/**
+ * Questions worth asking for this estimate: none when the model is confident enough, otherwise the
+ * model's questions trimmed, de-duplicated and capped, with stable ids (`q1`, `q2`, ...) for the answers.
+ */
+export function selectClarifyingQuestions(
+  response: Pick<GeminiNutritionResponse, 'confidence' | 'clarifying_questions'>,
+): ClarifyingQuestion[] {
+  if (response.confidence >= MEAL_CLARIFICATION_CONFIDENCE_THRESHOLD) {
+    return [];
+  }
+  const seen = new Set<string>();
+  const questions: ClarifyingQuestion[] = [];
+  for (const candidate of response.clarifying_questions ?? []) {
+    const question = candidate.question.trim();
+    const key = normalizeEstimateText(question);
+    if (!key || seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    const options = [
+      ...new Set((candidate.options ?? []).map((option) => option.trim()).filter(Boolean)),
+    ];
+    questions.push({
+      id: `q${questions.length + 1}`,
+      question,
+      options: options.slice(0, MAX_CLARIFYING_OPTIONS),
+    });
+    if (questions.length >= MAX_CLARIFYING_QUESTIONS) {
+      break;
+    }
+  }
+  return questions;
+}
+
+export function buildMealLogClarificationResponse(
+  requestKey: string,
+  pending: Pick<PendingMealClarification, 'draft' | 'questions'>,
+): MealLogClarificationResponse {
+  return {
+    ok: true,
+    success: false,
+    status: 'needs_clarification',
+    requestKey,
+    dish: pending.draft.dish,
+    confidence: pending.draft.confidence,
+    totals: { ...pending.draft.totals },
+    questions: pending.questions.map((question) => ({
+      ...question,
+      options: [...question.options],
+    })),
+  };
+}
+
+/** Pairs the submitted answers with the stored questions; unknown ids and blank answers are dropped. */
+export function matchClarifyingAnswers(
+  questions: ClarifyingQuestion[],
+  answers: MealLogClarifyRequest['answers'],
+) {
+  const byId = new Map(questions.map((question) => [question.id, question]));
+  const matched = new Map<string, { question: string; answer: string }>();
+  for (const entry of answers) {
+    const question = byId.get(entry.question_id);
+    const answer = entry.answer.trim();
+    if (question && answer) {
+      matched.set(question.id, { question: question.question, answer });
+    }
+  }
+  return [...matched.values()];
+}
+
+/** Prompt paragraph for the second pass: the earlier estimate plus what the user answered. */
+export function formatClarificationForPrompt(
+  draft: Pick<GeminiNutritionResponse, 'dish' | 'totals' | 'items'>,
+  answers: Array<{ question: string; answer: string }>,
+) {
+  const estimate = JSON.stringify({ dish: draft.dish, totals: draft.totals, items: draft.items });
+  const lines = answers.map((entry) => `- Q: ${entry.question}\n  A: ${entry.answer}`);
+  return `Your earlier estimate for this meal was: ${estimate}\nThe user answered your follow-up questions:\n${lines.join('\n')}\nRevise the estimate using these answers, raise "confidence" accordingly and do not return "clarifying_questions".`;
+}
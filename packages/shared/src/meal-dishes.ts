@@ -0,0 +1,37 @@
+import type { GeminiNutritionResponse, MealDish } from './index.js';
+import { scaleMicronutrients } from './micronutrients.js';
+
+/** Photos accepted by one `POST /api/log` request. */
+export const MEAL_LOG_MAX_IMAGES = 4;
+
+/** Dishes a combined log can be split into; a single dish (or none) means there is nothing to split. */
+export function listSplittableDishes(
+  response: Pick<GeminiNutritionResponse, 'dishes'> | null | undefined,
+) {
+  const dishes = (response?.dishes ?? []).filter((dish) => dish.dish.trim().length > 0);
+  return dishes.length >= 2 ? dishes : [];
+}
+
+/**
+ * Analysis payload for one dish of a combined log. Micronutrients are not broken down per dish
+ * by the model, so they follow the dish's share of the meal calories.
+ */
+export function buildDishResponse(
+  response: GeminiNutritionResponse,
+  dish: MealDish,
+): GeminiNutritionResponse {
+  const share = response.totals.kcal > 0 ? dish.totals.kcal / response.totals.kcal : 0;
+  return {
+    ...response,
+    dish: dish.dish,
+    totals: { ...dish.totals },
+    items: dish.item_indexes
+      .map((index) => response.items[index])
+      .filter((item): item is GeminiNutritionResponse['items'][number] => Boolean(item))
+      .map((item) => ({ ...item })),
+    micros: response.micros ? scaleMicronutrients(response.micros, share) : undefined,
+    warnings: [...response.warnings],
+    dishes: undefined,
+    meta: response.meta ? { ...response.meta } : undefined,
+  };
+}
@@ -0,0 +1 @@
+export * from './meal-log-items.ts';
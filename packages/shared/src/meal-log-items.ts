@@ -0,0 +1,219 @@
+import type {
+  GeminiNutritionResponse,
+  MealLogItem,
+  MealLogItemInput,
+  NutritionTotals,
+} from './index.js';
+
+export type MealLogItemDraft = Omit<MealLogItem, 'id'> & { id?: number };
+
+/** What an item looked like before/after an edit; stored in `MealLogEdit.changes`. */
+export interface MealLogItemSnapshot {
+  name: string;
+  grams: number;
+  calories: number;
+}
+
+export interface MealLogItemChangePlan {
+  /** Resulting rows in display order. Rows with `id` are updates, the rest are inserts. */
+  items: MealLogItemDraft[];
+  removedIds: number[];
+  /** Ids sent by the client that do not belong to the log. */
+  unknownIds: number[];
+  changes: Record<
+    string,
+    { before: MealLogItemSnapshot | null; after: MealLogItemSnapshot | null }
+  >;
+  totals: NutritionTotals;
+}
+
+type Nutrient = 'calories' | 'protein_g' | 'fat_g' | 'carbs_g';
+
+const NUTRIENTS: Nutrient[] = ['calories', 'protein_g', 'fat_g', 'carbs_g'];
+
+function roundTo(value: number, decimals: number) {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+function roundNutrient(key: Nutrient, value: number) {
+  return roundTo(value, key === 'calories' ? 0 : 1);
+}
+
+export function estimateItemCalories(item: {
+  protein_g?: number;
+  fat_g?: number;
+  carbs_g?: number;
+}) {
+  return Math.round((item.protein_g ?? 0) * 4 + (item.fat_g ?? 0) * 9 + (item.carbs_g ?? 0) * 4);
+}
+
+/**
+ * Splits analysed totals across the analysed items so that the rows add up to the totals.
+ * Each nutrient follows the model's per-item split when it gave one, otherwise the gram share.
+ */
+export function allocateMealLogItems(
+  totals: NutritionTotals,
+  items: GeminiNutritionResponse['items'],
+): MealLogItemDraft[] {
+  if (items.length === 0) {
+    return [];
+  }
+  const gramsSum = items.reduce((acc, item) => acc + item.grams, 0);
+  const shares = (key: Nutrient) => {
+    const values = items.map((item) =>
+      key === 'calories' ? estimateItemCalories(item) : (item[key] ?? 0),
+    );
+    const sum = values.reduce((acc, value) => acc + value, 0);
+    return items.map((item, index) => {
+      if (sum > 0) return values[index]! / sum;
+      if (gramsSum > 0) return item.grams / gramsSum;
+      return 1 / items.length;
+    });
+  };
+  const totalsByNutrient: Record<Nutrient, number> = {
+    calories: totals.kcal,
+    protein_g: totals.protein_g,
+    fat_g: totals.fat_g,
+    carbs_g: totals.carbs_g,
+  };
+  const shareTable = Object.fromEntries(NUTRIENTS.map((key) => [key, shares(key)])) as Record<
+    Nutrient,
+    number[]
+  >;
+
+  return items.map((item, index) => ({
+    name: item.name,
+    grams: item.grams,
+    calories: roundNutrient('calories', totalsByNutrient.calories * shareTable.calories[index]!),
+    protein_g: roundNutrient(
+      'protein_g',
+      totalsByNutrient.protein_g * shareTable.protein_g[index]!,
+    ),
+    fat_g: roundNutrient('fat_g', totalsByNutrient.fat_g * shareTable.fat_g[index]!),
+    carbs_g: roundNutrient('carbs_g', totalsByNutrient.carbs_g * shareTable.carbs_g[index]!),
+    order_index: index,
+  }));
+}
+
+export function sumMealLogItems(items: Array<Pick<MealLogItem, Nutrient>>): NutritionTotals {
+  const sum = (key: Nutrient) =>
+    roundNutrient(
+      key,
+      items.reduce((acc, item) => acc + item[key], 0),
+    );
+  return {
+    kcal: sum('calories'),
+    protein_g: sum('protein_g'),
+    fat_g: sum('fat_g'),
+    carbs_g: sum('carbs_g'),
+  };
+}
+
+function snapshot(item: Pick<MealLogItem, 'name' | 'grams' | 'calories'>): MealLogItemSnapshot {
+  return { name: item.name, grams: item.grams, calories: item.calories };
+}
+
+function resolveUpdatedItem(current: MealLogItem, input: MealLogItemInput, orderIndex: number) {
+  const ratio = current.grams > 0 ? input.grams / current.grams : 1;
+  const resolved: MealLogItemDraft = {
+    id: current.id,
+    name: input.name,
+    grams: input.grams,
+    calories: 0,
+    protein_g: 0,
+    fat_g: 0,
+    carbs_g: 0,
+    order_index: orderIndex,
+  };
+  for (const key of NUTRIENTS) {
+    const explicit = input[key];
+    resolved[key] = roundNutrient(key, explicit ?? current[key] * ratio);
+  }
+  return resolved;
+}
+
+function resolveAddedItem(input: MealLogItemInput, orderIndex: number): MealLogItemDraft {
+  const protein = input.protein_g ?? 0;
+  const fat = input.fat_g ?? 0;
+  const carbs = input.carbs_g ?? 0;
+  return {
+    name: input.name,
+    grams: input.grams,
+    calories: roundNutrient(
+      'calories',
+      input.calories ?? estimateItemCalories({ protein_g: protein, fat_g: fat, carbs_g: carbs }),
+    ),
+    protein_g: roundNutrient('protein_g', protein),
+    fat_g: roundNutrient('fat_g', fat),
+    carbs_g: roundNutrient('carbs_g', carbs),
+    order_index: orderIndex,
+  };
+}
+
+function hasChanged(before: MealLogItem, after: MealLogItemDraft) {
+  return (
+    before.name !== after.name ||
+    before.grams !== after.grams ||
+    NUTRIENTS.some((key) => before[key] !== after[key])
+  );
+}
+
+/**
+ * Diffs the submitted item list against the stored rows. The result carries the rows to
+ * write, the ids to delete, an edit-history entry per touched item and the new totals.
+ */
+export function planMealLogItemChanges(
+  existing: MealLogItem[],
+  inputs: MealLogItemInput[],
+): MealLogItemChangePlan {
+  const byId = new Map(existing.map((item) => [item.id, item]));
+  const seen = new Set<number>();
+  const unknownIds: number[] = [];
+  const changes: MealLogItemChangePlan['changes'] = {};
+  const items: MealLogItemDraft[] = [];
+
+  inputs.forEach((input, index) => {
+    if (input.id === undefined) {
+      const added = resolveAddedItem(input, index);
+      items.push(added);
+      changes[`item:new-${index}`] = { before: null, after: snapshot(added) };
+      return;
+    }
+    const current = byId.get(input.id);
+    if (!current || seen.has(input.id)) {
+      unknownIds.push(input.id);
+      return;
+    }
+    seen.add(input.id);
+    const updated = resolveUpdatedItem(current, input, index);
+    items.push(updated);
+    if (hasChanged(current, updated)) {
+      changes[`item:${current.id}`] = { before: snapshot(current), after: snapshot(updated) };
+    }
+  });
+
+  const removedIds = existing.filter((item) => !seen.has(item.id)).map((item) => item.id);
+  for (const id of removedIds) {
+    changes[`item:${id}`] = { before: snapshot(byId.get(id)!), after: null };
+  }
+
+  return {
+    items,
+    removedIds,
+    unknownIds,
+    changes,
+    totals: sumMealLogItems(items),
+  };
+}
+
+/** Items as they appear in `aiRaw` / meal cards. */
+export function toNutritionItems(items: Array<Pick<MealLogItem, 'name' | 'grams' | Nutrient>>) {
+  return items.map((item) => ({
+    name: item.name,
+    grams: item.grams,
+    protein_g: item.protein_g,
+    fat_g: item.fat_g,
+    carbs_g: item.carbs_g,
+  })) satisfies GeminiNutritionResponse['items'];
+}
@@ -0,0 +1,90 @@
+import {
+  MANUAL_LOG_LANDING_TYPE,
+  type GeminiNutritionResponse,
+  type NutritionTotals,
+} from './index.js';
+import { CHAIN_MENU_LANDING_TYPE } from './chain-menu.js';
+
+/** Re-estimates closer than this to the saved one are model noise, not an improvement worth a change. */
+export const REANALYSIS_MIN_KCAL_DELTA = 20;
+export const REANALYSIS_MIN_RELATIVE_DELTA = 0.05;
+export const REANALYSIS_MIN_MACRO_DELTA_G = 5;
+
+export type MealReanalysisDecision = 'apply' | 'propose' | 'unchanged';
+
+/** Proposed minus previous, rounded to what the app displays (kcal to 1, grams to 0.1). */
+export function diffNutritionTotals(
+  previous: NutritionTotals,
+  proposed: NutritionTotals,
+): NutritionTotals {
+  const round1 = (value: number) => Math.round(value * 10) / 10;
+  return {
+    kcal: Math.round(proposed.kcal - previous.kcal),
+    protein_g: round1(proposed.protein_g - previous.protein_g),
+    fat_g: round1(proposed.fat_g - previous.fat_g),
+    carbs_g: round1(proposed.carbs_g - previous.carbs_g),
+  };
+}
+
+/**
+ * What a re-analysis run does with a new estimate: nothing when it barely moved, replace the log when the
+ * user never touched it, and otherwise keep it as a proposal so a manual correction is never overwritten.
+ */
+export function decideMealReanalysis(params: {
+  edited: boolean;
+  previous: NutritionTotals;
+  proposed: NutritionTotals;
+}): MealReanalysisDecision {
+  const delta = diffNutritionTotals(params.previous, params.proposed);
+  const kcalThreshold = Math.max(
+    REANALYSIS_MIN_KCAL_DELTA,
+    Math.abs(params.previous.kcal) * REANALYSIS_MIN_RELATIVE_DELTA,
+  );
+  const macroChanged = [delta.protein_g, delta.fat_g, delta.carbs_g].some(
+    (value) => Math.abs(value) >= REANALYSIS_MIN_MACRO_DELTA_G,
+  );
+  if (Math.abs(delta.kcal) < kcalThreshold && !macroChanged) {
+    return 'unchanged';
+  }
+  return params.edited ? 'propose' : 'apply';
+}
+
+/**
+ * Only model estimates are re-run; catalogue, barcode, favorite, recipe, chain-menu and split logs copy
+ * known values.
+ */
+export function isReanalyzableMealLog(params: {
+  landingType?: string | null;
+  meta?: GeminiNutritionResponse['meta'] | null;
+}) {
+  if (
+    params.landingType === MANUAL_LOG_LANDING_TYPE ||
+    params.landingType === CHAIN_MENU_LANDING_TYPE
+  ) {
+    return false;
+  }
+  const meta = params.meta ?? {};
+  return (
+    meta.favoriteId === undefined &&
+    meta.foodId === undefined &&
+    meta.barcode === undefined &&
+    meta.recipeId === undefined &&
+    meta.splitFromLogId === undefined
+  );
+}
+
+/**
+ * The original chat text is not kept with a log, so a re-run describes the meal by its saved dish and
+ * items with their grams; the portions stay the user's and only the nutrition is estimated again.
+ */
+export function buildReanalysisMessage(
+  dish: string,
+  items: Array<{ name: string; grams: number }>,
+) {
+  const parts = items
+    .filter((item) => item.name.trim() && item.name.trim() !== dish.trim())
+    .map((item) =>
+      item.grams > 0 ? `${item.name.trim()} ${Math.round(item.grams)}g` : item.name.trim(),
+    );
+  return parts.length > 0 ? `${dish.trim()} (${parts.join(', ')})` : dish.trim();
+}
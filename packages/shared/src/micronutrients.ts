@@ -0,0 +1,227 @@
+import type { Micronutrients } from './index.js';
+
+export type MicronutrientKey = keyof Micronutrients;
+
+export interface MicronutrientDefinition {
+  key: MicronutrientKey;
+  unit: 'g' | 'mg' | 'µg';
+  /** `limit` nutrients should stay under target (salt, sugar); `goal` ones should reach it (fiber). */
+  kind: 'limit' | 'goal';
+  decimals: number;
+  labels: { 'ja-JP': string; 'en-US': string };
+}
+
+export const MICRONUTRIENT_DEFINITIONS: Record<MicronutrientKey, MicronutrientDefinition> = {
+  fiber_g: {
+    key: 'fiber_g',
+    unit: 'g',
+    kind: 'goal',
+    decimals: 1,
+    labels: { 'ja-JP': '食物繊維', 'en-US': 'Fiber' },
+  },
+  sugar_g: {
+    key: 'sugar_g',
+    unit: 'g',
+    kind: 'limit',
+    decimals: 1,
+    labels: { 'ja-JP': '糖類', 'en-US': 'Sugar' },
+  },
+  saturated_fat_g: {
+    key: 'saturated_fat_g',
+    unit: 'g',
+    kind: 'limit',
+    decimals: 1,
+    labels: { 'ja-JP': '飽和脂肪酸', 'en-US': 'Saturated fat' },
+  },
+  sodium_mg: {
+    key: 'sodium_mg',
+    unit: 'mg',
+    kind: 'limit',
+    decimals: 0,
+    labels: { 'ja-JP': 'ナトリウム', 'en-US': 'Sodium' },
+  },
+  salt_g: {
+    key: 'salt_g',
+    unit: 'g',
+    kind: 'limit',
+    decimals: 1,
+    labels: { 'ja-JP': '食塩相当量', 'en-US': 'Salt equivalent' },
+  },
+  potassium_mg: {
+    key: 'potassium_mg',
+    unit: 'mg',
+    kind: 'goal',
+    decimals: 0,
+    labels: { 'ja-JP': 'カリウム', 'en-US': 'Potassium' },
+  },
+  calcium_mg: {
+    key: 'calcium_mg',
+    unit: 'mg',
+    kind: 'goal',
+    decimals: 0,
+    labels: { 'ja-JP': 'カルシウム', 'en-US': 'Calcium' },
+  },
+  iron_mg: {
+    key: 'iron_mg',
+    unit: 'mg',
+    kind: 'goal',
+    decimals: 1,
+    labels: { 'ja-JP': '鉄', 'en-US': 'Iron' },
+  },
+  vitamin_c_mg: {
+    key: 'vitamin_c_mg',
+    unit: 'mg',
+    kind: 'goal',
+    decimals: 0,
+    labels: { 'ja-JP': 'ビタミンC', 'en-US': 'Vitamin C' },
+  },
+  vitamin_d_ug: {
+    key: 'vitamin_d_ug',
+    unit: 'µg',
+    kind: 'goal',
+    decimals: 1,
+    labels: { 'ja-JP': 'ビタミンD', 'en-US': 'Vitamin D' },
+  },
+};
+
+/** Always shown on the dashboard. Vitamins and minerals beyond these are opt-in per deployment. */
+export const CORE_MICRONUTRIENT_KEYS: MicronutrientKey[] = [
+  'fiber_g',
+  'sugar_g',
+  'saturated_fat_g',
+  'salt_g',
+];
+
+export const DEFAULT_EXTRA_MICRONUTRIENT_KEYS: MicronutrientKey[] = [
+  'potassium_mg',
+  'calcium_mg',
+  'iron_mg',
+  'vitamin_c_mg',
+];
+
+/** Parses a comma-separated key list (e.g. an env var), dropping unknown keys. */
+export function parseMicronutrientKeys(
+  raw: string | undefined | null,
+  fallback = DEFAULT_EXTRA_MICRONUTRIENT_KEYS,
+) {
+  if (raw === undefined || raw === null) {
+    return fallback;
+  }
+  return raw
+    .split(',')
+    .map((value) => value.trim())
+    .filter((value): value is MicronutrientKey =>
+      Object.prototype.hasOwnProperty.call(MICRONUTRIENT_DEFINITIONS, value),
+    );
+}
+
+/** Japanese labels print 食塩相当量; sodium (mg) × 2.54 / 1000 gives the same figure in grams. */
+export function saltEquivalentFromSodium(sodiumMg: number) {
+  return Math.round(((sodiumMg * 2.54) / 1000) * 100) / 100;
+}
+
+export function sodiumFromSaltEquivalent(saltG: number) {
+  return Math.round((saltG * 1000) / 2.54);
+}
+
+/** Drops invalid values and fills whichever of sodium / salt equivalent is missing from the other. */
+export function normalizeMicronutrients(raw: Micronutrients | null | undefined): Micronutrients {
+  const result: Micronutrients = {};
+  if (!raw) {
+    return result;
+  }
+  for (const key of Object.keys(MICRONUTRIENT_DEFINITIONS) as MicronutrientKey[]) {
+    const value = raw[key];
+    if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+      result[key] = value;
+    }
+  }
+  if (result.sodium_mg !== undefined && result.salt_g === undefined) {
+    result.salt_g = saltEquivalentFromSodium(result.sodium_mg);
+  } else if (result.salt_g !== undefined && result.sodium_mg === undefined) {
+    result.sodium_mg = sodiumFromSaltEquivalent(result.salt_g);
+  }
+  return result;
+}
+
+export function sumMicronutrients(
+  entries: Array<Micronutrients | null | undefined>,
+): Micronutrients {
+  const totals: Micronutrients = {};
+  for (const entry of entries) {
+    const normalized = normalizeMicronutrients(entry);
+    for (const [key, value] of Object.entries(normalized) as Array<[MicronutrientKey, number]>) {
+      totals[key] = (totals[key] ?? 0) + value;
+    }
+  }
+  return totals;
+}
+
+export function scaleMicronutrients(micros: Micronutrients, factor: number): Micronutrients {
+  const scaled: Micronutrients = {};
+  for (const [key, value] of Object.entries(normalizeMicronutrients(micros)) as Array<
+    [MicronutrientKey, number]
+  >) {
+    const decimals = MICRONUTRIENT_DEFINITIONS[key].decimals + 1;
+    scaled[key] = Number((value * factor).toFixed(decimals));
+  }
+  return scaled;
+}
+
+/**
+ * Daily reference values, loosely following the Japanese Dietary Reference Intakes (2020):
+ * salt < 7.5 g (men) / 6.5 g (women), saturated fat ≤ 7% and free sugars < 10% of energy.
+ */
+export function resolveMicronutrientTargets(params: { calories: number; gender?: string | null }) {
+  const female = params.gender === 'FEMALE';
+  const salt = female ? 6.5 : 7.5;
+  return {
+    fiber_g: female ? 18 : 21,
+    sugar_g: Math.round((params.calories * 0.1) / 4),
+    saturated_fat_g: Math.round((params.calories * 0.07) / 9),
+    sodium_mg: sodiumFromSaltEquivalent(salt),
+    salt_g: salt,
+    potassium_mg: female ? 2000 : 2500,
+    calcium_mg: female ? 650 : 750,
+    iron_mg: female ? 10.5 : 7.5,
+    vitamin_c_mg: 100,
+    vitamin_d_ug: 8.5,
+  } satisfies Record<MicronutrientKey, number>;
+}
+
+export interface MicronutrientRow {
+  key: MicronutrientKey;
+  label: string;
+  unit: string;
+  kind: MicronutrientDefinition['kind'];
+  total: number;
+  target: number;
+  delta: number;
+}
+
+export function buildMicronutrientRows(params: {
+  totals: Micronutrients;
+  dailyTargets: Record<MicronutrientKey, number>;
+  days: number;
+  keys: MicronutrientKey[];
+  locale?: 'ja-JP' | 'en-US';
+}): MicronutrientRow[] {
+  const locale = params.locale ?? 'ja-JP';
+  const days = Math.max(params.days, 1);
+  return Array.from(new Set(params.keys)).map((key) => {
+    const definition = MICRONUTRIENT_DEFINITIONS[key];
+    const factor = Math.pow(10, definition.decimals);
+    const round = (value: number) => Math.round(value * factor) / factor;
+    const total = round(params.totals[key] ?? 0);
+    const target = round(params.dailyTargets[key] * days);
+    return {
+      key,
+      label: definition.labels[locale],
+      unit: definition.unit,
+      kind: definition.kind,
+      total,
+      target,
+      delta: round(total - target),
+    };
+  });
+}
@@ -0,0 +1 @@
+export * from './planned-meals.ts';
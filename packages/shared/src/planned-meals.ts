@@ -0,0 +1,52 @@
+import type { DashboardPlan, NutritionTotals, PlannedMealStatus } from './index.js';
+
+/** Longest window the planner list endpoint returns in one request. */
+export const PLANNER_MAX_RANGE_DAYS = 31;
+
+function roundTenth(value: number) {
+  return Math.round(value * 10) / 10;
+}
+
+function toMacroTotals(totals: NutritionTotals) {
+  return {
+    calories: Math.round(totals.kcal),
+    protein_g: roundTenth(totals.protein_g),
+    fat_g: roundTenth(totals.fat_g),
+    carbs_g: roundTenth(totals.carbs_g),
+  };
+}
+
+function addTotals(acc: NutritionTotals, totals: NutritionTotals): NutritionTotals {
+  return {
+    kcal: acc.kcal + totals.kcal,
+    protein_g: acc.protein_g + totals.protein_g,
+    fat_g: acc.fat_g + totals.fat_g,
+    carbs_g: acc.carbs_g + totals.carbs_g,
+  };
+}
+
+/**
+ * Sums the expected nutrition of a range's plan entries. `eaten` only counts entries that were
+ * marked as eaten, so it can be held against what was actually logged.
+ */
+export function summarizePlannedMeals(
+  entries: Array<{ totals: NutritionTotals; status: PlannedMealStatus }>,
+): DashboardPlan {
+  const zero: NutritionTotals = { kcal: 0, protein_g: 0, fat_g: 0, carbs_g: 0 };
+  let planned = zero;
+  let eaten = zero;
+  let eatenEntries = 0;
+  for (const entry of entries) {
+    planned = addTotals(planned, entry.totals);
+    if (entry.status === 'eaten') {
+      eaten = addTotals(eaten, entry.totals);
+      eatenEntries += 1;
+    }
+  }
+  return {
+    entries: entries.length,
+    eaten_entries: eatenEntries,
+    planned: toMacroTotals(planned),
+    eaten: toMacroTotals(eaten),
+  };
+}
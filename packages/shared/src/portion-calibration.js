@@ -0,0 +1 @@
+export * from './portion-calibration.ts';
@@ -0,0 +1,168 @@
+import type {
+  AppliedPortionCalibration,
+  LearnedPortionFactor,
+  PortionCalibrationSource,
+} from './index.js';
+import { normalizeEstimateText } from './estimate-cache.js';
+
+/** Corrections of the same item needed before a scaling habit is trusted. */
+export const LEARNED_PORTION_MIN_SAMPLES = 2;
+/** Habits closer to 1× than this are noise compared to the model's own error. */
+const LEARNED_PORTION_MIN_DEVIATION = 0.15;
+const LEARNED_PORTION_FACTOR_BOUNDS = { min: 0.5, max: 2 } as const;
+/** Hints sent with one analysis, to keep the prompt short. */
+export const MAX_PORTION_HINTS = 12;
+
+export interface PortionCalibrationHint {
+  label: string;
+  source: PortionCalibrationSource;
+  grams?: number;
+  factor?: number;
+}
+
+function readItemSnapshot(value: unknown) {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const { name, grams } = value as { name?: unknown; grams?: unknown };
+  if (
+    typeof name !== 'string' ||
+    typeof grams !== 'number' ||
+    !Number.isFinite(grams) ||
+    grams <= 0
+  ) {
+    return null;
+  }
+  return { name, grams };
+}
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Reads item gram corrections out of `MealLogEdit.changes` (`item:<id>` entries whose name did not
+ * change) and keeps the items the user scaled the same way at least twice. The factor is the median ratio.
+ */
+export function derivePortionFactorsFromEdits(changesList: unknown[]): LearnedPortionFactor[] {
+  const ratiosByName = new Map<string, { name: string; ratios: number[] }>();
+  for (const changes of changesList) {
+    if (!changes || typeof changes !== 'object') {
+      continue;
+    }
+    for (const [changeKey, change] of Object.entries(changes as Record<string, unknown>)) {
+      if (
+        !changeKey.startsWith('item:') ||
+        changeKey.startsWith('item:new-') ||
+        !change ||
+        typeof change !== 'object'
+      ) {
+        continue;
+      }
+      const before = readItemSnapshot((change as { before?: unknown }).before);
+      const after = readItemSnapshot((change as { after?: unknown }).after);
+      if (!before || !after || before.grams === after.grams) {
+        continue;
+      }
+      const key = normalizeEstimateText(after.name);
+      if (!key || normalizeEstimateText(before.name) !== key) {
+        continue;
+      }
+      const entry = ratiosByName.get(key) ?? { name: after.name.trim(), ratios: [] };
+      entry.ratios.push(after.grams / before.grams);
+      ratiosByName.set(key, entry);
+    }
+  }
+
+  const learned: LearnedPortionFactor[] = [];
+  for (const { name, ratios } of ratiosByName.values()) {
+    if (ratios.length < LEARNED_PORTION_MIN_SAMPLES) {
+      continue;
+    }
+    if (!ratios.every((ratio) => ratio > 1) && !ratios.every((ratio) => ratio < 1)) {
+      continue;
+    }
+    const factor = Math.min(
+      Math.max(median(ratios), LEARNED_PORTION_FACTOR_BOUNDS.min),
+      LEARNED_PORTION_FACTOR_BOUNDS.max,
+    );
+    if (Math.abs(factor - 1) < LEARNED_PORTION_MIN_DEVIATION) {
+      continue;
+    }
+    learned.push({ name, factor: Math.round(factor * 100) / 100, samples: ratios.length });
+  }
+  return learned.sort((a, b) => b.samples - a.samples || a.name.localeCompare(b.name));
+}
+
+/** References the user typed come first; a learned factor for the same name is dropped in their favour. */
+export function buildPortionCalibrationHints(
+  references: Array<{ label: string; grams: number }>,
+  learned: LearnedPortionFactor[],
+): PortionCalibrationHint[] {
+  const seen = new Set<string>();
+  const hints: PortionCalibrationHint[] = [];
+  for (const reference of references) {
+    const key = normalizeEstimateText(reference.label);
+    if (!key || seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    hints.push({ label: reference.label, source: 'reference', grams: reference.grams });
+  }
+  for (const factor of learned) {
+    const key = normalizeEstimateText(factor.name);
+    if (!key || seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    hints.push({ label: factor.name, source: 'history', factor: factor.factor });
+  }
+  return hints.slice(0, MAX_PORTION_HINTS);
+}
+
+/** Prompt paragraph shared by both runtimes; empty when the user has no hints. */
+export function formatPortionHintsForPrompt(hints: PortionCalibrationHint[]) {
+  if (hints.length === 0) {
+    return '';
+  }
+  const lines = hints.map((hint) =>
+    hint.source === 'reference'
+      ? `- ${JSON.stringify(hint.label)}: ${hint.grams} g`
+      : `- ${JSON.stringify(hint.label)}: this user usually corrects your gram estimate to ${hint.factor}×`,
+  );
+  return `Portion references from this user (their own serving sizes; prefer them over generic defaults when the meal matches, and list each one you used in "calibration_applied" with its exact label):\n${lines.join('\n')}`;
+}
+
+/** Keeps only labels that match a hint that was sent, and fills in its grams or factor. */
+export function resolveAppliedPortionCalibrations(
+  applied: Array<Pick<AppliedPortionCalibration, 'label'>> | null | undefined,
+  hints: PortionCalibrationHint[],
+): AppliedPortionCalibration[] | undefined {
+  const byLabel = new Map(hints.map((hint) => [normalizeEstimateText(hint.label), hint]));
+  const resolved = new Map<string, AppliedPortionCalibration>();
+  for (const entry of applied ?? []) {
+    const key = normalizeEstimateText(entry.label);
+    const hint = byLabel.get(key);
+    if (hint && !resolved.has(key)) {
+      resolved.set(key, { ...hint });
+    }
+  }
+  return resolved.size > 0 ? [...resolved.values()] : undefined;
+}
+
+/** Part of the estimate-cache key, so a calibrated estimate is only reused for the same hints. */
+export function fingerprintPortionHints(hints: PortionCalibrationHint[]) {
+  if (hints.length === 0) {
+    return null;
+  }
+  return JSON.stringify(
+    hints.map((hint) => [
+      hint.source,
+      normalizeEstimateText(hint.label),
+      hint.grams ?? null,
+      hint.factor ?? null,
+    ]),
+  );
+}
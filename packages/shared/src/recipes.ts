@@ -0,0 +1,47 @@
+import type { NutritionTotals } from './index.js';
+
+export interface RecipeNutritionBasis {
+  totals: NutritionTotals;
+  servings: number;
+  /** Cooked weight of the batch, when the user weighed it. */
+  yieldGrams: number | null;
+  /** Sum of the raw ingredient weights; used when no cooked weight is known. */
+  ingredientGrams: number;
+}
+
+function roundTenth(value: number) {
+  return Math.round(value * 10) / 10;
+}
+
+function scaleTotals(totals: NutritionTotals, factor: number): NutritionTotals {
+  return {
+    kcal: Math.round(totals.kcal * factor),
+    protein_g: roundTenth(totals.protein_g * factor),
+    fat_g: roundTenth(totals.fat_g * factor),
+    carbs_g: roundTenth(totals.carbs_g * factor),
+  };
+}
+
+export function sumRecipeTotals(lines: Array<{ totals: NutritionTotals }>): NutritionTotals {
+  const sum = lines.reduce(
+    (acc, line) => ({
+      kcal: acc.kcal + line.totals.kcal,
+      protein_g: acc.protein_g + line.totals.protein_g,
+      fat_g: acc.fat_g + line.totals.fat_g,
+      carbs_g: acc.carbs_g + line.totals.carbs_g,
+    }),
+    { kcal: 0, protein_g: 0, fat_g: 0, carbs_g: 0 },
+  );
+  return scaleTotals(sum, 1);
+}
+
+/** Weight and nutrition of `servings` portions of a batch that yields `recipe.servings`. */
+export function computeRecipePortion(recipe: RecipeNutritionBasis, servings = 1) {
+  const factor = recipe.servings > 0 ? servings / recipe.servings : 0;
+  const batchGrams = recipe.yieldGrams ?? recipe.ingredientGrams;
+  return {
+    factor,
+    grams: roundTenth(batchGrams * factor),
+    totals: scaleTotals(recipe.totals, factor),
+  };
+}
@@ -0,0 +1 @@
+export * from './status-stream.ts';
@@ -0,0 +1,83 @@
+/** Limits for `GET /api/stream`: how many requests one connection may follow and how it paces itself. */
+export const STATUS_STREAM_MAX_TARGETS = 10;
+export const STATUS_STREAM_TICK_MS = 1_500;
+export const STATUS_STREAM_HEARTBEAT_MS = 15_000;
+/** Connections end before the Edge wall-clock limit; clients reconnect while anything is still pending. */
+export const STATUS_STREAM_MAX_MS = 55_000;
+
+const TERMINAL_INGEST_STATUSES = new Set(['done', 'failed', 'needs_clarification']);
+const TERMINAL_REPORT_STATUSES = new Set(['done', 'failed', 'canceled']);
+
+/** Ingest statuses after which the server has nothing more to push (clarification waits on the user). */
+export function isTerminalIngestStatus(status: string) {
+  return TERMINAL_INGEST_STATUSES.has(status);
+}
+
+export function isTerminalReportStatus(status: string) {
+  return TERMINAL_REPORT_STATUSES.has(status);
+}
+
+/** Payload of the `error` event: one followed request could not be read and is dropped from the stream. */
+export interface StatusStreamTargetError {
+  target: 'ingest' | 'report';
+  id: string;
+  status: number;
+  message: string;
+}
+
+/** Payload of the final `end` event. */
+export interface StatusStreamEnd {
+  reason: 'complete' | 'timeout';
+}
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+  id?: string;
+}
+
+/**
+ * Incremental `text/event-stream` parser: feed it chunks as they arrive and it calls back once per complete
+ * event. Comments (heartbeats) and events without data are skipped, as EventSource does.
+ */
+export function createServerSentEventParser(onEvent: (event: ServerSentEvent) => void) {
+  let buffer = '';
+  return (chunk: string) => {
+    buffer += chunk;
+    // A chunk may end between the \r and \n of a CRLF; leave that \r for the next chunk to settle.
+    const pendingCr = buffer.endsWith('\r');
+    buffer =
+      (pendingCr ? buffer.slice(0, -1) : buffer).replace(/\r\n?/g, '\n') + (pendingCr ? '\r' : '');
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      let event = 'message';
+      let id: string | undefined;
+      const data: string[] = [];
+      for (const line of block.split('\n')) {
+        if (!line || line.startsWith(':')) {
+          continue;
+        }
+        const separator = line.indexOf(':');
+        const field = separator === -1 ? line : line.slice(0, separator);
+        let value = separator === -1 ? '' : line.slice(separator + 1);
+        if (value.startsWith(' ')) {
+          value = value.slice(1);
+        }
+        if (field === 'event') {
+          event = value;
+        } else if (field === 'data') {
+          data.push(value);
+        } else if (field === 'id') {
+          id = value;
+        }
+      }
+      if (data.length) {
+        onEvent({ event, data: data.join('\n'), ...(id !== undefined ? { id } : {}) });
+      }
+    }
+  };
+}
@@ -0,0 +1,156 @@
+import { estimateTargetDate } from './health.js';
+import type { WeightProjection, WeightTrendPoint } from './index.js';
+
+/** Days averaged into each trend point. */
+export const WEIGHT_TREND_WINDOW_DAYS = 7;
+/** How far back the actual rate of change is measured. */
+export const WEIGHT_RATE_LOOKBACK_DAYS = 28;
+/** Minimum span of trend points before a rate is trusted. */
+export const WEIGHT_RATE_MIN_SPAN_DAYS = 7;
+/** Within this distance of the target the goal counts as reached. */
+const WEIGHT_GOAL_TOLERANCE_KG = 0.2;
+/** Weekly changes smaller than this are treated as a plateau. */
+const WEIGHT_STALL_RATE_KG = 0.05;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface WeightSample {
+  /** Local calendar date (YYYY-MM-DD) the entry belongs to. */
+  date: string;
+  weight_kg: number;
+}
+
+function toDayNumber(date: string) {
+  return Math.round(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+}
+
+function roundKg(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Averages same-day entries and smooths them with a trailing moving average over
+ * `windowDays` calendar days, so gaps in logging shrink the window instead of skewing it.
+ */
+export function buildWeightTrend(
+  samples: WeightSample[],
+  windowDays = WEIGHT_TREND_WINDOW_DAYS,
+): WeightTrendPoint[] {
+  const byDate = new Map<string, { sum: number; count: number }>();
+  for (const sample of samples) {
+    if (!Number.isFinite(sample.weight_kg) || Number.isNaN(toDayNumber(sample.date))) continue;
+    const bucket = byDate.get(sample.date) ?? { sum: 0, count: 0 };
+    bucket.sum += sample.weight_kg;
+    bucket.count += 1;
+    byDate.set(sample.date, bucket);
+  }
+
+  const days = [...byDate.entries()]
+    .map(([date, bucket]) => ({ date, day: toDayNumber(date), weight: bucket.sum / bucket.count }))
+    .sort((a, b) => a.day - b.day);
+
+  return days.map((entry, index) => {
+    let sum = 0;
+    let count = 0;
+    for (let cursor = index; cursor >= 0; cursor -= 1) {
+      if (entry.day - days[cursor]!.day >= windowDays) break;
+      sum += days[cursor]!.weight;
+      count += 1;
+    }
+    return { date: entry.date, weight_kg: roundKg(entry.weight), trend_kg: roundKg(sum / count) };
+  });
+}
+
+/** Least-squares slope of the trend over the lookback window, in kg per week. */
+export function calculateWeeklyWeightRate(
+  trend: WeightTrendPoint[],
+  lookbackDays = WEIGHT_RATE_LOOKBACK_DAYS,
+) {
+  const last = trend[trend.length - 1];
+  if (!last) return null;
+  const lastDay = toDayNumber(last.date);
+  const points = trend
+    .map((point) => ({ x: toDayNumber(point.date) - lastDay, y: point.trend_kg }))
+    .filter((point) => point.x > -lookbackDays);
+  if (points.length < 2 || -points[0]!.x < WEIGHT_RATE_MIN_SPAN_DAYS) {
+    return null;
+  }
+  const meanX = points.reduce((acc, point) => acc + point.x, 0) / points.length;
+  const meanY = points.reduce((acc, point) => acc + point.y, 0) / points.length;
+  let numerator = 0;
+  let denominator = 0;
+  for (const point of points) {
+    numerator += (point.x - meanX) * (point.y - meanY);
+    denominator += (point.x - meanX) ** 2;
+  }
+  return denominator > 0 ? roundKg((numerator / denominator) * 7) : null;
+}
+
+/**
+ * Projects when the target weight is reached at the rate the trend is actually moving,
+ * rather than the rate the plan assumed.
+ */
+export function projectWeightGoal(params: {
+  trend: WeightTrendPoint[];
+  targetWeightKg: number | null | undefined;
+  plannedDate?: string | null;
+}): WeightProjection {
+  const last = params.trend[params.trend.length - 1];
+  const target = params.targetWeightKg && params.targetWeightKg > 0 ? params.targetWeightKg : null;
+  const weeklyRate = calculateWeeklyWeightRate(params.trend);
+  const base: WeightProjection = {
+    status: 'insufficient_data',
+    current_trend_kg: last?.trend_kg ?? null,
+    target_weight_kg: target,
+    weekly_rate_kg: weeklyRate,
+    estimated_date: null,
+    planned_date: params.plannedDate ?? null,
+  };
+
+  if (target == null) {
+    return { ...base, status: 'no_goal' };
+  }
+  if (!last) {
+    return base;
+  }
+  const remaining = target - last.trend_kg;
+  if (Math.abs(remaining) <= WEIGHT_GOAL_TOLERANCE_KG) {
+    return { ...base, status: 'reached', estimated_date: `${last.date}T00:00:00.000Z` };
+  }
+  if (weeklyRate == null) {
+    return base;
+  }
+  if (Math.abs(weeklyRate) < WEIGHT_STALL_RATE_KG) {
+    return { ...base, status: 'stalled' };
+  }
+  if (Math.sign(weeklyRate) !== Math.sign(remaining)) {
+    return { ...base, status: 'off_track' };
+  }
+
+  return {
+    ...base,
+    status: 'on_track',
+    estimated_date: estimateTargetDate({
+      currentWeightKg: last.trend_kg,
+      targetWeightKg: target,
+      weeklyRateKg: Math.abs(weeklyRate),
+      startDate: `${last.date}T00:00:00.000Z`,
+    }),
+  };
+}
+
+/** Trend movement between two dates (inclusive), as fed into the AI report. */
+export function summarizeWeightChange(trend: WeightTrendPoint[], from: string, to: string) {
+  const inRange = trend.filter((point) => point.date >= from && point.date <= to);
+  const first = inRange[0];
+  const last = inRange[inRange.length - 1];
+  if (!first || !last) {
+    return null;
+  }
+  return {
+    start_trend_kg: first.trend_kg,
+    end_trend_kg: last.trend_kg,
+    change_kg: roundKg(last.trend_kg - first.trend_kg),
+    logged_days: inRange.length,
+  };
+}
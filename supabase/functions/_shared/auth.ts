@@ -3,40 +3,89 @@ import { SignJWT, jwtVerify } from 'jose';
 import type { Context, MiddlewareHandler } from 'hono';
 import { getEnv } from './env.ts';
 import { HTTP_STATUS, HttpError, setJsonCookie } from './http.ts';
+import { REFRESH_TOKEN_TTL_MS, touchTokenSession } from './sessions.ts';
 
 export const AUTH_COOKIE_NAME = 'ml_session';
+export const REFRESH_COOKIE_NAME = 'ml_refresh';
+/** Access tokens are short-lived; clients trade the refresh token for a new one (`POST /api/auth/refresh`). */
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+/** Key id of `EDGE_JWT_SECRET` / `JWT_SECRET`, and the key assumed for tokens signed without a `kid`. */
+const LEGACY_KEY_ID = 'default';
 const encoder = new TextEncoder();
 
-const jwtSecret = () => encoder.encode(getEnv('EDGE_JWT_SECRET', { optional: true }) || getEnv('JWT_SECRET'));
+interface SigningKey {
+  kid: string;
+  secret: Uint8Array;
+}
+
+/**
+ * `EDGE_JWT_KEYS` ("kid:secret,kid:secret") lists the keys newest first: the first one signs, the
+ * rest only verify. Rotate by prepending a new key and dropping the old one once its access tokens
+ * have expired. The single-secret variables keep working as the `default` key.
+ */
+function signingKeys(): SigningKey[] {
+  const keys: SigningKey[] = [];
+  for (const entry of (getEnv('EDGE_JWT_KEYS', { optional: true }) ?? '').split(',')) {
+    if (!entry.trim()) continue;
+    const separator = entry.indexOf(':');
+    const kid = entry.slice(0, separator).trim();
+    const secret = entry.slice(separator + 1).trim();
+    if (separator <= 0 || !kid || !secret) {
+      throw new Error('EDGE_JWT_KEYS must be a comma-separated list of kid:secret pairs');
+    }
+    keys.push({ kid, secret: encoder.encode(secret) });
+  }
+  const legacySecret =
+    getEnv('EDGE_JWT_SECRET', { optional: true }) || getEnv('JWT_SECRET', { optional: keys.length > 0 });
+  if (legacySecret && !keys.some((key) => key.kid === LEGACY_KEY_ID)) {
+    keys.push({ kid: LEGACY_KEY_ID, secret: encoder.encode(legacySecret) });
+  }
+  return keys;
+}
 
+/** Credits and other account state are read from the database, so the token only identifies the user. */
 export interface JwtUser {
   id: number;
   email: string;
-  aiCredits: number;
 }
 
 export interface AuthSession {
   user: JwtUser;
   token: string;
+  /** Session row behind the token; null for tokens issued before sessions were recorded. */
+  sessionId: string | null;
 }
 
-export async function signUserToken(user: JwtUser, options: { expiresIn?: string } = {}): Promise<string> {
-  const secret = jwtSecret();
+export async function signUserToken(
+  user: JwtUser,
+  options: { expiresIn?: string | number; sessionId?: string } = {},
+): Promise<string> {
+  const [key] = signingKeys();
   const jwt = await new SignJWT({
     sub: String(user.id),
     email: user.email,
-    aiCredits: user.aiCredits,
+    ...(options.sessionId ? { sid: options.sessionId } : {}),
   })
-    .setProtectedHeader({ alg: 'HS256' })
+    .setProtectedHeader({ alg: 'HS256', kid: key.kid })
     .setIssuedAt()
-    .setExpirationTime(options.expiresIn ?? '7d')
-    .sign(secret);
+    .setExpirationTime(options.expiresIn ?? `${ACCESS_TOKEN_TTL_SECONDS}s`)
+    .sign(key.secret);
   return jwt;
 }
 
-export async function verifyUserToken(token: string): Promise<JwtUser> {
-  const secret = jwtSecret();
-  const { payload } = await jwtVerify(token, secret);
+export async function verifyUserToken(token: string): Promise<JwtUser & { sessionId: string | null }> {
+  const { payload } = await jwtVerify(
+    token,
+    (header) => {
+      const kid = header.kid ?? LEGACY_KEY_ID;
+      const key = signingKeys().find((candidate) => candidate.kid === kid);
+      if (!key) {
+        throw new HttpError('Unauthorized', { status: HTTP_STATUS.UNAUTHORIZED });
+      }
+      return key.secret;
+    },
+    { algorithms: ['HS256'] },
+  );
   const id = payload.sub ? Number(payload.sub) : undefined;
   if (!id || !payload.email) {
     throw new HttpError('Unauthorized', { status: HTTP_STATUS.UNAUTHORIZED });
@@ -44,7 +93,7 @@ export async function verifyUserToken(token: string): Promise<JwtUser> {
   return {
     id,
     email: String(payload.email),
-    aiCredits: Number(payload.aiCredits ?? 0),
+    sessionId: typeof payload.sid === 'string' ? payload.sid : null,
   };
 }
 
@@ -61,12 +110,18 @@ export function readAuthToken(c: Context) {
 export async function getAuthSession(c: Context): Promise<AuthSession | null> {
   const token = readAuthToken(c);
   if (!token) return null;
+  let verified: Awaited<ReturnType<typeof verifyUserToken>>;
   try {
-    const user = await verifyUserToken(token);
-    return { user, token };
+    verified = await verifyUserToken(token);
   } catch (_error) {
     return null;
   }
+  const { sessionId, ...user } = verified;
+  // Tokens without a session id predate the session list and simply run out.
+  if (sessionId && !(await touchTokenSession(sessionId, user.id))) {
+    return null;
+  }
+  return { user, token, sessionId };
 }
 
 export const requireAuth: MiddlewareHandler = async (c, next) => {
@@ -78,10 +133,20 @@ export const requireAuth: MiddlewareHandler = async (c, next) => {
   await next();
 };
 
-export function persistAuth(c: Context, token: string) {
-  setJsonCookie(c, AUTH_COOKIE_NAME, token, { maxAge: 60 * 60 * 24 * 7 });
+export function readRefreshToken(c: Context) {
+  return getCookie(c, REFRESH_COOKIE_NAME) ?? null;
+}
+
+export function persistAuth(c: Context, token: string, refreshToken?: string) {
+  setJsonCookie(c, AUTH_COOKIE_NAME, token, { maxAge: ACCESS_TOKEN_TTL_SECONDS });
+  if (refreshToken) {
+    setJsonCookie(c, REFRESH_COOKIE_NAME, refreshToken, {
+      maxAge: Math.floor(REFRESH_TOKEN_TTL_MS / 1000),
+    });
+  }
 }
 
 export function clearAuth(c: Context) {
   setJsonCookie(c, AUTH_COOKIE_NAME, '', { maxAge: 0 });
+  setJsonCookie(c, REFRESH_COOKIE_NAME, '', { maxAge: 0 });
 }
@@ -0,0 +1,233 @@
+import { SignJWT, importPKCS8 } from 'jose';
+import { resolvePremiumDaysForProduct } from '@shared/index.js';
+import { getEnv } from './env.ts';
+import { HTTP_STATUS, HttpError } from './http.ts';
+
+const ANDROID_PUBLISHER_SCOPE = 'https://www.googleapis.com/auth/androidpublisher';
+const DEFAULT_TOKEN_URI = 'https://oauth2.googleapis.com/token';
+const DEFAULT_API_BASE_URL = 'https://androidpublisher.googleapis.com';
+const GOOGLE_PLAY_TIMEOUT_MS = 15_000;
+
+interface PlayProductPurchase {
+  orderId?: string;
+  productId?: string;
+  purchaseTimeMillis?: string;
+  /** 0 purchased, 1 canceled, 2 pending */
+  purchaseState?: number;
+  consumptionState?: number;
+  purchaseType?: number;
+  quantity?: number;
+}
+
+interface PlaySubscriptionPurchase {
+  subscriptionState?: string;
+  startTime?: string;
+  latestOrderId?: string;
+  acknowledgementState?: string;
+  testPurchase?: Record<string, unknown>;
+  lineItems?: Array<{ productId?: string; expiryTime?: string }>;
+}
+
+export interface GooglePlayVerification {
+  transactionId: string;
+  productId: string;
+  /** The purchase token, which stays the same across subscription renewals. */
+  originalTransactionId: string;
+  quantity: number;
+  purchaseDate: Date;
+  expiresDate: Date | null;
+  environment: string;
+  raw: Record<string, unknown> & { kind: 'product' | 'subscription'; purchaseToken: string };
+}
+
+let accessToken: { value: string; expiresAt: number } | null = null;
+
+function loadConfig() {
+  const packageName = getEnv('GOOGLE_PLAY_PACKAGE_NAME', { optional: true });
+  const rawAccount = getEnv('GOOGLE_PLAY_SERVICE_ACCOUNT', { optional: true });
+  let account: { client_email?: string; private_key?: string; token_uri?: string } | null = null;
+  try {
+    account = rawAccount ? JSON.parse(rawAccount) : null;
+  } catch (_error) {
+    console.error('[iap] GOOGLE_PLAY_SERVICE_ACCOUNT is not valid JSON');
+  }
+  if (!packageName || !account?.client_email || !account.private_key) {
+    throw new HttpError('Google Play の検証が設定されていません', {
+      status: HTTP_STATUS.SERVICE_UNAVAILABLE,
+      expose: true,
+    });
+  }
+  const apiBaseUrl = getEnv('GOOGLE_PLAY_API_BASE_URL', { optional: true }) || DEFAULT_API_BASE_URL;
+  return {
+    applicationUrl: `${apiBaseUrl.replace(/\/+$/, '')}/androidpublisher/v3/applications/${encodeURIComponent(packageName)}`,
+    clientEmail: account.client_email,
+    privateKey: account.private_key,
+    tokenUri: account.token_uri ?? DEFAULT_TOKEN_URI,
+  };
+}
+
+async function fetchWithTimeout(url: string, init: RequestInit) {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), GOOGLE_PLAY_TIMEOUT_MS);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+async function getAccessToken(config: ReturnType<typeof loadConfig>) {
+  if (accessToken && accessToken.expiresAt - 60_000 > Date.now()) {
+    return accessToken.value;
+  }
+  const assertion = await new SignJWT({ scope: ANDROID_PUBLISHER_SCOPE })
+    .setProtectedHeader({ alg: 'RS256', typ: 'JWT' })
+    .setIssuer(config.clientEmail)
+    .setAudience(config.tokenUri)
+    .setIssuedAt()
+    .setExpirationTime('1h')
+    .sign(await importPKCS8(config.privateKey, 'RS256'));
+  const response = await fetchWithTimeout(config.tokenUri, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+      assertion,
+    }).toString(),
+  });
+  const payload = response.ok
+    ? ((await response.json()) as { access_token?: string; expires_in?: number })
+    : null;
+  if (!payload?.access_token) {
+    throw new Error(`Google OAuth token HTTP ${response.status}`);
+  }
+  accessToken = {
+    value: payload.access_token,
+    expiresAt: Date.now() + (payload.expires_in ?? 3600) * 1000,
+  };
+  return accessToken.value;
+}
+
+async function callPlayApi<T>(path: string, method: 'GET' | 'POST' = 'GET'): Promise<T> {
+  const config = loadConfig();
+  const response = await fetchWithTimeout(`${config.applicationUrl}${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${await getAccessToken(config)}`,
+      ...(method === 'POST' ? { 'Content-Type': 'application/json' } : {}),
+    },
+    ...(method === 'POST' ? { body: '{}' } : {}),
+  });
+  if (!response.ok) {
+    // The purchase token stays out of the message; it grants access to the purchase.
+    throw new Error(
+      `Google Play API ${method} ${path.split('/tokens/')[0]} HTTP ${response.status}`,
+    );
+  }
+  const text = await response.text();
+  return (text ? JSON.parse(text) : {}) as T;
+}
+
+function parseTime(value?: string | null) {
+  if (!value) return null;
+  const date = /^\d+$/.test(value) ? new Date(Number(value)) : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+const pendingPurchaseError = () =>
+  new HttpError('Google Play の購入が保留中です。支払いの完了後にもう一度お試しください', {
+    status: HTTP_STATUS.BAD_REQUEST,
+    expose: true,
+  });
+
+/**
+ * For Play purchases the client sends the purchase token as `receiptData`. Premium products are
+ * Play subscriptions; credit packs are one-time products.
+ */
+export async function verifyGooglePlayPurchase(input: {
+  productId: string;
+  purchaseToken: string;
+}): Promise<GooglePlayVerification> {
+  const token = encodeURIComponent(input.purchaseToken);
+  let verification: GooglePlayVerification;
+  try {
+    if (resolvePremiumDaysForProduct(input.productId) !== null) {
+      const subscription = await callPlayApi<PlaySubscriptionPurchase>(
+        `/purchases/subscriptionsv2/tokens/${token}`,
+      );
+      if (subscription.subscriptionState === 'SUBSCRIPTION_STATE_PENDING') {
+        throw pendingPurchaseError();
+      }
+      const lineItems = subscription.lineItems ?? [];
+      const lineItem = lineItems.find((item) => item.productId === input.productId) ?? lineItems[0];
+      if (!lineItem?.productId) {
+        throw new Error('Google Play subscription has no line items');
+      }
+      verification = {
+        transactionId: subscription.latestOrderId ?? input.purchaseToken,
+        productId: lineItem.productId,
+        originalTransactionId: input.purchaseToken,
+        quantity: 1,
+        purchaseDate: parseTime(subscription.startTime) ?? new Date(),
+        expiresDate: parseTime(lineItem.expiryTime),
+        environment: subscription.testPurchase ? 'SANDBOX' : 'PRODUCTION',
+        raw: { kind: 'subscription', purchaseToken: input.purchaseToken, ...subscription },
+      };
+    } else {
+      const purchase = await callPlayApi<PlayProductPurchase>(
+        `/purchases/products/${encodeURIComponent(input.productId)}/tokens/${token}`,
+      );
+      if (purchase.purchaseState === 2) {
+        throw pendingPurchaseError();
+      }
+      if (purchase.purchaseState !== 0) {
+        throw new Error(`Google Play purchase state ${purchase.purchaseState}`);
+      }
+      const quantity = Number(purchase.quantity ?? 1);
+      verification = {
+        transactionId: purchase.orderId ?? input.purchaseToken,
+        productId: purchase.productId ?? input.productId,
+        originalTransactionId: input.purchaseToken,
+        quantity: Number.isFinite(quantity) && quantity > 0 ? quantity : 1,
+        purchaseDate: parseTime(purchase.purchaseTimeMillis) ?? new Date(),
+        expiresDate: null,
+        environment: purchase.purchaseType === 0 ? 'SANDBOX' : 'PRODUCTION',
+        raw: { kind: 'product', purchaseToken: input.purchaseToken, ...purchase },
+      };
+    }
+  } catch (error) {
+    if (error instanceof HttpError) {
+      throw error;
+    }
+    console.warn('[iap] google play verification failed', {
+      productId: input.productId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw new HttpError('Google Play の購入の検証に失敗しました', {
+      status: HTTP_STATUS.BAD_REQUEST,
+      expose: true,
+    });
+  }
+  return verification;
+}
+
+/**
+ * Play refunds purchases that are not acknowledged within three days. Credit packs are consumed
+ * instead (which acknowledges them) so they can be bought again.
+ */
+export async function finalizeGooglePlayPurchase(verification: GooglePlayVerification) {
+  const token = encodeURIComponent(verification.raw.purchaseToken);
+  const productId = encodeURIComponent(verification.productId);
+  if (verification.raw.kind === 'subscription') {
+    if (verification.raw.acknowledgementState === 'ACKNOWLEDGEMENT_STATE_PENDING') {
+      await callPlayApi(
+        `/purchases/subscriptions/${productId}/tokens/${token}:acknowledge`,
+        'POST',
+      );
+    }
+    return;
+  }
+  if (verification.raw.consumptionState !== 1) {
+    await callPlayApi(`/purchases/products/${productId}/tokens/${token}:consume`, 'POST');
+  }
+}
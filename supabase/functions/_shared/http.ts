@@ -15,7 +15,12 @@ export const HTTP_STATUS = {
   FORBIDDEN: 403,
   NOT_FOUND: 404,
   CONFLICT: 409,
+  PAYLOAD_TOO_LARGE: 413,
+  UNSUPPORTED_MEDIA_TYPE: 415,
+  UNPROCESSABLE_ENTITY: 422,
   NOT_IMPLEMENTED: 501,
+  BAD_GATEWAY: 502,
+  SERVICE_UNAVAILABLE: 503,
   TOO_MANY_REQUESTS: 429,
   INTERNAL_ERROR: 500,
 } as const;
@@ -61,6 +66,8 @@ export function createApp() {
         'X-Timezone',
         'X-Device-Id',
         'X-App-Version',
+        'X-Client-Platform',
+        'X-Device-Name',
         'Accept-Language',
         'X-Translation-Mode',
       ],
@@ -0,0 +1,306 @@
+import type { Context } from 'hono';
+import {
+  SESSION_LAST_SEEN_INTERVAL_MS,
+  parseDeviceSessionPlatform,
+  readSessionClientInfo,
+  type DeviceSession,
+} from '@shared/index.js';
+import { HTTP_STATUS, HttpError } from './http.ts';
+import { supabaseAdmin } from './supabase.ts';
+
+/** Lifetime of a refresh token; each rotation extends the session row to match the new one. */
+export const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+interface SessionRow {
+  sid: string;
+  userId: number | null;
+  kind: string;
+  deviceName: string | null;
+  platform: string | null;
+  ipAddress: string | null;
+  region: string | null;
+  lastSeenAt: string;
+  expiresAt: string;
+  createdAt: string;
+}
+
+function extractClientIp(c: Context) {
+  const xff = c.req.header('x-forwarded-for') ?? '';
+  if (xff) {
+    return xff.split(',')[0]?.trim() || null;
+  }
+  return c.req.header('x-real-ip') ?? null;
+}
+
+async function sha256Hex(value: string) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/** Same handle as the Node API (first 32 hex chars of the SHA-256 of the session id). */
+export async function toPublicSessionId(sid: string) {
+  return (await sha256Hex(sid)).slice(0, 32);
+}
+
+export async function createTokenSession(c: Context, userId: number) {
+  const sid = `jwt_${crypto.randomUUID()}`;
+  const client = readSessionClientInfo((name) => c.req.header(name), extractClientIp(c));
+  const nowIso = new Date().toISOString();
+  const { error } = await supabaseAdmin.from('Session').insert({
+    sid,
+    userId,
+    kind: 'token',
+    data: JSON.stringify({ userId }),
+    deviceName: client.deviceName,
+    platform: client.platform,
+    userAgent: client.userAgent,
+    ipAddress: client.ipAddress,
+    region: client.region,
+    lastSeenAt: nowIso,
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS).toISOString(),
+    createdAt: nowIso,
+    updatedAt: nowIso,
+  });
+  if (error) {
+    console.error('createTokenSession: failed to insert session', error);
+    throw new HttpError('ログインに失敗しました', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  return sid;
+}
+
+/**
+ * Whether the token's session row still exists; a revoked or expired row ends the JWT early.
+ * Also records activity, at most once per `SESSION_LAST_SEEN_INTERVAL_MS`.
+ */
+export async function touchTokenSession(sid: string, userId: number) {
+  const { data, error } = await supabaseAdmin
+    .from('Session')
+    .select('sid, userId, lastSeenAt, expiresAt')
+    .eq('sid', sid)
+    .maybeSingle();
+  if (error) {
+    console.error('touchTokenSession: failed to fetch session', error);
+    throw new HttpError('認証情報の確認に失敗しました', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  const now = Date.now();
+  if (!data || data.userId !== userId || new Date(data.expiresAt).getTime() <= now) {
+    return false;
+  }
+
+  if (now - new Date(data.lastSeenAt).getTime() >= SESSION_LAST_SEEN_INTERVAL_MS) {
+    const nowIso = new Date(now).toISOString();
+    const { error: updateError } = await supabaseAdmin
+      .from('Session')
+      .update({ lastSeenAt: nowIso, updatedAt: nowIso })
+      .eq('sid', sid);
+    if (updateError) {
+      console.warn('touchTokenSession: failed to record activity', updateError);
+    }
+  }
+  return true;
+}
+
+export async function deleteSession(sid: string) {
+  const { error } = await supabaseAdmin.from('Session').delete().eq('sid', sid);
+  if (error) {
+    console.error('deleteSession: failed to delete session', error);
+    throw new HttpError('セッションの削除に失敗しました', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+}
+
+function generateRefreshToken() {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/** Adds a refresh token to the session's chain; only its hash is stored. */
+export async function issueRefreshToken(sid: string) {
+  const token = generateRefreshToken();
+  const { error } = await supabaseAdmin.from('RefreshToken').insert({
+    sessionId: sid,
+    tokenHash: await sha256Hex(token),
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS).toISOString(),
+    createdAt: new Date().toISOString(),
+  });
+  if (error) {
+    console.error('issueRefreshToken: failed to insert refresh token', error);
+    throw new HttpError('ログインに失敗しました', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  return token;
+}
+
+const invalidRefreshToken = (code: string) =>
+  new HttpError('ログインの有効期限が切れました。もう一度ログインしてください。', {
+    status: HTTP_STATUS.UNAUTHORIZED,
+    code,
+    expose: true,
+  });
+
+/**
+ * Spends a refresh token and issues its successor. A token that was already spent means a copy is
+ * in someone else's hands, so the whole session (every token of the family) is revoked.
+ */
+export async function rotateRefreshToken(token: string) {
+  const { data: record, error } = await supabaseAdmin
+    .from('RefreshToken')
+    .select('id, sessionId, expiresAt, usedAt')
+    .eq('tokenHash', await sha256Hex(token))
+    .maybeSingle();
+  if (error) {
+    console.error('rotateRefreshToken: failed to fetch refresh token', error);
+    throw new HttpError('認証情報の確認に失敗しました', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  if (!record) {
+    throw invalidRefreshToken('auth.refresh_invalid');
+  }
+
+  const revokeFamily = async () => {
+    console.warn('rotateRefreshToken: refresh token reused, revoking session', {
+      sessionId: record.sessionId,
+    });
+    await deleteSession(record.sessionId);
+    return invalidRefreshToken('auth.refresh_reused');
+  };
+
+  if (record.usedAt) {
+    throw await revokeFamily();
+  }
+  const now = Date.now();
+  if (new Date(record.expiresAt).getTime() <= now) {
+    throw invalidRefreshToken('auth.refresh_invalid');
+  }
+
+  const nowIso = new Date(now).toISOString();
+  // Conditional on `usedAt` so two concurrent refreshes cannot both succeed with the same token.
+  const { data: spent, error: spendError } = await supabaseAdmin
+    .from('RefreshToken')
+    .update({ usedAt: nowIso })
+    .eq('id', record.id)
+    .is('usedAt', null)
+    .select('id');
+  if (spendError) {
+    console.error('rotateRefreshToken: failed to spend refresh token', spendError);
+    throw new HttpError('認証情報の確認に失敗しました', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  if (!spent?.length) {
+    throw await revokeFamily();
+  }
+
+  const { data: session, error: sessionError } = await supabaseAdmin
+    .from('Session')
+    .update({
+      lastSeenAt: nowIso,
+      updatedAt: nowIso,
+      expiresAt: new Date(now + REFRESH_TOKEN_TTL_MS).toISOString(),
+    })
+    .eq('sid', record.sessionId)
+    .gt('expiresAt', nowIso)
+    .select('sid, userId')
+    .maybeSingle();
+  if (sessionError) {
+    console.error('rotateRefreshToken: failed to extend session', sessionError);
+    throw new HttpError('認証情報の確認に失敗しました', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  if (!session?.userId) {
+    throw invalidRefreshToken('auth.refresh_invalid');
+  }
+
+  return {
+    sessionId: session.sid as string,
+    userId: session.userId as number,
+    refreshToken: await issueRefreshToken(session.sid),
+  };
+}
+
+/** Session a refresh token belongs to, so logout works after the access token has expired. */
+export async function findRefreshTokenSession(token: string) {
+  const { data, error } = await supabaseAdmin
+    .from('RefreshToken')
+    .select('sessionId')
+    .eq('tokenHash', await sha256Hex(token))
+    .maybeSingle();
+  if (error) {
+    console.error('findRefreshTokenSession: failed to fetch refresh token', error);
+    throw new HttpError('認証情報の確認に失敗しました', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  return (data?.sessionId as string | undefined) ?? null;
+}
+
+async function fetchUserSessionRows(userId: number) {
+  const { data, error } = await supabaseAdmin
+    .from('Session')
+    .select(
+      'sid, userId, kind, deviceName, platform, ipAddress, region, lastSeenAt, expiresAt, createdAt',
+    )
+    .eq('userId', userId)
+    .gt('expiresAt', new Date().toISOString())
+    .order('lastSeenAt', { ascending: false });
+  if (error) {
+    console.error('fetchUserSessionRows: failed to fetch sessions', error);
+    throw new HttpError('セッションの取得に失敗しました', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  return (data ?? []) as SessionRow[];
+}
+
+export async function listUserSessions(
+  userId: number,
+  currentSid: string | null,
+): Promise<DeviceSession[]> {
+  const rows = await fetchUserSessionRows(userId);
+  const sessions = await Promise.all(
+    rows.map(async (row) => ({
+      id: await toPublicSessionId(row.sid),
+      kind: row.kind === 'token' ? ('token' as const) : ('cookie' as const),
+      current: row.sid === currentSid,
+      device_name: row.deviceName,
+      platform: parseDeviceSessionPlatform(row.platform),
+      ip_address: row.ipAddress,
+      region: row.region,
+      created_at: new Date(row.createdAt).toISOString(),
+      last_seen_at: new Date(row.lastSeenAt).toISOString(),
+    })),
+  );
+  return sessions.sort((a, b) => Number(b.current) - Number(a.current));
+}
+
+/** Revokes one session by its public id and reports whether it was the caller's own. */
+export async function revokeUserSession(
+  userId: number,
+  publicId: string,
+  currentSid: string | null,
+) {
+  const rows = await fetchUserSessionRows(userId);
+  let target: SessionRow | undefined;
+  for (const row of rows) {
+    if ((await toPublicSessionId(row.sid)) === publicId) {
+      target = row;
+      break;
+    }
+  }
+  if (!target) {
+    throw new HttpError('セッションが見つかりません', {
+      status: HTTP_STATUS.NOT_FOUND,
+      expose: true,
+    });
+  }
+  await deleteSession(target.sid);
+  return { current: target.sid === currentSid };
+}
+
+export async function revokeOtherSessions(userId: number, currentSid: string | null) {
+  let query = supabaseAdmin.from('Session').delete().eq('userId', userId);
+  if (currentSid) {
+    query = query.neq('sid', currentSid);
+  }
+  const { data, error } = await query.select('sid');
+  if (error) {
+    console.error('revokeOtherSessions: failed to delete sessions', error);
+    throw new HttpError('セッションの削除に失敗しました', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  return data?.length ?? 0;
+}
@@ -1,7 +1,24 @@
 import { AppleAuthRequestSchema } from '@shared/index.js';
 import bcrypt from 'bcryptjs';
 import { createApp, HTTP_STATUS, HttpError, handleError } from '../_shared/http.ts';
-import { clearAuth, getAuthSession, persistAuth, signUserToken } from '../_shared/auth.ts';
+import {
+  ACCESS_TOKEN_TTL_SECONDS,
+  clearAuth,
+  getAuthSession,
+  persistAuth,
+  readRefreshToken,
+  signUserToken,
+} from '../_shared/auth.ts';
+import {
+  createTokenSession,
+  deleteSession,
+  findRefreshTokenSession,
+  issueRefreshToken,
+  listUserSessions,
+  revokeOtherSessions,
+  revokeUserSession,
+  rotateRefreshToken,
+} from '../_shared/sessions.ts';
 import { evaluateAiUsage, summarizeUsageStatus } from '../_shared/ai.ts';
 import { supabaseAdmin } from '../_shared/supabase.ts';
 import { createRemoteJWKSet, jwtVerify } from 'jose';
@@ -14,6 +31,10 @@ const BCRYPT_SALT_ROUNDS = 10;
 const APPLE_LOGIN_PATHS = ['/login/apple', '/api/login/apple', '/auth/login/apple', '/auth/api/login/apple'] as const;
 const LOGOUT_PATHS = ['/logout', '/api/logout', '/auth/logout', '/auth/api/logout'] as const;
 const SESSION_PATHS = ['/session', '/api/session', '/auth/session', '/auth/api/session'] as const;
+const REFRESH_PATHS = ['/refresh', '/api/auth/refresh', '/auth/refresh', '/auth/api/auth/refresh'] as const;
+const SESSION_LIST_PATHS = ['/sessions', '/api/auth/sessions', '/auth/sessions', '/auth/api/auth/sessions'] as const;
+const SESSION_REVOKE_OTHERS_PATHS = SESSION_LIST_PATHS.map((path) => `${path}/revoke-others`);
+const SESSION_REVOKE_PATHS = SESSION_LIST_PATHS.map((path) => `${path}/:id`);
 
 const appleAudience = getEnv('APPLE_SERVICE_ID', { optional: true })?.split(',').map((value) => value.trim()).filter(Boolean);
 const appleJwks = createRemoteJWKSet(new URL('https://appleid.apple.com/auth/keys'));
@@ -83,8 +104,10 @@ const handleAppleLogin = async (c: Hono.Context) => {
     });
 
     const user = result.user;
-    const token = await signUserToken(user);
-    persistAuth(c, token);
+    const sessionId = await createTokenSession(c, user.id);
+    const refreshToken = await issueRefreshToken(sessionId);
+    const token = await signUserToken(user, { sessionId });
+    persistAuth(c, token, refreshToken);
 
     const usageStatus = await evaluateAiUsage(user.id);
     const onboarding = await getOnboardingStatus(user.id);
@@ -94,6 +117,7 @@ const handleAppleLogin = async (c: Hono.Context) => {
       user,
       usage: summarizeUsageStatus(usageStatus),
       onboarding,
+      tokens: serializeTokens(token, refreshToken),
     });
   } catch (err) {
     console.error('apple login error', err);
@@ -102,14 +126,65 @@ const handleAppleLogin = async (c: Hono.Context) => {
 };
 
 const handleLogout = async (c: Hono.Context) => {
+  const session = await getAuthSession(c);
+  const refreshToken = readRefreshToken(c);
+  // The access token may already have expired; the refresh cookie still names the session.
+  const sessionId =
+    session?.sessionId ?? (refreshToken ? await findRefreshTokenSession(refreshToken) : null);
+  if (sessionId) {
+    await deleteSession(sessionId);
+  }
   clearAuth(c);
   return c.json({ message: 'ログアウトしました' });
 };
 
+const handleRefresh = async (c: Hono.Context) => {
+  try {
+    // Cookie clients send nothing; clients holding tokens themselves post `refresh_token`.
+    const body = await c.req.json().catch(() => null);
+    const presented =
+      (typeof body?.refresh_token === 'string' ? body.refresh_token : null) ?? readRefreshToken(c);
+    if (!presented) {
+      return c.json({ error: '認証が必要です' }, HTTP_STATUS.UNAUTHORIZED);
+    }
+
+    let rotated: Awaited<ReturnType<typeof rotateRefreshToken>>;
+    try {
+      rotated = await rotateRefreshToken(presented);
+    } catch (err) {
+      if ((err as { status?: number })?.status === HTTP_STATUS.UNAUTHORIZED) {
+        clearAuth(c);
+      }
+      throw err;
+    }
+
+    const { data: record, error } = await supabaseAdmin
+      .from('User')
+      .select('id, email')
+      .eq('id', rotated.userId)
+      .maybeSingle();
+    if (error) {
+      console.error('refresh: failed to fetch user', error);
+      throw new HttpError('ユーザー情報の取得に失敗しました', { status: HTTP_STATUS.INTERNAL_ERROR });
+    }
+    if (!record) {
+      await deleteSession(rotated.sessionId);
+      clearAuth(c);
+      return c.json({ error: '認証が必要です' }, HTTP_STATUS.UNAUTHORIZED);
+    }
+
+    const token = await signUserToken(record, { sessionId: rotated.sessionId });
+    persistAuth(c, token, rotated.refreshToken);
+    return c.json({ ok: true, ...serializeTokens(token, rotated.refreshToken) });
+  } catch (err) {
+    return handleError(c, err);
+  }
+};
+
 const handleSession = async (c: Hono.Context) => {
   const session = await getAuthSession(c);
   if (!session) {
-    clearAuth(c);
+    // Keep the refresh cookie: an expired access token is renewed through `/api/auth/refresh`.
     return c.json({ authenticated: false }, HTTP_STATUS.UNAUTHORIZED);
   }
 
@@ -133,10 +208,6 @@ const handleSession = async (c: Hono.Context) => {
   const usageStatus = await evaluateAiUsage(user.id);
   const onboarding = await getOnboardingStatus(user.id);
 
-  // Refresh token with up-to-date credit info
-  const token = await signUserToken(user);
-  persistAuth(c, token);
-
   return c.json({
     authenticated: true,
     user,
@@ -145,9 +216,55 @@ const handleSession = async (c: Hono.Context) => {
   });
 };
 
+const handleListSessions = async (c: Hono.Context) => {
+  try {
+    const session = await getAuthSession(c);
+    if (!session) {
+      return c.json({ error: '認証が必要です' }, HTTP_STATUS.UNAUTHORIZED);
+    }
+    const sessions = await listUserSessions(session.user.id, session.sessionId);
+    return c.json({ ok: true, sessions });
+  } catch (err) {
+    return handleError(c, err);
+  }
+};
+
+const handleRevokeSession = async (c: Hono.Context) => {
+  try {
+    const session = await getAuthSession(c);
+    if (!session) {
+      return c.json({ error: '認証が必要です' }, HTTP_STATUS.UNAUTHORIZED);
+    }
+    const result = await revokeUserSession(session.user.id, c.req.param('id'), session.sessionId);
+    if (result.current) {
+      clearAuth(c);
+    }
+    return c.json({ ok: true, current: result.current });
+  } catch (err) {
+    return handleError(c, err);
+  }
+};
+
+const handleRevokeOtherSessions = async (c: Hono.Context) => {
+  try {
+    const session = await getAuthSession(c);
+    if (!session) {
+      return c.json({ error: '認証が必要です' }, HTTP_STATUS.UNAUTHORIZED);
+    }
+    const revoked = await revokeOtherSessions(session.user.id, session.sessionId);
+    return c.json({ ok: true, revoked });
+  } catch (err) {
+    return handleError(c, err);
+  }
+};
+
 APPLE_LOGIN_PATHS.forEach((path) => app.post(path, (c) => handleAppleLogin(c)));
 LOGOUT_PATHS.forEach((path) => app.post(path, (c) => handleLogout(c)));
 SESSION_PATHS.forEach((path) => app.get(path, (c) => handleSession(c)));
+REFRESH_PATHS.forEach((path) => app.post(path, (c) => handleRefresh(c)));
+SESSION_LIST_PATHS.forEach((path) => app.get(path, (c) => handleListSessions(c)));
+SESSION_REVOKE_OTHERS_PATHS.forEach((path) => app.post(path, (c) => handleRevokeOtherSessions(c)));
+SESSION_REVOKE_PATHS.forEach((path) => app.delete(path, (c) => handleRevokeSession(c)));
 
 // Fallback to handle OPTIONS preflight without hitting error handler
 app.options('*', (c) => c.text('ok'));
@@ -273,6 +390,14 @@ async function getOnboardingStatus(userId: number) {
   };
 }
 
+function serializeTokens(accessToken: string, refreshToken: string) {
+  return {
+    access_token: accessToken,
+    refresh_token: refreshToken,
+    expires_in: ACCESS_TOKEN_TTL_SECONDS,
+  };
+}
+
 function serializeUser(row: DbUser) {
   return {
     id: row.id,
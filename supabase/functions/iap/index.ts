@@ -11,6 +11,7 @@ import { requireAuth } from '../_shared/auth.ts';
 import { supabaseAdmin } from '../_shared/supabase.ts';
 import { evaluateAiUsage, summarizeUsageStatus } from '../_shared/ai.ts';
 import { boolEnv, getEnv } from '../_shared/env.ts';
+import { finalizeGooglePlayPurchase, verifyGooglePlayPurchase } from '../_shared/google-play.ts';
 
 const app = createApp();
 
@@ -71,16 +72,10 @@ PURCHASE_PATHS.forEach((path) =>
   }
   const request = parsed.data;
 
-  if (request.platform !== 'APP_STORE') {
-    throw new HttpError('Google Play の検証は後日対応予定です', {
-      status: HTTP_STATUS.NOT_IMPLEMENTED,
-      expose: true,
-    });
-  }
-
   console.log('[iap] purchase payload', {
     requestId,
     userId: user.id,
+    platform: request.platform,
     productId: request.productId,
     transactionId: request.transactionId,
     environment: request.environment ?? null,
@@ -112,8 +107,8 @@ PURCHASE_PATHS.forEach((path) =>
   }
 
   const verifyStartedAt = Date.now();
-  const verification = await verifyAppStoreReceipt(request, requestId);
-  console.log('[iap] verifyAppStoreReceipt done', { requestId, ms: Date.now() - verifyStartedAt });
+  const verification = await verifyPurchase(request, requestId);
+  console.log('[iap] verifyPurchase done', { requestId, ms: Date.now() - verifyStartedAt });
 
   if (IAP_DEBUG) {
     console.log('[iap] verification summary', {
@@ -173,21 +168,28 @@ PURCHASE_PATHS.forEach((path) =>
 
   const quantity = verification.quantity ?? request.quantity ?? 1;
   const creditsGranted = (creditsPerUnit ?? 0) * quantity;
-  const premiumDaysGranted = (premiumDaysPerUnit ?? 0) * quantity;
+  const purchasedAt = verification.purchaseDate ?? new Date();
+  const purchasedAtIso = purchasedAt.toISOString();
+  // Play subscriptions report when the paid period ends; App Store receipts fall back to the product length.
+  const { expiresDate } = verification;
+  const subscriptionEnd = premiumDaysPerUnit && expiresDate && expiresDate > purchasedAt ? expiresDate : null;
+  const premiumDaysGranted = subscriptionEnd
+    ? Math.max(1, Math.ceil(DateTime.fromJSDate(subscriptionEnd).diff(DateTime.fromJSDate(purchasedAt), 'days').days))
+    : (premiumDaysPerUnit ?? 0) * quantity;
 
   if (creditsGranted <= 0 && premiumDaysGranted <= 0) {
     throw new HttpError('付与内容が計算できませんでした', { status: HTTP_STATUS.BAD_REQUEST, expose: true });
   }
 
-  const purchasedAt = verification.purchaseDate ?? new Date();
-  const purchasedAtIso = purchasedAt.toISOString();
-  const endDate = DateTime.fromJSDate(purchasedAt).plus({ days: premiumDaysGranted }).toJSDate();
+  const endDate = subscriptionEnd ?? DateTime.fromJSDate(purchasedAt).plus({ days: premiumDaysGranted }).toJSDate();
 
   const insertReceiptStartedAt = Date.now();
   const iapReceiptId = await insertReceipt({
     userId: user.id,
+    platform: request.platform,
     productId: resolvedProductId,
     transactionId: verification.transactionId,
+    originalTransactionId: verification.originalTransactionId,
     environment: verification.environment,
     quantity,
     creditsGranted,
@@ -214,6 +216,17 @@ PURCHASE_PATHS.forEach((path) =>
     console.log('[iap] insertPremiumGrant done', { requestId, ms: Date.now() - grantStartedAt, premiumDaysGranted });
   }
 
+  if (verification.googlePlay) {
+    // The grant is already stored; a failed acknowledgement is retried by the purchase's developer notification.
+    await finalizeGooglePlayPurchase(verification.googlePlay).catch((error) => {
+      console.error('[iap] google play acknowledgement failed', {
+        requestId,
+        transactionId: verification.transactionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }
+
   const usageStartedAt = Date.now();
   const usage = summarizeUsageStatus(await evaluateAiUsage(user.id));
   console.log('[iap] evaluateAiUsage done', { requestId, ms: Date.now() - usageStartedAt });
@@ -303,8 +316,10 @@ async function ensurePremiumGrantFromReceipt(receipt: {
 
 async function insertReceipt(params: {
   userId: number;
+  platform: IapPurchaseRequest['platform'];
   productId: string;
   transactionId: string;
+  originalTransactionId: string | null;
   environment: string;
   quantity: number;
   creditsGranted: number;
@@ -315,9 +330,10 @@ async function insertReceipt(params: {
     .from('IapReceipt')
     .insert({
       userId: params.userId,
-      platform: 'APP_STORE',
+      platform: params.platform,
       productId: params.productId,
       transactionId: params.transactionId,
+      originalTransactionId: params.originalTransactionId,
       environment: params.environment,
       quantity: params.quantity,
       creditsGranted: params.creditsGranted,
@@ -434,6 +450,18 @@ async function buildPremiumStatusPayload(userId: number): Promise<PremiumStatus>
   };
 }
 
+async function verifyPurchase(input: IapPurchaseRequest, requestId?: string) {
+  if (input.platform === 'GOOGLE_PLAY' && !OFFLINE_VERIFICATION) {
+    const verification = await verifyGooglePlayPurchase({
+      productId: input.productId,
+      purchaseToken: input.receiptData,
+    });
+    return { ...verification, googlePlay: verification };
+  }
+  const verification = await verifyAppStoreReceipt(input, requestId);
+  return { ...verification, originalTransactionId: null, expiresDate: null, googlePlay: null };
+}
+
 async function verifyAppStoreReceipt(input: IapPurchaseRequest, requestId?: string) {
   if (OFFLINE_VERIFICATION) {
     return verifyTestReceipt(input);
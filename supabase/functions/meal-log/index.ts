@@ -23,6 +23,47 @@ import type {
   AiReportComparison,
   AiReportVoiceMode,
   HedgeAttemptReport,
+  FoodSearchCandidate,
+  ManualMealLogRequest,
+  BarcodeMealLogRequest,
+  FoodProduct,
+  FoodProductDraft,
+  FoodProductLabelResponse,
+  FoodProductLookupResponse,
+  Micronutrients,
+  MealLogItem,
+  MealLogItemChangePlan,
+  WeightEntry,
+  WeightLogResponse,
+  AdaptivePlanDecisionRequest,
+  AdaptivePlanProposal,
+  DailyIntake,
+  HydrationBeverage,
+  HydrationDay,
+  HydrationEntry,
+  Recipe,
+  RecipeIngredientInput,
+  RecipeIngredientSource,
+  RecipeLogRequest,
+  PlannedMeal,
+  PlannedMealSource,
+  AiProviderTarget,
+  AiPromptInput,
+  AiPromptImage,
+  MealDish,
+  MealLogSplitResponse,
+  AppliedPortionCalibration,
+  PortionCalibration,
+  PortionCalibrationHint,
+  PortionCalibrationListResponse,
+  MealLogClarificationResponse,
+  PendingMealClarification,
+  MealLogReanalysis,
+  SpeechToTextAudio,
+  MealLogChainMenuSource,
+  MealLogEstimateSourceRequest,
+  ChainMenuItemValues,
+  ChainMenuMatchCandidate,
 } from '@shared/index.js';
 import {
   UpdateMealLogRequestSchema,
@@ -49,8 +90,121 @@ import {
   AiReportPreferenceInputSchema,
   AiReportPreferenceResponseSchema,
   AiReportPreferenceUpdateResponseSchema,
+  FoodSearchResponseSchema,
+  ManualMealLogRequestSchema,
+  BarcodeMealLogRequestSchema,
+  MANUAL_LOG_LANDING_TYPE,
+  buildFoodSearchFragments,
+  normalizeFoodText,
+  pickFoodDisplayName,
+  rankFoodMatches,
+  resolveFoodPortion,
+  scaleFoodNutrients,
+  normalizeBarcode,
+  perServingToPer100g,
+  CORE_MICRONUTRIENT_KEYS,
+  buildMicronutrientRows,
+  normalizeMicronutrients,
+  scaleMicronutrients,
+  parseMicronutrientKeys,
+  resolveMicronutrientTargets,
+  sumMicronutrients,
+  allocateMealLogItems,
+  planMealLogItemChanges,
+  toNutritionItems,
+  WeightEntryCreateRequestSchema,
+  WeightEntryUpdateRequestSchema,
+  WeightEntryResponseSchema,
+  WeightLogResponseSchema,
+  WEIGHT_TREND_WINDOW_DAYS,
+  buildWeightTrend,
+  projectWeightGoal,
+  summarizeWeightChange,
+  AdaptivePlanDecisionRequestSchema,
+  AdaptivePlanResponseSchema,
+  ADAPTIVE_PLAN_WINDOW_DAYS,
+  buildAdaptivePlanProposal,
+  estimateMaintenanceFromHistory,
+  HydrationEntryCreateRequestSchema,
+  HydrationResponseSchema,
+  DEFAULT_HYDRATION_TARGET_ML,
+  computeHydrationTargetMl,
+  resolveHydrationCupSizes,
+  RecipeCreateRequestSchema,
+  RecipeUpdateRequestSchema,
+  RecipeDetailResponseSchema,
+  RecipeListResponseSchema,
+  RecipeLogRequestSchema,
+  RecipeSchema,
+  computeRecipePortion,
+  sumRecipeTotals,
+  PLANNER_MAX_RANGE_DAYS,
+  PlannedMealCreateRequestSchema,
+  PlannedMealListResponseSchema,
+  PlannedMealResponseSchema,
+  PlannedMealSchema,
+  PlannedMealUpdateRequestSchema,
+  summarizePlannedMeals,
+  parseAiProviderChain,
+  formatAiTargetLabel,
+  buildOpenAiCompatibleRequestBody,
+  extractGeminiText,
+  extractOpenAiCompatibleText,
+  buildLocalModelRequestBody,
+  extractLocalModelText,
+  ESTIMATE_CACHE_TTL_DAYS,
+  buildEstimateCacheKeyPayload,
+  MEAL_LOG_MAX_IMAGES,
+  buildDishResponse,
+  listSplittableDishes,
+  MAX_PORTION_HINTS,
+  PortionCalibrationCreateRequestSchema,
+  PortionCalibrationListResponseSchema,
+  PortionCalibrationResponseSchema,
+  PortionCalibrationUpdateRequestSchema,
+  buildPortionCalibrationHints,
+  derivePortionFactorsFromEdits,
+  fingerprintPortionHints,
+  formatPortionHintsForPrompt,
+  resolveAppliedPortionCalibrations,
+  CLARIFYING_QUESTIONS_PROMPT,
+  CLARIFYING_QUESTIONS_PROMPT_TYPE,
+  MealLogClarifyRequestSchema,
+  PendingMealClarificationSchema,
+  MealLogReanalysisSchema,
+  MealLogReanalysisResolveRequestSchema,
+  buildMealLogClarificationResponse,
+  formatClarificationForPrompt,
+  matchClarifyingAnswers,
+  selectClarifyingQuestions,
+  STATUS_STREAM_HEARTBEAT_MS,
+  STATUS_STREAM_MAX_MS,
+  STATUS_STREAM_MAX_TARGETS,
+  STATUS_STREAM_TICK_MS,
+  isTerminalIngestStatus,
+  isTerminalReportStatus,
+  DEFAULT_SPEECH_TO_TEXT_MODELS,
+  MEAL_LOG_MAX_AUDIO_BYTES,
+  buildGeminiTranscriptionRequestBody,
+  buildSpeechToTextFileName,
+  buildVoiceMealMessage,
+  decodeStubTranscript,
+  extractGeminiTranscript,
+  extractOpenAiTranscript,
+  isSupportedMealAudioType,
+  normalizeTranscript,
+  parseSpeechToTextProvider,
+  resolveSpeechToTextProviderFromChain,
+  CHAIN_MENU_LANDING_TYPE,
+  MealLogEstimateSourceRequestSchema,
+  buildChainMenuResponse,
+  buildMealLogChainMenuSource,
+  matchChainMenuItem,
+  normalizeChainMenuText,
+  withAlternateEstimate,
 } from '@shared/index.js';
 import type { Context } from 'hono';
+import { streamSSE } from 'hono/streaming';
 import { createApp, HTTP_STATUS, HttpError } from '../_shared/http.ts';
 import { getAuthSession, requireAuth } from '../_shared/auth.ts';
 import {
@@ -95,6 +249,8 @@ const DASHBOARD_TARGETS = {
   fat_g: { unit: 'g', value: 70, decimals: 1 },
   carbs_g: { unit: 'g', value: 260, decimals: 1 },
 } as const;
+// Vitamins / minerals shown next to fiber, sugar, saturated fat and salt (comma-separated keys).
+const DASHBOARD_MICRONUTRIENTS = parseMicronutrientKeys(Deno.env.get('DASHBOARD_MICRONUTRIENTS'));
 
 const DEFAULT_QUIET_START = 22 * 60;
 const DEFAULT_QUIET_END = 7 * 60;
@@ -103,7 +259,8 @@ const INGEST_DEFERRED_AFTER_MS = 1000 * 30;
 const INGEST_DEADLINE_MS = 1000 * 60 * 3;
 const INGEST_NEXT_CHECK_MS = 1000 * 60 * 2;
 const INGEST_INPUT_DEDUPE_WINDOW_MS = 1000 * 60 * 2;
-const PROMPT_VERSION = 'v1';
+const PROMPT_VERSION = 'v3';
+const NUTRITION_ESTIMATE_CACHE = (Deno.env.get('NUTRITION_ESTIMATE_CACHE') ?? 'true').toLowerCase() !== 'false';
 const REPORT_WORKER_BATCH_SIZE = Number(Deno.env.get('REPORT_WORKER_BATCH_SIZE') ?? '3');
 const REPORT_WORKER_SECRET = Deno.env.get('REPORT_WORKER_SECRET') ?? '';
 const REPORT_WORKER_ALLOW_ANON = (Deno.env.get('REPORT_WORKER_ALLOW_ANON') ?? '').toLowerCase() === 'true';
@@ -126,16 +283,7 @@ const REPORT_LOW_SCORE_THRESHOLD = 45;
 const REPORT_HIGH_SCORE_THRESHOLD = 85;
 
 const SHARE_TOKEN_TTL_MS = 1000 * 60 * 60 * 24 * 7; // 7 days
-const FOOD_CATALOGUE = [
-  { name: '鶏むね肉グリル', calories: 165, protein_g: 31, fat_g: 3.6, carbs_g: 0 },
-  { name: '鮭の塩焼き', calories: 230, protein_g: 25, fat_g: 14, carbs_g: 0 },
-  { name: 'サーモン寿司', calories: 320, protein_g: 20, fat_g: 9, carbs_g: 38 },
-  { name: 'サラダボウル', calories: 180, protein_g: 5, fat_g: 8, carbs_g: 20 },
-  { name: '味噌汁', calories: 80, protein_g: 6, fat_g: 3, carbs_g: 8 },
-  { name: 'カレーライス', calories: 650, protein_g: 18, fat_g: 24, carbs_g: 80 },
-  { name: '照り焼きチキン', calories: 420, protein_g: 28, fat_g: 18, carbs_g: 32 },
-  { name: 'オートミール', calories: 380, protein_g: 13, fat_g: 7, carbs_g: 67 },
-] as const;
+const FOOD_SEARCH_POOL_SIZE = 200;
 
 const toMealPeriodLabel = (period: string | null | undefined) => (period ? period.toLowerCase() : null);
 
@@ -312,6 +460,19 @@ const dashboardQuerySchema = z.object({
   to: z.string().optional(),
 });
 
+const DEFAULT_WEIGHT_LOG_DAYS = 90;
+
+const weightLogQuerySchema = z.object({
+  days: z.coerce.number().int().min(7).max(365).default(DEFAULT_WEIGHT_LOG_DAYS),
+});
+
+const hydrationQuerySchema = z.object({
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional(),
+});
+
 const reportCalendarQuerySchema = z.object({
   from: z.string(),
   to: z.string(),
@@ -484,6 +645,7 @@ app.put('/api/notifications/settings', requireAuth, async (c) => {
     quietHoursStart: body.quiet_hours_start,
     quietHoursEnd: body.quiet_hours_end,
     dailyCap: body.daily_cap,
+    hydrationReminderEnabled: body.hydration_reminder_enabled,
     timezone: body.timezone,
   });
   const payload = { ok: true, settings: serializeNotificationSettings(settings) };
@@ -544,6 +706,25 @@ app.put('/api/profile', requireAuth, async (c) => {
   return c.json(payload);
 });
 
+app.get('/api/profile/adaptive-plan', requireAuth, async (c) => {
+  const user = c.get('user') as JwtUser;
+  const timezone = await resolveRequestTimezoneForUser(c.req.raw, user.id, { fallback: DASHBOARD_TIMEZONE });
+  const proposal = await getAdaptivePlanProposal(user.id, timezone);
+  const payload = { ok: true, proposal } as const;
+  AdaptivePlanResponseSchema.parse(payload);
+  return c.json(payload);
+});
+
+app.post('/api/profile/adaptive-plan', requireAuth, async (c) => {
+  const user = c.get('user') as JwtUser;
+  const body = AdaptivePlanDecisionRequestSchema.parse(await c.req.json());
+  const timezone = await resolveRequestTimezoneForUser(c.req.raw, user.id, { fallback: DASHBOARD_TIMEZONE });
+  const proposal = await decideAdaptivePlan(user.id, body, timezone);
+  const payload = { ok: true, proposal } as const;
+  AdaptivePlanResponseSchema.parse(payload);
+  return c.json(payload);
+});
+
 app.delete('/api/user/account', requireAuth, async (c) => {
   const user = c.get('user') as JwtUser;
   await deleteUserAccount(user.id);
@@ -567,7 +748,7 @@ app.get('/api/logs', requireAuth, async (c) => {
 
   const { data: rows, error } = await supabaseAdmin
     .from('MealLog')
-    .select('id, foodItem, calories, proteinG, fatG, carbsG, mealPeriod, landingType, createdAt, imageUrl, aiRaw, FavoriteMeal!FavoriteMeal_sourceMealLogId_fkey ( id )')
+    .select('id, foodItem, calories, proteinG, fatG, carbsG, mealPeriod, landingType, createdAt, imageUrl, aiRaw, groupId, FavoriteMeal!FavoriteMeal_sourceMealLogId_fkey ( id )')
     .eq('userId', user.id)
     .is('deletedAt', null)
     .gte('createdAt', range.from.toISOString())
@@ -600,6 +781,7 @@ app.get('/api/logs', requireAuth, async (c) => {
       requested_locale: localization.requestedLocale,
       fallback_applied: localization.fallbackApplied,
       favorite_meal_id: favoriteId,
+      group_id: row.groupId ?? null,
     };
   });
 
@@ -711,14 +893,25 @@ app.get('/api/logs/export', requireAuth, async (c) => {
 const handleCreateLog = async (c: Context) => {
   const user = c.get('user') as JwtUser;
   const form = await parseMultipart(c);
-  if (!form.message && !form.file) {
-    throw new HttpError('メッセージまたは画像のいずれかを送信してください。', { status: HTTP_STATUS.BAD_REQUEST, expose: true });
+  if (!form.message && form.files.length === 0 && !form.audio) {
+    throw new HttpError('メッセージ、画像、音声のいずれかを送信してください。', { status: HTTP_STATUS.BAD_REQUEST, expose: true });
+  }
+  if (form.files.length > MEAL_LOG_MAX_IMAGES) {
+    throw new HttpError(`画像は${MEAL_LOG_MAX_IMAGES}枚まで送信できます。`, { status: HTTP_STATUS.BAD_REQUEST, expose: true });
+  }
+  if (form.audio && !isSupportedMealAudioType(form.audio.type)) {
+    throw new HttpError('対応していない音声形式です。', { status: HTTP_STATUS.UNSUPPORTED_MEDIA_TYPE, expose: true });
+  }
+  if (form.audio && form.audio.size > MEAL_LOG_MAX_AUDIO_BYTES) {
+    throw new HttpError('音声ファイルが大きすぎます。', { status: HTTP_STATUS.PAYLOAD_TOO_LARGE, expose: true });
   }
 
   const translationMode = (c.req.header('X-Translation-Mode') ?? '').trim().toLowerCase();
   const deferTranslation = translationMode === 'defer';
   const idempotencyKey = c.req.header('Idempotency-Key') ?? undefined;
   const appVersion = c.req.header('X-App-Version') ?? undefined;
+  // Only clients that can show follow-up questions opt in; older builds always get a saved log.
+  const clarify = (c.req.header('X-Clarify-Mode') ?? '').trim().toLowerCase() === 'ask';
   const locale = resolveRequestLocale(c.req.raw, { queryField: 'locale' });
   const timezone = await resolveRequestTimezoneForUser(c.req.raw, user.id, {
     queryField: 'timezone',
@@ -728,12 +921,14 @@ const handleCreateLog = async (c: Context) => {
   const response = await processMealLog({
     userId: user.id,
     message: form.message,
-    file: form.file,
+    files: form.files,
+    audio: form.audio,
     idempotencyKey,
     locale,
     timezone,
     deferTranslation,
     appVersion,
+    clarify,
   });
 
   return c.json(response);
@@ -754,13 +949,19 @@ app.get('/api/ingest/:requestKey', requireAuth, async (c) => {
   console.log('[meal-log] ingest status', { userId: user.id, requestKey: requestKey.slice(0, 24) });
 
   const requestedLocale = normalizeLocale(resolveRequestLocale(c.req.raw, { queryField: 'locale' }));
+  return c.json(await resolveIngestStatus({ userId: user.id, requestKey, requestedLocale }));
+});
+
+/** Status payload shared by `GET /api/ingest/:requestKey` and the `/api/stream` channel. */
+async function resolveIngestStatus(params: { userId: number; requestKey: string; requestedLocale: Locale }) {
+  const { userId, requestKey, requestedLocale } = params;
 
   const { data: ingest, error: ingestError } = await supabaseAdmin
     .from('IngestRequest')
     .select(
-      'id, logId, status, errorCode, errorCategory, userMessage, nextCheckAt, deadlineAt, createdAt, startedAt, finishedAt',
+      'id, logId, status, errorCode, errorCategory, userMessage, nextCheckAt, deadlineAt, createdAt, startedAt, finishedAt, clarification',
     )
-    .eq('userId', user.id)
+    .eq('userId', userId)
     .eq('requestKey', requestKey)
     .maybeSingle();
 
@@ -778,6 +979,19 @@ app.get('/api/ingest/:requestKey', requireAuth, async (c) => {
   const startedAtIso = ingest.startedAt ? new Date(ingest.startedAt).toISOString() : createdAtIso;
   const deadlineAtIso = ingest.deadlineAt ? new Date(ingest.deadlineAt).toISOString() : null;
 
+  // Waiting on the user, not on the model: no deadline and no legacy log lookup.
+  if (ingest.status === 'needs_clarification') {
+    const pending = PendingMealClarificationSchema.safeParse(ingest.clarification);
+    if (pending.success) {
+      return {
+        ok: true,
+        status: 'needs_clarification',
+        requestKey,
+        clarification: buildMealLogClarificationResponse(requestKey, pending.data),
+      };
+    }
+  }
+
   // Legacy recovery: older builds nulled logId when `zeroFloored` fired.
   // In that case, try to resolve the single log created right after this ingest.
   let resolvedLogId: string | null = ingest.logId ?? null;
@@ -789,14 +1003,14 @@ app.get('/api/ingest/:requestKey', requireAuth, async (c) => {
       const { data: candidates, error: candidateError } = await supabaseAdmin
         .from('MealLog')
         .select('id, createdAt')
-        .eq('userId', user.id)
+        .eq('userId', userId)
         .gte('createdAt', windowStartIso)
         .lte('createdAt', windowEndIso)
         .order('createdAt', { ascending: true })
         .limit(2);
 
       if (candidateError) {
-        console.error('ingest status: candidate lookup failed', { requestKey, userId: user.id, candidateError });
+        console.error('ingest status: candidate lookup failed', { requestKey, userId, candidateError });
       } else if ((candidates ?? []).length === 1 && candidates?.[0]?.id) {
         resolvedLogId = String(candidates[0].id);
         const { error: backfillError } = await supabaseAdmin
@@ -804,12 +1018,12 @@ app.get('/api/ingest/:requestKey', requireAuth, async (c) => {
           .update({ logId: resolvedLogId })
           .eq('id', ingest.id);
         if (backfillError) {
-          console.error('ingest status: backfill failed', { requestKey, userId: user.id, backfillError });
+          console.error('ingest status: backfill failed', { requestKey, userId, backfillError });
         }
       } else if ((candidates ?? []).length > 1) {
         console.warn('ingest status: ambiguous candidates', {
           requestKey,
-          userId: user.id,
+          userId,
           count: candidates?.length ?? 0,
         });
       }
@@ -823,21 +1037,21 @@ app.get('/api/ingest/:requestKey', requireAuth, async (c) => {
         .update({ status: 'done', finishedAt: new Date().toISOString() })
         .eq('id', ingest.id);
       if (statusUpdateError) {
-        console.error('ingest status: update done failed', { requestKey, userId: user.id, statusUpdateError });
+        console.error('ingest status: update done failed', { requestKey, userId, statusUpdateError });
       }
     }
     const result = await buildIdempotentMealLogResult({
-      userId: user.id,
+      userId,
       logId: resolvedLogId,
       requestKey,
       requestedLocale,
     });
 
-    return c.json({ ok: true, status: 'done', requestKey, result });
+    return { ok: true, status: 'done', requestKey, result };
   }
 
   if (ingest.status === 'failed') {
-    return c.json({
+    return {
       ok: true,
       status: 'failed',
       requestKey,
@@ -845,7 +1059,7 @@ app.get('/api/ingest/:requestKey', requireAuth, async (c) => {
       errorCode: ingest.errorCode ?? null,
       errorCategory: ingest.errorCategory ?? null,
       message: ingest.userMessage ?? null,
-    });
+    };
   }
 
   const deadlineMs = deadlineAtIso ? Date.parse(deadlineAtIso) : Number.NaN;
@@ -863,9 +1077,9 @@ app.get('/api/ingest/:requestKey', requireAuth, async (c) => {
       })
       .eq('id', ingest.id);
     if (timeoutUpdateError) {
-      console.error('ingest status: timeout update failed', { requestKey, userId: user.id, timeoutUpdateError });
+      console.error('ingest status: timeout update failed', { requestKey, userId, timeoutUpdateError });
     }
-    return c.json({
+    return {
       ok: true,
       status: 'failed',
       requestKey,
@@ -873,7 +1087,7 @@ app.get('/api/ingest/:requestKey', requireAuth, async (c) => {
       errorCode: 'INGEST_TIMEOUT',
       errorCategory: 'waitable',
       message: timeoutMessage,
-    });
+    };
   }
 
   const ageMs = startedAtIso ? nowMs - Date.parse(startedAtIso) : 0;
@@ -890,31 +1104,31 @@ app.get('/api/ingest/:requestKey', requireAuth, async (c) => {
         .update({ status: 'deferred', nextCheckAt: nextCheckAtIso })
         .eq('id', ingest.id);
       if (deferUpdateError) {
-        console.error('ingest status: defer update failed', { requestKey, userId: user.id, deferUpdateError });
+        console.error('ingest status: defer update failed', { requestKey, userId, deferUpdateError });
       }
     }
-    return c.json({
+    return {
       ok: true,
       status: 'deferred',
       requestKey,
       createdAt: createdAtIso,
       nextCheckAt: nextCheckAtIso,
       deadlineAt: deadlineAtIso,
-    });
+    };
   }
 
   console.log('[meal-log] ingest status processing', {
-    userId: user.id,
+    userId,
     requestKey: requestKey.slice(0, 24),
     createdAt: createdAtIso,
   });
-  return c.json({
+  return {
     ok: true,
     status: 'processing',
     requestKey,
     createdAt: createdAtIso,
-  });
-});
+  };
+}
 
 app.post('/api/ingest/:requestKey/cancel', requireAuth, async (c) => {
   const user = c.get('user') as JwtUser;
@@ -954,6 +1168,7 @@ app.post('/api/ingest/:requestKey/cancel', requireAuth, async (c) => {
       debugMessage: 'Client canceled',
       finishedAt: nowIso,
       nextCheckAt: null,
+      clarification: null,
     })
     .eq('id', ingest.id);
 
@@ -965,6 +1180,101 @@ app.post('/api/ingest/:requestKey/cancel', requireAuth, async (c) => {
   return c.json({ ok: true, status: 'canceled', requestKey });
 });
 
+// Answers the follow-up questions of a `POST /log` that came back as `needs_clarification`. With answers the
+// meal is analyzed again; without, the draft is saved. The AI credit was counted when the questions were asked.
+app.post('/api/ingest/:requestKey/clarify', requireAuth, async (c) => {
+  const user = c.get('user') as JwtUser;
+  const requestKey = c.req.param('requestKey');
+  if (!requestKey) {
+    throw new HttpError('requestKey is required', { status: HTTP_STATUS.BAD_REQUEST, expose: true });
+  }
+  const body = MealLogClarifyRequestSchema.parse(await c.req.json().catch(() => ({})));
+  const requestedLocale = normalizeLocale(resolveRequestLocale(c.req.raw, { queryField: 'locale' }));
+
+  const { data: ingest, error: ingestError } = await supabaseAdmin
+    .from('IngestRequest')
+    .select('id, logId, status, clarification')
+    .eq('userId', user.id)
+    .eq('requestKey', requestKey)
+    .maybeSingle();
+
+  if (ingestError) {
+    console.error('ingest clarify: fetch failed', ingestError);
+    throw new HttpError('解析状況を取得できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  if (!ingest) {
+    throw new HttpError('解析リクエストが見つかりませんでした', { status: HTTP_STATUS.NOT_FOUND, expose: true });
+  }
+  if (ingest.logId) {
+    return c.json(
+      await buildIdempotentMealLogResult({ userId: user.id, logId: ingest.logId, requestKey, requestedLocale }),
+    );
+  }
+
+  const pending = PendingMealClarificationSchema.safeParse(ingest.clarification);
+  // Claiming the request first keeps a double-tapped answer from creating two logs.
+  const startedAt = new Date();
+  const { data: claimed, error: claimError } = await supabaseAdmin
+    .from('IngestRequest')
+    .update({
+      status: 'processing',
+      startedAt: startedAt.toISOString(),
+      deadlineAt: new Date(startedAt.getTime() + INGEST_DEADLINE_MS).toISOString(),
+    })
+    .eq('id', ingest.id)
+    .eq('status', 'needs_clarification')
+    .select('id');
+  if (claimError) {
+    console.error('ingest clarify: claim failed', claimError);
+    throw new HttpError('食事記録の処理に失敗しました', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  if (!pending.success || !claimed?.length) {
+    throw new HttpError('確認待ちの解析が見つかりませんでした', { status: HTTP_STATUS.CONFLICT, expose: true });
+  }
+
+  const { draft, questions, images, audio, message, timezone } = pending.data;
+  const answers = matchClarifyingAnswers(questions, body.answers);
+
+  try {
+    let response = draft;
+    if (answers.length > 0) {
+      const analysis = await analyzeMeal({
+        message,
+        images,
+        locale: pending.data.locale,
+        portionHints: await loadPortionCalibrationHints(user.id),
+        clarification: { draft, answers },
+        cacheKey: null,
+      });
+      response = enrichAnalysisResponse(analysis);
+    }
+
+    const saved = await saveAnalyzedMealLog({
+      userId: user.id,
+      ingestId: ingest.id,
+      requestKey,
+      message,
+      requestedLocale,
+      timezone,
+      response,
+      images,
+      audio,
+    });
+    const usageStatus = await evaluateAiUsage(user.id);
+    return c.json({ ...saved, usage: summarizeUsageStatus(usageStatus) });
+  } catch (error) {
+    const { error: revertError } = await supabaseAdmin
+      .from('IngestRequest')
+      .update({ status: 'needs_clarification' })
+      .eq('id', ingest.id);
+    if (revertError) {
+      console.error('ingest clarify: revert failed', revertError);
+    }
+    const failure = classifyIngestError(error);
+    throw new HttpError(failure.userMessage, { status: failure.status, code: failure.errorCode, expose: true });
+  }
+});
+
 app.post('/api/log/choose-slot', requireAuth, async (c) => {
   const user = c.get('user') as JwtUser;
   const body = SlotSelectionRequestSchema.parse(await c.req.json());
@@ -974,13 +1284,79 @@ app.post('/api/log/choose-slot', requireAuth, async (c) => {
 
 app.get('/api/foods/search', requireAuth, async (c) => {
   const url = new URL(c.req.url);
-  const q = (url.searchParams.get('q') ?? '').trim().toLowerCase();
-  const limit = Math.min(Number(url.searchParams.get('limit') ?? 6), 20);
-  if (!q) {
-    return c.json({ q, candidates: FOOD_CATALOGUE.slice(0, limit) });
+  const q = (url.searchParams.get('q') ?? '').trim();
+  const limit = Math.min(Math.max(Number(url.searchParams.get('limit') ?? 6) || 6, 1), 20);
+  const locale = resolveRequestLocale(c.req.raw);
+  const candidates = await searchFoodCatalogue({ query: q, locale, limit });
+  return c.json(FoodSearchResponseSchema.parse({ q, candidates }));
+});
+
+app.post('/api/foods/:id/log', requireAuth, async (c) => {
+  const user = c.get('user') as JwtUser;
+  const id = Number(c.req.param('id'));
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new HttpError('invalid id', { status: HTTP_STATUS.BAD_REQUEST, expose: true });
+  }
+  const body = await c.req.json().catch(() => ({}));
+  const parsed = ManualMealLogRequestSchema.safeParse(body ?? {});
+  if (!parsed.success) {
+    throw new HttpError(parsed.error.issues[0]?.message ?? 'invalid body', {
+      status: HTTP_STATUS.BAD_REQUEST,
+      expose: true,
+    });
+  }
+  const locale = resolveRequestLocale(c.req.raw);
+  const timezone = await resolveRequestTimezoneForUser(c.req.raw, user.id);
+  const result = await logCatalogueFood({
+    userId: user.id,
+    foodId: id,
+    request: parsed.data,
+    locale,
+    timezone,
+    idempotencyKey: c.req.header('Idempotency-Key') ?? undefined,
+  });
+  return c.json(result, HTTP_STATUS.CREATED);
+});
+
+app.get('/api/foods/barcode/:code', requireAuth, async (c) => {
+  const user = c.get('user') as JwtUser;
+  const result = await lookupFoodProduct(user.id, c.req.param('code'));
+  return c.json(result);
+});
+
+app.post('/api/foods/barcode/:code/label', requireAuth, async (c) => {
+  const user = c.get('user') as JwtUser;
+  const form = await parseMultipart(c);
+  const [file] = form.files;
+  if (!file) {
+    throw new HttpError('栄養成分表示の写真を送信してください。', { status: HTTP_STATUS.BAD_REQUEST, expose: true });
+  }
+  const locale = resolveRequestLocale(c.req.raw, { queryField: 'locale' });
+  const result = await analyzeFoodLabel({ userId: user.id, code: c.req.param('code'), file, locale });
+  return c.json(result);
+});
+
+app.post('/api/foods/barcode/:code/log', requireAuth, async (c) => {
+  const user = c.get('user') as JwtUser;
+  const body = await c.req.json().catch(() => ({}));
+  const parsed = BarcodeMealLogRequestSchema.safeParse(body ?? {});
+  if (!parsed.success) {
+    throw new HttpError(parsed.error.issues[0]?.message ?? 'invalid body', {
+      status: HTTP_STATUS.BAD_REQUEST,
+      expose: true,
+    });
   }
-  const candidates = FOOD_CATALOGUE.filter((item) => item.name.toLowerCase().includes(q)).slice(0, limit);
-  return c.json({ q, candidates });
+  const locale = resolveRequestLocale(c.req.raw);
+  const timezone = await resolveRequestTimezoneForUser(c.req.raw, user.id);
+  const result = await logFoodProduct({
+    userId: user.id,
+    code: c.req.param('code'),
+    request: parsed.data,
+    locale,
+    timezone,
+    idempotencyKey: c.req.header('Idempotency-Key') ?? undefined,
+  });
+  return c.json(result, HTTP_STATUS.CREATED);
 });
 
 app.delete('/api/log/:id', requireAuth, async (c) => {
@@ -1069,6 +1445,35 @@ app.post('/api/log/:id/restore', requireAuth, async (c) => {
   return c.json({ ok: true });
 });
 
+app.post('/api/log/:id/split', requireAuth, async (c) => {
+  const user = c.get('user') as JwtUser;
+  const locale = resolveRequestLocale(c.req.raw);
+  const result = await splitMealLog({ userId: user.id, logId: c.req.param('id'), locale });
+  return c.json(result);
+});
+
+// Accepts or dismisses the newer estimate a re-analysis job left for a log the user had edited.
+app.post('/api/log/:id/reanalysis', requireAuth, async (c) => {
+  const user = c.get('user') as JwtUser;
+  const logId = c.req.param('id');
+  const body = MealLogReanalysisResolveRequestSchema.parse(await c.req.json());
+  const locale = resolveRequestLocale(c.req.raw);
+  await resolveMealLogReanalysis({ userId: user.id, logId, action: body.action });
+  const item = await fetchMealLogDetail({ userId: user.id, logId, locale });
+  return c.json({ ok: true, item });
+});
+
+// Switches a log matched to a chain menu item between the published values and the AI estimate.
+app.post('/api/log/:id/estimate-source', requireAuth, async (c) => {
+  const user = c.get('user') as JwtUser;
+  const logId = c.req.param('id');
+  const body = MealLogEstimateSourceRequestSchema.parse(await c.req.json());
+  const locale = resolveRequestLocale(c.req.raw);
+  const result = await switchMealLogEstimateSource({ userId: user.id, logId, source: body.source });
+  const item = await fetchMealLogDetail({ userId: user.id, logId, locale });
+  return c.json({ ok: true, item, usage: result.usage });
+});
+
 app.patch('/api/log/:id', requireAuth, async (c) => {
   const user = c.get('user') as JwtUser;
   const logId = c.req.param('id');
@@ -1077,7 +1482,7 @@ app.patch('/api/log/:id', requireAuth, async (c) => {
 
   const { data: log, error: fetchError } = await supabaseAdmin
     .from('MealLog')
-    .select('id, userId, foodItem, calories, proteinG, fatG, carbsG, mealPeriod, aiRaw, version')
+    .select('id, userId, foodItem, calories, proteinG, fatG, carbsG, micros, mealPeriod, aiRaw, version')
     .eq('id', logId)
     .eq('userId', user.id)
     .is('deletedAt', null)
@@ -1092,10 +1497,39 @@ app.patch('/api/log/:id', requireAuth, async (c) => {
     throw new HttpError('食事記録が見つかりませんでした', { status: HTTP_STATUS.NOT_FOUND, expose: true });
   }
 
-  const updates = mapUpdatePayload(body);
+  let updates = mapUpdatePayload(body);
   const changes: Record<string, { before: unknown; after: unknown }> = {};
   const set: Record<string, unknown> = { version: (log.version ?? 0) + 1, updatedAt: new Date().toISOString() };
 
+  let itemPlan: MealLogItemChangePlan | null = null;
+  let micros: Micronutrients | null = null;
+  if (body.items) {
+    const currentItems = await ensureMealLogItems(log);
+    itemPlan = planMealLogItemChanges(currentItems, body.items);
+    if (itemPlan.unknownIds.length > 0) {
+      throw new HttpError('この食事記録に含まれない品目が指定されました', {
+        status: HTTP_STATUS.BAD_REQUEST,
+        expose: true,
+      });
+    }
+    if (itemPlan.items.length === 0) {
+      throw new HttpError('品目を1つ以上残してください', { status: HTTP_STATUS.BAD_REQUEST, expose: true });
+    }
+    Object.assign(changes, itemPlan.changes);
+    // Micronutrients are not itemised; like a split dish's, they follow the share of the calories kept.
+    if (log.calories > 0) {
+      micros = scaleMicronutrients(normalizeMicronutrients(log.micros), itemPlan.totals.kcal / log.calories);
+      set.micros = Object.keys(micros).length > 0 ? micros : null;
+    }
+    updates = {
+      ...updates,
+      calories: itemPlan.totals.kcal,
+      proteinG: itemPlan.totals.protein_g,
+      fatG: itemPlan.totals.fat_g,
+      carbsG: itemPlan.totals.carbs_g,
+    };
+  }
+
   if (typeof updates.foodItem === 'string' && updates.foodItem !== log.foodItem) {
     changes.foodItem = { before: log.foodItem, after: updates.foodItem };
     set.foodItem = updates.foodItem;
@@ -1124,7 +1558,12 @@ app.patch('/api/log/:id', requireAuth, async (c) => {
   }
 
   if (Object.keys(changes).length > 0) {
-    const updatedAiRaw = buildUpdatedAiRaw(log.aiRaw, updates);
+    const updatedAiRaw = buildUpdatedAiRaw(
+      log.aiRaw,
+      updates,
+      itemPlan ? toNutritionItems(itemPlan.items) : undefined,
+      micros,
+    );
     set.aiRaw = updatedAiRaw;
   }
 
@@ -1145,6 +1584,10 @@ app.patch('/api/log/:id', requireAuth, async (c) => {
     throw new HttpError('食事記録の更新に失敗しました', { status: HTTP_STATUS.INTERNAL_ERROR });
   }
 
+  if (itemPlan) {
+    await applyMealLogItemPlan(logId, itemPlan);
+  }
+
   if (typeof updates.mealPeriod !== 'undefined' && updates.mealPeriod !== previousMealPeriod) {
     const { error: historyError } = await supabaseAdmin.from('MealLogPeriodHistory').insert({
       mealLogId: logId,
@@ -1237,58 +1680,330 @@ app.post('/api/favorites/:id/log', requireAuth, async (c) => {
   return c.json(result, HTTP_STATUS.CREATED);
 });
 
-// Dashboard / metrics
-app.get('/api/dashboard/summary', requireAuth, async (c) => {
+// Recipes
+app.get('/api/recipes', requireAuth, async (c) => {
   const user = c.get('user') as JwtUser;
-  const url = new URL(c.req.url);
-  const params = Object.fromEntries(url.searchParams.entries());
-  const parsed = dashboardQuerySchema.safeParse(params);
+  const recipes = await listRecipes(user.id);
+  const payload = { ok: true, items: recipes } as const;
+  RecipeListResponseSchema.parse(payload);
+  return c.json(payload);
+});
+
+app.post('/api/recipes', requireAuth, async (c) => {
+  const user = c.get('user') as JwtUser;
+  const body = await c.req.json();
+  const locale = resolveRequestLocale(c.req.raw);
+  const { recipe, usage } = await createRecipe(user.id, body, locale);
+  const payload = { ok: true, item: recipe, usage } as const;
+  RecipeDetailResponseSchema.parse(payload);
+  return c.json(payload, HTTP_STATUS.CREATED);
+});
+
+app.get('/api/recipes/:id', requireAuth, async (c) => {
+  const user = c.get('user') as JwtUser;
+  const id = Number(c.req.param('id'));
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new HttpError('invalid id', { status: HTTP_STATUS.BAD_REQUEST, expose: true });
+  }
+  const recipe = await getRecipe(user.id, id);
+  const payload = { ok: true, item: recipe } as const;
+  RecipeDetailResponseSchema.parse(payload);
+  return c.json(payload);
+});
+
+app.patch('/api/recipes/:id', requireAuth, async (c) => {
+  const user = c.get('user') as JwtUser;
+  const id = Number(c.req.param('id'));
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new HttpError('invalid id', { status: HTTP_STATUS.BAD_REQUEST, expose: true });
+  }
+  const body = await c.req.json();
+  const locale = resolveRequestLocale(c.req.raw);
+  const { recipe, usage } = await updateRecipe(user.id, id, body, locale);
+  const payload = { ok: true, item: recipe, usage } as const;
+  RecipeDetailResponseSchema.parse(payload);
+  return c.json(payload);
+});
+
+app.delete('/api/recipes/:id', requireAuth, async (c) => {
+  const user = c.get('user') as JwtUser;
+  const id = Number(c.req.param('id'));
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new HttpError('invalid id', { status: HTTP_STATUS.BAD_REQUEST, expose: true });
+  }
+  await deleteRecipe(user.id, id);
+  return c.body(null, HTTP_STATUS.NO_CONTENT);
+});
+
+app.post('/api/recipes/:id/log', requireAuth, async (c) => {
+  const user = c.get('user') as JwtUser;
+  const id = Number(c.req.param('id'));
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new HttpError('invalid id', { status: HTTP_STATUS.BAD_REQUEST, expose: true });
+  }
+  const body = await c.req.json().catch(() => ({}));
+  const parsed = RecipeLogRequestSchema.safeParse(body ?? {});
   if (!parsed.success) {
-    throw new HttpError('invalid query', { status: HTTP_STATUS.BAD_REQUEST, expose: true, data: parsed.error.flatten() });
+    throw new HttpError(parsed.error.issues[0]?.message ?? 'invalid body', {
+      status: HTTP_STATUS.BAD_REQUEST,
+      expose: true,
+    });
   }
-  const timezone = await resolveRequestTimezoneForUser(c.req.raw, user.id, {
-    queryField: 'timezone',
-    fallback: DASHBOARD_TIMEZONE,
-  });
-  const summary = await getDashboardSummary({
+  const locale = resolveRequestLocale(c.req.raw);
+  const timezone = await resolveRequestTimezoneForUser(c.req.raw, user.id);
+  const result = await logRecipe({
     userId: user.id,
-    period: parsed.data.period,
-    from: parsed.data.from,
-    to: parsed.data.to,
+    recipeId: id,
+    request: parsed.data,
+    locale,
     timezone,
+    idempotencyKey: c.req.header('Idempotency-Key') ?? undefined,
   });
-  const payload = { ok: true, summary } as const;
-  DashboardSummarySchema.parse(summary);
-  return respondWithCache(c, payload);
+  return c.json(result, HTTP_STATUS.CREATED);
 });
 
-app.get('/api/reports/calendar', requireAuth, async (c) => {
+// Planned meals
+app.get('/api/planned-meals', requireAuth, async (c) => {
   const user = c.get('user') as JwtUser;
   const url = new URL(c.req.url);
-  const params = Object.fromEntries(url.searchParams.entries());
-  const parsed = reportCalendarQuerySchema.safeParse(params);
-  if (!parsed.success) {
-    throw new HttpError('invalid query', { status: HTTP_STATUS.BAD_REQUEST, expose: true, data: parsed.error.flatten() });
-  }
-
-  const timezone = await resolveRequestTimezoneForUser(c.req.raw, user.id, {
-    queryField: 'timezone',
-    fallback: DASHBOARD_TIMEZONE,
+  const timezone = await resolveRequestTimezoneForUser(c.req.raw, user.id);
+  const result = await listPlannedMeals(user.id, {
+    from: url.searchParams.get('from') ?? undefined,
+    to: url.searchParams.get('to') ?? undefined,
+    timezone,
   });
-  const fromDate = resolveLogicalDayStartFromDate(parsed.data.from, timezone);
-  const toDateStart = resolveLogicalDayStartFromDate(parsed.data.to, timezone);
-  if (!fromDate.isValid || !toDateStart.isValid) {
-    throw new HttpError('日付形式が正しくありません', { status: HTTP_STATUS.BAD_REQUEST, expose: true });
-  }
-  const toDate = toDateStart.plus({ days: 1 });
-  if (toDate <= fromDate) {
-    throw new HttpError('終了日は開始日より後の日付にしてください', { status: HTTP_STATUS.BAD_REQUEST, expose: true });
-  }
+  const payload = { ok: true, ...result } as const;
+  PlannedMealListResponseSchema.parse(payload);
+  return c.json(payload);
+});
 
-  const { data: logs, error } = await supabaseAdmin
-    .from('MealLog')
-    .select('createdAt')
-    .eq('userId', user.id)
+app.post('/api/planned-meals', requireAuth, async (c) => {
+  const user = c.get('user') as JwtUser;
+  const body = await c.req.json();
+  const item = await createPlannedMeal(user.id, body);
+  const payload = { ok: true, item } as const;
+  PlannedMealResponseSchema.parse(payload);
+  return c.json(payload, HTTP_STATUS.CREATED);
+});
+
+app.patch('/api/planned-meals/:id', requireAuth, async (c) => {
+  const user = c.get('user') as JwtUser;
+  const id = Number(c.req.param('id'));
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new HttpError('invalid id', { status: HTTP_STATUS.BAD_REQUEST, expose: true });
+  }
+  const body = await c.req.json();
+  const item = await updatePlannedMeal(user.id, id, body);
+  const payload = { ok: true, item } as const;
+  PlannedMealResponseSchema.parse(payload);
+  return c.json(payload);
+});
+
+app.delete('/api/planned-meals/:id', requireAuth, async (c) => {
+  const user = c.get('user') as JwtUser;
+  const id = Number(c.req.param('id'));
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new HttpError('invalid id', { status: HTTP_STATUS.BAD_REQUEST, expose: true });
+  }
+  await deletePlannedMeal(user.id, id);
+  return c.body(null, HTTP_STATUS.NO_CONTENT);
+});
+
+app.post('/api/planned-meals/:id/eat', requireAuth, async (c) => {
+  const user = c.get('user') as JwtUser;
+  const id = Number(c.req.param('id'));
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new HttpError('invalid id', { status: HTTP_STATUS.BAD_REQUEST, expose: true });
+  }
+  const locale = resolveRequestLocale(c.req.raw);
+  const timezone = await resolveRequestTimezoneForUser(c.req.raw, user.id);
+  const result = await markPlannedMealEaten({ userId: user.id, plannedMealId: id, locale, timezone });
+  const payload = { ok: true, ...result } as const;
+  PlannedMealResponseSchema.parse(payload);
+  return c.json(payload, HTTP_STATUS.CREATED);
+});
+
+// Weight log
+app.get('/api/weights', requireAuth, async (c) => {
+  const user = c.get('user') as JwtUser;
+  const url = new URL(c.req.url);
+  const parsed = weightLogQuerySchema.safeParse(Object.fromEntries(url.searchParams.entries()));
+  if (!parsed.success) {
+    throw new HttpError('invalid query', { status: HTTP_STATUS.BAD_REQUEST, expose: true, data: parsed.error.flatten() });
+  }
+  const timezone = await resolveRequestTimezoneForUser(c.req.raw, user.id, {
+    queryField: 'timezone',
+    fallback: DASHBOARD_TIMEZONE,
+  });
+  const log = await getWeightLog(user.id, parsed.data.days, timezone);
+  const payload = { ok: true, ...log } as const;
+  WeightLogResponseSchema.parse(payload);
+  return c.json(payload);
+});
+
+app.post('/api/weights', requireAuth, async (c) => {
+  const user = c.get('user') as JwtUser;
+  const body = await c.req.json();
+  const entry = await createWeightEntry(user.id, body);
+  const payload = { ok: true, item: entry } as const;
+  WeightEntryResponseSchema.parse(payload);
+  return c.json(payload, HTTP_STATUS.CREATED);
+});
+
+app.patch('/api/weights/:id', requireAuth, async (c) => {
+  const user = c.get('user') as JwtUser;
+  const id = Number(c.req.param('id'));
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new HttpError('invalid id', { status: HTTP_STATUS.BAD_REQUEST, expose: true });
+  }
+  const body = await c.req.json();
+  const entry = await updateWeightEntry(user.id, id, body);
+  const payload = { ok: true, item: entry } as const;
+  WeightEntryResponseSchema.parse(payload);
+  return c.json(payload);
+});
+
+app.delete('/api/weights/:id', requireAuth, async (c) => {
+  const user = c.get('user') as JwtUser;
+  const id = Number(c.req.param('id'));
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new HttpError('invalid id', { status: HTTP_STATUS.BAD_REQUEST, expose: true });
+  }
+  await deleteWeightEntry(user.id, id);
+  return c.body(null, HTTP_STATUS.NO_CONTENT);
+});
+
+// Hydration
+app.get('/api/hydration', requireAuth, async (c) => {
+  const user = c.get('user') as JwtUser;
+  const url = new URL(c.req.url);
+  const parsed = hydrationQuerySchema.safeParse(Object.fromEntries(url.searchParams.entries()));
+  if (!parsed.success) {
+    throw new HttpError('invalid query', { status: HTTP_STATUS.BAD_REQUEST, expose: true, data: parsed.error.flatten() });
+  }
+  const timezone = await resolveRequestTimezoneForUser(c.req.raw, user.id, { fallback: DASHBOARD_TIMEZONE });
+  const day = await getHydrationDay(user.id, timezone, parsed.data.date);
+  const payload = { ok: true, day } as const;
+  HydrationResponseSchema.parse(payload);
+  return c.json(payload);
+});
+
+app.post('/api/hydration', requireAuth, async (c) => {
+  const user = c.get('user') as JwtUser;
+  const body = await c.req.json();
+  const timezone = await resolveRequestTimezoneForUser(c.req.raw, user.id, { fallback: DASHBOARD_TIMEZONE });
+  const day = await addHydrationEntry(user.id, body, timezone);
+  const payload = { ok: true, day } as const;
+  HydrationResponseSchema.parse(payload);
+  return c.json(payload, HTTP_STATUS.CREATED);
+});
+
+app.delete('/api/hydration/:id', requireAuth, async (c) => {
+  const user = c.get('user') as JwtUser;
+  const id = Number(c.req.param('id'));
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new HttpError('invalid id', { status: HTTP_STATUS.BAD_REQUEST, expose: true });
+  }
+  const timezone = await resolveRequestTimezoneForUser(c.req.raw, user.id, { fallback: DASHBOARD_TIMEZONE });
+  const day = await deleteHydrationEntry(user.id, id, timezone);
+  const payload = { ok: true, day } as const;
+  HydrationResponseSchema.parse(payload);
+  return c.json(payload);
+});
+
+// Portion calibration
+app.get('/api/portion-calibrations', requireAuth, async (c) => {
+  const user = c.get('user') as JwtUser;
+  const list = await listPortionCalibrations(user.id);
+  const payload = { ok: true, ...list } as const;
+  PortionCalibrationListResponseSchema.parse(payload);
+  return c.json(payload);
+});
+
+app.post('/api/portion-calibrations', requireAuth, async (c) => {
+  const user = c.get('user') as JwtUser;
+  const body = await c.req.json();
+  const item = await createPortionCalibration(user.id, body);
+  const payload = { ok: true, item } as const;
+  PortionCalibrationResponseSchema.parse(payload);
+  return c.json(payload, HTTP_STATUS.CREATED);
+});
+
+app.patch('/api/portion-calibrations/:id', requireAuth, async (c) => {
+  const user = c.get('user') as JwtUser;
+  const id = Number(c.req.param('id'));
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new HttpError('invalid id', { status: HTTP_STATUS.BAD_REQUEST, expose: true });
+  }
+  const body = await c.req.json();
+  const item = await updatePortionCalibration(user.id, id, body);
+  const payload = { ok: true, item } as const;
+  PortionCalibrationResponseSchema.parse(payload);
+  return c.json(payload);
+});
+
+app.delete('/api/portion-calibrations/:id', requireAuth, async (c) => {
+  const user = c.get('user') as JwtUser;
+  const id = Number(c.req.param('id'));
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new HttpError('invalid id', { status: HTTP_STATUS.BAD_REQUEST, expose: true });
+  }
+  await deletePortionCalibration(user.id, id);
+  return c.body(null, HTTP_STATUS.NO_CONTENT);
+});
+
+// Dashboard / metrics
+app.get('/api/dashboard/summary', requireAuth, async (c) => {
+  const user = c.get('user') as JwtUser;
+  const url = new URL(c.req.url);
+  const params = Object.fromEntries(url.searchParams.entries());
+  const parsed = dashboardQuerySchema.safeParse(params);
+  if (!parsed.success) {
+    throw new HttpError('invalid query', { status: HTTP_STATUS.BAD_REQUEST, expose: true, data: parsed.error.flatten() });
+  }
+  const timezone = await resolveRequestTimezoneForUser(c.req.raw, user.id, {
+    queryField: 'timezone',
+    fallback: DASHBOARD_TIMEZONE,
+  });
+  const summary = await getDashboardSummary({
+    userId: user.id,
+    period: parsed.data.period,
+    from: parsed.data.from,
+    to: parsed.data.to,
+    timezone,
+  });
+  const payload = { ok: true, summary } as const;
+  DashboardSummarySchema.parse(summary);
+  return respondWithCache(c, payload);
+});
+
+app.get('/api/reports/calendar', requireAuth, async (c) => {
+  const user = c.get('user') as JwtUser;
+  const url = new URL(c.req.url);
+  const params = Object.fromEntries(url.searchParams.entries());
+  const parsed = reportCalendarQuerySchema.safeParse(params);
+  if (!parsed.success) {
+    throw new HttpError('invalid query', { status: HTTP_STATUS.BAD_REQUEST, expose: true, data: parsed.error.flatten() });
+  }
+
+  const timezone = await resolveRequestTimezoneForUser(c.req.raw, user.id, {
+    queryField: 'timezone',
+    fallback: DASHBOARD_TIMEZONE,
+  });
+  const fromDate = resolveLogicalDayStartFromDate(parsed.data.from, timezone);
+  const toDateStart = resolveLogicalDayStartFromDate(parsed.data.to, timezone);
+  if (!fromDate.isValid || !toDateStart.isValid) {
+    throw new HttpError('日付形式が正しくありません', { status: HTTP_STATUS.BAD_REQUEST, expose: true });
+  }
+  const toDate = toDateStart.plus({ days: 1 });
+  if (toDate <= fromDate) {
+    throw new HttpError('終了日は開始日より後の日付にしてください', { status: HTTP_STATUS.BAD_REQUEST, expose: true });
+  }
+
+  const { data: logs, error } = await supabaseAdmin
+    .from('MealLog')
+    .select('createdAt')
+    .eq('userId', user.id)
     .is('deletedAt', null)
     .gte('createdAt', fromDate.toISO() ?? fromDate.toString())
     .lt('createdAt', toDate.toISO() ?? toDate.toString());
@@ -1581,14 +2296,26 @@ app.post('/api/reports/worker/run', async (c) => {
 
 app.get('/api/reports/:id', requireAuth, async (c) => {
   const user = c.get('user') as JwtUser;
-  const id = c.req.param('id');
+  const request = await resolveReportRequestStatus(user.id, c.req.param('id'), runReportWorkerForRequest);
+  return c.json({ ok: true, request });
+});
+
+/**
+ * Loads a report request for its owner, starting queued work and reviving stale processing rows on the way.
+ * `runWorker` lets the stream channel start the worker without waiting for it.
+ */
+async function resolveReportRequestStatus(
+  userId: number,
+  id: string,
+  runWorker: (requestId: string) => Promise<unknown>,
+) {
   const selectClause =
     'id, period, rangeStart, rangeEnd, timezone, status, preferenceSnapshot, report, errorCode, errorMessage, usageSnapshot, createdAt, updatedAt';
   const { data, error } = await supabaseAdmin
     .from('AiReportRequest')
     .select(selectClause)
     .eq('id', id)
-    .eq('userId', user.id)
+    .eq('userId', userId)
     .maybeSingle();
 
   if (error) {
@@ -1601,12 +2328,12 @@ app.get('/api/reports/:id', requireAuth, async (c) => {
 
   let requestRow = data;
   if (requestRow.status === 'queued') {
-    await runReportWorkerForRequest(requestRow.id);
+    await runWorker(requestRow.id);
     const { data: refreshed, error: refreshError } = await supabaseAdmin
       .from('AiReportRequest')
       .select(selectClause)
       .eq('id', id)
-      .eq('userId', user.id)
+      .eq('userId', userId)
       .maybeSingle();
     if (refreshError) {
       console.error('report status: refresh after queued trigger failed', refreshError);
@@ -1632,19 +2359,19 @@ app.get('/api/reports/:id', requireAuth, async (c) => {
           nextAttemptAt: null,
         })
         .eq('id', id)
-        .eq('userId', user.id)
+        .eq('userId', userId)
         .eq('status', 'processing')
         .select('id')
         .maybeSingle();
       if (reviveError) {
         console.error('report status: stale revive failed', reviveError);
       } else if (revived?.id) {
-        await runReportWorkerForRequest(revived.id);
+        await runWorker(revived.id);
         const { data: refreshed, error: refreshError } = await supabaseAdmin
           .from('AiReportRequest')
           .select(selectClause)
           .eq('id', id)
-          .eq('userId', user.id)
+          .eq('userId', userId)
           .maybeSingle();
         if (refreshError) {
           console.error('report status: refresh after revive failed', refreshError);
@@ -1654,8 +2381,8 @@ app.get('/api/reports/:id', requireAuth, async (c) => {
       }
     }
   }
-  return c.json({ ok: true, request: mapReportRequestRow(requestRow, { userId: user.id }) });
-});
+  return mapReportRequestRow(requestRow, { userId });
+}
 
 app.post('/api/reports/:id/cancel', requireAuth, async (c) => {
   const user = c.get('user') as JwtUser;
@@ -1703,6 +2430,124 @@ app.post('/api/reports/:id/cancel', requireAuth, async (c) => {
   return c.json({ ok: true, status: 'canceled' });
 });
 
+// Pushes ingest and report status changes so clients can stop polling. Each `ingest` / `report` event carries the
+// same payload as `GET /api/ingest/:requestKey` / `GET /api/reports/:id`, sent only when it changes.
+app.get('/api/stream', requireAuth, (c) => {
+  const user = c.get('user') as JwtUser;
+  const url = new URL(c.req.url);
+  const ingestKeys = [...new Set(url.searchParams.getAll('ingest').filter(Boolean))];
+  const reportIds = [...new Set(url.searchParams.getAll('report').filter(Boolean))];
+  if (!ingestKeys.length && !reportIds.length) {
+    throw new HttpError('ingest または report を指定してください', { status: HTTP_STATUS.BAD_REQUEST, expose: true });
+  }
+  if (ingestKeys.length + reportIds.length > STATUS_STREAM_MAX_TARGETS) {
+    throw new HttpError(`一度に購読できるのは${STATUS_STREAM_MAX_TARGETS}件までです`, {
+      status: HTTP_STATUS.BAD_REQUEST,
+      expose: true,
+    });
+  }
+  const requestedLocale = normalizeLocale(resolveRequestLocale(c.req.raw, { queryField: 'locale' }));
+
+  console.log('[meal-log] status stream open', {
+    userId: user.id,
+    ingest: ingestKeys.length,
+    report: reportIds.length,
+  });
+
+  return streamSSE(c, async (stream) => {
+    let aborted = false;
+    stream.onAbort(() => {
+      aborted = true;
+    });
+
+    const pendingIngests = new Set(ingestKeys);
+    const pendingReports = new Set(reportIds);
+    const lastPayloads = new Map<string, string>();
+    const startedWorkers = new Set<string>();
+    const startedAt = Date.now();
+    let lastWriteAt = startedAt;
+
+    const send = async (event: string, key: string, payload: unknown) => {
+      const data = JSON.stringify(payload);
+      if (lastPayloads.get(key) === data) {
+        return;
+      }
+      lastPayloads.set(key, data);
+      await stream.writeSSE({ event, data });
+      lastWriteAt = Date.now();
+    };
+    const sendTargetError = async (target: 'ingest' | 'report', id: string, error: unknown) => {
+      const httpError = error instanceof HttpError ? error : null;
+      if (!httpError?.expose) {
+        console.error('status stream: target failed', { target, id, error });
+      }
+      await stream.writeSSE({
+        event: 'error',
+        data: JSON.stringify({
+          target,
+          id,
+          status: httpError?.status ?? HTTP_STATUS.INTERNAL_ERROR,
+          message: httpError?.expose ? httpError.message : 'Internal server error',
+        }),
+      });
+      lastWriteAt = Date.now();
+    };
+    // Report generation runs inside this connection; the next ticks observe its status changes.
+    const startReportWorker = (requestId: string) => {
+      if (!startedWorkers.has(requestId)) {
+        startedWorkers.add(requestId);
+        runReportWorkerForRequest(requestId).catch((error) => {
+          console.error('status stream: report worker failed', { requestId, error });
+        });
+      }
+      return Promise.resolve();
+    };
+
+    while (!aborted && (pendingIngests.size || pendingReports.size)) {
+      if (Date.now() - startedAt >= STATUS_STREAM_MAX_MS) {
+        break;
+      }
+      for (const requestKey of [...pendingIngests]) {
+        try {
+          const status = await resolveIngestStatus({ userId: user.id, requestKey, requestedLocale });
+          await send('ingest', `ingest:${requestKey}`, status);
+          if (isTerminalIngestStatus(status.status)) {
+            pendingIngests.delete(requestKey);
+          }
+        } catch (error) {
+          pendingIngests.delete(requestKey);
+          await sendTargetError('ingest', requestKey, error);
+        }
+      }
+      for (const reportId of [...pendingReports]) {
+        try {
+          const request = await resolveReportRequestStatus(user.id, reportId, startReportWorker);
+          await send('report', `report:${reportId}`, { ok: true, request });
+          if (isTerminalReportStatus(request.status)) {
+            pendingReports.delete(reportId);
+          }
+        } catch (error) {
+          pendingReports.delete(reportId);
+          await sendTargetError('report', reportId, error);
+        }
+      }
+      if (!pendingIngests.size && !pendingReports.size) {
+        break;
+      }
+      if (Date.now() - lastWriteAt >= STATUS_STREAM_HEARTBEAT_MS) {
+        await stream.write(': ping\n\n');
+        lastWriteAt = Date.now();
+      }
+      await stream.sleep(STATUS_STREAM_TICK_MS);
+    }
+
+    if (!aborted) {
+      const reason = pendingIngests.size || pendingReports.size ? 'timeout' : 'complete';
+      await stream.writeSSE({ event: 'end', data: JSON.stringify({ reason }) });
+    }
+  });
+});
+
 app.get('/api/dashboard/targets', requireAuth, async (c) => {
   const user = c.get('user') as JwtUser;
   const targets = await resolveUserTargets(user.id);
@@ -1788,7 +2633,7 @@ function cloneTranslations(translations: Record<Locale, LocalizationResolution['
 async function fetchMealLogDetail(params: { userId: number; logId: string; locale: Locale }): Promise<MealLogDetail> {
   const { data: row, error } = await supabaseAdmin
     .from('MealLog')
-    .select('id, userId, foodItem, calories, proteinG, fatG, carbsG, mealPeriod, landingType, createdAt, imageUrl, aiRaw, FavoriteMeal ( id )')
+    .select('id, userId, foodItem, calories, proteinG, fatG, carbsG, mealPeriod, landingType, createdAt, imageUrl, aiRaw, groupId, FavoriteMeal ( id )')
     .eq('id', params.logId)
     .eq('userId', params.userId)
     .is('deletedAt', null)
@@ -1829,6 +2674,7 @@ async function fetchMealLogDetail(params: { userId: number; logId: string; local
 
   const localization = resolveMealLogLocalization(row.aiRaw, params.locale);
   const translation = localization.translation;
+  const items = await ensureMealLogItems(row);
 
   return {
     id: row.id,
@@ -1845,6 +2691,8 @@ async function fetchMealLogDetail(params: { userId: number; logId: string; local
     requested_locale: localization.requestedLocale,
     fallback_applied: localization.fallbackApplied,
     favorite_meal_id: favoriteId,
+    group_id: row.groupId ?? null,
+    items,
     history:
       editsData?.map((entry) => ({
         id: entry.id,
@@ -1862,49 +2710,210 @@ async function fetchMealLogDetail(params: { userId: number; logId: string; local
         source: entry.source,
         changed_at: new Date(entry.createdAt).toISOString(),
       })) ?? [],
+    reanalysis: await fetchPendingMealLogReanalysis(params.logId),
+    chain_menu: await fetchMealLogChainMenuSource(translation?.meta, row.landingType ?? null),
   };
 }
 
-function mapUpdatePayload(body: UpdateMealLogRequest) {
-  const toDbMealPeriod = (value: string | undefined) => (value ? value.toUpperCase() : undefined);
+type DbMealLogItem = {
+  id: number;
+  name: string;
+  grams: number;
+  calories: number;
+  proteinG: number;
+  fatG: number;
+  carbsG: number;
+  orderIndex: number;
+};
+
+const MEAL_LOG_ITEM_SELECT = 'id, name, grams, calories, proteinG, fatG, carbsG, orderIndex';
+
+function mapMealLogItem(row: DbMealLogItem): MealLogItem {
   return {
-    foodItem: body.food_item,
-    calories: body.calories,
-    proteinG: body.protein_g,
-    fatG: body.fat_g,
-    carbsG: body.carbs_g,
-    mealPeriod: toDbMealPeriod(body.meal_period),
+    id: row.id,
+    name: row.name,
+    grams: row.grams,
+    calories: row.calories,
+    protein_g: row.proteinG,
+    fat_g: row.fatG,
+    carbs_g: row.carbsG,
+    order_index: row.orderIndex,
   };
 }
 
-function buildUpdatedAiRaw(aiRaw: unknown, updates: ReturnType<typeof mapUpdatePayload>) {
-  const parsed = parseMealLogAiRaw(aiRaw);
-  if (parsed) {
-    const baseLocale = parsed.locale ? normalizeLocale(parsed.locale) : DEFAULT_LOCALE;
-    const baseSource =
-      parsed.translations?.[baseLocale] ??
-      parsed.translations?.[DEFAULT_LOCALE] ??
-      cloneResponse(parsed as NonNullable<LocalizationResolution['translation']>);
-
-    const updatedBase = cloneResponse(baseSource);
-    if (typeof updates.foodItem === 'string') {
-      updatedBase.dish = updates.foodItem;
-    }
-    updatedBase.totals = {
-      ...updatedBase.totals,
-      ...(typeof updates.calories === 'number' ? { kcal: updates.calories } : {}),
-      ...(typeof updates.proteinG === 'number' ? { protein_g: updates.proteinG } : {}),
-      ...(typeof updates.fatG === 'number' ? { fat_g: updates.fatG } : {}),
-      ...(typeof updates.carbsG === 'number' ? { carbs_g: updates.carbsG } : {}),
-    };
+function toMealLogItemRow(item: Omit<MealLogItem, 'id'>) {
+  return {
+    name: item.name,
+    grams: item.grams,
+    calories: item.calories,
+    proteinG: item.protein_g,
+    fatG: item.fat_g,
+    carbsG: item.carbs_g,
+    orderIndex: item.order_index,
+    updatedAt: new Date().toISOString(),
+  };
+}
 
-    const updatedTranslations = { ...(parsed.translations ?? {}) } as Record<Locale, NonNullable<LocalizationResolution['translation']>>;
-    updatedTranslations[baseLocale] = updatedBase;
+/**
+ * Stores the analysed items of a new log, split so that they add up to its totals.
+ * Rows are unique per (mealLogId, orderIndex), so a second writer of the same log adds nothing.
+ */
+async function insertMealLogItems(
+  mealLogId: string,
+  response: Pick<GeminiNutritionResponse, 'dish' | 'totals' | 'items'>,
+) {
+  const items = response.items.length > 0 ? response.items : [{ name: response.dish, grams: 0 }];
+  const rows = allocateMealLogItems(response.totals, items).map((item) => ({
+    mealLogId,
+    ...toMealLogItemRow(item),
+  }));
+  const { error } = await supabaseAdmin
+    .from('MealLogItem')
+    .upsert(rows, { onConflict: 'mealLogId,orderIndex', ignoreDuplicates: true });
+  if (error) {
+    console.error('insertMealLogItems failed', error);
+  }
+}
+
+async function fetchMealLogItems(mealLogId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('MealLogItem')
+    .select(MEAL_LOG_ITEM_SELECT)
+    .eq('mealLogId', mealLogId)
+    .order('orderIndex', { ascending: true });
+  if (error) {
+    console.error('fetchMealLogItems failed', error);
+    throw new HttpError('品目を取得できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  return ((data ?? []) as DbMealLogItem[]).map(mapMealLogItem);
+}
+
+/**
+ * Returns the rows of a log. Logs saved before items were stored get them created from
+ * `aiRaw` on first access, named in the log's own locale like rows stored at save time.
+ */
+async function ensureMealLogItems(log: {
+  id: string;
+  foodItem: string;
+  calories: number;
+  proteinG: number;
+  fatG: number;
+  carbsG: number;
+  aiRaw: unknown;
+}) {
+  const existing = await fetchMealLogItems(log.id);
+  if (existing.length > 0) {
+    return existing;
+  }
+  const baseLocale = parseMealLogAiRaw(log.aiRaw)?.locale;
+  const translation = resolveMealLogLocalization(log.aiRaw, baseLocale).translation;
+  await insertMealLogItems(log.id, {
+    dish: translation?.dish ?? log.foodItem,
+    items: translation?.items ?? [],
+    totals: { kcal: log.calories, protein_g: log.proteinG, fat_g: log.fatG, carbs_g: log.carbsG },
+  });
+  return fetchMealLogItems(log.id);
+}
+
+async function applyMealLogItemPlan(mealLogId: string, plan: MealLogItemChangePlan) {
+  if (plan.removedIds.length > 0) {
+    const { error } = await supabaseAdmin
+      .from('MealLogItem')
+      .delete()
+      .eq('mealLogId', mealLogId)
+      .in('id', plan.removedIds);
+    if (error) {
+      console.error('applyMealLogItemPlan: delete failed', error);
+      throw new HttpError('品目の更新に失敗しました', { status: HTTP_STATUS.INTERNAL_ERROR });
+    }
+  }
+  // Park the kept rows on negative positions so renumbering them never collides with the unique index.
+  const kept = plan.items.filter((item) => item.id !== undefined);
+  if (kept.length > 0) {
+    const { error } = await supabaseAdmin
+      .from('MealLogItem')
+      .upsert(
+        kept.map((item) => ({ id: item.id, mealLogId, ...toMealLogItemRow(item), orderIndex: -1 - item.order_index })),
+        { onConflict: 'id' },
+      );
+    if (error) {
+      console.error('applyMealLogItemPlan: park failed', error);
+      throw new HttpError('品目の更新に失敗しました', { status: HTTP_STATUS.INTERNAL_ERROR });
+    }
+  }
+  for (const item of plan.items) {
+    const { error } =
+      item.id !== undefined
+        ? await supabaseAdmin
+            .from('MealLogItem')
+            .update(toMealLogItemRow(item))
+            .eq('id', item.id)
+            .eq('mealLogId', mealLogId)
+        : await supabaseAdmin.from('MealLogItem').insert({ mealLogId, ...toMealLogItemRow(item) });
+    if (error) {
+      console.error('applyMealLogItemPlan: write failed', error);
+      throw new HttpError('品目の更新に失敗しました', { status: HTTP_STATUS.INTERNAL_ERROR });
+    }
+  }
+}
+
+function mapUpdatePayload(body: UpdateMealLogRequest) {
+  const toDbMealPeriod = (value: string | undefined) => (value ? value.toUpperCase() : undefined);
+  return {
+    foodItem: body.food_item,
+    calories: body.calories,
+    proteinG: body.protein_g,
+    fatG: body.fat_g,
+    carbsG: body.carbs_g,
+    mealPeriod: toDbMealPeriod(body.meal_period),
+  };
+}
+
+function buildUpdatedAiRaw(
+  aiRaw: unknown,
+  updates: ReturnType<typeof mapUpdatePayload>,
+  items?: GeminiNutritionResponse['items'],
+  micros?: Micronutrients | null,
+) {
+  const parsed = parseMealLogAiRaw(aiRaw);
+  if (parsed) {
+    const baseLocale = parsed.locale ? normalizeLocale(parsed.locale) : DEFAULT_LOCALE;
+    const baseSource =
+      parsed.translations?.[baseLocale] ??
+      parsed.translations?.[DEFAULT_LOCALE] ??
+      cloneResponse(parsed as NonNullable<LocalizationResolution['translation']>);
+
+    const updatedBase = cloneResponse(baseSource);
+    if (typeof updates.foodItem === 'string') {
+      updatedBase.dish = updates.foodItem;
+    }
+    updatedBase.totals = {
+      ...updatedBase.totals,
+      ...(typeof updates.calories === 'number' ? { kcal: updates.calories } : {}),
+      ...(typeof updates.proteinG === 'number' ? { protein_g: updates.proteinG } : {}),
+      ...(typeof updates.fatG === 'number' ? { fat_g: updates.fatG } : {}),
+      ...(typeof updates.carbsG === 'number' ? { carbs_g: updates.carbsG } : {}),
+    };
+    if (items) {
+      updatedBase.items = items;
+    }
+    if (micros) {
+      updatedBase.micros = micros;
+    }
+
+    const updatedTranslations = { ...(parsed.translations ?? {}) } as Record<Locale, NonNullable<LocalizationResolution['translation']>>;
+    if (micros) {
+      for (const locale of Object.keys(updatedTranslations) as Locale[]) {
+        updatedTranslations[locale] = { ...updatedTranslations[locale], micros };
+      }
+    }
+    updatedTranslations[baseLocale] = updatedBase;
 
     return {
       ...parsed,
       dish: updatedBase.dish,
       totals: updatedBase.totals,
+      micros: updatedBase.micros,
       items: updatedBase.items,
       warnings: updatedBase.warnings,
       translations: updatedTranslations,
@@ -1923,6 +2932,7 @@ function buildUpdatedAiRaw(aiRaw: unknown, updates: ReturnType<typeof mapUpdateP
         ...(typeof updates.fatG === 'number' ? { fat_g: updates.fatG } : {}),
         ...(typeof updates.carbsG === 'number' ? { carbs_g: updates.carbsG } : {}),
       },
+      ...(micros ? { micros } : {}),
     };
 
     return {
@@ -1959,6 +2969,8 @@ type DbUserProfile = {
   activityLevel?: string | null;
   appleHealthLinked?: boolean | null;
   questionnaireCompletedAt?: string | Date | null;
+  adaptivePlanDeclinedAt?: string | Date | null;
+  hydrationCupSizesMl?: number[] | null;
   language?: string | null;
   createdAt?: string | Date | null;
   updatedAt?: string | Date | null;
@@ -2014,6 +3026,7 @@ function serializeProfile(profile: DbUserProfile): UserProfile {
     activity_level: (profile.activityLevel as UserProfile['activity_level']) ?? null,
     apple_health_linked: profile.appleHealthLinked ?? false,
     questionnaire_completed_at: toIso(profile.questionnaireCompletedAt),
+    hydration_cup_sizes_ml: resolveHydrationCupSizes(profile.hydrationCupSizesMl),
     language: (profile.language as UserProfile['language']) ?? null,
     updated_at: toIso(profile.updatedAt) ?? new Date().toISOString(),
   };
@@ -2030,6 +3043,7 @@ type DbNotificationSettings = {
   quietHoursStart: number;
   quietHoursEnd: number;
   dailyCap: number;
+  hydrationReminderEnabled?: boolean | null;
   timezone?: string | null;
   createdAt?: string | Date | null;
   updatedAt?: string | Date | null;
@@ -2082,6 +3096,7 @@ function serializeNotificationSettings(settings: DbNotificationSettings): Notifi
     quiet_hours_start: clampMinutes(settings.quietHoursStart ?? DEFAULT_QUIET_START),
     quiet_hours_end: clampMinutes(settings.quietHoursEnd ?? DEFAULT_QUIET_END),
     daily_cap: clampDailyCap(settings.dailyCap ?? DEFAULT_DAILY_CAP),
+    hydration_reminder_enabled: Boolean(settings.hydrationReminderEnabled),
     timezone: normalizeTimezone(settings.timezone ?? undefined),
   };
 }
@@ -2094,6 +3109,7 @@ async function updateNotificationSettings(
     quietHoursStart: number;
     quietHoursEnd: number;
     dailyCap: number;
+    hydrationReminderEnabled: boolean;
     timezone: string | null;
   }>,
 ): Promise<DbNotificationSettings> {
@@ -2107,6 +3123,7 @@ async function updateNotificationSettings(
       quietHoursStart: clampMinutes(updates.quietHoursStart ?? existing.quietHoursStart),
       quietHoursEnd: clampMinutes(updates.quietHoursEnd ?? existing.quietHoursEnd),
       dailyCap: clampDailyCap(updates.dailyCap ?? existing.dailyCap),
+      hydrationReminderEnabled: updates.hydrationReminderEnabled ?? Boolean(existing.hydrationReminderEnabled),
       timezone: updates.timezone !== undefined ? normalizeTimezone(updates.timezone) : existing.timezone,
       updatedAt: nowIso,
     })
@@ -2206,6 +3223,7 @@ function mapProfileInput(input: UpdateUserProfileRequest) {
   if (hasOwn(input, 'activity_level')) data.activityLevel = input.activity_level ?? null;
   if (hasOwn(input, 'apple_health_linked')) data.appleHealthLinked = input.apple_health_linked ?? null;
   if (hasOwn(input, 'questionnaire_completed_at')) data.questionnaireCompletedAt = input.questionnaire_completed_at ?? null;
+  if (hasOwn(input, 'hydration_cup_sizes_ml')) data.hydrationCupSizesMl = resolveHydrationCupSizes(input.hydration_cup_sizes_ml);
   if (hasOwn(input, 'language')) data.language = input.language ?? null;
 
   return data;
@@ -2624,12 +3642,16 @@ async function chooseSlot(userId: number, request: SlotSelectionRequest) {
 type ProcessMealLogParams = {
   userId: number;
   message: string;
-  file?: File | undefined;
+  files?: File[];
+  /** Voice memo; its transcript becomes the meal message and the recording is kept with the log. */
+  audio?: File | null;
   idempotencyKey?: string;
   locale?: Locale;
   timezone?: string;
   deferTranslation?: boolean;
   appVersion?: string;
+  /** The client can show follow-up questions, so an uncertain estimate is held instead of saved. */
+  clarify?: boolean;
 };
 
 type ProcessMealLogResult = {
@@ -2650,11 +3672,21 @@ type ProcessMealLogResult = {
     items: GeminiNutritionResponse['items'];
     warnings: string[];
   };
+  /** Two or more dishes when the log can be split into separate logs; empty otherwise. */
+  dishes: MealDish[];
+  /** Portion references or learned corrections the estimate was adjusted with. */
+  calibrationApplied: AppliedPortionCalibration[];
+  /** Chain menu item the message was matched to; `active` when the log uses its published values. */
+  chainMenu: MealLogChainMenuSource | null;
   meta: Record<string, unknown>;
   usage?: ReturnType<typeof summarizeUsageStatus>;
   favoriteCandidate: FavoriteMealDraft;
 };
 
+type ProcessMealLogOutcome =
+  | ProcessMealLogResult
+  | (MealLogClarificationResponse & { usage?: ReturnType<typeof summarizeUsageStatus> });
+
 type IngestErrorCategory = 'waitable' | 'actionable';
 
 type IngestFailure = {
@@ -2760,14 +3792,14 @@ function classifyIngestError(error: unknown): IngestFailure {
   };
 }
 
-async function processMealLog(params: ProcessMealLogParams): Promise<ProcessMealLogResult> {
+async function processMealLog(params: ProcessMealLogParams): Promise<ProcessMealLogOutcome> {
   const requestKey = params.idempotencyKey ?? buildRequestKey(params);
   const requestedLocale = normalizeLocale(params.locale);
   const timezone = normalizeTimezone(params.timezone);
 
   const { data: ingestExisting, error: ingestFetchError } = await supabaseAdmin
     .from('IngestRequest')
-    .select('logId, requestKey, status, errorCode, userMessage')
+    .select('logId, requestKey, status, errorCode, userMessage, clarification')
     .eq('userId', params.userId)
     .eq('requestKey', requestKey)
     .maybeSingle();
@@ -2786,6 +3818,13 @@ async function processMealLog(params: ProcessMealLogParams): Promise<ProcessMeal
     });
   }
 
+  if (ingestExisting?.status === 'needs_clarification') {
+    const pending = PendingMealClarificationSchema.safeParse(ingestExisting.clarification);
+    if (pending.success) {
+      return buildMealLogClarificationResponse(requestKey, pending.data);
+    }
+  }
+
   if (ingestExisting?.status === 'failed') {
     throw new HttpError(ingestExisting.userMessage ?? '解析に失敗しました。', {
       status: HTTP_STATUS.BAD_GATEWAY,
@@ -2803,8 +3842,12 @@ async function processMealLog(params: ProcessMealLogParams): Promise<ProcessMeal
     });
   }
 
+  // A message naming a chain's menu item is logged with the published values and costs no AI credit.
+  const chainMenuItem =
+    (params.files ?? []).length === 0 && !params.audio ? await findChainMenuMatch(params.message) : null;
+
   const usageStatus = await evaluateAiUsage(params.userId);
-  if (!usageStatus.allowed) {
+  if (!usageStatus.allowed && !chainMenuItem) {
     const usageError = buildUsageLimitError(usageStatus);
     const failure = classifyIngestError(usageError);
     const nowIso = new Date().toISOString();
@@ -2832,13 +3875,19 @@ async function processMealLog(params: ProcessMealLogParams): Promise<ProcessMeal
     throw usageError;
   }
 
-  const imageMimeType = params.file?.type;
-  const imageBase64 = params.file ? await fileToBase64(params.file) : undefined;
+  const files = params.files ?? [];
+  const images: PendingMealClarification['images'] = await Promise.all(
+    files.map(async (file) => ({ base64: await fileToBase64(file), mimeType: file.type, sizeBytes: file.size })),
+  );
+  const audio: SpeechToTextAudio | null = params.audio
+    ? { base64: await fileToBase64(params.audio), mimeType: params.audio.type, sizeBytes: params.audio.size }
+    : null;
   const normalizedMessage = normalizeIngestMessage(params.message ?? '');
   const inputHash = await buildInputHash({
     userId: params.userId,
     message: normalizedMessage,
-    imageBase64,
+    images,
+    audio,
     promptVersion: PROMPT_VERSION,
     appVersion: params.appVersion ?? null,
   });
@@ -2903,217 +3952,344 @@ async function processMealLog(params: ProcessMealLogParams): Promise<ProcessMeal
   }
 
   const ingestId = inserted.id;
-  let analysis: Awaited<ReturnType<typeof analyzeMeal>> | null = null;
-  let enrichedResponse: GeminiNutritionResponse | null = null;
-  let localization: LocalizationResolution | null = null;
-  let responseTranslations: Record<Locale, GeminiNutritionResponse> | null = null;
-  let responseItems: GeminiNutritionResponse['items'] | null = null;
-  let warnings: string[] | null = null;
-  let createdLogId = '';
-  let mealPeriod = '';
+  let saved: Omit<ProcessMealLogResult, 'usage'> | null = null;
+  let clarification: MealLogClarificationResponse | null = null;
 
   try {
-    analysis = await analyzeMeal({
-      message: params.message,
-      imageBase64,
-      imageMimeType,
-      locale: requestedLocale,
-    });
-
-    enrichedResponse = {
-      ...analysis.response,
-      meta: {
-        ...(analysis.response.meta ?? {}),
-        model: analysis.meta.model,
-        attempt: analysis.meta.attempt,
-        latencyMs: analysis.meta.latencyMs,
-        attemptReports: analysis.attemptReports,
-      },
-    };
+    if (chainMenuItem) {
+      saved = await saveAnalyzedMealLog({
+        userId: params.userId,
+        ingestId,
+        requestKey,
+        message: params.message,
+        requestedLocale,
+        timezone,
+        deferTranslation: params.deferTranslation,
+        response: buildChainMenuResponse(chainMenuItem, params.message),
+        images,
+        audio,
+        chainMenu: buildMealLogChainMenuSource(chainMenuItem, CHAIN_MENU_LANDING_TYPE),
+      });
+      return { ...saved, usage: summarizeUsageStatus(usageStatus) };
+    }
 
-    const zeroFloored = Object.values(enrichedResponse.totals).some((value) => value === 0);
-    mealPeriod = inferMealPeriod(timezone);
-    if (zeroFloored) {
-      console.warn('processMealLog: zeroFloored detected', {
+    const message = audio
+      ? buildVoiceMealMessage(params.message, await transcribeMealAudio(audio, requestedLocale))
+      : params.message;
+    // Spoken chain menu items are logged like typed ones; the credit is only spent on analysis.
+    const spokenChainMenuItem = audio && images.length === 0 ? await findChainMenuMatch(message) : null;
+    if (spokenChainMenuItem) {
+      saved = await saveAnalyzedMealLog({
         userId: params.userId,
-        requestKey: requestKey.slice(0, 24),
-        totals: enrichedResponse.totals,
+        ingestId,
+        requestKey,
+        message,
+        requestedLocale,
+        timezone,
+        deferTranslation: params.deferTranslation,
+        response: buildChainMenuResponse(spokenChainMenuItem, message),
+        images,
+        audio,
+        chainMenu: buildMealLogChainMenuSource(spokenChainMenuItem, CHAIN_MENU_LANDING_TYPE),
       });
+      return { ...saved, usage: summarizeUsageStatus(usageStatus) };
     }
+    const portionHints = await loadPortionCalibrationHints(params.userId);
+    const analysis = await analyzeMeal({
+      message,
+      images,
+      locale: requestedLocale,
+      portionHints,
+      cacheKey: await buildEstimateCacheKey({ message, images, locale: requestedLocale, portionHints }),
+    });
+    const enrichedResponse = enrichAnalysisResponse(analysis);
 
-    const seededTranslations: Record<Locale, GeminiNutritionResponse> = {
-      [DEFAULT_LOCALE]: cloneResponse(enrichedResponse),
-    };
-    if (!params.deferTranslation && requestedLocale !== DEFAULT_LOCALE) {
-      const localized = await maybeTranslateNutritionResponse(enrichedResponse, requestedLocale);
-      if (localized) {
-        seededTranslations[requestedLocale] = localized;
+    const questions = params.clarify ? selectClarifyingQuestions(enrichedResponse) : [];
+    if (questions.length > 0) {
+      const pending: PendingMealClarification = {
+        message,
+        locale: requestedLocale,
+        timezone,
+        questions,
+        draft: enrichedResponse,
+        images,
+        audio,
+      };
+      const { error: holdError } = await supabaseAdmin
+        .from('IngestRequest')
+        .update({
+          status: 'needs_clarification',
+          clarification: pending,
+          modelVersion: analysis.meta.model,
+          modelAttempts: analysis.attemptReports?.length ?? 0,
+          nextCheckAt: null,
+        })
+        .eq('id', ingestId);
+      if (holdError) {
+        console.error('processMealLog: hold for clarification failed', holdError);
+        throw new HttpError('食事記録の処理に失敗しました', { status: HTTP_STATUS.INTERNAL_ERROR });
       }
+      clarification = buildMealLogClarificationResponse(requestKey, pending);
+    } else {
+      saved = await saveAnalyzedMealLog({
+        userId: params.userId,
+        ingestId,
+        requestKey,
+        message,
+        requestedLocale,
+        timezone,
+        deferTranslation: params.deferTranslation,
+        response: enrichedResponse,
+        images,
+        audio,
+      });
     }
+  } catch (error) {
+    await markIngestFailed(ingestId, error);
+  }
 
-    const aiPayload: GeminiNutritionResponse & {
-      locale: Locale;
-      translations: Record<Locale, GeminiNutritionResponse>;
-    } = {
-      ...cloneResponse(enrichedResponse),
-      locale: DEFAULT_LOCALE,
-      translations: seededTranslations,
-    };
+  const usageSummary = await recordAiUsage({
+    userId: params.userId,
+    usageDate: usageStatus.usageDate,
+    consumeCredit: usageStatus.consumeCredit,
+  });
 
-    localization = resolveMealLogLocalization(aiPayload, requestedLocale);
-    const translation = localization.translation ?? cloneResponse(enrichedResponse);
-    responseTranslations = cloneTranslationsMap(localization.translations);
-    responseItems = translation.items ?? [];
-    warnings = [...(translation.warnings ?? [])];
-    if (zeroFloored) {
-      warnings.push('zeroFloored: AI が推定した栄養素の一部が 0 として返されました');
-    }
-    if (localization.fallbackApplied) {
-      warnings.push(`translation_fallback:${localization.resolvedLocale}`);
-    }
+  if (clarification) {
+    return { ...clarification, usage: usageSummary };
+  }
+  if (!saved) {
+    throw new HttpError('食事記録の処理に失敗しました', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  return { ...saved, usage: usageSummary };
+}
 
-    const { data: ingestStatus, error: ingestStatusError } = await supabaseAdmin
-      .from('IngestRequest')
-      .select('status, errorCode')
-      .eq('id', ingestId)
-      .maybeSingle();
-    if (ingestStatusError) {
-      console.error('processMealLog: cancel check failed', ingestStatusError);
-    } else if (ingestStatus?.status === 'failed' && ingestStatus.errorCode === 'INGEST_CANCELED') {
-      throw new HttpError('解析をキャンセルしました。', {
-        status: HTTP_STATUS.CONFLICT,
-        code: 'INGEST_CANCELED',
-        expose: true,
-      });
-    }
+function enrichAnalysisResponse(analysis: CachedAnalysis): GeminiNutritionResponse {
+  return {
+    ...analysis.response,
+    meta: {
+      ...(analysis.response.meta ?? {}),
+      model: analysis.meta.model,
+      attempt: analysis.meta.attempt,
+      latencyMs: analysis.meta.latencyMs,
+      attemptReports: analysis.attemptReports,
+      ...(analysis.meta.cacheHit ? { cacheHit: true } : {}),
+    },
+  };
+}
 
-    const logId = crypto.randomUUID();
-    const nowIso = new Date().toISOString();
+// Records the failure on the ingest request and rethrows it as the user-facing HttpError.
+async function markIngestFailed(ingestId: number, error: unknown): Promise<never> {
+  const failure = classifyIngestError(error);
+  const err = error as Error & { report?: HedgeAttemptReport; attemptReports?: HedgeAttemptReport[] };
+  const failureReport = err?.report;
+  const failureReports = err?.attemptReports;
+  const modelVersion = failureReport?.model ?? null;
+  const modelAttempts = failureReports?.length ?? (failureReport ? 1 : 0);
 
-    const { data: createdLog, error: logInsertError } = await supabaseAdmin
-      .from('MealLog')
-      .insert({
-        id: logId,
-        userId: params.userId,
-        foodItem: translation.dish ?? params.message,
-        calories: enrichedResponse.totals.kcal,
-        proteinG: enrichedResponse.totals.protein_g,
-        fatG: enrichedResponse.totals.fat_g,
-        carbsG: enrichedResponse.totals.carbs_g,
-        aiRaw: aiPayload,
-        zeroFloored,
-        guardrailNotes: zeroFloored ? 'zeroFloored' : null,
-        landingType: enrichedResponse.landing_type ?? null,
-        mealPeriod,
-        createdAt: nowIso,
-        updatedAt: nowIso,
-      })
-      .select('id')
-      .single();
+  const { error: ingestUpdateError } = await supabaseAdmin
+    .from('IngestRequest')
+    .update({
+      status: 'failed',
+      errorCode: failure.errorCode,
+      errorCategory: failure.errorCategory,
+      userMessage: failure.userMessage,
+      debugMessage: failure.debugMessage,
+      finishedAt: new Date().toISOString(),
+      modelVersion,
+      modelAttempts,
+      nextCheckAt: null,
+    })
+    .eq('id', ingestId);
+  if (ingestUpdateError) {
+    console.error('processMealLog: update ingest failed', ingestUpdateError);
+  }
 
-    if (logInsertError || !createdLog) {
-      console.error('processMealLog: insert meal log failed', logInsertError);
-      throw new HttpError('食事記録を作成できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
-    }
-    // Use returned id if present; fallback to generated one.
-    createdLogId = createdLog.id ?? logId;
+  const data = error instanceof HttpError ? error.data : undefined;
+  throw new HttpError(failure.userMessage, {
+    status: failure.status,
+    code: failure.errorCode,
+    expose: true,
+    data,
+  });
+}
 
-    const { error: historyError } = await supabaseAdmin.from('MealLogPeriodHistory').insert({
-      mealLogId: createdLogId,
-      previousMealPeriod: null,
-      nextMealPeriod: mealPeriod,
-      source: 'auto',
+/** Stores an analyzed meal as a log (items, photos, period history) and marks its ingest request done. */
+async function saveAnalyzedMealLog(params: {
+  userId: number;
+  ingestId: number;
+  requestKey: string;
+  message: string;
+  requestedLocale: Locale;
+  timezone: string;
+  deferTranslation?: boolean;
+  response: GeminiNutritionResponse;
+  images: PendingMealClarification['images'];
+  audio: SpeechToTextAudio | null;
+  chainMenu?: MealLogChainMenuSource | null;
+}): Promise<Omit<ProcessMealLogResult, 'usage'>> {
+  const { ingestId, requestKey, requestedLocale, timezone, images, audio } = params;
+  const enrichedResponse: GeminiNutritionResponse = audio
+    ? { ...params.response, meta: { ...(params.response.meta ?? {}), transcript: params.message } }
+    : params.response;
+  const zeroFloored = Object.values(enrichedResponse.totals).some((value) => value === 0);
+  const micros = normalizeMicronutrients(enrichedResponse.micros);
+  const mealPeriod = inferMealPeriod(timezone);
+  if (zeroFloored) {
+    console.warn('processMealLog: zeroFloored detected', {
+      userId: params.userId,
+      requestKey: requestKey.slice(0, 24),
+      totals: enrichedResponse.totals,
     });
-    if (historyError) {
-      console.error('processMealLog: insert period history failed', historyError);
-    }
+  }
 
-    if (params.file && imageBase64) {
-      const imageUrl = `data:${params.file.type};base64,${imageBase64}`;
-      const { error: mediaError } = await supabaseAdmin.from('MediaAsset').insert({
-        mealLogId: createdLogId,
-        mimeType: params.file.type,
-        url: imageUrl,
-        sizeBytes: params.file.size,
-      });
-      if (mediaError) {
-        console.error('processMealLog: insert media asset failed', mediaError);
-      }
-      const { error: updateImageError } = await supabaseAdmin.from('MealLog').update({ imageUrl }).eq('id', createdLogId);
-      if (updateImageError) {
-        console.error('processMealLog: update imageUrl failed', updateImageError);
-      }
+  const seededTranslations: Record<Locale, GeminiNutritionResponse> = {
+    [DEFAULT_LOCALE]: cloneResponse(enrichedResponse),
+  };
+  if (!params.deferTranslation && requestedLocale !== DEFAULT_LOCALE) {
+    const localized = await maybeTranslateNutritionResponse(enrichedResponse, requestedLocale);
+    if (localized) {
+      seededTranslations[requestedLocale] = localized;
     }
+  }
 
-    const modelAttempts = analysis.attemptReports?.length ?? 0;
-    const { error: ingestUpdateError } = await supabaseAdmin
-      .from('IngestRequest')
-      .update({
-        status: 'done',
-        logId: createdLogId,
-        finishedAt: nowIso,
-        modelVersion: analysis.meta.model,
-        modelAttempts,
-        errorCode: null,
-        errorCategory: null,
-        userMessage: null,
-        debugMessage: null,
-        nextCheckAt: null,
-      })
-      .eq('id', ingestId);
-    if (ingestUpdateError) {
-      console.error('processMealLog: update ingest failed', ingestUpdateError);
-    }
-  } catch (error) {
-    const failure = classifyIngestError(error);
-    const err = error as Error & { report?: HedgeAttemptReport; attemptReports?: HedgeAttemptReport[] };
-    const failureReport = err?.report;
-    const failureReports = err?.attemptReports;
-    const modelVersion = failureReport?.model ?? null;
-    const modelAttempts = failureReports?.length ?? (failureReport ? 1 : 0);
+  const aiPayload: GeminiNutritionResponse & {
+    locale: Locale;
+    translations: Record<Locale, GeminiNutritionResponse>;
+  } = {
+    ...cloneResponse(enrichedResponse),
+    locale: DEFAULT_LOCALE,
+    translations: seededTranslations,
+  };
 
-    const { error: ingestUpdateError } = await supabaseAdmin
-      .from('IngestRequest')
-      .update({
-        status: 'failed',
-        errorCode: failure.errorCode,
-        errorCategory: failure.errorCategory,
-        userMessage: failure.userMessage,
-        debugMessage: failure.debugMessage,
-        finishedAt: new Date().toISOString(),
-        modelVersion,
-        modelAttempts,
-        nextCheckAt: null,
-      })
-      .eq('id', ingestId);
-    if (ingestUpdateError) {
-      console.error('processMealLog: update ingest failed', ingestUpdateError);
-    }
+  const localization = resolveMealLogLocalization(aiPayload, requestedLocale);
+  const translation = localization.translation ?? cloneResponse(enrichedResponse);
+  const responseTranslations = cloneTranslationsMap(localization.translations);
+  const responseItems = translation.items ?? [];
+  const warnings = [...(translation.warnings ?? [])];
+  if (zeroFloored) {
+    warnings.push('zeroFloored: AI が推定した栄養素の一部が 0 として返されました');
+  }
+  if (localization.fallbackApplied) {
+    warnings.push(`translation_fallback:${localization.resolvedLocale}`);
+  }
 
-    const data = error instanceof HttpError ? error.data : undefined;
-    throw new HttpError(failure.userMessage, {
-      status: failure.status,
-      code: failure.errorCode,
+  const { data: ingestStatus, error: ingestStatusError } = await supabaseAdmin
+    .from('IngestRequest')
+    .select('status, errorCode')
+    .eq('id', ingestId)
+    .maybeSingle();
+  if (ingestStatusError) {
+    console.error('processMealLog: cancel check failed', ingestStatusError);
+  } else if (ingestStatus?.status === 'failed' && ingestStatus.errorCode === 'INGEST_CANCELED') {
+    throw new HttpError('解析をキャンセルしました。', {
+      status: HTTP_STATUS.CONFLICT,
+      code: 'INGEST_CANCELED',
       expose: true,
-      data,
     });
   }
 
-  if (!analysis || !enrichedResponse || !localization || !responseTranslations || !responseItems || !warnings) {
-    throw new HttpError('食事記録の処理に失敗しました', { status: HTTP_STATUS.INTERNAL_ERROR });
+  const logId = crypto.randomUUID();
+  const nowIso = new Date().toISOString();
+
+  const { data: createdLog, error: logInsertError } = await supabaseAdmin
+    .from('MealLog')
+    .insert({
+      id: logId,
+      userId: params.userId,
+      foodItem: translation.dish ?? params.message,
+      calories: enrichedResponse.totals.kcal,
+      proteinG: enrichedResponse.totals.protein_g,
+      fatG: enrichedResponse.totals.fat_g,
+      carbsG: enrichedResponse.totals.carbs_g,
+      micros: Object.keys(micros).length > 0 ? micros : null,
+      aiRaw: aiPayload,
+      zeroFloored,
+      guardrailNotes: zeroFloored ? 'zeroFloored' : null,
+      landingType: enrichedResponse.landing_type ?? null,
+      mealPeriod,
+      createdAt: nowIso,
+      updatedAt: nowIso,
+    })
+    .select('id')
+    .single();
+
+  if (logInsertError || !createdLog) {
+    console.error('processMealLog: insert meal log failed', logInsertError);
+    throw new HttpError('食事記録を作成できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
   }
+  // Use returned id if present; fallback to generated one.
+  const createdLogId = createdLog.id ?? logId;
 
-  const usageSummary = await recordAiUsage({
-    userId: params.userId,
-    usageDate: usageStatus.usageDate,
-    consumeCredit: usageStatus.consumeCredit,
+  const { error: historyError } = await supabaseAdmin.from('MealLogPeriodHistory').insert({
+    mealLogId: createdLogId,
+    previousMealPeriod: null,
+    nextMealPeriod: mealPeriod,
+    source: 'auto',
+  });
+  if (historyError) {
+    console.error('processMealLog: insert period history failed', historyError);
+  }
+
+  await insertMealLogItems(createdLogId, {
+    dish: translation.dish,
+    items: translation.items ?? [],
+    totals: enrichedResponse.totals,
   });
 
-  const translation = localization.translation ?? cloneResponse(enrichedResponse);
+  if (images.length > 0) {
+    const assets = images.map((image) => ({
+      mealLogId: createdLogId,
+      mimeType: image.mimeType,
+      url: `data:${image.mimeType};base64,${image.base64}`,
+      sizeBytes: image.sizeBytes,
+    }));
+    const imageUrl = assets[0].url;
+    const { error: mediaError } = await supabaseAdmin.from('MediaAsset').insert(assets);
+    if (mediaError) {
+      console.error('processMealLog: insert media asset failed', mediaError);
+    }
+    const { error: updateImageError } = await supabaseAdmin.from('MealLog').update({ imageUrl }).eq('id', createdLogId);
+    if (updateImageError) {
+      console.error('processMealLog: update imageUrl failed', updateImageError);
+    }
+  }
+  if (audio) {
+    const { error: audioError } = await supabaseAdmin.from('MediaAsset').insert({
+      mealLogId: createdLogId,
+      mimeType: audio.mimeType,
+      url: `data:${audio.mimeType};base64,${audio.base64}`,
+      sizeBytes: audio.sizeBytes,
+    });
+    if (audioError) {
+      console.error('processMealLog: insert voice memo failed', audioError);
+    }
+  }
+
+  const modelAttempts = enrichedResponse.meta?.attemptReports?.length ?? 0;
+  const { error: ingestUpdateError } = await supabaseAdmin
+    .from('IngestRequest')
+    .update({
+      status: 'done',
+      logId: createdLogId,
+      finishedAt: nowIso,
+      modelVersion: enrichedResponse.meta?.model ?? null,
+      modelAttempts,
+      clarification: null,
+      errorCode: null,
+      errorCategory: null,
+      userMessage: null,
+      debugMessage: null,
+      nextCheckAt: null,
+    })
+    .eq('id', ingestId);
+  if (ingestUpdateError) {
+    console.error('processMealLog: update ingest failed', ingestUpdateError);
+  }
+
   const meta: Record<string, unknown> = {
     ...(enrichedResponse.meta ?? {}),
-    imageUrl: params.file ? `data:${params.file.type};base64,${imageBase64 ?? ''}` : null,
-    fallback_model_used: analysis.meta.attempt > 1,
+    imageUrl: images.length > 0 ? `data:${images[0].mimeType};base64,${images[0].base64}` : null,
+    fallback_model_used: (enrichedResponse.meta?.attempt ?? 1) > 1,
     mealPeriod,
     timezone,
     localization: buildLocalizationMeta({ ...localization, translations: responseTranslations }),
@@ -3145,24 +4321,435 @@ async function processMealLog(params: ProcessMealLogParams): Promise<ProcessMeal
       items: responseItems,
       warnings,
     },
+    dishes: listSplittableDishes(translation),
+    calibrationApplied: translation.calibration_applied ?? [],
+    chainMenu: params.chainMenu ?? null,
     meta,
-    usage: usageSummary,
     favoriteCandidate,
   };
 }
 
-async function buildIdempotentMealLogResult(params: {
-  userId: number;
-  logId: string;
-  requestKey: string;
-  requestedLocale: Locale;
-}): Promise<ProcessMealLogResult> {
-  const log = await fetchMealLogDetail({ userId: params.userId, logId: params.logId, locale: params.requestedLocale });
-  const usageStatus = await evaluateAiUsage(params.userId);
-  const usageSummary = summarizeUsageStatus(usageStatus);
+// Replaces a multi-dish log with one log per dish sharing a groupId; the combined log is soft-deleted.
+async function splitMealLog(params: { userId: number; logId: string; locale: Locale }): Promise<MealLogSplitResponse> {
+  const { data: row, error } = await supabaseAdmin
+    .from('MealLog')
+    .select('id, aiRaw, mealPeriod, landingType, imageUrl, groupId, createdAt')
+    .eq('id', params.logId)
+    .eq('userId', params.userId)
+    .is('deletedAt', null)
+    .maybeSingle();
 
-  const totalsFallback = {
-    kcal: log.calories,
+  if (error) {
+    console.error('split log: fetch failed', error);
+    throw new HttpError('食事記録の取得に失敗しました', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  if (!row) {
+    throw new HttpError('食事記録が見つかりませんでした', { status: HTTP_STATUS.NOT_FOUND, expose: true });
+  }
+
+  const parsed = parseMealLogAiRaw(row.aiRaw);
+  const translations = collectTranslations(row.aiRaw, parsed);
+  const baseLocale = parsed?.locale ? normalizeLocale(parsed.locale) : DEFAULT_LOCALE;
+  const base = translations[baseLocale] ?? (parsed ? cloneResponse(parsed) : null);
+  const dishes = row.groupId ? [] : listSplittableDishes(base);
+  if (!base || dishes.length === 0) {
+    throw new HttpError('この食事記録は料理ごとに分けられません', { status: HTTP_STATUS.BAD_REQUEST, expose: true });
+  }
+
+  const requestedLocale = normalizeLocale(params.locale);
+  const groupId = crypto.randomUUID();
+  const nowIso = new Date().toISOString();
+  const items: MealLogSplitResponse['items'] = [];
+
+  for (const [index, dish] of dishes.entries()) {
+    const dishBase = buildDishResponse(base, dish);
+    dishBase.meta = { ...(dishBase.meta ?? {}), splitFromLogId: row.id };
+    const dishTranslations = Object.fromEntries(
+      Object.entries(translations).map(([locale, translation]) => {
+        const translatedDish = translation.dishes?.[index];
+        const response = translatedDish ? buildDishResponse(translation, translatedDish) : cloneResponse(dishBase);
+        return [locale, { ...response, meta: { ...(response.meta ?? {}), splitFromLogId: row.id } }];
+      }),
+    ) as Record<Locale, GeminiNutritionResponse>;
+    dishTranslations[baseLocale] = cloneResponse(dishBase);
+    const dishName = dishTranslations[requestedLocale]?.dish ?? dish.dish;
+    const micros = normalizeMicronutrients(dishBase.micros);
+    const logId = crypto.randomUUID();
+
+    const { error: insertError } = await supabaseAdmin.from('MealLog').insert({
+      id: logId,
+      userId: params.userId,
+      foodItem: dishName,
+      calories: dish.totals.kcal,
+      proteinG: dish.totals.protein_g,
+      fatG: dish.totals.fat_g,
+      carbsG: dish.totals.carbs_g,
+      micros: Object.keys(micros).length > 0 ? micros : null,
+      aiRaw: { ...dishBase, locale: baseLocale, translations: dishTranslations },
+      zeroFloored: Object.values(dish.totals).some((value) => value === 0),
+      landingType: row.landingType ?? null,
+      mealPeriod: row.mealPeriod,
+      imageUrl: row.imageUrl ?? null,
+      groupId,
+      createdAt: row.createdAt,
+      updatedAt: nowIso,
+    });
+    if (insertError) {
+      console.error('split log: insert failed', insertError);
+      throw new HttpError('食事記録を分割できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+    }
+
+    const { error: historyError } = await supabaseAdmin.from('MealLogPeriodHistory').insert({
+      mealLogId: logId,
+      previousMealPeriod: null,
+      nextMealPeriod: row.mealPeriod,
+      source: 'split',
+    });
+    if (historyError) {
+      console.error('split log: insert period history failed', historyError);
+    }
+
+    // Photos stay on the original log; each dish points back to it via meta.splitFromLogId.
+    await insertMealLogItems(logId, { dish: dishBase.dish, items: dishBase.items, totals: dishBase.totals });
+
+    items.push({ id: logId, dish: dishName, calories: dish.totals.kcal });
+  }
+
+  const { error: shareDeleteError } = await supabaseAdmin.from('LogShareToken').delete().eq('mealLogId', row.id);
+  if (shareDeleteError) {
+    console.error('split log: share token delete failed', shareDeleteError);
+  }
+  const { error: favoriteUpdateError } = await supabaseAdmin
+    .from('FavoriteMeal')
+    .update({ sourceMealLogId: null })
+    .eq('userId', params.userId)
+    .eq('sourceMealLogId', row.id);
+  if (favoriteUpdateError) {
+    console.error('split log: favorite update failed', favoriteUpdateError);
+  }
+  const { error: deleteError } = await supabaseAdmin
+    .from('MealLog')
+    .update({ deletedAt: nowIso })
+    .eq('id', row.id)
+    .eq('userId', params.userId);
+  if (deleteError) {
+    console.error('split log: delete combined log failed', deleteError);
+    throw new HttpError('食事記録を分割できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+
+  return { ok: true, group_id: groupId, items };
+}
+
+// Re-analysis jobs run from apps/server (`npm run logs:reanalyze`); this runtime only shows and resolves their proposals.
+const REANALYSIS_STATUS_PENDING = 'pending';
+const REANALYSIS_STATUS_ACCEPTED = 'accepted';
+const REANALYSIS_STATUS_DISMISSED = 'dismissed';
+
+async function fetchPendingMealLogReanalysis(mealLogId: string): Promise<MealLogReanalysis | null> {
+  const { data, error } = await supabaseAdmin
+    .from('MealLogReanalysis')
+    .select('id, promptVersion, modelVersion, previous, response, createdAt')
+    .eq('mealLogId', mealLogId)
+    .eq('status', REANALYSIS_STATUS_PENDING)
+    .order('createdAt', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) {
+    console.error('fetchPendingMealLogReanalysis failed', error);
+    return null;
+  }
+  if (!data) {
+    return null;
+  }
+  const response = GeminiNutritionResponseSchema.safeParse(data.response);
+  if (!response.success) {
+    return null;
+  }
+  const parsed = MealLogReanalysisSchema.safeParse({
+    id: data.id,
+    prompt_version: data.promptVersion,
+    model: data.modelVersion ?? null,
+    created_at: new Date(data.createdAt).toISOString(),
+    previous: data.previous,
+    proposed: { dish: response.data.dish, totals: response.data.totals },
+  });
+  return parsed.success ? parsed.data : null;
+}
+
+/** Accepting replaces the log's estimate with the proposal; dismissing keeps the log as the user left it. */
+async function resolveMealLogReanalysis(params: { userId: number; logId: string; action: 'accept' | 'dismiss' }) {
+  const { data: log, error: logError } = await supabaseAdmin
+    .from('MealLog')
+    .select('id, aiRaw, version')
+    .eq('id', params.logId)
+    .eq('userId', params.userId)
+    .is('deletedAt', null)
+    .maybeSingle();
+  if (logError) {
+    console.error('resolve reanalysis: log fetch failed', logError);
+    throw new HttpError('食事記録の取得に失敗しました', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  if (!log) {
+    throw new HttpError('食事記録が見つかりませんでした', { status: HTTP_STATUS.NOT_FOUND, expose: true });
+  }
+
+  const { data: pending, error: pendingError } = await supabaseAdmin
+    .from('MealLogReanalysis')
+    .select('id, response')
+    .eq('mealLogId', log.id)
+    .eq('status', REANALYSIS_STATUS_PENDING)
+    .order('createdAt', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (pendingError) {
+    console.error('resolve reanalysis: fetch failed', pendingError);
+    throw new HttpError('新しい推定値を取得できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  const response = pending ? GeminiNutritionResponseSchema.safeParse(pending.response) : null;
+  if (!pending || !response?.success) {
+    throw new HttpError('新しい推定値はありません', { status: HTTP_STATUS.NOT_FOUND, expose: true });
+  }
+
+  // Claiming the proposal first keeps a double tap from applying it twice.
+  const { data: claimed, error: claimError } = await supabaseAdmin
+    .from('MealLogReanalysis')
+    .update({
+      status: params.action === 'accept' ? REANALYSIS_STATUS_ACCEPTED : REANALYSIS_STATUS_DISMISSED,
+      resolvedAt: new Date().toISOString(),
+    })
+    .eq('id', pending.id)
+    .eq('status', REANALYSIS_STATUS_PENDING)
+    .select('id');
+  if (claimError) {
+    console.error('resolve reanalysis: claim failed', claimError);
+    throw new HttpError('新しい推定値を反映できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  if (!claimed?.length) {
+    throw new HttpError('この推定値はすでに処理されています', { status: HTTP_STATUS.CONFLICT, expose: true });
+  }
+  if (params.action === 'dismiss') {
+    return;
+  }
+
+  await replaceMealLogEstimate({ userId: params.userId, log, estimate: response.data });
+}
+
+/**
+ * Replaces the estimate of a log. Translations of the old estimate would describe different numbers;
+ * they are dropped and produced again on request.
+ */
+async function replaceMealLogEstimate(params: {
+  userId: number;
+  log: { id: string; aiRaw: unknown; version: number | null };
+  estimate: GeminiNutritionResponse;
+}) {
+  const { log, estimate } = params;
+  const parsed = parseMealLogAiRaw(log.aiRaw);
+  const baseLocale = parsed?.locale ? normalizeLocale(parsed.locale) : DEFAULT_LOCALE;
+  const zeroFloored = Object.values(estimate.totals).some((value) => value === 0);
+  const micros = normalizeMicronutrients(estimate.micros);
+  const { error: updateError } = await supabaseAdmin
+    .from('MealLog')
+    .update({
+      foodItem: estimate.dish,
+      calories: estimate.totals.kcal,
+      proteinG: estimate.totals.protein_g,
+      fatG: estimate.totals.fat_g,
+      carbsG: estimate.totals.carbs_g,
+      micros: Object.keys(micros).length > 0 ? micros : null,
+      aiRaw: { ...estimate, locale: baseLocale, translations: { [baseLocale]: estimate } },
+      zeroFloored,
+      guardrailNotes: zeroFloored ? 'zeroFloored' : null,
+      landingType: estimate.landing_type ?? null,
+      version: (log.version ?? 0) + 1,
+      updatedAt: new Date().toISOString(),
+    })
+    .eq('id', log.id)
+    .eq('userId', params.userId);
+  if (updateError) {
+    console.error('replaceMealLogEstimate: log update failed', updateError);
+    throw new HttpError('推定値を反映できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  const { error: itemsDeleteError } = await supabaseAdmin.from('MealLogItem').delete().eq('mealLogId', log.id);
+  if (itemsDeleteError) {
+    console.error('replaceMealLogEstimate: items delete failed', itemsDeleteError);
+  }
+  await insertMealLogItems(log.id, estimate);
+}
+
+const CHAIN_MENU_ITEM_COLUMNS =
+  'id, chain, name, sizeLabel, kcal, proteinG, fatG, carbsG, saltG, servingGrams, sourceUrl';
+
+/**
+ * Looks a text-only meal message up in the imported chain menus. A failed lookup only means the
+ * message goes to the model, so errors are logged rather than thrown.
+ */
+async function findChainMenuMatch(message: string): Promise<ChainMenuItemValues | null> {
+  const haystack = normalizeChainMenuText(message);
+  if (!haystack) {
+    return null;
+  }
+
+  const { data: chains, error: chainsError } = await supabaseAdmin.from('ChainMenuItem').select('chain, chainKeys');
+  if (chainsError) {
+    console.error('findChainMenuMatch: chains fetch failed', chainsError);
+    return null;
+  }
+  const mentioned = Array.from(
+    new Set(
+      ((chains ?? []) as Array<{ chain: string; chainKeys: string[] | null }>)
+        .filter((entry) => (entry.chainKeys ?? []).some((key) => key && haystack.includes(key)))
+        .map((entry) => entry.chain),
+    ),
+  );
+  if (mentioned.length === 0) {
+    return null;
+  }
+
+  const { data: rows, error } = await supabaseAdmin
+    .from('ChainMenuItem')
+    .select(`${CHAIN_MENU_ITEM_COLUMNS}, chainKeys, ChainMenuItemName ( name, normalized, isAlias )`)
+    .in('chain', mentioned)
+    .order('id', { ascending: true });
+  if (error) {
+    console.error('findChainMenuMatch: items fetch failed', error);
+    return null;
+  }
+  type ChainMenuCandidate = ChainMenuMatchCandidate & { values: ChainMenuItemValues };
+  const candidates: ChainMenuCandidate[] = (rows ?? []).map(({ chainKeys, ChainMenuItemName, ...values }: any) => ({
+    id: values.id as number,
+    chainKeys: (chainKeys ?? []) as string[],
+    names: (ChainMenuItemName ?? []) as Array<{ name: string; normalized: string; isAlias: boolean }>,
+    values: values as ChainMenuItemValues,
+  }));
+  return matchChainMenuItem(message, candidates)?.item.values ?? null;
+}
+
+async function fetchChainMenuItem(itemId: number): Promise<ChainMenuItemValues | null> {
+  const { data, error } = await supabaseAdmin
+    .from('ChainMenuItem')
+    .select(CHAIN_MENU_ITEM_COLUMNS)
+    .eq('id', itemId)
+    .maybeSingle();
+  if (error) {
+    console.error('fetchChainMenuItem: fetch failed', error);
+    throw new HttpError('メニューを取得できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  return (data as ChainMenuItemValues | null) ?? null;
+}
+
+/** Source line of the nutrition card for a log that was matched to a menu item, whichever estimate it now uses. */
+async function fetchMealLogChainMenuSource(
+  meta: Record<string, unknown> | undefined,
+  landingType: string | null,
+): Promise<MealLogChainMenuSource | null> {
+  const itemId = meta?.chainMenuItemId;
+  if (typeof itemId !== 'number') {
+    return null;
+  }
+  const item = await fetchChainMenuItem(itemId);
+  return item ? buildMealLogChainMenuSource(item, landingType) : null;
+}
+
+/**
+ * Moves a log matched to a chain menu item between the published values and a model estimate of the
+ * same message. The match and the estimate switched away from stay in `meta`; only the first switch to
+ * the model uses an AI credit.
+ */
+async function switchMealLogEstimateSource(params: {
+  userId: number;
+  logId: string;
+  source: MealLogEstimateSourceRequest['source'];
+}): Promise<{ usage?: ReturnType<typeof summarizeUsageStatus> }> {
+  const { data: log, error: logError } = await supabaseAdmin
+    .from('MealLog')
+    .select('id, aiRaw, version, landingType')
+    .eq('id', params.logId)
+    .eq('userId', params.userId)
+    .is('deletedAt', null)
+    .maybeSingle();
+  if (logError) {
+    console.error('switchMealLogEstimateSource: log fetch failed', logError);
+    throw new HttpError('食事記録の取得に失敗しました', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  if (!log) {
+    throw new HttpError('食事記録が見つかりませんでした', { status: HTTP_STATUS.NOT_FOUND, expose: true });
+  }
+
+  const parsed = parseMealLogAiRaw(log.aiRaw);
+  const baseLocale = parsed?.locale ? normalizeLocale(parsed.locale) : DEFAULT_LOCALE;
+  const base = parsed ? (parsed.translations?.[baseLocale] ?? parsed) : null;
+  const itemId = base?.meta?.chainMenuItemId;
+  const query = base?.meta?.chainMenuQuery;
+  if (typeof itemId !== 'number' || !query) {
+    throw new HttpError('この食事記録はチェーン店のメニューと照合されていません', {
+      status: HTTP_STATUS.CONFLICT,
+      expose: true,
+    });
+  }
+
+  const current = log.landingType === CHAIN_MENU_LANDING_TYPE ? 'chain_menu' : 'ai';
+  if (current === params.source) {
+    return {};
+  }
+
+  const previous = GeminiNutritionResponseSchema.parse(base);
+  const stored = GeminiNutritionResponseSchema.safeParse(previous.meta?.alternateEstimate);
+  if (stored.success && (stored.data.landing_type === CHAIN_MENU_LANDING_TYPE) === (params.source === 'chain_menu')) {
+    await replaceMealLogEstimate({ userId: params.userId, log, estimate: withAlternateEstimate(stored.data, previous) });
+    return {};
+  }
+
+  if (params.source === 'chain_menu') {
+    const item = await fetchChainMenuItem(itemId);
+    if (!item) {
+      throw new HttpError('メニューが見つかりませんでした', { status: HTTP_STATUS.NOT_FOUND, expose: true });
+    }
+    await replaceMealLogEstimate({
+      userId: params.userId,
+      log,
+      estimate: withAlternateEstimate(buildChainMenuResponse(item, query), previous),
+    });
+    return {};
+  }
+
+  const usageStatus = await evaluateAiUsage(params.userId);
+  if (!usageStatus.allowed) {
+    throw buildUsageLimitError(usageStatus);
+  }
+  const portionHints = await loadPortionCalibrationHints(params.userId);
+  const analysis = await analyzeMeal({
+    message: query,
+    images: [],
+    locale: baseLocale,
+    portionHints,
+    cacheKey: await buildEstimateCacheKey({ message: query, images: [], locale: baseLocale, portionHints }),
+  });
+  await replaceMealLogEstimate({
+    userId: params.userId,
+    log,
+    estimate: withAlternateEstimate(enrichAnalysisResponse(analysis), previous),
+  });
+  const usage = await recordAiUsage({
+    userId: params.userId,
+    usageDate: usageStatus.usageDate,
+    consumeCredit: usageStatus.consumeCredit,
+  });
+  return { usage };
+}
+
+async function buildIdempotentMealLogResult(params: {
+  userId: number;
+  logId: string;
+  requestKey: string;
+  requestedLocale: Locale;
+}): Promise<ProcessMealLogResult> {
+  const log = await fetchMealLogDetail({ userId: params.userId, logId: params.logId, locale: params.requestedLocale });
+  const usageStatus = await evaluateAiUsage(params.userId);
+  const usageSummary = summarizeUsageStatus(usageStatus);
+
+  const totalsFallback = {
+    kcal: log.calories,
     protein_g: log.protein_g,
     fat_g: log.fat_g,
     carbs_g: log.carbs_g,
@@ -3186,6 +4773,9 @@ async function buildIdempotentMealLogResult(params: {
       items: log.ai_raw?.items ?? [],
       warnings: log.ai_raw?.warnings ?? [],
     },
+    dishes: log.group_id ? [] : listSplittableDishes(log.ai_raw),
+    calibrationApplied: log.ai_raw?.calibration_applied ?? [],
+    chainMenu: log.chain_menu ?? null,
     meta: {
       idempotent: true,
     },
@@ -3291,53 +4881,258 @@ async function computeSha256Hex(value: string) {
     .join('');
 }
 
+/**
+ * Transcribes a voice memo with `SPEECH_TO_TEXT_PROVIDER`, or else the first Gemini / OpenAI-compatible entry of
+ * the analysis chain (the stub only when analysis runs on the mock). An empty transcript is a client error.
+ */
+async function transcribeMealAudio(audio: SpeechToTextAudio, locale: Locale) {
+  const apiKey = Deno.env.get('GEMINI_API_KEY');
+  const configuredChain = parseAiProviderChain(Deno.env.get('AI_PROVIDER_CHAIN'), {
+    gemini: '',
+    openai: '',
+    local: '',
+    mock: '',
+  });
+  const provider =
+    parseSpeechToTextProvider(Deno.env.get('SPEECH_TO_TEXT_PROVIDER')) ??
+    resolveSpeechToTextProviderFromChain(
+      configuredChain.length ? configuredChain : [{ provider: apiKey ? 'gemini' : 'mock', model: '' }],
+      { gemini: Boolean(apiKey), openai: Boolean(Deno.env.get('OPENAI_COMPATIBLE_BASE_URL')) },
+    );
+  if (!provider) {
+    throw new HttpError('音声入力は現在ご利用いただけません。テキストか写真で記録してください。', {
+      status: HTTP_STATUS.SERVICE_UNAVAILABLE,
+      code: 'STT_UNAVAILABLE',
+      expose: true,
+    });
+  }
+  const model = (Deno.env.get('SPEECH_TO_TEXT_MODEL') ?? '').trim() || DEFAULT_SPEECH_TO_TEXT_MODELS[provider];
+  const timeoutMs = Number(Deno.env.get('GEMINI_TIMEOUT_MS') ?? '25000');
+
+  let raw: string | null;
+  try {
+    const signal = AbortSignal.timeout(Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : 25000);
+    if (provider === 'stub') {
+      raw = decodeStubTranscript(Uint8Array.from(atob(audio.base64), (char) => char.charCodeAt(0)));
+    } else if (provider === 'openai') {
+      const baseUrl = Deno.env.get('OPENAI_COMPATIBLE_BASE_URL');
+      if (!baseUrl) {
+        throw new Error('OPENAI_COMPATIBLE_BASE_URL is not configured');
+      }
+      const openAiKey = Deno.env.get('OPENAI_COMPATIBLE_API_KEY');
+      const form = new FormData();
+      const bytes = Uint8Array.from(atob(audio.base64), (char) => char.charCodeAt(0));
+      form.append('file', new Blob([bytes], { type: audio.mimeType }), buildSpeechToTextFileName(audio.mimeType));
+      form.append('model', model);
+      form.append('language', locale.slice(0, 2));
+      const resp = await fetch(new URL('audio/transcriptions', baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`), {
+        method: 'POST',
+        headers: openAiKey ? { Authorization: `Bearer ${openAiKey}` } : {},
+        body: form,
+        signal,
+      });
+      if (!resp.ok) {
+        throw new Error(`OpenAI-compatible transcription error ${resp.status}: ${await resp.text()}`);
+      }
+      raw = extractOpenAiTranscript(await resp.json());
+    } else {
+      if (!apiKey) {
+        throw new Error('GEMINI_API_KEY is not configured');
+      }
+      const url = new URL(`https://generativelanguage.googleapis.com/v1beta/${model}:generateContent`);
+      url.searchParams.set('key', apiKey);
+      const resp = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(buildGeminiTranscriptionRequestBody(audio, locale)),
+        signal,
+      });
+      if (!resp.ok) {
+        throw new Error(`Gemini transcription error ${resp.status}: ${await resp.text()}`);
+      }
+      raw = extractGeminiTranscript(await resp.json());
+    }
+    if (raw === null) {
+      throw new Error(`${provider} transcription returned no text`);
+    }
+  } catch (error) {
+    console.error('transcribeMealAudio: failed', { provider, model, error });
+    throw new HttpError('音声の文字起こしに失敗しました。もう一度お試しください。', {
+      status: HTTP_STATUS.BAD_GATEWAY,
+      code: 'STT_FAILED',
+      expose: true,
+    });
+  }
+
+  const transcript = normalizeTranscript(raw);
+  if (!transcript) {
+    throw new HttpError('音声から食事の内容を聞き取れませんでした。', {
+      status: HTTP_STATUS.UNPROCESSABLE_ENTITY,
+      code: 'STT_EMPTY',
+      expose: true,
+    });
+  }
+  return transcript;
+}
+
 async function buildInputHash(params: {
   userId: number;
   message: string;
-  imageBase64?: string;
+  images: AiPromptImage[];
+  audio?: SpeechToTextAudio | null;
   promptVersion: string;
   appVersion?: string | null;
 }) {
-  const imageHash = params.imageBase64 ? await computeSha256Hex(params.imageBase64) : null;
+  const imageHash = await computeImagesHash(params.images);
   const payload = JSON.stringify({
     userId: params.userId,
     message: params.message,
     imageHash,
+    // Two voice memos with nothing typed must not dedupe into one log.
+    ...(params.audio ? { audioHash: await computeSha256Hex(params.audio.base64) } : {}),
     promptVersion: params.promptVersion,
     appVersion: params.appVersion ?? null,
   });
   return computeSha256Hex(payload);
 }
 
-function buildRequestKey(params: ProcessMealLogParams) {
-  const hashString = crypto.randomUUID().replace(/-/g, '').slice(0, 12);
-  return `${Date.now()}-${params.userId}-${hashString}`;
+async function computeImagesHash(images: AiPromptImage[]) {
+  return images.length > 0 ? computeSha256Hex(images.map((image) => image.base64).join(',')) : null;
 }
 
-async function respondWithCache(c: Context, payload: unknown, status: number = HTTP_STATUS.OK) {
-  const etag = await computeEtag(payload);
-  const ifNoneMatch = c.req.header('if-none-match');
-  c.header('Cache-Control', 'private, max-age=60');
-  c.header('ETag', etag);
-
-  if (ifNoneMatch && ifNoneMatch === etag) {
-    return c.body(null, 304);
+async function buildEstimateCacheKey(params: {
+  message: string;
+  images: AiPromptImage[];
+  locale: Locale;
+  portionHints: PortionCalibrationHint[];
+}) {
+  if (!NUTRITION_ESTIMATE_CACHE) {
+    return null;
   }
-
-  return c.json(payload, status);
+  const payload = buildEstimateCacheKeyPayload({
+    text: params.message,
+    imageHash: await computeImagesHash(params.images),
+    locale: params.locale,
+    promptVersion: PROMPT_VERSION,
+    calibration: fingerprintPortionHints(params.portionHints),
+  });
+  return payload ? computeSha256Hex(payload) : null;
 }
 
-async function computeEtag(value: unknown): Promise<string> {
-  const data = encoder.encode(JSON.stringify(value));
-  const hash = await crypto.subtle.digest('SHA-1', data);
-  const hex = Array.from(new Uint8Array(hash))
-    .map((b) => b.toString(16).padStart(2, '0'))
-    .join('');
-  return `W/"${hex}"`;
-}
+type CachedAnalysis = {
+  response: GeminiNutritionResponse;
+  attemptReports: HedgeAttemptReport[];
+  meta: { model: string; attempt: number; latencyMs: number; rawText: string; cacheHit?: boolean };
+};
 
-function inferMealPeriod(timezone: string | undefined, referenceDate: Date | undefined = undefined): string {
-  const zone = normalizeTimezone(timezone);
+// Cache failures are logged and treated as a miss so meal logging never depends on them.
+async function findCachedEstimate(cacheKey: string, modelVersions: string[]): Promise<CachedAnalysis | null> {
+  const { data, error } = await supabaseAdmin
+    .from('NutritionEstimateCache')
+    .select('id, modelVersion, response, hitCount')
+    .eq('cacheKey', cacheKey)
+    .in('modelVersion', modelVersions)
+    .gt('expiresAt', new Date().toISOString())
+    .order('createdAt', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error || !data) {
+    if (error) console.warn('findCachedEstimate: lookup failed', error);
+    return null;
+  }
+  const parsed = GeminiNutritionResponseSchema.safeParse(data.response);
+  if (!parsed.success) {
+    return null;
+  }
+  const { error: updateError } = await supabaseAdmin
+    .from('NutritionEstimateCache')
+    .update({ hitCount: (data.hitCount ?? 0) + 1, lastHitAt: new Date().toISOString() })
+    .eq('id', data.id);
+  if (updateError) {
+    console.warn('findCachedEstimate: hit count update failed', updateError);
+  }
+  return {
+    response: parsed.data,
+    attemptReports: [],
+    meta: { model: data.modelVersion, attempt: 1, latencyMs: 0, rawText: JSON.stringify(parsed.data), cacheHit: true },
+  };
+}
+
+async function storeCachedEstimate(cacheKey: string, modelVersion: string, response: GeminiNutritionResponse) {
+  const { error } = await supabaseAdmin.from('NutritionEstimateCache').upsert(
+    {
+      cacheKey,
+      promptVersion: PROMPT_VERSION,
+      modelVersion,
+      response,
+      hitCount: 0,
+      lastHitAt: null,
+      expiresAt: DateTime.utc().plus({ days: ESTIMATE_CACHE_TTL_DAYS }).toISO(),
+    },
+    { onConflict: 'cacheKey,modelVersion' },
+  );
+  if (error) {
+    console.warn('storeCachedEstimate: failed', error);
+  }
+}
+
+async function recordEstimateCacheOutcome(outcome: 'hit' | 'miss') {
+  const metricDate = DateTime.utc().toISODate();
+  const { data, error } = await supabaseAdmin
+    .from('EstimateCacheMetric')
+    .select('id, hits, misses')
+    .eq('metricDate', metricDate)
+    .eq('promptVersion', PROMPT_VERSION)
+    .maybeSingle();
+  if (error) {
+    console.warn('recordEstimateCacheOutcome: lookup failed', error);
+    return;
+  }
+  const { error: writeError } = data
+    ? await supabaseAdmin
+        .from('EstimateCacheMetric')
+        .update(outcome === 'hit' ? { hits: data.hits + 1 } : { misses: data.misses + 1 })
+        .eq('id', data.id)
+    : await supabaseAdmin.from('EstimateCacheMetric').insert({
+        metricDate,
+        promptVersion: PROMPT_VERSION,
+        hits: outcome === 'hit' ? 1 : 0,
+        misses: outcome === 'miss' ? 1 : 0,
+      });
+  if (writeError) {
+    console.warn('recordEstimateCacheOutcome: write failed', writeError);
+  }
+}
+
+function buildRequestKey(params: ProcessMealLogParams) {
+  const hashString = crypto.randomUUID().replace(/-/g, '').slice(0, 12);
+  return `${Date.now()}-${params.userId}-${hashString}`;
+}
+
+async function respondWithCache(c: Context, payload: unknown, status: number = HTTP_STATUS.OK) {
+  const etag = await computeEtag(payload);
+  const ifNoneMatch = c.req.header('if-none-match');
+  c.header('Cache-Control', 'private, max-age=60');
+  c.header('ETag', etag);
+
+  if (ifNoneMatch && ifNoneMatch === etag) {
+    return c.body(null, 304);
+  }
+
+  return c.json(payload, status);
+}
+
+async function computeEtag(value: unknown): Promise<string> {
+  const data = encoder.encode(JSON.stringify(value));
+  const hash = await crypto.subtle.digest('SHA-1', data);
+  const hex = Array.from(new Uint8Array(hash))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+  return `W/"${hex}"`;
+}
+
+function inferMealPeriod(timezone: string | undefined, referenceDate: Date | undefined = undefined): string {
+  const zone = normalizeTimezone(timezone);
   const dt = referenceDate ? DateTime.fromJSDate(referenceDate).setZone(zone) : DateTime.now().setZone(zone);
   const hour = dt.hour;
   if (hour >= 5 && hour < 10) return 'BREAKFAST';
@@ -3665,164 +5460,1889 @@ async function deleteFavoriteMeal(userId: number, favoriteId: number): Promise<v
   }
 }
 
-async function logFavoriteMeal(userId: number, favoriteId: number) {
-  const favorite = await getFavoriteMeal(userId, favoriteId);
-  const baseResponse = favoriteToGeminiResponse(favorite);
+async function logFavoriteMeal(userId: number, favoriteId: number, options: { mealPeriod?: string } = {}) {
+  const favorite = await getFavoriteMeal(userId, favoriteId);
+  const baseResponse = favoriteToGeminiResponse(favorite);
+
+  const aiPayload = {
+    ...baseResponse,
+    locale: DEFAULT_LOCALE,
+    translations: { [DEFAULT_LOCALE]: cloneResponse(baseResponse) },
+  };
+
+  const logId = crypto.randomUUID();
+  const nowIso = new Date().toISOString();
+
+  const { data: createdLog, error: insertLogError } = await supabaseAdmin
+    .from('MealLog')
+    .insert({
+      id: logId,
+      userId,
+      foodItem: baseResponse.dish,
+      calories: baseResponse.totals.kcal,
+      proteinG: baseResponse.totals.protein_g,
+      fatG: baseResponse.totals.fat_g,
+      carbsG: baseResponse.totals.carbs_g,
+      aiRaw: aiPayload,
+      zeroFloored: false,
+      guardrailNotes: null,
+      landingType: baseResponse.landing_type ?? null,
+      mealPeriod: options.mealPeriod ?? null,
+      createdAt: nowIso,
+      updatedAt: nowIso,
+    })
+    .select('id')
+    .single();
+
+  if (insertLogError || !createdLog) {
+    console.error('logFavoriteMeal: insert meal log failed', insertLogError);
+    throw new HttpError('食事記録を作成できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+
+  const resolvedLogId = createdLog?.id ?? logId;
+
+  const { error: historyError } = await supabaseAdmin.from('MealLogPeriodHistory').insert({
+    mealLogId: resolvedLogId,
+    previousMealPeriod: null,
+    nextMealPeriod: options.mealPeriod ?? null,
+    source: 'favorite',
+  });
+  if (historyError) {
+    console.error('logFavoriteMeal: insert period history failed', historyError);
+  }
+
+  await insertMealLogItems(resolvedLogId, baseResponse);
+
+  const localization = resolveMealLogLocalization(aiPayload, DEFAULT_LOCALE);
+  const translations = cloneTranslationsMap(localization.translations);
+  const translation = localization.translation ?? baseResponse;
+  const favoriteDraft = buildFavoriteDraftPayload({
+    translation,
+    totals: translation.totals,
+    items: translation.items,
+    fallbackDish: translation.dish,
+    sourceMealLogId: resolvedLogId,
+  });
+
+  return {
+    ok: true,
+    success: true,
+    idempotent: false,
+    idempotency_key: `favorite-${favoriteId}-${Date.now()}`,
+    logId: resolvedLogId,
+    requestLocale: localization.requestedLocale,
+    locale: localization.resolvedLocale,
+    translations,
+    fallbackApplied: localization.fallbackApplied,
+    dish: translation.dish,
+    confidence: translation.confidence,
+    totals: translation.totals,
+    items: translation.items,
+    breakdown: {
+      items: translation.items,
+      warnings: translation.warnings ?? [],
+    },
+    meta: {
+      favoriteId,
+      localization: buildLocalizationMeta(localization),
+      created_from_favorite: true,
+    } satisfies Record<string, unknown>,
+    usage: undefined,
+    favoriteCandidate: favoriteDraft,
+  } as const;
+}
+
+function mapFavoriteMeal(
+  favorite: {
+    id: number;
+    name: string;
+    notes: string | null;
+    calories: number;
+    proteinG: number;
+    fatG: number;
+    carbsG: number;
+    sourceMealLogId: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+  },
+  items: Array<{
+    id: number;
+    favoriteMealId: number;
+    name: string;
+    grams: number;
+    calories: number | null;
+    proteinG: number | null;
+    fatG: number | null;
+    carbsG: number | null;
+    orderIndex: number;
+  }>,
+): FavoriteMeal {
+  return {
+    id: favorite.id,
+    name: favorite.name,
+    notes: favorite.notes,
+    totals: {
+      kcal: favorite.calories,
+      protein_g: favorite.proteinG,
+      fat_g: favorite.fatG,
+      carbs_g: favorite.carbsG,
+    },
+    source_log_id: favorite.sourceMealLogId,
+    items: items
+      .sort((a, b) => a.orderIndex - b.orderIndex)
+      .map((item) => ({
+        id: item.id,
+        name: item.name,
+        grams: item.grams,
+        calories: item.calories,
+        protein_g: item.proteinG,
+        fat_g: item.fatG,
+        carbs_g: item.carbsG,
+        order_index: item.orderIndex,
+      })),
+    created_at: new Date(favorite.createdAt).toISOString(),
+    updated_at: new Date(favorite.updatedAt).toISOString(),
+  };
+}
+
+function favoriteToGeminiResponse(favorite: FavoriteMeal): GeminiNutritionResponse {
+  return {
+    dish: favorite.name,
+    confidence: 0.95,
+    totals: favorite.totals,
+    items: favorite.items.map((item) => ({
+      name: item.name,
+      grams: item.grams,
+      protein_g: item.protein_g ?? undefined,
+      fat_g: item.fat_g ?? undefined,
+      carbs_g: item.carbs_g ?? undefined,
+    })),
+    warnings: [],
+    landing_type: null,
+    meta: { favoriteId: favorite.id },
+  };
+}
+
+type DbFood = {
+  id: number;
+  source: string;
+  sourceCode: string;
+  kcalPer100g: number;
+  proteinPer100g: number;
+  fatPer100g: number;
+  carbsPer100g: number;
+  servingGrams: number;
+  servingLabel: string | null;
+  names: Array<{ name: string; locale: string; normalized: string; isAlias: boolean }>;
+};
+
+const FOOD_SELECT = 'id, source, sourceCode, kcalPer100g, proteinPer100g, fatPer100g, carbsPer100g, servingGrams, servingLabel, names:FoodName(name, locale, normalized, isAlias)';
+
+async function searchFoodCatalogue(params: { query: string; locale: Locale; limit: number }): Promise<FoodSearchCandidate[]> {
+  const normalized = normalizeFoodText(params.query);
+
+  if (!normalized) {
+    const { data, error } = await supabaseAdmin.from('Food').select(FOOD_SELECT).order('id').limit(params.limit);
+    if (error) {
+      console.error('searchFoodCatalogue: failed to list foods', error);
+      throw new HttpError('食品を検索できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+    }
+    return ((data ?? []) as DbFood[]).map((food) => mapFoodCandidate(food, params.locale));
+  }
+
+  // Bigram matches are unordered, so on a large catalogue a common bigram could fill the pool before
+  // the closest names; exact and prefix matches on the whole key claim their places first.
+  const fragments = buildFoodSearchFragments(normalized);
+  const tiers = [
+    `normalized.eq.${normalized}`,
+    `normalized.like.${normalized}*`,
+    fragments.map((fragment) => `normalized.like.*${fragment}*`).join(','),
+  ];
+  const foodIds: number[] = [];
+  for (const filter of tiers) {
+    if (foodIds.length >= FOOD_SEARCH_POOL_SIZE) {
+      break;
+    }
+    let query = supabaseAdmin.from('FoodName').select('foodId').or(filter);
+    if (foodIds.length > 0) {
+      query = query.not('foodId', 'in', `(${foodIds.join(',')})`);
+    }
+    const { data: pool, error: poolError } = await query.limit(FOOD_SEARCH_POOL_SIZE - foodIds.length);
+    if (poolError) {
+      console.error('searchFoodCatalogue: failed to fetch candidates', poolError);
+      throw new HttpError('食品を検索できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+    }
+    for (const row of pool ?? []) {
+      if (!foodIds.includes(row.foodId as number)) {
+        foodIds.push(row.foodId as number);
+      }
+    }
+  }
+  if (foodIds.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabaseAdmin.from('Food').select(FOOD_SELECT).in('id', foodIds);
+  if (error) {
+    console.error('searchFoodCatalogue: failed to fetch foods', error);
+    throw new HttpError('食品を検索できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+
+  return rankFoodMatches(params.query, (data ?? []) as DbFood[], { locale: params.locale, limit: params.limit }).map(
+    (match) => mapFoodCandidate(match.food, params.locale, match),
+  );
+}
+
+function mapFoodCandidate(
+  food: DbFood,
+  locale: Locale,
+  match?: { score: number; matchedName: { name: string; isAlias?: boolean } },
+): FoodSearchCandidate {
+  const display = pickFoodDisplayName(food.names, locale);
+  const per100g = {
+    kcal: food.kcalPer100g,
+    protein_g: food.proteinPer100g,
+    fat_g: food.fatPer100g,
+    carbs_g: food.carbsPer100g,
+  };
+  const perServing = scaleFoodNutrients(per100g, food.servingGrams);
+  return {
+    id: food.id,
+    name: display?.name ?? food.sourceCode,
+    locale: display?.locale ?? locale,
+    matched_name: match?.matchedName.isAlias ? match.matchedName.name : null,
+    calories: perServing.kcal,
+    protein_g: perServing.protein_g,
+    fat_g: perServing.fat_g,
+    carbs_g: perServing.carbs_g,
+    serving: { label: food.servingLabel, grams: food.servingGrams },
+    per_100g: per100g,
+    source: food.source,
+    ...(match ? { score: Number(match.score.toFixed(3)) } : {}),
+  };
+}
+
+async function getFoodById(foodId: number) {
+  const { data, error } = await supabaseAdmin.from('Food').select(FOOD_SELECT).eq('id', foodId).maybeSingle();
+  if (error) {
+    console.error('getFoodById: fetch failed', error);
+    throw new HttpError('食品を取得できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  if (!data) {
+    throw new HttpError('食品が見つかりませんでした', { status: HTTP_STATUS.NOT_FOUND, expose: true });
+  }
+  return data as DbFood;
+}
+
+async function logCatalogueFood(params: {
+  userId: number;
+  foodId: number;
+  request: ManualMealLogRequest;
+  locale: Locale;
+  timezone: string;
+  idempotencyKey?: string;
+}) {
+  const food = await getFoodById(params.foodId);
+  const portion = resolveFoodPortion(
+    {
+      per100g: {
+        kcal: food.kcalPer100g,
+        protein_g: food.proteinPer100g,
+        fat_g: food.fatPer100g,
+        carbs_g: food.carbsPer100g,
+      },
+      servingGrams: food.servingGrams,
+    },
+    params.request,
+  );
+
+  const primaryLocales = Array.from(new Set(food.names.filter((entry) => !entry.isAlias).map((entry) => entry.locale)));
+  const names = (primaryLocales.length ? primaryLocales : [DEFAULT_LOCALE]).map((locale) => ({
+    locale,
+    name: pickFoodDisplayName(food.names, locale)?.name ?? food.sourceCode,
+  }));
+
+  return createManualMealLog({
+    userId: params.userId,
+    names,
+    portion,
+    request: params.request,
+    locale: params.locale,
+    timezone: params.timezone,
+    sourceMeta: { foodId: food.id },
+    idempotencyPrefix: `food-${food.id}`,
+    idempotencyKey: params.idempotencyKey,
+  });
+}
+
+type DbFoodProduct = {
+  barcode: string;
+  name: string;
+  brand: string | null;
+  locale: string;
+  kcalPer100g: number;
+  proteinPer100g: number;
+  fatPer100g: number;
+  carbsPer100g: number;
+  servingGrams: number;
+  servingLabel: string | null;
+  source: string;
+  confirmed: boolean;
+};
+
+const FOOD_PRODUCT_SELECT =
+  'barcode, name, brand, locale, kcalPer100g, proteinPer100g, fatPer100g, carbsPer100g, servingGrams, servingLabel, source, confirmed';
+const FOOD_PRODUCT_OVERRIDE_SELECT =
+  'barcode, name, brand, locale, kcalPer100g, proteinPer100g, fatPer100g, carbsPer100g, servingGrams, servingLabel';
+const DEFAULT_LABEL_SERVING_GRAMS = 100;
+
+function parseBarcodeOrThrow(code: string) {
+  const barcode = normalizeBarcode(code);
+  if (!barcode) {
+    throw new HttpError('バーコードの形式が正しくありません', { status: HTTP_STATUS.BAD_REQUEST, expose: true });
+  }
+  return barcode;
+}
+
+async function findFoodProduct(barcode: string) {
+  const { data, error } = await supabaseAdmin.from('FoodProduct').select(FOOD_PRODUCT_SELECT).eq('barcode', barcode).maybeSingle();
+  if (error) {
+    console.error('findFoodProduct: fetch failed', error);
+    throw new HttpError('商品情報を取得できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  return (data as DbFoodProduct | null) ?? null;
+}
+
+// The user's own correction of a product wins over the shared row.
+async function findFoodProductForUser(userId: number, barcode: string) {
+  const { data, error } = await supabaseAdmin
+    .from('FoodProductOverride')
+    .select(FOOD_PRODUCT_OVERRIDE_SELECT)
+    .eq('userId', userId)
+    .eq('barcode', barcode)
+    .maybeSingle();
+  if (error) {
+    console.error('findFoodProductForUser: fetch override failed', error);
+    throw new HttpError('商品情報を取得できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  if (data) {
+    return { ...(data as Omit<DbFoodProduct, 'source' | 'confirmed'>), source: 'user', confirmed: true };
+  }
+  return findFoodProduct(barcode);
+}
+
+function mapFoodProduct(record: DbFoodProduct): FoodProduct {
+  return {
+    barcode: record.barcode,
+    name: record.name,
+    brand: record.brand,
+    locale: record.locale,
+    serving: { label: record.servingLabel, grams: record.servingGrams },
+    per_100g: {
+      kcal: record.kcalPer100g,
+      protein_g: record.proteinPer100g,
+      fat_g: record.fatPer100g,
+      carbs_g: record.carbsPer100g,
+    },
+    source: record.source as FoodProduct['source'],
+    confirmed: record.confirmed,
+  };
+}
+
+async function lookupFoodProduct(userId: number, code: string): Promise<FoodProductLookupResponse> {
+  const barcode = parseBarcodeOrThrow(code);
+  const record = await findFoodProductForUser(userId, barcode);
+  return { ok: true, barcode, found: Boolean(record), product: record ? mapFoodProduct(record) : null };
+}
+
+// Label reads are drafts only; they are saved once the user confirms them via logFoodProduct.
+async function analyzeFoodLabel(params: { userId: number; code: string; file: File; locale: Locale }): Promise<FoodProductLabelResponse> {
+  const barcode = parseBarcodeOrThrow(params.code);
+
+  const usageStatus = await evaluateAiUsage(params.userId);
+  if (!usageStatus.allowed) {
+    throw buildUsageLimitError(usageStatus);
+  }
+
+  const analysis = await analyzeMeal({
+    message: [
+      `Packaged food, barcode ${barcode}. The photo shows its nutrition facts label.`,
+      'Report the printed values for ONE serving: totals are per serving,',
+      'and items[0] is the product name with grams set to the serving size in grams.',
+    ].join(' '),
+    images: [{ base64: await fileToBase64(params.file), mimeType: params.file.type }],
+    locale: params.locale,
+  });
+
+  const usage = await recordAiUsage({
+    userId: params.userId,
+    usageDate: usageStatus.usageDate,
+    consumeCredit: usageStatus.consumeCredit,
+  });
+
+  const response = analysis.response;
+  const servingGrams = response.items[0]?.grams || DEFAULT_LABEL_SERVING_GRAMS;
+
+  return {
+    ok: true,
+    barcode,
+    product: {
+      barcode,
+      name: response.items[0]?.name || response.dish,
+      brand: null,
+      locale: params.locale,
+      serving: { label: null, grams: servingGrams },
+      per_100g: perServingToPer100g(response.totals, servingGrams),
+      source: 'ai_label',
+      confirmed: false,
+    },
+    usage,
+  };
+}
+
+/**
+ * The first confirmed draft of a barcode becomes the shared row. Once it exists, a client payload
+ * never rewrites it: later drafts are kept as that user's override instead.
+ */
+async function saveConfirmedProduct(
+  barcode: string,
+  draft: FoodProductDraft,
+  userId: number,
+  locale: Locale,
+): Promise<DbFoodProduct> {
+  const fields = {
+    barcode,
+    name: draft.name,
+    brand: draft.brand ?? null,
+    locale,
+    kcalPer100g: draft.per_100g.kcal,
+    proteinPer100g: draft.per_100g.protein_g,
+    fatPer100g: draft.per_100g.fat_g,
+    carbsPer100g: draft.per_100g.carbs_g,
+    servingGrams: draft.serving.grams,
+    servingLabel: draft.serving.label,
+  };
+
+  if (!(await findFoodProduct(barcode))) {
+    const { data, error } = await supabaseAdmin
+      .from('FoodProduct')
+      .insert({ ...fields, source: 'user', confirmed: true, contributedById: userId })
+      .select(FOOD_PRODUCT_SELECT)
+      .single();
+    if (data) {
+      return data as DbFoodProduct;
+    }
+    // 23505: another user saved the barcode first; theirs stays the shared row.
+    if (error?.code !== '23505') {
+      console.error('saveConfirmedProduct: insert failed', error);
+      throw new HttpError('商品情報を保存できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+    }
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('FoodProductOverride')
+    .upsert({ ...fields, userId, updatedAt: new Date().toISOString() }, { onConflict: 'userId,barcode' })
+    .select(FOOD_PRODUCT_OVERRIDE_SELECT)
+    .single();
+  if (error || !data) {
+    console.error('saveConfirmedProduct: upsert override failed', error);
+    throw new HttpError('商品情報を保存できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  return { ...(data as Omit<DbFoodProduct, 'source' | 'confirmed'>), source: 'user', confirmed: true };
+}
+
+// A request carrying `product` saves the user-confirmed data first so the next scan resolves instantly.
+async function logFoodProduct(params: {
+  userId: number;
+  code: string;
+  request: BarcodeMealLogRequest;
+  locale: Locale;
+  timezone: string;
+  idempotencyKey?: string;
+}) {
+  const barcode = parseBarcodeOrThrow(params.code);
+  const record = params.request.product
+    ? await saveConfirmedProduct(barcode, params.request.product, params.userId, params.locale)
+    : await findFoodProductForUser(params.userId, barcode);
+  if (!record) {
+    throw new HttpError('商品が登録されていません', { status: HTTP_STATUS.NOT_FOUND, expose: true });
+  }
+
+  const portion = resolveFoodPortion(
+    {
+      per100g: {
+        kcal: record.kcalPer100g,
+        protein_g: record.proteinPer100g,
+        fat_g: record.fatPer100g,
+        carbs_g: record.carbsPer100g,
+      },
+      servingGrams: record.servingGrams,
+    },
+    params.request,
+  );
+
+  return createManualMealLog({
+    userId: params.userId,
+    names: [{ locale: record.locale, name: record.name }],
+    portion,
+    request: params.request,
+    locale: params.locale,
+    timezone: params.timezone,
+    sourceMeta: { barcode },
+    idempotencyPrefix: `barcode-${barcode}`,
+    idempotencyKey: params.idempotencyKey,
+  });
+}
+
+/**
+ * Claims `requestKey` for a manual log the way /log does. Returns the stored result when the key
+ * already produced a log, and 409 while another request with the same key is still writing it.
+ */
+async function claimManualLogRequest(userId: number, requestKey: string, locale: Locale) {
+  const nowIso = new Date().toISOString();
+  const { error: insertError } = await supabaseAdmin
+    .from('IngestRequest')
+    .insert({ userId, requestKey, status: 'processing', attempts: 1, startedAt: nowIso });
+  if (!insertError) {
+    return null;
+  }
+  if (insertError.code !== '23505') {
+    console.error('createManualMealLog: insert ingest failed', insertError);
+    throw new HttpError('食事記録を作成できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+
+  const { data: existing, error: fetchError } = await supabaseAdmin
+    .from('IngestRequest')
+    .select('logId')
+    .eq('userId', userId)
+    .eq('requestKey', requestKey)
+    .maybeSingle();
+  if (fetchError) {
+    console.error('createManualMealLog: fetch ingest failed', fetchError);
+    throw new HttpError('食事記録を作成できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  if (existing?.logId) {
+    return await buildIdempotentMealLogResult({ userId, logId: existing.logId, requestKey, requestedLocale: locale });
+  }
+  throw new HttpError('記録中です。しばらくお待ちください。', {
+    status: HTTP_STATUS.CONFLICT,
+    code: 'INGEST_IN_PROGRESS',
+    expose: true,
+    data: { requestKey },
+  });
+}
+
+// Manual logs carry deterministic totals, so AI usage is neither checked nor recorded.
+async function createManualMealLog(params: {
+  userId: number;
+  names: Array<{ locale: string; name: string }>;
+  portion: { grams: number; totals: GeminiNutritionResponse['totals'] };
+  items?: GeminiNutritionResponse['items'];
+  request: Pick<ManualMealLogRequest, 'meal_period'>;
+  locale: Locale;
+  timezone: string;
+  sourceMeta: Pick<NonNullable<GeminiNutritionResponse['meta']>, 'foodId' | 'barcode' | 'recipeId'>;
+  idempotencyPrefix: string;
+  idempotencyKey?: string;
+}) {
+  const requestKey = params.idempotencyKey ?? `${params.idempotencyPrefix}-${crypto.randomUUID()}`;
+  const replayed = await claimManualLogRequest(params.userId, requestKey, params.locale);
+  if (replayed) {
+    return replayed;
+  }
+
+  const { portion } = params;
+  const translationEntries = params.names.map(({ locale, name }) => {
+    const response: GeminiNutritionResponse = {
+      dish: name,
+      confidence: 1,
+      totals: { ...portion.totals },
+      items: params.items?.map((item) => ({ ...item })) ?? [
+        {
+          name,
+          grams: portion.grams,
+          protein_g: portion.totals.protein_g,
+          fat_g: portion.totals.fat_g,
+          carbs_g: portion.totals.carbs_g,
+        },
+      ],
+      warnings: [],
+      landing_type: MANUAL_LOG_LANDING_TYPE,
+      meta: { ...params.sourceMeta },
+    };
+    return [locale, response] as const;
+  });
+  const translationMap = Object.fromEntries(translationEntries) as Record<Locale, GeminiNutritionResponse>;
+  const baseLocale = translationMap[DEFAULT_LOCALE] ? DEFAULT_LOCALE : (Object.keys(translationMap)[0] as Locale);
+  const baseResponse = translationMap[baseLocale]!;
+
+  const aiPayload = {
+    ...baseResponse,
+    locale: baseLocale,
+    translations: translationMap,
+  };
+
+  const mealPeriod = params.request.meal_period
+    ? params.request.meal_period.toUpperCase()
+    : inferMealPeriod(params.timezone);
+  const logId = crypto.randomUUID();
+  const nowIso = new Date().toISOString();
+
+  const { data: createdLog, error: insertLogError } = await supabaseAdmin
+    .from('MealLog')
+    .insert({
+      id: logId,
+      userId: params.userId,
+      foodItem: baseResponse.dish,
+      calories: portion.totals.kcal,
+      proteinG: portion.totals.protein_g,
+      fatG: portion.totals.fat_g,
+      carbsG: portion.totals.carbs_g,
+      aiRaw: aiPayload,
+      zeroFloored: false,
+      guardrailNotes: null,
+      landingType: MANUAL_LOG_LANDING_TYPE,
+      mealPeriod,
+      createdAt: nowIso,
+      updatedAt: nowIso,
+    })
+    .select('id')
+    .single();
+
+  if (insertLogError || !createdLog) {
+    console.error('createManualMealLog: insert meal log failed', insertLogError);
+    // Release the key so the client can retry it.
+    await supabaseAdmin.from('IngestRequest').delete().eq('userId', params.userId).eq('requestKey', requestKey);
+    throw new HttpError('食事記録を作成できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+
+  const resolvedLogId = createdLog?.id ?? logId;
+
+  const { error: ingestUpdateError } = await supabaseAdmin
+    .from('IngestRequest')
+    .update({ logId: resolvedLogId, status: 'done', finishedAt: new Date().toISOString() })
+    .eq('userId', params.userId)
+    .eq('requestKey', requestKey);
+  if (ingestUpdateError) {
+    console.error('createManualMealLog: update ingest failed', ingestUpdateError);
+  }
+
+  const { error: historyError } = await supabaseAdmin.from('MealLogPeriodHistory').insert({
+    mealLogId: resolvedLogId,
+    previousMealPeriod: null,
+    nextMealPeriod: mealPeriod,
+    source: params.request.meal_period ? 'manual' : 'auto',
+  });
+  if (historyError) {
+    console.error('createManualMealLog: insert period history failed', historyError);
+  }
+
+  await insertMealLogItems(resolvedLogId, baseResponse);
+
+  const localization = resolveMealLogLocalization(aiPayload, params.locale);
+  const translations = cloneTranslationsMap(localization.translations);
+  const translation = localization.translation ?? baseResponse;
+  const favoriteDraft = buildFavoriteDraftPayload({
+    translation,
+    totals: translation.totals,
+    items: translation.items,
+    fallbackDish: translation.dish,
+    sourceMealLogId: resolvedLogId,
+  });
+
+  return {
+    ok: true,
+    success: true,
+    idempotent: false,
+    idempotency_key: requestKey,
+    logId: resolvedLogId,
+    requestLocale: localization.requestedLocale,
+    locale: localization.resolvedLocale,
+    translations,
+    fallbackApplied: localization.fallbackApplied,
+    dish: translation.dish,
+    confidence: translation.confidence,
+    totals: translation.totals,
+    items: translation.items,
+    breakdown: {
+      items: translation.items,
+      warnings: translation.warnings ?? [],
+    },
+    meta: {
+      ...params.sourceMeta,
+      grams: portion.grams,
+      mealPeriod,
+      localization: buildLocalizationMeta(localization),
+      created_manually: true,
+    } satisfies Record<string, unknown>,
+    usage: undefined,
+    favoriteCandidate: favoriteDraft,
+  } as const;
+}
+
+type DbRecipe = {
+  id: number;
+  name: string;
+  notes: string | null;
+  servings: number;
+  yieldGrams: number | null;
+  calories: number;
+  proteinG: number;
+  fatG: number;
+  carbsG: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+type DbRecipeIngredient = {
+  id: number;
+  recipeId: number;
+  foodId: number | null;
+  name: string;
+  grams: number;
+  calories: number;
+  proteinG: number;
+  fatG: number;
+  carbsG: number;
+  source: string;
+  orderIndex: number;
+};
+
+type ResolvedRecipeIngredient = {
+  name: string;
+  grams: number;
+  foodId: number | null;
+  source: RecipeIngredientSource;
+  totals: GeminiNutritionResponse['totals'];
+};
+
+const RECIPE_SELECT = 'id, name, notes, servings, yieldGrams, calories, proteinG, fatG, carbsG, createdAt, updatedAt';
+const RECIPE_INGREDIENT_SELECT = 'id, recipeId, foodId, name, grams, calories, proteinG, fatG, carbsG, source, orderIndex';
+
+function toRecipeNutritionBasis(recipe: DbRecipe, ingredients: DbRecipeIngredient[]) {
+  return {
+    totals: {
+      kcal: recipe.calories,
+      protein_g: recipe.proteinG,
+      fat_g: recipe.fatG,
+      carbs_g: recipe.carbsG,
+    },
+    servings: recipe.servings,
+    yieldGrams: recipe.yieldGrams,
+    ingredientGrams: ingredients.reduce((acc, ingredient) => acc + ingredient.grams, 0),
+  };
+}
+
+function mapRecipe(recipe: DbRecipe, ingredients: DbRecipeIngredient[]): Recipe {
+  const basis = toRecipeNutritionBasis(recipe, ingredients);
+  const perServing = computeRecipePortion(basis);
+  return RecipeSchema.parse({
+    id: recipe.id,
+    name: recipe.name,
+    notes: recipe.notes ?? null,
+    servings: recipe.servings,
+    yield_grams: recipe.yieldGrams ?? null,
+    totals: basis.totals,
+    per_serving: perServing.totals,
+    serving_grams: perServing.grams,
+    ingredients: ingredients.map((ingredient) => ({
+      id: ingredient.id,
+      name: ingredient.name,
+      grams: ingredient.grams,
+      food_id: ingredient.foodId ?? null,
+      source: ingredient.source,
+      totals: {
+        kcal: ingredient.calories,
+        protein_g: ingredient.proteinG,
+        fat_g: ingredient.fatG,
+        carbs_g: ingredient.carbsG,
+      },
+      order_index: ingredient.orderIndex,
+    })),
+    created_at: new Date(recipe.createdAt).toISOString(),
+    updated_at: new Date(recipe.updatedAt).toISOString(),
+  });
+}
+
+async function fetchRecipeIngredients(recipeIds: number[]) {
+  const { data, error } = await supabaseAdmin
+    .from('RecipeIngredient')
+    .select(RECIPE_INGREDIENT_SELECT)
+    .in('recipeId', recipeIds)
+    .order('orderIndex', { ascending: true });
+  if (error) {
+    console.error('fetchRecipeIngredients: fetch failed', error);
+    throw new HttpError('レシピを取得できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  const byRecipe = new Map<number, DbRecipeIngredient[]>();
+  for (const row of (data ?? []) as DbRecipeIngredient[]) {
+    const list = byRecipe.get(row.recipeId) ?? [];
+    list.push(row);
+    byRecipe.set(row.recipeId, list);
+  }
+  return byRecipe;
+}
+
+async function listRecipes(userId: number): Promise<Recipe[]> {
+  const { data, error } = await supabaseAdmin
+    .from('Recipe')
+    .select(RECIPE_SELECT)
+    .eq('userId', userId)
+    .order('updatedAt', { ascending: false });
+  if (error) {
+    console.error('listRecipes: fetch failed', error);
+    throw new HttpError('レシピ一覧を取得できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  const recipes = (data ?? []) as DbRecipe[];
+  if (!recipes.length) return [];
+  const ingredients = await fetchRecipeIngredients(recipes.map((recipe) => recipe.id));
+  return recipes.map((recipe) => mapRecipe(recipe, ingredients.get(recipe.id) ?? []));
+}
+
+async function findRecipe(userId: number, recipeId: number) {
+  const { data, error } = await supabaseAdmin
+    .from('Recipe')
+    .select(RECIPE_SELECT)
+    .eq('id', recipeId)
+    .eq('userId', userId)
+    .maybeSingle();
+  if (error) {
+    console.error('findRecipe: fetch failed', error);
+    throw new HttpError('レシピを取得できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  if (!data) {
+    throw new HttpError('レシピが見つかりませんでした', { status: HTTP_STATUS.NOT_FOUND, expose: true });
+  }
+  const ingredients = await fetchRecipeIngredients([recipeId]);
+  return { recipe: data as DbRecipe, ingredients: ingredients.get(recipeId) ?? [] };
+}
+
+async function getRecipe(userId: number, recipeId: number) {
+  const { recipe, ingredients } = await findRecipe(userId, recipeId);
+  return mapRecipe(recipe, ingredients);
+}
+
+// Catalogue lines come from per-100g values and typed totals are kept; the rest share one AI call.
+async function resolveRecipeIngredients(userId: number, inputs: RecipeIngredientInput[], locale: Locale) {
+  const foodIds = Array.from(new Set(inputs.map((input) => input.food_id).filter((id): id is number => !!id)));
+  const foodsById = new Map<number, DbFood>();
+  if (foodIds.length) {
+    const { data, error } = await supabaseAdmin.from('Food').select(FOOD_SELECT).in('id', foodIds);
+    if (error) {
+      console.error('resolveRecipeIngredients: fetch foods failed', error);
+      throw new HttpError('食品を取得できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+    }
+    for (const food of (data ?? []) as DbFood[]) {
+      foodsById.set(food.id, food);
+    }
+  }
+
+  const resolved = inputs.map<ResolvedRecipeIngredient | null>((input) => {
+    if (input.food_id) {
+      const food = foodsById.get(input.food_id);
+      if (!food) {
+        throw new HttpError('食品が見つかりませんでした', { status: HTTP_STATUS.NOT_FOUND, expose: true });
+      }
+      const per100g = {
+        kcal: food.kcalPer100g,
+        protein_g: food.proteinPer100g,
+        fat_g: food.fatPer100g,
+        carbs_g: food.carbsPer100g,
+      };
+      return {
+        name: input.name,
+        grams: input.grams,
+        foodId: food.id,
+        source: 'catalogue',
+        totals: scaleFoodNutrients(per100g, input.grams),
+      };
+    }
+    if (input.totals) {
+      return { name: input.name, grams: input.grams, foodId: null, source: 'manual', totals: input.totals };
+    }
+    return null;
+  });
+
+  const pending = inputs.map((input, index) => ({ input, index })).filter(({ index }) => resolved[index] === null);
+  if (pending.length === 0) {
+    return { ingredients: resolved as ResolvedRecipeIngredient[], usage: undefined };
+  }
+
+  const usageStatus = await evaluateAiUsage(userId);
+  if (!usageStatus.allowed) {
+    throw buildUsageLimitError(usageStatus);
+  }
+  const lines = pending.map(({ input }) => input);
+  const analysis = await analyzeMeal({
+    message: [
+      'Raw ingredients of a home-cooked recipe, one per line with their weight.',
+      'Report the totals for all of them together and one item per line, in the same order.',
+      ...lines.map((line) => `- ${line.name} ${line.grams}g`),
+    ].join('\n'),
+    locale,
+  });
+  const usage = await recordAiUsage({
+    userId,
+    usageDate: usageStatus.usageDate,
+    consumeCredit: usageStatus.consumeCredit,
+  });
+
+  const response = analysis.response;
+  const items =
+    response.items.length === lines.length
+      ? response.items.map((item, index) => ({ ...item, grams: lines[index]!.grams }))
+      : lines.map((line) => ({ name: line.name, grams: line.grams }));
+  const drafts = allocateMealLogItems(response.totals, items);
+  pending.forEach(({ input, index }, position) => {
+    const draft = drafts[position]!;
+    resolved[index] = {
+      name: input.name,
+      grams: input.grams,
+      foodId: null,
+      source: 'ai',
+      totals: { kcal: draft.calories, protein_g: draft.protein_g, fat_g: draft.fat_g, carbs_g: draft.carbs_g },
+    };
+  });
+
+  return { ingredients: resolved as ResolvedRecipeIngredient[], usage };
+}
+
+async function insertRecipeIngredients(recipeId: number, ingredients: ResolvedRecipeIngredient[]) {
+  const { error } = await supabaseAdmin.from('RecipeIngredient').insert(
+    ingredients.map((ingredient, index) => ({
+      recipeId,
+      foodId: ingredient.foodId,
+      name: ingredient.name,
+      grams: ingredient.grams,
+      calories: ingredient.totals.kcal,
+      proteinG: ingredient.totals.protein_g,
+      fatG: ingredient.totals.fat_g,
+      carbsG: ingredient.totals.carbs_g,
+      source: ingredient.source,
+      orderIndex: index,
+    })),
+  );
+  if (error) {
+    console.error('insertRecipeIngredients: insert failed', error);
+    throw new HttpError('レシピを保存できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+}
+
+async function createRecipe(userId: number, payload: unknown, locale: Locale) {
+  const parsed = RecipeCreateRequestSchema.parse(payload);
+  const { ingredients, usage } = await resolveRecipeIngredients(userId, parsed.ingredients, locale);
+  const totals = sumRecipeTotals(ingredients);
+
+  const { data, error } = await supabaseAdmin
+    .from('Recipe')
+    .insert({
+      userId,
+      name: parsed.name,
+      notes: parsed.notes ?? null,
+      servings: parsed.servings,
+      yieldGrams: parsed.yield_grams ?? null,
+      calories: totals.kcal,
+      proteinG: totals.protein_g,
+      fatG: totals.fat_g,
+      carbsG: totals.carbs_g,
+    })
+    .select('id')
+    .single();
+  if (error || !data) {
+    console.error('createRecipe: insert failed', error);
+    throw new HttpError('レシピを保存できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+
+  await insertRecipeIngredients(data.id, ingredients);
+  return { recipe: await getRecipe(userId, data.id), usage };
+}
+
+// Ingredient lines are replaced only when `ingredients` is sent; totals follow them.
+async function updateRecipe(userId: number, recipeId: number, payload: unknown, locale: Locale) {
+  const parsed = RecipeUpdateRequestSchema.parse(payload);
+  const { recipe: existing } = await findRecipe(userId, recipeId);
+  const resolved = parsed.ingredients ? await resolveRecipeIngredients(userId, parsed.ingredients, locale) : null;
+  const totals = resolved ? sumRecipeTotals(resolved.ingredients) : null;
+
+  const { error } = await supabaseAdmin
+    .from('Recipe')
+    .update({
+      name: parsed.name ?? existing.name,
+      notes: parsed.notes !== undefined ? parsed.notes : existing.notes,
+      servings: parsed.servings ?? existing.servings,
+      yieldGrams: parsed.yield_grams !== undefined ? parsed.yield_grams : existing.yieldGrams,
+      ...(totals
+        ? { calories: totals.kcal, proteinG: totals.protein_g, fatG: totals.fat_g, carbsG: totals.carbs_g }
+        : {}),
+      updatedAt: new Date().toISOString(),
+    })
+    .eq('id', recipeId)
+    .eq('userId', userId);
+  if (error) {
+    console.error('updateRecipe: update failed', error);
+    throw new HttpError('レシピを更新できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+
+  if (resolved) {
+    const { error: deleteError } = await supabaseAdmin.from('RecipeIngredient').delete().eq('recipeId', recipeId);
+    if (deleteError) {
+      console.error('updateRecipe: delete ingredients failed', deleteError);
+      throw new HttpError('レシピを更新できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+    }
+    await insertRecipeIngredients(recipeId, resolved.ingredients);
+  }
+
+  return { recipe: await getRecipe(userId, recipeId), usage: resolved?.usage };
+}
+
+async function deleteRecipe(userId: number, recipeId: number) {
+  const { data, error } = await supabaseAdmin
+    .from('Recipe')
+    .delete()
+    .eq('id', recipeId)
+    .eq('userId', userId)
+    .select('id')
+    .maybeSingle();
+  if (error) {
+    console.error('deleteRecipe: delete failed', error);
+    throw new HttpError('レシピを削除できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  if (!data) {
+    throw new HttpError('レシピが見つかりませんでした', { status: HTTP_STATUS.NOT_FOUND, expose: true });
+  }
+}
+
+async function logRecipe(params: {
+  userId: number;
+  recipeId: number;
+  request: RecipeLogRequest & { servings: number };
+  locale: Locale;
+  timezone: string;
+  idempotencyKey?: string;
+}) {
+  const { recipe, ingredients } = await findRecipe(params.userId, params.recipeId);
+  const portion = computeRecipePortion(toRecipeNutritionBasis(recipe, ingredients), params.request.servings);
+  const scale = (value: number) => Math.round(value * portion.factor * 10) / 10;
+
+  return createManualMealLog({
+    userId: params.userId,
+    names: [{ locale: params.locale, name: recipe.name }],
+    portion: { grams: portion.grams, totals: portion.totals },
+    items: ingredients.map((ingredient) => ({
+      name: ingredient.name,
+      grams: scale(ingredient.grams),
+      protein_g: scale(ingredient.proteinG),
+      fat_g: scale(ingredient.fatG),
+      carbs_g: scale(ingredient.carbsG),
+    })),
+    request: { meal_period: params.request.meal_period },
+    locale: params.locale,
+    timezone: params.timezone,
+    sourceMeta: { recipeId: recipe.id },
+    idempotencyPrefix: `recipe-${recipe.id}`,
+    idempotencyKey: params.idempotencyKey,
+  });
+}
+
+type DbPlannedMeal = {
+  id: number;
+  date: string;
+  mealPeriod: string;
+  source: string;
+  favoriteMealId: number | null;
+  recipeId: number | null;
+  name: string;
+  servings: number;
+  calories: number;
+  proteinG: number;
+  fatG: number;
+  carbsG: number;
+  status: string;
+  mealLogId: string | null;
+  eatenAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+const PLANNED_MEAL_SELECT =
+  'id, date, mealPeriod, source, favoriteMealId, recipeId, name, servings, calories, proteinG, fatG, carbsG, status, mealLogId, eatenAt, createdAt, updatedAt';
+
+function mapPlannedMeal(row: DbPlannedMeal): PlannedMeal {
+  return PlannedMealSchema.parse({
+    id: row.id,
+    date: row.date.slice(0, 10),
+    meal_period: row.mealPeriod.toLowerCase(),
+    source: row.source,
+    favorite_id: row.favoriteMealId ?? null,
+    recipe_id: row.recipeId ?? null,
+    name: row.name,
+    servings: row.servings,
+    totals: {
+      kcal: row.calories,
+      protein_g: row.proteinG,
+      fat_g: row.fatG,
+      carbs_g: row.carbsG,
+    },
+    status: row.status === 'EATEN' ? 'eaten' : 'planned',
+    meal_log_id: row.mealLogId ?? null,
+    eaten_at: row.eatenAt ? new Date(row.eatenAt).toISOString() : null,
+    created_at: new Date(row.createdAt).toISOString(),
+    updated_at: new Date(row.updatedAt).toISOString(),
+  });
+}
+
+function resolvePlannerRange(query: { from?: string; to?: string; timezone: string }) {
+  const from = query.from
+    ? DateTime.fromISO(query.from, { zone: query.timezone })
+    : DateTime.now().setZone(query.timezone).startOf('day');
+  const to = query.to ? DateTime.fromISO(query.to, { zone: query.timezone }) : from.plus({ days: 6 });
+  if (!from.isValid || !to.isValid) {
+    throw new HttpError('日付の形式が正しくありません', { status: HTTP_STATUS.BAD_REQUEST, expose: true });
+  }
+  if (to < from) {
+    throw new HttpError('終了日は開始日以降の日付を指定してください', { status: HTTP_STATUS.BAD_REQUEST, expose: true });
+  }
+  if (to.diff(from, 'days').days >= PLANNER_MAX_RANGE_DAYS) {
+    throw new HttpError(`期間は${PLANNER_MAX_RANGE_DAYS}日以内で指定してください`, {
+      status: HTTP_STATUS.BAD_REQUEST,
+      expose: true,
+    });
+  }
+  return { from: from.toISODate()!, to: to.toISODate()! };
+}
+
+async function listPlannedMeals(userId: number, query: { from?: string; to?: string; timezone: string }) {
+  const range = resolvePlannerRange(query);
+  const { data, error } = await supabaseAdmin
+    .from('PlannedMeal')
+    .select(PLANNED_MEAL_SELECT)
+    .eq('userId', userId)
+    .gte('date', range.from)
+    .lte('date', range.to)
+    .order('date', { ascending: true })
+    .order('mealPeriod', { ascending: true })
+    .order('createdAt', { ascending: true });
+  if (error) {
+    console.error('listPlannedMeals: fetch failed', error);
+    throw new HttpError('予定を取得できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  return { ...range, items: ((data ?? []) as DbPlannedMeal[]).map(mapPlannedMeal) };
+}
+
+async function findPlannedMeal(userId: number, plannedMealId: number) {
+  const { data, error } = await supabaseAdmin
+    .from('PlannedMeal')
+    .select(PLANNED_MEAL_SELECT)
+    .eq('id', plannedMealId)
+    .eq('userId', userId)
+    .maybeSingle();
+  if (error) {
+    console.error('findPlannedMeal: fetch failed', error);
+    throw new HttpError('予定を取得できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  if (!data) {
+    throw new HttpError('予定が見つかりませんでした', { status: HTTP_STATUS.NOT_FOUND, expose: true });
+  }
+  return data as DbPlannedMeal;
+}
+
+async function createPlannedMeal(userId: number, payload: unknown) {
+  const parsed = PlannedMealCreateRequestSchema.parse(payload);
+  let snapshot: { source: PlannedMealSource; name: string; servings: number; totals: GeminiNutritionResponse['totals'] };
+  if (parsed.favorite_id) {
+    const favorite = await getFavoriteMeal(userId, parsed.favorite_id);
+    snapshot = { source: 'favorite', name: favorite.name, servings: 1, totals: favorite.totals };
+  } else if (parsed.recipe_id) {
+    const servings = parsed.servings ?? 1;
+    const { recipe, ingredients } = await findRecipe(userId, parsed.recipe_id);
+    const portion = computeRecipePortion(toRecipeNutritionBasis(recipe, ingredients), servings);
+    snapshot = { source: 'recipe', name: recipe.name, servings, totals: portion.totals };
+  } else {
+    snapshot = { source: 'text', name: parsed.name!, servings: parsed.servings ?? 1, totals: parsed.totals! };
+  }
+
+  const nowIso = new Date().toISOString();
+  const { data, error } = await supabaseAdmin
+    .from('PlannedMeal')
+    .insert({
+      userId,
+      date: parsed.date,
+      mealPeriod: parsed.meal_period.toUpperCase(),
+      source: snapshot.source,
+      favoriteMealId: parsed.favorite_id ?? null,
+      recipeId: parsed.recipe_id ?? null,
+      name: snapshot.name,
+      servings: snapshot.servings,
+      calories: snapshot.totals.kcal,
+      proteinG: snapshot.totals.protein_g,
+      fatG: snapshot.totals.fat_g,
+      carbsG: snapshot.totals.carbs_g,
+      createdAt: nowIso,
+      updatedAt: nowIso,
+    })
+    .select(PLANNED_MEAL_SELECT)
+    .single();
+  if (error || !data) {
+    console.error('createPlannedMeal: insert failed', error);
+    throw new HttpError('予定を作成できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  return mapPlannedMeal(data as DbPlannedMeal);
+}
+
+// Changing servings scales the frozen totals unless new totals are sent with it.
+async function updatePlannedMeal(userId: number, plannedMealId: number, payload: unknown) {
+  const parsed = PlannedMealUpdateRequestSchema.parse(payload);
+  const existing = await findPlannedMeal(userId, plannedMealId);
+  if (existing.status === 'EATEN') {
+    throw new HttpError('食べた記録済みの予定は変更できません', { status: HTTP_STATUS.CONFLICT, expose: true });
+  }
+
+  const servings = parsed.servings ?? existing.servings;
+  const factor = existing.servings > 0 ? servings / existing.servings : 1;
+  const roundTenth = (value: number) => Math.round(value * 10) / 10;
+  const totals =
+    parsed.totals ??
+    (factor !== 1
+      ? {
+          kcal: Math.round(existing.calories * factor),
+          protein_g: roundTenth(existing.proteinG * factor),
+          fat_g: roundTenth(existing.fatG * factor),
+          carbs_g: roundTenth(existing.carbsG * factor),
+        }
+      : null);
+
+  const update: Record<string, unknown> = { servings, updatedAt: new Date().toISOString() };
+  if (parsed.date) update.date = parsed.date;
+  if (parsed.meal_period) update.mealPeriod = parsed.meal_period.toUpperCase();
+  if (parsed.name) update.name = parsed.name;
+  if (totals) {
+    update.calories = totals.kcal;
+    update.proteinG = totals.protein_g;
+    update.fatG = totals.fat_g;
+    update.carbsG = totals.carbs_g;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('PlannedMeal')
+    .update(update)
+    .eq('id', existing.id)
+    .select(PLANNED_MEAL_SELECT)
+    .single();
+  if (error || !data) {
+    console.error('updatePlannedMeal: update failed', error);
+    throw new HttpError('予定を更新できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  return mapPlannedMeal(data as DbPlannedMeal);
+}
+
+async function deletePlannedMeal(userId: number, plannedMealId: number) {
+  const { data, error } = await supabaseAdmin
+    .from('PlannedMeal')
+    .delete()
+    .eq('id', plannedMealId)
+    .eq('userId', userId)
+    .select('id');
+  if (error) {
+    console.error('deletePlannedMeal: delete failed', error);
+    throw new HttpError('予定を削除できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  if (!data?.length) {
+    throw new HttpError('予定が見つかりませんでした', { status: HTTP_STATUS.NOT_FOUND, expose: true });
+  }
+}
+
+// Logs through the favorite or recipe path; free text and plans whose source is gone use the frozen totals.
+async function markPlannedMealEaten(params: {
+  userId: number;
+  plannedMealId: number;
+  locale: Locale;
+  timezone: string;
+}) {
+  const existing = await findPlannedMeal(params.userId, params.plannedMealId);
+  // Claim the entry first so a double tap cannot log the meal twice.
+  const { data: claimed, error: claimError } = await supabaseAdmin
+    .from('PlannedMeal')
+    .update({ status: 'EATEN', eatenAt: new Date().toISOString() })
+    .eq('id', existing.id)
+    .eq('status', 'PLANNED')
+    .select('id');
+  if (claimError) {
+    console.error('markPlannedMealEaten: claim failed', claimError);
+    throw new HttpError('予定を更新できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  if (!claimed?.length) {
+    throw new HttpError('この予定はすでに記録済みです', { status: HTTP_STATUS.CONFLICT, expose: true });
+  }
+
+  const mealPeriod = existing.mealPeriod.toLowerCase() as PlannedMeal['meal_period'];
+  let logId: string;
+  try {
+    if (existing.favoriteMealId) {
+      logId = (await logFavoriteMeal(params.userId, existing.favoriteMealId, { mealPeriod: existing.mealPeriod }))
+        .logId;
+    } else if (existing.recipeId) {
+      logId = (
+        await logRecipe({
+          userId: params.userId,
+          recipeId: existing.recipeId,
+          request: { servings: existing.servings, meal_period: mealPeriod },
+          locale: params.locale,
+          timezone: params.timezone,
+        })
+      ).logId;
+    } else {
+      logId = (
+        await createManualMealLog({
+          userId: params.userId,
+          names: [{ locale: params.locale, name: existing.name }],
+          portion: {
+            grams: 0,
+            totals: {
+              kcal: existing.calories,
+              protein_g: existing.proteinG,
+              fat_g: existing.fatG,
+              carbs_g: existing.carbsG,
+            },
+          },
+          request: { meal_period: mealPeriod },
+          locale: params.locale,
+          timezone: params.timezone,
+          sourceMeta: {},
+          idempotencyPrefix: `plan-${existing.id}`,
+        })
+      ).logId;
+    }
+  } catch (error) {
+    await supabaseAdmin.from('PlannedMeal').update({ status: 'PLANNED', eatenAt: null }).eq('id', existing.id);
+    throw error;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('PlannedMeal')
+    .update({ mealLogId: logId, updatedAt: new Date().toISOString() })
+    .eq('id', existing.id)
+    .select(PLANNED_MEAL_SELECT)
+    .single();
+  if (error || !data) {
+    console.error('markPlannedMealEaten: link log failed', error);
+    throw new HttpError('予定を更新できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  return { item: mapPlannedMeal(data as DbPlannedMeal), logId };
+}
+
+// Plan dates are logical days, so the range is shifted by the day boundary like the daily buckets.
+async function fetchPlanSummary(userId: number, range: { fromDate: DateTime; toDate: DateTime }) {
+  const toPlanDate = (value: DateTime) => value.minus({ hours: MEAL_DAY_BOUNDARY_HOUR }).toISODate() ?? '';
+  const { data, error } = await supabaseAdmin
+    .from('PlannedMeal')
+    .select('calories, proteinG, fatG, carbsG, status')
+    .eq('userId', userId)
+    .gte('date', toPlanDate(range.fromDate))
+    .lt('date', toPlanDate(range.toDate));
+  if (error) {
+    console.error('fetchPlanSummary: fetch failed', error);
+    return summarizePlannedMeals([]);
+  }
+  return summarizePlannedMeals(
+    (data ?? []).map((row) => ({
+      totals: { kcal: row.calories, protein_g: row.proteinG, fat_g: row.fatG, carbs_g: row.carbsG },
+      status: row.status === 'EATEN' ? ('eaten' as const) : ('planned' as const),
+    })),
+  );
+}
+
+type DbWeightEntry = {
+  id: number;
+  weightKg: number;
+  recordedAt: string;
+  note: string | null;
+};
+
+const WEIGHT_ENTRY_SELECT = 'id, weightKg, recordedAt, note';
+
+function mapWeightEntry(row: DbWeightEntry): WeightEntry {
+  return {
+    id: row.id,
+    weight_kg: row.weightKg,
+    recorded_at: new Date(row.recordedAt).toISOString(),
+    note: row.note,
+  };
+}
+
+async function fetchWeightEntries(userId: number, from: DateTime) {
+  const { data, error } = await supabaseAdmin
+    .from('WeightEntry')
+    .select(WEIGHT_ENTRY_SELECT)
+    .eq('userId', userId)
+    .gte('recordedAt', from.toUTC().toISO())
+    .order('recordedAt', { ascending: true });
+  if (error) {
+    console.error('fetchWeightEntries: failed', error);
+    throw new HttpError('体重記録を取得できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  return (data ?? []) as DbWeightEntry[];
+}
+
+/** Daily trend points, reaching back one smoothing window before `from` so the first points are averaged. */
+async function fetchWeightTrend(userId: number, from: DateTime, timezone: string) {
+  const rows = await fetchWeightEntries(userId, from.minus({ days: WEIGHT_TREND_WINDOW_DAYS - 1 }));
+  const fromKey = from.setZone(timezone).toISODate() ?? '';
+  const trend = buildWeightTrend(
+    rows.map((row) => ({
+      date: DateTime.fromISO(row.recordedAt, { zone: 'utc' }).setZone(timezone).toISODate() ?? '',
+      weight_kg: row.weightKg,
+    })),
+  ).filter((point) => point.date >= fromKey);
+  return { rows, trend };
+}
+
+async function getWeightLog(userId: number, days: number, timezone: string): Promise<Omit<WeightLogResponse, 'ok'>> {
+  const from = DateTime.now().setZone(timezone).startOf('day').minus({ days: days - 1 });
+  const [{ rows, trend }, profile] = await Promise.all([
+    fetchWeightTrend(userId, from, timezone),
+    supabaseAdmin.from('UserProfile').select('targetWeightKg, targetDate').eq('userId', userId).maybeSingle(),
+  ]);
+  if (profile.error) {
+    console.error('getWeightLog: profile fetch failed', profile.error);
+  }
+  const fromIso = from.toUTC().toISO() ?? '';
+
+  return {
+    items: rows
+      .filter((row) => new Date(row.recordedAt).toISOString() >= fromIso)
+      .reverse()
+      .map(mapWeightEntry),
+    trend,
+    projection: projectWeightGoal({
+      trend,
+      targetWeightKg: profile.data?.targetWeightKg ?? null,
+      plannedDate: profile.data?.targetDate ? new Date(profile.data.targetDate).toISOString() : null,
+    }),
+  };
+}
+
+async function createWeightEntry(userId: number, payload: unknown): Promise<WeightEntry> {
+  const parsed = WeightEntryCreateRequestSchema.parse(payload);
+  const nowIso = new Date().toISOString();
+  const { data, error } = await supabaseAdmin
+    .from('WeightEntry')
+    .insert({
+      userId,
+      weightKg: parsed.weight_kg,
+      recordedAt: parsed.recorded_at ?? nowIso,
+      note: parsed.note ?? null,
+      updatedAt: nowIso,
+    })
+    .select(WEIGHT_ENTRY_SELECT)
+    .single();
+  if (error || !data) {
+    console.error('createWeightEntry: insert failed', error);
+    throw new HttpError('体重を記録できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  await syncCurrentWeight(userId);
+  return mapWeightEntry(data as DbWeightEntry);
+}
+
+async function updateWeightEntry(userId: number, entryId: number, payload: unknown): Promise<WeightEntry> {
+  const parsed = WeightEntryUpdateRequestSchema.parse(payload);
+  const { data, error } = await supabaseAdmin
+    .from('WeightEntry')
+    .update({
+      ...(parsed.weight_kg !== undefined ? { weightKg: parsed.weight_kg } : {}),
+      ...(parsed.recorded_at !== undefined ? { recordedAt: parsed.recorded_at } : {}),
+      ...(parsed.note !== undefined ? { note: parsed.note } : {}),
+      updatedAt: new Date().toISOString(),
+    })
+    .eq('id', entryId)
+    .eq('userId', userId)
+    .select(WEIGHT_ENTRY_SELECT)
+    .maybeSingle();
+  if (error) {
+    console.error('updateWeightEntry: update failed', error);
+    throw new HttpError('体重記録を更新できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  if (!data) {
+    throw new HttpError('体重記録が見つかりませんでした', { status: HTTP_STATUS.NOT_FOUND, expose: true });
+  }
+  await syncCurrentWeight(userId);
+  return mapWeightEntry(data as DbWeightEntry);
+}
+
+async function deleteWeightEntry(userId: number, entryId: number) {
+  const { data, error } = await supabaseAdmin
+    .from('WeightEntry')
+    .delete()
+    .eq('id', entryId)
+    .eq('userId', userId)
+    .select('id')
+    .maybeSingle();
+  if (error) {
+    console.error('deleteWeightEntry: delete failed', error);
+    throw new HttpError('体重記録を削除できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  if (!data) {
+    throw new HttpError('体重記録が見つかりませんでした', { status: HTTP_STATUS.NOT_FOUND, expose: true });
+  }
+  await syncCurrentWeight(userId);
+}
+
+/** Keeps the profile's single weight field pointing at the most recent entry. */
+async function syncCurrentWeight(userId: number) {
+  const { data: latest } = await supabaseAdmin
+    .from('WeightEntry')
+    .select('weightKg')
+    .eq('userId', userId)
+    .order('recordedAt', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (!latest) {
+    return;
+  }
+  const { error } = await supabaseAdmin
+    .from('UserProfile')
+    .update({ currentWeightKg: latest.weightKg, updatedAt: new Date().toISOString() })
+    .eq('userId', userId);
+  if (error) {
+    console.error('syncCurrentWeight: profile update failed', error);
+  }
+}
+
+type DbHydrationEntry = {
+  id: number;
+  amountMl: number;
+  beverage: string;
+  recordedAt: string;
+};
+
+function mapHydrationEntry(row: DbHydrationEntry): HydrationEntry {
+  return {
+    id: row.id,
+    amount_ml: row.amountMl,
+    beverage: row.beverage.toLowerCase() as HydrationBeverage,
+    recorded_at: new Date(row.recordedAt).toISOString(),
+  };
+}
+
+function resolveHydrationDay(timezone: string, date?: string) {
+  const base = date ? DateTime.fromISO(date, { zone: timezone }) : DateTime.now().setZone(timezone);
+  if (!base.isValid) {
+    throw new HttpError('日付の形式が正しくありません', { status: HTTP_STATUS.BAD_REQUEST, expose: true });
+  }
+  const from = base.startOf('day');
+  return { from, to: from.plus({ days: 1 }) };
+}
+
+async function fetchHydrationProfile(userId: number) {
+  const { data, error } = await supabaseAdmin
+    .from('UserProfile')
+    .select('currentWeightKg, bodyWeightKg, hydrationCupSizesMl')
+    .eq('userId', userId)
+    .maybeSingle();
+  if (error) {
+    console.error('fetchHydrationProfile: failed', error);
+  }
+  return data;
+}
+
+async function fetchHydrationEntries(userId: number, from: DateTime, to: DateTime) {
+  const { data, error } = await supabaseAdmin
+    .from('HydrationEntry')
+    .select('id, amountMl, beverage, recordedAt')
+    .eq('userId', userId)
+    .gte('recordedAt', from.toUTC().toISO())
+    .lt('recordedAt', to.toUTC().toISO())
+    .order('recordedAt', { ascending: false });
+  if (error) {
+    console.error('fetchHydrationEntries: failed', error);
+    throw new HttpError('水分の記録を取得できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  return (data ?? []) as DbHydrationEntry[];
+}
+
+async function getHydrationDay(userId: number, timezone: string, date?: string): Promise<HydrationDay> {
+  const { from, to } = resolveHydrationDay(timezone, date);
+  const [rows, profile] = await Promise.all([fetchHydrationEntries(userId, from, to), fetchHydrationProfile(userId)]);
+  return {
+    date: from.toISODate() ?? '',
+    total_ml: rows.reduce((acc, row) => acc + row.amountMl, 0),
+    target_ml: computeHydrationTargetMl(profile?.currentWeightKg ?? profile?.bodyWeightKg ?? null),
+    cup_sizes_ml: resolveHydrationCupSizes(profile?.hydrationCupSizesMl),
+    items: rows.map(mapHydrationEntry),
+  };
+}
+
+async function getTodayHydration(userId: number, timezone: string) {
+  const day = await getHydrationDay(userId, timezone);
+  return { today_ml: day.total_ml, target_ml: day.target_ml };
+}
+
+async function addHydrationEntry(userId: number, payload: unknown, timezone: string) {
+  const parsed = HydrationEntryCreateRequestSchema.parse(payload);
+  const recordedAt = parsed.recorded_at ?? new Date().toISOString();
+  const { error } = await supabaseAdmin.from('HydrationEntry').insert({
+    userId,
+    amountMl: parsed.amount_ml,
+    beverage: parsed.beverage.toUpperCase(),
+    recordedAt,
+  });
+  if (error) {
+    console.error('addHydrationEntry: insert failed', error);
+    throw new HttpError('水分を記録できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  return getHydrationDay(userId, timezone, DateTime.fromISO(recordedAt).setZone(timezone).toISODate() ?? undefined);
+}
+
+async function deleteHydrationEntry(userId: number, entryId: number, timezone: string) {
+  const { data, error } = await supabaseAdmin
+    .from('HydrationEntry')
+    .delete()
+    .eq('id', entryId)
+    .eq('userId', userId)
+    .select('recordedAt')
+    .maybeSingle();
+  if (error) {
+    console.error('deleteHydrationEntry: delete failed', error);
+    throw new HttpError('水分の記録を削除できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  if (!data) {
+    throw new HttpError('水分の記録が見つかりませんでした', { status: HTTP_STATUS.NOT_FOUND, expose: true });
+  }
+  return getHydrationDay(userId, timezone, DateTime.fromISO(data.recordedAt).setZone(timezone).toISODate() ?? undefined);
+}
+
+type DbPortionCalibration = {
+  id: number;
+  label: string;
+  grams: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+const PORTION_CALIBRATION_SELECT = 'id, label, grams, createdAt, updatedAt';
+/** Most recent edits scanned for gram corrections. */
+const PORTION_EDIT_LOOKBACK = 200;
+
+function mapPortionCalibration(row: DbPortionCalibration): PortionCalibration {
+  return {
+    id: row.id,
+    label: row.label,
+    grams: row.grams,
+    created_at: new Date(row.createdAt).toISOString(),
+    updated_at: new Date(row.updatedAt).toISOString(),
+  };
+}
+
+async function fetchLearnedPortionFactors(userId: number) {
+  const { data, error } = await supabaseAdmin
+    .from('MealLogEdit')
+    .select('changes')
+    .eq('userId', userId)
+    .order('createdAt', { ascending: false })
+    .limit(PORTION_EDIT_LOOKBACK);
+  if (error) {
+    throw error;
+  }
+  return derivePortionFactorsFromEdits((data ?? []).map((row) => row.changes));
+}
+
+async function listPortionCalibrations(userId: number): Promise<Omit<PortionCalibrationListResponse, 'ok'>> {
+  const [{ data, error }, learned] = await Promise.all([
+    supabaseAdmin
+      .from('PortionCalibration')
+      .select(PORTION_CALIBRATION_SELECT)
+      .eq('userId', userId)
+      .order('updatedAt', { ascending: false }),
+    fetchLearnedPortionFactors(userId),
+  ]);
+  if (error) {
+    console.error('listPortionCalibrations: fetch failed', error);
+    throw new HttpError('量の基準を取得できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  return { items: ((data ?? []) as DbPortionCalibration[]).map(mapPortionCalibration), learned };
+}
+
+// A failure here only costs the calibration, so the analysis goes ahead without hints.
+async function loadPortionCalibrationHints(userId: number): Promise<PortionCalibrationHint[]> {
+  try {
+    const [{ data, error }, learned] = await Promise.all([
+      supabaseAdmin
+        .from('PortionCalibration')
+        .select('label, grams')
+        .eq('userId', userId)
+        .order('updatedAt', { ascending: false })
+        .limit(MAX_PORTION_HINTS),
+      fetchLearnedPortionFactors(userId),
+    ]);
+    if (error) {
+      throw error;
+    }
+    return buildPortionCalibrationHints((data ?? []) as Array<{ label: string; grams: number }>, learned);
+  } catch (error) {
+    console.warn('loadPortionCalibrationHints: lookup failed', error);
+    return [];
+  }
+}
+
+async function assertPortionLabelAvailable(userId: number, label: string) {
+  const { data } = await supabaseAdmin
+    .from('PortionCalibration')
+    .select('id')
+    .eq('userId', userId)
+    .eq('label', label)
+    .maybeSingle();
+  if (data) {
+    throw new HttpError('同じ名前の基準がすでに登録されています', { status: HTTP_STATUS.CONFLICT, expose: true });
+  }
+}
+
+async function createPortionCalibration(userId: number, payload: unknown): Promise<PortionCalibration> {
+  const parsed = PortionCalibrationCreateRequestSchema.parse(payload);
+  await assertPortionLabelAvailable(userId, parsed.label);
+  const { data, error } = await supabaseAdmin
+    .from('PortionCalibration')
+    .insert({ userId, label: parsed.label, grams: parsed.grams, updatedAt: new Date().toISOString() })
+    .select(PORTION_CALIBRATION_SELECT)
+    .single();
+  if (error || !data) {
+    console.error('createPortionCalibration: insert failed', error);
+    throw new HttpError('量の基準を保存できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  return mapPortionCalibration(data as DbPortionCalibration);
+}
+
+async function updatePortionCalibration(userId: number, calibrationId: number, payload: unknown): Promise<PortionCalibration> {
+  const parsed = PortionCalibrationUpdateRequestSchema.parse(payload);
+  const { data: current } = await supabaseAdmin
+    .from('PortionCalibration')
+    .select('label')
+    .eq('id', calibrationId)
+    .eq('userId', userId)
+    .maybeSingle();
+  if (!current) {
+    throw new HttpError('量の基準が見つかりませんでした', { status: HTTP_STATUS.NOT_FOUND, expose: true });
+  }
+  if (parsed.label !== undefined && parsed.label !== current.label) {
+    await assertPortionLabelAvailable(userId, parsed.label);
+  }
+  const { data, error } = await supabaseAdmin
+    .from('PortionCalibration')
+    .update({
+      ...(parsed.label !== undefined ? { label: parsed.label } : {}),
+      ...(parsed.grams !== undefined ? { grams: parsed.grams } : {}),
+      updatedAt: new Date().toISOString(),
+    })
+    .eq('id', calibrationId)
+    .eq('userId', userId)
+    .select(PORTION_CALIBRATION_SELECT)
+    .single();
+  if (error || !data) {
+    console.error('updatePortionCalibration: update failed', error);
+    throw new HttpError('量の基準を更新できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  return mapPortionCalibration(data as DbPortionCalibration);
+}
+
+async function deletePortionCalibration(userId: number, calibrationId: number) {
+  const { data, error } = await supabaseAdmin
+    .from('PortionCalibration')
+    .delete()
+    .eq('id', calibrationId)
+    .eq('userId', userId)
+    .select('id')
+    .maybeSingle();
+  if (error) {
+    console.error('deletePortionCalibration: delete failed', error);
+    throw new HttpError('量の基準を削除できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  if (!data) {
+    throw new HttpError('量の基準が見つかりませんでした', { status: HTTP_STATUS.NOT_FOUND, expose: true });
+  }
+}
+
+/** Calories per local day over [from, to). Today is left out by callers because it is still in progress. */
+async function fetchDailyIntake(userId: number, from: DateTime, to: DateTime, timezone: string): Promise<DailyIntake[]> {
+  const { data, error } = await supabaseAdmin
+    .from('MealLog')
+    .select('createdAt, calories')
+    .eq('userId', userId)
+    .is('deletedAt', null)
+    .gte('createdAt', from.toUTC().toISO())
+    .lt('createdAt', to.toUTC().toISO());
+  if (error) {
+    console.error('fetchDailyIntake: failed', error);
+    throw new HttpError('食事記録の取得に失敗しました', { status: HTTP_STATUS.INTERNAL_ERROR });
+  }
+  const byDate = new Map<string, number>();
+  for (const row of data ?? []) {
+    const key = DateTime.fromISO(row.createdAt, { zone: 'utc' }).setZone(timezone).toISODate();
+    if (!key) continue;
+    byDate.set(key, (byDate.get(key) ?? 0) + Number(row.calories ?? 0));
+  }
+  return [...byDate.entries()].map(([date, kcal]) => ({ date, kcal }));
+}
+
+async function getAdaptivePlanProposal(userId: number, timezone: string): Promise<AdaptivePlanProposal> {
+  const to = DateTime.now().setZone(timezone).startOf('day');
+  const from = to.minus({ days: ADAPTIVE_PLAN_WINDOW_DAYS });
+  const [profile, intake, { trend }] = await Promise.all([
+    getOrCreateUserProfile(userId),
+    fetchDailyIntake(userId, from, to, timezone),
+    fetchWeightTrend(userId, from, timezone),
+  ]);
+  const current =
+    profile.targetCalories != null &&
+    profile.targetProteinG != null &&
+    profile.targetFatG != null &&
+    profile.targetCarbsG != null
+      ? {
+          calories: profile.targetCalories,
+          protein_g: profile.targetProteinG,
+          fat_g: profile.targetFatG,
+          carbs_g: profile.targetCarbsG,
+        }
+      : null;
 
-  const aiPayload = {
-    ...baseResponse,
-    locale: DEFAULT_LOCALE,
-    translations: { [DEFAULT_LOCALE]: cloneResponse(baseResponse) },
-  };
+  return buildAdaptivePlanProposal({
+    planInput: buildNutritionInput({}, profile),
+    estimate: estimateMaintenanceFromHistory({ intake, trend }),
+    current,
+    declinedAt: profile.adaptivePlanDeclinedAt ? new Date(profile.adaptivePlanDeclinedAt) : null,
+  });
+}
 
-  const logId = crypto.randomUUID();
+/** Accepting re-derives the proposal and refuses when it no longer matches what the user confirmed. */
+async function decideAdaptivePlan(
+  userId: number,
+  request: AdaptivePlanDecisionRequest,
+  timezone: string,
+): Promise<AdaptivePlanProposal> {
   const nowIso = new Date().toISOString();
-
-  const { data: createdLog, error: insertLogError } = await supabaseAdmin
-    .from('MealLog')
-    .insert({
-      id: logId,
-      userId,
-      foodItem: baseResponse.dish,
-      calories: baseResponse.totals.kcal,
-      proteinG: baseResponse.totals.protein_g,
-      fatG: baseResponse.totals.fat_g,
-      carbsG: baseResponse.totals.carbs_g,
-      aiRaw: aiPayload,
-      zeroFloored: false,
-      guardrailNotes: null,
-      landingType: baseResponse.landing_type ?? null,
-      createdAt: nowIso,
-      updatedAt: nowIso,
-    })
-    .select('id')
-    .single();
-
-  if (insertLogError || !createdLog) {
-    console.error('logFavoriteMeal: insert meal log failed', insertLogError);
-    throw new HttpError('食事記録を作成できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
+  if (request.decision === 'decline') {
+    await upsertUserProfile(userId, { adaptivePlanDeclinedAt: nowIso, updatedAt: nowIso });
+    return getAdaptivePlanProposal(userId, timezone);
   }
 
-  const resolvedLogId = createdLog?.id ?? logId;
-
-  const { error: historyError } = await supabaseAdmin.from('MealLogPeriodHistory').insert({
-    mealLogId: resolvedLogId,
-    previousMealPeriod: null,
-    nextMealPeriod: null,
-    source: 'favorite',
-  });
-  if (historyError) {
-    console.error('logFavoriteMeal: insert period history failed', historyError);
+  const proposal = await getAdaptivePlanProposal(userId, timezone);
+  if (!proposal.proposed) {
+    throw new HttpError('目標カロリーの提案を計算できませんでした', { status: HTTP_STATUS.CONFLICT, expose: true });
+  }
+  if (proposal.proposed.calories !== request.expected_calories) {
+    throw new HttpError('提案内容が更新されました。内容を確認してからもう一度お試しください', {
+      status: HTTP_STATUS.CONFLICT,
+      expose: true,
+    });
   }
 
-  const localization = resolveMealLogLocalization(aiPayload, DEFAULT_LOCALE);
-  const translations = cloneTranslationsMap(localization.translations);
-  const translation = localization.translation ?? baseResponse;
-  const favoriteDraft = buildFavoriteDraftPayload({
-    translation,
-    totals: translation.totals,
-    items: translation.items,
-    fallbackDish: translation.dish,
-    sourceMealLogId: resolvedLogId,
+  await upsertUserProfile(userId, {
+    targetCalories: proposal.proposed.calories,
+    targetProteinG: proposal.proposed.protein_g,
+    targetFatG: proposal.proposed.fat_g,
+    targetCarbsG: proposal.proposed.carbs_g,
+    adaptivePlanDeclinedAt: null,
+    updatedAt: nowIso,
   });
 
-  return {
-    ok: true,
-    success: true,
-    idempotent: false,
-    idempotency_key: `favorite-${favoriteId}-${Date.now()}`,
-    logId: resolvedLogId,
-    requestLocale: localization.requestedLocale,
-    locale: localization.resolvedLocale,
-    translations,
-    fallbackApplied: localization.fallbackApplied,
-    dish: translation.dish,
-    confidence: translation.confidence,
-    totals: translation.totals,
-    items: translation.items,
-    breakdown: {
-      items: translation.items,
-      warnings: translation.warnings ?? [],
-    },
-    meta: {
-      favoriteId,
-      localization: buildLocalizationMeta(localization),
-      created_from_favorite: true,
-    } satisfies Record<string, unknown>,
-    usage: undefined,
-    favoriteCandidate: favoriteDraft,
-  } as const;
-}
-
-function mapFavoriteMeal(
-  favorite: {
-    id: number;
-    name: string;
-    notes: string | null;
-    calories: number;
-    proteinG: number;
-    fatG: number;
-    carbsG: number;
-    sourceMealLogId: string | null;
-    createdAt: Date;
-    updatedAt: Date;
-  },
-  items: Array<{
-    id: number;
-    favoriteMealId: number;
-    name: string;
-    grams: number;
-    calories: number | null;
-    proteinG: number | null;
-    fatG: number | null;
-    carbsG: number | null;
-    orderIndex: number;
-  }>,
-): FavoriteMeal {
-  return {
-    id: favorite.id,
-    name: favorite.name,
-    notes: favorite.notes,
-    totals: {
-      kcal: favorite.calories,
-      protein_g: favorite.proteinG,
-      fat_g: favorite.fatG,
-      carbs_g: favorite.carbsG,
-    },
-    source_log_id: favorite.sourceMealLogId,
-    items: items
-      .sort((a, b) => a.orderIndex - b.orderIndex)
-      .map((item) => ({
-        id: item.id,
-        name: item.name,
-        grams: item.grams,
-        calories: item.calories,
-        protein_g: item.proteinG,
-        fat_g: item.fatG,
-        carbs_g: item.carbsG,
-        order_index: item.orderIndex,
-      })),
-    created_at: new Date(favorite.createdAt).toISOString(),
-    updated_at: new Date(favorite.updatedAt).toISOString(),
-  };
-}
-
-function favoriteToGeminiResponse(favorite: FavoriteMeal): GeminiNutritionResponse {
-  return {
-    dish: favorite.name,
-    confidence: 0.95,
-    totals: favorite.totals,
-    items: favorite.items.map((item) => ({
-      name: item.name,
-      grams: item.grams,
-      protein_g: item.protein_g ?? undefined,
-      fat_g: item.fat_g ?? undefined,
-      carbs_g: item.carbs_g ?? undefined,
-    })),
-    warnings: [],
-    landing_type: null,
-    meta: { favoriteId: favorite.id },
-  };
+  return { ...proposal, status: 'up_to_date', current: proposal.proposed };
 }
 
 async function getDashboardSummary(params: {
@@ -3837,7 +7357,7 @@ async function getDashboardSummary(params: {
 
   const { data: logsData, error } = await supabaseAdmin
     .from('MealLog')
-    .select('createdAt, calories, proteinG, fatG, carbsG, mealPeriod')
+    .select('createdAt, calories, proteinG, fatG, carbsG, micros, mealPeriod')
     .eq('userId', params.userId)
     .is('deletedAt', null)
     .gte('createdAt', range.fromDate.toISO() ?? range.fromDate.toString())
@@ -3855,6 +7375,7 @@ async function getDashboardSummary(params: {
       proteinG: row.proteinG,
       fatG: row.fatG,
       carbsG: row.carbsG,
+      micros: row.micros as Micronutrients | null,
       mealPeriod: row.mealPeriod,
     })) ?? [];
 
@@ -3881,14 +7402,26 @@ async function getDashboardSummary(params: {
         ),
       )
     : fetchTodayTotals(params.userId, resolvedTimezone);
-  const dailyTargetsPromise = resolveUserTargets(params.userId);
-  const [todayTotals, dailyTargets] = await Promise.all([todayTotalsPromise, dailyTargetsPromise]);
+  const profilePromise = fetchTargetProfile(params.userId);
+  const [todayTotals, profile, hydration, plan] = await Promise.all([
+    todayTotalsPromise,
+    profilePromise,
+    getTodayHydration(params.userId, resolvedTimezone),
+    fetchPlanSummary(params.userId, range),
+  ]);
+  const dailyTargets = buildUserTargets(profile);
   const summary = buildDashboardSummary({
     logs,
     range,
     timezone: resolvedTimezone,
     todayTotals,
     dailyTargets,
+    microTargets: resolveMicronutrientTargets({
+      calories: dailyTargets.calories,
+      gender: profile?.gender,
+    }),
+    hydration,
+    plan,
   });
 
   return {
@@ -3900,9 +7433,13 @@ async function getDashboardSummary(params: {
 }
 
 async function resolveUserTargets(userId: number) {
+  return buildUserTargets(await fetchTargetProfile(userId));
+}
+
+async function fetchTargetProfile(userId: number) {
   const { data: profile, error } = await supabaseAdmin
     .from('UserProfile')
-    .select('targetCalories, targetProteinG, targetFatG, targetCarbsG')
+    .select('targetCalories, targetProteinG, targetFatG, targetCarbsG, gender')
     .eq('userId', userId)
     .maybeSingle();
 
@@ -3910,7 +7447,17 @@ async function resolveUserTargets(userId: number) {
     console.error('resolveUserTargets failed', error);
     throw new HttpError('目標値を取得できませんでした', { status: HTTP_STATUS.INTERNAL_ERROR });
   }
+  return profile;
+}
 
+function buildUserTargets(
+  profile: {
+    targetCalories: number | null;
+    targetProteinG: number | null;
+    targetFatG: number | null;
+    targetCarbsG: number | null;
+  } | null,
+) {
   const defaults = getDefaultTargets();
   if (!profile) return defaults;
 
@@ -4647,12 +8194,26 @@ function buildDashboardSummary({
   timezone,
   todayTotals,
   dailyTargets,
+  microTargets,
+  hydration = { today_ml: 0, target_ml: DEFAULT_HYDRATION_TARGET_ML },
+  plan = summarizePlannedMeals([]),
 }: {
-  logs: Array<{ createdAt: Date; calories: number; proteinG: number; fatG: number; carbsG: number; mealPeriod: string | null }>;
+  logs: Array<{
+    createdAt: Date;
+    calories: number;
+    proteinG: number;
+    fatG: number;
+    carbsG: number;
+    micros?: Micronutrients | null;
+    mealPeriod: string | null;
+  }>;
   range: { fromDate: DateTime; toDate: DateTime; period: string };
   timezone: string;
   todayTotals: { calories: number; protein_g: number; fat_g: number; carbs_g: number };
   dailyTargets: { calories: number; protein_g: number; fat_g: number; carbs_g: number };
+  microTargets?: ReturnType<typeof resolveMicronutrientTargets>;
+  hydration?: { today_ml: number; target_ml: number };
+  plan?: ReturnType<typeof summarizePlannedMeals>;
 }) {
   const fromDate = range.fromDate;
   const toDate = range.toDate;
@@ -4709,7 +8270,12 @@ function buildDashboardSummary({
     carbs_g: roundedTotals.carbs_g - targets.carbs_g,
   });
 
-  const micros = buildMicros(roundedTotals, targets, delta);
+  const micros = buildMicronutrientRows({
+    totals: sumMicronutrients(logs.map((log) => log.micros)),
+    dailyTargets: microTargets ?? resolveMicronutrientTargets({ calories: safeDailyTargets.calories }),
+    days: daysCount,
+    keys: [...CORE_MICRONUTRIENT_KEYS, ...DASHBOARD_MICRONUTRIENTS],
+  });
   const remainingToday = roundMacros({
     calories: Math.max(safeDailyTargets.calories - todayTotals.calories, 0),
     protein_g: Math.max(safeDailyTargets.protein_g - todayTotals.protein_g, 0),
@@ -4734,6 +8300,8 @@ function buildDashboardSummary({
       delta,
     },
     micros,
+    hydration,
+    plan,
   };
 }
 
@@ -4779,43 +8347,6 @@ function roundMacros(macros: { calories: number; protein_g: number; fat_g: numbe
   };
 }
 
-function buildMicros(total: { calories: number; protein_g: number; fat_g: number; carbs_g: number }, targets: { calories: number; protein_g: number; fat_g: number; carbs_g: number }, delta: { calories: number; protein_g: number; fat_g: number; carbs_g: number }) {
-  return [
-    {
-      key: 'calories',
-      label: 'カロリー',
-      unit: DASHBOARD_TARGETS.calories.unit,
-      total: total.calories,
-      target: targets.calories,
-      delta: delta.calories,
-    },
-    {
-      key: 'protein_g',
-      label: 'たんぱく質',
-      unit: DASHBOARD_TARGETS.protein_g.unit,
-      total: total.protein_g,
-      target: targets.protein_g,
-      delta: delta.protein_g,
-    },
-    {
-      key: 'fat_g',
-      label: '脂質',
-      unit: DASHBOARD_TARGETS.fat_g.unit,
-      total: total.fat_g,
-      target: targets.fat_g,
-      delta: delta.fat_g,
-    },
-    {
-      key: 'carbs_g',
-      label: '炭水化物',
-      unit: DASHBOARD_TARGETS.carbs_g.unit,
-      total: total.carbs_g,
-      target: targets.carbs_g,
-      delta: delta.carbs_g,
-    },
-  ];
-}
-
 function mapMealPeriod(periods: Record<string, number>) {
   return {
     breakfast: round(periods.breakfast ?? 0, 0),
@@ -5021,6 +8552,7 @@ function buildReportContext(params: {
   summary: DashboardSummary;
   preference: AiReportPreferenceInput;
   comparison: AiReportComparison | null;
+  weight?: ReturnType<typeof summarizeWeightChange>;
 }) {
   const daily = params.summary.calories.daily;
   const totalDays = daily.length;
@@ -5055,9 +8587,25 @@ function buildReportContext(params: {
     daily: daily.map((entry) => ({ date: entry.date, total: entry.total })),
     preference: params.preference,
     comparison: params.comparison,
+    weight: params.weight ?? null,
   };
 }
 
+async function fetchReportWeightChange(userId: number, rangeStart: string, rangeEnd: string, timezone: string) {
+  try {
+    const from = DateTime.fromISO(rangeStart, { zone: timezone }).startOf('day');
+    const to = DateTime.fromISO(rangeEnd, { zone: timezone });
+    if (!from.isValid || !to.isValid) {
+      return null;
+    }
+    const { trend } = await fetchWeightTrend(userId, from, timezone);
+    return summarizeWeightChange(trend, from.toISODate() ?? '', to.toISODate() ?? '');
+  } catch (error) {
+    console.error('report request: weight fetch failed', error);
+    return null;
+  }
+}
+
 function buildReportPrompt(context: ReturnType<typeof buildReportContext>, locale: Locale) {
   const preferJapanese = locale.toLowerCase().startsWith('ja');
   const languageInstruction = preferJapanese
@@ -5109,6 +8657,7 @@ Rules:
   - Otherwise, suggest balanced, nutrient-dense ingredients.
 - Personalize by preference.goal, preference.focusAreas, and preference.adviceStyle.
 - If comparison exists, mention a concrete progress delta.
+- If weight exists, mention weight.change_kg (7-day average trend, negative means loss) and relate it to the calorie data.
 - Never invent data that is not present in the input JSON.
 ${languageInstruction}
 ${voiceInstruction}
@@ -5835,11 +9384,13 @@ async function processReportRequest(request: {
             null,
           )
         : null;
+    const weight = await fetchReportWeightChange(request.userId, request.rangeStart, request.rangeEnd, request.timezone);
     const context = buildReportContext({
       period: request.period as AiReportPeriod,
       summary,
       preference,
       comparison,
+      weight,
     });
     const analysis = await analyzeReportWithRetry({
       context,
@@ -5971,13 +9522,21 @@ function requireReportWorkerSecret(c: Context) {
   }
 }
 
-async function analyzeMeal(params: { message: string; imageBase64?: string; imageMimeType?: string; locale?: Locale }) {
+type ClarificationPromptContext = {
+  draft: GeminiNutritionResponse;
+  answers: Array<{ question: string; answer: string }>;
+};
+
+async function analyzeMeal(params: {
+  message: string;
+  images?: AiPromptImage[];
+  locale?: Locale;
+  portionHints?: PortionCalibrationHint[];
+  /** Second pass after the user answered the follow-up questions of `draft`. */
+  clarification?: ClarificationPromptContext;
+  cacheKey?: string | null;
+}): Promise<CachedAnalysis> {
   const apiKey = Deno.env.get('GEMINI_API_KEY');
-  if (!apiKey) {
-    const mock = buildMockResponse(params.message, params.locale ?? DEFAULT_LOCALE);
-    const meta = { model: 'mock', attempt: 1, latencyMs: 10, rawText: JSON.stringify(mock) };
-    return { response: mock, attemptReports: [{ model: 'mock', ok: true, latencyMs: meta.latencyMs, attempt: 1 }], meta };
-  }
 
   const parseModelList = (raw: string | undefined) =>
     (raw ?? '')
@@ -6006,6 +9565,34 @@ async function analyzeMeal(params: { message: string; imageBase64?: string; imag
     chainModels.length ? chainModels : [primaryModel, ...fallbackModels, ...(legacyFallbackModel ? [legacyFallbackModel] : [])],
   );
 
+  // AI_PROVIDER_CHAIN takes over routing when set; otherwise the Gemini model chain above is used as before.
+  const configuredTargets = parseAiProviderChain(Deno.env.get('AI_PROVIDER_CHAIN'), {
+    gemini: primaryModel,
+    openai: (Deno.env.get('OPENAI_COMPATIBLE_MODEL') ?? 'gpt-4o-mini').trim(),
+    local: (Deno.env.get('LOCAL_AI_MODEL') ?? 'llama3.2-vision').trim(),
+    mock: 'mock',
+  });
+  const targets: AiProviderTarget[] = configuredTargets.length
+    ? configuredTargets
+    : apiKey
+      ? models.map((model) => ({ provider: 'gemini' as const, model }))
+      : [{ provider: 'mock', model: 'mock' }];
+
+  if (targets.every((target) => target.provider === 'mock')) {
+    const mock = buildMockResponse(params.message, params.locale ?? DEFAULT_LOCALE);
+    const meta = { model: 'mock', attempt: 1, latencyMs: 10, rawText: JSON.stringify(mock) };
+    return { response: mock, attemptReports: [{ model: 'mock', ok: true, latencyMs: meta.latencyMs, attempt: 1 }], meta };
+  }
+
+  const cacheKey = params.cacheKey ?? null;
+  if (cacheKey) {
+    const cached = await findCachedEstimate(cacheKey, targets.map(formatAiTargetLabel));
+    await recordEstimateCacheOutcome(cached ? 'hit' : 'miss');
+    if (cached) {
+      return cached;
+    }
+  }
+
   const fallbackStrategy = (Deno.env.get('GEMINI_FALLBACK_STRATEGY') ?? 'any').trim().toLowerCase();
   const textOnlyModels = new Set(parseModelList(Deno.env.get('GEMINI_TEXT_ONLY_MODELS')));
   const timeoutMsCandidate = Number(Deno.env.get('GEMINI_TIMEOUT_MS') ?? '25000');
@@ -6018,7 +9605,7 @@ async function analyzeMeal(params: { message: string; imageBase64?: string; imag
   const isQuotaErrorMessage = (message: string) => {
     const lower = message.toLowerCase();
     return (
-      message.includes('Gemini error 429') ||
+      /\berror 429\b/.test(message) ||
       lower.includes('resource_exhausted') ||
       lower.includes('quota exceeded') ||
       lower.includes('rate limit')
@@ -6027,7 +9614,7 @@ async function analyzeMeal(params: { message: string; imageBase64?: string; imag
 
   const isOverloadedErrorMessage = (message: string) => {
     const lower = message.toLowerCase();
-    return message.includes('Gemini error 503') || lower.includes('overloaded') || lower.includes('unavailable');
+    return /\berror 503\b/.test(message) || lower.includes('overloaded') || lower.includes('unavailable');
   };
 
   const isTimeoutError = (error: unknown) => {
@@ -6061,7 +9648,8 @@ async function analyzeMeal(params: { message: string; imageBase64?: string; imag
     return lower.includes('gemma');
   };
 
-  const hadImage = Boolean(params.imageBase64 && params.imageMimeType);
+  const images = params.images ?? [];
+  const hadImage = images.length > 0;
   const userMessage = (params.message ?? '').trim();
 
   const coerceNumberLike = (value: unknown) => {
@@ -6173,62 +9761,112 @@ async function analyzeMeal(params: { message: string; imageBase64?: string; imag
     return err;
   };
 
-  const attempt = async (model: string, attemptNumber: number, promptMessage: string, includeImage: boolean) => {
-    const url = new URL(`https://generativelanguage.googleapis.com/v1beta/${model}:generateContent`);
-    url.searchParams.set('key', apiKey);
-    const prompt = buildPrompt(promptMessage, params.locale ?? DEFAULT_LOCALE);
-
-    const requestBody: Record<string, unknown> = {
-      contents: [
-        {
-          parts: [
-            ...(includeImage && params.imageBase64 && params.imageMimeType
-              ? [
-                  {
-                    inline_data: {
-                      mime_type: params.imageMimeType,
-                      data: params.imageBase64,
-                    },
+  const callProvider = async (target: AiProviderTarget, input: AiPromptInput, signal: AbortSignal) => {
+    let url: URL;
+    let body: unknown;
+    let headers: Record<string, string> = {};
+    let label: string;
+    switch (target.provider) {
+      case 'mock':
+        return JSON.stringify(buildMockResponse(params.message, params.locale ?? DEFAULT_LOCALE));
+      case 'openai': {
+        const baseUrl = Deno.env.get('OPENAI_COMPATIBLE_BASE_URL');
+        if (!baseUrl) {
+          throw new Error('OPENAI_COMPATIBLE_BASE_URL is not configured');
+        }
+        const openAiKey = Deno.env.get('OPENAI_COMPATIBLE_API_KEY');
+        url = new URL('chat/completions', baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`);
+        body = buildOpenAiCompatibleRequestBody(target.model, input);
+        headers = openAiKey ? { Authorization: `Bearer ${openAiKey}` } : {};
+        label = 'OpenAI-compatible';
+        break;
+      }
+      case 'local': {
+        const baseUrl = Deno.env.get('LOCAL_AI_BASE_URL') ?? 'http://localhost:11434';
+        url = new URL('api/generate', baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`);
+        body = buildLocalModelRequestBody(target.model, input);
+        label = 'Local model';
+        break;
+      }
+      case 'gemini':
+      default: {
+        if (!apiKey) {
+          throw new Error('GEMINI_API_KEY is not configured');
+        }
+        url = new URL(`https://generativelanguage.googleapis.com/v1beta/${target.model}:generateContent`);
+        url.searchParams.set('key', apiKey);
+        body = {
+          contents: [
+            {
+              parts: [
+                ...(input.images ?? []).map((image) => ({
+                  inline_data: {
+                    mime_type: image.mimeType,
+                    data: image.base64,
                   },
-                ]
-              : []),
-            { text: prompt },
+                })),
+                { text: input.prompt },
+              ],
+              role: 'user',
+            },
           ],
-          role: 'user',
-        },
-      ],
-      generationConfig: {
-        temperature: 0.2,
-        topK: 32,
-        topP: 0.8,
-        responseMimeType: 'application/json',
-      },
+          generationConfig: {
+            temperature: 0.2,
+            topK: 32,
+            topP: 0.8,
+            responseMimeType: 'application/json',
+          },
+        };
+        label = 'Gemini';
+      }
+    }
+
+    const resp = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal,
+    });
+    const text = await resp.text();
+    if (!resp.ok) {
+      throw new Error(`${label} error ${resp.status}: ${text}`);
+    }
+    const data = JSON.parse(text) as any;
+    const content =
+      target.provider === 'openai'
+        ? extractOpenAiCompatibleText(data)
+        : target.provider === 'local'
+          ? extractLocalModelText(data)
+          : extractGeminiText(data);
+    if (!content) {
+      throw new Error(`${label} returned no content`);
+    }
+    return content;
+  };
+
+  const attempt = async (target: AiProviderTarget, attemptNumber: number, promptMessage: string, includeImage: boolean) => {
+    const model = formatAiTargetLabel(target);
+    const input: AiPromptInput = {
+      prompt: buildPrompt(
+        promptMessage,
+        params.locale ?? DEFAULT_LOCALE,
+        includeImage ? images.length : 0,
+        params.portionHints ?? [],
+        params.clarification,
+      ),
+      ...(includeImage ? { images } : {}),
     };
 
     const started = Date.now();
     const controller = new AbortController();
     const timer = setTimeout(() => controller.abort('GEMINI_TIMEOUT'), timeoutMs);
-    let text = '';
     try {
-      const resp = await fetch(url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(requestBody),
-        signal: controller.signal,
-      });
-      text = await resp.text();
+      const first = await callProvider(target, input, controller.signal);
       const latencyMs = Date.now() - started;
-      if (!resp.ok) {
-        throw buildAttemptError(model, latencyMs, attemptNumber, `Gemini error ${resp.status}: ${text}`);
-      }
-      const data = JSON.parse(text) as any;
-      const first = data?.candidates?.[0]?.content?.parts?.[0]?.text;
-      if (!first) {
-        throw buildAttemptError(model, latencyMs, attemptNumber, 'Gemini returned no content');
-      }
       let parsed: GeminiNutritionResponse;
       try {
         parsed = parseGeminiNutritionResponse(first);
+        parsed.calibration_applied = resolveAppliedPortionCalibrations(parsed.calibration_applied, params.portionHints ?? []);
       } catch (error) {
         const message = error instanceof Error ? error.message : 'Gemini response parse failed';
         throw buildAttemptError(model, latencyMs, attemptNumber, message, first.length);
@@ -6254,11 +9892,16 @@ async function analyzeMeal(params: { message: string; imageBase64?: string; imag
   const attemptReports: HedgeAttemptReport[] = [];
   let firstError: Error | null = null;
 
-  const attemptWithRetry = async (model: string, attemptNumber: number, promptMessage: string, includeImage: boolean) => {
+  const attemptWithRetry = async (
+    target: AiProviderTarget,
+    attemptNumber: number,
+    promptMessage: string,
+    includeImage: boolean,
+  ) => {
     let lastError: Error | null = null;
     for (let retryIndex = 0; retryIndex <= overloadRetryDelaysMs.length; retryIndex += 1) {
       try {
-        const result = await attempt(model, attemptNumber, promptMessage, includeImage);
+        const result = await attempt(target, attemptNumber, promptMessage, includeImage);
         attemptReports.push(result.report);
         return result;
       } catch (error) {
@@ -6276,7 +9919,7 @@ async function analyzeMeal(params: { message: string; imageBase64?: string; imag
         const delayMs =
           overloadRetryDelaysMs[retryIndex] + Math.floor(Math.random() * overloadRetryJitterMs);
         console.warn('analyzeMeal: retrying after overload', {
-          model,
+          model: formatAiTargetLabel(target),
           attempt: attemptNumber,
           retry: retryIndex + 1,
           delayMs,
@@ -6287,17 +9930,19 @@ async function analyzeMeal(params: { message: string; imageBase64?: string; imag
     throw lastError ?? new Error('Gemini request failed');
   };
 
-  if (!models.length) {
-    throw new Error('No Gemini models configured');
+  if (!targets.length) {
+    throw new Error('No AI providers configured');
   }
 
-  for (let i = 0; i < models.length; i += 1) {
-    const model = models[i];
+  for (let i = 0; i < targets.length; i += 1) {
+    const target = targets[i];
     const attemptNumber = i + 1;
-    const includeImage = hadImage && !isTextOnlyModel(model);
+    const includeImage = hadImage && !isTextOnlyModel(target.model);
 
     if (!includeImage && hadImage && !userMessage) {
-      const remainingVisionModel = models.slice(i + 1).some((candidate) => hadImage && !isTextOnlyModel(candidate));
+      const remainingVisionModel = targets
+        .slice(i + 1)
+        .some((candidate) => hadImage && !isTextOnlyModel(candidate.model));
       if (remainingVisionModel) {
         continue;
       }
@@ -6313,20 +9958,23 @@ async function analyzeMeal(params: { message: string; imageBase64?: string; imag
         ? `${userMessage}\n\n(You cannot see the attached image. Respond using only the text description.)`
         : userMessage;
     try {
-      const result = await attemptWithRetry(model, attemptNumber, promptMessage, includeImage);
+      const result = await attemptWithRetry(target, attemptNumber, promptMessage, includeImage);
       if (attemptNumber > 1) {
         result.response.meta = { ...(result.response.meta ?? {}), fallback_model_used: true };
       }
+      if (cacheKey && target.provider !== 'mock') {
+        await storeCachedEstimate(cacheKey, result.meta.model, result.response);
+      }
       return { response: result.response, attemptReports, meta: result.meta };
     } catch (error) {
       const err = error instanceof Error ? error : new Error('Unknown AI error');
       if (!firstError) {
         firstError = err;
       }
-      if (attemptNumber === 1 && models.length > 1) {
+      if (attemptNumber === 1 && targets.length > 1) {
         console.error('analyzeMeal: primary model failed', err);
       }
-      const shouldFallback = attemptNumber < models.length && shouldTryNextModel(err);
+      const shouldFallback = attemptNumber < targets.length && shouldTryNextModel(err);
       if (!shouldFallback) {
         if (isQuotaErrorMessage(err.message)) {
           throw new HttpError('AIの無料枠が上限に達しました。時間をおいて再度お試しください。', {
@@ -6358,11 +10006,27 @@ async function analyzeMeal(params: { message: string; imageBase64?: string; imag
 async function parseMultipart(c: Context) {
   const form = await c.req.parseBody();
   const message = typeof form['message'] === 'string' ? form['message'].trim() : '';
-  const file = form['image'] instanceof File ? (form['image'] as File) : undefined;
-  return { message, file };
+  // `image` is the original single-photo field; `images` carries the extra photos of a multi-photo log.
+  const extra = form['images'];
+  const files = [form['image'], ...(Array.isArray(extra) ? extra : [extra])].filter(
+    (entry): entry is File => entry instanceof File,
+  );
+  // `audio` is a voice memo that is transcribed into the message.
+  const audio = form['audio'] instanceof File ? form['audio'] : null;
+  return { message, files, audio };
 }
 
-function buildPrompt(userMessage: string, locale: Locale = DEFAULT_LOCALE) {
+function buildPrompt(
+  userMessage: string,
+  locale: Locale = DEFAULT_LOCALE,
+  imageCount = 0,
+  portionHints: PortionCalibrationHint[] = [],
+  clarification?: ClarificationPromptContext,
+) {
+  const portionInstruction = formatPortionHintsForPrompt(portionHints);
+  const clarificationInstruction = clarification
+    ? formatClarificationForPrompt(clarification.draft, clarification.answers)
+    : CLARIFYING_QUESTIONS_PROMPT;
   const preferJapanese = locale.toLowerCase().startsWith('ja');
   const languageInstruction = preferJapanese
     ? 'Use Japanese for all text fields.'
@@ -6371,12 +10035,22 @@ function buildPrompt(userMessage: string, locale: Locale = DEFAULT_LOCALE) {
   "dish": string,
   "confidence": number between 0 and 1,
   "totals": { "kcal": number, "protein_g": number, "fat_g": number, "carbs_g": number },
+  "micros"?: { "fiber_g"?: number, "sugar_g"?: number, "saturated_fat_g"?: number, "sodium_mg"?: number, "salt_g"?: number, "potassium_mg"?: number, "calcium_mg"?: number, "iron_mg"?: number, "vitamin_c_mg"?: number, "vitamin_d_ug"?: number },
   "items": Array<{ "name": string, "grams": number, "protein_g"?: number, "fat_g"?: number, "carbs_g"?: number }>,
   "warnings"?: string[],
   "landing_type"?: string | null,
+  "dishes"?: Array<{ "dish": string, "totals": { "kcal": number, "protein_g": number, "fat_g": number, "carbs_g": number }, "item_indexes": number[] }>,${
+    portionInstruction ? '\n  "calibration_applied"?: Array<{ "label": string }>,' : ''
+  }${clarification ? '' : `\n  ${CLARIFYING_QUESTIONS_PROMPT_TYPE},`}
   "meta"?: { "model": string, "fallback_model_used"?: boolean }
 }.
-Numbers must be floats, never strings. Calories must be > 0 when meal is realistic. Use realistic default assumptions if unspecified. The end-user locale is ${locale}; consider locale-specific context. ${languageInstruction}
+Numbers must be floats, never strings. Calories must be > 0 when meal is realistic. Use realistic default assumptions if unspecified. Always estimate micros.salt_g (salt equivalent, 食塩相当量) and micros.sodium_mg, including seasonings and sauces; omit other micros you cannot estimate. The end-user locale is ${locale}; consider locale-specific context. ${languageInstruction}
+When the meal has two or more clearly separate dishes (e.g. a set meal or a tray), also list them in "dishes"; their totals must add up to the top-level totals and "item_indexes" are the zero-based positions in "items" that belong to each dish. Omit "dishes" for a single dish.${
+    imageCount > 1
+      ? ` The ${imageCount} attached photos show the same meal, possibly from different angles; count each dish only once.`
+      : ''
+  }${portionInstruction ? `\n${portionInstruction}` : ''}
+${clarificationInstruction}
 User description: ${userMessage}`;
 }
 
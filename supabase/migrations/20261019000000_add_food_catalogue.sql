@@ -0,0 +1,31 @@
+create table if not exists "Food" (
+  "id" serial primary key,
+  "source" text not null,
+  "sourceCode" text not null,
+  "kcalPer100g" double precision not null,
+  "proteinPer100g" double precision not null,
+  "fatPer100g" double precision not null,
+  "carbsPer100g" double precision not null,
+  "servingGrams" double precision not null default 100,
+  "servingLabel" text,
+  "createdAt" timestamptz not null default now(),
+  "updatedAt" timestamptz not null default now()
+);
+
+create table if not exists "FoodName" (
+  "id" serial primary key,
+  "foodId" integer not null references "Food"("id") on delete cascade,
+  "locale" text not null,
+  "name" text not null,
+  "normalized" text not null,
+  "isAlias" boolean not null default false
+);
+
+create unique index if not exists "Food_source_sourceCode_key"
+  on "Food" ("source", "sourceCode");
+
+create unique index if not exists "FoodName_foodId_locale_name_key"
+  on "FoodName" ("foodId", "locale", "name");
+
+create index if not exists "FoodName_normalized_idx"
+  on "FoodName" ("normalized");
@@ -0,0 +1,21 @@
+create table if not exists "FoodProduct" (
+  "id" serial primary key,
+  "barcode" text not null,
+  "name" text not null,
+  "brand" text,
+  "locale" text not null,
+  "kcalPer100g" double precision not null,
+  "proteinPer100g" double precision not null,
+  "fatPer100g" double precision not null,
+  "carbsPer100g" double precision not null,
+  "servingGrams" double precision not null default 100,
+  "servingLabel" text,
+  "source" text not null,
+  "confirmed" boolean not null default false,
+  "contributedById" integer references "User"("id") on delete set null,
+  "createdAt" timestamptz not null default now(),
+  "updatedAt" timestamptz not null default now()
+);
+
+create unique index if not exists "FoodProduct_barcode_key"
+  on "FoodProduct" ("barcode");
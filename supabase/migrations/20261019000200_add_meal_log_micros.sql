@@ -0,0 +1 @@
+alter table "MealLog" add column if not exists "micros" jsonb;
@@ -0,0 +1,16 @@
+create table if not exists "MealLogItem" (
+  "id" serial primary key,
+  "mealLogId" text not null references "MealLog"("id") on delete cascade,
+  "name" text not null,
+  "grams" double precision not null,
+  "calories" double precision not null,
+  "proteinG" double precision not null,
+  "fatG" double precision not null,
+  "carbsG" double precision not null,
+  "orderIndex" integer not null default 0,
+  "createdAt" timestamptz not null default now(),
+  "updatedAt" timestamptz not null default now()
+);
+
+create index if not exists "MealLogItem_mealLogId_orderIndex_idx"
+  on "MealLogItem" ("mealLogId", "orderIndex");
@@ -0,0 +1,12 @@
+create table if not exists "WeightEntry" (
+  "id" serial primary key,
+  "userId" integer not null references "User"("id") on delete cascade,
+  "weightKg" double precision not null,
+  "recordedAt" timestamptz not null,
+  "note" text,
+  "createdAt" timestamptz not null default now(),
+  "updatedAt" timestamptz not null default now()
+);
+
+create index if not exists "WeightEntry_userId_recordedAt_idx"
+  on "WeightEntry" ("userId", "recordedAt");
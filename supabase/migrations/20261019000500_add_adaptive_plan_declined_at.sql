@@ -0,0 +1,2 @@
+alter table "UserProfile"
+  add column if not exists "adaptivePlanDeclinedAt" timestamptz;
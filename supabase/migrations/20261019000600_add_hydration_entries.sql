@@ -0,0 +1,24 @@
+do $$
+begin
+  create type "HydrationBeverage" as enum ('WATER', 'TEA', 'COFFEE', 'OTHER');
+exception
+  when duplicate_object then null;
+end $$;
+
+create table if not exists "HydrationEntry" (
+  "id" serial primary key,
+  "userId" integer not null references "User"("id") on delete cascade,
+  "amountMl" integer not null,
+  "beverage" "HydrationBeverage" not null default 'WATER',
+  "recordedAt" timestamptz not null,
+  "createdAt" timestamptz not null default now()
+);
+
+create index if not exists "HydrationEntry_userId_recordedAt_idx"
+  on "HydrationEntry" ("userId", "recordedAt");
+
+alter table "UserProfile"
+  add column if not exists "hydrationCupSizesMl" integer[] not null default '{}';
+
+alter table "NotificationSettings"
+  add column if not exists "hydrationReminderEnabled" boolean not null default false;
@@ -0,0 +1,34 @@
+create table if not exists "Recipe" (
+  "id" serial primary key,
+  "userId" integer not null references "User"("id") on delete cascade,
+  "name" text not null,
+  "notes" text,
+  "servings" double precision not null,
+  "yieldGrams" double precision,
+  "calories" double precision not null,
+  "proteinG" double precision not null,
+  "fatG" double precision not null,
+  "carbsG" double precision not null,
+  "createdAt" timestamptz not null default now(),
+  "updatedAt" timestamptz not null default now()
+);
+
+create index if not exists "Recipe_userId_updatedAt_idx"
+  on "Recipe" ("userId", "updatedAt");
+
+create table if not exists "RecipeIngredient" (
+  "id" serial primary key,
+  "recipeId" integer not null references "Recipe"("id") on delete cascade,
+  "foodId" integer references "Food"("id") on delete set null,
+  "name" text not null,
+  "grams" double precision not null,
+  "calories" double precision not null,
+  "proteinG" double precision not null,
+  "fatG" double precision not null,
+  "carbsG" double precision not null,
+  "source" text not null,
+  "orderIndex" integer not null default 0
+);
+
+create index if not exists "RecipeIngredient_recipeId_orderIndex_idx"
+  on "RecipeIngredient" ("recipeId", "orderIndex");
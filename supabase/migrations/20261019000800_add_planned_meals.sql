@@ -0,0 +1,30 @@
+do $$
+begin
+  create type "PlannedMealStatus" as enum ('PLANNED', 'EATEN');
+exception
+  when duplicate_object then null;
+end $$;
+
+create table if not exists "PlannedMeal" (
+  "id" serial primary key,
+  "userId" integer not null references "User"("id") on delete cascade,
+  "date" date not null,
+  "mealPeriod" "MealPeriod" not null,
+  "source" text not null,
+  "favoriteMealId" integer references "FavoriteMeal"("id") on delete set null,
+  "recipeId" integer references "Recipe"("id") on delete set null,
+  "name" text not null,
+  "servings" double precision not null default 1,
+  "calories" double precision not null,
+  "proteinG" double precision not null,
+  "fatG" double precision not null,
+  "carbsG" double precision not null,
+  "status" "PlannedMealStatus" not null default 'PLANNED',
+  "mealLogId" text references "MealLog"("id") on delete set null,
+  "eatenAt" timestamptz,
+  "createdAt" timestamptz not null default now(),
+  "updatedAt" timestamptz not null default now()
+);
+
+create index if not exists "PlannedMeal_userId_date_idx"
+  on "PlannedMeal" ("userId", "date");
@@ -0,0 +1,29 @@
+create table if not exists "NutritionEstimateCache" (
+  "id" serial primary key,
+  "cacheKey" text not null,
+  "promptVersion" text not null,
+  "modelVersion" text not null,
+  "response" jsonb not null,
+  "hitCount" integer not null default 0,
+  "lastHitAt" timestamptz,
+  "expiresAt" timestamptz not null,
+  "createdAt" timestamptz not null default now()
+);
+
+create unique index if not exists "NutritionEstimateCache_cacheKey_modelVersion_key"
+  on "NutritionEstimateCache" ("cacheKey", "modelVersion");
+create index if not exists "NutritionEstimateCache_promptVersion_idx"
+  on "NutritionEstimateCache" ("promptVersion");
+create index if not exists "NutritionEstimateCache_expiresAt_idx"
+  on "NutritionEstimateCache" ("expiresAt");
+
+create table if not exists "EstimateCacheMetric" (
+  "id" serial primary key,
+  "metricDate" date not null,
+  "promptVersion" text not null,
+  "hits" integer not null default 0,
+  "misses" integer not null default 0
+);
+
+create unique index if not exists "EstimateCacheMetric_metricDate_promptVersion_key"
+  on "EstimateCacheMetric" ("metricDate", "promptVersion");
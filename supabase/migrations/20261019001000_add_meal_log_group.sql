@@ -0,0 +1,4 @@
+alter table "MealLog" add column if not exists "groupId" text;
+
+create index if not exists "MealLog_groupId_idx"
+  on "MealLog" ("groupId");
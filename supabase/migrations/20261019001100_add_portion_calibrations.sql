@@ -0,0 +1,11 @@
+create table if not exists "PortionCalibration" (
+  "id" serial primary key,
+  "userId" integer not null references "User"("id") on delete cascade,
+  "label" text not null,
+  "grams" double precision not null,
+  "createdAt" timestamptz not null default now(),
+  "updatedAt" timestamptz not null default now()
+);
+
+create unique index if not exists "PortionCalibration_userId_label_key"
+  on "PortionCalibration" ("userId", "label");
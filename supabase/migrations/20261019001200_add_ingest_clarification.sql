@@ -0,0 +1 @@
+alter table "IngestRequest" add column if not exists "clarification" jsonb;
@@ -0,0 +1,36 @@
+create table if not exists "MealReanalysisJob" (
+  "id" serial primary key,
+  "status" text not null default 'running',
+  "filters" jsonb not null,
+  "promptVersion" text not null,
+  "cursor" text,
+  "processed" integer not null default 0,
+  "applied" integer not null default 0,
+  "proposed" integer not null default 0,
+  "unchanged" integer not null default 0,
+  "skipped" integer not null default 0,
+  "failed" integer not null default 0,
+  "lastError" text,
+  "createdAt" timestamptz not null default now(),
+  "updatedAt" timestamptz not null default now(),
+  "finishedAt" timestamptz
+);
+
+create table if not exists "MealLogReanalysis" (
+  "id" serial primary key,
+  "jobId" integer references "MealReanalysisJob"("id") on delete set null,
+  "mealLogId" text not null references "MealLog"("id") on delete cascade,
+  "status" text not null,
+  "promptVersion" text not null,
+  "modelVersion" text,
+  "previous" jsonb not null,
+  "response" jsonb,
+  "error" text,
+  "createdAt" timestamptz not null default now(),
+  "resolvedAt" timestamptz
+);
+
+create unique index if not exists "MealLogReanalysis_jobId_mealLogId_key"
+  on "MealLogReanalysis" ("jobId", "mealLogId");
+create index if not exists "MealLogReanalysis_mealLogId_status_idx"
+  on "MealLogReanalysis" ("mealLogId", "status");
@@ -0,0 +1,39 @@
+create table if not exists "ChainMenuItem" (
+  "id" serial primary key,
+  "source" text not null,
+  "sourceCode" text not null,
+  "locale" text not null,
+  "chain" text not null,
+  "chainKeys" text[] not null default '{}',
+  "name" text not null,
+  "sizeLabel" text,
+  "kcal" double precision not null,
+  "proteinG" double precision not null,
+  "fatG" double precision not null,
+  "carbsG" double precision not null,
+  "saltG" double precision,
+  "servingGrams" double precision,
+  "sourceUrl" text,
+  "createdAt" timestamptz not null default now(),
+  "updatedAt" timestamptz not null default now()
+);
+
+create table if not exists "ChainMenuItemName" (
+  "id" serial primary key,
+  "itemId" integer not null references "ChainMenuItem"("id") on delete cascade,
+  "name" text not null,
+  "normalized" text not null,
+  "isAlias" boolean not null default false
+);
+
+create unique index if not exists "ChainMenuItem_source_sourceCode_key"
+  on "ChainMenuItem" ("source", "sourceCode");
+
+create index if not exists "ChainMenuItem_chain_idx"
+  on "ChainMenuItem" ("chain");
+
+create unique index if not exists "ChainMenuItemName_itemId_name_key"
+  on "ChainMenuItemName" ("itemId", "name");
+
+create index if not exists "ChainMenuItemName_normalized_idx"
+  on "ChainMenuItemName" ("normalized");
@@ -0,0 +1,17 @@
+alter table "User" add column if not exists "emailVerifiedAt" timestamptz;
+
+alter table "Session" add column if not exists "userId" integer;
+create index if not exists "Session_userId_idx" on "Session" ("userId");
+
+create table if not exists "AuthToken" (
+  "id" serial primary key,
+  "userId" integer not null references "User"("id") on delete cascade,
+  "purpose" text not null,
+  "tokenHash" text not null,
+  "expiresAt" timestamptz not null,
+  "usedAt" timestamptz,
+  "createdAt" timestamptz not null default now()
+);
+
+create unique index if not exists "AuthToken_tokenHash_key" on "AuthToken" ("tokenHash");
+create index if not exists "AuthToken_userId_purpose_idx" on "AuthToken" ("userId", "purpose");
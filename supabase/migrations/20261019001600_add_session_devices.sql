@@ -0,0 +1,7 @@
+alter table "Session" add column if not exists "kind" text not null default 'cookie';
+alter table "Session" add column if not exists "deviceName" text;
+alter table "Session" add column if not exists "platform" text;
+alter table "Session" add column if not exists "userAgent" text;
+alter table "Session" add column if not exists "ipAddress" text;
+alter table "Session" add column if not exists "region" text;
+alter table "Session" add column if not exists "lastSeenAt" timestamptz not null default now();
@@ -0,0 +1,11 @@
+create table if not exists "RefreshToken" (
+  "id" serial primary key,
+  "sessionId" text not null references "Session"("sid") on delete cascade,
+  "tokenHash" text not null,
+  "expiresAt" timestamptz not null,
+  "usedAt" timestamptz,
+  "createdAt" timestamptz not null default now()
+);
+
+create unique index if not exists "RefreshToken_tokenHash_key" on "RefreshToken" ("tokenHash");
+create index if not exists "RefreshToken_sessionId_idx" on "RefreshToken" ("sessionId");
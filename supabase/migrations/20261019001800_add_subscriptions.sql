@@ -0,0 +1,46 @@
+do $$
+begin
+  create type "SubscriptionStatus" as enum ('ACTIVE', 'GRACE_PERIOD', 'BILLING_RETRY', 'EXPIRED', 'REVOKED', 'REFUNDED');
+exception
+  when duplicate_object then null;
+end $$;
+
+create table if not exists "Subscription" (
+  "id" serial primary key,
+  "userId" integer not null references "User"("id") on delete cascade,
+  "platform" "IapPlatform" not null,
+  "originalTransactionId" text not null,
+  "productId" text not null,
+  "pendingProductId" text,
+  "status" "SubscriptionStatus" not null,
+  "autoRenew" boolean not null default true,
+  "expiresAt" timestamptz,
+  "gracePeriodExpiresAt" timestamptz,
+  "revokedAt" timestamptz,
+  "lastEventAt" timestamptz,
+  "createdAt" timestamptz not null default now(),
+  "updatedAt" timestamptz not null default now()
+);
+
+create unique index if not exists "Subscription_originalTransactionId_key"
+  on "Subscription" ("originalTransactionId");
+create index if not exists "Subscription_userId_idx" on "Subscription" ("userId");
+
+create table if not exists "AppStoreNotification" (
+  "id" serial primary key,
+  "notificationUuid" text not null,
+  "notificationType" text not null,
+  "subtype" text,
+  "originalTransactionId" text,
+  "signedPayload" text not null,
+  "signedDate" timestamptz not null,
+  "processedAt" timestamptz,
+  "result" text,
+  "createdAt" timestamptz not null default now()
+);
+
+create unique index if not exists "AppStoreNotification_notificationUuid_key"
+  on "AppStoreNotification" ("notificationUuid");
+create index if not exists "AppStoreNotification_originalTransactionId_signedDate_idx"
+  on "AppStoreNotification" ("originalTransactionId", "signedDate");
+create index if not exists "AppStoreNotification_signedDate_idx" on "AppStoreNotification" ("signedDate");
@@ -0,0 +1,19 @@
+create table if not exists "FoodProductOverride" (
+  "id" serial primary key,
+  "userId" integer not null references "User"("id") on delete cascade,
+  "barcode" text not null,
+  "name" text not null,
+  "brand" text,
+  "locale" text not null,
+  "kcalPer100g" double precision not null,
+  "proteinPer100g" double precision not null,
+  "fatPer100g" double precision not null,
+  "carbsPer100g" double precision not null,
+  "servingGrams" double precision not null,
+  "servingLabel" text,
+  "createdAt" timestamptz not null default now(),
+  "updatedAt" timestamptz not null default now()
+);
+
+create unique index if not exists "FoodProductOverride_userId_barcode_key"
+  on "FoodProductOverride" ("userId", "barcode");
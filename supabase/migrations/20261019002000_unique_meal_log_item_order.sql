@@ -0,0 +1,10 @@
+delete from "MealLogItem" as duplicate
+using "MealLogItem" as original
+where duplicate."mealLogId" = original."mealLogId"
+  and duplicate."orderIndex" = original."orderIndex"
+  and duplicate."id" > original."id";
+
+drop index if exists "MealLogItem_mealLogId_orderIndex_idx";
+
+create unique index if not exists "MealLogItem_mealLogId_orderIndex_key"
+  on "MealLogItem" ("mealLogId", "orderIndex");